@@ -1,5 +1,7 @@
 import type { OrmSession } from '../orm/orm-session.js';
+import { runQuery } from '../orm/execution-context.js';
 import type { ExecutionContext } from '../orm/execution-context.js';
+import type { QueryAst } from '../orm/interceptor-pipeline.js';
 import type { Dialect, CompiledQuery } from '../core/dialect/abstract.js';
 import type { ColumnNode } from '../core/ast/expression.js';
 import type { TableDef } from '../schema/table.js';
@@ -25,12 +27,10 @@ export function createBulkExecutionContext(session: OrmSession): BulkExecutionCo
 
 export async function executeCompiled(
   ctx: BulkExecutionContext,
-  compiled: CompiledQuery
+  compiled: CompiledQuery,
+  ast?: QueryAst
 ): Promise<QueryResult[]> {
-  const payload = await ctx.executionContext.interceptors.run(
-    { sql: compiled.sql, params: compiled.params },
-    ctx.executionContext.executor
-  );
+  const payload = await runQuery(ctx.executionContext, { sql: compiled.sql, params: compiled.params, ast: compiled.ast ?? ast });
   return extractResultSets(payload);
 }
 
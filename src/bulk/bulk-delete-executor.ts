@@ -42,7 +42,7 @@ export class BulkDeleteExecutor extends BulkBaseExecutor<DeleteExecutorOptions>
 
     const builder = new DeleteQueryBuilder(this.table).where(finalWhere as ExpressionNode);
     const compiled = builder.compile(this.ctx.dialect);
-    await executeCompiled(this.ctx, compiled);
+    await executeCompiled(this.ctx, compiled, builder.getAST());
 
     return {
       processedRows: chunk.length,
@@ -79,7 +79,7 @@ export async function bulkDeleteWhere<TTable extends TableDef>(
   const compiled = builder.compile(ctx.dialect);
 
   const execute = async (): Promise<import('./bulk-types.js').BulkResult> => {
-    await executeCompiled(ctx, compiled);
+    await executeCompiled(ctx, compiled, builder.getAST());
     return { processedRows: 0, chunksExecuted: 1, returning: [] };
   };
 
@@ -63,7 +63,14 @@ export abstract class BulkBaseExecutor<TOptions extends BulkExecutorOptions> {
     const outcomes = await maybeTransaction(
       this.session,
       this.options.transactional!,
-      () => runWithConcurrency(tasks, this.options.concurrency!)
+      async () => {
+        try {
+          return await runWithConcurrency(tasks, this.options.concurrency!);
+        } finally {
+          // Chunks that already ran may have been written even if a later one failed.
+          await this.session.recordTableWrites([this.table.name]);
+        }
+      }
     );
 
     return this.options.timing
@@ -4,6 +4,7 @@ import type { OrmSession } from '../orm/orm-session.js';
 import type { BulkInsertOptions, ChunkOutcome, InsertRow } from './bulk-types.js';
 import { BulkBaseExecutor, type BulkExecutorOptions } from './bulk-executor.base.js';
 import { resolveReturningColumns, flattenQueryResults, executeCompiled } from './bulk-context.js';
+import { convertRowFromDb } from '../schema/value-converter.js';
 import type { ValueOperandInput } from '../core/ast/expression.js';
 
 interface InsertExecutorOptions extends BulkExecutorOptions {
@@ -42,18 +43,18 @@ export class BulkInsertExecutor extends BulkBaseExecutor<InsertExecutorOptions>
       }
     }
 
-    const finalBuilder = builder as InsertQueryBuilder<unknown>;
+    let finalBuilder = builder as InsertQueryBuilder<unknown>;
 
     if (returningColumns?.length) {
-      finalBuilder.returning(...returningColumns);
+      finalBuilder = finalBuilder.returning(...returningColumns);
     }
 
     const compiled = finalBuilder.compile(this.ctx.dialect);
-    const resultSets = await executeCompiled(this.ctx, compiled);
+    const resultSets = await executeCompiled(this.ctx, compiled, finalBuilder.getAST());
 
     return {
       processedRows: chunk.length,
-      returning: returningColumns ? flattenQueryResults(resultSets) : [],
+      returning: returningColumns ? flattenQueryResults(resultSets).map(row => convertRowFromDb(this.table, row)) : [],
       elapsedMs: 0,
     };
   }
@@ -8,6 +8,7 @@ import type { ValueOperandInput } from '../core/ast/expression.js';
 import type { ExpressionNode } from '../core/ast/expression-nodes.js';
 import { BulkBaseExecutor, type BulkExecutorOptions } from './bulk-executor.base.js';
 import { resolveReturningColumns, flattenQueryResults, executeCompiled, createBulkExecutionContext } from './bulk-context.js';
+import { convertRowFromDb } from '../schema/value-converter.js';
 import { splitIntoChunks, runWithConcurrency, runChunk, maybeTransaction, aggregateOutcomes, aggregateOutcomesWithTimings } from './bulk-utils.js';
 
 interface UpdateExecutorOptions extends BulkExecutorOptions {
@@ -80,10 +81,10 @@ export class BulkUpdateExecutor extends BulkBaseExecutor<UpdateExecutorOptions>
       }
 
       const compiled = builder.compile(this.ctx.dialect);
-      const resultSets = await executeCompiled(this.ctx, compiled);
+      const resultSets = await executeCompiled(this.ctx, compiled, builder.getAST());
 
       if (returningColumns) {
-        allReturning.push(...flattenQueryResults(resultSets));
+        allReturning.push(...flattenQueryResults(resultSets).map(row => convertRowFromDb(this.table, row)));
       }
     }
 
@@ -162,11 +163,11 @@ export async function bulkUpdateWhere<TTable extends TableDef>(
         }
 
         const compiled = builder.compile(ctx.dialect);
-        const resultSets = await executeCompiled(ctx, compiled);
+        const resultSets = await executeCompiled(ctx, compiled, builder.getAST());
 
         return {
           processedRows: chunk.length,
-          returning: returningColumns ? flattenQueryResults(resultSets) : [],
+          returning: returningColumns ? flattenQueryResults(resultSets).map(row => convertRowFromDb(table, row)) : [],
           elapsedMs: 0,
         };
       },
@@ -7,6 +7,7 @@ import type { ValueOperandInput } from '../core/ast/expression.js';
 import type { ColumnNode } from '../core/ast/expression.js';
 import { BulkBaseExecutor, type BulkExecutorOptions } from './bulk-executor.base.js';
 import { resolveReturningColumns, flattenQueryResults, executeCompiled } from './bulk-context.js';
+import { convertRowFromDb } from '../schema/value-converter.js';
 
 interface UpsertExecutorOptions extends BulkExecutorOptions {
   conflictColumns?: string[];
@@ -61,18 +62,18 @@ export class BulkUpsertExecutor extends BulkBaseExecutor<UpsertExecutorOptions>
         .doUpdate(set);
     }
 
-    const finalBuilder = builder as InsertQueryBuilder<unknown>;
+    let finalBuilder = builder as InsertQueryBuilder<unknown>;
 
     if (returningColumns?.length) {
-      finalBuilder.returning(...returningColumns);
+      finalBuilder = finalBuilder.returning(...returningColumns);
     }
 
     const compiled = finalBuilder.compile(this.ctx.dialect);
-    const resultSets = await executeCompiled(this.ctx, compiled);
+    const resultSets = await executeCompiled(this.ctx, compiled, finalBuilder.getAST());
 
     return {
       processedRows: chunk.length,
-      returning: returningColumns ? flattenQueryResults(resultSets) : [],
+      returning: returningColumns ? flattenQueryResults(resultSets).map(row => convertRowFromDb(this.table, row)) : [],
       elapsedMs: 0,
     };
   }
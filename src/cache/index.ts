@@ -28,3 +28,6 @@ export { QueryCacheManager } from './query-cache-manager.js';
 
 // Tag Index
 export { TagIndex } from './tag-index.js';
+
+// Auto-invalidation
+export { tableCacheTag, collectQueryTables, collectRelationTables } from './table-dependencies.js';
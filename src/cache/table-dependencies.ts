@@ -0,0 +1,64 @@
+import type {
+  DeleteQueryNode,
+  InsertQueryNode,
+  MergeQueryNode,
+  SelectQueryNode,
+  UpdateQueryNode
+} from '../core/ast/query.js';
+import type { RelationDef } from '../schema/relation.js';
+import { RelationKinds } from '../schema/relation.js';
+
+const TABLE_TAG_PREFIX = 'table:';
+
+/**
+ * Tag usada para ligar uma entrada de cache a uma tabela lida pela query.
+ * Escritas na tabela invalidam a tag (autoInvalidate).
+ */
+export const tableCacheTag = (table: string): string => `${TABLE_TAG_PREFIX}${table}`;
+
+/**
+ * Coleta todas as tabelas referenciadas por uma query:
+ * FROM, joins (incluindo os gerados por include), CTEs, subqueries e derived tables.
+ * Em INSERT/UPDATE/DELETE/MERGE a tabela alvo vem primeiro.
+ * @param ast - AST da query
+ * @returns Nomes das tabelas, sem repetição
+ */
+export const collectQueryTables = (
+  ast: SelectQueryNode | InsertQueryNode | UpdateQueryNode | DeleteQueryNode | MergeQueryNode
+): string[] => {
+  const tables = new Set<string>();
+  const seen = new WeakSet<object>();
+
+  const visit = (value: unknown): void => {
+    if (!value || typeof value !== 'object' || seen.has(value)) return;
+    seen.add(value);
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    const node = value as Record<string, unknown>;
+    if (node.type === 'Table' && typeof node.name === 'string') {
+      tables.add(node.name);
+    }
+    Object.values(node).forEach(visit);
+  };
+
+  visit(ast);
+  return Array.from(tables);
+};
+
+/**
+ * Tabelas lidas ao carregar uma relação fora da query principal (ex.: includeLazy).
+ * @param relation - Definição da relação
+ * @returns Nomes das tabelas alvo (e pivot, quando existir)
+ */
+export const collectRelationTables = (relation: RelationDef): string[] => {
+  switch (relation.type) {
+    case RelationKinds.BelongsToMany:
+      return [relation.target.name, relation.pivotTable.name];
+    case RelationKinds.MorphTo:
+      return Object.values(relation.targets).map(target => target.name);
+    default:
+      return [relation.target.name];
+  }
+};
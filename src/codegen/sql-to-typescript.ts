@@ -0,0 +1,49 @@
+import { parseSql, SqlParseOptions, SqlStatementNode } from '../core/sql/parser/sql-parser.js';
+import { createSqlDiagnostic, type SqlDiagnostic } from '../core/sql/parser/diagnostics.js';
+import { NamingStrategy } from './naming-strategy.js';
+import { TypeScriptGenerator } from './typescript.js';
+
+/**
+ * Options for converting SQL text into query builder code
+ */
+export interface SqlToTypeScriptOptions extends SqlParseOptions {
+  /** Naming strategy for table symbols in the generated code */
+  namingStrategy?: NamingStrategy;
+}
+
+/**
+ * Result of converting SQL text into query builder code
+ */
+export interface SqlToTypeScriptResult {
+  /** Generated TypeScript; undefined when the SQL has errors */
+  code?: string;
+  /** Parsed statement AST */
+  ast?: SqlStatementNode;
+  /** Syntax errors, unsupported constructs and warnings */
+  diagnostics: SqlDiagnostic[];
+}
+
+/**
+ * Converts a raw SQL statement into equivalent metal-orm query builder code,
+ * e.g. to migrate hand-written queries. Placeholders become literals when `params` are given.
+ * @param sql - SELECT, INSERT, UPDATE or DELETE statement
+ * @param options - Dialect, placeholder values and naming strategy
+ * @returns Generated code (when the SQL is supported) and the parser diagnostics
+ * @example
+ * const { code, diagnostics } = sqlToTypeScript('SELECT u.id FROM users u WHERE u.id = ?', {
+ *   dialect: 'mysql',
+ *   params: [1]
+ * });
+ */
+export const sqlToTypeScript = (sql: string, options: SqlToTypeScriptOptions = {}): SqlToTypeScriptResult => {
+  const { namingStrategy, ...parseOptions } = options;
+  const { ast, diagnostics } = parseSql(sql, parseOptions);
+  if (!ast) return { diagnostics };
+  try {
+    return { code: new TypeScriptGenerator(namingStrategy).generate(ast), ast, diagnostics };
+  } catch (error) {
+    // The generator has no source positions; report what it cannot print at the start of the statement.
+    const message = error instanceof Error ? error.message : String(error);
+    return { ast, diagnostics: [...diagnostics, createSqlDiagnostic(sql, 0, 'unsupported-construct', message)] };
+  }
+};
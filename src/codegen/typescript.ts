@@ -1,4 +1,13 @@
-import { OrderingTerm, SelectQueryNode } from '../core/ast/query.js';
+import {
+  DeleteQueryNode,
+  GroupingSetsNode,
+  InsertQueryNode,
+  OrderingTerm,
+  SelectQueryNode,
+  TableSourceNode,
+  UpdateQueryNode,
+  isGroupingSetsNode
+} from '../core/ast/query.js';
 import {
   ExpressionNode,
   OperandNode,
@@ -14,12 +23,15 @@ import {
   CaseExpressionNode,
   WindowFunctionNode,
   ArithmeticExpressionNode,
+  BitwiseExpressionNode,
   ColumnNode,
   LiteralNode,
   FunctionNode,
   AliasRefNode,
   CastExpressionNode,
   CollateExpressionNode,
+  WindowDefinitionNode,
+  WindowFrameBound,
   ExpressionVisitor,
   OperandVisitor,
   visitExpression,
@@ -36,6 +48,21 @@ const assertNever = (value: never): never => {
   throw new Error(`Unhandled SQL operator: ${value}`);
 };
 
+const ARITHMETIC_BUILDERS: Record<ArithmeticExpressionNode['operator'], string> = {
+  '+': 'add',
+  '-': 'sub',
+  '*': 'mul',
+  '/': 'div'
+};
+
+const BITWISE_BUILDERS: Record<BitwiseExpressionNode['operator'], string> = {
+  '&': 'bitAnd',
+  '|': 'bitOr',
+  '^': 'bitXor',
+  '<<': 'shiftLeft',
+  '>>': 'shiftRight'
+};
+
 /**
  * Generates TypeScript code from query AST nodes
  */
@@ -47,21 +74,99 @@ type SelectionColumn =
   | WindowFunctionNode
   | CastExpressionNode;
 
+type StatementNode = SelectQueryNode | InsertQueryNode | UpdateQueryNode | DeleteQueryNode;
+
 export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVisitor<string> {
+  // Table aliases of the queries being printed (innermost last), so aliased columns print as table symbols
+  private readonly aliasScopes: Map<string, string>[] = [];
+
   constructor(private namingStrategy: NamingStrategy = new DefaultNamingStrategy()) { }
 
   /**
    * Generates TypeScript code from a query AST
-   * @param ast - Query AST to generate code from
+   * @param ast - SELECT, INSERT, UPDATE or DELETE AST to generate code from
    * @returns Generated TypeScript code
    */
-  generate(ast: SelectQueryNode): string {
+  generate(ast: StatementNode): string {
+    if (ast.type !== 'SelectQuery') {
+      const chainLines = this.buildMutationLines(ast);
+      const lines = chainLines.map((line, index) => (index === 0 ? `const query = ${line}` : line));
+      lines.push(';');
+      return lines.join('\n');
+    }
     const chainLines = this.buildSelectLines(ast);
     const lines = chainLines.map((line, index) => (index === 0 ? `const query = ${line}` : line));
     lines.push(';', '', 'await query.execute();');
     return lines.join('\n');
   }
 
+  /**
+   * Builds insertInto/update/deleteFrom method chain lines from a DML AST
+   * @param ast - INSERT, UPDATE or DELETE AST
+   * @returns Array of TypeScript method chain lines
+   */
+  private buildMutationLines(ast: InsertQueryNode | UpdateQueryNode | DeleteQueryNode): string[] {
+    const lines: string[] = [];
+    const table = ast.type === 'InsertQuery' ? ast.into : ast.type === 'UpdateQuery' ? ast.table : ast.from;
+    const sources: (TableSourceNode | undefined)[] = [table];
+    if (ast.type === 'UpdateQuery') sources.push(ast.from);
+    if (ast.type === 'DeleteQuery') sources.push(ast.using);
+    if (ast.type !== 'InsertQuery') sources.push(...(ast.joins ?? []).map(join => join.table));
+    this.aliasScopes.push(this.collectAliases(sources));
+
+    const symbol = this.namingStrategy.tableToSymbol(table);
+    const assignments = (set: { column: ColumnNode; value: OperandNode }[]) =>
+      `{ ${set.map(a => `${a.column.name}: ${this.printOperand(a.value)}`).join(', ')} }`;
+
+    if (ast.type === 'InsertQuery') {
+      lines.push(`insertInto(${symbol})`);
+      if (ast.source.type === 'InsertValues') {
+        const rows = ast.source.rows.map(row =>
+          `{ ${row.map((value, index) => `${ast.columns[index].name}: ${this.printOperand(value)}`).join(', ')} }`
+        );
+        lines.push(rows.length === 1 ? `.values(${rows[0]})` : `.values([\n  ${rows.join(',\n  ')}\n])`);
+      } else {
+        const columns = ast.columns.map(column => this.printColumnOperand(column));
+        lines.push(`.columns(${columns.join(', ')})`);
+        lines.push(`.fromSelect(${this.inlineChain(this.buildSelectLines(ast.source.query))})`);
+      }
+      if (ast.onConflict) {
+        const { target, action } = ast.onConflict;
+        const columns = `[${target.columns.map(column => this.printColumnOperand(column)).join(', ')}]`;
+        lines.push(`.onConflict(${columns}${target.constraint ? `, '${target.constraint}'` : ''})`);
+        if (action.type === 'DoNothing') {
+          lines.push('.doNothing()');
+        } else {
+          const where = action.where ? `, ${this.printExpression(action.where)}` : '';
+          lines.push(`.doUpdate(${assignments(action.set)}${where})`);
+        }
+      }
+    } else if (ast.type === 'UpdateQuery') {
+      lines.push(`update(${symbol})`);
+      if (ast.table.alias) lines.push(`.as('${ast.table.alias}')`);
+      lines.push(`.set(${assignments(ast.set)})`);
+      if (ast.from) lines.push(`.from(${this.namingStrategy.tableToSymbol(ast.from)})`);
+      ast.joins?.forEach(join => {
+        const kind = join.kind === 'INNER' ? '' : `, '${join.kind}'`;
+        lines.push(`.join(${this.namingStrategy.tableToSymbol(join.table)}, ${this.printExpression(join.condition)}${kind})`);
+      });
+    } else {
+      lines.push(`deleteFrom(${symbol})`);
+      if (ast.from.alias) lines.push(`.as('${ast.from.alias}')`);
+      if (ast.using) lines.push(`.using(${this.namingStrategy.tableToSymbol(ast.using)})`);
+    }
+
+    if (ast.type !== 'InsertQuery' && ast.where) {
+      lines.push(`.where(${this.printExpression(ast.where)})`);
+    }
+    if (ast.returning?.length) {
+      lines.push(`.returning(${ast.returning.map(column => this.printColumnOperand(column)).join(', ')})`);
+    }
+
+    this.aliasScopes.pop();
+    return lines;
+  }
+
   /**
    * Builds TypeScript method chain lines from query AST
    * @param ast - Query AST
@@ -69,6 +174,7 @@ export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVi
    */
   private buildSelectLines(ast: SelectQueryNode): string[] {
     const lines: string[] = [];
+    this.aliasScopes.push(this.collectAliases([ast.from, ...ast.joins.map(join => join.table)]));
     const hydration = (ast.meta as HydrationMetadata | undefined)?.hydration;
     const hydratedRelations = new Set(hydration?.relations?.map(r => r.name) ?? []);
 
@@ -81,10 +187,16 @@ export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVi
       lines.push(`  ${sel}${index < selections.length - 1 ? ',' : ''}`);
     });
     lines.push(`})`);
-    lines.push(`.from(${this.namingStrategy.tableToSymbol(ast.from)})`);
+    lines.push(this.printFrom(ast.from));
+
+    ast.ctes?.forEach(cte => {
+      const method = cte.recursive ? 'withRecursive' : 'with';
+      const columns = cte.columns?.length ? `, [${cte.columns.map(c => `'${c}'`).join(', ')}]` : '';
+      lines.push(`.${method}('${cte.name}', ${this.inlineChain(this.buildSelectLines(cte.query))}${columns})`);
+    });
 
     if (ast.distinct && ast.distinct.length) {
-      const cols = ast.distinct.map(c => `${this.namingStrategy.tableToSymbol(c.table)}.${c.name}`).join(', ');
+      const cols = ast.distinct.map(c => this.printColumnOperand(c)).join(', ');
       lines.push(`.distinct(${cols})`);
     }
 
@@ -100,6 +212,13 @@ export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVi
         } else {
           lines.push(`.joinRelation('${relationName}', '${join.kind}')`);
         }
+      } else if (join.table.type === 'DerivedTable') {
+        const subquery = this.inlineChain(this.buildSelectLines(join.table.query));
+        const columns = join.table.columnAliases?.length
+          ? `, [${join.table.columnAliases.map(c => `'${c}'`).join(', ')}]`
+          : '';
+        const cond = this.printExpression(join.condition);
+        lines.push(`.joinSubquery(${subquery}, '${join.table.alias}', ${cond}, '${join.kind}'${columns})`);
       } else {
         const table = this.namingStrategy.tableToSymbol(join.table);
         const cond = this.printExpression(join.condition);
@@ -125,14 +244,27 @@ export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVi
     }
 
     if (ast.groupBy && ast.groupBy.length) {
-      const cols = ast.groupBy.map(term => this.printOrderingTerm(term)).join(', ');
-      lines.push(`.groupBy(${cols})`);
+      const plain = ast.groupBy.filter(term => !isGroupingSetsNode(term)) as OrderingTerm[];
+      if (plain.length) {
+        const cols = plain.map(term => this.printOrderingTerm(term)).join(', ');
+        lines.push(`.groupBy(${cols})`);
+      }
+      ast.groupBy.filter(isGroupingSetsNode).forEach(node => lines.push(this.printGroupingSets(node)));
     }
 
     if (ast.having) {
       lines.push(`.having(${this.printExpression(ast.having)})`);
     }
 
+    ast.windows?.forEach(window => {
+      lines.push(`.window('${window.name}', ${this.printWindowSpec(window.definition)})`);
+    });
+
+    ast.setOps?.forEach(op => {
+      const method = { UNION: 'union', 'UNION ALL': 'unionAll', INTERSECT: 'intersect', EXCEPT: 'except' }[op.operator];
+      lines.push(`.${method}(${this.inlineChain(this.buildSelectLines(op.query))})`);
+    });
+
     if (ast.orderBy && ast.orderBy.length) {
       ast.orderBy.forEach(o => {
         const term = this.printOrderingTerm(o.term);
@@ -151,9 +283,72 @@ export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVi
     if (ast.limit) lines.push(`.limit(${ast.limit})`);
     if (ast.offset) lines.push(`.offset(${ast.offset})`);
 
+    if (ast.lock) {
+      lines.push(ast.lock.mode === 'SHARE' ? '.forShare()' : '.forUpdate()');
+      if (ast.lock.of?.length) {
+        lines.push(`.of(${ast.lock.of.map(table => `'${table.alias ?? table.name}'`).join(', ')})`);
+      }
+      if (ast.lock.wait === 'SKIP LOCKED') lines.push('.skipLocked()');
+      if (ast.lock.wait === 'NOWAIT') lines.push('.noWait()');
+    }
+
+    this.aliasScopes.pop();
     return lines;
   }
 
+  /**
+   * Prints the FROM source as `.from()`, `.fromSubquery()` or `.fromFunctionTable()`
+   * @param from - FROM source
+   * @returns TypeScript method call
+   */
+  private printFrom(from: TableSourceNode): string {
+    if (from.type === 'DerivedTable') {
+      const columns = from.columnAliases?.length ? `, [${from.columnAliases.map(c => `'${c}'`).join(', ')}]` : '';
+      return `.fromSubquery(${this.inlineChain(this.buildSelectLines(from.query))}, '${from.alias}'${columns})`;
+    }
+    if (from.type === 'FunctionTable') {
+      const args = `[${(from.args ?? []).map(arg => this.printOperand(arg)).join(', ')}]`;
+      const options: string[] = [];
+      if (from.lateral) options.push('lateral: true');
+      if (from.withOrdinality) options.push('withOrdinality: true');
+      if (from.columnAliases?.length) options.push(`columnAliases: [${from.columnAliases.map(c => `'${c}'`).join(', ')}]`);
+      if (from.schema) options.push(`schema: '${from.schema}'`);
+      const alias = from.alias ? `'${from.alias}'` : 'undefined';
+      const tail = options.length ? `, ${alias}, { ${options.join(', ')} }` : from.alias ? `, ${alias}` : '';
+      return `.fromFunctionTable('${from.name}', ${args}${tail})`;
+    }
+    return `.from(${this.namingStrategy.tableToSymbol(from)})`;
+  }
+
+  /**
+   * Maps table aliases of the given sources to their table names
+   * @param sources - FROM, USING and JOIN sources
+   * @returns Alias to table name map
+   */
+  private collectAliases(sources: (TableSourceNode | undefined)[]): Map<string, string> {
+    const aliases = new Map<string, string>();
+    sources.forEach(source => {
+      if (source?.type === 'Table' && source.alias) aliases.set(source.alias, source.name);
+    });
+    return aliases;
+  }
+
+  /**
+   * Resolves a column's table reference (name or alias) to the table name
+   * @param table - Table name or alias
+   * @returns Table name
+   */
+  private resolveTableName(table: TableSourceNode | string): string {
+    if (typeof table !== 'string') {
+      return table.type === 'DerivedTable' ? table.alias : table.name;
+    }
+    for (let i = this.aliasScopes.length - 1; i >= 0; i--) {
+      const name = this.aliasScopes[i].get(table);
+      if (name) return name;
+    }
+    return table;
+  }
+
   /**
    * Prints an expression node to TypeScript code
    * @param expr - Expression node to print
@@ -169,9 +364,24 @@ export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVi
    * @returns TypeScript code representation
    */
   private printOperand(node: OperandNode): string {
+    // Arithmetic and bitwise operands are dispatched by the expression visitor only.
+    if (node.type === 'ArithmeticExpression') return this.printArithmeticExpression(node);
+    if (node.type === 'BitwiseExpression') return this.printBitwiseExpression(node);
     return visitOperand(node, this);
   }
 
+  /**
+   * Prints a ROLLUP/CUBE/GROUPING SETS element as its builder call.
+   */
+  private printGroupingSets(node: GroupingSetsNode): string {
+    if (node.kind === 'GROUPING SETS') {
+      const sets = node.sets.map(set => `[${set.map(term => this.printOrderingTerm(term)).join(', ')}]`);
+      return `.groupByGroupingSets(${sets.join(', ')})`;
+    }
+    const method = node.kind === 'ROLLUP' ? 'groupByRollup' : 'groupByCube';
+    return `.${method}(${node.sets.map(set => this.printOrderingTerm(set[0])).join(', ')})`;
+  }
+
   /**
    * Prints an ordering term (operand/expression/alias) to TypeScript code.
    */
@@ -182,7 +392,7 @@ export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVi
 
     switch (term.type) {
       case 'Column':
-        return `${this.namingStrategy.tableToSymbol(term.table)}.${term.name}`;
+        return this.printColumnOperand(term);
       case 'AliasRef':
         return this.visitAliasRef(term);
       case 'Literal':
@@ -245,6 +455,10 @@ export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVi
     return this.printArithmeticExpression(arithExpr);
   }
 
+  public visitBitwiseExpression(bitwiseExpr: BitwiseExpressionNode): string {
+    return this.printBitwiseExpression(bitwiseExpr);
+  }
+
   public visitColumn(node: ColumnNode): string {
     return this.printColumnOperand(node);
   }
@@ -320,9 +534,13 @@ export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVi
   }
 
   private printArithmeticExpression(expr: ArithmeticExpressionNode): string {
-    const left = this.printOperand(expr.left);
-    const right = this.printOperand(expr.right);
-    return `${left} ${expr.operator} ${right}`;
+    const fn = ARITHMETIC_BUILDERS[expr.operator];
+    return `${fn}(${this.printOperand(expr.left)}, ${this.printOperand(expr.right)})`;
+  }
+
+  private printBitwiseExpression(expr: BitwiseExpressionNode): string {
+    const fn = BITWISE_BUILDERS[expr.operator];
+    return `${fn}(${this.printOperand(expr.left)}, ${this.printOperand(expr.right)})`;
   }
 
   /**
@@ -380,7 +598,7 @@ export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVi
    * @returns TypeScript code representation
    */
   private printColumnOperand(column: ColumnNode): string {
-    return `${this.namingStrategy.tableToSymbol(column.table)}.${column.name}`;
+    return `${this.namingStrategy.tableToSymbol(this.resolveTableName(column.table))}.${column.name}`;
   }
 
   /**
@@ -390,7 +608,9 @@ export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVi
    */
   private printLiteralOperand(literal: LiteralNode): string {
     if (literal.value === null) return 'null';
-    return typeof literal.value === 'string' ? `'${literal.value}'` : String(literal.value);
+    return typeof literal.value === 'string'
+      ? `'${literal.value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+      : String(literal.value);
   }
 
   /**
@@ -400,7 +620,8 @@ export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVi
    */
   private printFunctionOperand(fn: FunctionNode): string {
     const args = fn.args.map(a => this.printOperand(a)).join(', ');
-    return `${fn.name.toLowerCase()}(${args})`;
+    const filter = fn.aggregateFilter ? `.filter(${this.printExpression(fn.aggregateFilter)})` : '';
+    return `${fn.name.toLowerCase()}(${args})${filter}`;
   }
 
   /**
@@ -409,7 +630,7 @@ export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVi
    * @returns TypeScript code representation
    */
   private printJsonPathOperand(json: JsonPathNode): string {
-    return `jsonPath(${this.namingStrategy.tableToSymbol(json.column.table)}.${json.column.name}, '${json.path}')`;
+    return `jsonPath(${this.printColumnOperand(json.column)}, '${json.path}')`;
   }
 
   /**
@@ -442,38 +663,53 @@ export class TypeScriptGenerator implements ExpressionVisitor<string>, OperandVi
    * @returns TypeScript code representation
    */
   private printWindowFunctionOperand(node: WindowFunctionNode): string {
-    let result = `${node.name}(`;
-    if (node.args.length > 0) {
-      result += node.args.map(arg => this.printOperand(arg)).join(', ');
+    const name = node.name.toLowerCase().replace(/_([a-z])/g, (_, ch: string) => ch.toUpperCase());
+    const fn = `${name}(${node.args.map(arg => this.printOperand(arg)).join(', ')})`;
+    if (node.baseWindow && !node.partitionBy && !node.orderBy && !node.frame) {
+      return `over(${fn}, '${node.baseWindow}')`;
     }
-    result += ') OVER (';
+    return `over(${fn}, ${this.printWindowSpec(node)})`;
+  }
 
+  /**
+   * Prints a window definition as the WindowSpec object accepted by over() and window()
+   * @param definition - Window definition node
+   * @returns TypeScript object literal
+   */
+  private printWindowSpec(definition: WindowDefinitionNode): string {
     const parts: string[] = [];
-
-    if (node.partitionBy && node.partitionBy.length > 0) {
-      const partitionClause =
-        'PARTITION BY ' + node.partitionBy.map(col => `${this.namingStrategy.tableToSymbol(col.table)}.${col.name}`).join(', ');
-      parts.push(partitionClause);
+    if (definition.baseWindow) parts.push(`window: '${definition.baseWindow}'`);
+    if (definition.partitionBy?.length) {
+      parts.push(`partitionBy: [${definition.partitionBy.map(col => this.printColumnOperand(col)).join(', ')}]`);
     }
-
-    if (node.orderBy && node.orderBy.length > 0) {
-      const orderClause =
-        'ORDER BY ' +
-        node.orderBy
-          .map(o => {
-            const term = this.printOrderingTerm(o.term);
-            const collation = o.collation ? ` COLLATE ${o.collation}` : '';
-            const nulls = o.nulls ? ` NULLS ${o.nulls}` : '';
-            return `${term} ${o.direction}${collation}${nulls}`;
-          })
-          .join(', ');
-      parts.push(orderClause);
+    if (definition.orderBy?.length) {
+      const orderBy = definition.orderBy.map(o => {
+        const direction = o.direction === 'DESC' ? `, direction: 'DESC'` : '';
+        return `{ column: ${this.printOrderingTerm(o.term)}${direction} }`;
+      });
+      parts.push(`orderBy: [${orderBy.join(', ')}]`);
+    }
+    if (definition.frame) {
+      const { unit, start, end } = definition.frame;
+      const bounds = [start, end ?? { kind: 'CURRENT ROW' }].map(bound => this.printFrameBound(bound));
+      parts.push(`frame: ${unit.toLowerCase()}Between(${bounds.join(', ')})`);
+    }
+    return parts.length ? `{ ${parts.join(', ')} }` : '{}';
+  }
+
+  private printFrameBound(bound: WindowFrameBound): string {
+    switch (bound.kind) {
+      case 'UNBOUNDED PRECEDING':
+        return 'unboundedPreceding()';
+      case 'UNBOUNDED FOLLOWING':
+        return 'unboundedFollowing()';
+      case 'CURRENT ROW':
+        return 'currentRow()';
+      case 'PRECEDING':
+        return `preceding(${bound.offset})`;
+      default:
+        return `following(${bound.offset})`;
     }
-
-    result += parts.join(' ');
-    result += ')';
-
-    return result;
   }
 
   private printCastOperand(node: CastExpressionNode): string {
@@ -1,15 +1,39 @@
-import { ColumnNode } from './expression-nodes.js';
+import { ColumnNode, ExpressionNode, FunctionNode } from './expression-nodes.js';
 import { columnOperand, valueToOperand, ValueOperandInput } from './expression-builders.js';
 import { ColumnRef } from './types.js';
 import { OrderByNode } from './query.js';
 import { TypedExpression, asType } from './expression.js';
 import { ORDER_DIRECTIONS, OrderDirection } from '../sql/sql.js';
 
-const buildAggregate = (name: string) => (col: ColumnRef | ColumnNode): TypedExpression<number> => asType<number>({
-  type: 'Function',
-  name,
-  args: [columnOperand(col)]
-});
+/**
+ * Aggregate expression that can be restricted with a FILTER (WHERE ...) predicate.
+ */
+export type AggregateExpression<T> = TypedExpression<T> & {
+  /**
+   * Aggregates only the rows matching the condition.
+   * Rendered as FILTER (WHERE ...) on PostgreSQL/SQLite and as a CASE WHEN argument elsewhere.
+   * @param condition - Row predicate
+   * @returns A new aggregate expression carrying the filter
+   */
+  filter(condition: ExpressionNode): AggregateExpression<T>;
+};
+
+// The method is non-enumerable so the node stays plain AST data for comparisons and cloning.
+const asAggregate = <T>(node: FunctionNode): AggregateExpression<T> => {
+  const expr = asType<T>(node);
+  Object.defineProperty(expr, 'filter', {
+    value: (condition: ExpressionNode) => asAggregate<T>({ ...node, aggregateFilter: condition }),
+    enumerable: false
+  });
+  return expr as AggregateExpression<T>;
+};
+
+const buildAggregate = (name: string) => (col: ColumnRef | ColumnNode): AggregateExpression<number> =>
+  asAggregate<number>({
+    type: 'Function',
+    name,
+    args: [columnOperand(col)]
+  });
 
 /**
  * Creates a COUNT function expression
@@ -49,9 +73,9 @@ export const max = buildAggregate('MAX');
 /**
  * Creates a COUNT(*) function expression.
  * 
- * @returns A `TypedExpression<number>` representing the `COUNT(*)` SQL function.
+ * @returns An `AggregateExpression<number>` representing the `COUNT(*)` SQL function.
  */
-export const countAll = (): TypedExpression<number> => asType<number>({
+export const countAll = (): AggregateExpression<number> => asAggregate<number>({
   type: 'Function',
   name: 'COUNT',
   args: []
@@ -78,7 +102,7 @@ const toOrderByNode = (order: GroupConcatOrderByInput): OrderByNode => ({
  * 
  * @param col - Column or expression to aggregate.
  * @param options - Optional separator and ordering.
- * @returns A `TypedExpression<string>` representing the `GROUP_CONCAT` SQL function.
+ * @returns An `AggregateExpression<string>` representing the `GROUP_CONCAT` SQL function.
  * 
  * @example
  * groupConcat(users.name, { separator: ', ', orderBy: [{ column: users.name }] });
@@ -86,7 +110,7 @@ const toOrderByNode = (order: GroupConcatOrderByInput): OrderByNode => ({
 export const groupConcat = (
   col: ColumnRef | ColumnNode,
   options?: GroupConcatOptions
-): TypedExpression<string> => asType<string>({
+): AggregateExpression<string> => asAggregate<string>({
   type: 'Function',
   name: 'GROUP_CONCAT',
   args: [columnOperand(col)],
@@ -107,3 +131,15 @@ export const stddev = buildAggregate('STDDEV');
  * @returns Function node with VARIANCE
  */
 export const variance = buildAggregate('VARIANCE');
+
+/**
+ * Creates a GROUPING() function expression, which returns 1 for rows where the
+ * given columns were rolled up by ROLLUP/CUBE/GROUPING SETS and 0 otherwise.
+ * @param cols - Grouped columns (SQL Server accepts a single column)
+ * @returns Function node with GROUPING
+ */
+export const grouping = (...cols: (ColumnRef | ColumnNode)[]): TypedExpression<number> => asType<number>({
+  type: 'Function',
+  name: 'GROUPING',
+  args: cols.map(col => columnOperand(col))
+});
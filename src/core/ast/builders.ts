@@ -1,6 +1,7 @@
 import { ColumnNode, OperandNode } from './expression-nodes.js';
-import { TableNode, FunctionTableNode, DerivedTableNode } from './query.js';
+import { TableNode, FunctionTableNode, DerivedTableNode, TABLE_DEFINITION } from './query.js';
 import { ColumnRef, TableRef } from './types.js';
+import type { TableDef } from '../../schema/table.js';
 
 /**
  * Type guard to check if a column is already a ColumnNode
@@ -62,13 +63,16 @@ export const buildColumnNodes = (table: TableRef, names: string[]): ColumnNode[]
   }));
 
 /**
- * Builds a table AST node for the provided table definition
+ * Builds a table AST node for the provided table definition, keeping the definition on the node
  * @param table - Table definition
+ * @param alias - Optional table alias
  */
-export const createTableNode = (table: TableRef): TableNode => ({
+export const createTableNode = (table: TableDef, alias?: string): TableNode => ({
   type: 'Table',
   name: table.name,
-  schema: (table as unknown as { schema?: string }).schema
+  schema: table.schema,
+  ...(alias ? { alias } : {}),
+  [TABLE_DEFINITION]: table
 });
 
 /**
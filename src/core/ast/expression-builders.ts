@@ -1,6 +1,8 @@
 import { SelectQueryNode } from './query.js';
 import { SqlOperator, BitwiseOperator } from '../sql/sql.js';
 import { ColumnRef } from './types.js';
+import type { ColumnDef } from '../../schema/column-types.js';
+import { toDbValue } from '../../schema/value-converter.js';
 import {
   ColumnNode,
   LiteralNode,
@@ -112,6 +114,24 @@ export const valueToOperand = (value: ValueOperandInput): OperandNode => {
  */
 const toOperand = (val: OperandNode | ColumnRef | LiteralValue): OperandNode => toOperandNode(val);
 
+const isColumnRefLike = (value: unknown): boolean =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as ColumnRef).name === 'string' &&
+  typeof (value as ColumnRef).table === 'string';
+
+/**
+ * Applies the value converter of a column operand to a value compared with it.
+ * Operands and column references are left untouched.
+ * @param column - Left-hand operand (a ColumnDef carries its converter)
+ * @param value - Right-hand value
+ * @returns The value to bind
+ */
+const bindColumnValue = <T>(column: unknown, value: T): T => {
+  if (isOperandNode(value) || isColumnRefLike(value)) return value;
+  return toDbValue(column as Pick<ColumnDef, 'converter'>, value) as T;
+};
+
 export const isValueOperandInput = (value: unknown): value is ValueOperandInput =>
   isOperandNode(value) || isLiteralValue(value);
 
@@ -173,7 +193,8 @@ const createBinaryExpression = (
     type: 'BinaryExpression',
     left: toOperandNode(left),
     operator,
-    right: toOperand(right)
+    // LIKE patterns are not column values, so converters only apply to comparisons.
+    right: toOperand(operator.includes('LIKE') ? right : bindColumnValue(left, right))
   };
 
   if (escape !== undefined) {
@@ -418,7 +439,7 @@ const createInExpression = (
  * inList(users.status, ['active', 'pending']);
  */
 export const inList = (left: OperandNode | ColumnRef, values: (string | number | LiteralNode)[]): InExpressionNode =>
-  createInExpression('IN', left, values.map(v => toOperand(v)));
+  createInExpression('IN', left, values.map(v => toOperand(bindColumnValue(left, v))));
 
 /**
  * Creates a NOT IN list check (`left NOT IN (v1, v2, ...)`).
@@ -431,7 +452,7 @@ export const inList = (left: OperandNode | ColumnRef, values: (string | number |
  * notInList(users.id, [1, 2, 3]);
  */
 export const notInList = (left: OperandNode | ColumnRef, values: (string | number | LiteralNode)[]): InExpressionNode =>
-  createInExpression('NOT IN', left, values.map(v => toOperand(v)));
+  createInExpression('NOT IN', left, values.map(v => toOperand(bindColumnValue(left, v))));
 
 /**
  * Creates an IN subquery check (`left IN (SELECT ...)`).
@@ -474,8 +495,8 @@ const createBetweenExpression = (
   type: 'BetweenExpression',
   left: toOperandNode(left),
   operator,
-  lower: toOperand(lower),
-  upper: toOperand(upper)
+  lower: toOperand(bindColumnValue(left, lower)),
+  upper: toOperand(bindColumnValue(left, upper))
 });
 
 /**
@@ -54,6 +54,8 @@ export interface FunctionNode {
   separator?: OperandNode;
   /** Optional DISTINCT modifier */
   distinct?: boolean;
+  /** Optional aggregate FILTER (WHERE ...) predicate */
+  aggregateFilter?: ExpressionNode;
 }
 
 /**
@@ -119,19 +121,51 @@ export interface CollateExpressionNode {
   collation: string;
 }
 
+/** Unit of a window frame */
+export type WindowFrameUnit = 'ROWS' | 'RANGE' | 'GROUPS';
+
+/** Boundary of a window frame */
+export interface WindowFrameBound {
+  kind: 'UNBOUNDED PRECEDING' | 'PRECEDING' | 'CURRENT ROW' | 'FOLLOWING' | 'UNBOUNDED FOLLOWING';
+  /** Offset of PRECEDING/FOLLOWING bounds */
+  offset?: number;
+}
+
 /**
- * AST node representing a window function
+ * AST node representing a window frame (ROWS/RANGE/GROUPS BETWEEN ... AND ...)
  */
-export interface WindowFunctionNode {
-  type: 'WindowFunction';
-  /** Window function name (e.g., ROW_NUMBER, RANK) */
-  name: string;
-  /** Function arguments */
-  args: (ColumnNode | LiteralNode | JsonPathNode)[];
+export interface WindowFrameNode {
+  type: 'WindowFrame';
+  unit: WindowFrameUnit;
+  /** Frame start */
+  start: WindowFrameBound;
+  /** Optional frame end; when omitted the frame ends at the current row */
+  end?: WindowFrameBound;
+}
+
+/**
+ * Window specification shared by OVER (...) and the WINDOW clause
+ */
+export interface WindowDefinitionNode {
+  /** Optional named window (from the WINDOW clause) this specification builds on */
+  baseWindow?: string;
   /** Optional PARTITION BY clause */
   partitionBy?: ColumnNode[];
   /** Optional ORDER BY clause */
   orderBy?: OrderByNode[];
+  /** Optional frame clause */
+  frame?: WindowFrameNode;
+}
+
+/**
+ * AST node representing a window function
+ */
+export interface WindowFunctionNode extends WindowDefinitionNode {
+  type: 'WindowFunction';
+  /** Window function name (e.g., ROW_NUMBER, RANK, SUM) */
+  name: string;
+  /** Function arguments */
+  args: OperandNode[];
   /** Optional alias for the result */
   alias?: string;
 }
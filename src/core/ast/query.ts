@@ -7,10 +7,18 @@ import {
   FunctionNode,
   OperandNode,
   ScalarSubqueryNode,
+  WindowDefinitionNode,
   WindowFunctionNode
 } from './expression.js';
 import { JoinNode } from './join.js';
 import { OrderDirection } from '../sql/sql.js';
+import type { TableDef } from '../../schema/table.js';
+
+/**
+ * Key of the table definition a query builder attached to a TableNode.
+ * A symbol keeps the definition out of JSON and generated code.
+ */
+export const TABLE_DEFINITION: unique symbol = Symbol.for('metal-orm:table-definition');
 
 /**
  * AST node representing a table reference in a query
@@ -23,6 +31,8 @@ export interface TableNode {
   schema?: string;
   /** Optional table alias */
   alias?: string;
+  /** Definition the node was built from; tenant scoping and global filters read it (absent on raw or parsed ASTs) */
+  [TABLE_DEFINITION]?: TableDef;
 }
 
 /**
@@ -69,6 +79,55 @@ export type TableSourceNode = TableNode | FunctionTableNode | DerivedTableNode;
  */
 export type OrderingTerm = OperandNode | ExpressionNode | AliasRefNode;
 
+/** Kind of multi-level grouping construct */
+export type GroupingSetsKind = 'ROLLUP' | 'CUBE' | 'GROUPING SETS';
+
+/**
+ * AST node representing ROLLUP(...), CUBE(...) or GROUPING SETS (...) inside GROUP BY
+ */
+export interface GroupingSetsNode {
+  type: 'GroupingSets';
+  kind: GroupingSetsKind;
+  /**
+   * Grouping elements. ROLLUP/CUBE hold one element per argument (usually a single term);
+   * GROUPING SETS holds the explicit sets, where an empty set is the grand total.
+   */
+  sets: OrderingTerm[][];
+}
+
+/**
+ * AST node representing a named window of the WINDOW clause
+ */
+export interface NamedWindowNode {
+  type: 'NamedWindow';
+  /** Window name referenced by OVER clauses */
+  name: string;
+  /** Window specification */
+  definition: WindowDefinitionNode;
+}
+
+/**
+ * Any element of a GROUP BY clause.
+ */
+export type GroupByTerm = OrderingTerm | GroupingSetsNode;
+
+/**
+ * Type guard for grouping constructs inside GROUP BY
+ */
+export const isGroupingSetsNode = (term: GroupByTerm): term is GroupingSetsNode =>
+  (term as { type?: string }).type === 'GroupingSets';
+
+/**
+ * Applies a mapper to a GROUP BY element, descending into grouping constructs
+ */
+export const mapGroupByTerm = (
+  term: GroupByTerm,
+  map: (term: OrderingTerm) => OrderingTerm
+): GroupByTerm =>
+  isGroupingSetsNode(term)
+    ? { ...term, sets: term.sets.map(set => set.map(map)) }
+    : map(term);
+
 /**
  * AST node representing an ORDER BY clause
  */
@@ -115,6 +174,29 @@ export interface SetOperationNode {
   query: SelectQueryNode;
 }
 
+/**
+ * Row lock strength requested by a SELECT (FOR UPDATE / FOR SHARE)
+ */
+export type SelectLockMode = 'UPDATE' | 'SHARE';
+
+/**
+ * Behaviour when a requested row lock is held by another transaction
+ */
+export type SelectLockWait = 'NOWAIT' | 'SKIP LOCKED';
+
+/**
+ * AST node representing a row-level locking clause on a SELECT
+ */
+export interface SelectLockNode {
+  type: 'Lock';
+  /** Lock strength */
+  mode: SelectLockMode;
+  /** Optional wait behaviour (NOWAIT / SKIP LOCKED) */
+  wait?: SelectLockWait;
+  /** Optional tables the lock is restricted to (FOR UPDATE OF ...) */
+  of?: TableNode[];
+}
+
 /**
  * AST node representing a complete SELECT query
  */
@@ -138,9 +220,11 @@ export interface SelectQueryNode {
   /** Optional WHERE clause */
   where?: ExpressionNode;
   /** Optional GROUP BY clause */
-  groupBy?: OrderingTerm[];
+  groupBy?: GroupByTerm[];
   /** Optional HAVING clause */
   having?: ExpressionNode;
+  /** Optional WINDOW clause */
+  windows?: NamedWindowNode[];
   /** Optional ORDER BY clause */
   orderBy?: OrderByNode[];
   /** Optional LIMIT clause */
@@ -153,6 +237,10 @@ export interface SelectQueryNode {
   distinct?: ColumnNode[];
   /** Optional set operations chaining this query with others */
   setOps?: SetOperationNode[];
+  /** Optional row-level locking clause */
+  lock?: SelectLockNode;
+  /** Names of table global filters this query opts out of ('*' disables all) */
+  disabledFilters?: string[];
 }
 
 export interface InsertValuesSourceNode {
@@ -245,3 +333,51 @@ export interface DeleteQueryNode {
   /** Optional RETURNING clause */
   returning?: ColumnNode[];
 }
+
+export interface MergeUpdateAction {
+  type: 'MergeUpdate';
+  /** Assignments applied to the matched target row */
+  set: UpdateAssignmentNode[];
+}
+
+export interface MergeDeleteAction {
+  type: 'MergeDelete';
+}
+
+export interface MergeInsertAction {
+  type: 'MergeInsert';
+  /** Target columns receiving the values */
+  columns: ColumnNode[];
+  /** Values, usually source columns, in column order */
+  values: OperandNode[];
+}
+
+export interface MergeMatchedClause {
+  kind: 'matched';
+  /** Optional extra predicate (`WHEN MATCHED AND ...`) */
+  condition?: ExpressionNode;
+  action: MergeUpdateAction | MergeDeleteAction;
+}
+
+export interface MergeNotMatchedClause {
+  kind: 'notMatched';
+  /** Optional extra predicate (`WHEN NOT MATCHED AND ...`) */
+  condition?: ExpressionNode;
+  action: MergeInsertAction;
+}
+
+export type MergeWhenClause = MergeMatchedClause | MergeNotMatchedClause;
+
+export interface MergeQueryNode {
+  type: 'MergeQuery';
+  /** Table receiving the changes */
+  target: TableNode;
+  /** Source rows, either a table or an aliased subquery */
+  source: TableNode | DerivedTableNode;
+  /** Join condition between target and source */
+  on: ExpressionNode;
+  /** WHEN branches, in evaluation order */
+  whens: MergeWhenClause[];
+  /** Optional RETURNING/OUTPUT clause */
+  returning?: ColumnNode[];
+}
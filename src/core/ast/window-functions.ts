@@ -1,6 +1,16 @@
-import { ColumnNode, LiteralNode, JsonPathNode, WindowFunctionNode } from './expression-nodes.js';
+import {
+  ColumnNode,
+  FunctionNode,
+  LiteralNode,
+  JsonPathNode,
+  WindowDefinitionNode,
+  WindowFrameBound,
+  WindowFrameNode,
+  WindowFrameUnit,
+  WindowFunctionNode
+} from './expression-nodes.js';
 import { columnOperand } from './expression-builders.js';
-import { OrderDirection } from '../sql/sql.js';
+import { ORDER_DIRECTIONS, OrderDirection } from '../sql/sql.js';
 import { OrderByNode } from './query.js';
 import { ColumnRef } from './types.js';
 import { TypedExpression, asType } from './expression.js';
@@ -156,3 +166,119 @@ export const windowFunction = <T = unknown>(
 
   return buildWindowFunction<T>(name, nodeArgs, partitionNodes, orderNodes);
 };
+
+/**
+ * Window specification accepted by over() and SelectQueryBuilder.window().
+ */
+export interface WindowSpec {
+  /** Named window (declared with SelectQueryBuilder.window()) to build on */
+  window?: string;
+  /** PARTITION BY columns */
+  partitionBy?: (ColumnRef | ColumnNode)[];
+  /** ORDER BY columns (direction defaults to ASC) */
+  orderBy?: { column: ColumnRef | ColumnNode; direction?: OrderDirection }[];
+  /** Frame clause, built with rowsBetween(), rangeBetween() or groupsBetween() */
+  frame?: WindowFrameNode;
+}
+
+/**
+ * Converts a window specification into its AST form.
+ *
+ * @param spec - Window specification.
+ * @returns The window definition node.
+ */
+export const toWindowDefinition = (spec: WindowSpec): WindowDefinitionNode => {
+  const definition: WindowDefinitionNode = {};
+  if (spec.window) definition.baseWindow = spec.window;
+  if (spec.partitionBy?.length) definition.partitionBy = spec.partitionBy.map(col => columnOperand(col));
+  if (spec.orderBy?.length) {
+    definition.orderBy = spec.orderBy.map(o => ({
+      type: 'OrderBy',
+      term: columnOperand(o.column),
+      direction: o.direction ?? ORDER_DIRECTIONS.ASC
+    }));
+  }
+  if (spec.frame) definition.frame = spec.frame;
+  return definition;
+};
+
+/**
+ * Runs an aggregate (e.g. `sum()`) or window function over a window.
+ *
+ * @param expr - Aggregate or window function expression.
+ * @param window - Window specification, or the name of a window declared with SelectQueryBuilder.window().
+ * @returns A `TypedExpression<T>` representing the window function.
+ *
+ * @example
+ * over(sum(orders.columns.amount), {
+ *   partitionBy: [orders.columns.userId],
+ *   orderBy: [{ column: orders.columns.createdAt }],
+ *   frame: rowsBetween(unboundedPreceding(), currentRow())
+ * });
+ */
+export const over = <T = unknown>(
+  expr: TypedExpression<T> | FunctionNode | WindowFunctionNode,
+  window: WindowSpec | string = {}
+): TypedExpression<T> => {
+  const definition = toWindowDefinition(typeof window === 'string' ? { window } : window);
+  if (expr.type === 'WindowFunction') {
+    return asType<T>({ ...expr, ...definition });
+  }
+  if (expr.type !== 'Function') {
+    throw new Error(`over() expects an aggregate or window function, got "${expr.type}".`);
+  }
+  if (expr.aggregateFilter || expr.distinct) {
+    throw new Error(`over() does not support FILTER or DISTINCT aggregates (${expr.name}).`);
+  }
+  const node: WindowFunctionNode = { type: 'WindowFunction', name: expr.name, args: expr.args, ...definition };
+  if (expr.alias) node.alias = expr.alias;
+  return asType<T>(node);
+};
+
+const frameBound = (kind: 'PRECEDING' | 'FOLLOWING', offset: number): WindowFrameBound => {
+  if (!Number.isFinite(offset) || offset < 0) {
+    throw new Error(`Window frame offsets must be non-negative numbers, got ${offset}.`);
+  }
+  return { kind, offset };
+};
+
+/** Frame bound UNBOUNDED PRECEDING (the first row of the partition). */
+export const unboundedPreceding = (): WindowFrameBound => ({ kind: 'UNBOUNDED PRECEDING' });
+
+/**
+ * Frame bound `<offset> PRECEDING`.
+ * @param offset - Rows (ROWS), peer groups (GROUPS) or value distance (RANGE) before the current row.
+ */
+export const preceding = (offset: number): WindowFrameBound => frameBound('PRECEDING', offset);
+
+/** Frame bound CURRENT ROW. */
+export const currentRow = (): WindowFrameBound => ({ kind: 'CURRENT ROW' });
+
+/**
+ * Frame bound `<offset> FOLLOWING`.
+ * @param offset - Rows (ROWS), peer groups (GROUPS) or value distance (RANGE) after the current row.
+ */
+export const following = (offset: number): WindowFrameBound => frameBound('FOLLOWING', offset);
+
+/** Frame bound UNBOUNDED FOLLOWING (the last row of the partition). */
+export const unboundedFollowing = (): WindowFrameBound => ({ kind: 'UNBOUNDED FOLLOWING' });
+
+const frameBetween = (unit: WindowFrameUnit) =>
+  (start: WindowFrameBound, end: WindowFrameBound): WindowFrameNode => ({ type: 'WindowFrame', unit, start, end });
+
+/**
+ * Creates a `ROWS BETWEEN start AND end` frame (physical rows; supported by all dialects).
+ * @example rowsBetween(preceding(6), currentRow()) // 7-row moving window
+ */
+export const rowsBetween = frameBetween('ROWS');
+
+/**
+ * Creates a `RANGE BETWEEN start AND end` frame (rows whose ORDER BY value is within the bounds).
+ * SQL Server only accepts UNBOUNDED and CURRENT ROW bounds.
+ */
+export const rangeBetween = frameBetween('RANGE');
+
+/**
+ * Creates a `GROUPS BETWEEN start AND end` frame (peer groups; PostgreSQL and SQLite only).
+ */
+export const groupsBetween = frameBetween('GROUPS');
@@ -1,12 +1,19 @@
 import { deriveIndexName } from '../naming-strategy.js';
 import {
   createLiteralFormatter,
+  escapeSqlString,
   renderIndexColumns
 } from '../sql-writing.js';
 import {
   composeSchemaDialect,
+  createStandardAddCheckCapability,
+  createStandardAddForeignKeyCapability,
+  createStandardCreateViewCapability,
   createStandardDropColumnCapability,
+  createStandardDropConstraintCapability,
   createStandardDropTableCapability,
+  createStandardDropViewCapability,
+  createTableBackedMaterializedViewCapabilities,
   type SchemaDialectServices
 } from '../schema-dialect-composer.js';
 import type { SchemaDialect } from '../schema-dialect.js';
@@ -20,6 +27,9 @@ import type { DatabaseTable } from '../schema-types.js';
 
 const quoteIdentifier = (id: string): string => `[${id.replace(/]/g, ']]')}]`;
 const literalFormatter = createLiteralFormatter({ booleanTrue: '1', booleanFalse: '0' });
+const nvarchar = (value: string): string => `N'${escapeSqlString(value)}'`;
+const qualifiedName = (...parts: (string | undefined)[]): string =>
+  parts.filter((part): part is string => !!part).map(quoteIdentifier).join('.');
 
 const renderMssqlColumnType = (
   column: ColumnDef,
@@ -86,6 +96,7 @@ export const createMssqlSchemaDialect = (): SchemaDialect =>
       return `CREATE ${unique}INDEX ${services.quoteIdentifier(name)} ON ${services.formatTableName(table)} (${columns})${where};`;
     },
     supportsPartialIndexes: true,
+    supportsTransactionalDdl: true,
     mutations: services => ({
       dropTable: createStandardDropTableCapability(services),
       dropColumn: createStandardDropColumnCapability(services),
@@ -114,6 +125,44 @@ export const createMssqlSchemaDialect = (): SchemaDialect =>
             ? 'Altering defaults or identity on MSSQL is not automated (requires dropping/adding default or identity constraints manually).'
             : undefined;
         }
+      },
+      renameTable: {
+        compile: (table, newName) => [
+          `EXEC sp_rename ${nvarchar(qualifiedName(table.schema, table.name))}, ${nvarchar(newName)};`
+        ]
+      },
+      renameColumn: {
+        compile: (table, column, newName) => [
+          `EXEC sp_rename ${nvarchar(qualifiedName(table.schema, table.name, column))}, ${nvarchar(newName)}, N'COLUMN';`
+        ]
+      },
+      addForeignKey: createStandardAddForeignKeyCapability(services),
+      dropForeignKey: createStandardDropConstraintCapability(services),
+      addCheck: createStandardAddCheckCapability(services),
+      dropCheck: createStandardDropConstraintCapability(services),
+      alterComment: {
+        compile(table, column, comment, previous) {
+          const procedure = comment === undefined
+            ? 'sp_dropextendedproperty'
+            : previous === undefined ? 'sp_addextendedproperty' : 'sp_updateextendedproperty';
+          const args = [`@name = N'MS_Description'`];
+          if (comment !== undefined) args.push(`@value = ${nvarchar(comment)}`);
+          args.push(
+            `@level0type = N'SCHEMA', @level0name = ${nvarchar(table.schema ?? 'dbo')}`,
+            `@level1type = N'TABLE', @level1name = ${nvarchar(table.name)}`
+          );
+          if (column) args.push(`@level2type = N'COLUMN', @level2name = ${nvarchar(column)}`);
+          return [`EXEC ${procedure} ${args.join(', ')};`];
+        }
+      },
+      createView: createStandardCreateViewCapability(services),
+      dropView: createStandardDropViewCapability(services),
+      ...createTableBackedMaterializedViewCapabilities(services),
+      // SQL Server has no CREATE TABLE ... AS; SELECT INTO creates and fills the table.
+      createMaterializedView: {
+        compile: (view, query) => [
+          `SELECT * INTO ${services.formatTableName(view)} FROM (${query}) AS ${services.quoteIdentifier('src')};`
+        ]
       }
     })
   });
@@ -128,6 +177,7 @@ export class MSSqlSchemaDialect implements SchemaDialect {
   formatTableName(table: TableDef | DatabaseTable): string { return this.delegate.formatTableName(table); }
   renderColumnType(column: ColumnDef): string { return this.delegate.renderColumnType(column); }
   renderDefault(value: unknown, column: ColumnDef): string { return this.delegate.renderDefault(value, column); }
+  formatLiteral(value: unknown): string { return this.delegate.formatLiteral(value); }
   renderAutoIncrement(column: ColumnDef, table: TableDef): string | undefined {
     return this.delegate.renderAutoIncrement(column, table);
   }
@@ -137,6 +187,7 @@ export class MSSqlSchemaDialect implements SchemaDialect {
   renderIndex(table: TableDef, index: IndexDef): string { return this.delegate.renderIndex(table, index); }
   renderTableOptions(table: TableDef): string | undefined { return this.delegate.renderTableOptions(table); }
   supportsPartialIndexes(): boolean { return this.delegate.supportsPartialIndexes(); }
+  supportsTransactionalDdl(): boolean { return this.delegate.supportsTransactionalDdl(); }
   preferInlinePkAutoincrement(column: ColumnDef, table: TableDef, pk: string[]): boolean {
     return this.delegate.preferInlinePkAutoincrement(column, table, pk);
   }
@@ -6,8 +6,14 @@ import {
 } from '../sql-writing.js';
 import {
   composeSchemaDialect,
+  createStandardAddCheckCapability,
+  createStandardAddForeignKeyCapability,
+  createStandardCreateViewCapability,
   createStandardDropColumnCapability,
   createStandardDropTableCapability,
+  createStandardDropViewCapability,
+  createStandardRenameColumnCapability,
+  createTableBackedMaterializedViewCapabilities,
   type SchemaDialectServices
 } from '../schema-dialect-composer.js';
 import type { SchemaDialect } from '../schema-dialect.js';
@@ -102,7 +108,39 @@ export const createMySqlSchemaDialect = (): SchemaDialect => {
           const rendered = renderColumnDefinition(table, column, dialect);
           return [`ALTER TABLE ${services.formatTableName(table)} MODIFY COLUMN ${rendered.sql};`];
         }
-      }
+      },
+      renameTable: {
+        compile: (table, newName) => [
+          `RENAME TABLE ${services.formatTableName(table)} TO ${services.formatTableName({ ...table, name: newName })};`
+        ]
+      },
+      renameColumn: createStandardRenameColumnCapability(services),
+      addForeignKey: createStandardAddForeignKeyCapability(services),
+      dropForeignKey: {
+        compile: (table, constraint) => [
+          `ALTER TABLE ${services.formatTableName(table)} DROP FOREIGN KEY ${services.quoteIdentifier(constraint)};`
+        ]
+      },
+      addCheck: createStandardAddCheckCapability(services),
+      dropCheck: {
+        compile: (table, constraint) => [
+          `ALTER TABLE ${services.formatTableName(table)} DROP CHECK ${services.quoteIdentifier(constraint)};`
+        ]
+      },
+      alterComment: {
+        compile(table, column, comment) {
+          const value = `'${escapeSqlString(comment ?? '')}'`;
+          if (!column) {
+            return [`ALTER TABLE ${services.formatTableName(table)} COMMENT = ${value};`];
+          }
+          // MySQL only changes a column comment by restating the whole column definition.
+          const rendered = renderColumnDefinition(table, table.columns[column], dialect);
+          return [`ALTER TABLE ${services.formatTableName(table)} MODIFY COLUMN ${rendered.sql} COMMENT ${value};`];
+        }
+      },
+      createView: createStandardCreateViewCapability(services),
+      dropView: createStandardDropViewCapability(services),
+      ...createTableBackedMaterializedViewCapabilities(services)
     })
   });
   return dialect;
@@ -118,6 +156,7 @@ export class MySqlSchemaDialect implements SchemaDialect {
   formatTableName(table: TableDef | DatabaseTable): string { return this.delegate.formatTableName(table); }
   renderColumnType(column: ColumnDef): string { return this.delegate.renderColumnType(column); }
   renderDefault(value: unknown, column: ColumnDef): string { return this.delegate.renderDefault(value, column); }
+  formatLiteral(value: unknown): string { return this.delegate.formatLiteral(value); }
   renderAutoIncrement(column: ColumnDef, table: TableDef): string | undefined {
     return this.delegate.renderAutoIncrement(column, table);
   }
@@ -127,6 +166,7 @@ export class MySqlSchemaDialect implements SchemaDialect {
   renderIndex(table: TableDef, index: IndexDef): string { return this.delegate.renderIndex(table, index); }
   renderTableOptions(table: TableDef): string | undefined { return this.delegate.renderTableOptions(table); }
   supportsPartialIndexes(): boolean { return this.delegate.supportsPartialIndexes(); }
+  supportsTransactionalDdl(): boolean { return this.delegate.supportsTransactionalDdl(); }
   preferInlinePkAutoincrement(column: ColumnDef, table: TableDef, pk: string[]): boolean {
     return this.delegate.preferInlinePkAutoincrement(column, table, pk);
   }
@@ -1,12 +1,19 @@
 import { deriveIndexName } from '../naming-strategy.js';
 import {
   createLiteralFormatter,
+  escapeSqlString,
   renderIndexColumns
 } from '../sql-writing.js';
 import {
   composeSchemaDialect,
+  createStandardAddCheckCapability,
+  createStandardAddForeignKeyCapability,
+  createStandardCreateViewCapability,
   createStandardDropColumnCapability,
+  createStandardDropConstraintCapability,
   createStandardDropTableCapability,
+  createStandardRenameColumnCapability,
+  createStandardRenameTableCapability,
   type SchemaDialectServices
 } from '../schema-dialect-composer.js';
 import type { SchemaDialect } from '../schema-dialect.js';
@@ -99,6 +106,7 @@ export const createPostgresSchemaDialect = (): SchemaDialect =>
     renderIndex: renderPostgresIndex,
     renderReferenceSuffix: ref => ref.deferrable ? 'DEFERRABLE INITIALLY DEFERRED' : undefined,
     supportsPartialIndexes: true,
+    supportsTransactionalDdl: true,
     mutations: services => ({
       dropTable: createStandardDropTableCapability(services),
       dropColumn: createStandardDropColumnCapability(services),
@@ -154,6 +162,33 @@ export const createPostgresSchemaDialect = (): SchemaDialect =>
             ? 'Altering identity properties may fail if an existing sequence is attached; verify generated column state.'
             : undefined;
         }
+      },
+      renameTable: createStandardRenameTableCapability(services),
+      renameColumn: createStandardRenameColumnCapability(services),
+      addForeignKey: createStandardAddForeignKeyCapability(services),
+      dropForeignKey: createStandardDropConstraintCapability(services),
+      addCheck: createStandardAddCheckCapability(services),
+      dropCheck: createStandardDropConstraintCapability(services),
+      alterComment: {
+        compile(table, column, comment) {
+          const target = column
+            ? `COLUMN ${services.formatTableName(table)}.${services.quoteIdentifier(column)}`
+            : `TABLE ${services.formatTableName(table)}`;
+          const value = comment === undefined ? 'NULL' : `'${escapeSqlString(comment)}'`;
+          return [`COMMENT ON ${target} IS ${value};`];
+        }
+      },
+      createView: createStandardCreateViewCapability(services),
+      createMaterializedView: {
+        compile: (view, query) => [`CREATE MATERIALIZED VIEW ${services.formatTableName(view)} AS ${query};`]
+      },
+      dropView: {
+        compile: (view, materialized) => [
+          `DROP ${materialized ? 'MATERIALIZED ' : ''}VIEW IF EXISTS ${services.formatTableName(view)};`
+        ]
+      },
+      refreshMaterializedView: {
+        compile: view => [`REFRESH MATERIALIZED VIEW ${services.formatTableName(view)};`]
       }
     })
   });
@@ -168,6 +203,7 @@ export class PostgresSchemaDialect implements SchemaDialect {
   formatTableName(table: TableDef | DatabaseTable): string { return this.delegate.formatTableName(table); }
   renderColumnType(column: ColumnDef): string { return this.delegate.renderColumnType(column); }
   renderDefault(value: unknown, column: ColumnDef): string { return this.delegate.renderDefault(value, column); }
+  formatLiteral(value: unknown): string { return this.delegate.formatLiteral(value); }
   renderAutoIncrement(column: ColumnDef, table: TableDef): string | undefined {
     return this.delegate.renderAutoIncrement(column, table);
   }
@@ -177,6 +213,7 @@ export class PostgresSchemaDialect implements SchemaDialect {
   renderIndex(table: TableDef, index: IndexDef): string { return this.delegate.renderIndex(table, index); }
   renderTableOptions(table: TableDef): string | undefined { return this.delegate.renderTableOptions(table); }
   supportsPartialIndexes(): boolean { return this.delegate.supportsPartialIndexes(); }
+  supportsTransactionalDdl(): boolean { return this.delegate.supportsTransactionalDdl(); }
   preferInlinePkAutoincrement(column: ColumnDef, table: TableDef, pk: string[]): boolean {
     return this.delegate.preferInlinePkAutoincrement(column, table, pk);
   }
@@ -6,7 +6,12 @@ import {
 } from '../sql-writing.js';
 import {
   composeSchemaDialect,
+  createStandardCreateViewCapability,
   createStandardDropTableCapability,
+  createStandardDropViewCapability,
+  createStandardRenameColumnCapability,
+  createStandardRenameTableCapability,
+  createTableBackedMaterializedViewCapabilities,
   type SchemaDialectServices
 } from '../schema-dialect-composer.js';
 import type { SchemaDialect } from '../schema-dialect.js';
@@ -88,11 +93,17 @@ export const createSqliteSchemaDialect = (): SchemaDialect =>
       return `CREATE ${unique}INDEX IF NOT EXISTS ${services.quoteIdentifier(name)} ON ${services.formatTableName(table)} (${columns})${where};`;
     },
     supportsPartialIndexes: true,
+    supportsTransactionalDdl: true,
     mutations: services => ({
       dropTable: createStandardDropTableCapability(services),
       dropIndex: {
         compile: (_table, index) => [`DROP INDEX IF EXISTS ${services.quoteIdentifier(index)};`]
-      }
+      },
+      renameTable: createStandardRenameTableCapability(services),
+      renameColumn: createStandardRenameColumnCapability(services),
+      createView: createStandardCreateViewCapability(services),
+      dropView: createStandardDropViewCapability(services),
+      ...createTableBackedMaterializedViewCapabilities(services)
     })
   });
 
@@ -106,6 +117,7 @@ export class SQLiteSchemaDialect implements SchemaDialect {
   formatTableName(table: TableDef | DatabaseTable): string { return this.delegate.formatTableName(table); }
   renderColumnType(column: ColumnDef): string { return this.delegate.renderColumnType(column); }
   renderDefault(value: unknown, column: ColumnDef): string { return this.delegate.renderDefault(value, column); }
+  formatLiteral(value: unknown): string { return this.delegate.formatLiteral(value); }
   renderAutoIncrement(column: ColumnDef, table: TableDef): string | undefined {
     return this.delegate.renderAutoIncrement(column, table);
   }
@@ -115,6 +127,7 @@ export class SQLiteSchemaDialect implements SchemaDialect {
   renderIndex(table: TableDef, index: IndexDef): string { return this.delegate.renderIndex(table, index); }
   renderTableOptions(table: TableDef): string | undefined { return this.delegate.renderTableOptions(table); }
   supportsPartialIndexes(): boolean { return this.delegate.supportsPartialIndexes(); }
+  supportsTransactionalDdl(): boolean { return this.delegate.supportsTransactionalDdl(); }
   preferInlinePkAutoincrement(column: ColumnDef, table: TableDef, pk: string[]): boolean {
     return this.delegate.preferInlinePkAutoincrement(column, table, pk);
   }
@@ -50,6 +50,7 @@ type ForeignKeyIntrospectRow = {
 type ForeignKeyEntry = {
   table: string;
   column: string;
+  name?: string;
   onDelete?: ReferentialAction;
   onUpdate?: ReferentialAction;
 };
@@ -67,6 +68,14 @@ type TableCommentRow = {
   description: string | null;
 };
 
+/** Row type for PostgreSQL check constraint introspection from pg_constraint. */
+type CheckConstraintRow = {
+  table_schema: string;
+  table_name: string;
+  constraint_name: string;
+  definition: string;
+};
+
 /** Row type for PostgreSQL index query results from pg_catalog tables. */
 type IndexQueryRow = {
   table_schema: string;
@@ -227,6 +236,7 @@ export const postgresIntrospector: SchemaIntrospector = {
       existing.push({
         table: `${r.foreign_table_schema}.${r.foreign_table_name}`,
         column: r.foreign_column_name,
+        name: r.constraint_name,
         onDelete: r.delete_rule,
         onUpdate: r.update_rule
       });
@@ -323,6 +333,25 @@ export const postgresIntrospector: SchemaIntrospector = {
       column_names: v.cols.sort((a, b) => (a.ord || 0) - (b.ord || 0)).map(c => c.att).filter(Boolean)
     }));
 
+    // Check constraints query
+    const checkRows = (await queryRows(
+      ctx.executor,
+      `
+      SELECT
+        ns.nspname AS table_schema,
+        cls.relname AS table_name,
+        con.conname AS constraint_name,
+        pg_catalog.pg_get_constraintdef(con.oid) AS definition
+      FROM pg_catalog.pg_constraint con
+      JOIN pg_catalog.pg_class cls ON cls.oid = con.conrelid
+      JOIN pg_catalog.pg_namespace ns ON ns.oid = cls.relnamespace
+      WHERE ns.nspname = $1
+        AND con.contype = 'c'
+      ORDER BY con.conname
+      `,
+      [schema]
+    )) as CheckConstraintRow[];
+
     // Build final schema
     const tablesByKey = new Map<string, DatabaseTable>();
 
@@ -338,6 +367,7 @@ export const postgresIntrospector: SchemaIntrospector = {
           columns: [],
           primaryKey: pkMap.get(key) || [],
           indexes: [],
+          checks: [],
           comment: tableComments.get(key)
         });
       }
@@ -356,7 +386,8 @@ export const postgresIntrospector: SchemaIntrospector = {
             table: fk.table,
             column: fk.column,
             onDelete: fk.onDelete,
-            onUpdate: fk.onUpdate
+            onUpdate: fk.onUpdate,
+            name: fk.name
           }
           : undefined
       };
@@ -377,6 +408,13 @@ export const postgresIntrospector: SchemaIntrospector = {
       table.indexes.push(idx);
     });
 
+    checkRows.forEach(r => {
+      const table = tablesByKey.get(`${r.table_schema}.${r.table_name}`);
+      if (!table) return;
+      const expression = r.definition.replace(/^CHECK\s*/i, '').replace(/\s+NOT VALID$/i, '');
+      table.checks!.push({ name: r.constraint_name, expression });
+    });
+
     tables.push(...tablesByKey.values());
 
     // Views introspection
@@ -395,6 +433,19 @@ export const postgresIntrospector: SchemaIntrospector = {
         [schema]
       )) as { view_schema: string; view_name: string; definition: string }[];
 
+      const materializedViewRows = (await queryRows(
+        ctx.executor,
+        `
+        SELECT
+          schemaname AS view_schema,
+          matviewname AS view_name,
+          definition
+        FROM pg_catalog.pg_matviews
+        WHERE schemaname = $1
+        `,
+        [schema]
+      )) as { view_schema: string; view_name: string; definition: string }[];
+
       const viewCommentRows = (await queryRows(
         ctx.executor,
         `
@@ -405,7 +456,7 @@ export const postgresIntrospector: SchemaIntrospector = {
         FROM pg_catalog.pg_class cls
         JOIN pg_catalog.pg_namespace ns ON ns.oid = cls.relnamespace
         WHERE ns.nspname = $1
-          AND cls.relkind = 'v'
+          AND cls.relkind IN ('v', 'm')
         `,
         [schema]
       )) as { view_schema: string; view_name: string; description: string | null }[];
@@ -444,6 +495,29 @@ export const postgresIntrospector: SchemaIntrospector = {
         ordinal_position: number;
       }[];
 
+      // information_schema does not list materialized views
+      const materializedViewColumnRows = (await queryRows(
+        ctx.executor,
+        `
+        SELECT
+          ns.nspname AS table_schema,
+          cls.relname AS table_name,
+          att.attname AS column_name,
+          pg_catalog.format_type(att.atttypid, att.atttypmod) AS data_type,
+          CASE WHEN att.attnotnull THEN 'NO' ELSE 'YES' END AS is_nullable,
+          att.attnum AS ordinal_position
+        FROM pg_catalog.pg_attribute att
+        JOIN pg_catalog.pg_class cls ON cls.oid = att.attrelid
+        JOIN pg_catalog.pg_namespace ns ON ns.oid = cls.relnamespace
+        WHERE ns.nspname = $1
+          AND cls.relkind = 'm'
+          AND att.attnum > 0
+          AND NOT att.attisdropped
+        ORDER BY cls.relname, att.attnum
+        `,
+        [schema]
+      )) as typeof viewColumnRows;
+
       const viewColumnCommentRows = (await queryRows(
         ctx.executor,
         `
@@ -456,7 +530,7 @@ export const postgresIntrospector: SchemaIntrospector = {
         JOIN pg_catalog.pg_class cls ON cls.oid = att.attrelid
         JOIN pg_catalog.pg_namespace ns ON ns.oid = cls.relnamespace
         WHERE ns.nspname = $1
-          AND cls.relkind = 'v'
+          AND cls.relkind IN ('v', 'm')
           AND att.attnum > 0
           AND NOT att.attisdropped
         `,
@@ -473,19 +547,22 @@ export const postgresIntrospector: SchemaIntrospector = {
 
       const viewsByKey = new Map<string, DatabaseView>();
 
-      for (const r of viewListRows) {
-        if (!shouldIncludeView(r.view_name, options)) continue;
+      const addView = (r: { view_schema: string; view_name: string; definition: string }, materialized: boolean) => {
+        if (!shouldIncludeView(r.view_name, options)) return;
         const key = `${r.view_schema}.${r.view_name}`;
         viewsByKey.set(key, {
           name: r.view_name,
           schema: r.view_schema,
           columns: [],
           definition: r.definition || undefined,
-          comment: viewComments.get(key)
+          comment: viewComments.get(key),
+          ...(materialized ? { materialized } : {})
         });
-      }
+      };
+      viewListRows.forEach(r => addView(r, false));
+      materializedViewRows.forEach(r => addView(r, true));
 
-      for (const r of viewColumnRows) {
+      for (const r of [...viewColumnRows, ...materializedViewColumnRows]) {
         const key = `${r.table_schema}.${r.table_name}`;
         const view = viewsByKey.get(key);
         if (!view) continue;
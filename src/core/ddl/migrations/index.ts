@@ -0,0 +1,3 @@
+export * from './migration-file.js';
+export * from './migration-generator.js';
+export * from './migrator.js';
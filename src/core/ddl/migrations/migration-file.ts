@@ -0,0 +1,217 @@
+/**
+ * A versioned schema migration.
+ */
+export interface Migration {
+  /** Sortable version, usually a UTC timestamp such as `20240131120000` */
+  version: string;
+  /** Human readable name */
+  name: string;
+  /** Statements applying the migration */
+  up: string[];
+  /** Statements reverting the migration */
+  down: string[];
+  /** Set to false to run the migration outside a transaction even when the dialect supports transactional DDL */
+  transactional?: boolean;
+  /** Changes the down statements do not revert; the Migrator refuses to revert the migration while any are listed */
+  irreversible?: string[];
+}
+
+const UP_MARKER = '-- migrate:up';
+const DOWN_MARKER = '-- migrate:down';
+const NO_TRANSACTION_MARKER = '-- migrate:no-transaction';
+const STATEMENT_BEGIN_MARKER = '-- migrate:statement-begin';
+const STATEMENT_END_MARKER = '-- migrate:statement-end';
+const IRREVERSIBLE_PATTERN = /^--\s*irreversible:\s*(.*)$/i;
+const FILE_NAME_PATTERN = /^(\d+)_(.+)\.sql$/;
+
+/**
+ * Formats a date as a migration version (`yyyyMMddHHmmss`, UTC).
+ * @param date - Date to format
+ * @returns The version string
+ */
+export const formatMigrationVersion = (date: Date): string =>
+  date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+
+/**
+ * Builds the file name of a migration (`<version>_<name>.sql`).
+ * @param migration - Migration version and name
+ * @returns The file name
+ */
+export const migrationFileName = (migration: Pick<Migration, 'version' | 'name'>): string =>
+  `${migration.version}_${migration.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')}.sql`;
+
+const DOLLAR_QUOTE = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/;
+const CLOSING_QUOTES: Record<string, string> = { "'": "'", '"': '"', '`': '`', '[': ']' };
+
+/**
+ * Returns the index right after the quoted string, dollar-quoted body or comment starting at `index`,
+ * or `index` itself when no such token starts there.
+ */
+const skipToken = (sql: string, index: number): number => {
+  const char = sql[index];
+  if (char === '-' && sql[index + 1] === '-') {
+    const end = sql.indexOf('\n', index);
+    return end === -1 ? sql.length : end;
+  }
+  if (char === '/' && sql[index + 1] === '*') {
+    const end = sql.indexOf('*/', index + 2);
+    return end === -1 ? sql.length : end + 2;
+  }
+  if (char === '$' && !/[A-Za-z0-9_$]/.test(sql[index - 1] ?? '')) {
+    const tag = DOLLAR_QUOTE.exec(sql.slice(index))?.[0];
+    if (!tag) return index;
+    const end = sql.indexOf(tag, index + tag.length);
+    return end === -1 ? sql.length : end + tag.length;
+  }
+  const closing = CLOSING_QUOTES[char];
+  if (!closing) return index;
+  const end = sql.indexOf(closing, index + 1);
+  return end === -1 ? sql.length : end + 1;
+};
+
+/**
+ * Splits SQL on semicolons outside quoted strings, identifiers, dollar-quoted bodies and comments.
+ * Comments before a statement are dropped.
+ */
+const splitSql = (sql: string): string[] => {
+  const statements: string[] = [];
+  let start = -1;
+  let index = 0;
+  while (index < sql.length) {
+    const next = skipToken(sql, index);
+    const isComment = sql.startsWith('--', index) || sql.startsWith('/*', index);
+    if (next > index) {
+      if (start === -1 && !isComment) start = index;
+      index = next;
+      continue;
+    }
+    if (start === -1 && !/\s/.test(sql[index])) start = index;
+    if (sql[index] === ';' && start !== -1) {
+      statements.push(sql.slice(start, index + 1).trim());
+      start = -1;
+    }
+    index += 1;
+  }
+  const rest = start === -1 ? '' : sql.slice(start).trim();
+  if (rest) statements.push(rest);
+  return statements;
+};
+
+const splitStatements = (fileName: string, lines: string[]): string[] => {
+  const statements: string[] = [];
+  let pending: string[] = [];
+  let block: string[] | undefined;
+  for (const line of lines) {
+    switch (line.trim().toLowerCase()) {
+      case STATEMENT_BEGIN_MARKER:
+        statements.push(...splitSql(pending.join('\n')));
+        pending = [];
+        block = [];
+        break;
+      case STATEMENT_END_MARKER:
+        if (block?.join('\n').trim()) statements.push(block.join('\n').trim());
+        block = undefined;
+        break;
+      default:
+        (block ?? pending).push(line);
+    }
+  }
+  if (block) {
+    throw new Error(`Migration file "${fileName}" has a "${STATEMENT_BEGIN_MARKER}" without a matching end marker.`);
+  }
+  statements.push(...splitSql(pending.join('\n')));
+  return statements;
+};
+
+/**
+ * Parses a migration file. Statements follow the `-- migrate:up` and `-- migrate:down` markers and
+ * end with a semicolon outside quotes, dollar-quoted bodies and comments. Lines between
+ * `-- migrate:statement-begin` and `-- migrate:statement-end` form a single statement, for bodies
+ * such as procedures whose semicolons are not quoted. `-- migrate:no-transaction` disables the
+ * transaction and `-- irreversible: <change>` lines in the down section mark the migration irreversible.
+ * @param fileName - File name in the `<version>_<name>.sql` format
+ * @param contents - File contents
+ * @returns The parsed migration
+ * @throws If the file name or the up marker is missing, or a statement block is not closed
+ */
+export const parseMigrationFile = (fileName: string, contents: string): Migration => {
+  const match = FILE_NAME_PATTERN.exec(fileName.split(/[\\/]/).pop() ?? fileName);
+  if (!match) {
+    throw new Error(`Migration file "${fileName}" must be named <version>_<name>.sql.`);
+  }
+
+  const up: string[] = [];
+  const down: string[] = [];
+  const irreversible: string[] = [];
+  let section: string[] | undefined;
+  let transactional = true;
+  let hasUp = false;
+  for (const line of contents.split(/\r?\n/)) {
+    switch (line.trim().toLowerCase()) {
+      case UP_MARKER:
+        section = up;
+        hasUp = true;
+        break;
+      case DOWN_MARKER:
+        section = down;
+        break;
+      case NO_TRANSACTION_MARKER:
+        transactional = false;
+        break;
+      default: {
+        const change = section === down ? IRREVERSIBLE_PATTERN.exec(line.trim())?.[1] : undefined;
+        if (change !== undefined) irreversible.push(change);
+        else section?.push(line);
+      }
+    }
+  }
+  if (!hasUp) {
+    throw new Error(`Migration file "${fileName}" is missing the "${UP_MARKER}" marker.`);
+  }
+
+  return {
+    version: match[1],
+    name: match[2],
+    up: splitStatements(fileName, up),
+    down: splitStatements(fileName, down),
+    ...(transactional ? {} : { transactional: false }),
+    ...(irreversible.length ? { irreversible } : {})
+  };
+};
+
+const renderStatement = (statement: string): string[] => {
+  const [single] = splitSql(statement);
+  return single === statement.trim() ? [statement] : [STATEMENT_BEGIN_MARKER, statement, STATEMENT_END_MARKER];
+};
+
+/**
+ * Renders a migration as file contents readable by parseMigrationFile.
+ * Statements that would otherwise be split are wrapped in statement markers.
+ * @param migration - The migration
+ * @param comments - Optional header comment lines
+ * @returns The file contents
+ */
+export const renderMigrationFile = (migration: Migration, comments: string[] = []): string => {
+  const lines = comments.map(comment => `-- ${comment}`);
+  if (migration.transactional === false) lines.push(NO_TRANSACTION_MARKER);
+  lines.push(
+    UP_MARKER,
+    ...migration.up.flatMap(renderStatement),
+    '',
+    DOWN_MARKER,
+    ...(migration.irreversible ?? []).map(change => `-- irreversible: ${change}`),
+    ...migration.down.flatMap(renderStatement)
+  );
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Computes the SHA-256 checksum of a migration's statements, used to detect edited migrations.
+ * @param migration - The migration
+ * @returns Hex encoded checksum
+ */
+export const computeMigrationChecksum = async (migration: Migration): Promise<string> => {
+  const payload = [UP_MARKER, ...migration.up, DOWN_MARKER, ...migration.down].join('\n');
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,73 @@
+import type { SchemaPlan } from '../schema-diff.js';
+import {
+  formatMigrationVersion,
+  migrationFileName,
+  renderMigrationFile,
+  type Migration
+} from './migration-file.js';
+
+export interface GenerateMigrationOptions {
+  /** Migration name, used in the file name */
+  name: string;
+  /** Explicit version; defaults to the UTC timestamp of `date` */
+  version?: string;
+  /** Date used for the default version (defaults to now) */
+  date?: Date;
+}
+
+/**
+ * A migration generated from a schema plan, ready to be written to disk.
+ */
+export interface GeneratedMigration extends Migration {
+  /** File name in the `<version>_<name>.sql` format */
+  fileName: string;
+  /** File contents */
+  contents: string;
+  /** Plan warnings plus changes that could not be reverted automatically */
+  warnings: string[];
+}
+
+/**
+ * Generates an up/down migration from a schema plan.
+ * Up runs every change with statements in plan order; down runs the rollback statements in reverse order.
+ * Changes without rollback statements (column alterations, drops) are listed as warnings and in
+ * `irreversible`, which keeps the Migrator from reverting the migration until the down section is
+ * completed by hand and the `-- irreversible` comments are removed.
+ * @param plan - Plan returned by diffSchema
+ * @param options - Name and version of the migration
+ * @returns The generated migration
+ */
+export const generateMigration = (plan: SchemaPlan, options: GenerateMigrationOptions): GeneratedMigration => {
+  const version = options.version ?? formatMigrationVersion(options.date ?? new Date());
+  const changes = plan.changes.filter(change => change.statements.length > 0);
+  const warnings = [...plan.warnings];
+  const up: string[] = [];
+  const down: string[] = [];
+  const irreversible: string[] = [];
+
+  for (const change of changes) {
+    up.push(...change.statements);
+  }
+  for (const change of [...changes].reverse()) {
+    if (change.rollback?.length) {
+      down.push(...change.rollback);
+    } else {
+      irreversible.push(change.description);
+      warnings.push(`${change.description} cannot be reverted automatically; complete the down migration by hand.`);
+    }
+  }
+
+  const migration: Migration = {
+    version,
+    name: options.name,
+    up,
+    down,
+    ...(irreversible.length ? { irreversible } : {})
+  };
+  return {
+    ...migration,
+    fileName: migrationFileName(migration),
+    contents: renderMigrationFile(migration, warnings.map(warning => `warning: ${warning}`)),
+    warnings
+  };
+};
@@ -0,0 +1,323 @@
+import type { DbExecutor } from '../../execution/db-executor.js';
+import { payloadResultSets } from '../../execution/db-executor.js';
+import type { SchemaDialect } from '../schema-dialect.js';
+import { generateCreateTableSql } from '../schema-generator.js';
+import { introspectSchema } from '../schema-introspect.js';
+import { toRows } from '../introspect/utils.js';
+import { eq } from '../../ast/expression.js';
+import { defineTable, type TableDef } from '../../../schema/table.js';
+import { col } from '../../../schema/column-types.js';
+import { SelectQueryBuilder } from '../../../query-builder/select.js';
+import { InsertQueryBuilder } from '../../../query-builder/insert.js';
+import { DeleteQueryBuilder } from '../../../query-builder/delete.js';
+import { computeMigrationChecksum, type Migration } from './migration-file.js';
+
+export interface MigratorOptions {
+  /** Name of the table recording applied migrations (defaults to `metal_migrations`) */
+  tableName?: string;
+  /** Schema of the tracking table */
+  schema?: string;
+}
+
+/**
+ * State of a migration: known and applied, known and pending, or applied but no longer known.
+ */
+export type MigrationState = 'applied' | 'pending' | 'missing';
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  /** When the migration was applied (ISO string) */
+  appliedAt?: string;
+  /** True when an applied migration was edited after it ran */
+  checksumMismatch: boolean;
+}
+
+/**
+ * Thrown when applied migrations were edited after they ran.
+ */
+export class MigrationChecksumError extends Error {
+  /**
+   * @param versions - Versions whose statements no longer match the recorded checksum
+   */
+  constructor(public readonly versions: string[]) {
+    super(
+      `Applied migration(s) ${versions.join(', ')} changed after they ran; ` +
+      'restore the original statements or add a new migration.'
+    );
+    this.name = 'MigrationChecksumError';
+  }
+}
+
+/**
+ * Thrown when a migration to revert lists changes its down statements do not revert.
+ */
+export class IrreversibleMigrationError extends Error {
+  /**
+   * @param version - Version of the irreversible migration
+   * @param changes - Changes the down statements do not revert
+   */
+  constructor(public readonly version: string, public readonly changes: string[]) {
+    super(
+      `Migration ${version} cannot be reverted: ${changes.join('; ')}. ` +
+      'Complete its down section and remove the "-- irreversible" comments.'
+    );
+    this.name = 'IrreversibleMigrationError';
+  }
+}
+
+interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  appliedAt: string;
+}
+
+const createTrackingTable = (name: string, schema?: string): TableDef =>
+  defineTable(
+    name,
+    {
+      version: col.primaryKey(col.varchar(64)),
+      name: col.notNull(col.varchar(255)),
+      checksum: col.notNull(col.varchar(64)),
+      applied_at: col.notNull(col.varchar(32))
+    },
+    {},
+    { schema }
+  );
+
+const assertReversible = (migrations: Migration[]): void => {
+  const irreversible = migrations.find(migration => migration.irreversible?.length);
+  if (irreversible) throw new IrreversibleMigrationError(irreversible.version, irreversible.irreversible!);
+};
+
+/**
+ * Applies and reverts versioned migrations, recording applied versions in a tracking table.
+ * Each migration runs in its own transaction when both the schema dialect supports transactional
+ * DDL and the executor supports transactions.
+ */
+export class Migrator {
+  private readonly table: TableDef;
+  private readonly migrations: Migration[];
+  private ensured = false;
+
+  /**
+   * @param executor - Executor running the migration statements
+   * @param dialect - Schema dialect of the database
+   * @param migrations - Known migrations, in any order
+   * @param options - Tracking table options
+   */
+  constructor(
+    private readonly executor: DbExecutor,
+    private readonly dialect: SchemaDialect,
+    migrations: Migration[],
+    options: MigratorOptions = {}
+  ) {
+    const versions = new Set<string>();
+    for (const migration of migrations) {
+      if (versions.has(migration.version)) {
+        throw new Error(`Duplicate migration version "${migration.version}".`);
+      }
+      versions.add(migration.version);
+    }
+    this.migrations = [...migrations].sort((a, b) => a.version.localeCompare(b.version));
+    this.table = createTrackingTable(options.tableName ?? 'metal_migrations', options.schema);
+  }
+
+  /**
+   * Lists known and applied migrations ordered by version.
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const applied = await this.readApplied();
+    const statuses: MigrationStatus[] = [];
+    for (const migration of this.migrations) {
+      const record = applied.get(migration.version);
+      statuses.push({
+        version: migration.version,
+        name: migration.name,
+        state: record ? 'applied' : 'pending',
+        appliedAt: record?.appliedAt,
+        checksumMismatch: !!record && record.checksum !== await computeMigrationChecksum(migration)
+      });
+    }
+    for (const record of applied.values()) {
+      if (this.migrations.some(migration => migration.version === record.version)) continue;
+      statuses.push({
+        version: record.version,
+        name: record.name,
+        state: 'missing',
+        appliedAt: record.appliedAt,
+        checksumMismatch: false
+      });
+    }
+    return statuses.sort((a, b) => a.version.localeCompare(b.version));
+  }
+
+  /**
+   * Applies pending migrations in version order.
+   * @param steps - Maximum number of migrations to apply (defaults to all)
+   * @returns The applied migrations
+   */
+  async up(steps?: number): Promise<Migration[]> {
+    const applied = await this.verify();
+    const pending = this.migrations.filter(migration => !applied.has(migration.version));
+    const batch = steps === undefined ? pending : pending.slice(0, steps);
+    for (const migration of batch) {
+      await this.apply(migration);
+    }
+    return batch;
+  }
+
+  /**
+   * Reverts the most recently applied migrations.
+   * @param steps - Number of migrations to revert (defaults to 1)
+   * @returns The reverted migrations
+   * @throws IrreversibleMigrationError before reverting anything when a migration in the batch is irreversible
+   */
+  async down(steps = 1): Promise<Migration[]> {
+    const applied = await this.verify();
+    const batch = this.resolveApplied(applied).reverse().slice(0, steps);
+    assertReversible(batch);
+    for (const migration of batch) {
+      await this.revert(migration);
+    }
+    return batch;
+  }
+
+  /**
+   * Migrates up or down until `version` is the latest applied migration.
+   * Passing `'0'` reverts every migration.
+   * @param version - Target version
+   * @returns The applied or reverted migrations
+   * @throws IrreversibleMigrationError before migrating when a migration to revert is irreversible
+   */
+  async to(version: string): Promise<Migration[]> {
+    if (version !== '0' && !this.migrations.some(migration => migration.version === version)) {
+      throw new Error(`Unknown migration version "${version}".`);
+    }
+    const applied = await this.verify();
+    const toRevert = this.resolveApplied(applied)
+      .filter(migration => migration.version > version)
+      .reverse();
+    assertReversible(toRevert);
+    for (const migration of toRevert) {
+      await this.revert(migration);
+    }
+    const toApply = this.migrations.filter(
+      migration => migration.version <= version && !applied.has(migration.version)
+    );
+    for (const migration of toApply) {
+      await this.apply(migration);
+    }
+    return [...toRevert, ...toApply];
+  }
+
+  private resolveApplied(applied: Map<string, AppliedMigration>): Migration[] {
+    return [...applied.keys()].sort().map(version => {
+      const migration = this.migrations.find(candidate => candidate.version === version);
+      if (!migration) {
+        throw new Error(`Applied migration "${version}" is not among the known migrations.`);
+      }
+      return migration;
+    });
+  }
+
+  private async verify(): Promise<Map<string, AppliedMigration>> {
+    const applied = await this.readApplied();
+    const changed: string[] = [];
+    for (const migration of this.migrations) {
+      const record = applied.get(migration.version);
+      if (record && record.checksum !== await computeMigrationChecksum(migration)) {
+        changed.push(migration.version);
+      }
+    }
+    if (changed.length) throw new MigrationChecksumError(changed);
+    return applied;
+  }
+
+  private async apply(migration: Migration): Promise<void> {
+    const checksum = await computeMigrationChecksum(migration);
+    const record = new InsertQueryBuilder(this.table)
+      .values({
+        version: migration.version,
+        name: migration.name,
+        checksum,
+        applied_at: new Date().toISOString()
+      })
+      .compile(this.dialect.name);
+    await this.run(migration, migration.up, record.sql, record.params);
+  }
+
+  private async revert(migration: Migration): Promise<void> {
+    const record = new DeleteQueryBuilder(this.table)
+      .where(eq(this.table.columns.version, migration.version))
+      .compile(this.dialect.name);
+    await this.run(migration, migration.down, record.sql, record.params);
+  }
+
+  private async run(migration: Migration, statements: string[], recordSql: string, recordParams: unknown[]): Promise<void> {
+    const transactional = migration.transactional !== false
+      && this.dialect.supportsTransactionalDdl()
+      && this.executor.capabilities.transactions;
+
+    const execute = async (): Promise<void> => {
+      for (const statement of statements) {
+        await this.executor.executeSql(statement);
+      }
+      await this.executor.executeSql(recordSql, recordParams);
+    };
+
+    if (!transactional) {
+      await execute();
+      return;
+    }
+
+    await this.executor.beginTransaction();
+    try {
+      await execute();
+      await this.executor.commitTransaction();
+    } catch (error) {
+      await this.executor.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  private async readApplied(): Promise<Map<string, AppliedMigration>> {
+    await this.ensureTable();
+    const columns = this.table.columns;
+    const compiled = new SelectQueryBuilder(this.table)
+      .select({
+        version: columns.version,
+        name: columns.name,
+        checksum: columns.checksum,
+        applied_at: columns.applied_at
+      })
+      .compile(this.dialect.name);
+    const [result] = payloadResultSets(await this.executor.executeSql(compiled.sql, compiled.params));
+    const applied = new Map<string, AppliedMigration>();
+    for (const row of toRows(result)) {
+      const version = String(row.version);
+      applied.set(version, {
+        version,
+        name: String(row.name),
+        checksum: String(row.checksum),
+        appliedAt: String(row.applied_at)
+      });
+    }
+    return applied;
+  }
+
+  private async ensureTable(): Promise<void> {
+    if (this.ensured) return;
+    const existing = await introspectSchema(this.executor, this.dialect.name, {
+      schema: this.table.schema,
+      includeTables: [this.table.name]
+    });
+    if (!existing.tables.some(table => table.name === this.table.name)) {
+      const { tableSql } = generateCreateTableSql(this.table, this.dialect);
+      await this.executor.executeSql(tableSql);
+    }
+    this.ensured = true;
+  }
+}
@@ -17,6 +17,7 @@ export interface SchemaDialectServices {
   quoteIdentifier(id: string): string;
   formatTableName(table: TableDef | DatabaseTable): string;
   renderDefault(value: unknown, column: ColumnDef): string;
+  renderReference(ref: ForeignKeyReference, table: TableDef): string;
 }
 
 export interface SchemaDialectConfig {
@@ -51,6 +52,7 @@ export interface SchemaDialectConfig {
     services: SchemaDialectServices
   ): string | undefined;
   supportsPartialIndexes?: boolean;
+  supportsTransactionalDdl?: boolean;
   preferInlinePkAutoincrement?(
     column: ColumnDef,
     table: TableDef,
@@ -76,11 +78,25 @@ export const composeSchemaDialect = (config: SchemaDialectConfig): SchemaDialect
     config.renderDefault?.(value, column, services)
       ?? formatLiteral(config.literalFormatter, value);
 
+  const renderReference = (ref: ForeignKeyReference, table: TableDef): string => {
+    const parts = [
+      'REFERENCES',
+      quoteQualified({ quoteIdentifier }, ref.table),
+      `(${quoteIdentifier(ref.column)})`
+    ];
+    if (ref.onDelete) parts.push('ON DELETE', ref.onDelete);
+    if (ref.onUpdate) parts.push('ON UPDATE', ref.onUpdate);
+    const suffix = config.renderReferenceSuffix?.(ref, table, services);
+    if (suffix) parts.push(suffix);
+    return parts.join(' ');
+  };
+
   services = {
     name: config.name,
     quoteIdentifier,
     formatTableName,
-    renderDefault
+    renderDefault,
+    renderReference
   };
 
   const mutations = config.mutations?.(services) ?? {};
@@ -92,23 +108,14 @@ export const composeSchemaDialect = (config: SchemaDialectConfig): SchemaDialect
     formatTableName,
     renderColumnType: column => config.renderColumnType(column, services),
     renderDefault,
+    formatLiteral: value => formatLiteral(config.literalFormatter, value),
     renderAutoIncrement: (column, table) =>
       config.renderAutoIncrement(column, table, services),
-    renderReference(ref, table) {
-      const parts = [
-        'REFERENCES',
-        quoteQualified({ quoteIdentifier }, ref.table),
-        `(${quoteIdentifier(ref.column)})`
-      ];
-      if (ref.onDelete) parts.push('ON DELETE', ref.onDelete);
-      if (ref.onUpdate) parts.push('ON UPDATE', ref.onUpdate);
-      const suffix = config.renderReferenceSuffix?.(ref, table, services);
-      if (suffix) parts.push(suffix);
-      return parts.join(' ');
-    },
+    renderReference,
     renderIndex: (table, index) => config.renderIndex(table, index, services),
     renderTableOptions: table => config.renderTableOptions?.(table, services),
     supportsPartialIndexes: () => config.supportsPartialIndexes ?? false,
+    supportsTransactionalDdl: () => config.supportsTransactionalDdl ?? false,
     preferInlinePkAutoincrement: (column, table, pk) =>
       config.preferInlinePkAutoincrement?.(column, table, pk, services) ?? false
   };
@@ -127,3 +134,81 @@ export const createStandardDropColumnCapability = (
     `ALTER TABLE ${services.formatTableName(table)} DROP COLUMN ${services.quoteIdentifier(column)};`
   ]
 });
+
+export const createStandardRenameTableCapability = (
+  services: SchemaDialectServices
+): NonNullable<SchemaMutationCapabilities['renameTable']> => ({
+  compile: (table, newName) => [
+    `ALTER TABLE ${services.formatTableName(table)} RENAME TO ${services.quoteIdentifier(newName)};`
+  ]
+});
+
+export const createStandardRenameColumnCapability = (
+  services: SchemaDialectServices
+): NonNullable<SchemaMutationCapabilities['renameColumn']> => ({
+  compile: (table, column, newName) => [
+    `ALTER TABLE ${services.formatTableName(table)} RENAME COLUMN ${services.quoteIdentifier(column)} TO ${services.quoteIdentifier(newName)};`
+  ]
+});
+
+const constraintPrefix = (services: SchemaDialectServices, name: string | undefined): string =>
+  name ? `CONSTRAINT ${services.quoteIdentifier(name)} ` : '';
+
+export const createStandardAddForeignKeyCapability = (
+  services: SchemaDialectServices
+): NonNullable<SchemaMutationCapabilities['addForeignKey']> => ({
+  compile: (table, column, reference) => [
+    `ALTER TABLE ${services.formatTableName(table)} ADD ${constraintPrefix(services, reference.name)}` +
+    `FOREIGN KEY (${services.quoteIdentifier(column)}) ${services.renderReference(reference, table)};`
+  ]
+});
+
+export const createStandardAddCheckCapability = (
+  services: SchemaDialectServices
+): NonNullable<SchemaMutationCapabilities['addCheck']> => ({
+  compile: (table, check) => [
+    `ALTER TABLE ${services.formatTableName(table)} ADD ${constraintPrefix(services, check.name)}CHECK (${check.expression});`
+  ]
+});
+
+/** DROP CONSTRAINT, usable for both dropForeignKey and dropCheck. */
+export const createStandardDropConstraintCapability = (
+  services: SchemaDialectServices
+): NonNullable<SchemaMutationCapabilities['dropForeignKey']> => ({
+  compile: (table, constraint) => [
+    `ALTER TABLE ${services.formatTableName(table)} DROP CONSTRAINT ${services.quoteIdentifier(constraint)};`
+  ]
+});
+
+export const createStandardCreateViewCapability = (
+  services: SchemaDialectServices
+): NonNullable<SchemaMutationCapabilities['createView']> => ({
+  compile: (view, query) => [`CREATE VIEW ${services.formatTableName(view)} AS ${query};`]
+});
+
+/** DROP VIEW; materialized views are expected to be table-backed emulations. */
+export const createStandardDropViewCapability = (
+  services: SchemaDialectServices
+): NonNullable<SchemaMutationCapabilities['dropView']> => ({
+  compile: (view, materialized) => [
+    `DROP ${materialized ? 'TABLE' : 'VIEW'} IF EXISTS ${services.formatTableName(view)};`
+  ]
+});
+
+/**
+ * Emulates materialized views with a table filled from the defining query;
+ * a refresh replaces its rows by re-running the query.
+ */
+export const createTableBackedMaterializedViewCapabilities = (
+  services: SchemaDialectServices
+): Pick<SchemaMutationCapabilities, 'createMaterializedView' | 'refreshMaterializedView'> => ({
+  createMaterializedView: {
+    compile: (view, query) => [`CREATE TABLE ${services.formatTableName(view)} AS ${query};`]
+  },
+  refreshMaterializedView: {
+    compile: (view, query) => [
+      `DELETE FROM ${services.formatTableName(view)};`,
+      `INSERT INTO ${services.formatTableName(view)} ${query};`
+    ]
+  }
+});
@@ -1,6 +1,6 @@
-import type { TableDef, IndexDef } from '../../schema/table.js';
+import type { TableDef, IndexDef, CheckConstraint } from '../../schema/table.js';
 import type { ColumnDef, ForeignKeyReference } from '../../schema/column-types.js';
-import type { DatabaseTable, DatabaseColumn, ColumnDiff } from './schema-types.js';
+import type { DatabaseTable, DatabaseColumn, DatabaseView, ColumnDiff } from './schema-types.js';
 
 /** The name of a database dialect. */
 export type DialectName =
@@ -40,12 +40,77 @@ export interface AlterColumnCapability {
   ): string | undefined;
 }
 
+export interface RenameTableCapability {
+  compile(table: DatabaseTable, newName: string): string[];
+}
+
+export interface RenameColumnCapability {
+  compile(table: DatabaseTable, column: string, newName: string): string[];
+}
+
+export interface AddForeignKeyCapability {
+  compile(table: TableDef, column: string, reference: ForeignKeyReference): string[];
+}
+
+export interface DropForeignKeyCapability {
+  compile(table: DatabaseTable, constraint: string): string[];
+}
+
+export interface AddCheckCapability {
+  compile(table: TableDef, check: CheckConstraint): string[];
+}
+
+export interface DropCheckCapability {
+  compile(table: DatabaseTable, constraint: string): string[];
+}
+
+export interface AlterCommentCapability {
+  /**
+   * @param table - Table owning the comment
+   * @param column - Column name, or undefined for the table comment
+   * @param comment - New comment, or undefined to remove it
+   * @param previous - Comment currently stored in the database
+   */
+  compile(table: TableDef, column: string | undefined, comment: string | undefined, previous: string | undefined): string[];
+}
+
+export interface CreateViewCapability {
+  /**
+   * @param view - View definition
+   * @param query - Defining SELECT with parameters inlined, without a trailing semicolon
+   */
+  compile(view: TableDef, query: string): string[];
+}
+
+export interface DropViewCapability {
+  compile(view: DatabaseView, materialized: boolean): string[];
+}
+
+export interface RefreshMaterializedViewCapability {
+  /**
+   * @param view - Materialized view definition
+   * @param query - Defining SELECT, used by emulations that re-run it
+   */
+  compile(view: TableDef, query: string): string[];
+}
+
 /** Explicit DDL mutation capabilities supported by a schema dialect. */
 export interface SchemaMutationCapabilities {
   dropTable?: DropTableCapability;
   dropColumn?: DropColumnCapability;
   dropIndex?: DropIndexCapability;
   alterColumn?: AlterColumnCapability;
+  renameTable?: RenameTableCapability;
+  renameColumn?: RenameColumnCapability;
+  addForeignKey?: AddForeignKeyCapability;
+  dropForeignKey?: DropForeignKeyCapability;
+  addCheck?: AddCheckCapability;
+  dropCheck?: DropCheckCapability;
+  alterComment?: AlterCommentCapability;
+  createView?: CreateViewCapability;
+  createMaterializedView?: CreateViewCapability;
+  dropView?: DropViewCapability;
+  refreshMaterializedView?: RefreshMaterializedViewCapability;
 }
 
 /** Structural contract for database-specific DDL rendering. */
@@ -58,6 +123,8 @@ export interface SchemaDialect {
 
   renderColumnType(column: ColumnDef): string;
   renderDefault(value: unknown, column: ColumnDef): string;
+  /** Renders a value as a SQL literal (used to inline view query parameters). */
+  formatLiteral(value: unknown): string;
   renderAutoIncrement(column: ColumnDef, table: TableDef): string | undefined;
 
   renderReference(ref: ForeignKeyReference, table: TableDef): string;
@@ -65,5 +132,7 @@ export interface SchemaDialect {
   renderTableOptions(table: TableDef): string | undefined;
 
   supportsPartialIndexes(): boolean;
+  /** True when DDL statements run inside a transaction can be rolled back. */
+  supportsTransactionalDdl(): boolean;
   preferInlinePkAutoincrement(column: ColumnDef, table: TableDef, pk: string[]): boolean;
 }
@@ -1,10 +1,18 @@
-import type { TableDef } from '../../schema/table.js';
+import type { CheckConstraint, TableDef } from '../../schema/table.js';
 import type { ColumnDef, ForeignKeyReference } from '../../schema/column-types.js';
 import type { DbExecutor } from '../execution/db-executor.js';
 import type { SchemaDialect } from './schema-dialect.js';
+import { withHistoryTables } from '../../schema/history-table.js';
 import { deriveIndexName } from './naming-strategy.js';
-import { generateCreateTableSql, renderColumnDefinition } from './schema-generator.js';
-import type { ColumnDiff, DatabaseColumn, DatabaseSchema, DatabaseTable } from './schema-types.js';
+import { generateCreateTableSql, renderColumnDefinition, renderViewQuery } from './schema-generator.js';
+import type {
+  ColumnDiff,
+  DatabaseCheck,
+  DatabaseColumn,
+  DatabaseSchema,
+  DatabaseTable,
+  DatabaseView
+} from './schema-types.js';
 
 export type SchemaChangeKind =
   | 'createTable'
@@ -13,7 +21,16 @@ export type SchemaChangeKind =
   | 'dropColumn'
   | 'alterColumn'
   | 'addIndex'
-  | 'dropIndex';
+  | 'dropIndex'
+  | 'renameTable'
+  | 'renameColumn'
+  | 'addForeignKey'
+  | 'dropForeignKey'
+  | 'addCheck'
+  | 'dropCheck'
+  | 'alterComment'
+  | 'createView'
+  | 'dropView';
 
 export interface SchemaChange {
   kind: SchemaChangeKind;
@@ -21,6 +38,8 @@ export interface SchemaChange {
   description: string;
   statements: string[];
   safe: boolean;
+  /** Statements reverting the change, when it can be undone automatically. */
+  rollback?: string[];
 }
 
 export interface SchemaPlan {
@@ -46,6 +65,12 @@ const buildAddColumnSql = (table: TableDef, columnName: string, dialect: SchemaD
   return `ALTER TABLE ${dialect.formatTableName(table)} ADD ${rendered.sql};`;
 };
 
+const toDatabaseTable = (table: TableDef): DatabaseTable => ({
+  name: table.name,
+  schema: table.schema,
+  columns: []
+});
+
 const normalizeType = (value: string | undefined): string =>
   (value || '').toLowerCase().replace(/\s+/g, ' ').trim();
 
@@ -57,14 +82,20 @@ const normalizeDefault = (value: unknown): string | undefined => {
 const normalizeReferenceAction = (value: string | undefined): string =>
   (value || 'NO ACTION').toUpperCase().replace(/\s+/g, ' ').trim();
 
+const unqualified = (name: string): string => name.slice(name.lastIndexOf('.') + 1);
+
 const sameReference = (
   expected: ForeignKeyReference | undefined,
   actual: ForeignKeyReference | undefined
 ): boolean => {
   if (!expected || !actual) return expected === actual;
-  return expected.table === actual.table
+  // Introspection may schema-qualify the target and report generated constraint names.
+  const sameTable = expected.table.includes('.')
+    ? expected.table === actual.table
+    : expected.table === unqualified(actual.table);
+  return sameTable
     && expected.column === actual.column
-    && expected.name === actual.name
+    && (expected.name === undefined || expected.name === actual.name)
     && normalizeReferenceAction(expected.onDelete) === normalizeReferenceAction(actual.onDelete)
     && normalizeReferenceAction(expected.onUpdate) === normalizeReferenceAction(actual.onUpdate)
     && !!expected.deferrable === !!actual.deferrable;
@@ -97,19 +128,313 @@ const unsupportedMutationWarning = (
 ): string =>
   `Dialect "${dialect.name}" does not provide the ${operation} capability for ${target}; manual migration is required.`;
 
+const pushCommentChange = (
+  plan: SchemaPlan,
+  dialect: SchemaDialect,
+  table: TableDef,
+  key: string,
+  column: string | undefined,
+  expected: string | undefined,
+  actual: string | undefined
+): void => {
+  // Comments are only managed when the definition declares one; '' removes it.
+  if (expected === undefined) return;
+  const next = expected.trim() || undefined;
+  const current = actual?.trim() || undefined;
+  if (next === current) return;
+
+  // Dialects without comment storage (SQLite) have nothing to migrate.
+  const capability = dialect.mutations.alterComment;
+  if (!capability) return;
+
+  const target = column ? `${key}.${column}` : key;
+  plan.changes.push({
+    kind: 'alterComment',
+    table: key,
+    description: `${next === undefined ? 'Remove' : 'Set'} comment on ${target}`,
+    statements: capability.compile(table, column, next, current),
+    safe: true,
+    rollback: capability.compile(table, column, current, next)
+  });
+};
+
+const pushForeignKeyChanges = (
+  plan: SchemaPlan,
+  dialect: SchemaDialect,
+  table: TableDef,
+  actualTable: DatabaseTable,
+  key: string,
+  columnName: string,
+  expected: ForeignKeyReference | undefined,
+  actual: ForeignKeyReference | undefined
+): void => {
+  const { addForeignKey, dropForeignKey } = dialect.mutations;
+  if ((actual && (!dropForeignKey || !actual.name)) || (expected && !addForeignKey)) {
+    plan.warnings.push(
+      `Foreign key definition on ${key}.${columnName} differs from the expected schema; manual constraint migration is required.`
+    );
+    return;
+  }
+
+  if (actual?.name) {
+    plan.changes.push({
+      kind: 'dropForeignKey',
+      table: key,
+      description: `Drop foreign key ${actual.name} on ${key}.${columnName}`,
+      statements: dropForeignKey!.compile(actualTable, actual.name),
+      safe: true,
+      rollback: addForeignKey?.compile(table, columnName, actual)
+    });
+  }
+  if (expected) {
+    plan.changes.push({
+      kind: 'addForeignKey',
+      table: key,
+      description: `Add foreign key on ${key}.${columnName} referencing ${expected.table}.${expected.column}`,
+      statements: addForeignKey!.compile(table, columnName, expected),
+      safe: true,
+      rollback: expected.name ? dropForeignKey?.compile(actualTable, expected.name) : undefined
+    });
+  }
+};
+
+const normalizeCheck = (expression: string): string =>
+  expression.toLowerCase().replace(/[\s()]/g, '');
+
+const pushCheckChanges = (
+  plan: SchemaPlan,
+  dialect: SchemaDialect,
+  table: TableDef,
+  actualTable: DatabaseTable,
+  key: string,
+  actualChecks: DatabaseCheck[],
+  allowDestructive: boolean
+): void => {
+  const { addCheck, dropCheck } = dialect.mutations;
+  const expectedChecks = table.checks ?? [];
+  const columnChecks = Object.values(table.columns)
+    .map(column => column.check)
+    .filter((check): check is string => !!check)
+    .map(normalizeCheck);
+  // Databases rewrite stored expressions, so named checks are matched by name alone.
+  const matches = (expected: CheckConstraint, actual: DatabaseCheck): boolean =>
+    expected.name
+      ? expected.name === actual.name
+      : normalizeCheck(expected.expression) === normalizeCheck(actual.expression);
+
+  for (const actual of actualChecks) {
+    if (expectedChecks.some(expected => matches(expected, actual))) continue;
+    if (columnChecks.includes(normalizeCheck(actual.expression))) continue;
+    const label = actual.name ?? actual.expression;
+    plan.changes.push({
+      kind: 'dropCheck',
+      table: key,
+      description: `Drop check constraint ${label} on ${key}`,
+      statements: allowDestructive && dropCheck && actual.name ? dropCheck.compile(actualTable, actual.name) : [],
+      safe: false,
+      rollback: addCheck?.compile(table, { name: actual.name, expression: actual.expression })
+    });
+    if (!dropCheck) {
+      plan.warnings.push(unsupportedMutationWarning(dialect, 'DROP CHECK', `${key}.${label}`));
+    } else if (!actual.name) {
+      plan.warnings.push(`Check constraint ${label} on ${key} has no name and must be dropped manually.`);
+    }
+  }
+
+  for (const expected of expectedChecks) {
+    if (actualChecks.some(actual => matches(expected, actual))) continue;
+    const label = expected.name ?? expected.expression;
+    if (!addCheck) {
+      plan.warnings.push(unsupportedMutationWarning(dialect, 'ADD CHECK', `${key}.${label}`));
+      continue;
+    }
+    plan.changes.push({
+      kind: 'addCheck',
+      table: key,
+      description: `Add check constraint ${label} on ${key}`,
+      statements: addCheck.compile(table, expected),
+      safe: true,
+      rollback: expected.name ? dropCheck?.compile(actualTable, expected.name) : undefined
+    });
+  }
+};
+
+/**
+ * Databases store view definitions rewritten (PostgreSQL and MySQL re-print them, adding casts,
+ * parentheses and qualifiers), so definitions are compared after removing quoting, qualifiers,
+ * casts, parentheses, redundant aliases, case and whitespace.
+ */
+const normalizeViewDefinition = (sql: string): string =>
+  sql
+    .toLowerCase()
+    .replace(/^\s*create\s+(?:or\s+(?:replace|alter)\s+)?(?:materialized\s+)?view\s+\S+(?:\s*\([^)]*\))?\s+as\s+/, '')
+    .replace(/["`[\]]/g, '')
+    .replace(/\b_[a-z0-9]+'/g, '\'')
+    .replace(/::[a-z_]+(?:\s+(?:varying|precision))?(?:\[\])?/g, '')
+    .replace(/!~~\*?/g, ' not like ')
+    .replace(/~~\*/g, ' ilike ')
+    .replace(/~~/g, ' like ')
+    .replace(/\b[a-z_][a-z0-9_$]*\./g, '')
+    .replace(/[();]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/\b(\w+) as \1\b/g, '$1')
+    .replace(/ (?:as|asc)\b/g, '')
+    .replace(/\s+/g, '');
+
+// information_schema-based introspectors also report the columns of views as tables.
+const withoutViewTables = (schema: DatabaseSchema): DatabaseSchema => {
+  const viewKeys = new Set((schema.views ?? []).map(view => tableKey(view.name, view.schema)));
+  if (viewKeys.size === 0) return schema;
+  return { ...schema, tables: schema.tables.filter(table => !viewKeys.has(tableKey(table.name, table.schema))) };
+};
+
+const toDatabaseView = (view: TableDef): DatabaseView => ({
+  name: view.name,
+  schema: view.schema,
+  columns: []
+});
+
+// Re-creates an introspected view; SQLite and SQL Server store the whole CREATE statement.
+const restoreViewSql = (actual: DatabaseView, dialect: SchemaDialect): string[] | undefined => {
+  const definition = actual.definition?.trim().replace(/;+$/, '').trim();
+  if (!definition) return undefined;
+  if (/^create\b/i.test(definition)) return [`${definition};`];
+  const capability = actual.materialized
+    ? dialect.mutations.createMaterializedView
+    : dialect.mutations.createView;
+  return capability?.compile({ name: actual.name, schema: actual.schema, columns: {}, relations: {} }, definition);
+};
+
+const diffViews = (
+  plan: SchemaPlan,
+  dialect: SchemaDialect,
+  expectedViews: TableDef[],
+  actualSchema: DatabaseSchema,
+  allowDestructive: boolean
+): { drops: SchemaChange[]; creates: SchemaChange[] } => {
+  const drops: SchemaChange[] = [];
+  const creates: SchemaChange[] = [];
+  const { dropView } = dialect.mutations;
+  const actualViews = new Map((actualSchema.views ?? []).map(view => [tableKey(view.name, view.schema), view]));
+  const actualTables = mapTables(actualSchema);
+  const expectedKeys = new Set(expectedViews.map(view => tableKey(view.name, view.schema)));
+
+  for (const view of expectedViews) {
+    // Views without a definition are managed outside the ORM.
+    if (view.view?.definition === undefined) continue;
+    const key = tableKey(view.name, view.schema);
+    const materialized = !!view.view.materialized;
+    const actual = actualViews.get(key);
+    // Table-backed materialized views do not store their query, so they are never redefined.
+    if (!actual && materialized && actualTables.has(key)) continue;
+
+    const capability = materialized
+      ? dialect.mutations.createMaterializedView
+      : dialect.mutations.createView;
+    if (!capability) {
+      plan.warnings.push(
+        unsupportedMutationWarning(dialect, materialized ? 'CREATE MATERIALIZED VIEW' : 'CREATE VIEW', key)
+      );
+      continue;
+    }
+    const query = renderViewQuery(view, dialect);
+
+    if (actual) {
+      const unchanged = !!actual.materialized === materialized
+        && (actual.definition === undefined
+          || normalizeViewDefinition(actual.definition) === normalizeViewDefinition(query));
+      if (unchanged) continue;
+      if (!dropView) {
+        plan.warnings.push(unsupportedMutationWarning(dialect, 'DROP VIEW', key));
+        continue;
+      }
+      drops.push({
+        kind: 'dropView',
+        table: key,
+        description: `Drop view ${key} to redefine it`,
+        statements: dropView.compile(actual, !!actual.materialized),
+        safe: true,
+        rollback: restoreViewSql(actual, dialect)
+      });
+    }
+
+    creates.push({
+      kind: 'createView',
+      table: key,
+      description: `Create ${materialized ? 'materialized ' : ''}view ${key}`,
+      statements: capability.compile(view, query),
+      safe: true,
+      rollback: dropView?.compile(toDatabaseView(view), materialized)
+    });
+  }
+
+  for (const actual of actualSchema.views ?? []) {
+    const key = tableKey(actual.name, actual.schema);
+    if (expectedKeys.has(key)) continue;
+    drops.push({
+      kind: 'dropView',
+      table: key,
+      description: `Drop view ${key}`,
+      statements: allowDestructive && dropView ? dropView.compile(actual, !!actual.materialized) : [],
+      safe: false,
+      rollback: restoreViewSql(actual, dialect)
+    });
+    if (!dropView) plan.warnings.push(unsupportedMutationWarning(dialect, 'DROP VIEW', key));
+  }
+
+  return { drops, creates };
+};
+
+/**
+ * Compares table and view definitions with an introspected schema.
+ * Audited tables bring their history tables along, as in `generateSchemaSql`.
+ * Views are compared with `actualSchema.views`, so introspect with `includeViews: true`.
+ * View drops run before the table changes and view creations after them.
+ */
 export const diffSchema = (
   expectedTables: TableDef[],
-  actualSchema: DatabaseSchema,
+  introspectedSchema: DatabaseSchema,
   dialect: SchemaDialect,
   options: SchemaDiffOptions = {}
 ): SchemaPlan => {
+  const actualSchema = withoutViewTables(introspectedSchema);
   const allowDestructive = options.allowDestructive ?? false;
   const plan: SchemaPlan = { changes: [], warnings: [] };
+  const tables = withHistoryTables(expectedTables.filter(table => !table.view));
+  const views = expectedTables.filter(table => table.view);
   const actualMap = mapTables(actualSchema);
+  const expectedKeys = new Set(tables.map(table => tableKey(table.name, table.schema)));
+  // Table-backed materialized views and externally managed views are not dropped as tables.
+  views
+    .filter(view => view.view?.materialized || view.view?.definition === undefined)
+    .forEach(view => expectedKeys.add(tableKey(view.name, view.schema)));
+  const renamedTables = new Set<string>();
+  const { drops, creates } = diffViews(plan, dialect, views, actualSchema, allowDestructive);
 
-  for (const table of expectedTables) {
+  for (const table of tables) {
     const key = tableKey(table.name, table.schema);
-    const actual = actualMap.get(key);
+    let actual = actualMap.get(key);
+
+    const previousKey = table.renamedFrom ? tableKey(table.renamedFrom, table.schema) : undefined;
+    const previous = previousKey && !expectedKeys.has(previousKey) ? actualMap.get(previousKey) : undefined;
+    if (!actual && previous) {
+      const capability = dialect.mutations.renameTable;
+      if (capability) {
+        actual = { ...previous, name: table.name };
+        renamedTables.add(previousKey!);
+        plan.changes.push({
+          kind: 'renameTable',
+          table: key,
+          description: `Rename table ${previousKey} to ${key}`,
+          statements: capability.compile(previous, table.name),
+          safe: true,
+          rollback: capability.compile(actual, previous.name)
+        });
+      } else {
+        plan.warnings.push(unsupportedMutationWarning(dialect, 'RENAME TABLE', `${previousKey} -> ${key}`));
+      }
+    }
+
     if (!actual) {
       const { tableSql, indexSql } = generateCreateTableSql(table, dialect);
       plan.changes.push({
@@ -117,33 +442,73 @@ export const diffSchema = (
         table: key,
         description: `Create table ${key}`,
         statements: [tableSql, ...indexSql],
-        safe: true
+        safe: true,
+        rollback: dialect.mutations.dropTable?.compile(toDatabaseTable(table))
       });
+      pushCommentChange(plan, dialect, table, key, undefined, table.comment, undefined);
+      for (const [columnName, column] of Object.entries(table.columns)) {
+        pushCommentChange(plan, dialect, table, key, columnName, column.comment, undefined);
+      }
       continue;
     }
 
     const actualColumns = new Map(actual.columns.map(column => [column.name, column]));
+    const renamedColumns = new Set<string>();
     for (const columnName of Object.keys(table.columns)) {
-      if (!actualColumns.has(columnName)) {
+      const expectedColumn = table.columns[columnName];
+      let actualColumn = actualColumns.get(columnName);
+
+      const previousColumn = expectedColumn.renamedFrom && !table.columns[expectedColumn.renamedFrom]
+        ? actualColumns.get(expectedColumn.renamedFrom)
+        : undefined;
+      if (!actualColumn && previousColumn) {
+        const capability = dialect.mutations.renameColumn;
+        if (capability) {
+          actualColumn = { ...previousColumn, name: columnName };
+          renamedColumns.add(previousColumn.name);
+          plan.changes.push({
+            kind: 'renameColumn',
+            table: key,
+            description: `Rename column ${previousColumn.name} to ${columnName} on ${key}`,
+            statements: capability.compile(actual, previousColumn.name, columnName),
+            safe: true,
+            rollback: capability.compile(actual, columnName, previousColumn.name)
+          });
+        } else {
+          plan.warnings.push(
+            unsupportedMutationWarning(dialect, 'RENAME COLUMN', `${key}.${previousColumn.name} -> ${columnName}`)
+          );
+        }
+      }
+
+      if (!actualColumn) {
         plan.changes.push({
           kind: 'addColumn',
           table: key,
           description: `Add column ${columnName} to ${key}`,
           statements: [buildAddColumnSql(table, columnName, dialect)],
-          safe: true
+          safe: true,
+          rollback: dialect.mutations.dropColumn?.compile(actual, columnName)
         });
+        pushCommentChange(plan, dialect, table, key, columnName, expectedColumn.comment, undefined);
         continue;
       }
 
-      const expectedColumn = table.columns[columnName];
-      const actualColumn = actualColumns.get(columnName)!;
       const columnDiff = diffColumn(expectedColumn, actualColumn, dialect);
 
       if (columnDiff.referenceChanged) {
-        plan.warnings.push(
-          `Foreign key definition on ${key}.${columnName} differs from the expected schema; manual constraint migration is required.`
+        pushForeignKeyChanges(
+          plan,
+          dialect,
+          table,
+          actual,
+          key,
+          columnName,
+          expectedColumn.references,
+          actualColumn.references
         );
       }
+      pushCommentChange(plan, dialect, table, key, columnName, expectedColumn.comment, actualColumn.comment);
 
       const shouldAlter =
         columnDiff.typeChanged
@@ -175,7 +540,7 @@ export const diffSchema = (
     }
 
     for (const columnName of actualColumns.keys()) {
-      if (table.columns[columnName]) continue;
+      if (table.columns[columnName] || renamedColumns.has(columnName)) continue;
       const capability = dialect.mutations.dropColumn;
       const statements = allowDestructive && capability
         ? capability.compile(actual, columnName)
@@ -209,7 +574,8 @@ export const diffSchema = (
           table: key,
           description: `Create index ${name} on ${key}`,
           statements: [dialect.renderIndex(table, { ...index, name })],
-          safe: true
+          safe: true,
+          rollback: dialect.mutations.dropIndex?.compile(actual, name)
         });
       }
     }
@@ -241,11 +607,16 @@ export const diffSchema = (
         if (warning) plan.warnings.push(warning);
       }
     }
+
+    if (actual.checks) {
+      pushCheckChanges(plan, dialect, table, actual, key, actual.checks, allowDestructive);
+    }
+    pushCommentChange(plan, dialect, table, key, undefined, table.comment, actual.comment);
   }
 
   for (const actual of actualSchema.tables) {
     const key = tableKey(actual.name, actual.schema);
-    if (expectedTables.find(table => tableKey(table.name, table.schema) === key)) continue;
+    if (expectedKeys.has(key) || renamedTables.has(key)) continue;
 
     const capability = dialect.mutations.dropTable;
     const statements = allowDestructive && capability ? capability.compile(actual) : [];
@@ -264,6 +635,8 @@ export const diffSchema = (
     }
   }
 
+  plan.changes.unshift(...drops);
+  plan.changes.push(...creates);
   return plan;
 };
 
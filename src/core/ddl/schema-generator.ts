@@ -1,8 +1,11 @@
-import type { TableDef } from '../../schema/table.js';
+import type { TableDef, ViewDefinition } from '../../schema/table.js';
 import type { ColumnDef } from '../../schema/column-types.js';
+import { withHistoryTables } from '../../schema/history-table.js';
 import type { SchemaDialect } from './schema-dialect.js';
 import type { DbExecutor } from '../execution/db-executor.js';
 import { resolvePrimaryKey } from './sql-writing.js';
+import { DialectFactory } from '../dialect/dialect-factory.js';
+import { SQL_LEXER_RULES, tokenizeSql } from '../sql/parser/sql-lexer.js';
 import { DialectName } from './schema-dialect.js';
 
 /** Result of generating schema SQL. */
@@ -114,9 +117,125 @@ export const generateCreateTableSql = (
   return { tableSql, indexSql };
 };
 
+const stripTerminator = (sql: string): string => sql.trim().replace(/;+$/, '').trimEnd();
+
+const resolveViewDefinition = (view: TableDef): ViewDefinition => {
+  const definition = view.view?.definition;
+  if (definition === undefined) {
+    throw new Error(`View ${view.name} has no definition; it is managed outside the ORM.`);
+  }
+  return typeof definition === 'function' ? definition() : definition;
+};
+
+// View definitions cannot carry bound parameters, so compiled placeholders become literals.
+const inlineParameters = (sql: string, params: unknown[], dialect: SchemaDialect): string => {
+  if (params.length === 0) return sql;
+  const rules = SQL_LEXER_RULES[dialect.name as keyof typeof SQL_LEXER_RULES];
+  if (!rules) {
+    throw new Error(`Dialect ${dialect.name} has no SQL lexer rules to inline the parameters of a view query.`);
+  }
+  let result = '';
+  let last = 0;
+  let sequential = 0;
+  for (const token of tokenizeSql(sql, rules)) {
+    if (token.kind !== 'parameter') continue;
+    // Numbered placeholders ($2, @p2, ?2) carry their position; bare `?` are sequential.
+    const number = /\d+$/.exec(token.value);
+    const index = number ? Number(number[0]) - 1 : sequential++;
+    result += sql.slice(last, token.start) + dialect.formatLiteral(params[index]);
+    last = token.end;
+  }
+  return result + sql.slice(last);
+};
+
+/**
+ * Renders the defining query of a view.
+ * Query builders and ASTs are compiled for the dialect with their parameters inlined;
+ * raw SQL is used as written.
+ * @param view - The view definition.
+ * @param dialect - The schema dialect.
+ * @returns The SELECT statement, without a trailing semicolon.
+ */
+export const renderViewQuery = (view: TableDef, dialect: SchemaDialect): string => {
+  const definition = resolveViewDefinition(view);
+  if (typeof definition === 'string') return stripTerminator(definition);
+  const ast = 'getAST' in definition ? definition.getAST() : definition;
+  const compiled = DialectFactory.create(dialect.name).compileSelect(ast);
+  return stripTerminator(inlineParameters(compiled.sql, compiled.params, dialect));
+};
+
+/**
+ * Generates SQL to create a view or materialized view.
+ * Dialects without materialized views emulate them with a table filled from the query.
+ * @param view - The view definition.
+ * @param dialect - The schema dialect.
+ * @returns The SQL statements.
+ */
+export const generateCreateViewSql = (
+  view: TableDef,
+  dialect: SchemaDialect
+): string[] => {
+  const materialized = !!view.view?.materialized;
+  const capability = materialized
+    ? dialect.mutations.createMaterializedView
+    : dialect.mutations.createView;
+  if (!capability) {
+    throw new Error(`Dialect ${dialect.name} does not support ${materialized ? 'materialized views' : 'views'} (${view.name}).`);
+  }
+  return capability.compile(view, renderViewQuery(view, dialect));
+};
+
+/**
+ * Generates SQL to refresh a materialized view.
+ * @param view - The materialized view definition.
+ * @param dialect - The schema dialect.
+ * @returns The SQL statements.
+ */
+export const generateRefreshMaterializedViewSql = (
+  view: TableDef,
+  dialect: SchemaDialect
+): string[] => {
+  if (!view.view?.materialized) {
+    throw new Error(`View ${view.name} is not materialized.`);
+  }
+  const capability = dialect.mutations.refreshMaterializedView;
+  if (!capability) {
+    throw new Error(`Dialect ${dialect.name} does not support refreshing materialized views (${view.name}).`);
+  }
+  return capability.compile(view, renderViewQuery(view, dialect));
+};
+
+/**
+ * Refreshes a materialized view.
+ * Multi-statement emulations run in a transaction when the executor supports one.
+ * @param executor - The database executor to run statements with.
+ * @param view - The materialized view definition.
+ * @param dialect - The schema dialect used to render SQL.
+ */
+export const refreshMaterializedView = async (
+  executor: DbExecutor,
+  view: TableDef,
+  dialect: SchemaDialect
+): Promise<void> => {
+  const statements = generateRefreshMaterializedViewSql(view, dialect);
+  const transactional = statements.length > 1 && executor.capabilities.transactions;
+  if (transactional) await executor.beginTransaction();
+  try {
+    for (const sql of statements) {
+      await executor.executeSql(sql);
+    }
+    if (transactional) await executor.commitTransaction();
+  } catch (error) {
+    if (transactional) await executor.rollbackTransaction();
+    throw error;
+  }
+};
+
 /**
  * Generates SQL for creating multiple tables.
- * @param tables - The table definitions.
+ * Audited tables bring their history tables along.
+ * Views follow the tables in declaration order; views without a definition are skipped.
+ * @param tables - The table and view definitions.
  * @param dialect - The schema dialect.
  * @returns The SQL statements.
  */
@@ -124,12 +243,15 @@ export const generateSchemaSql = (
   tables: TableDef[],
   dialect: SchemaDialect
 ): string[] => {
-  const ordered = orderTablesByDependencies(tables);
+  const ordered = orderTablesByDependencies(withHistoryTables(tables.filter(table => !table.view)));
   const statements: string[] = [];
   ordered.forEach(table => {
     const { tableSql, indexSql } = generateCreateTableSql(table, dialect);
     statements.push(tableSql, ...indexSql);
   });
+  tables
+    .filter(table => table.view?.definition !== undefined)
+    .forEach(view => statements.push(...generateCreateViewSql(view, dialect)));
   return statements;
 };
 
@@ -56,6 +56,8 @@ export interface DatabaseView {
   columns: DatabaseColumn[];
   definition?: string;
   comment?: string;
+  /** True for materialized views (PostgreSQL) */
+  materialized?: boolean;
 }
 
 /** Represents the overall database schema. */
@@ -1,6 +1,7 @@
 import type {
   DeleteQueryNode,
   InsertQueryNode,
+  MergeQueryNode,
   SelectQueryNode,
   UpdateQueryNode
 } from '../ast/query.js';
@@ -15,6 +16,8 @@ export interface CompilerContext {
 export interface CompiledQuery {
   sql: string;
   params: unknown[];
+  /** AST the SQL was compiled from, set when compilation rewrote the input AST (tenant scoping, soft deletes) */
+  ast?: SelectQueryNode | InsertQueryNode | UpdateQueryNode | DeleteQueryNode | MergeQueryNode;
 }
 
 export interface SelectCompiler {
@@ -43,4 +46,6 @@ export interface Dialect
   extends SelectCompiler, InsertCompiler, UpdateCompiler, DeleteCompiler {
   quoteIdentifier(id: string): string;
   supportsDmlReturningClause(): boolean;
+  /** Whether identity values of a multi-row INSERT increase in VALUES order (assumed not when absent) */
+  insertsIdentityInValuesOrder?(): boolean;
 }
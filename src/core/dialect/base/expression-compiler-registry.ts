@@ -16,6 +16,9 @@ import {
   type ScalarSubqueryNode,
   type CaseExpressionNode,
   type CastExpressionNode,
+  type WindowDefinitionNode,
+  type WindowFrameBound,
+  type WindowFrameNode,
   type WindowFunctionNode,
   type BetweenExpressionNode,
   type ArithmeticExpressionNode,
@@ -32,6 +35,8 @@ export interface ExpressionCompilerHost {
   compileSelectForExists(ast: SelectQueryNode, ctx: CompilerContext): string;
   compileJsonPath(node: JsonPathNode): string;
   compileFunctionOperand(node: FunctionNode, ctx: CompilerContext): string;
+  /** Optional frame capability check; frames are accepted when omitted. */
+  supportsWindowFrame?(frame: WindowFrameNode): boolean;
   describe(): string;
 }
 
@@ -82,6 +87,51 @@ export class ExpressionCompilerRegistry {
     return compiler(node, ctx);
   }
 
+  /**
+   * Renders the body of a window specification (without the surrounding parentheses).
+   */
+  compileWindowDefinition(definition: WindowDefinitionNode, ctx: CompilerContext): string {
+    const parts: string[] = [];
+    if (definition.baseWindow) {
+      parts.push(this.host.quoteIdentifier(definition.baseWindow));
+    }
+
+    if (definition.partitionBy && definition.partitionBy.length > 0) {
+      const partitionClause = 'PARTITION BY ' + definition.partitionBy.map(col =>
+        `${this.host.quoteIdentifier(col.table)}.${this.host.quoteIdentifier(col.name)}`
+      ).join(', ');
+      parts.push(partitionClause);
+    }
+
+    if (definition.orderBy && definition.orderBy.length > 0) {
+      const orderClause = 'ORDER BY ' + definition.orderBy.map(o => {
+        const term = this.compileOrderingTerm(o.term, ctx);
+        const collation = o.collation ? ` COLLATE ${o.collation}` : '';
+        const nulls = o.nulls ? ` NULLS ${o.nulls}` : '';
+        return `${term} ${o.direction}${collation}${nulls}`;
+      }).join(', ');
+      parts.push(orderClause);
+    }
+
+    if (definition.frame) {
+      parts.push(this.compileWindowFrame(definition.frame));
+    }
+
+    return parts.join(' ');
+  }
+
+  private compileWindowFrame(frame: WindowFrameNode): string {
+    const bound = (b: WindowFrameBound): string =>
+      b.kind === 'PRECEDING' || b.kind === 'FOLLOWING' ? `${b.offset ?? 0} ${b.kind}` : b.kind;
+    const sql = frame.end
+      ? `${frame.unit} BETWEEN ${bound(frame.start)} AND ${bound(frame.end)}`
+      : `${frame.unit} ${bound(frame.start)}`;
+    if (this.host.supportsWindowFrame && !this.host.supportsWindowFrame(frame)) {
+      throw new Error(`Window frame "${sql}" is not supported by dialect "${this.host.describe()}".`);
+    }
+    return sql;
+  }
+
   compileOrderingTerm(term: OrderingTerm, ctx: CompilerContext): string {
     if (isOperandNode(term)) {
       return this.compileOperand(term, ctx);
@@ -205,33 +255,13 @@ export class ExpressionCompilerRegistry {
     });
 
     this.registerOperandCompiler('WindowFunction', (node: WindowFunctionNode, ctx) => {
-      let result = `${node.name}(`;
-      if (node.args.length > 0) {
-        result += node.args.map(arg => this.compileOperand(arg, ctx)).join(', ');
-      }
-      result += ') OVER (';
-
-      const parts: string[] = [];
-      if (node.partitionBy && node.partitionBy.length > 0) {
-        const partitionClause = 'PARTITION BY ' + node.partitionBy.map(col =>
-          `${this.host.quoteIdentifier(col.table)}.${this.host.quoteIdentifier(col.name)}`
-        ).join(', ');
-        parts.push(partitionClause);
-      }
-
-      if (node.orderBy && node.orderBy.length > 0) {
-        const orderClause = 'ORDER BY ' + node.orderBy.map(o => {
-          const term = this.compileOrderingTerm(o.term, ctx);
-          const collation = o.collation ? ` COLLATE ${o.collation}` : '';
-          const nulls = o.nulls ? ` NULLS ${o.nulls}` : '';
-          return `${term} ${o.direction}${collation}${nulls}`;
-        }).join(', ');
-        parts.push(orderClause);
-      }
-
-      result += parts.join(' ');
-      result += ')';
-      return result;
+      // Render the call like a plain function so aggregates keep their dialect spelling (e.g. COUNT(*)).
+      const call = this.host.compileFunctionOperand({ type: 'Function', name: node.name, args: node.args }, ctx);
+      const onlyNamed = node.baseWindow && !node.partitionBy?.length && !node.orderBy?.length && !node.frame;
+      const window = onlyNamed
+        ? this.host.quoteIdentifier(node.baseWindow!)
+        : `(${this.compileWindowDefinition(node, ctx)})`;
+      return `${call} OVER ${window}`;
     });
 
     this.registerOperandCompiler('ArithmeticExpression', (node: ArithmeticExpressionNode, ctx) => {
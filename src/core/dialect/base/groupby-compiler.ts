@@ -1,4 +1,5 @@
 import { OrderingTerm, SelectQueryNode } from '../../ast/query.js';
+import type { GroupingCompilationServices, GroupingStrategy } from './grouping-strategy.js';
 
 type TermRenderer = (term: OrderingTerm) => string;
 
@@ -11,11 +12,14 @@ export class GroupByCompiler {
    * Compiles GROUP BY clause from a SELECT query AST.
    * @param ast - The SELECT query AST containing grouping columns.
    * @param renderTerm - Function to render a grouping term.
+   * @param services - Dialect services exposing the grouping strategy (ROLLUP, CUBE, GROUPING SETS).
    * @returns SQL GROUP BY clause (e.g., " GROUP BY table.col1, table.col2") or empty string if no grouping.
    */
-  static compileGroupBy(ast: SelectQueryNode, renderTerm: TermRenderer): string {
-    if (!ast.groupBy || ast.groupBy.length === 0) return '';
-    const cols = ast.groupBy.map(renderTerm).join(', ');
-    return ` GROUP BY ${cols}`;
+  static compileGroupBy(
+    ast: SelectQueryNode,
+    renderTerm: TermRenderer,
+    services: GroupingCompilationServices & { getGroupingStrategy(): GroupingStrategy }
+  ): string {
+    return services.getGroupingStrategy().compileGroupBy(ast.groupBy, renderTerm, services);
   }
 }
@@ -0,0 +1,63 @@
+import type { GroupByTerm, GroupingSetsNode, OrderingTerm } from '../../ast/query.js';
+import { isGroupingSetsNode } from '../../ast/query.js';
+
+export type GroupingTermRenderer = (term: OrderingTerm) => string;
+
+/** Narrow services needed by backend-specific GROUP BY implementations. */
+export interface GroupingCompilationServices {
+  getDialectName(): string;
+}
+
+/** Backend-specific GROUP BY rendering strategy (plain lists, ROLLUP, CUBE, GROUPING SETS). */
+export interface GroupingStrategy {
+  /**
+   * Renders the GROUP BY clause.
+   * @returns SQL clause (e.g., " GROUP BY ROLLUP(a, b)") or empty string.
+   */
+  compileGroupBy(
+    terms: GroupByTerm[] | undefined,
+    renderTerm: GroupingTermRenderer,
+    services: GroupingCompilationServices
+  ): string;
+}
+
+/** Default strategy for dialects that only support plain GROUP BY lists. */
+export class NoGroupingSetsStrategy implements GroupingStrategy {
+  compileGroupBy(
+    terms: GroupByTerm[] | undefined,
+    renderTerm: GroupingTermRenderer,
+    services: GroupingCompilationServices
+  ): string {
+    if (!terms || terms.length === 0) return '';
+    const rendered = terms.map(term =>
+      isGroupingSetsNode(term) ? this.compileGroupingSets(term, renderTerm, services) : renderTerm(term)
+    );
+    return ` GROUP BY ${rendered.join(', ')}`;
+  }
+
+  protected compileGroupingSets(
+    node: GroupingSetsNode,
+    _renderTerm: GroupingTermRenderer,
+    services: GroupingCompilationServices
+  ): string {
+    void _renderTerm;
+    throw new Error(`${node.kind} is not supported by dialect "${services.getDialectName()}".`);
+  }
+}
+
+/** Standard SQL ROLLUP(...), CUBE(...) and GROUPING SETS (...) implementation. */
+export class StandardGroupingStrategy extends NoGroupingSetsStrategy {
+  protected override compileGroupingSets(
+    node: GroupingSetsNode,
+    renderTerm: GroupingTermRenderer,
+    _services: GroupingCompilationServices
+  ): string {
+    void _services;
+    const renderSet = (set: OrderingTerm[]): string => `(${set.map(renderTerm).join(', ')})`;
+    if (node.kind === 'GROUPING SETS') {
+      return `GROUPING SETS (${node.sets.map(renderSet).join(', ')})`;
+    }
+    const elements = node.sets.map(set => (set.length === 1 ? renderTerm(set[0]) : renderSet(set)));
+    return `${node.kind}(${elements.join(', ')})`;
+  }
+}
@@ -0,0 +1,63 @@
+import type { SelectLockNode, TableSourceNode } from '../../ast/query.js';
+import type { QuoteIdentifier } from './returning-strategy.js';
+
+/** Narrow services needed by backend-specific row-locking implementations. */
+export interface LockCompilationServices {
+  getDialectName(): string;
+  quoteIdentifier: QuoteIdentifier;
+}
+
+/** Backend-specific row-level locking (FOR UPDATE / table hints) rendering strategy. */
+export interface LockStrategy {
+  /**
+   * Renders the trailing locking clause appended after pagination.
+   * @returns SQL clause (e.g., " FOR UPDATE SKIP LOCKED") or empty string.
+   */
+  compileLockClause(lock: SelectLockNode | undefined, services: LockCompilationServices): string;
+
+  /**
+   * Renders an inline table hint placed right after a FROM/JOIN table source.
+   * @returns SQL hint (e.g., " WITH (UPDLOCK, ROWLOCK)") or empty string.
+   */
+  compileTableHint(
+    source: TableSourceNode,
+    lock: SelectLockNode | undefined,
+    services: LockCompilationServices
+  ): string;
+}
+
+/** Default strategy for dialects without row-level locking support. */
+export class NoLockStrategy implements LockStrategy {
+  compileLockClause(lock: SelectLockNode | undefined, services: LockCompilationServices): string {
+    if (!lock) return '';
+    throw new Error(
+      `Row locking clauses are not supported by dialect "${services.getDialectName()}".`
+    );
+  }
+
+  compileTableHint(
+    _source: TableSourceNode,
+    _lock: SelectLockNode | undefined,
+    _services: LockCompilationServices
+  ): string {
+    void _source;
+    void _lock;
+    void _services;
+    return '';
+  }
+}
+
+/** Standard SQL FOR UPDATE / FOR SHARE [OF ...] [NOWAIT | SKIP LOCKED] implementation. */
+export class StandardLockStrategy extends NoLockStrategy {
+  override compileLockClause(
+    lock: SelectLockNode | undefined,
+    services: LockCompilationServices
+  ): string {
+    if (!lock) return '';
+    const of = lock.of && lock.of.length
+      ? ` OF ${lock.of.map(table => services.quoteIdentifier(table.alias ?? table.name)).join(', ')}`
+      : '';
+    const wait = lock.wait ? ` ${lock.wait}` : '';
+    return ` FOR ${lock.mode}${of}${wait}`;
+  }
+}
@@ -30,6 +30,10 @@ export class SelectAstNormalizer {
 
     if (!hasSetOps) return;
 
+    if (ast.lock) {
+      throw new Error('Row locking clauses cannot be combined with set operations.');
+    }
+
     for (const op of ast.setOps!) {
       if (!this.supportsSetOperation(op.operator)) {
         throw new Error(`Set operation ${op.operator} is not supported by this dialect.`);
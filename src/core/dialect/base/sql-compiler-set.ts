@@ -2,6 +2,7 @@ import type { CompilerContext } from '../abstract.js';
 import type {
   DeleteQueryNode,
   InsertQueryNode,
+  MergeQueryNode,
   SelectQueryNode,
   UpdateQueryNode
 } from '../../ast/query.js';
@@ -17,6 +18,7 @@ export interface SqlCompilerSet {
   insert: SqlAstCompiler<InsertQueryNode>;
   update: SqlAstCompiler<UpdateQueryNode>;
   delete: SqlAstCompiler<DeleteQueryNode>;
+  merge: SqlAstCompiler<MergeQueryNode>;
 }
 
 export interface SqlCompilerAssemblyContext {
@@ -1,6 +1,7 @@
 import type {
   DeleteQueryNode,
   InsertQueryNode,
+  MergeQueryNode,
   OrderByNode,
   OrderingTerm,
   SelectQueryNode,
@@ -9,11 +10,13 @@ import type {
   UpdateQueryNode
 } from '../../ast/query.js';
 import type {
+  CaseExpressionNode,
   ColumnNode,
   ExpressionNode,
   FunctionNode,
   JsonPathNode,
-  OperandNode
+  OperandNode,
+  WindowFrameNode
 } from '../../ast/expression.js';
 import type { FunctionStrategy } from '../../functions/types.js';
 import { StandardFunctionStrategy } from '../../functions/standard-strategy.js';
@@ -21,12 +24,17 @@ import type { TableFunctionStrategy } from '../../functions/table-types.js';
 import { StandardTableFunctionStrategy } from '../../functions/standard-table-strategy.js';
 import type { CompilerContext, Dialect } from '../abstract.js';
 import type { ProcedureCompilerServices } from '../capabilities/procedure-compiler.js';
+import type { MergeCompiler } from '../capabilities/merge-compiler.js';
 import { ExpressionCompilerRegistry } from './expression-compiler-registry.js';
 import { SelectAstNormalizer } from './select-ast-normalizer.js';
 import { StandardLimitOffsetPagination } from './pagination-strategy.js';
 import type { PaginationStrategy } from './pagination-strategy.js';
 import { NoReturningStrategy } from './returning-strategy.js';
 import type { ReturningStrategy } from './returning-strategy.js';
+import { StandardLockStrategy } from './lock-strategy.js';
+import type { LockStrategy } from './lock-strategy.js';
+import { StandardGroupingStrategy } from './grouping-strategy.js';
+import type { GroupingStrategy } from './grouping-strategy.js';
 import { NoUpsertStrategy } from './upsert-strategy.js';
 import type { UpsertStrategy } from './upsert-strategy.js';
 import { StandardSqlSourceCompiler } from './standard-sql-source-compiler.js';
@@ -34,6 +42,7 @@ import { StandardSelectCompiler } from './standard-select-compiler.js';
 import { StandardInsertCompiler } from './standard-insert-compiler.js';
 import { StandardUpdateCompiler } from './standard-update-compiler.js';
 import { StandardDeleteCompiler } from './standard-delete-compiler.js';
+import { StandardMergeCompiler } from './standard-merge-compiler.js';
 import type { StandardSqlCompilerServices } from './standard-sql-services.js';
 import type { SqlCompilerFactory, SqlCompilerSet } from './sql-compiler-set.js';
 
@@ -61,6 +70,8 @@ export interface SqlDialectRuntimeServices extends ProcedureCompilerServices {
 export interface SqlDialectComposition {
   dialect: Dialect;
   runtime: SqlDialectRuntimeServices;
+  /** MERGE compilation; backends opt in by exposing it on their dialect. */
+  merge: MergeCompiler;
 }
 
 export interface SqlDialectConfig {
@@ -74,9 +85,16 @@ export interface SqlDialectConfig {
   paginationStrategy?: PaginationStrategy;
   returningStrategy?: ReturningStrategy;
   upsertStrategy?: UpsertStrategy;
+  lockStrategy?: LockStrategy;
+  groupingStrategy?: GroupingStrategy;
   compilerFactory?: SqlCompilerFactory;
   supportsDmlReturning?: boolean;
+  /** Identity values of a multi-row INSERT increase in VALUES order, so generated keys can be matched by sorting. */
+  insertsIdentityInValuesOrder?: boolean;
+  /** Renders aggregate filters as FILTER (WHERE ...) instead of CASE WHEN arguments. */
+  supportsAggregateFilter?: boolean;
   supportsSetOperation?(kind: SetOperationKind): boolean;
+  supportsWindowFrame?(frame: WindowFrameNode): boolean;
   compileSetTarget?(column: ColumnNode, table: TableNode): string;
   renderOrderByNulls?(order: OrderByNode): string | undefined;
   renderOrderByCollation?(order: OrderByNode): string | undefined;
@@ -99,6 +117,8 @@ export const composeSqlDialect = (config: SqlDialectConfig): SqlDialectCompositi
   const paginationStrategy = config.paginationStrategy ?? new StandardLimitOffsetPagination();
   const returningStrategy = config.returningStrategy ?? new NoReturningStrategy();
   const upsertStrategy = config.upsertStrategy ?? new NoUpsertStrategy();
+  const lockStrategy = config.lockStrategy ?? new StandardLockStrategy();
+  const groupingStrategy = config.groupingStrategy ?? new StandardGroupingStrategy();
   const selectAstNormalizer = new SelectAstNormalizer(
     kind => config.supportsSetOperation?.(kind) ?? true
   );
@@ -142,7 +162,27 @@ export const composeSqlDialect = (config: SqlDialectConfig): SqlDialectCompositi
     return config.compileJsonPath(node);
   };
 
+  const compileFilteredAggregate = (
+    node: FunctionNode,
+    filter: ExpressionNode,
+    ctx: CompilerContext
+  ): string => {
+    const unfiltered: FunctionNode = { ...node, aggregateFilter: undefined };
+    if (config.supportsAggregateFilter) {
+      const aggregate = compileFunctionOperand(unfiltered, ctx);
+      return `${aggregate} FILTER (WHERE ${expressionRegistry.compileExpression(filter, ctx)})`;
+    }
+    // Rows failing the filter feed NULL to the aggregate, which ignores them.
+    const [first, ...rest] = node.args;
+    const guarded: CaseExpressionNode = {
+      type: 'CaseExpression',
+      conditions: [{ when: filter, then: first ?? { type: 'Literal', value: 1 } }]
+    };
+    return compileFunctionOperand({ ...unfiltered, args: [guarded, ...rest] }, ctx);
+  };
+
   const compileFunctionOperand = (node: FunctionNode, ctx: CompilerContext): string => {
+    if (node.aggregateFilter) return compileFilteredAggregate(node, node.aggregateFilter, ctx);
     const compiledArgs = node.args.map(arg => expressionRegistry.compileOperand(arg, ctx));
     const renderer = functionStrategy.getRenderer(node.name);
     if (renderer) {
@@ -161,6 +201,7 @@ export const composeSqlDialect = (config: SqlDialectConfig): SqlDialectCompositi
     compileSelectForExists,
     compileJsonPath,
     compileFunctionOperand,
+    supportsWindowFrame: frame => config.supportsWindowFrame?.(frame) ?? true,
     describe: () => config.describe ?? config.name
   });
 
@@ -180,10 +221,13 @@ export const composeSqlDialect = (config: SqlDialectConfig): SqlDialectCompositi
     getDialectName: () => config.name,
     getPaginationStrategy: () => paginationStrategy,
     getTableFunctionStrategy: () => tableFunctionStrategy,
+    getLockStrategy: () => lockStrategy,
+    getGroupingStrategy: () => groupingStrategy,
     quoteIdentifier: config.quoteIdentifier,
     compileOperand: (node, ctx) => expressionRegistry.compileOperand(node, ctx),
     compileExpression: (node, ctx) => expressionRegistry.compileExpression(node, ctx),
     compileOrderingTerm: (term, ctx) => expressionRegistry.compileOrderingTerm(term, ctx),
+    compileWindowDefinition: (definition, ctx) => expressionRegistry.compileWindowDefinition(definition, ctx),
     normalizeSelectAst: normalizeSelectAst,
     compileSelectAst,
     compileReturning: (returning, ctx) =>
@@ -216,7 +260,8 @@ export const composeSqlDialect = (config: SqlDialectConfig): SqlDialectCompositi
     select: overrides.select ?? standardSelect,
     insert: overrides.insert ?? standardInsert,
     update: overrides.update ?? standardUpdate,
-    delete: overrides.delete ?? standardDelete
+    delete: overrides.delete ?? standardDelete,
+    merge: overrides.merge ?? new StandardMergeCompiler(services, sources)
   };
 
   const expressionApi: SqlDialectExpressionApi = {
@@ -247,6 +292,7 @@ export const composeSqlDialect = (config: SqlDialectConfig): SqlDialectCompositi
   const dialect: Dialect = {
     quoteIdentifier: config.quoteIdentifier,
     supportsDmlReturningClause: () => config.supportsDmlReturning ?? false,
+    insertsIdentityInValuesOrder: () => config.insertsIdentityInValuesOrder ?? false,
     compileSelect(ast: SelectQueryNode) {
       const ctx = createCompilerContext();
       return {
@@ -287,7 +333,17 @@ export const composeSqlDialect = (config: SqlDialectConfig): SqlDialectCompositi
     compileSelectAst
   };
 
-  return { dialect, runtime };
+  const merge: MergeCompiler = {
+    compileMerge(ast: MergeQueryNode) {
+      const ctx = createCompilerContext();
+      return {
+        sql: terminate(compilerSet.merge.compile(ast, ctx)),
+        params: [...ctx.params]
+      };
+    }
+  };
+
+  return { dialect, runtime, merge };
 };
 
 export const createSqlDialect = (config: SqlDialectConfig): Dialect =>
@@ -0,0 +1,65 @@
+import type { CompilerContext } from '../abstract.js';
+import type {
+  MergeInsertAction,
+  MergeQueryNode,
+  MergeWhenClause
+} from '../../ast/query.js';
+import { StandardSqlSourceCompiler } from './standard-sql-source-compiler.js';
+import type { StandardSqlCompilerServices } from './standard-sql-services.js';
+
+/**
+ * Standard SQL MERGE orchestration (SQL:2003 shape shared by PostgreSQL 15+ and SQL Server).
+ * The RETURNING/OUTPUT clause is appended through the dialect's returning strategy.
+ */
+export class StandardMergeCompiler {
+  public constructor(
+    private readonly services: StandardSqlCompilerServices,
+    private readonly sources: StandardSqlSourceCompiler
+  ) {}
+
+  compile(ast: MergeQueryNode, ctx: CompilerContext): string {
+    if (!ast.whens.length) {
+      throw new Error('MERGE queries require at least one WHEN clause.');
+    }
+
+    const target = this.sources.compileTableReference(ast.target);
+    const source = ast.source.type === 'DerivedTable'
+      ? this.sources.compileDerivedTable(ast.source, ctx)
+      : this.sources.compileTableReference(ast.source);
+    const on = this.services.compileExpression(ast.on, ctx);
+    const whens = ast.whens.map(clause => this.compileWhen(clause, ctx)).join(' ');
+    const returning = this.services.compileReturning(ast.returning, ctx);
+    return `MERGE INTO ${target} USING ${source} ON ${on} ${whens}${returning}`;
+  }
+
+  private compileWhen(clause: MergeWhenClause, ctx: CompilerContext): string {
+    const guard = clause.condition
+      ? ` AND ${this.services.compileExpression(clause.condition, ctx)}`
+      : '';
+    if (clause.kind === 'notMatched') {
+      return `WHEN NOT MATCHED${guard} THEN ${this.compileInsert(clause.action, ctx)}`;
+    }
+    if (clause.action.type === 'MergeDelete') {
+      return `WHEN MATCHED${guard} THEN DELETE`;
+    }
+    if (!clause.action.set.length) {
+      throw new Error('MERGE WHEN MATCHED UPDATE requires at least one assignment.');
+    }
+    // Both PostgreSQL and SQL Server accept unqualified target columns in the SET list.
+    const assignments = clause.action.set
+      .map(assignment =>
+        `${this.services.quoteIdentifier(assignment.column.name)} = ${this.services.compileOperand(assignment.value, ctx)}`
+      )
+      .join(', ');
+    return `WHEN MATCHED${guard} THEN UPDATE SET ${assignments}`;
+  }
+
+  private compileInsert(action: MergeInsertAction, ctx: CompilerContext): string {
+    if (!action.columns.length || action.columns.length !== action.values.length) {
+      throw new Error('MERGE WHEN NOT MATCHED INSERT requires one value per column.');
+    }
+    const columns = action.columns.map(column => this.services.quoteIdentifier(column.name)).join(', ');
+    const values = action.values.map(value => this.services.compileOperand(value, ctx)).join(', ');
+    return `INSERT (${columns}) VALUES (${values})`;
+  }
+}
@@ -1,9 +1,10 @@
 import type { CompilerContext } from '../abstract.js';
-import type { SelectQueryNode } from '../../ast/query.js';
+import type { SelectQueryNode, TableSourceNode } from '../../ast/query.js';
 import { CteCompiler } from './cte-compiler.js';
 import { JoinCompiler } from './join-compiler.js';
 import { GroupByCompiler } from './groupby-compiler.js';
 import { OrderByCompiler } from './orderby-compiler.js';
+import { WindowCompiler } from './window-compiler.js';
 import { StandardSqlSourceCompiler } from './standard-sql-source-compiler.js';
 import type { StandardSqlCompilerServices } from './standard-sql-services.js';
 
@@ -43,22 +44,38 @@ export class StandardSelectCompiler {
 
   private compileCore(ast: SelectQueryNode, ctx: CompilerContext): string {
     const columns = this.compileColumns(ast, ctx);
-    const from = this.sources.compileFrom(ast.from, ctx);
+    const from = this.compileLockedSource(ast, ast.from, ctx);
     const joins = JoinCompiler.compileJoins(
       ast.joins,
       ctx,
-      (source, compilerContext) => this.sources.compileFrom(source, compilerContext),
+      (source, compilerContext) => this.compileLockedSource(ast, source, compilerContext),
       (expression, compilerContext) => this.services.compileExpression(expression, compilerContext)
     );
     const where = ast.where ? ` WHERE ${this.services.compileExpression(ast.where, ctx)}` : '';
     const groupBy = GroupByCompiler.compileGroupBy(
       ast,
-      term => this.services.compileOrderingTerm(term, ctx)
+      term => this.services.compileOrderingTerm(term, ctx),
+      this.services
     );
     const having = ast.having ? ` HAVING ${this.services.compileExpression(ast.having, ctx)}` : '';
+    const windows = WindowCompiler.compileWindowClause(
+      ast,
+      ctx,
+      id => this.services.quoteIdentifier(id),
+      (definition, compilerContext) => this.services.compileWindowDefinition(definition, compilerContext)
+    );
     const orderBy = this.compileOrderBy(ast, ctx);
     const pagination = this.services.getPaginationStrategy().compilePagination(ast.limit, ast.offset);
-    return `SELECT ${ast.distinct ? 'DISTINCT ' : ''}${columns} FROM ${from}${joins}${where}${groupBy}${having}${orderBy}${pagination}`;
+    const lock = ast.lock
+      ? this.services.getLockStrategy().compileLockClause(ast.lock, this.services)
+      : '';
+    return `SELECT ${ast.distinct ? 'DISTINCT ' : ''}${columns} FROM ${from}${joins}${where}${groupBy}${having}${windows}${orderBy}${pagination}${lock}`;
+  }
+
+  private compileLockedSource(ast: SelectQueryNode, source: TableSourceNode, ctx: CompilerContext): string {
+    const compiled = this.sources.compileFrom(source, ctx);
+    if (!ast.lock) return compiled;
+    return `${compiled}${this.services.getLockStrategy().compileTableHint(source, ast.lock, this.services)}`;
   }
 
   private compileColumns(ast: SelectQueryNode, ctx: CompilerContext): string {
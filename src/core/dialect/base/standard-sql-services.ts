@@ -9,9 +9,12 @@ import type {
 import type {
   ColumnNode,
   ExpressionNode,
-  OperandNode
+  OperandNode,
+  WindowDefinitionNode
 } from '../../ast/expression.js';
 import type { PaginationStrategy } from './pagination-strategy.js';
+import type { LockStrategy } from './lock-strategy.js';
+import type { GroupingStrategy } from './grouping-strategy.js';
 import type { TableFunctionStrategy } from '../../functions/table-types.js';
 
 /**
@@ -22,11 +25,14 @@ export interface StandardSqlCompilerServices {
   getDialectName(): string;
   getPaginationStrategy(): PaginationStrategy;
   getTableFunctionStrategy(): TableFunctionStrategy;
+  getLockStrategy(): LockStrategy;
+  getGroupingStrategy(): GroupingStrategy;
 
   quoteIdentifier(id: string): string;
   compileOperand(node: OperandNode, ctx: CompilerContext): string;
   compileExpression(node: ExpressionNode, ctx: CompilerContext): string;
   compileOrderingTerm(term: OrderingTerm, ctx: CompilerContext): string;
+  compileWindowDefinition(definition: WindowDefinitionNode, ctx: CompilerContext): string;
 
   normalizeSelectAst(ast: SelectQueryNode): SelectQueryNode;
   compileSelectAst(ast: SelectQueryNode, ctx: CompilerContext): string;
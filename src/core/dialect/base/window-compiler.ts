@@ -0,0 +1,82 @@
+import type { WindowDefinitionNode } from '../../ast/expression.js';
+import type { SelectQueryNode } from '../../ast/query.js';
+import type { CompilerContext } from '../abstract.js';
+
+type DefinitionRenderer = (definition: WindowDefinitionNode, ctx: CompilerContext) => string;
+
+/**
+ * Compiler for the WINDOW clause of SELECT statements.
+ * Also inlines named windows for backends that lack the clause.
+ */
+export class WindowCompiler {
+  /**
+   * Compiles the WINDOW clause from a SELECT query AST.
+   * @param ast - The SELECT query AST containing named windows.
+   * @param ctx - Compiler context.
+   * @param quoteIdentifier - Function to quote window names.
+   * @param renderDefinition - Function to render a window specification body.
+   * @returns SQL WINDOW clause (e.g., ' WINDOW "w" AS (PARTITION BY ...)') or empty string.
+   */
+  static compileWindowClause(
+    ast: SelectQueryNode,
+    ctx: CompilerContext,
+    quoteIdentifier: (id: string) => string,
+    renderDefinition: DefinitionRenderer
+  ): string {
+    if (!ast.windows || ast.windows.length === 0) return '';
+    const windows = ast.windows.map(
+      window => `${quoteIdentifier(window.name)} AS (${renderDefinition(window.definition, ctx)})`
+    );
+    return ` WINDOW ${windows.join(', ')}`;
+  }
+
+  /**
+   * Replaces references to named windows with their inline specification and drops the WINDOW clause.
+   * @param ast - The SELECT query AST.
+   * @returns AST without named window references.
+   */
+  static inlineNamedWindows(ast: SelectQueryNode): SelectQueryNode {
+    if (!ast.windows || ast.windows.length === 0) return ast;
+
+    const definitions = new Map<string, WindowDefinitionNode>();
+    const resolve = (definition: WindowDefinitionNode): WindowDefinitionNode => {
+      if (!definition.baseWindow) return definition;
+      const base = definitions.get(definition.baseWindow);
+      if (!base) {
+        throw new Error(`Window "${definition.baseWindow}" is not defined in the WINDOW clause.`);
+      }
+      return {
+        partitionBy: base.partitionBy,
+        orderBy: definition.orderBy?.length ? definition.orderBy : base.orderBy,
+        frame: definition.frame ?? base.frame
+      };
+    };
+    for (const window of ast.windows) {
+      definitions.set(window.name, resolve(window.definition));
+    }
+
+    const inline = <T>(value: T): T => {
+      if (Array.isArray(value)) return value.map(inline) as T;
+      if (!value || typeof value !== 'object') return value;
+      const node = value as Record<string, unknown>;
+      // Nested queries own their WINDOW clause.
+      if (node.type === 'SelectQuery') return value;
+      const next: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(node)) {
+        next[key] = inline(child);
+      }
+      if (node.type === 'WindowFunction' && node.baseWindow) {
+        const { partitionBy, orderBy, frame } = resolve(node as WindowDefinitionNode);
+        return { ...next, baseWindow: undefined, partitionBy, orderBy, frame } as T;
+      }
+      return next as T;
+    };
+
+    return {
+      ...ast,
+      windows: undefined,
+      columns: inline(ast.columns),
+      orderBy: inline(ast.orderBy)
+    };
+  }
+}
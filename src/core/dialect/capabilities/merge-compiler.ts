@@ -0,0 +1,19 @@
+import type { MergeQueryNode } from '../../ast/query.js';
+import type { CompiledQuery } from '../abstract.js';
+
+/** Optional dialect capability for MERGE statement compilation. */
+export interface MergeCompiler {
+  compileMerge(ast: MergeQueryNode): CompiledQuery;
+}
+
+export const isMergeCompiler = (value: unknown): value is MergeCompiler =>
+  typeof (value as { compileMerge?: unknown } | null)?.compileMerge === 'function';
+
+export const requireMergeCompiler = (value: unknown): MergeCompiler => {
+  if (!isMergeCompiler(value)) {
+    throw new Error(
+      'MERGE is not supported by this dialect; use InsertQueryBuilder.onConflict() for single-row upserts.'
+    );
+  }
+  return value;
+};
@@ -3,20 +3,23 @@ import type { JsonPathNode } from '../../ast/expression.js';
 import type {
   DeleteQueryNode,
   InsertQueryNode,
+  MergeQueryNode,
   SelectQueryNode,
   UpdateQueryNode
 } from '../../ast/query.js';
 import type { CompiledQuery, Dialect } from '../abstract.js';
 import type { CompiledProcedureCall, ProcedureCompiler } from '../capabilities/procedure-compiler.js';
+import type { MergeCompiler } from '../capabilities/merge-compiler.js';
 import { composeSqlDialect } from '../base/sql-dialect-composer.js';
 import { MssqlFunctionStrategy } from './functions.js';
 import { createMssqlCompilerSet } from './compiler-factory.js';
+import { MssqlLockStrategy } from './lock.js';
 import { MssqlOutputStrategy } from './output.js';
 import { MssqlProcedureCompiler } from './procedure-compiler.js';
 
 const quoteIdentifier = (id: string): string => `[${id}]`;
 
-export type SqlServerDialectImplementation = Dialect & ProcedureCompiler;
+export type SqlServerDialectImplementation = Dialect & ProcedureCompiler & MergeCompiler;
 
 /** Creates the SQL Server dialect entirely from composable compiler components. */
 export const createSqlServerDialect = (): SqlServerDialectImplementation => {
@@ -26,8 +29,13 @@ export const createSqlServerDialect = (): SqlServerDialectImplementation => {
     formatPlaceholder: index => `@p${index}`,
     functionStrategy: new MssqlFunctionStrategy(),
     returningStrategy: new MssqlOutputStrategy(),
+    lockStrategy: new MssqlLockStrategy(),
     compilerFactory: createMssqlCompilerSet,
     supportsDmlReturning: true,
+    // GROUPS frames do not exist and RANGE frames only accept UNBOUNDED/CURRENT ROW bounds.
+    supportsWindowFrame: frame =>
+      frame.unit === 'ROWS' ||
+      (frame.unit === 'RANGE' && [frame.start, frame.end].every(bound => bound?.offset === undefined)),
     compileJsonPath(node: JsonPathNode): string {
       const column = `${quoteIdentifier(node.column.table)}.${quoteIdentifier(node.column.name)}`;
       return `JSON_VALUE(${column}, '${node.path}')`;
@@ -37,12 +45,13 @@ export const createSqlServerDialect = (): SqlServerDialectImplementation => {
   const procedures = new MssqlProcedureCompiler(composition.runtime);
   return {
     ...composition.dialect,
-    compileProcedureCall: ast => procedures.compileProcedureCall(ast)
+    compileProcedureCall: ast => procedures.compileProcedureCall(ast),
+    compileMerge: ast => composition.merge.compileMerge(ast)
   };
 };
 
 /** Ergonomic constructor facade over the composed SQL Server dialect. */
-export class SqlServerDialect implements Dialect, ProcedureCompiler {
+export class SqlServerDialect implements Dialect, ProcedureCompiler, MergeCompiler {
   private readonly impl: SqlServerDialectImplementation = createSqlServerDialect();
 
   quoteIdentifier(id: string): string {
@@ -53,6 +62,10 @@ export class SqlServerDialect implements Dialect, ProcedureCompiler {
     return this.impl.supportsDmlReturningClause();
   }
 
+  insertsIdentityInValuesOrder(): boolean {
+    return this.impl.insertsIdentityInValuesOrder?.() ?? false;
+  }
+
   compileSelect(ast: SelectQueryNode): CompiledQuery {
     return this.impl.compileSelect(ast);
   }
@@ -72,4 +85,8 @@ export class SqlServerDialect implements Dialect, ProcedureCompiler {
   compileProcedureCall(ast: ProcedureCallNode): CompiledProcedureCall {
     return this.impl.compileProcedureCall(ast);
   }
+
+  compileMerge(ast: MergeQueryNode): CompiledQuery {
+    return this.impl.compileMerge(ast);
+  }
 }
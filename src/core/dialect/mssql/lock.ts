@@ -0,0 +1,36 @@
+import type { SelectLockNode, TableSourceNode } from '../../ast/query.js';
+import type { LockCompilationServices, LockStrategy } from '../base/lock-strategy.js';
+
+/**
+ * SQL Server has no trailing FOR UPDATE clause; row locks are requested through
+ * table hints placed on each locked table source.
+ */
+export class MssqlLockStrategy implements LockStrategy {
+  compileLockClause(
+    _lock: SelectLockNode | undefined,
+    _services: LockCompilationServices
+  ): string {
+    void _lock;
+    void _services;
+    return '';
+  }
+
+  compileTableHint(
+    source: TableSourceNode,
+    lock: SelectLockNode | undefined,
+    _services: LockCompilationServices
+  ): string {
+    void _services;
+    if (!lock || source.type !== 'Table') return '';
+    if (lock.of && lock.of.length) {
+      const target = source.alias ?? source.name;
+      const locked = lock.of.some(table => (table.alias ?? table.name) === target);
+      if (!locked) return '';
+    }
+
+    const hints = lock.mode === 'UPDATE' ? ['UPDLOCK', 'ROWLOCK'] : ['HOLDLOCK', 'ROWLOCK'];
+    if (lock.wait === 'SKIP LOCKED') hints.push('READPAST');
+    if (lock.wait === 'NOWAIT') hints.push('NOWAIT');
+    return ` WITH (${hints.join(', ')})`;
+  }
+}
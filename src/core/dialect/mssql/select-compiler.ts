@@ -1,7 +1,9 @@
 import type { OperandNode } from '../../ast/expression.js';
-import type { SelectQueryNode } from '../../ast/query.js';
+import type { SelectQueryNode, TableSourceNode } from '../../ast/query.js';
 import type { CompilerContext } from '../abstract.js';
+import { GroupByCompiler } from '../base/groupby-compiler.js';
 import { OrderByCompiler } from '../base/orderby-compiler.js';
+import { WindowCompiler } from '../base/window-compiler.js';
 import type { SqlAstCompiler } from '../base/sql-compiler-set.js';
 import type { StandardSqlCompilerServices } from '../base/standard-sql-services.js';
 import type { StandardSqlSourceCompiler } from '../base/standard-sql-source-compiler.js';
@@ -12,7 +14,9 @@ export class MssqlSelectCompiler implements SqlAstCompiler<SelectQueryNode> {
     private readonly sources: StandardSqlSourceCompiler
   ) {}
 
-  compile(ast: SelectQueryNode, ctx: CompilerContext): string {
+  compile(query: SelectQueryNode, ctx: CompilerContext): string {
+    // The WINDOW clause needs SQL Server 2022; inline named windows for older servers.
+    const ast = WindowCompiler.inlineNamedWindows(query);
     const hasSetOps = !!(ast.setOps && ast.setOps.length);
     const ctes = this.compileCtes(ast, ctx);
     const baseAst: SelectQueryNode = hasSetOps
@@ -44,10 +48,10 @@ export class MssqlSelectCompiler implements SqlAstCompiler<SelectQueryNode> {
       .join(', ');
 
     const distinct = ast.distinct ? 'DISTINCT ' : '';
-    const from = this.sources.compileFrom(ast.from, ctx);
+    const from = this.compileLockedSource(ast, ast.from, ctx);
     const joins = ast.joins
       .map(join => {
-        const table = this.sources.compileFrom(join.table, ctx);
+        const table = this.compileLockedSource(ast, join.table, ctx);
         const condition = this.services.compileExpression(join.condition, ctx);
         return `${join.kind} JOIN ${table} ON ${condition}`;
       })
@@ -55,9 +59,11 @@ export class MssqlSelectCompiler implements SqlAstCompiler<SelectQueryNode> {
     const where = ast.where
       ? ` WHERE ${this.services.compileExpression(ast.where, ctx)}`
       : '';
-    const groupBy = ast.groupBy && ast.groupBy.length > 0
-      ? ` GROUP BY ${ast.groupBy.map(term => this.services.compileOrderingTerm(term, ctx)).join(', ')}`
-      : '';
+    const groupBy = GroupByCompiler.compileGroupBy(
+      ast,
+      term => this.services.compileOrderingTerm(term, ctx),
+      this.services
+    );
     const having = ast.having
       ? ` HAVING ${this.services.compileExpression(ast.having, ctx)}`
       : '';
@@ -70,6 +76,12 @@ export class MssqlSelectCompiler implements SqlAstCompiler<SelectQueryNode> {
     return `SELECT ${distinct}${columns} FROM ${from}${joins ? ` ${joins}` : ''}${where}${groupBy}${having}${orderBy}`;
   }
 
+  private compileLockedSource(ast: SelectQueryNode, source: TableSourceNode, ctx: CompilerContext): string {
+    const compiled = this.sources.compileFrom(source, ctx);
+    if (!ast.lock) return compiled;
+    return `${compiled}${this.services.getLockStrategy().compileTableHint(source, ast.lock, this.services)}`;
+  }
+
   private compileOrderBy(ast: SelectQueryNode, ctx: CompilerContext): string {
     return OrderByCompiler.compileOrderBy(
       ast,
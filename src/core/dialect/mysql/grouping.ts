@@ -0,0 +1,37 @@
+import type { GroupByTerm, OrderingTerm } from '../../ast/query.js';
+import { isGroupingSetsNode } from '../../ast/query.js';
+import type {
+  GroupingCompilationServices,
+  GroupingStrategy,
+  GroupingTermRenderer
+} from '../base/grouping-strategy.js';
+
+/**
+ * MySQL only knows the `GROUP BY a, b WITH ROLLUP` modifier, which rolls up the
+ * whole list. A ROLLUP is therefore accepted only as the sole GROUP BY element;
+ * CUBE and GROUPING SETS have no MySQL equivalent.
+ */
+export class MySqlGroupingStrategy implements GroupingStrategy {
+  compileGroupBy(
+    terms: GroupByTerm[] | undefined,
+    renderTerm: GroupingTermRenderer,
+    services: GroupingCompilationServices
+  ): string {
+    if (!terms || terms.length === 0) return '';
+    const groupingSets = terms.filter(isGroupingSetsNode);
+    if (!groupingSets.length) {
+      return ` GROUP BY ${(terms as OrderingTerm[]).map(renderTerm).join(', ')}`;
+    }
+
+    const [node] = groupingSets;
+    if (node.kind !== 'ROLLUP') {
+      throw new Error(`${node.kind} is not supported by dialect "${services.getDialectName()}".`);
+    }
+    if (terms.length > 1 || node.sets.some(set => set.length !== 1)) {
+      throw new Error(
+        `Dialect "${services.getDialectName()}" only supports ROLLUP of single terms as the sole GROUP BY element (WITH ROLLUP).`
+      );
+    }
+    return ` GROUP BY ${node.sets.map(set => renderTerm(set[0])).join(', ')} WITH ROLLUP`;
+  }
+}
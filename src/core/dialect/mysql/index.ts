@@ -10,6 +10,7 @@ import type { CompiledQuery, Dialect } from '../abstract.js';
 import type { CompiledProcedureCall, ProcedureCompiler } from '../capabilities/procedure-compiler.js';
 import { composeSqlDialect } from '../base/sql-dialect-composer.js';
 import { MysqlFunctionStrategy } from './functions.js';
+import { MySqlGroupingStrategy } from './grouping.js';
 import { MySqlProcedureCompiler } from './procedure-compiler.js';
 import { MySqlUpsertStrategy } from './upsert.js';
 
@@ -24,6 +25,8 @@ export const createMySqlDialect = (): MySqlDialectImplementation => {
     quoteIdentifier,
     functionStrategy: new MysqlFunctionStrategy(),
     upsertStrategy: new MySqlUpsertStrategy(),
+    groupingStrategy: new MySqlGroupingStrategy(),
+    supportsWindowFrame: frame => frame.unit !== 'GROUPS',
     compileJsonPath(node: JsonPathNode): string {
       const column = `${quoteIdentifier(node.column.table)}.${quoteIdentifier(node.column.name)}`;
       return `${column}->'${node.path}'`;
@@ -62,6 +65,10 @@ export class MySqlDialect implements Dialect, ProcedureCompiler {
     return this.impl.supportsDmlReturningClause();
   }
 
+  insertsIdentityInValuesOrder(): boolean {
+    return this.impl.insertsIdentityInValuesOrder?.() ?? false;
+  }
+
   compileSelect(ast: SelectQueryNode): CompiledQuery {
     return this.impl.compileSelect(ast);
   }
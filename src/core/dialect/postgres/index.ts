@@ -3,12 +3,14 @@ import type { BitwiseExpressionNode, ColumnNode, JsonPathNode } from '../../ast/
 import type {
   DeleteQueryNode,
   InsertQueryNode,
+  MergeQueryNode,
   SelectQueryNode,
   TableNode,
   UpdateQueryNode
 } from '../../ast/query.js';
 import type { CompiledQuery, Dialect } from '../abstract.js';
 import type { CompiledProcedureCall, ProcedureCompiler } from '../capabilities/procedure-compiler.js';
+import type { MergeCompiler } from '../capabilities/merge-compiler.js';
 import { composeSqlDialect } from '../base/sql-dialect-composer.js';
 import { PostgresFunctionStrategy } from './functions.js';
 import { PostgresTableFunctionStrategy } from './table-functions.js';
@@ -18,7 +20,7 @@ import { PostgresUpsertStrategy } from './upsert.js';
 
 const quoteIdentifier = (id: string): string => `"${id}"`;
 
-export type PostgresDialectImplementation = Dialect & ProcedureCompiler;
+export type PostgresDialectImplementation = Dialect & ProcedureCompiler & MergeCompiler;
 
 /** Creates the PostgreSQL dialect entirely from composable compiler components. */
 export const createPostgresDialect = (): PostgresDialectImplementation => {
@@ -31,6 +33,8 @@ export const createPostgresDialect = (): PostgresDialectImplementation => {
     returningStrategy: new PostgresReturningStrategy(),
     upsertStrategy: new PostgresUpsertStrategy(),
     supportsDmlReturning: true,
+    insertsIdentityInValuesOrder: true,
+    supportsAggregateFilter: true,
     compileSetTarget: (column: ColumnNode, _table: TableNode) => {
       void _table;
       return quoteIdentifier(column.name);
@@ -58,12 +62,13 @@ export const createPostgresDialect = (): PostgresDialectImplementation => {
   const procedures = new PostgresProcedureCompiler(composition.runtime);
   return {
     ...composition.dialect,
-    compileProcedureCall: ast => procedures.compileProcedureCall(ast)
+    compileProcedureCall: ast => procedures.compileProcedureCall(ast),
+    compileMerge: ast => composition.merge.compileMerge(ast)
   };
 };
 
 /** Ergonomic constructor facade over the composed PostgreSQL dialect. */
-export class PostgresDialect implements Dialect, ProcedureCompiler {
+export class PostgresDialect implements Dialect, ProcedureCompiler, MergeCompiler {
   private readonly impl: PostgresDialectImplementation = createPostgresDialect();
 
   quoteIdentifier(id: string): string {
@@ -74,6 +79,10 @@ export class PostgresDialect implements Dialect, ProcedureCompiler {
     return this.impl.supportsDmlReturningClause();
   }
 
+  insertsIdentityInValuesOrder(): boolean {
+    return this.impl.insertsIdentityInValuesOrder?.() ?? false;
+  }
+
   compileSelect(ast: SelectQueryNode): CompiledQuery {
     return this.impl.compileSelect(ast);
   }
@@ -93,4 +102,8 @@ export class PostgresDialect implements Dialect, ProcedureCompiler {
   compileProcedureCall(ast: ProcedureCallNode): CompiledProcedureCall {
     return this.impl.compileProcedureCall(ast);
   }
+
+  compileMerge(ast: MergeQueryNode): CompiledQuery {
+    return this.impl.compileMerge(ast);
+  }
 }
@@ -8,6 +8,8 @@ import type {
 } from '../../ast/query.js';
 import type { CompiledQuery, Dialect } from '../abstract.js';
 import { composeSqlDialect } from '../base/sql-dialect-composer.js';
+import { NoLockStrategy } from '../base/lock-strategy.js';
+import { NoGroupingSetsStrategy } from '../base/grouping-strategy.js';
 import { SqliteFunctionStrategy } from './functions.js';
 import { SqliteReturningStrategy } from './returning.js';
 import { SqliteUpsertStrategy } from './upsert.js';
@@ -22,7 +24,11 @@ export const createSqliteDialect = (): Dialect =>
     functionStrategy: new SqliteFunctionStrategy(),
     returningStrategy: new SqliteReturningStrategy(),
     upsertStrategy: new SqliteUpsertStrategy(),
+    lockStrategy: new NoLockStrategy(),
+    groupingStrategy: new NoGroupingSetsStrategy(),
     supportsDmlReturning: true,
+    insertsIdentityInValuesOrder: true,
+    supportsAggregateFilter: true,
     compileSetTarget: (column: ColumnNode, _table: TableNode) => {
       void _table;
       return quoteIdentifier(column.name);
@@ -63,6 +69,10 @@ export class SqliteDialect implements Dialect {
     return this.impl.supportsDmlReturningClause();
   }
 
+  insertsIdentityInValuesOrder(): boolean {
+    return this.impl.insertsIdentityInValuesOrder?.() ?? false;
+  }
+
   compileSelect(ast: SelectQueryNode): CompiledQuery {
     return this.impl.compileSelect(ast);
   }
@@ -1,4 +1,5 @@
 // src/core/execution/db-executor.ts
+import type { TransactionOptions } from './transaction-options.js';
 
 // low-level canonical shape
 export type QueryResult = {
@@ -28,6 +29,18 @@ export const toExecutionPayload = (resultSets: QueryResult[]): ExecutionPayload
 export const payloadResultSets = (payload: ExecutionPayload): QueryResult[] =>
   payload.resultSets ?? payload;
 
+/** Per-statement execution hints; executors that do not route statements ignore them. */
+export interface ExecuteSqlOptions {
+  /** Run the statement on the primary even when it is a read (read-replica executors). */
+  usePrimary?: boolean;
+}
+
+/** Options for streaming the rows of a query. */
+export interface StreamSqlOptions extends ExecuteSqlOptions {
+  /** Rows fetched per round trip when the driver reads in chunks (e.g. PostgreSQL cursors). */
+  batchSize?: number;
+}
+
 export interface DbExecutor {
   /** Capability flags so the runtime can make correct decisions without relying on optional methods. */
   readonly capabilities: {
@@ -37,15 +50,29 @@ export interface DbExecutor {
     savepoints?: boolean;
   };
 
-  executeSql(sql: string, params?: unknown[]): Promise<ExecutionPayload>;
+  executeSql(sql: string, params?: unknown[], options?: ExecuteSqlOptions): Promise<ExecutionPayload>;
+
+  /**
+   * Optional: streams the rows of a single SELECT without buffering the whole result.
+   * Ending the iteration early must release the underlying cursor/stream.
+   */
+  streamSql?(
+    sql: string,
+    params?: unknown[],
+    options?: StreamSqlOptions
+  ): AsyncIterable<Record<string, unknown>>;
 
-  beginTransaction(): Promise<void>;
+  /** Begins a transaction, applying isolation level / access mode when given. */
+  beginTransaction(options?: TransactionOptions): Promise<void>;
   commitTransaction(): Promise<void>;
   rollbackTransaction(): Promise<void>;
   savepoint?(name: string): Promise<void>;
   releaseSavepoint?(name: string): Promise<void>;
   rollbackToSavepoint?(name: string): Promise<void>;
 
+  /** Optional: true if the driver error is a deadlock/serialization failure worth retrying. */
+  isTransientError?(error: unknown): boolean;
+
   /** Release any underlying resources (connections, pool leases, etc). Must be idempotent. */
   dispose(): Promise<void>;
 }
@@ -76,14 +103,24 @@ export interface SimpleQueryRunner {
     params?: unknown[]
   ): Promise<Array<Record<string, unknown>>>;
 
+  /** Optional: yields the rows of a SELECT one at a time (exposed as `streamSql`). */
+  stream?(
+    sql: string,
+    params?: unknown[],
+    options?: StreamSqlOptions
+  ): AsyncIterable<Record<string, unknown>>;
+
   /** Optional: used to support real transactions. */
-  beginTransaction?(): Promise<void>;
+  beginTransaction?(options?: TransactionOptions): Promise<void>;
   commitTransaction?(): Promise<void>;
   rollbackTransaction?(): Promise<void>;
   savepoint?(name: string): Promise<void>;
   releaseSavepoint?(name: string): Promise<void>;
   rollbackToSavepoint?(name: string): Promise<void>;
 
+  /** Optional: classifies retryable transaction errors. */
+  isTransientError?(error: unknown): boolean;
+
   /** Optional: release resources (connection close, pool lease release, etc). */
   dispose?(): Promise<void>;
 }
@@ -114,11 +151,17 @@ export function createExecutorFromQueryRunner(
       const result = rowsToQueryResult(rows);
       return toExecutionPayload([result]);
     },
-    async beginTransaction() {
+    ...(runner.stream
+      ? {
+        streamSql: (sql: string, params?: unknown[], options?: StreamSqlOptions) =>
+          runner.stream!.call(runner, sql, params, options)
+      }
+      : {}),
+    async beginTransaction(options?: TransactionOptions) {
       if (!supportsTransactions) {
         throw new Error('Transactions are not supported by this executor');
       }
-      await runner.beginTransaction!.call(runner);
+      await runner.beginTransaction!.call(runner, options);
     },
     async commitTransaction() {
       if (!supportsTransactions) {
@@ -150,6 +193,9 @@ export function createExecutorFromQueryRunner(
       }
       await runner.rollbackToSavepoint!.call(runner, name);
     },
+    ...(runner.isTransientError
+      ? { isTransientError: (error: unknown) => runner.isTransientError!.call(runner, error) }
+      : {}),
     async dispose() {
       await runner.dispose?.call(runner);
     },
@@ -5,10 +5,12 @@ import {
   rowsToQueryResult,
   QueryResult
 } from '../db-executor.js';
+import { isSqliteTransientError, type TransactionOptions } from '../transaction-options.js';
 
 export interface BetterSqlite3Statement {
   reader: boolean;
   all(...params: unknown[]): unknown[];
+  iterate?(...params: unknown[]): IterableIterator<unknown>;
   run(...params: unknown[]): { changes: number; lastInsertRowid: number | bigint };
 }
 
@@ -37,6 +39,13 @@ export function createBetterSqlite3Executor(
 ): DbExecutor {
   // better-sqlite3 handles nested transactions using savepoints automatically
   // when using .transaction(), but DbExecutor needs explicit control.
+  // SQLite transactions are always serializable; read-only ones use PRAGMA query_only.
+  let queryOnly = false;
+  const resetQueryOnly = (): void => {
+    if (!queryOnly) return;
+    queryOnly = false;
+    client.prepare('PRAGMA query_only = OFF').run();
+  };
 
   return {
     capabilities: {
@@ -66,14 +75,33 @@ export function createBetterSqlite3Executor(
 
       return toExecutionPayload([result]);
     },
-    async beginTransaction() {
+    async *streamSql(sql, params) {
+      const stmt = client.prepare(sql);
+      const rows = typeof stmt.iterate === 'function'
+        ? stmt.iterate(...(params ?? []))
+        : stmt.all(...(params ?? []));
+      yield* rows as Iterable<Record<string, unknown>>;
+    },
+    async beginTransaction(options?: TransactionOptions) {
+      if (options?.readOnly) {
+        client.prepare('PRAGMA query_only = ON').run();
+        queryOnly = true;
+      }
       client.prepare('BEGIN').run();
     },
     async commitTransaction() {
-      client.prepare('COMMIT').run();
+      try {
+        client.prepare('COMMIT').run();
+      } finally {
+        resetQueryOnly();
+      }
     },
     async rollbackTransaction() {
-      client.prepare('ROLLBACK').run();
+      try {
+        client.prepare('ROLLBACK').run();
+      } finally {
+        resetQueryOnly();
+      }
     },
     async savepoint(name: string) {
       const savepoint = sanitizeSavepointName(name);
@@ -87,6 +115,7 @@ export function createBetterSqlite3Executor(
       const savepoint = sanitizeSavepointName(name);
       client.prepare(`ROLLBACK TO SAVEPOINT ${savepoint}`).run();
     },
+    isTransientError: isSqliteTransientError,
     async dispose() {
       // Connection lifecycle is owned by the caller.
     },
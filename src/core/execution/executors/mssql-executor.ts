@@ -4,6 +4,12 @@ import {
   toExecutionPayload,
   rowsToQueryResult
 } from '../db-executor.js';
+import {
+  buildMssqlSetIsolationStatement,
+  isMssqlTransientError,
+  type IsolationLevel,
+  type TransactionOptions
+} from '../transaction-options.js';
 
 export interface MssqlClientLike {
   query(
@@ -13,11 +19,29 @@ export interface MssqlClientLike {
     recordset?: Array<Record<string, unknown>>;
     recordsets?: Array<Array<Record<string, unknown>>>;
   }>;
-  beginTransaction?(): Promise<void>;
+  /** Optional row stream (e.g. tedious row events or an `mssql` request with `stream = true`). */
+  queryStream?(sql: string, params?: unknown[]): AsyncIterable<Record<string, unknown>>;
+  beginTransaction?(options?: TransactionOptions): Promise<void>;
   commit?(): Promise<void>;
   rollback?(): Promise<void>;
+  /** True when `beginTransaction` applies `options.isolationLevel` itself, so no SET statement is issued before it. */
+  appliesIsolationLevel?: boolean;
+  /** Isolation level the session is configured with; read from the session when omitted. */
+  defaultIsolationLevel?: IsolationLevel;
 }
 
+// Values of sys.dm_exec_sessions.transaction_isolation_level; tedious' ISOLATION_LEVEL enum uses the same numbering.
+const ISOLATION_LEVEL_CODES: Record<IsolationLevel, number> = {
+  'READ UNCOMMITTED': 1,
+  'READ COMMITTED': 2,
+  'REPEATABLE READ': 3,
+  'SERIALIZABLE': 4,
+  'SNAPSHOT': 5,
+};
+
+const isolationLevelFromCode = (code: unknown): IsolationLevel | undefined =>
+  (Object.keys(ISOLATION_LEVEL_CODES) as IsolationLevel[]).find(level => ISOLATION_LEVEL_CODES[level] === Number(code));
+
 const SAVEPOINT_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
 
 const sanitizeSavepointName = (name: string): string => {
@@ -41,6 +65,23 @@ export function createMssqlExecutor(
     typeof client.commit === 'function' &&
     typeof client.rollback === 'function';
   const supportsSavepoints = supportsTransactions;
+  // SET TRANSACTION ISOLATION LEVEL outlives the transaction on SQL Server; restore the session default afterwards.
+  let defaultIsolation = client.defaultIsolationLevel;
+  let isolationChanged = false;
+  const readDefaultIsolation = async (): Promise<IsolationLevel> => {
+    if (!defaultIsolation) {
+      const { recordset } = await client.query(
+        'SELECT transaction_isolation_level AS level FROM sys.dm_exec_sessions WHERE session_id = @@SPID'
+      );
+      defaultIsolation = isolationLevelFromCode(recordset?.[0]?.level) ?? 'READ COMMITTED';
+    }
+    return defaultIsolation;
+  };
+  const restoreIsolation = async (): Promise<void> => {
+    if (!isolationChanged) return;
+    isolationChanged = false;
+    await client.query(`SET TRANSACTION ISOLATION LEVEL ${await readDefaultIsolation()}`);
+  };
 
   return {
     capabilities: {
@@ -52,23 +93,43 @@ export function createMssqlExecutor(
       const sets = Array.isArray(recordsets) ? recordsets : [recordset ?? []];
       return toExecutionPayload(sets.map(set => rowsToQueryResult(set ?? [])));
     },
-    async beginTransaction() {
+    ...(client.queryStream
+      ? {
+        streamSql: (sql: string, params?: unknown[]) => client.queryStream!(sql, params)
+      }
+      : {}),
+    async beginTransaction(options?: TransactionOptions) {
       if (!supportsTransactions) {
         throw new Error('Transactions are not supported by this executor');
       }
-      await client.beginTransaction!();
+      const setIsolation = buildMssqlSetIsolationStatement(options);
+      if (setIsolation && options?.isolationLevel !== await readDefaultIsolation()) {
+        if (!client.appliesIsolationLevel) {
+          await client.query(setIsolation);
+        }
+        isolationChanged = true;
+      }
+      await client.beginTransaction!(options);
     },
     async commitTransaction() {
       if (!supportsTransactions) {
         throw new Error('Transactions are not supported by this executor');
       }
-      await client.commit!();
+      try {
+        await client.commit!();
+      } finally {
+        await restoreIsolation();
+      }
     },
     async rollbackTransaction() {
       if (!supportsTransactions) {
         throw new Error('Transactions are not supported by this executor');
       }
-      await client.rollback!();
+      try {
+        await client.rollback!();
+      } finally {
+        await restoreIsolation();
+      }
     },
     async savepoint(name: string) {
       if (!supportsSavepoints) {
@@ -90,6 +151,7 @@ export function createMssqlExecutor(
       const savepoint = sanitizeSavepointName(name);
       await client.query(`ROLLBACK TRANSACTION ${savepoint}`);
     },
+    isTransientError: isMssqlTransientError,
     async dispose() {
       // Connection lifecycle is owned by the caller/driver. Pool lease executors should implement dispose.
     },
@@ -108,6 +170,8 @@ export interface TediousColumn {
 export interface TediousRequest {
   addParameter(name: string, type: unknown, value: unknown): void;
   on(event: 'row', listener: (columns: TediousColumn[]) => void): void;
+  pause?(): void;
+  resume?(): void;
 }
 
 export interface TediousRequestCtor {
@@ -131,15 +195,29 @@ export interface TediousModule {
 
 export interface TediousConnectionLike {
   execSql(request: TediousRequest): void;
-  beginTransaction?(cb: (err?: Error | null) => void): void;
+  beginTransaction?(cb: (err?: Error | null) => void, name?: string, isolationLevel?: number): void;
   commitTransaction?(cb: (err?: Error | null) => void): void;
   rollbackTransaction?(cb: (err?: Error | null) => void): void;
+  cancel?(): boolean;
+  config?: { options?: { isolationLevel?: number } };
 }
 
 export interface CreateTediousClientOptions {
   inferType?(value: unknown, TYPES: TediousTypes): unknown;
+  /** Rows buffered while streaming before the request is paused (default: 500). */
+  streamHighWaterMark?: number;
 }
 
+const DEFAULT_STREAM_HIGH_WATER_MARK = 500;
+
+const readTediousRow = (cols: TediousColumn[]): Record<string, unknown> => {
+  const row: Record<string, unknown> = {};
+  for (const col of cols) {
+    row[col.metadata.colName] = col.value;
+  }
+  return row;
+};
+
 const defaultInferType = (value: unknown, TYPES: TediousTypes): unknown => {
   if (value === null || value === undefined) return TYPES.NVarChar;
   if (typeof value === 'number') {
@@ -160,6 +238,18 @@ export function createTediousMssqlClient(
   options?: CreateTediousClientOptions
 ): MssqlClientLike {
   const inferType = options?.inferType ?? defaultInferType;
+  const highWaterMark = options?.streamHighWaterMark ?? DEFAULT_STREAM_HIGH_WATER_MARK;
+
+  const addParameters = (request: TediousRequest, params: unknown[]): void => {
+    params.forEach((value, idx) => {
+      const sqlType = inferType(value, TYPES);
+      request.addParameter(
+        `p${idx + 1}`,
+        sqlType,
+        value as unknown
+      );
+    });
+  };
 
   return {
     async query(sql: string, params: unknown[] = []) {
@@ -172,21 +262,9 @@ export function createTediousMssqlClient(
             resolve(collected);
           });
 
-          params.forEach((value, idx) => {
-            const sqlType = inferType(value, TYPES);
-            request.addParameter(
-              `p${idx + 1}`,
-              sqlType,
-              value as unknown
-            );
-          });
-
+          addParameters(request, params);
           request.on('row', cols => {
-            const row: Record<string, unknown> = {};
-            for (const col of cols) {
-              row[col.metadata.colName] = col.value;
-            }
-            collected.push(row);
+            collected.push(readTediousRow(cols));
           });
 
           connection.execSql(request);
@@ -196,15 +274,77 @@ export function createTediousMssqlClient(
       return { recordset: rows, recordsets: [rows] };
     },
 
+    async *queryStream(sql: string, params: unknown[] = []) {
+      const buffered: Record<string, unknown>[] = [];
+      let finished = false;
+      let failure: Error | undefined;
+      let paused = false;
+      let wake: (() => void) | undefined;
+      const notify = () => {
+        const resolve = wake;
+        wake = undefined;
+        resolve?.();
+      };
+
+      const request = new Request(sql, err => {
+        if (err) failure = err;
+        finished = true;
+        notify();
+      });
+      addParameters(request, params);
+      request.on('row', cols => {
+        buffered.push(readTediousRow(cols));
+        if (buffered.length >= highWaterMark && request.pause) {
+          request.pause();
+          paused = true;
+        }
+        notify();
+      });
+
+      connection.execSql(request);
+      try {
+        for (;;) {
+          if (buffered.length) {
+            // The buffer is bounded by the high-water mark, so draining it by copy stays cheap.
+            const rows = buffered.splice(0, buffered.length);
+            if (paused) {
+              paused = false;
+              request.resume?.();
+            }
+            yield* rows;
+            continue;
+          }
+          if (finished) {
+            if (failure) throw failure;
+            return;
+          }
+          await new Promise<void>(resolve => {
+            wake = resolve;
+          });
+        }
+      } finally {
+        if (!finished) {
+          connection.cancel?.();
+        }
+      }
+    },
+
     beginTransaction: connection.beginTransaction
-      ? () =>
+      ? (transactionOptions?: TransactionOptions) =>
         new Promise<void>((resolve, reject) => {
-          connection.beginTransaction!(err =>
-            err ? reject(err) : resolve()
+          // tedious sends the isolation level with BEGIN TRAN (its configured default when omitted).
+          const level = transactionOptions?.isolationLevel;
+          connection.beginTransaction!(
+            err => (err ? reject(err) : resolve()),
+            '',
+            level ? ISOLATION_LEVEL_CODES[level] : undefined
           );
         })
       : undefined,
 
+    appliesIsolationLevel: true,
+    defaultIsolationLevel: isolationLevelFromCode(connection.config?.options?.isolationLevel ?? ISOLATION_LEVEL_CODES['READ COMMITTED']),
+
     commit: connection.commitTransaction
       ? () =>
         new Promise<void>((resolve, reject) => {
@@ -5,12 +5,22 @@ import {
   toExecutionPayload,
   rowsToQueryResult
 } from '../db-executor.js';
+import {
+  buildMysqlSetTransactionStatement,
+  isMysqlTransientError,
+  type TransactionOptions
+} from '../transaction-options.js';
 
 export interface MysqlClientLike {
   query(
     sql: string,
     params?: unknown[]
   ): Promise<[unknown, unknown?]>; // rows, metadata
+  /**
+   * Optional row stream, e.g. with mysql2:
+   * `(sql, params) => conn.connection.query(sql, params).stream()`.
+   */
+  queryStream?(sql: string, params?: unknown[]): AsyncIterable<Record<string, unknown>>;
   beginTransaction?(): Promise<void>;
   commit?(): Promise<void>;
   rollback?(): Promise<void>;
@@ -97,10 +107,20 @@ export function createMysqlExecutor(
       const [rows] = await client.query(sql, params);
       return toExecutionPayload(normalizeMysqlResults(rows));
     },
-    async beginTransaction() {
+    ...(client.queryStream
+      ? {
+        streamSql: (sql: string, params?: unknown[]) => client.queryStream!(sql, params)
+      }
+      : {}),
+    async beginTransaction(options?: TransactionOptions) {
       if (!supportsTransactions) {
         throw new Error('Transactions are not supported by this executor');
       }
+      // SET TRANSACTION without GLOBAL/SESSION only applies to the next transaction.
+      const setTransaction = buildMysqlSetTransactionStatement(options);
+      if (setTransaction) {
+        await client.query(setTransaction);
+      }
       await client.beginTransaction!();
     },
     async commitTransaction() {
@@ -136,6 +156,7 @@ export function createMysqlExecutor(
       const savepoint = sanitizeSavepointName(name);
       await client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
     },
+    isTransientError: isMysqlTransientError,
     async dispose() {
       // Connection lifecycle is owned by the caller/driver. Pool lease executors should implement dispose.
     },
@@ -1,8 +1,14 @@
 // src/core/execution/executors/postgres-executor.ts
 import {
   DbExecutor,
+  StreamSqlOptions,
   createExecutorFromQueryRunner
 } from '../db-executor.js';
+import {
+  buildPostgresBeginStatement,
+  isPostgresTransientError,
+  type TransactionOptions
+} from '../transaction-options.js';
 
 export interface PostgresClientLike {
   query(
@@ -11,6 +17,7 @@ export interface PostgresClientLike {
   ): Promise<{ rows: Array<Record<string, unknown>> }>;
 }
 
+const DEFAULT_CURSOR_BATCH_SIZE = 1000;
 const SAVEPOINT_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
 
 const sanitizeSavepointName = (name: string): string => {
@@ -29,19 +36,60 @@ const sanitizeSavepointName = (name: string): string => {
 export function createPostgresExecutor(
   client: PostgresClientLike
 ): DbExecutor {
+  // Cursors only live inside a transaction; streams outside one open (and close) their own.
+  let inTransaction = false;
+  let cursorSequence = 0;
+
   return createExecutorFromQueryRunner({
     async query(sql, params) {
       const { rows } = await client.query(sql, params);
       return rows;
     },
-    async beginTransaction() {
-      await client.query('BEGIN');
+    async *stream(sql: string, params?: unknown[], options?: StreamSqlOptions) {
+      const cursor = `metal_cursor_${++cursorSequence}`;
+      const batchSize = options?.batchSize ?? DEFAULT_CURSOR_BATCH_SIZE;
+      const ownsTransaction = !inTransaction;
+      let completed = false;
+
+      if (ownsTransaction) {
+        await client.query('BEGIN');
+      }
+      try {
+        const query = sql.trim().replace(/;$/, '');
+        await client.query(`DECLARE ${cursor} NO SCROLL CURSOR FOR ${query}`, params);
+        for (;;) {
+          const { rows } = await client.query(`FETCH FORWARD ${batchSize} FROM ${cursor}`);
+          yield* rows;
+          if (rows.length < batchSize) break;
+        }
+        await client.query(`CLOSE ${cursor}`);
+        completed = true;
+      } finally {
+        if (ownsTransaction) {
+          await client.query(completed ? 'COMMIT' : 'ROLLBACK');
+        } else if (!completed) {
+          // Early exit or failure: the cursor may already be gone with an aborted transaction.
+          await client.query(`CLOSE ${cursor}`).catch(() => undefined);
+        }
+      }
+    },
+    async beginTransaction(options?: TransactionOptions) {
+      await client.query(buildPostgresBeginStatement(options));
+      inTransaction = true;
     },
     async commitTransaction() {
-      await client.query('COMMIT');
+      try {
+        await client.query('COMMIT');
+      } finally {
+        inTransaction = false;
+      }
     },
     async rollbackTransaction() {
-      await client.query('ROLLBACK');
+      try {
+        await client.query('ROLLBACK');
+      } finally {
+        inTransaction = false;
+      }
     },
     async savepoint(name: string) {
       const savepoint = sanitizeSavepointName(name);
@@ -55,5 +103,6 @@ export function createPostgresExecutor(
       const savepoint = sanitizeSavepointName(name);
       await client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
     },
+    isTransientError: isPostgresTransientError,
   });
 }
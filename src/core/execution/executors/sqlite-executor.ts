@@ -4,6 +4,7 @@ import {
   toExecutionPayload,
   rowsToQueryResult
 } from '../db-executor.js';
+import { isSqliteTransientError, type TransactionOptions } from '../transaction-options.js';
 
 export interface SqliteClientLike {
   all(
@@ -11,7 +12,7 @@ export interface SqliteClientLike {
     params?: unknown[]
   ): Promise<Array<Record<string, unknown>>>;
   run?(sql: string, params?: unknown[]): Promise<unknown>;
-  beginTransaction?(): Promise<void>;
+  beginTransaction?(options?: TransactionOptions): Promise<void>;
   commitTransaction?(): Promise<void>;
   rollbackTransaction?(): Promise<void>;
   savepoint?(name: string): Promise<void>;
@@ -51,6 +52,15 @@ export function createSqliteExecutor(
     await client.all(sql);
   };
 
+  // SQLite transactions are always serializable, so any isolation level is satisfied.
+  // Read-only transactions are emulated with PRAGMA query_only for their duration.
+  let queryOnly = false;
+  const resetQueryOnly = async (): Promise<void> => {
+    if (!queryOnly) return;
+    queryOnly = false;
+    await executeControlStatement('PRAGMA query_only = OFF');
+  };
+
   return {
     capabilities: {
       transactions: supportsTransactions,
@@ -61,23 +71,35 @@ export function createSqliteExecutor(
       const result = rowsToQueryResult(rows);
       return toExecutionPayload([result]);
     },
-    async beginTransaction() {
+    async beginTransaction(options?: TransactionOptions) {
       if (!supportsTransactions) {
         throw new Error('Transactions are not supported by this executor');
       }
-      await client.beginTransaction!();
+      if (options?.readOnly) {
+        await executeControlStatement('PRAGMA query_only = ON');
+        queryOnly = true;
+      }
+      await client.beginTransaction!(options);
     },
     async commitTransaction() {
       if (!supportsTransactions) {
         throw new Error('Transactions are not supported by this executor');
       }
-      await client.commitTransaction!();
+      try {
+        await client.commitTransaction!();
+      } finally {
+        await resetQueryOnly();
+      }
     },
     async rollbackTransaction() {
       if (!supportsTransactions) {
         throw new Error('Transactions are not supported by this executor');
       }
-      await client.rollbackTransaction!();
+      try {
+        await client.rollbackTransaction!();
+      } finally {
+        await resetQueryOnly();
+      }
     },
     async savepoint(name: string) {
       if (!supportsSavepoints) {
@@ -112,6 +134,7 @@ export function createSqliteExecutor(
       }
       await executeControlStatement(`ROLLBACK TO SAVEPOINT ${savepoint}`);
     },
+    isTransientError: isSqliteTransientError,
     async dispose() {
       // Connection lifecycle is owned by the caller/driver. Pool lease executors should implement dispose.
     },
@@ -0,0 +1,89 @@
+// src/core/execution/instrumentation/in-memory-instrumentation.ts
+
+import type { AttributeValue, Attributes, Instrumentation, InstrumentationSpan } from './instrumentation.js';
+
+/** Span captured by {@link InMemoryInstrumentation}. */
+export interface RecordedSpan {
+  name: string;
+  attributes: Record<string, AttributeValue>;
+  /** Errors passed to `recordException` */
+  errors: unknown[];
+  /** Span that was open when this one started, if any */
+  parent?: RecordedSpan;
+  ended: boolean;
+}
+
+/** Histogram sample captured by {@link InMemoryInstrumentation}. */
+export interface RecordedMetric {
+  name: string;
+  value: number;
+  attributes: Record<string, AttributeValue>;
+}
+
+const assignDefined = (target: Record<string, AttributeValue>, attributes: Attributes): void => {
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) target[key] = value;
+  }
+};
+
+/**
+ * Instrumentation that keeps every span and metric in memory.
+ * Meant for tests and local debugging; no collector is involved.
+ * Parents are inferred from the spans still open when a span starts, which is exact
+ * for sequential work and approximate when several statements run concurrently.
+ */
+export class InMemoryInstrumentation implements Instrumentation {
+  readonly spans: RecordedSpan[] = [];
+  readonly metrics: RecordedMetric[] = [];
+  private readonly open: RecordedSpan[] = [];
+
+  startSpan(name: string, attributes: Attributes = {}): InstrumentationSpan {
+    const span: RecordedSpan = {
+      name,
+      attributes: {},
+      errors: [],
+      parent: this.open[this.open.length - 1],
+      ended: false
+    };
+    assignDefined(span.attributes, attributes);
+    this.spans.push(span);
+    this.open.push(span);
+    return {
+      setAttribute: (key, value) => {
+        span.attributes[key] = value;
+      },
+      recordException: error => {
+        span.errors.push(error);
+      },
+      end: () => {
+        if (span.ended) return;
+        span.ended = true;
+        const index = this.open.lastIndexOf(span);
+        if (index >= 0) this.open.splice(index, 1);
+      }
+    };
+  }
+
+  recordHistogram(name: string, value: number, attributes: Attributes = {}): void {
+    const metric: RecordedMetric = { name, value, attributes: {} };
+    assignDefined(metric.attributes, attributes);
+    this.metrics.push(metric);
+  }
+
+  /** Spans with the given name, in start order. */
+  spansNamed(name: string): RecordedSpan[] {
+    return this.spans.filter(span => span.name === name);
+  }
+
+  /** Samples of the given histogram, in record order. */
+  metricsNamed(name: string): RecordedMetric[] {
+    return this.metrics.filter(metric => metric.name === name);
+  }
+
+  /** Drops everything recorded so far. */
+  reset(): void {
+    this.spans.length = 0;
+    this.metrics.length = 0;
+    this.open.length = 0;
+  }
+}
@@ -0,0 +1,102 @@
+// src/core/execution/instrumentation/instrumentation.ts
+
+/** Value of a span or metric attribute. */
+export type AttributeValue = string | number | boolean;
+
+/** Attributes attached to spans and metric points; undefined entries are dropped. */
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+/** A unit of work being traced (a query, a flush, a transaction, a pool acquire). */
+export interface InstrumentationSpan {
+  setAttribute(key: string, value: AttributeValue): void;
+  /** Records the failure and marks the span as errored. */
+  recordException(error: unknown): void;
+  end(): void;
+}
+
+/**
+ * Receives the spans and metrics emitted by the ORM, pools and executors.
+ * Implementations bridge to a tracing backend (see `createOtelInstrumentation`)
+ * or record in memory (see `InMemoryInstrumentation`).
+ */
+export interface Instrumentation {
+  startSpan(name: string, attributes?: Attributes): InstrumentationSpan;
+  /**
+   * Records a histogram sample.
+   * @param name - Metric name (see {@link MetricNames})
+   * @param value - Sample value; durations are in seconds
+   * @param attributes - Metric attributes
+   */
+  recordHistogram(name: string, value: number, attributes?: Attributes): void;
+}
+
+/** Span names emitted by metal-orm. */
+export const SpanNames = {
+  query: 'db.query',
+  flush: 'orm.flush',
+  transaction: 'db.transaction',
+  poolAcquire: 'db.pool.acquire'
+} as const;
+
+/** Histogram names emitted by metal-orm, following the OpenTelemetry database metric conventions. */
+export const MetricNames = {
+  /** Query latency in seconds */
+  queryDuration: 'db.client.operation.duration',
+  /** Time spent waiting for a pooled connection in seconds */
+  poolWaitTime: 'db.client.connection.wait_time'
+} as const;
+
+const noopSpan: InstrumentationSpan = {
+  setAttribute() { },
+  recordException() { },
+  end() { }
+};
+
+/** Instrumentation that records nothing; the default when none is configured. */
+export const noopInstrumentation: Instrumentation = {
+  startSpan: () => noopSpan,
+  recordHistogram() { }
+};
+
+/**
+ * Runs an action inside a span, recording its failure and ending the span when it settles.
+ * @param instrumentation - Instrumentation receiving the span
+ * @param name - Span name
+ * @param attributes - Initial span attributes
+ * @param action - Work to trace
+ * @returns The action result
+ */
+export const withSpan = async <T>(
+  instrumentation: Instrumentation,
+  name: string,
+  attributes: Attributes,
+  action: (span: InstrumentationSpan) => Promise<T>
+): Promise<T> => {
+  const span = instrumentation.startSpan(name, attributes);
+  try {
+    return await action(span);
+  } catch (error) {
+    span.recordException(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+};
+
+/**
+ * Elapsed time since `start` in seconds.
+ * @param start - Value previously read from `performance.now()`
+ */
+export const secondsSince = (start: number): number => (performance.now() - start) / 1000;
+
+const LEADING_COMMENTS = /^\s*(?:(?:\/\*[\s\S]*?\*\/|--[^\n]*\n?)\s*)*\(?\s*/;
+
+/**
+ * Extracts the `db.operation` of a statement: its leading SQL keyword, upper-cased.
+ * @param sql - Statement text
+ * @returns Keyword such as SELECT, INSERT or WITH; empty when none is found
+ */
+export const sqlOperationName = (sql: string): string => {
+  const match = /^[a-z]+/i.exec(sql.replace(LEADING_COMMENTS, ''));
+  return match ? match[0].toUpperCase() : '';
+};
@@ -0,0 +1,103 @@
+// src/core/execution/instrumentation/otel-instrumentation.ts
+
+import type { AttributeValue, Attributes, Instrumentation, InstrumentationSpan } from './instrumentation.js';
+
+/** Subset of the OpenTelemetry `Span` used by the adapter. */
+export interface OtelSpanLike {
+  setAttribute(key: string, value: AttributeValue): unknown;
+  recordException(exception: Error | string): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/** Subset of the OpenTelemetry `Tracer` used by the adapter. */
+export interface OtelTracerLike {
+  startSpan(name: string, options?: { kind?: number; attributes?: Record<string, AttributeValue> }): OtelSpanLike;
+}
+
+/** Subset of the OpenTelemetry `Histogram` used by the adapter. */
+export interface OtelHistogramLike {
+  record(value: number, attributes?: Record<string, AttributeValue>): void;
+}
+
+/** Subset of the OpenTelemetry `Meter` used by the adapter. */
+export interface OtelMeterLike {
+  createHistogram(name: string, options?: { unit?: string; description?: string }): OtelHistogramLike;
+}
+
+export interface OtelInstrumentationOptions {
+  /** Tracer receiving the spans (e.g. `trace.getTracer('metal-orm')`). */
+  tracer: OtelTracerLike;
+  /** Meter receiving the histograms; metrics are skipped when omitted. */
+  meter?: OtelMeterLike;
+  /** Value of the `db.system` attribute (e.g. 'postgresql', 'mysql', 'sqlite', 'mssql'). */
+  dbSystem?: string;
+  /** Value of the `db.name` attribute. */
+  dbName?: string;
+}
+
+// Numeric values of the OpenTelemetry SpanKind and SpanStatusCode enums.
+const SPAN_KIND_INTERNAL = 0;
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+const HISTOGRAM_DESCRIPTIONS: Record<string, string> = {
+  'db.client.operation.duration': 'Duration of database client operations',
+  'db.client.connection.wait_time': 'Time it took to obtain an open connection from the pool'
+};
+
+const definedAttributes = (attributes: Attributes): Record<string, AttributeValue> => {
+  const result: Record<string, AttributeValue> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+};
+
+/**
+ * Creates an Instrumentation that reports to OpenTelemetry using the database semantic conventions.
+ * Every span and metric point carries `db.system` (and `db.name` when set); query spans also carry
+ * `db.statement` and `db.operation`. The tracer and meter are typed structurally, so metal-orm
+ * does not depend on `@opentelemetry/api`.
+ * @param options - Tracer, meter and database identification
+ * @returns Instrumentation bridging to the tracer and meter
+ */
+export const createOtelInstrumentation = (options: OtelInstrumentationOptions): Instrumentation => {
+  const { tracer, meter } = options;
+  const common: Attributes = { 'db.system': options.dbSystem, 'db.name': options.dbName };
+  const histograms = new Map<string, OtelHistogramLike>();
+
+  const histogram = (name: string): OtelHistogramLike => {
+    let existing = histograms.get(name);
+    if (!existing) {
+      existing = meter!.createHistogram(name, { unit: 's', description: HISTOGRAM_DESCRIPTIONS[name] });
+      histograms.set(name, existing);
+    }
+    return existing;
+  };
+
+  return {
+    startSpan(name, attributes = {}): InstrumentationSpan {
+      const span = tracer.startSpan(name, {
+        kind: name.startsWith('db.') ? SPAN_KIND_CLIENT : SPAN_KIND_INTERNAL,
+        attributes: definedAttributes({ ...common, ...attributes })
+      });
+      return {
+        setAttribute: (key, value) => {
+          span.setAttribute(key, value);
+        },
+        recordException: error => {
+          const message = error instanceof Error ? error.message : String(error);
+          span.recordException(error instanceof Error ? error : message);
+          span.setStatus({ code: SPAN_STATUS_ERROR, message });
+          if (error instanceof Error) span.setAttribute('error.type', error.name);
+        },
+        end: () => span.end()
+      };
+    },
+    recordHistogram(name, value, attributes = {}) {
+      if (!meter) return;
+      histogram(name).record(value, definedAttributes({ ...common, ...attributes }));
+    }
+  };
+};
@@ -1,3 +1,5 @@
+import type { Instrumentation } from '../instrumentation/instrumentation.js';
+
 export type PoolOptions = {
     /** Maximum number of live resources (idle + leased). */
     max: number;
@@ -11,6 +13,9 @@ export type PoolOptions = {
 
     /** How long callers wait for a resource before acquire() rejects. */
     acquireTimeoutMillis?: number;
+
+    /** Receives a `db.pool.acquire` span and a wait-time sample for every acquire(). */
+    instrumentation?: Instrumentation;
 };
 
 export interface PoolAdapter<TResource> {
@@ -1,4 +1,5 @@
 import type { PoolAdapter, PoolLease, PoolOptions } from './pool-types.js';
+import { MetricNames, SpanNames, secondsSince, withSpan } from '../instrumentation/instrumentation.js';
 
 /**
  * Node.js Timer with optional unref method (for preventing event loop from staying alive)
@@ -71,6 +72,22 @@ export class Pool<TResource> {
      * The returned lease MUST be released or destroyed.
      */
     async acquire(): Promise<PoolLease<TResource>> {
+        const { instrumentation } = this.options;
+        if (!instrumentation) {
+            return this.acquireLease();
+        }
+
+        const started = performance.now();
+        return withSpan(instrumentation, SpanNames.poolAcquire, { 'db.client.connection.pool.max': this.options.max }, async () => {
+            try {
+                return await this.acquireLease();
+            } finally {
+                instrumentation.recordHistogram(MetricNames.poolWaitTime, secondsSince(started));
+            }
+        });
+    }
+
+    private async acquireLease(): Promise<PoolLease<TResource>> {
         if (this.destroyed) {
             throw new Error('Pool is destroyed');
         }
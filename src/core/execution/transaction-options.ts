@@ -0,0 +1,162 @@
+// src/core/execution/transaction-options.ts
+
+/** SQL isolation levels. `SNAPSHOT` is only available on SQL Server. */
+export type IsolationLevel =
+  | 'READ UNCOMMITTED'
+  | 'READ COMMITTED'
+  | 'REPEATABLE READ'
+  | 'SERIALIZABLE'
+  | 'SNAPSHOT';
+
+/**
+ * Retry policy for transactions aborted by deadlocks or serialization failures.
+ * Delays grow exponentially: initialDelayMs * factor^(retry - 1), capped at maxDelayMs.
+ */
+export interface TransactionRetryOptions {
+  /** Total attempts, including the first one (default: 3). */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 20). */
+  initialDelayMs?: number;
+  /** Upper bound for a single delay in milliseconds (default: 1000). */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each retry (default: 2). */
+  factor?: number;
+  /** Randomizes each delay between half and the full computed value (default: true). */
+  jitter?: boolean;
+  /** Overrides the executor's classification of retryable errors. */
+  isRetryable?: (error: unknown) => boolean;
+  /** Called before each retry. */
+  onRetry?: (info: { attempt: number; error: unknown; delayMs: number }) => void | Promise<void>;
+}
+
+/** Options for starting a transaction. */
+export interface TransactionOptions {
+  /** Isolation level of the transaction (default: the database default). */
+  isolationLevel?: IsolationLevel;
+  /** Starts a read-only transaction. */
+  readOnly?: boolean;
+  /** PostgreSQL DEFERRABLE mode (only meaningful for SERIALIZABLE READ ONLY); ignored elsewhere. */
+  deferrable?: boolean;
+  /**
+   * Re-runs the whole transaction when it fails with a deadlock or serialization error.
+   * `true` uses the default policy, a number sets `maxAttempts`.
+   * Handled by the ORM transaction runner; executors ignore it.
+   */
+  retry?: boolean | number | TransactionRetryOptions;
+}
+
+const readProperty = (error: unknown, key: string): unknown =>
+  typeof error === 'object' && error !== null ? (error as Record<string, unknown>)[key] : undefined;
+
+/** Walks the error and its `cause`/`originalError` chain. */
+const errorChain = (error: unknown): unknown[] => {
+  const chain: unknown[] = [];
+  let current: unknown = error;
+  while (current && typeof current === 'object' && !chain.includes(current) && chain.length < 10) {
+    chain.push(current);
+    current = readProperty(current, 'cause') ?? readProperty(current, 'originalError');
+  }
+  return chain;
+};
+
+const POSTGRES_TRANSIENT_CODES = new Set(['40001', '40P01']);
+const MYSQL_TRANSIENT_ERRNOS = new Set([1205, 1213]);
+const MYSQL_TRANSIENT_CODES = new Set(['ER_LOCK_DEADLOCK', 'ER_LOCK_WAIT_TIMEOUT']);
+const MSSQL_TRANSIENT_NUMBERS = new Set([1205, 3960]);
+const SQLITE_TRANSIENT_CODES = new Set(['SQLITE_BUSY', 'SQLITE_BUSY_SNAPSHOT', 'SQLITE_LOCKED']);
+
+/**
+ * Detects PostgreSQL serialization failures (40001) and deadlocks (40P01).
+ * @param error - Error thrown by the driver
+ */
+export const isPostgresTransientError = (error: unknown): boolean =>
+  errorChain(error).some(err => POSTGRES_TRANSIENT_CODES.has(String(readProperty(err, 'code'))));
+
+/**
+ * Detects MySQL deadlocks (1213) and lock wait timeouts (1205).
+ * @param error - Error thrown by the driver
+ */
+export const isMysqlTransientError = (error: unknown): boolean =>
+  errorChain(error).some(err =>
+    MYSQL_TRANSIENT_ERRNOS.has(Number(readProperty(err, 'errno'))) ||
+    MYSQL_TRANSIENT_CODES.has(String(readProperty(err, 'code'))) ||
+    readProperty(err, 'sqlState') === '40001'
+  );
+
+/**
+ * Detects SQL Server deadlock victims (1205) and snapshot update conflicts (3960).
+ * @param error - Error thrown by the driver
+ */
+export const isMssqlTransientError = (error: unknown): boolean =>
+  errorChain(error).some(err =>
+    MSSQL_TRANSIENT_NUMBERS.has(Number(readProperty(err, 'number'))) ||
+    MSSQL_TRANSIENT_NUMBERS.has(Number(readProperty(readProperty(err, 'info'), 'number')))
+  );
+
+/**
+ * Detects SQLite busy/locked database errors.
+ * @param error - Error thrown by the driver
+ */
+export const isSqliteTransientError = (error: unknown): boolean =>
+  errorChain(error).some(err => SQLITE_TRANSIENT_CODES.has(String(readProperty(err, 'code'))));
+
+/**
+ * Driver-agnostic classification used when an executor does not provide its own.
+ * @param error - Error thrown by the driver
+ */
+export const isTransientTransactionError = (error: unknown): boolean =>
+  isPostgresTransientError(error) ||
+  isMysqlTransientError(error) ||
+  isMssqlTransientError(error) ||
+  isSqliteTransientError(error);
+
+const unsupportedIsolationLevel = (level: IsolationLevel, database: string): Error =>
+  new Error(`Isolation level "${level}" is not supported by ${database}.`);
+
+/**
+ * Builds the PostgreSQL BEGIN statement for the given options.
+ * @param options - Transaction options
+ * @returns BEGIN statement (e.g. "BEGIN ISOLATION LEVEL SERIALIZABLE, READ ONLY, DEFERRABLE")
+ */
+export const buildPostgresBeginStatement = (options?: TransactionOptions): string => {
+  const modes: string[] = [];
+  if (options?.isolationLevel) {
+    if (options.isolationLevel === 'SNAPSHOT') {
+      throw unsupportedIsolationLevel(options.isolationLevel, 'PostgreSQL');
+    }
+    modes.push(`ISOLATION LEVEL ${options.isolationLevel}`);
+  }
+  if (options?.readOnly) modes.push('READ ONLY');
+  if (options?.deferrable) modes.push('DEFERRABLE');
+  return modes.length ? `BEGIN ${modes.join(', ')}` : 'BEGIN';
+};
+
+/**
+ * Builds the MySQL SET TRANSACTION statement that configures the next transaction.
+ * @param options - Transaction options
+ * @returns SET TRANSACTION statement, or undefined when nothing needs to be set
+ */
+export const buildMysqlSetTransactionStatement = (options?: TransactionOptions): string | undefined => {
+  const characteristics: string[] = [];
+  if (options?.isolationLevel) {
+    if (options.isolationLevel === 'SNAPSHOT') {
+      throw unsupportedIsolationLevel(options.isolationLevel, 'MySQL');
+    }
+    characteristics.push(`ISOLATION LEVEL ${options.isolationLevel}`);
+  }
+  if (options?.readOnly) characteristics.push('READ ONLY');
+  return characteristics.length ? `SET TRANSACTION ${characteristics.join(', ')}` : undefined;
+};
+
+/**
+ * Builds the SQL Server SET TRANSACTION ISOLATION LEVEL statement.
+ * SQL Server has no read-only transactions, so `readOnly` is rejected.
+ * @param options - Transaction options
+ * @returns SET statement, or undefined when the default level is used
+ */
+export const buildMssqlSetIsolationStatement = (options?: TransactionOptions): string | undefined => {
+  if (options?.readOnly) {
+    throw new Error('Read-only transactions are not supported by SQL Server.');
+  }
+  return options?.isolationLevel ? `SET TRANSACTION ISOLATION LEVEL ${options.isolationLevel}` : undefined;
+};
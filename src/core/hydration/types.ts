@@ -26,6 +26,8 @@ export interface HydrationRelationPlan {
   targetTable: string;
   /** Target table primary key */
   targetPrimaryKey: string;
+  /** All target primary key columns when the key is composite */
+  targetPrimaryKeys?: string[];
   /** Foreign key column */
   foreignKey: string;
   /** Local key column */
@@ -44,6 +46,8 @@ export interface HydrationPlan {
   rootTable: string;
   /** Root table primary key */
   rootPrimaryKey: string;
+  /** All root primary key columns when the key is composite */
+  rootPrimaryKeys?: string[];
   /** Root table columns */
   rootColumns: string[];
   /** Relationship hydration plans */
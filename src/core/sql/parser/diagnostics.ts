@@ -0,0 +1,77 @@
+/**
+ * Category of a SQL parser diagnostic
+ * - `syntax-error`: the text is not valid SQL for the selected dialect
+ * - `unsupported-construct`: valid SQL the query AST cannot represent
+ * - `missing-parameter`: a placeholder has no value in `params`
+ * - `ambiguous-column`: an unqualified column in a multi-table query was bound to the FROM table
+ */
+export type SqlDiagnosticCode =
+  | 'syntax-error'
+  | 'unsupported-construct'
+  | 'missing-parameter'
+  | 'ambiguous-column';
+
+/**
+ * Problem found while parsing SQL, with its location in the source text
+ */
+export interface SqlDiagnostic {
+  severity: 'error' | 'warning';
+  code: SqlDiagnosticCode;
+  message: string;
+  /** Offset of the offending text */
+  offset: number;
+  /** 1-based line of the offending text */
+  line: number;
+  /** 1-based column of the offending text */
+  column: number;
+}
+
+/**
+ * Builds a diagnostic, resolving the offset to a line and column
+ * @param sql - Parsed SQL text
+ * @param offset - Offset of the offending text
+ * @param code - Diagnostic category
+ * @param message - Human readable description
+ * @param severity - Error or warning (errors prevent an AST from being returned)
+ */
+export const createSqlDiagnostic = (
+  sql: string,
+  offset: number,
+  code: SqlDiagnosticCode,
+  message: string,
+  severity: SqlDiagnostic['severity'] = 'error'
+): SqlDiagnostic => {
+  const before = sql.slice(0, offset);
+  const line = before.split('\n').length;
+  const column = offset - before.lastIndexOf('\n');
+  return { severity, code, message, offset, line, column };
+};
+
+/**
+ * Error raised when SQL text cannot be turned into a query AST
+ */
+export class SqlParseError extends Error {
+  /** Diagnostics explaining the failure (at least one error) */
+  readonly diagnostics: SqlDiagnostic[];
+
+  constructor(message: string, sql: string, offset: number, code?: SqlDiagnosticCode);
+  constructor(diagnostics: SqlDiagnostic[]);
+  constructor(
+    messageOrDiagnostics: string | SqlDiagnostic[],
+    sql = '',
+    offset = 0,
+    code: SqlDiagnosticCode = 'syntax-error'
+  ) {
+    const diagnostics = typeof messageOrDiagnostics === 'string'
+      ? [createSqlDiagnostic(sql, offset, code, messageOrDiagnostics)]
+      : messageOrDiagnostics;
+    const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+    super(
+      errors
+        .map(diagnostic => `${diagnostic.message} (line ${diagnostic.line}, column ${diagnostic.column})`)
+        .join('; ')
+    );
+    this.name = 'SqlParseError';
+    this.diagnostics = diagnostics;
+  }
+}
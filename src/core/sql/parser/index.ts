@@ -0,0 +1,3 @@
+export * from './diagnostics.js';
+export * from './sql-lexer.js';
+export * from './sql-parser.js';
@@ -0,0 +1,260 @@
+import type { DialectName } from '../sql.js';
+import { SqlParseError } from './diagnostics.js';
+
+/**
+ * Placeholder spellings a dialect accepts for bound parameters
+ * - `question`: `?` (positional) and `?NNN` (numbered)
+ * - `dollar`: `$1` (numbered) and `$name`
+ * - `colon`: `:name`
+ * - `at`: `@name` (`@p1` is read as the first positional parameter)
+ */
+export type SqlPlaceholderStyle = 'question' | 'dollar' | 'colon' | 'at';
+
+/**
+ * Lexical rules of a SQL dialect used by the SQL parser
+ */
+export interface SqlLexerRules {
+  /** Dialect name, used in diagnostics */
+  name: string;
+  /** Opening and closing characters of quoted identifiers */
+  identifierQuotes: readonly (readonly [open: string, close: string])[];
+  /** Placeholder spellings accepted for bound parameters */
+  placeholders: readonly SqlPlaceholderStyle[];
+  /** Whether backslash escapes are recognised inside string literals (MySQL) */
+  backslashEscapes?: boolean;
+  /** Whether double-quoted text is a string literal instead of an identifier (MySQL) */
+  doubleQuotedStrings?: boolean;
+  /** Whether `#` starts a line comment (MySQL) */
+  hashComments?: boolean;
+  /** Case folding applied to unquoted identifiers (PostgreSQL folds them to lower case) */
+  foldUnquotedIdentifiers?: 'lower' | 'upper';
+}
+
+/**
+ * Lexical rules of the built-in dialects
+ */
+export const SQL_LEXER_RULES: Record<DialectName, SqlLexerRules> = {
+  postgres: {
+    name: 'postgres',
+    identifierQuotes: [['"', '"']],
+    placeholders: ['dollar'],
+    foldUnquotedIdentifiers: 'lower'
+  },
+  mysql: {
+    name: 'mysql',
+    identifierQuotes: [['`', '`']],
+    placeholders: ['question'],
+    backslashEscapes: true,
+    doubleQuotedStrings: true,
+    hashComments: true
+  },
+  sqlite: {
+    name: 'sqlite',
+    identifierQuotes: [['"', '"'], ['`', '`'], ['[', ']']],
+    placeholders: ['question', 'colon', 'at', 'dollar']
+  },
+  mssql: {
+    name: 'mssql',
+    identifierQuotes: [['[', ']'], ['"', '"']],
+    placeholders: ['at']
+  }
+};
+
+export type SqlTokenKind =
+  | 'word'
+  | 'identifier'
+  | 'string'
+  | 'number'
+  | 'parameter'
+  | 'operator'
+  | 'punctuation'
+  | 'eof';
+
+/**
+ * Token produced by the SQL lexer
+ */
+export interface SqlToken {
+  kind: SqlTokenKind;
+  /** Token text; quoted identifiers and strings are unquoted and unescaped */
+  value: string;
+  /** Offset of the first character in the source */
+  start: number;
+  /** Offset after the last character in the source */
+  end: number;
+}
+
+const OPERATORS = ['->>', '<=>', '<>', '!=', '<=', '>=', '<<', '>>', '||', '::', '->', '=', '<', '>', '+', '-', '*', '/', '%', '&', '|', '^', '~'];
+const PUNCTUATION = new Set(['(', ')', ',', '.', ';']);
+
+const isWordStart = (ch: string): boolean => /[A-Za-z_\u0080-\uffff]/.test(ch);
+const isWordPart = (ch: string): boolean => /[A-Za-z0-9_$\u0080-\uffff]/.test(ch);
+const isDigit = (ch: string): boolean => ch >= '0' && ch <= '9';
+
+/**
+ * Splits SQL text into tokens following the quoting, escaping and placeholder rules of a dialect
+ * @param sql - SQL text
+ * @param rules - Lexical rules of the dialect
+ * @returns Tokens, ending with an `eof` token
+ * @throws SqlParseError on unterminated strings, identifiers or comments and unknown characters
+ */
+export const tokenizeSql = (sql: string, rules: SqlLexerRules): SqlToken[] => {
+  const tokens: SqlToken[] = [];
+  let pos = 0;
+
+  const fail = (message: string, at: number): never => {
+    throw new SqlParseError(message, sql, at);
+  };
+
+  const readQuoted = (open: number, close: string, backslash: boolean): [value: string, end: number] => {
+    let value = '';
+    let i = open + 1;
+    while (i < sql.length) {
+      const ch = sql[i];
+      if (backslash && ch === '\\' && i + 1 < sql.length) {
+        const next = sql[i + 1];
+        value += next === 'n' ? '\n' : next === 't' ? '\t' : next === 'r' ? '\r' : next === '0' ? '\0' : next;
+        i += 2;
+        continue;
+      }
+      if (ch === close) {
+        // Doubled closing characters escape themselves ('it''s', "a""b", [a]]b])
+        if (sql[i + 1] === close) {
+          value += close;
+          i += 2;
+          continue;
+        }
+        return [value, i + 1];
+      }
+      value += ch;
+      i++;
+    }
+    return fail(`Unterminated quoted text starting with ${sql[open]}`, open);
+  };
+
+  while (pos < sql.length) {
+    const ch = sql[pos];
+    const next = sql[pos + 1];
+
+    // Whitespace and comments
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+    if ((ch === '-' && next === '-') || (ch === '#' && rules.hashComments)) {
+      while (pos < sql.length && sql[pos] !== '\n') pos++;
+      continue;
+    }
+    if (ch === '/' && next === '*') {
+      const close = sql.indexOf('*/', pos + 2);
+      if (close < 0) fail('Unterminated block comment', pos);
+      pos = close + 2;
+      continue;
+    }
+
+    const start = pos;
+
+    // String literals, with the N'...' national prefix
+    if (ch === '\'' || ((ch === 'N' || ch === 'n') && next === '\'')) {
+      const open = ch === '\'' ? pos : pos + 1;
+      const [value, end] = readQuoted(open, '\'', !!rules.backslashEscapes);
+      tokens.push({ kind: 'string', value, start, end });
+      pos = end;
+      continue;
+    }
+    if (ch === '"' && rules.doubleQuotedStrings) {
+      const [value, end] = readQuoted(pos, '"', !!rules.backslashEscapes);
+      tokens.push({ kind: 'string', value, start, end });
+      pos = end;
+      continue;
+    }
+
+    // Quoted identifiers
+    const quote = rules.identifierQuotes.find(([open]) => open === ch);
+    if (quote) {
+      const [value, end] = readQuoted(pos, quote[1], false);
+      tokens.push({ kind: 'identifier', value, start, end });
+      pos = end;
+      continue;
+    }
+
+    // Numbers
+    if (isDigit(ch) || (ch === '.' && next !== undefined && isDigit(next))) {
+      let end = pos;
+      while (end < sql.length && isDigit(sql[end])) end++;
+      if (sql[end] === '.' && isDigit(sql[end + 1] ?? '')) {
+        end++;
+        while (end < sql.length && isDigit(sql[end])) end++;
+      } else if (ch === '.') {
+        end++;
+        while (end < sql.length && isDigit(sql[end])) end++;
+      }
+      if ((sql[end] === 'e' || sql[end] === 'E') && /[+-]?\d/.test(sql.slice(end + 1, end + 3))) {
+        end += /[+-]/.test(sql[end + 1]) ? 2 : 1;
+        while (end < sql.length && isDigit(sql[end])) end++;
+      }
+      tokens.push({ kind: 'number', value: sql.slice(pos, end), start, end });
+      pos = end;
+      continue;
+    }
+
+    // Placeholders
+    const placeholderEnd = readPlaceholder(sql, pos, rules);
+    if (placeholderEnd > pos) {
+      tokens.push({ kind: 'parameter', value: sql.slice(pos, placeholderEnd), start, end: placeholderEnd });
+      pos = placeholderEnd;
+      continue;
+    }
+
+    // Keywords and bare identifiers
+    if (isWordStart(ch)) {
+      let end = pos + 1;
+      while (end < sql.length && isWordPart(sql[end])) end++;
+      tokens.push({ kind: 'word', value: sql.slice(pos, end), start, end });
+      pos = end;
+      continue;
+    }
+
+    if (PUNCTUATION.has(ch)) {
+      tokens.push({ kind: 'punctuation', value: ch, start, end: pos + 1 });
+      pos++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => sql.startsWith(op, pos));
+    if (operator) {
+      tokens.push({ kind: 'operator', value: operator, start, end: pos + operator.length });
+      pos += operator.length;
+      continue;
+    }
+
+    fail(`Unexpected character "${ch}"`, pos);
+  }
+
+  tokens.push({ kind: 'eof', value: '', start: sql.length, end: sql.length });
+  return tokens;
+};
+
+// Returns the end offset of a placeholder starting at `pos`, or `pos` when there is none
+const readPlaceholder = (sql: string, pos: number, rules: SqlLexerRules): number => {
+  const ch = sql[pos];
+  const readWhile = (from: number, test: (c: string) => boolean): number => {
+    let end = from;
+    while (end < sql.length && test(sql[end])) end++;
+    return end;
+  };
+
+  if (ch === '?' && rules.placeholders.includes('question')) {
+    return readWhile(pos + 1, isDigit);
+  }
+  if (ch === '$' && rules.placeholders.includes('dollar')) {
+    const end = readWhile(pos + 1, isWordPart);
+    return end > pos + 1 ? end : pos;
+  }
+  if (ch === ':' && sql[pos + 1] !== ':' && rules.placeholders.includes('colon') && isWordStart(sql[pos + 1] ?? '')) {
+    return readWhile(pos + 1, isWordPart);
+  }
+  if (ch === '@' && rules.placeholders.includes('at') && isWordStart(sql[pos + 1] ?? '')) {
+    return readWhile(pos + 1, isWordPart);
+  }
+  return pos;
+};
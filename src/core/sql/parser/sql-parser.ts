@@ -0,0 +1,1666 @@
+import type {
+  ColumnNode,
+  ExpressionNode,
+  FunctionNode,
+  LiteralNode,
+  OperandNode,
+  WindowDefinitionNode,
+  WindowFrameBound,
+  WindowFrameNode
+} from '../../ast/expression.js';
+import { isOperandNode } from '../../ast/expression.js';
+import type { JoinNode } from '../../ast/join.js';
+import type {
+  CommonTableExpressionNode,
+  DeleteQueryNode,
+  DerivedTableNode,
+  FunctionTableNode,
+  GroupByTerm,
+  InsertQueryNode,
+  NamedWindowNode,
+  OrderByNode,
+  OrderingTerm,
+  SelectLockNode,
+  SelectQueryNode,
+  SetOperationKind,
+  TableNode,
+  TableSourceNode,
+  UpdateAssignmentNode,
+  UpdateQueryNode,
+  UpsertClause
+} from '../../ast/query.js';
+import type { DialectName, JoinKind, SqlOperator } from '../sql.js';
+import { SqlDiagnostic, SqlParseError, createSqlDiagnostic } from './diagnostics.js';
+import { SQL_LEXER_RULES, SqlLexerRules, SqlToken, tokenizeSql } from './sql-lexer.js';
+
+/**
+ * Statements the SQL parser can produce
+ */
+export type SqlStatementNode = SelectQueryNode | InsertQueryNode | UpdateQueryNode | DeleteQueryNode;
+
+/**
+ * Options for parsing SQL text
+ */
+export interface SqlParseOptions {
+  /** Dialect whose quoting, string and placeholder rules apply (defaults to 'postgres') */
+  dialect?: DialectName | SqlLexerRules;
+  /** Values bound to placeholders: an array for positional ones, a record for named ones */
+  params?: readonly unknown[] | Record<string, unknown>;
+}
+
+/**
+ * Result of parsing SQL text
+ */
+export interface SqlParseResult<T extends SqlStatementNode = SqlStatementNode> {
+  /** Parsed statement; undefined when an error diagnostic was reported */
+  ast?: T;
+  /** Syntax errors, unsupported constructs and warnings, in source order */
+  diagnostics: SqlDiagnostic[];
+}
+
+type ParsedNode = OperandNode | ExpressionNode;
+
+type SelectColumn = SelectQueryNode['columns'][number];
+
+interface QueryScope {
+  /** Names (alias or table name) of the sources in FROM and JOIN */
+  sources: string[];
+  /** Unqualified column references, bound to a source once FROM is known */
+  pending: { node: ColumnNode; offset: number }[];
+  /** Select-list aliases that ORDER BY / GROUP BY may reference */
+  aliases?: Set<string>;
+  /** Set while parsing the ORDER BY of a compound query, whose names refer to output columns */
+  compound?: boolean;
+}
+
+interface SelectItem {
+  node?: ParsedNode;
+  alias?: string;
+  star?: boolean;
+  offset: number;
+}
+
+// Words that end a clause and therefore never start an alias or a bare column reference
+const RESERVED = new Set([
+  'ALL', 'AND', 'AS', 'ASC', 'BETWEEN', 'BY', 'CASE', 'CROSS', 'DESC', 'DISTINCT', 'DO', 'ELSE', 'END',
+  'EXCEPT', 'EXISTS', 'FETCH', 'FOR', 'FROM', 'FULL', 'GROUP', 'HAVING', 'IN', 'INNER', 'INTERSECT',
+  'INTO', 'IS', 'JOIN', 'LATERAL', 'LEFT', 'LIKE', 'LIMIT', 'LOCK', 'MINUS', 'NATURAL', 'NOT', 'NULL',
+  'OFFSET', 'ON', 'OR', 'ORDER', 'OUTER', 'OUTPUT', 'OVER', 'RETURNING', 'RIGHT', 'SELECT', 'SET',
+  'THEN', 'UNION', 'USING', 'VALUES', 'WHEN', 'WHERE', 'WINDOW', 'WITH'
+]);
+
+const COMPARISON_OPERATORS: Record<string, SqlOperator> = {
+  '=': '=',
+  '!=': '!=',
+  '<>': '!=',
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>='
+};
+
+const EXPRESSION_TYPES = new Set<string>([
+  'BinaryExpression',
+  'LogicalExpression',
+  'NotExpression',
+  'NullExpression',
+  'InExpression',
+  'ExistsExpression',
+  'BetweenExpression',
+  'ArithmeticExpression',
+  'BitwiseExpression',
+  'IsDistinctExpression'
+]);
+
+const SELECTABLE_TYPES = new Set<string>(['Column', 'Function', 'ScalarSubquery', 'CaseExpression', 'Cast', 'WindowFunction']);
+
+const sortDiagnostics = (diagnostics: SqlDiagnostic[]): SqlDiagnostic[] =>
+  [...diagnostics].sort((a, b) => a.offset - b.offset);
+
+const isLiteralValue = (value: unknown): value is LiteralNode['value'] =>
+  value === null ||
+  typeof value === 'string' ||
+  typeof value === 'number' ||
+  typeof value === 'boolean' ||
+  value instanceof Date ||
+  (typeof Buffer !== 'undefined' && Buffer.isBuffer(value));
+
+/**
+ * Recursive-descent parser for the SELECT/INSERT/UPDATE/DELETE subset of SQL the query AST supports.
+ * Fatal syntax errors are thrown as SqlParseError; constructs the AST cannot represent are recorded as
+ * diagnostics so one pass reports all of them.
+ */
+class SqlParser {
+  private readonly tokens: SqlToken[];
+  private readonly diagnostics: SqlDiagnostic[] = [];
+  private pos = 0;
+  private nextPositional = 0;
+  private readonly scopes: QueryScope[] = [];
+  // CONCAT nodes created from `||`, so chains flatten into one call
+  private readonly concatenations = new WeakSet<FunctionNode>();
+
+  constructor(
+    private readonly sql: string,
+    private readonly rules: SqlLexerRules,
+    private readonly params?: readonly unknown[] | Record<string, unknown>
+  ) {
+    this.tokens = tokenizeSql(sql, rules);
+  }
+
+  parse(): SqlParseResult {
+    const ast = this.parseStatement();
+    this.acceptPunct(';');
+    if (this.peek().kind !== 'eof') {
+      this.fail(`Unexpected "${this.peek().value}" after the end of the statement; only one statement is supported`);
+    }
+    const hasErrors = this.diagnostics.some(diagnostic => diagnostic.severity === 'error');
+    return { ast: hasErrors ? undefined : ast, diagnostics: sortDiagnostics(this.diagnostics) };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Statements
+  // ---------------------------------------------------------------------------
+
+  private parseStatement(): SqlStatementNode {
+    if (this.isWord('SELECT', 'WITH') || this.isPunct('(')) return this.parseSelectStatement();
+    if (this.isWord('INSERT')) return this.parseInsert();
+    if (this.isWord('UPDATE')) return this.parseUpdate();
+    if (this.isWord('DELETE')) return this.parseDelete();
+    if (this.isWord('MERGE', 'CREATE', 'ALTER', 'DROP', 'TRUNCATE', 'REPLACE', 'UPSERT', 'EXEC', 'EXECUTE', 'CALL')) {
+      this.fail(`${this.peek().value.toUpperCase()} statements are not supported; expected SELECT, INSERT, UPDATE or DELETE`, this.peek(), 'unsupported-construct');
+    }
+    return this.fail(`Expected SELECT, INSERT, UPDATE or DELETE but found "${this.peek().value}"`);
+  }
+
+  private parseSelectStatement(options: { exists?: boolean } = {}): SelectQueryNode {
+    const ctes = this.isWord('WITH') ? this.parseCtes() : undefined;
+    const first = this.parseSelectOperand(options);
+    const setOps: SelectQueryNode['setOps'] = [];
+
+    for (;;) {
+      const token = this.peek();
+      let operator: SetOperationKind | undefined;
+      if (this.acceptWord('UNION')) {
+        operator = this.acceptWord('ALL') ? 'UNION ALL' : 'UNION';
+        this.acceptWord('DISTINCT');
+      } else if (this.acceptWord('INTERSECT')) {
+        operator = 'INTERSECT';
+      } else if (this.acceptWord('EXCEPT') || this.acceptWord('MINUS')) {
+        operator = 'EXCEPT';
+      }
+      if (!operator) break;
+      if ((operator === 'INTERSECT' || operator === 'EXCEPT') && this.isWord('ALL')) {
+        this.unsupported(`${operator} ALL`, token);
+        this.next();
+      }
+      const { node, scope } = this.parseSelectOperand({});
+      this.resolveScope(scope);
+      setOps.push({ type: 'SetOperation', operator, query: node });
+    }
+
+    const query = first.node;
+    first.scope.compound = setOps.length > 0;
+    this.parseSelectTail(query, first.scope);
+    first.scope.compound = false;
+    this.resolveScope(first.scope);
+
+    if (ctes) query.ctes = ctes;
+    if (setOps.length) query.setOps = setOps;
+    return query;
+  }
+
+  // A SELECT core, or a parenthesised SELECT statement used as a set operand
+  private parseSelectOperand(options: { exists?: boolean }): { node: SelectQueryNode; scope: QueryScope } {
+    if (this.acceptPunct('(')) {
+      const node = this.parseSelectStatement(options);
+      this.expectPunct(')');
+      return { node, scope: { sources: [], pending: [] } };
+    }
+    return this.parseSelectCore(options);
+  }
+
+  private parseSelectCore(options: { exists?: boolean }): { node: SelectQueryNode; scope: QueryScope } {
+    this.expectWord('SELECT');
+    const scope: QueryScope = { sources: [], pending: [] };
+    this.scopes.push(scope);
+
+    try {
+      let distinct = false;
+      if (this.acceptWord('DISTINCT')) {
+        distinct = true;
+        if (this.isWord('ON')) {
+          this.unsupported('DISTINCT ON', this.next());
+          this.skipParenthesized();
+        }
+      } else {
+        this.acceptWord('ALL');
+      }
+
+      let limit: number | undefined;
+      if (this.isWord('TOP')) {
+        this.next();
+        const parenthesized = this.acceptPunct('(');
+        limit = this.parseCount('TOP');
+        if (parenthesized) this.expectPunct(')');
+        if (this.isWord('PERCENT', 'WITH')) this.unsupported(`TOP ... ${this.peek().value.toUpperCase()}`, this.next());
+      }
+
+      const items = this.parseSelectList();
+
+      if (!this.isWord('FROM')) {
+        this.fail('SELECT without FROM is not supported by the query AST', this.peek(), 'unsupported-construct');
+      }
+      this.next();
+      const from = this.parseTableSource(scope);
+      const joins = this.parseJoins(scope);
+
+      const node: SelectQueryNode = {
+        type: 'SelectQuery',
+        from,
+        columns: options.exists ? [] : this.toSelectColumns(items, scope),
+        joins
+      };
+
+      if (distinct) {
+        node.distinct = node.columns.filter((column): column is ColumnNode => column.type === 'Column');
+      }
+      if (limit !== undefined) node.limit = limit;
+
+      if (this.acceptWord('WHERE')) node.where = this.parseCondition();
+
+      scope.aliases = new Set(items.map(item => item.alias).filter((alias): alias is string => !!alias));
+      if (this.acceptWords('GROUP', 'BY')) node.groupBy = this.parseGroupBy();
+      if (this.acceptWord('HAVING')) node.having = this.parseCondition();
+      if (this.acceptWord('WINDOW')) node.windows = this.parseWindowClause();
+
+      return { node, scope };
+    } finally {
+      this.scopes.pop();
+    }
+  }
+
+  // ORDER BY, pagination and locking; they apply to the whole compound query when set operations are present
+  private parseSelectTail(node: SelectQueryNode, scope: QueryScope): void {
+    this.scopes.push(scope);
+    try {
+      if (this.acceptWords('ORDER', 'BY')) {
+        // SQL Server's placeholder ordering for OFFSET/FETCH without ORDER BY
+        if (this.isPunct('(') && this.isWordAt(1, 'SELECT') && this.isWordAt(2, 'NULL') && this.peek(3).value === ')') {
+          this.pos += 4;
+        } else {
+          node.orderBy = this.parseOrderByList();
+        }
+      }
+
+      if (this.acceptWord('LIMIT')) {
+        if (this.acceptWord('ALL')) {
+          // LIMIT ALL is the same as no limit
+        } else {
+          const first = this.parseCount('LIMIT');
+          if (this.acceptPunct(',')) {
+            node.offset = first;
+            node.limit = this.parseCount('LIMIT');
+          } else {
+            node.limit = first;
+          }
+        }
+      }
+      if (this.acceptWord('OFFSET')) {
+        node.offset = this.parseCount('OFFSET');
+        if (!this.acceptWord('ROW')) this.acceptWord('ROWS');
+      }
+      if (this.acceptWord('FETCH')) {
+        if (!this.acceptWord('FIRST')) this.expectWord('NEXT');
+        node.limit = this.parseCount('FETCH');
+        if (!this.acceptWord('ROW')) this.expectWord('ROWS');
+        if (this.isWord('WITH')) {
+          this.unsupported('FETCH ... WITH TIES', this.next());
+          this.expectWord('TIES');
+        } else {
+          this.expectWord('ONLY');
+        }
+      }
+
+      const lock = this.parseLock();
+      if (lock) node.lock = lock;
+    } finally {
+      this.scopes.pop();
+    }
+  }
+
+  private parseCtes(): CommonTableExpressionNode[] {
+    this.expectWord('WITH');
+    const recursive = this.acceptWord('RECURSIVE');
+    const ctes: CommonTableExpressionNode[] = [];
+    do {
+      const name = this.parseIdentifier('CTE name');
+      const columns = this.isPunct('(') ? this.parseIdentifierList() : undefined;
+      this.expectWord('AS');
+      if (this.isWord('MATERIALIZED', 'NOT')) {
+        const token = this.next();
+        if (token.value.toUpperCase() === 'NOT') this.expectWord('MATERIALIZED');
+        this.unsupported('MATERIALIZED CTE hints', token);
+      }
+      this.expectPunct('(');
+      const query = this.parseSelectStatement();
+      this.expectPunct(')');
+      const cte: CommonTableExpressionNode = { type: 'CommonTableExpression', name, query, recursive };
+      if (columns) cte.columns = columns;
+      ctes.push(cte);
+    } while (this.acceptPunct(','));
+    return ctes;
+  }
+
+  private parseInsert(): InsertQueryNode {
+    this.expectWord('INSERT');
+    if (this.isWord('IGNORE', 'OR')) this.unsupported(`INSERT ${this.peek().value.toUpperCase()}`, this.next());
+    if (this.isWord('REPLACE', 'ROLLBACK', 'ABORT', 'FAIL')) this.next();
+    this.expectWord('INTO');
+    const into = this.parseTableName();
+    const scope: QueryScope = { sources: [into.alias ?? into.name], pending: [] };
+    this.scopes.push(scope);
+
+    try {
+      if (!this.isPunct('(')) {
+        this.fail('INSERT without a column list is not supported by the query AST', this.peek(), 'unsupported-construct');
+      }
+      const columns = this.parseIdentifierList().map(name => this.column(into.name, name));
+      const node: InsertQueryNode = {
+        type: 'InsertQuery',
+        into,
+        columns,
+        source: { type: 'InsertValues', rows: [] }
+      };
+
+      if (this.isWord('OUTPUT')) this.unsupported('OUTPUT clause', this.peek());
+      if (this.acceptWord('VALUES')) {
+        const rows: OperandNode[][] = [];
+        do {
+          const start = this.expectPunct('(');
+          const row = this.parseOperandList();
+          this.expectPunct(')');
+          if (row.length !== columns.length) {
+            this.fail(`VALUES row has ${row.length} values for ${columns.length} columns`, start);
+          }
+          rows.push(row);
+        } while (this.acceptPunct(','));
+        node.source = { type: 'InsertValues', rows };
+      } else if (this.isWord('SELECT', 'WITH') || this.isPunct('(')) {
+        node.source = { type: 'InsertSelect', query: this.parseSelectStatement() };
+      } else if (this.isWord('DEFAULT')) {
+        this.fail('DEFAULT VALUES is not supported by the query AST', this.peek(), 'unsupported-construct');
+      } else {
+        this.fail(`Expected VALUES or SELECT but found "${this.peek().value}"`);
+      }
+
+      const onConflict = this.parseUpsert(into);
+      if (onConflict) node.onConflict = onConflict;
+      const returning = this.parseReturning(into.alias ?? into.name);
+      if (returning) node.returning = returning;
+      return node;
+    } finally {
+      this.scopes.pop();
+      this.resolveScope(scope);
+    }
+  }
+
+  private parseUpsert(into: TableNode): UpsertClause | undefined {
+    if (this.acceptWords('ON', 'CONFLICT')) {
+      const target: UpsertClause['target'] = { columns: [] };
+      if (this.acceptWords('ON', 'CONSTRAINT')) {
+        target.constraint = this.parseIdentifier('constraint name');
+      } else if (this.isPunct('(')) {
+        target.columns = this.parseIdentifierList().map(name => this.column(into.name, name));
+      }
+      this.expectWord('DO');
+      if (this.acceptWord('NOTHING')) return { target, action: { type: 'DoNothing' } };
+      this.expectWord('UPDATE');
+      this.expectWord('SET');
+      const set = this.parseAssignments(into);
+      const where = this.acceptWord('WHERE') ? this.parseCondition() : undefined;
+      return { target, action: { type: 'DoUpdate', set, ...(where ? { where } : {}) } };
+    }
+
+    if (this.acceptWords('ON', 'DUPLICATE')) {
+      this.expectWord('KEY');
+      this.expectWord('UPDATE');
+      return { target: { columns: [] }, action: { type: 'DoUpdate', set: this.parseAssignments(into) } };
+    }
+
+    return undefined;
+  }
+
+  private parseUpdate(): UpdateQueryNode {
+    this.expectWord('UPDATE');
+    const table = this.parseTableName();
+    const scope: QueryScope = { sources: [table.alias ?? table.name], pending: [] };
+    this.scopes.push(scope);
+
+    try {
+      if (this.isWord('JOIN', 'INNER', 'LEFT', 'RIGHT') || this.isPunct(',')) {
+        this.fail('Multi-table UPDATE ... JOIN is not supported; use UPDATE ... FROM', this.peek(), 'unsupported-construct');
+      }
+      this.expectWord('SET');
+      const node: UpdateQueryNode = { type: 'UpdateQuery', table, set: this.parseAssignments(table) };
+
+      if (this.isWord('OUTPUT')) this.unsupported('OUTPUT clause', this.peek());
+      if (this.acceptWord('FROM')) {
+        node.from = this.parseTableSource(scope);
+        const joins = this.parseJoins(scope);
+        if (joins.length) node.joins = joins;
+      }
+      if (this.acceptWord('WHERE')) node.where = this.parseCondition();
+      const returning = this.parseReturning(table.alias ?? table.name);
+      if (returning) node.returning = returning;
+      return node;
+    } finally {
+      this.scopes.pop();
+      this.resolveScope(scope);
+    }
+  }
+
+  private parseDelete(): DeleteQueryNode {
+    this.expectWord('DELETE');
+    let from: TableNode;
+    if (this.acceptWord('FROM')) {
+      from = this.parseTableName();
+    } else {
+      // SQL Server: DELETE target FROM table [AS alias], where target names the FROM table or its alias
+      const targetToken = this.peek();
+      const target = this.parseQualifiedName('table');
+      if (!this.acceptWord('FROM')) {
+        from = { type: 'Table', name: target[target.length - 1] };
+        if (target.length > 1) from.schema = target[target.length - 2];
+      } else {
+        from = this.parseTableName();
+        if (target[target.length - 1] !== (from.alias ?? from.name)) {
+          this.fail('Multi-table DELETE is not supported; use DELETE ... USING', targetToken, 'unsupported-construct');
+        }
+      }
+    }
+    const scope: QueryScope = { sources: [from.alias ?? from.name], pending: [] };
+    this.scopes.push(scope);
+
+    try {
+      const node: DeleteQueryNode = { type: 'DeleteQuery', from };
+      if (this.isWord('OUTPUT')) this.unsupported('OUTPUT clause', this.peek());
+      if (this.acceptWord('USING')) {
+        node.using = this.parseTableSource(scope);
+        const joins = this.parseJoins(scope);
+        if (joins.length) node.joins = joins;
+      } else if (this.isWord('FROM', 'JOIN', 'INNER', 'LEFT')) {
+        this.fail('Multi-table DELETE is not supported; use DELETE ... USING', this.peek(), 'unsupported-construct');
+      }
+      if (this.acceptWord('WHERE')) node.where = this.parseCondition();
+      const returning = this.parseReturning(from.alias ?? from.name);
+      if (returning) node.returning = returning;
+      return node;
+    } finally {
+      this.scopes.pop();
+      this.resolveScope(scope);
+    }
+  }
+
+  private parseAssignments(table: TableNode): UpdateAssignmentNode[] {
+    const assignments: UpdateAssignmentNode[] = [];
+    do {
+      if (this.isPunct('(')) {
+        this.fail('Row assignments (a, b) = (...) are not supported', this.peek(), 'unsupported-construct');
+      }
+      const path = this.parseQualifiedName('column');
+      const name = path[path.length - 1];
+      if (!this.acceptOp('=')) this.fail(`Expected "=" after column "${name}"`);
+      assignments.push({ column: this.column(table.name, name), value: this.parseOperand() });
+    } while (this.acceptPunct(','));
+    return assignments;
+  }
+
+  private parseReturning(tableRef: string): ColumnNode[] | undefined {
+    if (!this.acceptWord('RETURNING')) return undefined;
+    const columns: ColumnNode[] = [];
+    do {
+      const token = this.peek();
+      if (this.acceptOp('*')) {
+        this.unsupported('RETURNING *', token);
+        continue;
+      }
+      const node = this.parseOperand();
+      const alias = this.parseAlias();
+      if (node.type !== 'Column') {
+        this.unsupported('RETURNING expressions other than columns', token);
+        continue;
+      }
+      const column: ColumnNode = { ...node, table: node.table || tableRef };
+      if (alias) column.alias = alias;
+      columns.push(column);
+    } while (this.acceptPunct(','));
+    return columns;
+  }
+
+  // ---------------------------------------------------------------------------
+  // SELECT clauses
+  // ---------------------------------------------------------------------------
+
+  private parseSelectList(): SelectItem[] {
+    const items: SelectItem[] = [];
+    do {
+      const token = this.peek();
+      if (this.acceptOp('*')) {
+        items.push({ star: true, offset: token.start });
+        continue;
+      }
+      // table.* selects every column of one source
+      if ((token.kind === 'word' || token.kind === 'identifier') && this.peek(1).value === '.' && this.peek(2).value === '*') {
+        this.pos += 3;
+        items.push({ star: true, offset: token.start });
+        continue;
+      }
+      const node = this.parseExpression();
+      items.push({ node, alias: this.parseAlias(), offset: token.start });
+    } while (this.acceptPunct(','));
+    return items;
+  }
+
+  private toSelectColumns(items: SelectItem[], scope: QueryScope): SelectColumn[] {
+    if (items.some(item => item.star)) {
+      if (items.length > 1 || scope.sources.length > 1) {
+        this.unsupported('* mixed with other selections or joined tables; list the columns instead', this.tokenAt(items[0].offset));
+      }
+      return [];
+    }
+
+    const columns: SelectColumn[] = [];
+    for (const item of items) {
+      const node = item.node!;
+      if (!SELECTABLE_TYPES.has(node.type)) {
+        const kind = node.type === 'Literal' ? 'literal values' : 'operators and conditions';
+        this.unsupported(`Selecting ${kind} (wrap them in a function or CASE)`, this.tokenAt(item.offset));
+        continue;
+      }
+      const column = { ...(node as SelectColumn) };
+      if (item.alias) column.alias = item.alias;
+      // Keep the node identity of pending unqualified columns so FROM resolution still reaches them
+      const pending = scope.pending.find(entry => entry.node === node);
+      if (pending) pending.node = column as ColumnNode;
+      columns.push(column);
+    }
+    return columns;
+  }
+
+  private parseAlias(): string | undefined {
+    if (this.acceptWord('AS')) return this.parseIdentifier('alias');
+    const token = this.peek();
+    if (token.kind === 'identifier') {
+      this.next();
+      return token.value;
+    }
+    if (token.kind === 'word' && !RESERVED.has(token.value.toUpperCase()) && !this.isJoinKeyword()) {
+      this.next();
+      return this.foldIdentifier(token.value);
+    }
+    return undefined;
+  }
+
+  private isJoinKeyword(): boolean {
+    return this.isWord('JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'NATURAL', 'STRAIGHT_JOIN');
+  }
+
+  private parseTableName(): TableNode {
+    const token = this.peek();
+    const path = this.parseQualifiedName('table');
+    if (path.length > 2) this.unsupported('Table names with more than a schema qualifier', token);
+    const table: TableNode = { type: 'Table', name: path[path.length - 1] };
+    if (path.length > 1) table.schema = path[path.length - 2];
+    const alias = this.parseAlias();
+    if (alias) table.alias = alias;
+    return table;
+  }
+
+  private parseTableSource(scope: QueryScope): TableSourceNode {
+    const lateral = this.acceptWord('LATERAL');
+    let source: TableSourceNode;
+
+    if (this.isPunct('(')) {
+      const open = this.next();
+      if (!this.isWord('SELECT', 'WITH')) {
+        this.fail('Parenthesised join trees are not supported', open, 'unsupported-construct');
+      }
+      const query = this.parseSelectStatement();
+      this.expectPunct(')');
+      if (lateral) this.unsupported('LATERAL subqueries', open);
+      const alias = this.parseAlias();
+      if (!alias) this.fail('Derived tables must have an alias', this.peek());
+      const derived: DerivedTableNode = { type: 'DerivedTable', query, alias: alias! };
+      if (this.isPunct('(')) derived.columnAliases = this.parseIdentifierList();
+      source = derived;
+    } else {
+      const token = this.peek();
+      const path = this.parseQualifiedName('table');
+      if (this.isPunct('(')) {
+        this.next();
+        const args = this.isPunct(')') ? [] : this.parseOperandList();
+        this.expectPunct(')');
+        const fn: FunctionTableNode = { type: 'FunctionTable', name: path[path.length - 1] };
+        if (path.length > 1) fn.schema = path[path.length - 2];
+        if (args.length) fn.args = args;
+        if (lateral) fn.lateral = true;
+        if (this.acceptWords('WITH', 'ORDINALITY')) fn.withOrdinality = true;
+        const alias = this.parseAlias();
+        if (alias) fn.alias = alias;
+        if (this.isPunct('(')) fn.columnAliases = this.parseIdentifierList();
+        source = fn;
+      } else {
+        if (path.length > 2) this.unsupported('Table names with more than a schema qualifier', token);
+        const table: TableNode = { type: 'Table', name: path[path.length - 1] };
+        if (path.length > 1) table.schema = path[path.length - 2];
+        const alias = this.parseAlias();
+        if (alias) table.alias = alias;
+        source = table;
+      }
+    }
+
+    // SQL Server table hints such as WITH (NOLOCK)
+    if (this.isWord('WITH') && this.peek(1).value === '(') {
+      this.unsupported('Table hints', this.next());
+      this.skipParenthesized();
+    }
+
+    scope.sources.push(this.sourceRef(source));
+    return source;
+  }
+
+  private parseJoins(scope: QueryScope): JoinNode[] {
+    const joins: JoinNode[] = [];
+    for (;;) {
+      const token = this.peek();
+      let kind: JoinKind | undefined;
+      let unsupportedKind: string | undefined;
+
+      if (this.acceptPunct(',')) {
+        unsupportedKind = 'Comma-separated FROM lists (implicit CROSS JOIN)';
+        kind = 'CROSS';
+      } else if (this.acceptWord('JOIN') || this.acceptWords('INNER', 'JOIN')) {
+        kind = 'INNER';
+      } else if (this.isWord('LEFT', 'RIGHT')) {
+        kind = this.next().value.toUpperCase() as JoinKind;
+        this.acceptWord('OUTER');
+        this.expectWord('JOIN');
+      } else if (this.isWord('FULL', 'CROSS', 'NATURAL')) {
+        const word = this.next().value.toUpperCase();
+        while (!this.acceptWord('JOIN')) this.next();
+        unsupportedKind = `${word} JOIN`;
+        kind = 'CROSS';
+      } else if (this.isWord('CROSS', 'OUTER') && this.peek(1).value.toUpperCase() === 'APPLY') {
+        unsupportedKind = `${this.next().value.toUpperCase()} APPLY`;
+        this.next();
+        kind = 'CROSS';
+      }
+      if (!kind) return joins;
+      if (unsupportedKind) this.unsupported(unsupportedKind, token);
+
+      const leftRef = scope.sources[0];
+      const table = this.parseTableSource(scope);
+      const rightRef = this.sourceRef(table);
+      let condition: ExpressionNode;
+
+      if (this.acceptWord('ON')) {
+        condition = this.parseCondition();
+      } else if (this.acceptWord('USING')) {
+        const equalities: ExpressionNode[] = this.parseIdentifierList().map(name => ({
+          type: 'BinaryExpression',
+          left: this.column(leftRef, name),
+          operator: '=',
+          right: this.column(rightRef, name)
+        }));
+        condition = equalities.length === 1 ? equalities[0] : { type: 'LogicalExpression', operator: 'AND', operands: equalities };
+      } else {
+        if (!unsupportedKind) this.fail(`Expected ON or USING after joined table "${rightRef}"`);
+        condition = this.alwaysTrue();
+      }
+
+      joins.push({ type: 'Join', kind, table, condition });
+    }
+  }
+
+  private parseGroupBy(): GroupByTerm[] {
+    const terms: GroupByTerm[] = [];
+    do {
+      if (this.isWord('ROLLUP', 'CUBE') && this.peek(1).value === '(') {
+        const kind = this.next().value.toUpperCase() as 'ROLLUP' | 'CUBE';
+        this.expectPunct('(');
+        const sets = this.parseOrderingTerms().map(term => [term]);
+        this.expectPunct(')');
+        terms.push({ type: 'GroupingSets', kind, sets });
+      } else if (this.acceptWords('GROUPING', 'SETS')) {
+        this.expectPunct('(');
+        const sets: OrderingTerm[][] = [];
+        do {
+          if (this.acceptPunct('(')) {
+            sets.push(this.isPunct(')') ? [] : this.parseOrderingTerms());
+            this.expectPunct(')');
+          } else {
+            sets.push([this.parseOrderingTerm()]);
+          }
+        } while (this.acceptPunct(','));
+        this.expectPunct(')');
+        terms.push({ type: 'GroupingSets', kind: 'GROUPING SETS', sets });
+      } else {
+        terms.push(this.parseOrderingTerm());
+      }
+    } while (this.acceptPunct(','));
+
+    // MySQL: GROUP BY a, b WITH ROLLUP
+    if (this.acceptWords('WITH', 'ROLLUP')) {
+      return [{ type: 'GroupingSets', kind: 'ROLLUP', sets: (terms as OrderingTerm[]).map(term => [term]) }];
+    }
+    return terms;
+  }
+
+  private parseOrderingTerms(): OrderingTerm[] {
+    const terms: OrderingTerm[] = [];
+    do {
+      terms.push(this.parseOrderingTerm());
+    } while (this.acceptPunct(','));
+    return terms;
+  }
+
+  // Unqualified names matching a select-list alias become alias references, as does every
+  // unqualified name ordering a compound query (it can only name an output column there)
+  private parseOrderingTerm(): OrderingTerm {
+    const token = this.peek();
+    const scope = this.currentScope();
+    const name = token.kind === 'identifier' || (token.kind === 'word' && !RESERVED.has(token.value.toUpperCase()))
+      ? this.identifierValue(token)
+      : undefined;
+    if (
+      name !== undefined &&
+      (scope?.compound || scope?.aliases?.has(name)) &&
+      this.peek(1).value !== '.' &&
+      this.peek(1).value !== '('
+    ) {
+      this.next();
+      return { type: 'AliasRef', name };
+    }
+    if (token.kind === 'number' && /^\d+$/.test(token.value)) {
+      this.unsupported('Ordinal positions in ORDER BY / GROUP BY (use the column or its alias)', token);
+    }
+    return this.parseExpression();
+  }
+
+  private parseOrderByList(): OrderByNode[] {
+    const items: OrderByNode[] = [];
+    do {
+      let term = this.parseOrderingTerm();
+      let collation: string | undefined;
+      if (term.type === 'Collate') {
+        collation = term.collation;
+        term = term.expression;
+      }
+      const direction = this.acceptWord('DESC') ? 'DESC' : 'ASC';
+      if (direction === 'ASC') this.acceptWord('ASC');
+      const order: OrderByNode = { type: 'OrderBy', term, direction };
+      if (this.acceptWord('NULLS')) {
+        order.nulls = this.acceptWord('FIRST') ? 'FIRST' : 'LAST';
+        if (order.nulls === 'LAST') this.expectWord('LAST');
+      }
+      if (collation) order.collation = collation;
+      items.push(order);
+    } while (this.acceptPunct(','));
+    return items;
+  }
+
+  private parseWindowClause(): NamedWindowNode[] {
+    const windows: NamedWindowNode[] = [];
+    do {
+      const name = this.parseIdentifier('window name');
+      this.expectWord('AS');
+      windows.push({ type: 'NamedWindow', name, definition: this.parseWindowSpec() });
+    } while (this.acceptPunct(','));
+    return windows;
+  }
+
+  private parseWindowSpec(): WindowDefinitionNode {
+    this.expectPunct('(');
+    const definition: WindowDefinitionNode = {};
+    const first = this.peek();
+    if (
+      (first.kind === 'word' && !this.isWord('PARTITION', 'ORDER', 'ROWS', 'RANGE', 'GROUPS')) ||
+      first.kind === 'identifier'
+    ) {
+      definition.baseWindow = this.parseIdentifier('window name');
+    }
+    if (this.acceptWords('PARTITION', 'BY')) {
+      definition.partitionBy = [];
+      do {
+        const token = this.peek();
+        const term = this.parseOperand();
+        if (term.type === 'Column') {
+          definition.partitionBy.push(term);
+        } else {
+          this.unsupported('PARTITION BY expressions other than columns', token);
+        }
+      } while (this.acceptPunct(','));
+    }
+    if (this.acceptWords('ORDER', 'BY')) definition.orderBy = this.parseOrderByList();
+    if (this.isWord('ROWS', 'RANGE', 'GROUPS')) definition.frame = this.parseWindowFrame();
+    this.expectPunct(')');
+    return definition;
+  }
+
+  private parseWindowFrame(): WindowFrameNode {
+    const unit = this.next().value.toUpperCase() as WindowFrameNode['unit'];
+    const frame: WindowFrameNode = { type: 'WindowFrame', unit, start: { kind: 'CURRENT ROW' } };
+    if (this.acceptWord('BETWEEN')) {
+      frame.start = this.parseFrameBound();
+      this.expectWord('AND');
+      frame.end = this.parseFrameBound();
+    } else {
+      frame.start = this.parseFrameBound();
+    }
+    if (this.isWord('EXCLUDE')) {
+      this.unsupported('Window frame EXCLUDE', this.next());
+      while (!this.isPunct(')') && this.peek().kind !== 'eof') this.next();
+    }
+    return frame;
+  }
+
+  private parseFrameBound(): WindowFrameBound {
+    if (this.acceptWords('CURRENT', 'ROW')) return { kind: 'CURRENT ROW' };
+    const unbounded = this.acceptWord('UNBOUNDED');
+    const offset = unbounded ? undefined : this.parseCount('window frame offset');
+    const preceding = this.acceptWord('PRECEDING');
+    if (!preceding) this.expectWord('FOLLOWING');
+    if (unbounded) return { kind: preceding ? 'UNBOUNDED PRECEDING' : 'UNBOUNDED FOLLOWING' };
+    return { kind: preceding ? 'PRECEDING' : 'FOLLOWING', offset };
+  }
+
+  private parseLock(): SelectLockNode | undefined {
+    if (this.acceptWords('LOCK', 'IN')) {
+      this.expectWord('SHARE');
+      this.expectWord('MODE');
+      return { type: 'Lock', mode: 'SHARE' };
+    }
+    if (!this.isWord('FOR')) return undefined;
+
+    const token = this.next();
+    let mode: SelectLockNode['mode'];
+    if (this.acceptWord('UPDATE')) {
+      mode = 'UPDATE';
+    } else if (this.acceptWord('SHARE')) {
+      mode = 'SHARE';
+    } else {
+      this.unsupported(`FOR ${this.peek().value.toUpperCase()} locks`, token);
+      while (!this.isWord('UPDATE', 'SHARE') && this.peek().kind !== 'eof') this.next();
+      mode = this.next().value.toUpperCase() === 'SHARE' ? 'SHARE' : 'UPDATE';
+    }
+
+    const lock: SelectLockNode = { type: 'Lock', mode };
+    if (this.acceptWord('OF')) {
+      lock.of = [];
+      do {
+        const name = this.parseIdentifier('table name');
+        lock.of.push({ type: 'Table', name });
+      } while (this.acceptPunct(','));
+    }
+    if (this.acceptWord('NOWAIT')) lock.wait = 'NOWAIT';
+    else if (this.acceptWords('SKIP', 'LOCKED')) lock.wait = 'SKIP LOCKED';
+    return lock;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  private parseExpression(): ParsedNode {
+    return this.parseOr();
+  }
+
+  private parseCondition(): ExpressionNode {
+    const token = this.peek();
+    return this.toExpression(this.parseExpression(), token);
+  }
+
+  private parseOperand(): OperandNode {
+    const token = this.peek();
+    return this.toOperand(this.parseExpression(), token);
+  }
+
+  private parseOperandList(): OperandNode[] {
+    const operands: OperandNode[] = [];
+    do {
+      if (this.isWord('DEFAULT')) {
+        this.unsupported('DEFAULT values', this.next());
+        operands.push(this.literal(null));
+        continue;
+      }
+      operands.push(this.parseOperand());
+    } while (this.acceptPunct(','));
+    return operands;
+  }
+
+  private parseOr(): ParsedNode {
+    return this.parseLogical('OR', () => this.parseAnd());
+  }
+
+  private parseAnd(): ParsedNode {
+    return this.parseLogical('AND', () => this.parseNot());
+  }
+
+  private parseLogical(operator: 'AND' | 'OR', parseOperand: () => ParsedNode): ParsedNode {
+    const firstToken = this.peek();
+    const first = parseOperand();
+    if (!this.isWord(operator)) return first;
+
+    const operands = [this.toExpression(first, firstToken)];
+    while (this.acceptWord(operator)) {
+      const token = this.peek();
+      operands.push(this.toExpression(parseOperand(), token));
+    }
+    return { type: 'LogicalExpression', operator, operands };
+  }
+
+  private parseNot(): ParsedNode {
+    if (this.isWord('NOT') && !this.isWords('NOT', 'EXISTS')) {
+      this.next();
+      const token = this.peek();
+      return { type: 'NotExpression', operand: this.toExpression(this.parseNot(), token) };
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): ParsedNode {
+    if (this.isWord('EXISTS') || this.isWords('NOT', 'EXISTS')) {
+      const operator: SqlOperator = this.acceptWord('NOT') ? 'NOT EXISTS' : 'EXISTS';
+      this.expectWord('EXISTS');
+      this.expectPunct('(');
+      const subquery = this.parseSelectStatement({ exists: true });
+      this.expectPunct(')');
+      return { type: 'ExistsExpression', operator, subquery };
+    }
+
+    const leftToken = this.peek();
+    const left = this.parseBitwise();
+    const token = this.peek();
+
+    if (token.kind === 'operator' && COMPARISON_OPERATORS[token.value]) {
+      this.next();
+      if (this.isWord('ANY', 'ALL', 'SOME')) {
+        this.unsupported(`Quantified comparisons (${this.peek().value.toUpperCase()})`, this.next());
+        this.skipParenthesized();
+        return this.alwaysTrue();
+      }
+      return {
+        type: 'BinaryExpression',
+        left: this.toOperand(left, leftToken),
+        operator: COMPARISON_OPERATORS[token.value],
+        right: this.parseOperandAt(() => this.parseBitwise())
+      };
+    }
+
+    if (this.acceptOp('<=>')) {
+      return {
+        type: 'IsDistinctExpression',
+        left: this.toOperand(left, leftToken),
+        operator: 'IS NOT DISTINCT FROM',
+        right: this.parseOperandAt(() => this.parseBitwise())
+      };
+    }
+
+    if (this.acceptWord('IS')) {
+      const negated = this.acceptWord('NOT');
+      if (this.acceptWord('NULL')) {
+        return { type: 'NullExpression', left: this.toOperand(left, leftToken), operator: negated ? 'IS NOT NULL' : 'IS NULL' };
+      }
+      if (this.acceptWord('DISTINCT')) {
+        this.expectWord('FROM');
+        return {
+          type: 'IsDistinctExpression',
+          left: this.toOperand(left, leftToken),
+          operator: negated ? 'IS NOT DISTINCT FROM' : 'IS DISTINCT FROM',
+          right: this.parseOperandAt(() => this.parseBitwise())
+        };
+      }
+      this.unsupported(`IS ${negated ? 'NOT ' : ''}${this.peek().value.toUpperCase()}`, this.next());
+      return this.alwaysTrue();
+    }
+
+    const negated = this.isWord('NOT') && this.isWordAt(1, 'BETWEEN', 'IN', 'LIKE', 'ILIKE', 'SIMILAR', 'REGEXP', 'RLIKE', 'GLOB');
+    if (negated) this.next();
+
+    if (this.acceptWord('BETWEEN')) {
+      if (this.acceptWord('SYMMETRIC')) this.unsupported('BETWEEN SYMMETRIC', token);
+      const lower = this.parseOperandAt(() => this.parseBitwise());
+      this.expectWord('AND');
+      const upper = this.parseOperandAt(() => this.parseBitwise());
+      return { type: 'BetweenExpression', left: this.toOperand(left, leftToken), operator: negated ? 'NOT BETWEEN' : 'BETWEEN', lower, upper };
+    }
+
+    if (this.acceptWord('IN')) {
+      this.expectPunct('(');
+      const operator = negated ? 'NOT IN' : 'IN';
+      if (this.isWord('SELECT', 'WITH')) {
+        const query = this.parseSelectStatement();
+        this.expectPunct(')');
+        return { type: 'InExpression', left: this.toOperand(left, leftToken), operator, right: { type: 'ScalarSubquery', query } };
+      }
+      const values = this.parseOperandList();
+      this.expectPunct(')');
+      return { type: 'InExpression', left: this.toOperand(left, leftToken), operator, right: values };
+    }
+
+    if (this.acceptWord('LIKE')) {
+      const node: ExpressionNode = {
+        type: 'BinaryExpression',
+        left: this.toOperand(left, leftToken),
+        operator: negated ? 'NOT LIKE' : 'LIKE',
+        right: this.parseOperandAt(() => this.parseBitwise())
+      };
+      if (this.acceptWord('ESCAPE')) {
+        const escape = this.parseOperandAt(() => this.parsePrimary());
+        if (escape.type === 'Literal') node.escape = escape;
+        else this.unsupported('Non-literal LIKE ESCAPE', token);
+      }
+      return node;
+    }
+
+    if (this.isWord('ILIKE', 'SIMILAR', 'REGEXP', 'RLIKE', 'GLOB', 'MATCH')) {
+      this.unsupported(`${this.next().value.toUpperCase()} operator`, token);
+      this.acceptWord('TO');
+      this.parseBitwise();
+      return this.alwaysTrue();
+    }
+
+    return left;
+  }
+
+  private parseOperandAt(parse: () => ParsedNode): OperandNode {
+    const token = this.peek();
+    return this.toOperand(parse(), token);
+  }
+
+  private parseBitwise(): ParsedNode {
+    let leftToken = this.peek();
+    let left = this.parseAdditive();
+    for (;;) {
+      const token = this.peek();
+      if (token.kind !== 'operator' || !['&', '|', '^', '<<', '>>'].includes(token.value)) return left;
+      this.next();
+      left = {
+        type: 'BitwiseExpression',
+        left: this.toOperand(left, leftToken),
+        operator: token.value as '&' | '|' | '^' | '<<' | '>>',
+        right: this.parseOperandAt(() => this.parseAdditive())
+      };
+      leftToken = token;
+    }
+  }
+
+  private parseAdditive(): ParsedNode {
+    const leftToken = this.peek();
+    let left = this.parseMultiplicative();
+    for (;;) {
+      const token = this.peek();
+      if (token.kind !== 'operator' || !['+', '-', '||'].includes(token.value)) return left;
+      this.next();
+      const right = this.parseOperandAt(() => this.parseMultiplicative());
+      const leftOperand = this.toOperand(left, leftToken);
+      if (token.value === '||') {
+        if (leftOperand.type === 'Function' && this.concatenations.has(leftOperand)) {
+          leftOperand.args.push(right);
+          continue;
+        }
+        const concat: FunctionNode = { type: 'Function', name: 'CONCAT', fn: 'CONCAT', args: [leftOperand, right] };
+        this.concatenations.add(concat);
+        left = concat;
+        continue;
+      }
+      left = { type: 'ArithmeticExpression', left: leftOperand, operator: token.value as '+' | '-', right };
+    }
+  }
+
+  private parseMultiplicative(): ParsedNode {
+    const leftToken = this.peek();
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      if (token.kind !== 'operator' || !['*', '/', '%'].includes(token.value)) return left;
+      this.next();
+      const right = this.parseOperandAt(() => this.parseUnary());
+      if (token.value === '%') {
+        this.unsupported('Modulo operator %', token);
+        continue;
+      }
+      left = { type: 'ArithmeticExpression', left: this.toOperand(left, leftToken), operator: token.value as '*' | '/', right };
+    }
+  }
+
+  private parseUnary(): ParsedNode {
+    const token = this.peek();
+    if (token.kind === 'operator' && (token.value === '-' || token.value === '+')) {
+      this.next();
+      const operand = this.parseUnary();
+      if (token.value === '+') return operand;
+      if (operand.type === 'Literal' && typeof operand.value === 'number') {
+        return this.literal(-operand.value);
+      }
+      return {
+        type: 'ArithmeticExpression',
+        left: this.literal(-1),
+        operator: '*',
+        right: this.toOperand(operand, token)
+      };
+    }
+    if (token.kind === 'operator' && token.value === '~') {
+      this.next();
+      this.unsupported('Bitwise NOT ~', token);
+      return this.parseUnary();
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ParsedNode {
+    const token = this.peek();
+    let node = this.parsePrimary();
+    for (;;) {
+      if (this.acceptOp('::')) {
+        node = { type: 'Cast', expression: this.toOperand(node, token), castType: this.parseTypeName() };
+      } else if (this.acceptWord('COLLATE')) {
+        node = { type: 'Collate', expression: this.toOperand(node, token), collation: this.parseIdentifier('collation') };
+      } else if (this.isOp('->') || this.isOp('->>')) {
+        this.unsupported(`JSON operator ${this.next().value}`, token);
+        this.parsePrimary();
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ParsedNode {
+    const token = this.peek();
+
+    switch (token.kind) {
+      case 'number':
+        this.next();
+        return this.literal(Number(token.value));
+      case 'string':
+        this.next();
+        return this.literal(token.value);
+      case 'parameter':
+        this.next();
+        return this.literal(this.bindParameter(token));
+      case 'punctuation':
+        if (token.value === '(') return this.parseParenthesized();
+        break;
+      case 'identifier':
+        return this.parseReference();
+      case 'word':
+        return this.parseWord();
+      default:
+        break;
+    }
+    return this.fail(token.kind === 'eof' ? 'Unexpected end of SQL' : `Unexpected "${token.value}"`, token);
+  }
+
+  private parseParenthesized(): ParsedNode {
+    const open = this.expectPunct('(');
+    if (this.isWord('SELECT', 'WITH')) {
+      const query = this.parseSelectStatement();
+      this.expectPunct(')');
+      return { type: 'ScalarSubquery', query };
+    }
+    const node = this.parseExpression();
+    if (this.isPunct(',')) {
+      this.unsupported('Row value constructors (a, b)', open);
+      while (this.acceptPunct(',')) this.parseExpression();
+    }
+    this.expectPunct(')');
+    return node;
+  }
+
+  private parseWord(): ParsedNode {
+    const token = this.peek();
+    const upper = token.value.toUpperCase();
+
+    switch (upper) {
+      case 'NULL':
+        this.next();
+        return this.literal(null);
+      case 'TRUE':
+      case 'FALSE':
+        this.next();
+        return this.literal(upper === 'TRUE');
+      case 'CASE':
+        return this.parseCase();
+      case 'CAST':
+      case 'TRY_CAST':
+        if (this.peek(1).value === '(') return this.parseCast();
+        break;
+      case 'CURRENT_TIMESTAMP':
+      case 'LOCALTIMESTAMP':
+        if (this.peek(1).value !== '(') {
+          this.next();
+          return { type: 'Function', name: 'NOW', args: [] };
+        }
+        break;
+      case 'CURRENT_DATE':
+        this.next();
+        return { type: 'Function', name: 'CURRENT_DATE', args: [] };
+      case 'CURRENT_TIME':
+      case 'CURRENT_USER':
+      case 'SESSION_USER':
+        this.next();
+        this.unsupported(upper, token);
+        return this.literal(null);
+      case 'DATE':
+      case 'TIME':
+      case 'TIMESTAMP':
+      case 'INTERVAL':
+        if (this.peek(1).kind === 'string') {
+          this.next();
+          this.next();
+          this.unsupported(`${upper} '...' literals`, token);
+          return this.literal(null);
+        }
+        break;
+      default:
+        break;
+    }
+
+    if (RESERVED.has(upper) && this.peek(1).value !== '(') {
+      this.fail(`Unexpected keyword "${token.value}"`, token);
+    }
+    return this.parseReference();
+  }
+
+  // Column references and function calls
+  private parseReference(): ParsedNode {
+    const token = this.peek();
+    const path = this.parseQualifiedName('column');
+
+    if (this.isPunct('(')) return this.parseFunctionCall(path[path.length - 1].toUpperCase(), token);
+
+    if (path.length === 1) {
+      const node: ColumnNode = { type: 'Column', table: '', name: path[0] };
+      this.currentScope()?.pending.push({ node, offset: token.start });
+      return node;
+    }
+    return this.column(path[path.length - 2], path[path.length - 1]);
+  }
+
+  private parseFunctionCall(name: string, nameToken: SqlToken): ParsedNode {
+    this.expectPunct('(');
+    const node: FunctionNode = { type: 'Function', name, args: [] };
+
+    if (this.isWord('DISTINCT')) {
+      this.unsupported('DISTINCT inside function calls', this.next());
+    } else {
+      this.acceptWord('ALL');
+    }
+
+    if (this.isOp('*') && this.peek(1).value === ')') {
+      const star = this.next();
+      if (name !== 'COUNT') this.unsupported(`${name}(*)`, star);
+    } else if (!this.isPunct(')')) {
+      node.args = this.parseOperandList();
+    }
+
+    // GROUP_CONCAT(x ORDER BY y SEPARATOR ', ')
+    if (this.acceptWords('ORDER', 'BY')) node.orderBy = this.parseOrderByList();
+    if (this.acceptWord('SEPARATOR')) node.separator = this.parseOperandAt(() => this.parsePrimary());
+    this.expectPunct(')');
+
+    if (this.isWords('WITHIN', 'GROUP')) {
+      this.unsupported('WITHIN GROUP', this.next());
+      this.next();
+      this.skipParenthesized();
+    }
+    if (this.acceptWord('FILTER')) {
+      this.expectPunct('(');
+      this.expectWord('WHERE');
+      node.aggregateFilter = this.parseCondition();
+      this.expectPunct(')');
+    }
+
+    if (!this.acceptWord('OVER')) return node;
+
+    if (node.aggregateFilter || node.orderBy || node.separator) {
+      this.unsupported('FILTER, ORDER BY or SEPARATOR on window functions', nameToken);
+    }
+    const definition = this.isPunct('(')
+      ? this.parseWindowSpec()
+      : { baseWindow: this.parseIdentifier('window name') };
+    return { type: 'WindowFunction', name, args: node.args, ...definition };
+  }
+
+  private parseCase(): ParsedNode {
+    this.expectWord('CASE');
+    const subjectToken = this.peek();
+    const subject = this.isWord('WHEN') ? undefined : this.toOperand(this.parseExpression(), subjectToken);
+    const conditions: { when: ExpressionNode; then: OperandNode }[] = [];
+
+    while (this.acceptWord('WHEN')) {
+      const whenToken = this.peek();
+      // Simple CASE (CASE x WHEN 1 ...) becomes the searched form (CASE WHEN x = 1 ...)
+      const when: ExpressionNode = subject
+        ? { type: 'BinaryExpression', left: subject, operator: '=', right: this.parseOperand() }
+        : this.toExpression(this.parseExpression(), whenToken);
+      this.expectWord('THEN');
+      conditions.push({ when, then: this.parseOperand() });
+    }
+    if (!conditions.length) this.fail('CASE requires at least one WHEN branch');
+
+    const node: ParsedNode = { type: 'CaseExpression', conditions };
+    if (this.acceptWord('ELSE')) node.else = this.parseOperand();
+    this.expectWord('END');
+    return node;
+  }
+
+  private parseCast(): ParsedNode {
+    this.next();
+    this.expectPunct('(');
+    const expression = this.parseOperand();
+    this.expectWord('AS');
+    const castType = this.parseTypeName();
+    this.expectPunct(')');
+    return { type: 'Cast', expression, castType };
+  }
+
+  // Type names are kept as written: words, an optional (precision, scale) and array brackets
+  private parseTypeName(): string {
+    const start = this.peek();
+    if (start.kind !== 'word' && start.kind !== 'identifier') this.fail('Expected a type name', start);
+    let end = this.next().end;
+    while (this.peek().kind === 'word' && !RESERVED.has(this.peek().value.toUpperCase())) {
+      end = this.next().end;
+    }
+    if (this.isPunct('(')) {
+      end = this.skipParenthesized();
+    }
+    return this.sql.slice(start.start, end).trim();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private toOperand(node: ParsedNode, token: SqlToken): OperandNode {
+    if (isOperandNode(node)) return node;
+    this.unsupported('Conditions used as values', token);
+    return this.literal(null);
+  }
+
+  private toExpression(node: ParsedNode, token: SqlToken): ExpressionNode {
+    if (EXPRESSION_TYPES.has(node.type)) return node as ExpressionNode;
+    this.unsupported('Values used as conditions (compare them explicitly, e.g. active = TRUE)', token);
+    return this.alwaysTrue();
+  }
+
+  // Stand-in condition for unsupported predicates, so parsing can continue
+  private alwaysTrue(): ExpressionNode {
+    return { type: 'BinaryExpression', left: this.literal(1), operator: '=', right: this.literal(1) };
+  }
+
+  private literal(value: LiteralNode['value']): LiteralNode {
+    return { type: 'Literal', value };
+  }
+
+  private column(table: string, name: string): ColumnNode {
+    return { type: 'Column', table, name };
+  }
+
+  private sourceRef(source: TableSourceNode): string {
+    return source.type === 'DerivedTable' ? source.alias : source.alias ?? source.name;
+  }
+
+  private currentScope(): QueryScope | undefined {
+    return this.scopes[this.scopes.length - 1];
+  }
+
+  // Binds unqualified columns to the only source, or to the FROM table with a warning
+  private resolveScope(scope: QueryScope): void {
+    const [first] = scope.sources;
+    for (const { node, offset } of scope.pending) {
+      if (node.table) continue;
+      node.table = first ?? '';
+      if (scope.sources.length > 1) {
+        this.diagnostics.push(createSqlDiagnostic(
+          this.sql,
+          offset,
+          'ambiguous-column',
+          `Unqualified column "${node.name}" was bound to "${first}"; qualify it with its table`,
+          'warning'
+        ));
+      }
+    }
+    scope.pending = [];
+  }
+
+  private bindParameter(token: SqlToken): LiteralNode['value'] {
+    const text = token.value;
+    const numbered = /^[?$](\d+)$/.exec(text) ?? /^@p(\d+)$/i.exec(text);
+    let key: number | string;
+    if (text === '?') key = this.nextPositional++;
+    else if (numbered) key = Number(numbered[1]) - 1;
+    else key = text.slice(1);
+
+    const params = this.params;
+    let found = false;
+    let value: unknown;
+    if (Array.isArray(params)) {
+      found = typeof key === 'number' && key < params.length;
+      value = found ? params[key as number] : undefined;
+    } else if (params) {
+      const name = typeof key === 'number' ? String(key + 1) : key;
+      found = Object.prototype.hasOwnProperty.call(params, name);
+      value = found ? (params as Record<string, unknown>)[name] : undefined;
+    }
+
+    if (!found) {
+      this.diagnostics.push(createSqlDiagnostic(this.sql, token.start, 'missing-parameter', `No value was given for placeholder ${text}`));
+      return null;
+    }
+    if (typeof value === 'bigint') return value.toString();
+    if (value === undefined || !isLiteralValue(value)) {
+      this.unsupported(`Placeholder ${text} bound to a ${value === undefined ? 'undefined' : typeof value} value`, token);
+      return null;
+    }
+    return value;
+  }
+
+  // Non-negative integer from a number literal or a bound placeholder
+  private parseCount(clause: string): number {
+    const token = this.next();
+    const value = token.kind === 'number'
+      ? Number(token.value)
+      : token.kind === 'parameter'
+        ? this.bindParameter(token)
+        : undefined;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      if (value === null) return 0;
+      return this.fail(`${clause} expects a non-negative integer`, token);
+    }
+    return value;
+  }
+
+  private parseQualifiedName(what: string): string[] {
+    const parts = [this.parseIdentifier(what)];
+    while (this.isPunct('.') && this.peek(1).kind !== 'operator') {
+      this.next();
+      parts.push(this.parseIdentifier(what));
+    }
+    return parts;
+  }
+
+  private parseIdentifier(what: string): string {
+    const token = this.peek();
+    if (token.kind === 'identifier' || token.kind === 'word') {
+      this.next();
+      return this.identifierValue(token);
+    }
+    return this.fail(`Expected ${what} but found "${token.value || 'end of SQL'}"`, token);
+  }
+
+  private parseIdentifierList(): string[] {
+    this.expectPunct('(');
+    const names: string[] = [];
+    do {
+      names.push(this.parseIdentifier('column name'));
+    } while (this.acceptPunct(','));
+    this.expectPunct(')');
+    return names;
+  }
+
+  private identifierValue(token: SqlToken): string {
+    return token.kind === 'identifier' ? token.value : this.foldIdentifier(token.value);
+  }
+
+  private foldIdentifier(name: string): string {
+    const fold = this.rules.foldUnquotedIdentifiers;
+    if (fold === 'lower') return name.toLowerCase();
+    if (fold === 'upper') return name.toUpperCase();
+    return name;
+  }
+
+  // Skips a balanced parenthesised group and returns its end offset
+  private skipParenthesized(): number {
+    this.expectPunct('(');
+    let depth = 1;
+    let end = this.peek().start;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.kind === 'eof') this.fail('Unbalanced parentheses', token);
+      if (token.value === '(' && token.kind === 'punctuation') depth++;
+      if (token.value === ')' && token.kind === 'punctuation') depth--;
+      end = token.end;
+    }
+    return end;
+  }
+
+  private tokenAt(offset: number): SqlToken {
+    return this.tokens.find(token => token.start === offset) ?? this.peek();
+  }
+
+  private peek(offset = 0): SqlToken {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): SqlToken {
+    const token = this.peek();
+    if (token.kind !== 'eof') this.pos++;
+    return token;
+  }
+
+  private isWordAt(offset: number, ...words: string[]): boolean {
+    const token = this.peek(offset);
+    return token.kind === 'word' && words.includes(token.value.toUpperCase());
+  }
+
+  private isWord(...words: string[]): boolean {
+    return this.isWordAt(0, ...words);
+  }
+
+  private isWords(...words: string[]): boolean {
+    return words.every((word, index) => this.isWordAt(index, word));
+  }
+
+  private acceptWord(word: string): boolean {
+    if (!this.isWord(word)) return false;
+    this.next();
+    return true;
+  }
+
+  private acceptWords(...words: string[]): boolean {
+    if (!this.isWords(...words)) return false;
+    this.pos += words.length;
+    return true;
+  }
+
+  private expectWord(word: string): SqlToken {
+    if (!this.isWord(word)) this.fail(`Expected ${word} but found "${this.peek().value || 'end of SQL'}"`);
+    return this.next();
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'punctuation' && token.value === value;
+  }
+
+  private acceptPunct(value: string): boolean {
+    if (!this.isPunct(value)) return false;
+    this.next();
+    return true;
+  }
+
+  private expectPunct(value: string): SqlToken {
+    if (!this.isPunct(value)) this.fail(`Expected "${value}" but found "${this.peek().value || 'end of SQL'}"`);
+    return this.next();
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'operator' && token.value === value;
+  }
+
+  private acceptOp(value: string): boolean {
+    if (!this.isOp(value)) return false;
+    this.next();
+    return true;
+  }
+
+  private unsupported(construct: string, token: SqlToken): void {
+    this.diagnostics.push(createSqlDiagnostic(
+      this.sql,
+      token.start,
+      'unsupported-construct',
+      `Unsupported: ${construct} cannot be represented in the query AST`
+    ));
+  }
+
+  private fail(message: string, token: SqlToken = this.peek(), code: SqlDiagnostic['code'] = 'syntax-error'): never {
+    throw new SqlParseError(sortDiagnostics([...this.diagnostics, createSqlDiagnostic(this.sql, token.start, code, message)]));
+  }
+}
+
+const resolveRules = (dialect: SqlParseOptions['dialect'] = 'postgres'): SqlLexerRules => {
+  if (typeof dialect !== 'string') return dialect;
+  const rules = SQL_LEXER_RULES[dialect];
+  if (!rules) throw new Error(`No SQL parser rules for dialect "${dialect}"`);
+  return rules;
+};
+
+/**
+ * Parses one SELECT, INSERT, UPDATE or DELETE statement into the query AST.
+ * Never throws for bad SQL: syntax errors and constructs the AST cannot represent are returned
+ * as diagnostics, and `ast` is only set when there are no errors.
+ * @param sql - SQL text, optionally ending with a semicolon
+ * @param options - Dialect rules and placeholder values
+ * @returns The statement AST (when valid) and the diagnostics
+ * @example
+ * const { ast, diagnostics } = parseSql('SELECT id FROM users WHERE id = $1', { params: [7] });
+ */
+export const parseSql = (sql: string, options: SqlParseOptions = {}): SqlParseResult => {
+  const rules = resolveRules(options.dialect);
+  try {
+    return new SqlParser(sql, rules, options.params).parse();
+  } catch (error) {
+    if (error instanceof SqlParseError) return { diagnostics: error.diagnostics };
+    throw error;
+  }
+};
+
+/**
+ * Parses a SELECT statement into a SelectQueryNode that query builders accept
+ * (`fromSubquery`, `with`, `union`, `whereExists`, `InsertQueryBuilder.fromSelect`, ...)
+ * @param sql - SELECT statement
+ * @param options - Dialect rules and placeholder values
+ * @returns The SELECT AST
+ * @throws SqlParseError when the SQL has errors or is not a SELECT
+ */
+export const parseSelectSql = (sql: string, options: SqlParseOptions = {}): SelectQueryNode => {
+  const { ast, diagnostics } = parseSql(sql, options);
+  if (!ast) throw new SqlParseError(diagnostics);
+  if (ast.type !== 'SelectQuery') {
+    throw new SqlParseError(`Expected a SELECT statement but found ${ast.type.replace('Query', '').toUpperCase()}`, sql, 0);
+  }
+  return ast;
+};
@@ -11,8 +11,13 @@ export interface ColumnOptions {
   dialectTypes?: ColumnDef['dialectTypes'];
   notNull?: boolean;
   primary?: boolean;
+  version?: boolean;
   tsType?: ColumnDef['tsType'];
   name?: string;
+  /** Previous column name; schema diff renames it instead of dropping and re-adding */
+  renamedFrom?: string;
+  /** Converts values between their runtime form and the form bound to / read from the driver */
+  converter?: ColumnDef['converter'];
 }
 
 /**
@@ -29,6 +34,7 @@ const normalizeColumnInput = (input: ColumnInput): ColumnDefLike => {
     dialectTypes: asOptions.dialectTypes ?? asDefinition.dialectTypes,
     notNull: asOptions.notNull ?? asDefinition.notNull,
     primary: asOptions.primary ?? asDefinition.primary,
+    version: asOptions.version ?? asDefinition.version,
     tsType: asDefinition.tsType ?? asOptions.tsType,
     unique: asDefinition.unique,
     default: asDefinition.default,
@@ -37,7 +43,9 @@ const normalizeColumnInput = (input: ColumnInput): ColumnDefLike => {
     check: asDefinition.check,
     references: asDefinition.references,
     comment: asDefinition.comment,
-    name: asOptions.name ?? asDefinition.name
+    name: asOptions.name ?? asDefinition.name,
+    renamedFrom: asOptions.renamedFrom ?? asDefinition.renamedFrom,
+    converter: asOptions.converter ?? asDefinition.converter
   };
 
   if (!column.type) {
@@ -85,3 +93,16 @@ export function PrimaryKey(definition: ColumnInput) {
   normalized.primary = true;
   return Column(normalized);
 }
+
+/**
+ * Decorator to define the optimistic concurrency version column of an entity.
+ * Defaults to a NOT NULL integer column; timestamp columns are also supported.
+ * @param definition - The column definition or options.
+ * @returns A property decorator that registers the version column metadata.
+ */
+export function Version(definition: ColumnInput = { type: 'INT' }) {
+  const normalized = normalizeColumnInput(definition);
+  normalized.version = true;
+  normalized.notNull = true;
+  return Column(normalized);
+}
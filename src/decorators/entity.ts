@@ -1,4 +1,5 @@
 import { RelationKinds } from '../schema/relation.js';
+import type { GlobalFilter, TableAuditOptions, ViewOptions } from '../schema/table.js';
 import {
   addColumnMetadata,
   addRelationMetadata,
@@ -16,6 +17,18 @@ export interface EntityOptions {
   tableName?: string;
   /** Entity type: 'table' (default) or 'view'. Views are read-only. */
   type?: 'table' | 'view';
+  /** Property holding the tenant id; sessions with a tenantId filter and stamp it automatically. */
+  tenantColumn?: string;
+  /** Timestamp property marking soft-deleted rows; removals become UPDATEs and SELECTs skip them. */
+  softDeleteColumn?: string;
+  /** Named global filters applied to every SELECT unless the query opts out. */
+  filters?: Record<string, GlobalFilter>;
+  /** Previous table name; schema diff renames it instead of dropping and re-creating. */
+  renamedFrom?: string;
+  /** Records every flushed insert, update and delete in a history table. */
+  audit?: boolean | TableAuditOptions;
+  /** Defining query and materialization of a view entity; implies `type: 'view'`. */
+  view?: ViewOptions;
 }
 
 const toSnakeCase = (value: string): string => {
@@ -51,7 +64,23 @@ export function Entity(options: EntityOptions = {}) {
   ): T {
     const ctor = value;
     const tableName = options.tableName ?? deriveTableNameFromConstructor(ctor);
-    setEntityTableName(ctor, tableName, options.type);
+    setEntityTableName(ctor, tableName, options.type ?? (options.view ? 'view' : undefined));
+    if (
+      options.tenantColumn
+      || options.softDeleteColumn
+      || options.filters
+      || options.renamedFrom
+      || options.audit
+      || options.view
+    ) {
+      const meta = ensureEntityMetadata(ctor);
+      meta.tenantColumn = options.tenantColumn;
+      meta.softDeleteColumn = options.softDeleteColumn;
+      meta.filters = options.filters;
+      meta.renamedFrom = options.renamedFrom;
+      meta.audit = options.audit;
+      meta.view = options.view;
+    }
 
     const bag = context ? readMetadataBag(context) : readMetadataBagFromConstructor(ctor);
     if (bag) {
@@ -18,6 +18,7 @@ export type {
   TransformContext, 
   AutoTransformResult, 
   ValidationResult, 
+  PropertyTransformFailure,
   TransformerMetadata, 
   TransformerConfig 
 } from './transformers/transformer-metadata.js';
@@ -9,28 +9,32 @@ import { resolveFieldDecoratorInfo } from './decorator-metadata.js';
 interface BaseRelationOptions {
   target: EntityOrTableTargetResolver;
   cascade?: CascadeMode;
-  localKey?: string;
+  /** Local key column, or columns for a composite key */
+  localKey?: string | string[];
 }
 
 /**
  * Options for HasMany relation.
  */
 export interface HasManyOptions extends BaseRelationOptions {
-  foreignKey?: string;
+  /** Foreign key column, or columns for a composite key */
+  foreignKey?: string | string[];
 }
 
 /**
  * Options for HasOne relation.
  */
 export interface HasOneOptions extends BaseRelationOptions {
-  foreignKey?: string;
+  /** Foreign key column, or columns for a composite key */
+  foreignKey?: string | string[];
 }
 
 /**
  * Options for BelongsTo relation.
  */
 export interface BelongsToOptions extends BaseRelationOptions {
-  foreignKey?: string;
+  /** Foreign key column, or columns for a composite key */
+  foreignKey?: string | string[];
 }
 
 /**
@@ -0,0 +1,88 @@
+import type { AutoTransformableValidator, AutoTransformResult, ValidationResult } from '../transformer-metadata.js';
+
+// Numbers and numeric strings ('12.5') compare as numbers; anything else is NaN
+const toNumber = (value: unknown): number =>
+  typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+
+// RangeValidator (also backs @Min and @Max); out-of-range values fail unless `clamp` is set
+export class RangeValidator implements AutoTransformableValidator<unknown> {
+  readonly name: string;
+  readonly schema: { minimum?: number; maximum?: number };
+
+  constructor(private readonly options: { min?: number; max?: number; clamp?: boolean }) {
+    this.name = options.max === undefined ? 'min' : options.min === undefined ? 'max' : 'range';
+    this.schema = { minimum: options.min, maximum: options.max };
+  }
+
+  validate(value: unknown): ValidationResult {
+    const numeric = this.normalize(value);
+    if (Number.isNaN(numeric)) {
+      return { isValid: false, error: 'Value must be a number' };
+    }
+
+    if (this.options.min !== undefined && numeric < this.options.min) {
+      return { isValid: false, error: `Value must be greater than or equal to ${this.options.min}` };
+    }
+
+    if (this.options.max !== undefined && numeric > this.options.max) {
+      return { isValid: false, error: `Value must be less than or equal to ${this.options.max}` };
+    }
+
+    return { isValid: true };
+  }
+
+  normalize(value: unknown): number {
+    return toNumber(value);
+  }
+
+  format(value: unknown): string {
+    return String(value);
+  }
+
+  autoTransform(value: unknown): AutoTransformResult<unknown> {
+    const numeric = this.normalize(value);
+    if (!this.options.clamp || Number.isNaN(numeric)) {
+      return { success: false };
+    }
+
+    const clamped = Math.min(this.options.max ?? Infinity, Math.max(this.options.min ?? -Infinity, numeric));
+    return {
+      success: true,
+      correctedValue: clamped,
+      message: clamped === numeric ? undefined : `Clamped to ${clamped}`
+    };
+  }
+}
+
+// IsInValidator
+export class IsInValidator implements AutoTransformableValidator<unknown> {
+  readonly name = 'is-in';
+  readonly schema: { enum: readonly unknown[] };
+
+  constructor(private readonly values: readonly unknown[]) {
+    this.schema = { enum: values };
+  }
+
+  validate(value: unknown): ValidationResult {
+    return this.values.includes(value)
+      ? { isValid: true }
+      : { isValid: false, error: `Value must be one of: ${this.values.map(String).join(', ')}` };
+  }
+
+  normalize(value: unknown): unknown {
+    return typeof value === 'string' ? value.trim().toLowerCase() : value;
+  }
+
+  format(value: unknown): string {
+    return String(value);
+  }
+
+  autoTransform(value: unknown): AutoTransformResult<unknown> {
+    // Match ignoring case and surrounding spaces ('  Active' -> 'active')
+    const normalized = this.normalize(value);
+    const match = this.values.find(candidate => this.normalize(candidate) === normalized);
+    return match === undefined
+      ? { success: false }
+      : { success: true, correctedValue: match, message: `Matched allowed value ${String(match)}` };
+  }
+}
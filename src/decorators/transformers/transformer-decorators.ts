@@ -8,6 +8,7 @@ import {
   LengthValidator, 
   PatternValidator 
 } from './built-in/string-transformers.js';
+import { RangeValidator, IsInValidator } from './built-in/value-validators.js';
 
 const registerTransformerMetadata = (
   targetOrValue: unknown,
@@ -132,3 +133,39 @@ export function Pattern(options: { pattern: RegExp; flags?: string; errorMessage
     });
   };
 }
+
+// Min decorator (numbers and numeric strings)
+export function Min(min: number, options: { clamp?: boolean } = {}) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    registerTransformerMetadata(targetOrValue, contextOrProperty, {
+      validators: [new RangeValidator({ min, ...options })]
+    });
+  };
+}
+
+// Max decorator (numbers and numeric strings)
+export function Max(max: number, options: { clamp?: boolean } = {}) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    registerTransformerMetadata(targetOrValue, contextOrProperty, {
+      validators: [new RangeValidator({ max, ...options })]
+    });
+  };
+}
+
+// Range decorator (inclusive bounds; with `clamp`, auto-transform clamps instead of failing)
+export function Range(min: number, max: number, options: { clamp?: boolean } = {}) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    registerTransformerMetadata(targetOrValue, contextOrProperty, {
+      validators: [new RangeValidator({ min, max, ...options })]
+    });
+  };
+}
+
+// IsIn decorator (auto-transform matches ignoring case and spaces)
+export function IsIn(values: readonly unknown[]) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    registerTransformerMetadata(targetOrValue, contextOrProperty, {
+      validators: [new IsInValidator(values)]
+    });
+  };
+}
@@ -6,6 +6,7 @@ import type {
   PropertyTransformer, 
   PropertyValidator, 
   PropertySanitizer, 
+  PropertyTransformFailure,
   TransformerMetadata
 } from './transformer-metadata.js';
 
@@ -22,10 +23,17 @@ export class TransformerExecutor {
 
   /**
    * Applies all transformers to an entity instance
+   * @param context - Pass `originalValues` (keyed by property) to give each property its own `originalValue`
+   * @returns The properties that failed validation and kept their value
    */
-  async applyTransformers(entity: Record<string, unknown>, entityClass: EntityConstructor, context: Partial<TransformContext> = {}): Promise<void> {
+  async applyTransformers(
+    entity: Record<string, unknown>,
+    entityClass: EntityConstructor,
+    context: Partial<TransformContext> & { originalValues?: Record<string, unknown> } = {}
+  ): Promise<PropertyTransformFailure[]> {
+    const failures: PropertyTransformFailure[] = [];
     const meta = getEntityMetadata(entityClass);
-    if (!meta || !meta.transformers) return;
+    if (!meta || !meta.transformers) return failures;
 
     // Get column types from entity metadata
     const columnTypes = this.getColumnTypes(meta);
@@ -50,7 +58,7 @@ export class TransformerExecutor {
         propertyName,
         columnType: columnTypes[propertyName] || 'VARCHAR',
         isUpdate: context.isUpdate || false,
-        originalValue: context.originalValue,
+        originalValue: context.originalValues ? context.originalValues[propertyName] : context.originalValue,
         autoTransform: this.config.auto
       };
 
@@ -61,11 +69,18 @@ export class TransformerExecutor {
         // Apply transformers
         transformedValue = this.applyTransformersToValue(transformedValue, typedMeta.transformers, transformContext);
         
-        // Apply validation
-        this.applyValidators(transformedValue, typedMeta.validators, transformContext);
+        // Apply validation (auto-transform may correct the value)
+        const validated = this.applyValidators(transformedValue, typedMeta.validators, transformContext);
+        if (validated.errors.length > 0) {
+          if (this.config.stopOnFirstError) {
+            throw new Error(validated.errors.join(', '));
+          }
+          failures.push({ propertyName, value: transformedValue, errors: validated.errors });
+          continue;
+        }
         
         // Update the entity with the transformed value
-        entity[propertyName] = transformedValue;
+        entity[propertyName] = validated.value;
       } catch (_error) {
         // Handle errors based on config
         if (this.config.stopOnFirstError) {
@@ -74,6 +89,7 @@ export class TransformerExecutor {
         // Continue with other properties
       }
     }
+    return failures;
   }
 
   private shouldExecute(executionOrder: 'before-save' | 'after-load' | 'both', isUpdate: boolean): boolean {
@@ -121,7 +137,11 @@ export class TransformerExecutor {
     return result;
   }
 
-  private applyValidators(value: unknown, validators: PropertyValidator[], context: TransformContext): void {
+  private applyValidators(
+    value: unknown,
+    validators: PropertyValidator[],
+    context: TransformContext
+  ): { value: unknown; errors: string[] } {
     const errors: string[] = [];
 
     for (const validator of validators) {
@@ -134,7 +154,7 @@ export class TransformerExecutor {
             if (typeof autoResult === 'object' && autoResult !== null && 'success' in autoResult && autoResult.success && 'correctedValue' in autoResult && autoResult.correctedValue !== undefined) {
               // Auto-correct the value
               (context as { correctedValue?: unknown }).correctedValue = autoResult.correctedValue;
-              return; // Value is now valid
+              return { value: autoResult.correctedValue, errors: [] }; // Value is now valid
             }
           }
           errors.push(result.error || `Validation failed for ${validator.name}`);
@@ -157,9 +177,7 @@ export class TransformerExecutor {
       }
     }
 
-    if (errors.length > 0) {
-      throw new Error(errors.join(', '));
-    }
+    return { value, errors };
   }
 }
 
@@ -1,4 +1,4 @@
-import type { ColumnType } from '../../schema/column-types.js';
+import type { ColumnSchemaHints, ColumnType } from '../../schema/column-types.js';
 
 // Transform context provides metadata about the transformation
 export interface TransformContext {
@@ -26,6 +26,8 @@ export interface PropertyTransformer<TInput = unknown, TOutput = unknown> {
 // Validator interface (read-only, throws on failure)
 export interface PropertyValidator<T = unknown> {
   readonly name: string;
+  // Constraints copied to the column's schemaHints (OpenAPI pattern/format/minimum/maximum/enum)
+  readonly schema?: ColumnSchemaHints;
   validate(value: T, context: TransformContext): ValidationResult;
 }
 
@@ -56,6 +58,13 @@ export interface ValidationResult {
   message?: string;
 }
 
+// Property that failed validation, as reported by TransformerExecutor.applyTransformers
+export interface PropertyTransformFailure {
+  propertyName: string;
+  value: unknown;
+  errors: string[];
+}
+
 // Transformer metadata stored during decoration phase
 export interface TransformerMetadata {
   propertyName: string;
@@ -8,6 +8,7 @@ export class CEPValidator implements CountryValidator<string> {
   readonly countryCode = 'BR';
   readonly identifierType = 'cep';
   readonly name = 'br-cep';
+  readonly schema = { pattern: '^\\d{5}-?\\d{3}$' };
   
   validate(value: string, options: ValidationOptions = {}): ValidationResult {
     const normalized = this.normalize(value);
@@ -9,6 +9,7 @@ export class CNPJValidator implements CountryValidator<string> {
   readonly countryCode = 'BR';
   readonly identifierType = 'cnpj';
   readonly name = 'br-cnpj';
+  readonly schema = { pattern: '^\\d{2}\\.?\\d{3}\\.?\\d{3}/?\\d{4}-?\\d{2}$' };
   
   validate(value: string, options: ValidationOptions = {}): ValidationResult {
     const normalized = this.normalize(value);
@@ -9,6 +9,7 @@ export class CPFValidator implements CountryValidator<string> {
   readonly countryCode = 'BR';
   readonly identifierType = 'cpf';
   readonly name = 'br-cpf';
+  readonly schema = { pattern: '^\\d{3}\\.?\\d{3}\\.?\\d{3}-?\\d{2}$' };
   
   validate(value: string, options: ValidationOptions = {}): ValidationResult {
     const normalized = this.normalize(value);
@@ -0,0 +1,68 @@
+import type { CountryValidator, ValidationOptions, ValidationResult, AutoCorrectionResult } from '../country-validators.js';
+import { isValidLuhn } from './checksums.js';
+
+/**
+ * Canadian Social Insurance Number validator
+ * Format: XXX-XXX-XXX (9 digits)
+ * Checksum: Luhn algorithm
+ */
+export class SINValidator implements CountryValidator<string> {
+  readonly countryCode = 'CA';
+  readonly identifierType = 'sin';
+  readonly name = 'ca-sin';
+  readonly schema = { pattern: '^\\d{3}[- ]?\\d{3}[- ]?\\d{3}$' };
+
+  validate(value: string, options: ValidationOptions = {}): ValidationResult {
+    const normalized = this.normalize(value);
+
+    // Validate format
+    if (!/^\d{9}$/.test(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'SIN must contain exactly 9 numeric digits'
+      };
+    }
+
+    // 0 and 8 are not assigned to individuals
+    if ((normalized[0] === '0' || normalized[0] === '8') && options.strict !== false) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'Invalid SIN number'
+      };
+    }
+
+    // Validate checksum
+    if (!isValidLuhn(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'Invalid SIN checksum'
+      };
+    }
+
+    return {
+      isValid: true,
+      normalizedValue: normalized,
+      formattedValue: this.format(value)
+    };
+  }
+
+  normalize(value: string): string {
+    return value.replace(/[^0-9]/g, '');
+  }
+
+  format(value: string): string {
+    const normalized = this.normalize(value);
+    if (normalized.length !== 9) return value;
+    return normalized.replace(/(\d{3})(\d{3})(\d{3})/, '$1-$2-$3');
+  }
+
+  autoCorrect(value: string): AutoCorrectionResult<string> {
+    const normalized = this.normalize(value);
+
+    if (this.validate(normalized).isValid) {
+      return { success: true, correctedValue: this.format(normalized) };
+    }
+
+    return { success: false, message: 'SIN cannot be corrected automatically' };
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Luhn (mod 10) check used by payment cards and Canadian SINs
+ * @param digits - Digits only, check digit last
+ * @returns True when the checksum is valid
+ */
+export const isValidLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+/**
+ * ISO 7064 mod 97-10 check used by IBANs: letters count as 10..35
+ * @param value - Uppercase alphanumeric value, already rearranged
+ * @returns The remainder of the numeric value divided by 97
+ */
+export const mod97 = (value: string): number => {
+  let remainder = 0;
+  for (const char of value) {
+    const code = char >= 'A' && char <= 'Z' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder;
+};
@@ -0,0 +1,63 @@
+import type { CountryValidator, ValidationOptions, ValidationResult, AutoCorrectionResult } from '../country-validators.js';
+import { isValidLuhn } from './checksums.js';
+
+/**
+ * Payment card number validator
+ * Format: 12 to 19 digits, printed in groups of 4 (American Express: 4-6-5)
+ * Checksum: Luhn algorithm
+ */
+export class CreditCardValidator implements CountryValidator<string> {
+  readonly countryCode = 'INTL';
+  readonly identifierType = 'credit-card';
+  readonly name = 'intl-credit-card';
+  readonly schema = { pattern: '^\\d[\\d -]{10,21}\\d$', format: 'credit-card' };
+
+  validate(value: string, options: ValidationOptions = {}): ValidationResult {
+    const normalized = this.normalize(value);
+
+    // Validate format
+    if (!/^\d{12,19}$/.test(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'Card number must contain 12 to 19 numeric digits'
+      };
+    }
+
+    // Validate checksum
+    if (!isValidLuhn(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'Invalid card number checksum'
+      };
+    }
+
+    return {
+      isValid: true,
+      normalizedValue: normalized,
+      formattedValue: this.format(value)
+    };
+  }
+
+  normalize(value: string): string {
+    return value.replace(/[^0-9]/g, '');
+  }
+
+  format(value: string): string {
+    const normalized = this.normalize(value);
+    if (normalized.length < 12 || normalized.length > 19) return value;
+    if (/^3[47]\d{13}$/.test(normalized)) {
+      return normalized.replace(/(\d{4})(\d{6})(\d{5})/, '$1 $2 $3');
+    }
+    return normalized.replace(/(\d{4})(?=\d)/g, '$1 ');
+  }
+
+  autoCorrect(value: string): AutoCorrectionResult<string> {
+    const normalized = this.normalize(value);
+
+    if (this.validate(normalized).isValid) {
+      return { success: true, correctedValue: this.format(normalized) };
+    }
+
+    return { success: false, message: 'Card number cannot be corrected automatically' };
+  }
+}
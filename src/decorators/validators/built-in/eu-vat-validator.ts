@@ -0,0 +1,95 @@
+import type { CountryValidator, ValidationOptions, ValidationResult, AutoCorrectionResult } from '../country-validators.js';
+
+// National number formats, keyed by the VIES country prefix (EL is Greece, XI Northern Ireland)
+const VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-IW]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^[1-9]\d{1,9}$/,
+  SE: /^\d{10}01$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+  XI: /^(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/
+};
+
+/**
+ * EU VAT identification number validator
+ * Format: country prefix followed by the national number (e.g. DE123456789)
+ * Only the per-country format is checked; national checksums are left to VIES
+ */
+export class VATValidator implements CountryValidator<string> {
+  readonly countryCode = 'EU';
+  readonly identifierType = 'vat';
+  readonly name = 'eu-vat';
+  readonly schema = { pattern: '^[A-Za-z]{2}[A-Za-z0-9+*. -]{2,14}$' };
+
+  validate(value: string, options: ValidationOptions = {}): ValidationResult {
+    const normalized = this.normalize(value);
+    const format = VAT_FORMATS[normalized.slice(0, 2)];
+
+    // Validate country prefix
+    if (!format) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'VAT number must start with an EU country prefix'
+      };
+    }
+
+    // Validate national format
+    if (!format.test(normalized.slice(2))) {
+      return {
+        isValid: false,
+        error: options.errorMessage || `Invalid ${normalized.slice(0, 2)} VAT number format`
+      };
+    }
+
+    return {
+      isValid: true,
+      normalizedValue: normalized,
+      formattedValue: this.format(value)
+    };
+  }
+
+  normalize(value: string): string {
+    return value.replace(/[\s.-]/g, '').toUpperCase();
+  }
+
+  format(value: string): string {
+    return this.normalize(value);
+  }
+
+  autoCorrect(value: string): AutoCorrectionResult<string> {
+    const normalized = this.normalize(value);
+
+    if (this.validate(normalized).isValid) {
+      return { success: true, correctedValue: normalized };
+    }
+
+    // Greece uses EL, not its ISO code, as VAT prefix
+    if (normalized.startsWith('GR') && this.validate(`EL${normalized.slice(2)}`).isValid) {
+      return { success: true, correctedValue: `EL${normalized.slice(2)}`, message: 'Replaced GR prefix with EL' };
+    }
+
+    return { success: false, message: 'VAT number cannot be corrected automatically' };
+  }
+}
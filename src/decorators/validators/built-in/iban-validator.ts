@@ -0,0 +1,60 @@
+import type { CountryValidator, ValidationOptions, ValidationResult, AutoCorrectionResult } from '../country-validators.js';
+import { mod97 } from './checksums.js';
+
+/**
+ * International Bank Account Number validator
+ * Format: country code, 2 check digits and up to 30 alphanumerics, printed in groups of 4
+ * Checksum: ISO 7064 mod 97-10
+ */
+export class IBANValidator implements CountryValidator<string> {
+  readonly countryCode = 'INTL';
+  readonly identifierType = 'iban';
+  readonly name = 'intl-iban';
+  readonly schema = { pattern: '^[A-Za-z]{2}\\d{2}[A-Za-z0-9 ]{11,37}$', format: 'iban' };
+
+  validate(value: string, options: ValidationOptions = {}): ValidationResult {
+    const normalized = this.normalize(value);
+
+    // Validate format
+    if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'IBAN must be a country code, 2 check digits and 11 to 30 letters or digits'
+      };
+    }
+
+    // Validate checksum
+    if (mod97(normalized.slice(4) + normalized.slice(0, 4)) !== 1) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'Invalid IBAN checksum'
+      };
+    }
+
+    return {
+      isValid: true,
+      normalizedValue: normalized,
+      formattedValue: this.format(value)
+    };
+  }
+
+  normalize(value: string): string {
+    return value.replace(/^\s*IBAN/i, '').replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+  }
+
+  format(value: string): string {
+    const normalized = this.normalize(value);
+    if (normalized.length < 15) return value;
+    return normalized.replace(/(.{4})(?=.)/g, '$1 ');
+  }
+
+  autoCorrect(value: string): AutoCorrectionResult<string> {
+    const normalized = this.normalize(value);
+
+    if (this.validate(normalized).isValid) {
+      return { success: true, correctedValue: this.format(normalized) };
+    }
+
+    return { success: false, message: 'IBAN cannot be corrected automatically' };
+  }
+}
@@ -0,0 +1,66 @@
+import type { CountryValidator, ValidationOptions, ValidationResult, AutoCorrectionResult } from '../country-validators.js';
+
+/**
+ * International phone number validator
+ * Format: E.164 (+ country calling code and subscriber number, at most 15 digits)
+ */
+export class PhoneValidator implements CountryValidator<string> {
+  readonly countryCode = 'INTL';
+  readonly identifierType = 'phone';
+  readonly name = 'intl-phone';
+  readonly schema = { pattern: '^(\\+|00)?[\\d ().-]{7,20}$' };
+
+  /**
+   * @param defaultCallingCode - Calling code (digits, e.g. '55') added by auto-correction to numbers without one
+   */
+  constructor(private readonly defaultCallingCode?: string) {}
+
+  validate(value: string, options: ValidationOptions = {}): ValidationResult {
+    const normalized = this.normalize(value);
+
+    // Validate format
+    if (!/^\+[1-9]\d{6,14}$/.test(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'Phone number must be in international format (+ and 7 to 15 digits)'
+      };
+    }
+
+    return {
+      isValid: true,
+      normalizedValue: normalized,
+      formattedValue: this.format(value)
+    };
+  }
+
+  normalize(value: string): string {
+    const trimmed = value.trim();
+    const digits = trimmed.replace(/[^0-9]/g, '');
+    if (trimmed.startsWith('+')) return `+${digits}`;
+    if (digits.startsWith('00')) return `+${digits.slice(2)}`;
+    return digits;
+  }
+
+  format(value: string): string {
+    const normalized = this.normalize(value);
+    return normalized.startsWith('+') ? normalized : value;
+  }
+
+  autoCorrect(value: string): AutoCorrectionResult<string> {
+    const normalized = this.normalize(value);
+
+    if (this.validate(normalized).isValid) {
+      return { success: true, correctedValue: normalized };
+    }
+
+    if (this.defaultCallingCode && !normalized.startsWith('+')) {
+      const national = normalized.replace(/^0+/, '');
+      const withCode = `+${this.defaultCallingCode}${national}`;
+      if (this.validate(withCode).isValid) {
+        return { success: true, correctedValue: withCode, message: `Added calling code +${this.defaultCallingCode}` };
+      }
+    }
+
+    return { success: false, message: 'Phone number cannot be corrected automatically' };
+  }
+}
@@ -0,0 +1,77 @@
+import type { CountryValidator, ValidationOptions, ValidationResult, AutoCorrectionResult } from '../country-validators.js';
+
+/**
+ * Portuguese NIF (Número de Identificação Fiscal) validator
+ * Format: XXX XXX XXX (9 digits)
+ * Checksum: Mod 11 algorithm
+ */
+export class NIFValidator implements CountryValidator<string> {
+  readonly countryCode = 'PT';
+  readonly identifierType = 'nif';
+  readonly name = 'pt-nif';
+  readonly schema = { pattern: '^(PT)?\\d{3} ?\\d{3} ?\\d{3}$' };
+
+  validate(value: string, options: ValidationOptions = {}): ValidationResult {
+    const normalized = this.normalize(value);
+
+    // Validate format
+    if (!/^\d{9}$/.test(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'NIF must contain exactly 9 numeric digits'
+      };
+    }
+
+    // The leading digits identify the taxpayer type; 0, 4x (except 45) and 73/76/78 are not assigned
+    if (!/^([1235689]|45|7[0124579])/.test(normalized) && options.strict !== false) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'Invalid NIF number'
+      };
+    }
+
+    // Validate checksum
+    if (!this.validateChecksum(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'Invalid NIF checksum'
+      };
+    }
+
+    return {
+      isValid: true,
+      normalizedValue: normalized,
+      formattedValue: this.format(value)
+    };
+  }
+
+  normalize(value: string): string {
+    return value.replace(/^\s*PT/i, '').replace(/[^0-9]/g, '');
+  }
+
+  format(value: string): string {
+    const normalized = this.normalize(value);
+    if (normalized.length !== 9) return value;
+    return normalized.replace(/(\d{3})(\d{3})(\d{3})/, '$1 $2 $3');
+  }
+
+  autoCorrect(value: string): AutoCorrectionResult<string> {
+    const normalized = this.normalize(value);
+
+    if (this.validate(normalized).isValid) {
+      return { success: true, correctedValue: this.format(normalized) };
+    }
+
+    return { success: false, message: 'NIF cannot be corrected automatically' };
+  }
+
+  private validateChecksum(nif: string): boolean {
+    const digits = nif.split('').map(Number);
+    let sum = 0;
+    for (let i = 0; i < 8; i++) {
+      sum += digits[i] * (9 - i);
+    }
+    const check = 11 - (sum % 11);
+    return (check >= 10 ? 0 : check) === digits[8];
+  }
+}
@@ -0,0 +1,61 @@
+import type { CountryValidator, ValidationOptions, ValidationResult, AutoCorrectionResult } from '../country-validators.js';
+
+// Two prefix letters (D, F, I, Q, U, V never used; O not second), six digits, suffix A-D
+const NINO = /^(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\d{6}[A-D]$/;
+
+/**
+ * UK National Insurance number validator
+ * Format: AB 12 34 56 C
+ */
+export class NINOValidator implements CountryValidator<string> {
+  readonly countryCode = 'GB';
+  readonly identifierType = 'nino';
+  readonly name = 'gb-nino';
+  readonly schema = { pattern: '^[A-Za-z]{2} ?\\d{2} ?\\d{2} ?\\d{2} ?[A-Da-d]$' };
+
+  validate(value: string, options: ValidationOptions = {}): ValidationResult {
+    const normalized = this.normalize(value);
+
+    // Validate format
+    if (!/^[A-Z]{2}\d{6}[A-Z]$/.test(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'National Insurance number must be 2 letters, 6 digits and a letter'
+      };
+    }
+
+    // Check allocated prefixes and suffix
+    if (!NINO.test(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'Invalid National Insurance number'
+      };
+    }
+
+    return {
+      isValid: true,
+      normalizedValue: normalized,
+      formattedValue: this.format(value)
+    };
+  }
+
+  normalize(value: string): string {
+    return value.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+  }
+
+  format(value: string): string {
+    const normalized = this.normalize(value);
+    if (normalized.length !== 9) return value;
+    return normalized.replace(/([A-Z]{2})(\d{2})(\d{2})(\d{2})([A-Z])/, '$1 $2 $3 $4 $5');
+  }
+
+  autoCorrect(value: string): AutoCorrectionResult<string> {
+    const normalized = this.normalize(value);
+
+    if (this.validate(normalized).isValid) {
+      return { success: true, correctedValue: this.format(normalized) };
+    }
+
+    return { success: false, message: 'National Insurance number cannot be corrected automatically' };
+  }
+}
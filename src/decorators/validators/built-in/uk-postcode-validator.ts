@@ -0,0 +1,62 @@
+import type { CountryValidator, ValidationOptions, ValidationResult, AutoCorrectionResult } from '../country-validators.js';
+
+// Outward code (area + district) followed by inward code (sector + unit)
+const POSTCODE = /^([A-Z]{1,2}\d[A-Z\d]?)(\d[A-Z]{2})$/;
+
+/**
+ * UK postcode validator
+ * Format: outward and inward codes separated by a space (e.g. SW1A 1AA)
+ */
+export class PostcodeValidator implements CountryValidator<string> {
+  readonly countryCode = 'GB';
+  readonly identifierType = 'postcode';
+  readonly name = 'gb-postcode';
+  readonly schema = { pattern: '^[A-Za-z]{1,2}\\d[A-Za-z\\d]? ?\\d[A-Za-z]{2}$' };
+
+  validate(value: string, options: ValidationOptions = {}): ValidationResult {
+    const normalized = this.normalize(value);
+
+    // Validate format (GIR 0AA is the only postcode outside the pattern)
+    if (!POSTCODE.test(normalized) && normalized !== 'GIR0AA') {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'Invalid UK postcode'
+      };
+    }
+
+    return {
+      isValid: true,
+      normalizedValue: normalized,
+      formattedValue: this.format(value)
+    };
+  }
+
+  normalize(value: string): string {
+    return value.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+  }
+
+  format(value: string): string {
+    const normalized = this.normalize(value);
+    if (normalized.length < 5 || normalized.length > 7) return value;
+    return `${normalized.slice(0, -3)} ${normalized.slice(-3)}`;
+  }
+
+  autoCorrect(value: string): AutoCorrectionResult<string> {
+    const normalized = this.normalize(value);
+
+    if (this.validate(normalized).isValid) {
+      return { success: true, correctedValue: this.format(normalized) };
+    }
+
+    // Letter O typed instead of zero in the inward code's digit
+    const inward = normalized.slice(-3);
+    if (inward[0] === 'O') {
+      const fixed = `${normalized.slice(0, -3)}0${inward.slice(1)}`;
+      if (this.validate(fixed).isValid) {
+        return { success: true, correctedValue: this.format(fixed), message: 'Replaced letter O with zero' };
+      }
+    }
+
+    return { success: false, message: 'Postcode cannot be corrected automatically' };
+  }
+}
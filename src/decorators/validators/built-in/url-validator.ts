@@ -0,0 +1,77 @@
+import type { CountryValidator, ValidationOptions, ValidationResult, AutoCorrectionResult } from '../country-validators.js';
+
+/**
+ * URL validator
+ * Format: absolute URL with an allowed protocol (http and https by default)
+ */
+export class URLValidator implements CountryValidator<string> {
+  readonly countryCode = 'INTL';
+  readonly identifierType = 'url';
+  readonly name = 'intl-url';
+  readonly schema = { format: 'uri' };
+
+  /**
+   * @param protocols - Accepted protocols, without the trailing colon
+   */
+  constructor(private readonly protocols: readonly string[] = ['http', 'https']) {}
+
+  validate(value: string, options: ValidationOptions = {}): ValidationResult {
+    const url = this.parse(value);
+
+    // Validate format
+    if (!url) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'Value must be an absolute URL'
+      };
+    }
+
+    // Validate protocol
+    if (!this.protocols.includes(url.protocol.slice(0, -1))) {
+      return {
+        isValid: false,
+        error: options.errorMessage || `URL protocol must be one of: ${this.protocols.join(', ')}`
+      };
+    }
+
+    return {
+      isValid: true,
+      normalizedValue: this.normalize(value),
+      formattedValue: this.format(value)
+    };
+  }
+
+  normalize(value: string): string {
+    return value.trim();
+  }
+
+  format(value: string): string {
+    return this.parse(value)?.href ?? value;
+  }
+
+  autoCorrect(value: string): AutoCorrectionResult<string> {
+    const normalized = this.normalize(value);
+
+    if (this.validate(normalized).isValid) {
+      return { success: true, correctedValue: this.format(normalized) };
+    }
+
+    // Bare host names (example.com/path) get the last accepted protocol (https by default)
+    if (!/^[a-z][a-z0-9+.-]*:/i.test(normalized) && /^[^\s/]+\.[^\s/]+/.test(normalized)) {
+      const withProtocol = `${this.protocols[this.protocols.length - 1]}://${normalized}`;
+      if (this.validate(withProtocol).isValid) {
+        return { success: true, correctedValue: this.format(withProtocol), message: 'Added missing protocol' };
+      }
+    }
+
+    return { success: false, message: 'URL cannot be corrected automatically' };
+  }
+
+  private parse(value: string): URL | undefined {
+    try {
+      return new URL(this.normalize(value));
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import type { CountryValidator, ValidationOptions, ValidationResult, AutoCorrectionResult } from '../country-validators.js';
+
+// Campus prefixes the IRS has never assigned
+const UNASSIGNED_PREFIXES = new Set(['00', '07', '08', '09', '17', '18', '19', '28', '29', '49', '69', '70', '78', '79', '89', '96', '97']);
+
+/**
+ * US Employer Identification Number validator
+ * Format: XX-XXXXXXX (9 digits)
+ */
+export class EINValidator implements CountryValidator<string> {
+  readonly countryCode = 'US';
+  readonly identifierType = 'ein';
+  readonly name = 'us-ein';
+  readonly schema = { pattern: '^\\d{2}-?\\d{7}$' };
+
+  validate(value: string, options: ValidationOptions = {}): ValidationResult {
+    const normalized = this.normalize(value);
+
+    // Validate format
+    if (!/^\d{9}$/.test(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'EIN must contain exactly 9 numeric digits'
+      };
+    }
+
+    // Check the campus prefix
+    if (UNASSIGNED_PREFIXES.has(normalized.slice(0, 2)) && options.strict !== false) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'Invalid EIN prefix'
+      };
+    }
+
+    return {
+      isValid: true,
+      normalizedValue: normalized,
+      formattedValue: this.format(value)
+    };
+  }
+
+  normalize(value: string): string {
+    return value.replace(/[^0-9]/g, '');
+  }
+
+  format(value: string): string {
+    const normalized = this.normalize(value);
+    if (normalized.length !== 9) return value;
+    return normalized.replace(/(\d{2})(\d{7})/, '$1-$2');
+  }
+
+  autoCorrect(value: string): AutoCorrectionResult<string> {
+    const normalized = this.normalize(value);
+
+    if (this.validate(normalized).isValid) {
+      return { success: true, correctedValue: this.format(normalized) };
+    }
+
+    return { success: false, message: 'EIN cannot be corrected automatically' };
+  }
+}
@@ -0,0 +1,64 @@
+import type { CountryValidator, ValidationOptions, ValidationResult, AutoCorrectionResult } from '../country-validators.js';
+
+/**
+ * US Social Security Number validator
+ * Format: XXX-XX-XXXX (9 digits)
+ * Area 000, 666 and 900-999, group 00 and serial 0000 are never issued
+ */
+export class SSNValidator implements CountryValidator<string> {
+  readonly countryCode = 'US';
+  readonly identifierType = 'ssn';
+  readonly name = 'us-ssn';
+  readonly schema = { pattern: '^\\d{3}-?\\d{2}-?\\d{4}$' };
+
+  validate(value: string, options: ValidationOptions = {}): ValidationResult {
+    const normalized = this.normalize(value);
+
+    // Validate format
+    if (!/^\d{9}$/.test(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'SSN must contain exactly 9 numeric digits'
+      };
+    }
+
+    // Check for numbers the SSA never issues
+    if (!this.isIssuable(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'Invalid SSN number'
+      };
+    }
+
+    return {
+      isValid: true,
+      normalizedValue: normalized,
+      formattedValue: this.format(value)
+    };
+  }
+
+  normalize(value: string): string {
+    return value.replace(/[^0-9]/g, '');
+  }
+
+  format(value: string): string {
+    const normalized = this.normalize(value);
+    if (normalized.length !== 9) return value;
+    return normalized.replace(/(\d{3})(\d{2})(\d{4})/, '$1-$2-$3');
+  }
+
+  autoCorrect(value: string): AutoCorrectionResult<string> {
+    const normalized = this.normalize(value);
+
+    if (normalized.length === 9 && this.isIssuable(normalized)) {
+      return { success: true, correctedValue: this.format(normalized) };
+    }
+
+    return { success: false, message: 'SSN cannot be corrected automatically' };
+  }
+
+  private isIssuable(ssn: string): boolean {
+    const area = ssn.slice(0, 3);
+    return area !== '000' && area !== '666' && area[0] !== '9' && ssn.slice(3, 5) !== '00' && ssn.slice(5) !== '0000';
+  }
+}
@@ -0,0 +1,60 @@
+import type { CountryValidator, ValidationOptions, ValidationResult, AutoCorrectionResult } from '../country-validators.js';
+
+/**
+ * US ZIP code validator
+ * Format: XXXXX or ZIP+4 XXXXX-XXXX
+ */
+export class ZIPValidator implements CountryValidator<string> {
+  readonly countryCode = 'US';
+  readonly identifierType = 'zip';
+  readonly name = 'us-zip';
+  readonly schema = { pattern: '^\\d{5}(-?\\d{4})?$' };
+
+  validate(value: string, options: ValidationOptions = {}): ValidationResult {
+    const normalized = this.normalize(value);
+
+    // Validate format
+    if (!/^(\d{5}|\d{9})$/.test(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'ZIP code must contain 5 or 9 numeric digits'
+      };
+    }
+
+    return {
+      isValid: true,
+      normalizedValue: normalized,
+      formattedValue: this.format(value)
+    };
+  }
+
+  normalize(value: string): string {
+    return value.replace(/[^0-9]/g, '');
+  }
+
+  format(value: string): string {
+    const normalized = this.normalize(value);
+    if (normalized.length === 5) return normalized;
+    if (normalized.length !== 9) return value;
+    return normalized.replace(/(\d{5})(\d{4})/, '$1-$2');
+  }
+
+  autoCorrect(value: string): AutoCorrectionResult<string> {
+    const normalized = this.normalize(value);
+
+    if (normalized.length === 5 || normalized.length === 9) {
+      return { success: true, correctedValue: this.format(normalized) };
+    }
+
+    // Spreadsheets drop the leading zeros of northeastern ZIP codes
+    if (normalized.length === 3 || normalized.length === 4) {
+      return {
+        success: true,
+        correctedValue: normalized.padStart(5, '0'),
+        message: 'Restored leading zeros'
+      };
+    }
+
+    return { success: false, message: 'ZIP code cannot be corrected automatically' };
+  }
+}
@@ -0,0 +1,58 @@
+import type { CountryValidator, ValidationOptions, ValidationResult, AutoCorrectionResult } from '../country-validators.js';
+
+/**
+ * UUID validator (RFC 9562, versions 1 to 8 and the nil UUID)
+ * Format: xxxxxxxx-xxxx-Mxxx-Nxxx-xxxxxxxxxxxx, lowercase
+ */
+export class UUIDValidator implements CountryValidator<string> {
+  readonly countryCode = 'INTL';
+  readonly identifierType = 'uuid';
+  readonly name = 'intl-uuid';
+  readonly schema = { format: 'uuid' };
+
+  validate(value: string, options: ValidationOptions = {}): ValidationResult {
+    const normalized = this.normalize(value);
+
+    // Validate format
+    if (!/^[0-9a-f]{32}$/.test(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'UUID must contain 32 hexadecimal digits'
+      };
+    }
+
+    // Validate version and variant
+    if (!/^[0-9a-f]{12}[1-8][0-9a-f]{3}[89ab][0-9a-f]{15}$/.test(normalized) && !/^0{32}$/.test(normalized)) {
+      return {
+        isValid: false,
+        error: options.errorMessage || 'Invalid UUID version or variant'
+      };
+    }
+
+    return {
+      isValid: true,
+      normalizedValue: normalized,
+      formattedValue: this.format(value)
+    };
+  }
+
+  normalize(value: string): string {
+    return value.trim().replace(/^urn:uuid:/i, '').replace(/[{}-]/g, '').toLowerCase();
+  }
+
+  format(value: string): string {
+    const normalized = this.normalize(value);
+    if (!/^[0-9a-f]{32}$/.test(normalized)) return value;
+    return normalized.replace(/(.{8})(.{4})(.{4})(.{4})(.{12})/, '$1-$2-$3-$4-$5');
+  }
+
+  autoCorrect(value: string): AutoCorrectionResult<string> {
+    const normalized = this.normalize(value);
+
+    if (this.validate(normalized).isValid) {
+      return { success: true, correctedValue: this.format(normalized) };
+    }
+
+    return { success: false, message: 'UUID cannot be corrected automatically' };
+  }
+}
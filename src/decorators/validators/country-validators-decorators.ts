@@ -1,78 +1,124 @@
 import { resolveFieldDecoratorInfo } from '../decorator-metadata.js';
 import { registerValidator } from './country-validator-registry.js';
+import type { CountryValidator } from './country-validators.js';
 import { CPFValidator } from './built-in/br-cpf-validator.js';
 import { CNPJValidator } from './built-in/br-cnpj-validator.js';
 import { CEPValidator } from './built-in/br-cep-validator.js';
+import { SSNValidator } from './built-in/us-ssn-validator.js';
+import { EINValidator } from './built-in/us-ein-validator.js';
+import { ZIPValidator } from './built-in/us-zip-validator.js';
+import { PostcodeValidator } from './built-in/uk-postcode-validator.js';
+import { NINOValidator } from './built-in/uk-nino-validator.js';
+import { SINValidator } from './built-in/ca-sin-validator.js';
+import { VATValidator } from './built-in/eu-vat-validator.js';
+import { NIFValidator } from './built-in/pt-nif-validator.js';
+import { IBANValidator } from './built-in/iban-validator.js';
+import { CreditCardValidator } from './built-in/credit-card-validator.js';
+import { PhoneValidator } from './built-in/phone-validator.js';
+import { URLValidator } from './built-in/url-validator.js';
+import { UUIDValidator } from './built-in/uuid-validator.js';
 
 // Register built-in validators
 registerValidator('BR', 'cpf', () => new CPFValidator());
 registerValidator('BR', 'cnpj', () => new CNPJValidator());
 registerValidator('BR', 'cep', () => new CEPValidator());
+registerValidator('US', 'ssn', () => new SSNValidator());
+registerValidator('US', 'ein', () => new EINValidator());
+registerValidator('US', 'zip', () => new ZIPValidator());
+registerValidator('GB', 'postcode', () => new PostcodeValidator());
+registerValidator('GB', 'nino', () => new NINOValidator());
+registerValidator('CA', 'sin', () => new SINValidator());
+registerValidator('EU', 'vat', () => new VATValidator());
+registerValidator('PT', 'nif', () => new NIFValidator());
+registerValidator('INTL', 'iban', () => new IBANValidator());
+registerValidator('INTL', 'credit-card', () => new CreditCardValidator());
+registerValidator('INTL', 'phone', options =>
+  new PhoneValidator(options?.customRules?.defaultCallingCode as string | undefined)
+);
+registerValidator('INTL', 'url', options =>
+  new URLValidator(options?.customRules?.protocols as string[] | undefined)
+);
+registerValidator('INTL', 'uuid', () => new UUIDValidator());
 
 const resolveCountryDecoratorInfo = (targetOrValue: unknown, contextOrProperty: unknown) => {
   return resolveFieldDecoratorInfo(targetOrValue, contextOrProperty, 'Country validator');
 };
 
 /**
- * Decorator to validate a Brazilian CPF number
+ * Adds a country validator to a property: the validator (with auto-correction) and a
+ * sanitizer that formats the value
+ * @param targetOrValue - Decorator target
+ * @param contextOrProperty - Decorator context or property key
+ * @param validator - Validator instance
  * @param options - Validation options
- * @returns Property decorator for CPF validation
  */
-export function CPF(options?: { strict?: boolean; errorMessage?: string }) {
-  return function (targetOrValue: unknown, contextOrProperty: unknown) {
-    const { propertyName, bag } = resolveCountryDecoratorInfo(targetOrValue, contextOrProperty);
-    
-    // Find or create transformer metadata for this property
-    let existing = bag.transformers.find(t => t.propertyName === propertyName);
-    if (!existing) {
-      existing = {
+const applyCountryValidator = (
+  targetOrValue: unknown,
+  contextOrProperty: unknown,
+  validator: CountryValidator<string>,
+  options?: { strict?: boolean; errorMessage?: string }
+): void => {
+  const { propertyName, bag } = resolveCountryDecoratorInfo(targetOrValue, contextOrProperty);
+
+  // Find or create transformer metadata for this property
+  let existing = bag.transformers.find(t => t.propertyName === propertyName);
+  if (!existing) {
+    existing = {
+      propertyName,
+      metadata: {
         propertyName,
-        metadata: {
-          propertyName,
-          transformers: [],
-          validators: [],
-          sanitizers: [],
-          executionOrder: 'both'
-        }
+        transformers: [],
+        validators: [],
+        sanitizers: [],
+        executionOrder: 'both'
+      }
+    };
+    bag.transformers.push(existing);
+  }
+
+  // Add validator to metadata
+  existing.metadata.validators.push({
+    name: validator.name,
+    schema: validator.schema,
+    validate: (value: string) => {
+      const result = validator.validate(value, {
+        strict: options?.strict ?? true,
+        errorMessage: options?.errorMessage
+      });
+      return {
+        isValid: result.isValid,
+        error: result.error,
+        message: result.error
       };
-      bag.transformers.push(existing);
-    }
-    
-    // Create validator instance
-    const validator = new CPFValidator();
-    
-    // Add validator to metadata
-    existing.metadata.validators.push({
-      name: validator.name,
-      validate: (value: string) => {
-        const result = validator.validate(value, {
-          strict: options?.strict ?? true,
-          errorMessage: options?.errorMessage
-        });
+    },
+    autoTransform: (value: string) => {
+      const correction = validator.autoCorrect?.(value);
+      if (correction?.success) {
         return {
-          isValid: result.isValid,
-          error: result.error,
-          message: result.error
+          success: true,
+          correctedValue: correction.correctedValue,
+          message: correction.message
         };
-      },
-      autoTransform: (value: string) => {
-        const correction = validator.autoCorrect(value);
-        if (correction?.success) {
-          return {
-            success: true,
-            correctedValue: correction.correctedValue,
-            message: correction.message
-          };
-        }
-        return { success: false };
       }
-    } as unknown as never);
-    
-    // Add sanitizer to normalize and format
-    existing.metadata.sanitizers.push({
-      name: 'cpf-formatter',
-      sanitize: (value: string) => validator.format(value)
-    });
+      return { success: false };
+    }
+  } as unknown as never);
+
+  // Add sanitizer to normalize and format
+  existing.metadata.sanitizers.push({
+    name: `${validator.identifierType}-formatter`,
+    sanitize: (value: string) => validator.format(value)
+  });
+};
+
+/**
+ * Decorator to validate a Brazilian CPF number
+ * @param options - Validation options
+ * @returns Property decorator for CPF validation
+ */
+export function CPF(options?: { strict?: boolean; errorMessage?: string }) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    applyCountryValidator(targetOrValue, contextOrProperty, new CPFValidator(), options);
   };
 }
 
@@ -83,59 +129,7 @@ export function CPF(options?: { strict?: boolean; errorMessage?: string }) {
  */
 export function CNPJ(options?: { strict?: boolean; errorMessage?: string }) {
   return function (targetOrValue: unknown, contextOrProperty: unknown) {
-    const { propertyName, bag } = resolveCountryDecoratorInfo(targetOrValue, contextOrProperty);
-    
-    // Find or create transformer metadata for this property
-    let existing = bag.transformers.find(t => t.propertyName === propertyName);
-    if (!existing) {
-      existing = {
-        propertyName,
-        metadata: {
-          propertyName,
-          transformers: [],
-          validators: [],
-          sanitizers: [],
-          executionOrder: 'both'
-        }
-      };
-      bag.transformers.push(existing);
-    }
-    
-    // Create validator instance
-    const validator = new CNPJValidator();
-    
-    // Add validator to metadata
-    existing.metadata.validators.push({
-      name: validator.name,
-      validate: (value: string) => {
-        const result = validator.validate(value, {
-          strict: options?.strict ?? true,
-          errorMessage: options?.errorMessage
-        });
-        return {
-          isValid: result.isValid,
-          error: result.error,
-          message: result.error
-        };
-      },
-      autoTransform: (value: string) => {
-        const correction = validator.autoCorrect(value);
-        if (correction?.success) {
-          return {
-            success: true,
-            correctedValue: correction.correctedValue,
-            message: correction.message
-          };
-        }
-        return { success: false };
-      }
-    } as unknown as never);
-    
-    // Add sanitizer to normalize and format
-    existing.metadata.sanitizers.push({
-      name: 'cnpj-formatter',
-      sanitize: (value: string) => validator.format(value)
-    });
+    applyCountryValidator(targetOrValue, contextOrProperty, new CNPJValidator(), options);
   };
 }
 
@@ -146,58 +140,149 @@ export function CNPJ(options?: { strict?: boolean; errorMessage?: string }) {
  */
 export function CEP(options?: { strict?: boolean; errorMessage?: string }) {
   return function (targetOrValue: unknown, contextOrProperty: unknown) {
-    const { propertyName, bag } = resolveCountryDecoratorInfo(targetOrValue, contextOrProperty);
-    
-    // Find or create transformer metadata for this property
-    let existing = bag.transformers.find(t => t.propertyName === propertyName);
-    if (!existing) {
-      existing = {
-        propertyName,
-        metadata: {
-          propertyName,
-          transformers: [],
-          validators: [],
-          sanitizers: [],
-          executionOrder: 'both'
-        }
-      };
-      bag.transformers.push(existing);
-    }
-    
-    // Create validator instance
-    const validator = new CEPValidator();
-    
-    // Add validator to metadata
-    existing.metadata.validators.push({
-      name: validator.name,
-      validate: (value: string) => {
-        const result = validator.validate(value, {
-          strict: options?.strict ?? true,
-          errorMessage: options?.errorMessage
-        });
-        return {
-          isValid: result.isValid,
-          error: result.error,
-          message: result.error
-        };
-      },
-      autoTransform: (value: string) => {
-        const correction = validator.autoCorrect(value);
-        if (correction?.success) {
-          return {
-            success: true,
-            correctedValue: correction.correctedValue,
-            message: correction.message
-          };
-        }
-        return { success: false };
-      }
-    } as unknown as never);
-    
-    // Add sanitizer to normalize and format
-    existing.metadata.sanitizers.push({
-      name: 'cep-formatter',
-      sanitize: (value: string) => validator.format(value)
-    });
+    applyCountryValidator(targetOrValue, contextOrProperty, new CEPValidator(), options);
+  };
+}
+
+/**
+ * Decorator to validate a US Social Security Number
+ * @param options - Validation options
+ * @returns Property decorator for SSN validation
+ */
+export function SSN(options?: { strict?: boolean; errorMessage?: string }) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    applyCountryValidator(targetOrValue, contextOrProperty, new SSNValidator(), options);
+  };
+}
+
+/**
+ * Decorator to validate a US Employer Identification Number
+ * @param options - Validation options
+ * @returns Property decorator for EIN validation
+ */
+export function EIN(options?: { strict?: boolean; errorMessage?: string }) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    applyCountryValidator(targetOrValue, contextOrProperty, new EINValidator(), options);
+  };
+}
+
+/**
+ * Decorator to validate a US ZIP code (5 digits or ZIP+4)
+ * @param options - Validation options
+ * @returns Property decorator for ZIP code validation
+ */
+export function ZIP(options?: { errorMessage?: string }) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    applyCountryValidator(targetOrValue, contextOrProperty, new ZIPValidator(), options);
+  };
+}
+
+/**
+ * Decorator to validate a UK postcode
+ * @param options - Validation options
+ * @returns Property decorator for postcode validation
+ */
+export function UKPostcode(options?: { errorMessage?: string }) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    applyCountryValidator(targetOrValue, contextOrProperty, new PostcodeValidator(), options);
+  };
+}
+
+/**
+ * Decorator to validate a UK National Insurance number
+ * @param options - Validation options
+ * @returns Property decorator for NINO validation
+ */
+export function NINO(options?: { errorMessage?: string }) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    applyCountryValidator(targetOrValue, contextOrProperty, new NINOValidator(), options);
+  };
+}
+
+/**
+ * Decorator to validate a Canadian Social Insurance Number
+ * @param options - Validation options
+ * @returns Property decorator for SIN validation
+ */
+export function SIN(options?: { strict?: boolean; errorMessage?: string }) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    applyCountryValidator(targetOrValue, contextOrProperty, new SINValidator(), options);
+  };
+}
+
+/**
+ * Decorator to validate an EU VAT identification number (per-country format)
+ * @param options - Validation options
+ * @returns Property decorator for VAT number validation
+ */
+export function VAT(options?: { errorMessage?: string }) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    applyCountryValidator(targetOrValue, contextOrProperty, new VATValidator(), options);
+  };
+}
+
+/**
+ * Decorator to validate a Portuguese NIF
+ * @param options - Validation options
+ * @returns Property decorator for NIF validation
+ */
+export function NIF(options?: { strict?: boolean; errorMessage?: string }) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    applyCountryValidator(targetOrValue, contextOrProperty, new NIFValidator(), options);
+  };
+}
+
+/**
+ * Decorator to validate an IBAN
+ * @param options - Validation options
+ * @returns Property decorator for IBAN validation
+ */
+export function Iban(options?: { errorMessage?: string }) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    applyCountryValidator(targetOrValue, contextOrProperty, new IBANValidator(), options);
+  };
+}
+
+/**
+ * Decorator to validate a payment card number
+ * @param options - Validation options
+ * @returns Property decorator for card number validation
+ */
+export function CreditCard(options?: { errorMessage?: string }) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    applyCountryValidator(targetOrValue, contextOrProperty, new CreditCardValidator(), options);
+  };
+}
+
+/**
+ * Decorator to validate a phone number in E.164 format
+ * @param options - Validation options; `defaultCallingCode` (e.g. '55') lets auto-correction complete national numbers
+ * @returns Property decorator for phone number validation
+ */
+export function Phone(options?: { defaultCallingCode?: string; errorMessage?: string }) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    applyCountryValidator(targetOrValue, contextOrProperty, new PhoneValidator(options?.defaultCallingCode), options);
+  };
+}
+
+/**
+ * Decorator to validate an absolute URL
+ * @param options - Validation options; `protocols` defaults to http and https
+ * @returns Property decorator for URL validation
+ */
+export function Url(options?: { protocols?: string[]; errorMessage?: string }) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    applyCountryValidator(targetOrValue, contextOrProperty, new URLValidator(options?.protocols), options);
+  };
+}
+
+/**
+ * Decorator to validate a UUID
+ * @param options - Validation options
+ * @returns Property decorator for UUID validation
+ */
+export function Uuid(options?: { errorMessage?: string }) {
+  return function (targetOrValue: unknown, contextOrProperty: unknown) {
+    applyCountryValidator(targetOrValue, contextOrProperty, new UUIDValidator(), options);
   };
 }
@@ -1,8 +1,10 @@
+import type { ColumnSchemaHints } from '../../schema/column-types.js';
+
 /**
  * Base interface for country-specific identifier validators
  */
 export interface CountryValidator<T = string> {
-  /** ISO 3166-1 alpha-2 country code (e.g., 'BR', 'US') */
+  /** ISO 3166-1 alpha-2 country code (e.g., 'BR', 'US'), 'EU' for EU-wide or 'INTL' for international identifiers */
   readonly countryCode: string;
   
   /** Identifier type (e.g., 'cpf', 'cnpj', 'ssn', 'zip') */
@@ -10,6 +12,9 @@ export interface CountryValidator<T = string> {
   
   /** Unique validator name (e.g., 'br-cpf', 'us-ssn') */
   readonly name: string;
+
+  /** OpenAPI hints for the accepted input (formatted or normalized) */
+  readonly schema?: ColumnSchemaHints;
   
   /**
    * Validates an identifier value
@@ -27,6 +27,7 @@ import {
 import { findPrimaryKey } from '../query-builder/hydration-planner.js';
 import { RelationKinds, type RelationDef, type BelongsToManyRelation, isSingleTargetRelation } from '../schema/relation.js';
 import type { SelectQueryNode, TableSourceNode } from '../core/ast/query.js';
+import { createTableNode } from '../core/ast/builders.js';
 import type { JoinNode } from '../core/ast/join.js';
 import { createJoinNode } from '../core/ast/join-node.js';
 import { JOIN_KINDS } from '../core/sql/sql.js';
@@ -334,16 +335,12 @@ const buildRelationSubqueryBase = (
     const targetKey = many.targetKey || findPrimaryKey(target);
     const pivot = many.pivotTable;
 
-    const from: TableSourceNode = {
-      type: 'Table',
-      name: pivot.name,
-      schema: pivot.schema
-    };
+    const from: TableSourceNode = createTableNode(pivot);
 
     const joins: JoinNode[] = [
       createJoinNode(
         JOIN_KINDS.INNER,
-        { type: 'Table', name: target.name, schema: target.schema },
+        createTableNode(target),
         eq(
           { type: 'Column', table: target.name, name: targetKey },
           { type: 'Column', table: pivot.name, name: many.pivotForeignKeyToTarget }
@@ -372,11 +369,7 @@ const buildRelationSubqueryBase = (
     };
   }
 
-  const from: TableSourceNode = {
-    type: 'Table',
-    name: target.name,
-    schema: target.schema
-  };
+  const from: TableSourceNode = createTableNode(target);
 
   const correlation = buildRelationCorrelation(table, relation);
   let groupByColumnName: string;
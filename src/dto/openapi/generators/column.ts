@@ -23,6 +23,15 @@ export function columnToOpenApiSchema(
     result.enum = col.args as string[];
   }
 
+  const hints = col.schemaHints;
+  if (hints) {
+    if (hints.pattern !== undefined) result.pattern = hints.pattern;
+    if (hints.format !== undefined) result.format = hints.format;
+    if (hints.minimum !== undefined) result.minimum = hints.minimum;
+    if (hints.maximum !== undefined) result.maximum = hints.maximum;
+    if (hints.enum !== undefined) result.enum = [...hints.enum];
+  }
+
   const args = col.args;
   if (args && args.length > 0) {
     if (col.type.toUpperCase() === 'VARCHAR' || col.type.toUpperCase() === 'CHAR') {
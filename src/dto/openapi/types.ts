@@ -14,6 +14,7 @@ export interface OpenApiSchema {
   required?: string[];
   enum?: unknown[];
   format?: string;
+  pattern?: string;
   description?: string;
   example?: unknown;
   nullable?: boolean;
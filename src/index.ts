@@ -3,7 +3,9 @@
  * Provides schema definition, query building, and ORM capabilities.
  */
 export * from './schema/table.js';
+export * from './schema/history-table.js';
 export * from './schema/column-types.js';
+export * from './schema/value-converter.js';
 export * from './schema/relation.js';
 export * from './schema/types.js';
 export * from './query-builder/select.js';
@@ -11,6 +13,7 @@ export * from './query-builder/select-helpers.js';
 export * from './query-builder/insert.js';
 export * from './query-builder/update.js';
 export * from './query-builder/delete.js';
+export * from './query-builder/merge.js';
 export * from './query-builder/procedure-call.js';
 export * from './query/index.js';
 export * from './core/ast/expression.js';
@@ -20,11 +23,14 @@ export * from './core/hydration/types.js';
 export * from './core/dialect/abstract.js';
 export * from './core/dialect/dialect-factory.js';
 export * from './core/dialect/capabilities/procedure-compiler.js';
+export * from './core/dialect/capabilities/merge-compiler.js';
 export * from './core/dialect/base/sql-dialect-composer.js';
 export * from './core/dialect/base/sql-compiler-set.js';
 export * from './core/dialect/base/upsert-strategy.js';
 export * from './core/dialect/base/returning-strategy.js';
 export * from './core/dialect/base/pagination-strategy.js';
+export * from './core/dialect/base/lock-strategy.js';
+export * from './core/dialect/base/grouping-strategy.js';
 export * from './core/dialect/base/standard-sql-services.js';
 export * from './core/dialect/base/standard-sql-source-compiler.js';
 export * from './core/dialect/base/standard-select-compiler.js';
@@ -54,6 +60,8 @@ export * from './core/dialect/postgres/procedure-compiler.js';
 export * from './core/ddl/schema-generator.js';
 export * from './core/ddl/schema-types.js';
 export * from './core/ddl/schema-diff.js';
+export * from './core/ddl/migrations/index.js';
+export * from './core/sql/parser/index.js';
 export * from './core/ddl/schema-introspect.js';
 export * from './core/ddl/schema-dialect-composer.js';
 export * from './core/ddl/dialects/index.js';
@@ -65,7 +73,17 @@ export type {
   DropTableCapability,
   DropColumnCapability,
   DropIndexCapability,
-  AlterColumnCapability
+  AlterColumnCapability,
+  RenameTableCapability,
+  RenameColumnCapability,
+  AddForeignKeyCapability,
+  DropForeignKeyCapability,
+  AddCheckCapability,
+  DropCheckCapability,
+  AlterCommentCapability,
+  CreateViewCapability,
+  DropViewCapability,
+  RefreshMaterializedViewCapability
 } from './core/ddl/schema-dialect.js';
 export * from './core/ddl/introspect/registry.js';
 export * from './core/functions/text.js';
@@ -78,8 +96,11 @@ export * from './core/functions/vector.js';
 export * from './orm/als.js';
 export * from './orm/hydration.js';
 export * from './codegen/typescript.js';
+export * from './codegen/sql-to-typescript.js';
 export * from './orm/orm-session.js';
 export * from './orm/orm.js';
+export * from './orm/optimistic-lock-error.js';
+export * from './orm/tenant-scope.js';
 export * from './orm/lifecycle.js';
 export * from './orm/column-introspection.js';
 export * from './orm/entity.js';
@@ -93,12 +114,18 @@ export * from './orm/relations/morph-to.js';
 export * from './orm/execute.js';
 export * from './orm/execute-procedure.js';
 export type { EntityContext } from './orm/entity-context.js';
-export type { PrimaryKey as EntityPrimaryKey } from './orm/entity-context.js';
+export type { PrimaryKey as EntityPrimaryKey, CompositePrimaryKey } from './orm/entity-context.js';
 export * from './orm/execution-context.js';
 export * from './orm/hydration-context.js';
 export * from './orm/domain-event-bus.js';
+export * from './orm/outbox.js';
+export * from './orm/outbox-relay.js';
+export * from './orm/audit.js';
+export * from './orm/flush-plan.js';
+export * from './orm/entity-validation.js';
 export * from './orm/runtime-types.js';
 export * from './orm/query-logger.js';
+export * from './orm/instrumented-executor.js';
 export * from './orm/interceptor-pipeline.js';
 export * from './orm/jsonify.js';
 export * from './orm/save-graph-types.js';
@@ -106,8 +133,12 @@ export * from './decorators/index.js';
 
 // Execution abstraction + helpers
 export * from './core/execution/db-executor.js';
+export * from './core/execution/transaction-options.js';
 export * from './core/execution/pooling/pool-types.js';
 export * from './core/execution/pooling/pool.js';
+export * from './core/execution/instrumentation/instrumentation.js';
+export * from './core/execution/instrumentation/otel-instrumentation.js';
+export * from './core/execution/instrumentation/in-memory-instrumentation.js';
 export * from './core/execution/executors/postgres-executor.js';
 export * from './core/execution/executors/mysql-executor.js';
 export * from './core/execution/executors/sqlite-executor.js';
@@ -115,6 +146,7 @@ export * from './core/execution/executors/better-sqlite3-executor.js';
 export * from './core/execution/executors/mssql-executor.js';
 
 export * from './orm/pooled-executor-factory.js';
+export * from './orm/replica-executor-factory.js';
 export * from './dto/index.js';
 export * from './tree/index.js';
 export * from './cache/index.js';
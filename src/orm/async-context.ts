@@ -0,0 +1,51 @@
+/**
+ * Value bound to an async call chain, with the subset of the AsyncLocalStorage API the ORM uses.
+ */
+export interface AsyncContext<T> {
+  run<R>(store: T, callback: () => R): R;
+  getStore(): T | undefined;
+}
+
+/**
+ * Fallback for runtimes without `node:async_hooks`: the value is visible to every caller
+ * until the callback (and the promise it returns) settles.
+ */
+class PendingCallContext<T> implements AsyncContext<T> {
+  private readonly stores: T[] = [];
+
+  run<R>(store: T, callback: () => R): R {
+    this.stores.push(store);
+    let result: R;
+    try {
+      result = callback();
+    } catch (error) {
+      this.release(store);
+      throw error;
+    }
+    if (result instanceof Promise) {
+      return result.finally(() => this.release(store)) as R;
+    }
+    this.release(store);
+    return result;
+  }
+
+  getStore(): T | undefined {
+    return this.stores[this.stores.length - 1];
+  }
+
+  private release(store: T): void {
+    this.stores.splice(this.stores.lastIndexOf(store), 1);
+  }
+}
+
+/**
+ * Creates an async context backed by Node's AsyncLocalStorage when the runtime provides it.
+ * @returns A context whose value only reaches code running inside `run()`
+ */
+export const createAsyncContext = <T>(): AsyncContext<T> => {
+  const runtime = globalThis as { process?: { getBuiltinModule?: (id: string) => object | undefined } };
+  const hooks = runtime.process?.getBuiltinModule?.('node:async_hooks') as
+    | { AsyncLocalStorage: new () => AsyncContext<T> }
+    | undefined;
+  return hooks ? new hooks.AsyncLocalStorage() : new PendingCallContext<T>();
+};
@@ -0,0 +1,151 @@
+import type { Dialect } from '../core/dialect/abstract.js';
+import { InsertQueryBuilder } from '../query-builder/insert.js';
+import type { TableDef } from '../schema/table.js';
+import { getHistoryTable } from '../schema/history-table.js';
+import type { PrimaryKey } from './entity-context.js';
+import type { StatementRunner } from './interceptor-pipeline.js';
+import { formatPrimaryKey } from './primary-key.js';
+import { getTenantColumn } from './tenant-scope.js';
+
+/** Who performed a change, as recorded in history rows. */
+export type AuditActor = string | number;
+
+/** Kind of write recorded in a history row. Soft deletes are recorded as 'delete'. */
+export type HistoryOperation = 'insert' | 'update' | 'delete';
+
+/** Old and new value of a changed column. */
+export interface ColumnChange {
+  old: unknown;
+  new: unknown;
+}
+
+/** One history row, decoded. */
+export interface HistoryEntry {
+  id: number;
+  operation: HistoryOperation;
+  /** Primary key of the audited row (JSON for composite keys) */
+  entityId: string;
+  /** Changed columns; values are JSON-decoded (dates come back as ISO strings) */
+  changes: Record<string, ColumnChange>;
+  /** Row after the write; null after a hard delete */
+  state: Record<string, unknown> | null;
+  actor: string | null;
+  tenantId: string | null;
+  transactionId: string | null;
+  changedAt: Date;
+}
+
+/** Session facts stamped on history rows. */
+export interface AuditScope {
+  actor?: AuditActor;
+  tenantId?: string | number;
+  transactionId?: string;
+}
+
+/** A flushed write of an audited table, described by the row snapshots around it. */
+export interface HistoryWrite {
+  table: TableDef;
+  pk: PrimaryKey;
+  operation: HistoryOperation;
+  /** Row before the write (null for inserts) */
+  before: Record<string, unknown> | null;
+  /** Row after the write (null for hard deletes) */
+  after: Record<string, unknown> | null;
+}
+
+/** Records a flushed write of an audited table. */
+export type HistoryRecorder = (write: HistoryWrite) => Promise<void>;
+
+const toJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, item: unknown) => typeof item === 'bigint' ? item.toString() : item);
+
+const toNullableString = (value: unknown): string | null =>
+  value === undefined || value === null ? null : String(value);
+
+const sameValue = (left: unknown, right: unknown): boolean => {
+  if (left === right) return true;
+  if (left instanceof Date && right instanceof Date) return left.getTime() === right.getTime();
+  if (typeof left !== 'object' || typeof right !== 'object' || left === null || right === null) return false;
+  return toJson(left) === toJson(right);
+};
+
+/**
+ * Lists the columns whose values differ between two row snapshots.
+ * Missing snapshots and undefined values count as null; dates and JSON values are compared by value.
+ * @param before - Row before the write
+ * @param after - Row after the write
+ * @returns Changed columns with old and new values
+ */
+export const diffSnapshots = (
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): Record<string, ColumnChange> => {
+  const changes: Record<string, ColumnChange> = {};
+  const columns = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const column of columns) {
+    const oldValue = before?.[column] ?? null;
+    const newValue = after?.[column] ?? null;
+    if (!sameValue(oldValue, newValue)) {
+      changes[column] = { old: oldValue, new: newValue };
+    }
+  }
+  return changes;
+};
+
+/**
+ * Creates the recorder the Unit of Work calls after each write of an audited table.
+ * History rows are inserted through `run`, i.e. in the same transaction as the write.
+ * @param dialect - Dialect used to compile the history INSERTs
+ * @param run - Statement runner (the session's interceptor pipeline)
+ * @param scope - Actor, tenant and transaction id of the current write
+ * @returns History recorder
+ */
+export const createHistoryRecorder = (
+  dialect: Dialect,
+  run: StatementRunner,
+  scope: () => AuditScope
+): HistoryRecorder => async write => {
+  const history = getHistoryTable(write.table);
+  const { actor, tenantId, transactionId } = scope();
+  const tenantColumn = getTenantColumn(write.table);
+  const row = write.after ?? write.before;
+  const builder = new InsertQueryBuilder(history).values({
+    entity_id: formatPrimaryKey(write.pk),
+    operation: write.operation,
+    changes: toJson(diffSnapshots(write.before, write.after)),
+    state: write.after ? toJson(write.after) : null,
+    actor: toNullableString(actor),
+    tenant_id: toNullableString(tenantId ?? (tenantColumn ? row?.[tenantColumn.name] : undefined)),
+    transaction_id: transactionId ?? null,
+    changed_at: Date.now()
+  });
+  const compiled = builder.compile(dialect);
+  await run({ sql: compiled.sql, params: compiled.params, ast: compiled.ast ?? builder.getAST() });
+};
+
+const parseJson = <T>(value: unknown): T | null =>
+  typeof value === 'string' ? JSON.parse(value) as T : null;
+
+/**
+ * Decodes a history table row.
+ * @param row - Row as returned by the driver
+ * @returns History entry
+ */
+export const toHistoryEntry = (row: Record<string, unknown>): HistoryEntry => ({
+  id: Number(row.history_id),
+  operation: row.operation as HistoryOperation,
+  entityId: String(row.entity_id),
+  changes: parseJson<Record<string, ColumnChange>>(row.changes) ?? {},
+  state: parseJson<Record<string, unknown>>(row.state),
+  actor: toNullableString(row.actor),
+  tenantId: toNullableString(row.tenant_id),
+  transactionId: toNullableString(row.transaction_id),
+  changedAt: new Date(Number(row.changed_at))
+});
+
+/**
+ * Creates an id shared by the history rows of one transaction.
+ * @returns Random identifier
+ */
+export const createAuditTransactionId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
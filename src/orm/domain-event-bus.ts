@@ -89,17 +89,26 @@ export class DomainEventBus<E extends DomainEvent, Context> {
       if (!entity.domainEvents?.length) continue;
 
       for (const event of entity.domainEvents) {
-        const handlers = this.handlers.get(event.type as E['type']);
-        if (!handlers?.length) continue;
-
-        for (const handler of handlers) {
-          await handler(event, ctx);
-        }
+        await this.publish(event, ctx);
       }
 
       entity.domainEvents = [];
     }
   }
+
+  /**
+   * Runs the handlers registered for a single event.
+   * @param event - The domain event
+   * @param ctx - The context to pass to handlers
+   */
+  async publish(event: E, ctx: Context): Promise<void> {
+    const handlers = this.handlers.get(event.type as E['type']);
+    if (!handlers?.length) return;
+
+    for (const handler of handlers) {
+      await handler(event, ctx);
+    }
+  }
 }
 
 /**
@@ -1,10 +1,16 @@
 import { Dialect } from '../core/dialect/abstract.js';
-import type { DbExecutor } from '../core/execution/db-executor.js';
+import type { DbExecutor, ExecutionPayload } from '../core/execution/db-executor.js';
 import { TableDef } from '../schema/table.js';
 import { RelationDef } from '../schema/relation.js';
 import { RelationChange, RelationKey, TrackedEntity } from './runtime-types.js';
+import type { QueryRequest } from './interceptor-pipeline.js';
 
-export type PrimaryKey = string | number;
+/**
+ * Primary key values of a composite key, keyed by column name.
+ */
+export type CompositePrimaryKey = Record<string, unknown>;
+
+export type PrimaryKey = string | number | CompositePrimaryKey;
 
 /**
  * Interface for entity context providing entity tracking and management.
@@ -15,6 +21,14 @@ export interface EntityContext {
     /** The database executor */
     executor: DbExecutor;
 
+    /**
+     * Runs a statement through the ORM interceptor pipeline.
+     * Contexts without it execute relation loads directly on `executor`.
+     * @param request - Statement and its metadata
+     * @returns Execution payload
+     */
+    executeQuery?(request: QueryRequest): Promise<ExecutionPayload>;
+
     /**
      * Gets an entity by table and primary key.
      * @param table - The table definition
@@ -1,6 +1,7 @@
 import { TableDef } from '../schema/table.js';
 import { RelationKinds, MorphToRelation } from '../schema/relation.js';
 import { findPrimaryKey } from '../query-builder/hydration-planner.js';
+import { buildKeyString, resolveRelationKeys } from '../query-builder/relation-keys.js';
 import { EntityMeta } from './entity-meta.js';
 
 /**
@@ -31,12 +32,11 @@ export const populateHydrationCache = <TTable extends TableDef>(
     const relation = meta.table.relations[relationName];
     const data = row[relationName];
     if (relation.type === RelationKinds.HasOne) {
-      const localKey = relation.localKey || findPrimaryKey(meta.table);
-      const rootValue = entity[localKey];
-      if (rootValue === undefined || rootValue === null) continue;
+      const rootValue = buildKeyString(entity, resolveRelationKeys(meta.table, relation).root);
+      if (rootValue === undefined) continue;
       if (!data || typeof data !== 'object') continue;
       const cache = new Map<string, Record<string, unknown>>();
-      cache.set(toKey(rootValue), data as Record<string, unknown>);
+      cache.set(rootValue, data as Record<string, unknown>);
       meta.relationHydration.set(relationName, cache);
       meta.relationCache.set(relationName, Promise.resolve(cache));
       continue;
@@ -45,23 +45,24 @@ export const populateHydrationCache = <TTable extends TableDef>(
     if (!Array.isArray(data)) continue;
 
     if (relation.type === RelationKinds.HasMany || relation.type === RelationKinds.BelongsToMany) {
-      const localKey = relation.localKey || findPrimaryKey(meta.table);
-      const rootValue = entity[localKey];
-      if (rootValue === undefined || rootValue === null) continue;
+      const rootValue = relation.type === RelationKinds.HasMany
+        ? buildKeyString(entity, resolveRelationKeys(meta.table, relation).root)
+        : buildKeyString(entity, [relation.localKey || findPrimaryKey(meta.table)]);
+      if (rootValue === undefined) continue;
       const cache = new Map<string, Rows>();
-      cache.set(toKey(rootValue), data as Rows);
+      cache.set(rootValue, data as Rows);
       meta.relationHydration.set(relationName, cache);
       meta.relationCache.set(relationName, Promise.resolve(cache));
       continue;
     }
 
     if (relation.type === RelationKinds.BelongsTo) {
-      const targetKey = relation.localKey || findPrimaryKey(relation.target);
+      const targetKeys = resolveRelationKeys(meta.table, relation).target;
       const cache = new Map<string, Record<string, unknown>>();
       for (const item of data) {
-        const pkValue = item[targetKey];
-        if (pkValue === undefined || pkValue === null) continue;
-        cache.set(toKey(pkValue), item);
+        const pkValue = buildKeyString(item, targetKeys);
+        if (pkValue === undefined) continue;
+        cache.set(pkValue, item);
       }
       if (cache.size) {
         meta.relationHydration.set(relationName, cache);
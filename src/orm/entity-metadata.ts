@@ -1,8 +1,28 @@
-import { ColumnDef } from '../schema/column-types.js';
+import { ColumnDef, type ColumnSchemaHints } from '../schema/column-types.js';
 import { defineTable, TableDef } from '../schema/table.js';
+import type { GlobalFilter, TableAuditOptions, ViewOptions } from '../schema/table.js';
 import { CascadeMode, RelationKinds } from '../schema/relation.js';
 import type { TransformerMetadata } from '../decorators/transformers/transformer-metadata.js';
 
+/**
+ * Merges the schema hints declared by a property's validators into the column's own hints.
+ * @param hints - Hints already set on the column
+ * @param transformer - Transformer metadata of the property
+ * @returns The merged hints, or undefined when there are none
+ */
+const mergeSchemaHints = (
+  hints: ColumnSchemaHints | undefined,
+  transformer: TransformerMetadata | undefined
+): ColumnSchemaHints | undefined => {
+  const merged: ColumnSchemaHints = { ...hints };
+  for (const validator of transformer?.validators ?? []) {
+    for (const [key, value] of Object.entries(validator.schema ?? {})) {
+      if (value !== undefined) Object.assign(merged, { [key]: value });
+    }
+  }
+  return Object.keys(merged).length ? merged : undefined;
+};
+
 /**
  * Constructor type for entities.
  * Supports any constructor signature for maximum flexibility with decorator-based entities.
@@ -57,10 +77,10 @@ interface BaseRelationMetadata {
 export interface HasManyRelationMetadata extends BaseRelationMetadata {
   /** The relation kind */
   kind: typeof RelationKinds.HasMany;
-  /** The foreign key */
-  foreignKey?: string;
-  /** Optional local key */
-  localKey?: string;
+  /** The foreign key (an array for composite keys) */
+  foreignKey?: string | string[];
+  /** Optional local key (an array for composite keys) */
+  localKey?: string | string[];
 }
 
 /**
@@ -69,10 +89,10 @@ export interface HasManyRelationMetadata extends BaseRelationMetadata {
 export interface HasOneRelationMetadata extends BaseRelationMetadata {
   /** The relation kind */
   kind: typeof RelationKinds.HasOne;
-  /** The foreign key */
-  foreignKey?: string;
-  /** Optional local key */
-  localKey?: string;
+  /** The foreign key (an array for composite keys) */
+  foreignKey?: string | string[];
+  /** Optional local key (an array for composite keys) */
+  localKey?: string | string[];
 }
 
 /**
@@ -81,10 +101,10 @@ export interface HasOneRelationMetadata extends BaseRelationMetadata {
 export interface BelongsToRelationMetadata extends BaseRelationMetadata {
   /** The relation kind */
   kind: typeof RelationKinds.BelongsTo;
-  /** The foreign key */
-  foreignKey: string;
-  /** Optional local key */
-  localKey?: string;
+  /** The foreign key (an array for composite keys) */
+  foreignKey: string | string[];
+  /** Optional local key (an array for composite keys) */
+  localKey?: string | string[];
 }
 
 /**
@@ -185,6 +205,18 @@ export interface EntityMetadata<TColumns extends Record<string, ColumnDefLike> =
   relations: Record<string, RelationMetadata>;
   /** The transformers */
   transformers: Record<string, TransformerMetadata>;
+  /** Optional property holding the tenant id (see TableOptions.tenantColumn) */
+  tenantColumn?: string;
+  /** Optional soft-delete timestamp property (see TableOptions.softDeleteColumn) */
+  softDeleteColumn?: string;
+  /** Optional named global filters (see TableOptions.filters) */
+  filters?: Record<string, GlobalFilter>;
+  /** Optional previous table name (see TableOptions.renamedFrom) */
+  renamedFrom?: string;
+  /** Optional auditing options (see TableOptions.audit) */
+  audit?: boolean | TableAuditOptions;
+  /** Optional view options for 'view' entities (see TableOptions.view) */
+  view?: ViewOptions;
   /** Optional table definition */
   table?: TableDef<MaterializeColumns<TColumns>>;
 }
@@ -331,11 +363,19 @@ export const buildTableDef = <TColumns extends Record<string, ColumnDefLike>>(me
     columns[key] = {
       ...def,
       name: def.name ?? key,
-      table: meta.tableName
+      table: meta.tableName,
+      schemaHints: mergeSchemaHints(def.schemaHints, meta.transformers[key])
     } as ColumnDef;
   }
 
-  const table = defineTable(meta.tableName, columns as MaterializeColumns<TColumns>);
+  const table = defineTable(meta.tableName, columns as MaterializeColumns<TColumns>, {}, {
+    tenantColumn: meta.tenantColumn,
+    softDeleteColumn: meta.softDeleteColumn,
+    filters: meta.filters,
+    renamedFrom: meta.renamedFrom,
+    audit: meta.audit,
+    view: meta.type === 'view' ? meta.view ?? {} : undefined
+  });
   meta.table = table;
   return table;
 };
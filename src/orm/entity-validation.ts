@@ -0,0 +1,176 @@
+import type { TableDef } from '../schema/table.js';
+import { RelationKinds } from '../schema/relation.js';
+import { EntityStatus, type FieldChange, type TrackedEntity } from './runtime-types.js';
+import { getAllEntityMetadata, getEntityMetadata, type EntityConstructor } from './entity-metadata.js';
+import { TransformerExecutor } from '../decorators/transformers/transformer-executor.js';
+import type { TransformerConfig } from '../decorators/transformers/transformer-metadata.js';
+
+/**
+ * Options for running property sanitizers, transformers and validators during flush.
+ */
+export type EntityValidationOptions = Pick<TransformerConfig, 'auto' | 'stopOnFirstError'>;
+
+/**
+ * A property that failed validation.
+ */
+export interface EntityValidationFailure {
+  /** Path from the entity being saved, e.g. `email` or `addresses[1].zipCode` */
+  path: string;
+  /** Name of the entity class */
+  entityName: string;
+  /** Property that failed */
+  propertyName: string;
+  /** Value after sanitizers and transformers ran */
+  value: unknown;
+  /** Validator messages */
+  errors: string[];
+  /** Entity holding the property */
+  entity: object;
+}
+
+/**
+ * Thrown before a flush writes anything when tracked entities fail their property validators.
+ */
+export class EntityValidationError extends Error {
+  /**
+   * @param failures - Every failing property across the flushed entity graph
+   */
+  constructor(public readonly failures: EntityValidationFailure[]) {
+    super(
+      `Entity validation failed: ${failures.map(failure => `${failure.path}: ${failure.errors.join(', ')}`).join('; ')}`
+    );
+    this.name = 'EntityValidationError';
+  }
+}
+
+interface PendingValidation {
+  entity: object;
+  table?: TableDef;
+  tracked?: TrackedEntity;
+  path: string;
+}
+
+const COLLECTION_RELATIONS = new Set<string>([
+  RelationKinds.HasMany,
+  RelationKinds.BelongsToMany,
+  RelationKinds.MorphMany
+]);
+
+const resolveEntityClass = (entity: object, table?: TableDef): EntityConstructor | undefined => {
+  const ctor = entity.constructor as EntityConstructor | undefined;
+  if (ctor && getEntityMetadata(ctor)) return ctor;
+  return table ? getAllEntityMetadata().find(meta => meta.table === table)?.target : undefined;
+};
+
+const joinPath = (prefix: string, segment: string): string => (prefix ? `${prefix}.${segment}` : segment);
+
+/**
+ * Lists the entities added or attached to `parent` through pending relation changes,
+ * with their path relative to it.
+ */
+const collectChildren = (
+  parent: object,
+  table: TableDef | undefined,
+  resolveRelationChanges: (entity: object) => FieldChange[]
+): { entity: object; table?: TableDef; segment: string }[] => {
+  const positions = new Map<string, number>();
+  const children: { entity: object; table?: TableDef; segment: string }[] = [];
+  for (const change of resolveRelationChanges(parent)) {
+    if (change.relationChange !== 'add' && change.relationChange !== 'attach') continue;
+    if (!change.to || typeof change.to !== 'object') continue;
+    const relation = table?.relations[change.field];
+    const target = relation && 'target' in relation ? relation.target : undefined;
+    if (relation && !COLLECTION_RELATIONS.has(relation.type)) {
+      children.push({ entity: change.to, table: target, segment: change.field });
+      continue;
+    }
+    const items = (parent as Record<string, { getItems?: () => unknown[] } | undefined>)[change.field]?.getItems?.();
+    const fallback = positions.get(change.field) ?? 0;
+    positions.set(change.field, fallback + 1);
+    const index = items?.indexOf(change.to) ?? -1;
+    children.push({
+      entity: change.to,
+      table: target,
+      segment: `${change.field}[${index >= 0 ? index : fallback}]`
+    });
+  }
+  return children;
+};
+
+/**
+ * Runs the sanitizers, transformers and validators declared with property decorators
+ * (`@Trim`, `@Email`, `@CPF`, ...) on every entity the next flush will insert or update,
+ * including entities added to relations of those entities that are not tracked yet.
+ * Sanitized values are written back to the entities; failures are collected across the
+ * graph and thrown together.
+ * @param tracked - Entities tracked by the unit of work
+ * @param resolveRelationChanges - Pending relation changes of an entity
+ * @param options - Validation options
+ * @throws EntityValidationError when any property fails validation
+ */
+export const validatePendingEntities = async (
+  tracked: TrackedEntity[],
+  resolveRelationChanges: (entity: object) => FieldChange[],
+  options: EntityValidationOptions = {}
+): Promise<void> => {
+  const trackedByEntity = new Map(tracked.map(entry => [entry.entity, entry]));
+  const isPending = (entity: object): boolean => {
+    const status = trackedByEntity.get(entity)?.status;
+    return status === undefined || status === EntityStatus.New || status === EntityStatus.Dirty;
+  };
+
+  const queued = tracked.filter(entry => entry.status === EntityStatus.New || entry.status === EntityStatus.Dirty);
+  const reachable = new Set<object>();
+  for (const entry of queued) {
+    for (const child of collectChildren(entry.entity, entry.table, resolveRelationChanges)) {
+      reachable.add(child.entity);
+    }
+  }
+
+  const ordered: PendingValidation[] = [];
+  const visited = new Set<object>();
+  const visit = (entity: object, table: TableDef | undefined, path: string): void => {
+    if (visited.has(entity)) return;
+    visited.add(entity);
+    const entry = trackedByEntity.get(entity);
+    if (isPending(entity)) {
+      ordered.push({ entity, table: entry?.table ?? table, tracked: entry, path });
+    }
+    for (const child of collectChildren(entity, entry?.table ?? table, resolveRelationChanges)) {
+      visit(child.entity, child.table, joinPath(path, child.segment));
+    }
+  };
+  for (const entry of queued) {
+    if (!reachable.has(entry.entity)) visit(entry.entity, entry.table, '');
+  }
+  for (const entry of queued) {
+    visit(entry.entity, entry.table, '');
+  }
+
+  const executor = new TransformerExecutor({ auto: options.auto, stopOnFirstError: false });
+  const failures: EntityValidationFailure[] = [];
+  for (const pending of ordered) {
+    const entityClass = resolveEntityClass(pending.entity, pending.table);
+    if (!entityClass) continue;
+    const isUpdate = pending.tracked?.status === EntityStatus.Dirty;
+    const propertyFailures = await executor.applyTransformers(pending.entity as Record<string, unknown>, entityClass, {
+      isUpdate,
+      originalValues: isUpdate ? pending.tracked?.original ?? undefined : undefined
+    });
+    for (const failure of propertyFailures) {
+      failures.push({
+        path: joinPath(pending.path, failure.propertyName),
+        entityName: entityClass.name,
+        propertyName: failure.propertyName,
+        value: failure.value,
+        errors: failure.errors,
+        entity: pending.entity
+      });
+    }
+    if (failures.length && options.stopOnFirstError) break;
+  }
+
+  if (failures.length) {
+    throw new EntityValidationError(failures);
+  }
+};
@@ -1,8 +1,8 @@
 import { TableDef } from '../schema/table.js';
 import { EntityInstance } from '../schema/types.js';
-import type { EntityContext, PrimaryKey } from './entity-context.js';
+import type { EntityContext } from './entity-context.js';
 import { ENTITY_META, EntityMeta, RelationKey } from './entity-meta.js';
-import { findPrimaryKey } from '../query-builder/hydration-planner.js';
+import { readPrimaryKey } from './primary-key.js';
 import { RelationIncludeOptions } from '../query-builder/relation-types.js';
 import { populateHydrationCache } from './entity-hydration.js';
 import { getRelationWrapper, RelationEntityFactory } from './entity-relations.js';
@@ -181,16 +181,15 @@ export const createEntityFromRow = <
   lazyRelations: RelationKey<TTable>[] = [],
   lazyRelationOptions: Map<string, RelationIncludeOptions> = new Map()
 ): TResult => {
-  const pkName = findPrimaryKey(table);
-  const pkValue = row[pkName];
-  if (pkValue !== undefined && pkValue !== null) {
-    const tracked = ctx.getEntity(table, pkValue as PrimaryKey);
+  const pkValue = readPrimaryKey(table, row);
+  if (pkValue !== undefined) {
+    const tracked = ctx.getEntity(table, pkValue);
     if (tracked) return tracked as TResult;
   }
 
   const entity = createEntityProxy(ctx, table, row, lazyRelations, lazyRelationOptions);
-  if (pkValue !== undefined && pkValue !== null) {
-    ctx.trackManaged(table, pkValue as PrimaryKey, entity);
+  if (pkValue !== undefined) {
+    ctx.trackManaged(table, pkValue, entity);
   } else {
     ctx.trackNew(table, entity);
   }
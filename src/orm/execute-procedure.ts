@@ -4,6 +4,7 @@ import { payloadResultSets } from '../core/execution/db-executor.js';
 import type { CompiledProcedureCall } from '../core/dialect/capabilities/procedure-compiler.js';
 import { requireProcedureCompiler } from '../core/dialect/capabilities/procedure-compiler.js';
 import type { OrmSession } from './orm-session.js';
+import { runQuery } from './execution-context.js';
 
 export interface ProcedureExecutionResult {
   resultSets: QueryResult[];
@@ -65,10 +66,7 @@ export const executeProcedureAst = async (
 ): Promise<ProcedureExecutionResult> => {
   const execCtx = session.getExecutionContext();
   const compiled = requireProcedureCompiler(execCtx.dialect).compileProcedureCall(ast);
-  const payload = await execCtx.interceptors.run(
-    { sql: compiled.sql, params: compiled.params },
-    execCtx.executor
-  );
+  const payload = await runQuery(execCtx, { sql: compiled.sql, params: compiled.params, ast });
   const resultSets = payloadResultSets(payload);
 
   return {
@@ -1,7 +1,7 @@
 import { TableDef } from '../schema/table.js';
 import { EntityInstance } from '../schema/types.js';
 import { RelationKinds } from '../schema/relation.js';
-import { hydrateRows } from './hydration.js';
+import { hydrateRows, readRootRowKey } from './hydration.js';
 import { OrmSession } from './orm-session.ts';
 import { SelectQueryBuilder } from '../query-builder/select.js';
 import {
@@ -10,7 +10,7 @@ import {
   relationLoaderCache
 } from './entity.js';
 import { EntityContext } from './entity-context.js';
-import { ExecutionContext } from './execution-context.js';
+import { ExecutionContext, runQuery } from './execution-context.js';
 import { HydrationContext } from './hydration-context.js';
 import { RelationIncludeOptions } from '../query-builder/relation-types.js';
 import { getEntityMeta, RelationKey } from './entity-meta.js';
@@ -22,9 +22,16 @@ import {
   loadBelongsToManyRelation
 } from './lazy-batch.js';
 import { payloadResultSets } from '../core/execution/db-executor.js';
+import { convertRowFromDb } from '../schema/value-converter.js';
 
 type Row = Record<string, unknown>;
 
+/** Options for streamed execution. */
+export interface StreamExecutionOptions {
+  /** Number of root rows/entities per yielded batch. */
+  batchSize: number;
+}
+
 const flattenResults = (results: { columns: string[]; values: unknown[][] }[]): Row[] => {
   const rows: Row[] = [];
   for (const result of results) {
@@ -40,6 +47,8 @@ const flattenResults = (results: { columns: string[]; values: unknown[][] }[]):
   return rows;
 };
 
+const convertRows = (table: TableDef, rows: Row[]): Row[] => rows.map(row => convertRowFromDb(table, row));
+
 const executeWithContexts = async <TTable extends TableDef>(
   execCtx: ExecutionContext,
   entityCtx: EntityContext,
@@ -47,22 +56,28 @@ const executeWithContexts = async <TTable extends TableDef>(
 ): Promise<EntityInstance<TTable>[]> => {
   const ast = qb.getAST();
   const compiled = execCtx.dialect.compileSelect(ast);
-  const executed = await execCtx.interceptors.run({ sql: compiled.sql, params: compiled.params }, execCtx.executor);
+  const executed = await runQuery(execCtx, {
+    sql: compiled.sql,
+    params: compiled.params,
+    options: qb.getExecuteOptions(),
+    ast: compiled.ast ?? ast,
+    entityConstructor: qb.getEntityConstructor()
+  });
   const rows = flattenResults(payloadResultSets(executed));
   const lazyRelations = qb.getLazyRelations() as RelationKey<TTable>[];
   const lazyRelationOptions = qb.getLazyRelationOptions();
   const includeTree = qb.getIncludeTree();
 
   if (ast.setOps && ast.setOps.length > 0) {
-    const proxies = rows.map(row => createEntityProxy(entityCtx, qb.getTable(), row, lazyRelations, lazyRelationOptions));
-    await loadLazyRelationsForTable(entityCtx, qb.getTable(), lazyRelations, lazyRelationOptions);
+    const proxies = convertRows(qb.getTable(), rows).map(row => createEntityProxy(entityCtx, qb.getTable(), row, lazyRelations, lazyRelationOptions));
+    await loadLazyRelationsForTable(entityCtx, qb.getTable(), lazyRelations, lazyRelationOptions, []);
     await preloadRelationIncludes(proxies as Record<string, unknown>[], includeTree);
     return proxies;
   }
 
-  const hydrated = hydrateRows(rows, qb.getHydrationPlan());
+  const hydrated = convertRows(qb.getTable(), hydrateRows(rows, qb.getHydrationPlan()));
   const entities = hydrated.map(row => createEntityFromRow(entityCtx, qb.getTable(), row, lazyRelations, lazyRelationOptions));
-  await loadLazyRelationsForTable(entityCtx, qb.getTable(), lazyRelations, lazyRelationOptions);
+  await loadLazyRelationsForTable(entityCtx, qb.getTable(), lazyRelations, lazyRelationOptions, entities);
   await preloadRelationIncludes(entities as Record<string, unknown>[], includeTree);
   return entities;
 };
@@ -73,16 +88,107 @@ const executePlainWithContexts = async <TTable extends TableDef>(
 ): Promise<Record<string, unknown>[]> => {
   const ast = qb.getAST();
   const compiled = execCtx.dialect.compileSelect(ast);
-  const executed = await execCtx.interceptors.run({ sql: compiled.sql, params: compiled.params }, execCtx.executor);
+  const executed = await runQuery(execCtx, {
+    sql: compiled.sql,
+    params: compiled.params,
+    options: qb.getExecuteOptions(),
+    ast: compiled.ast ?? ast,
+    entityConstructor: qb.getEntityConstructor()
+  });
   const rows = flattenResults(payloadResultSets(executed));
 
   if (ast.setOps && ast.setOps.length > 0) {
-    return rows;
+    return convertRows(qb.getTable(), rows);
   }
 
-  return hydrateRows(rows, qb.getHydrationPlan());
+  return convertRows(qb.getTable(), hydrateRows(rows, qb.getHydrationPlan()));
 };
 
+/**
+ * Streams the query through `executor.streamSql`, yielding hydrated rows in batches of root rows.
+ * Rows of one root must arrive contiguously (order by the root key when joining to-many relations).
+ */
+async function* streamRowBatches<TTable extends TableDef>(
+  execCtx: ExecutionContext,
+  qb: SelectQueryBuilder<unknown, TTable>,
+  options: StreamExecutionOptions
+): AsyncGenerator<Row[]> {
+  const { executor } = execCtx;
+  if (!executor.streamSql) {
+    throw new Error('The executor does not support streaming (streamSql)');
+  }
+
+  const ast = qb.getAST();
+  const compiled = execCtx.dialect.compileSelect(ast);
+  const plan = ast.setOps && ast.setOps.length > 0 ? undefined : qb.getHydrationPlan();
+  let pending: Row[] = [];
+  let roots = 0;
+  let lastKey: unknown;
+
+  for await (const row of executor.streamSql(compiled.sql, compiled.params, {
+    ...qb.getExecuteOptions(),
+    batchSize: options.batchSize
+  })) {
+    const key = plan ? readRootRowKey(row, plan) : undefined;
+    const startsRoot = key === undefined || key === null || roots === 0 || key !== lastKey;
+    if (startsRoot && roots === options.batchSize) {
+      yield convertRows(qb.getTable(), hydrateRows(pending, plan));
+      pending = [];
+      roots = 0;
+    }
+    if (startsRoot) roots++;
+    lastKey = key;
+    pending.push(row);
+  }
+
+  if (pending.length) {
+    yield convertRows(qb.getTable(), hydrateRows(pending, plan));
+  }
+}
+
+/**
+ * Streams a query with the executor's native streaming, creating root entities one batch at a time.
+ * Relations that need follow-up queries (lazy or nested includes) are left to load on access.
+ * @template TTable - The table type
+ * @param session - The ORM session
+ * @param qb - The select query builder
+ * @param options - Stream options
+ * @returns Async generator of entity batches
+ */
+export async function* streamHydrated<TTable extends TableDef>(
+  session: OrmSession,
+  qb: SelectQueryBuilder<unknown, TTable>,
+  options: StreamExecutionOptions
+): AsyncGenerator<EntityInstance<TTable>[]> {
+  const lazyRelations = qb.getLazyRelations() as RelationKey<TTable>[];
+  const lazyRelationOptions = qb.getLazyRelationOptions();
+  const isSetOperation = Boolean(qb.getAST().setOps?.length);
+
+  for await (const rows of streamRowBatches(session.getExecutionContext(), qb, options)) {
+    yield rows.map(row =>
+      isSetOperation
+        ? createEntityProxy(session, qb.getTable(), row, lazyRelations, lazyRelationOptions)
+        : createEntityFromRow(session, qb.getTable(), row, lazyRelations, lazyRelationOptions)
+    );
+  }
+}
+
+/**
+ * Streams a query with the executor's native streaming and yields plain row batches.
+ * @template TTable - The table type
+ * @param session - The ORM session
+ * @param qb - The select query builder
+ * @param options - Stream options
+ * @returns Async generator of plain row batches
+ */
+export async function* streamHydratedPlain<TTable extends TableDef>(
+  session: OrmSession,
+  qb: SelectQueryBuilder<unknown, TTable>,
+  options: StreamExecutionOptions
+): AsyncGenerator<Record<string, unknown>[]> {
+  yield* streamRowBatches(session.getExecutionContext(), qb, options);
+}
+
 /**
  * Executes a hydrated query using the ORM session.
  * @template TTable - The table type
@@ -149,14 +255,17 @@ const loadLazyRelationsForTable = async <TTable extends TableDef>(
   ctx: EntityContext,
   table: TTable,
   lazyRelations: RelationKey<TTable>[],
-  lazyRelationOptions: Map<string, RelationIncludeOptions>
+  lazyRelationOptions: Map<string, RelationIncludeOptions>,
+  loaded: object[]
 ): Promise<void> => {
   if (!lazyRelations.length) return;
 
   const tracked = ctx.getEntitiesForTable(table);
   if (!tracked.length) return;
 
-  const meta = getEntityMeta(tracked[0].entity);
+  // Anchor the loader cache on the entities just loaded so repeated executions
+  // (e.g. keyset batches) in one session load relations for their own rows.
+  const meta = (loaded.length ? getEntityMeta(loaded[0]) : undefined) ?? getEntityMeta(tracked[0].entity);
   if (!meta) return;
 
   for (const relationName of lazyRelations) {
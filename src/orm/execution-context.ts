@@ -1,6 +1,7 @@
 import type { Dialect } from '../core/dialect/abstract.js';
-import type { DbExecutor } from '../core/execution/db-executor.js';
+import type { DbExecutor, ExecutionPayload } from '../core/execution/db-executor.js';
 import { InterceptorPipeline } from './interceptor-pipeline.js';
+import type { QueryRequest, QueryScope } from './interceptor-pipeline.js';
 
 /**
  * Context for SQL query execution
@@ -12,7 +13,18 @@ export interface ExecutionContext {
   executor: DbExecutor;
   /** Interceptor pipeline for query processing */
   interceptors: InterceptorPipeline;
+  /** Session facts (session, tenant, transaction state) attached to each statement, read per statement */
+  queryScope?: () => QueryScope;
   // plus anything *purely about executing SQL*:
   // - logging
   // - query timeout config
 }
+
+/**
+ * Runs a statement through the context's interceptor pipeline, tagged with its query scope.
+ * @param execCtx - Execution context
+ * @param request - Statement and its metadata
+ * @returns Execution payload
+ */
+export const runQuery = (execCtx: ExecutionContext, request: QueryRequest): Promise<ExecutionPayload> =>
+  execCtx.interceptors.run({ ...execCtx.queryScope?.(), ...request }, execCtx.executor);
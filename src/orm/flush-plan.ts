@@ -0,0 +1,62 @@
+import type { TableDef } from '../schema/table.js';
+import { RelationKinds } from '../schema/relation.js';
+
+/**
+ * Collects the tables whose rows must exist before rows of `table` can be inserted:
+ * tables referenced by its columns, targets of its belongs-to relations and owners
+ * of has-one/has-many/morph relations pointing at it.
+ * @param table - The dependent table
+ * @param tables - Tables taking part in the flush
+ * @returns Parent tables among `tables`, excluding `table` itself
+ */
+const collectParents = (table: TableDef, tables: TableDef[]): Set<TableDef> => {
+  const parents = new Set<TableDef>();
+  const add = (parent: TableDef | undefined): void => {
+    if (parent && parent !== table && tables.includes(parent)) parents.add(parent);
+  };
+
+  for (const column of Object.values(table.columns)) {
+    if (column.references) {
+      add(tables.find(candidate => candidate.name === column.references!.table));
+    }
+  }
+  for (const relation of Object.values(table.relations)) {
+    if (relation.type === RelationKinds.BelongsTo) add(relation.target);
+  }
+  for (const owner of tables) {
+    for (const relation of Object.values(owner.relations)) {
+      switch (relation.type) {
+        case RelationKinds.HasOne:
+        case RelationKinds.HasMany:
+        case RelationKinds.MorphOne:
+        case RelationKinds.MorphMany:
+          if (relation.target === table) add(owner);
+          break;
+        default:
+          break;
+      }
+    }
+  }
+  return parents;
+};
+
+/**
+ * Orders tables so referenced (parent) tables come before the tables referencing them.
+ * Unrelated tables keep their input order; a foreign-key cycle is broken at the table
+ * that comes first in the input.
+ * @param tables - Tables with pending writes, in the order they were first tracked
+ * @returns Tables parents-first (reverse it for deletes)
+ */
+export const sortTablesByDependencies = (tables: TableDef[]): TableDef[] => {
+  const parents = new Map(tables.map(table => [table, collectParents(table, tables)]));
+  const sorted: TableDef[] = [];
+  const remaining = [...tables];
+  while (remaining.length) {
+    const index = remaining.findIndex(table =>
+      Array.from(parents.get(table)!).every(parent => sorted.includes(parent))
+    );
+    const [next] = remaining.splice(Math.max(index, 0), 1);
+    sorted.push(next);
+  }
+  return sorted;
+};
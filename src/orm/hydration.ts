@@ -1,6 +1,7 @@
 import { HydrationPlan, HydrationRelationPlan } from '../core/hydration/types.js';
 import { RelationKinds } from '../schema/relation.js';
 import { isRelationAlias, makeRelationAlias } from '../query-builder/relation-alias.js';
+import { buildKeyString } from '../query-builder/relation-keys.js';
 
 /**
  * Hydrates query results according to a hydration plan
@@ -19,7 +20,7 @@ export const hydrateRows = (rows: Record<string, unknown>[], plan?: HydrationPla
   const relationIndex = new Map<unknown, Record<string, Set<unknown>>>();
 
   const getOrCreateParent = (row: Record<string, unknown>) => {
-    const rootId = row[plan.rootPrimaryKey];
+    const rootId = readRowKey(row, plan.rootPrimaryKey, plan.rootPrimaryKeys);
     if (rootId === undefined) return undefined;
 
     if (!rootMap.has(rootId)) {
@@ -48,7 +49,7 @@ export const hydrateRows = (rows: Record<string, unknown>[], plan?: HydrationPla
   const hasRelations = plan.relations.length > 0;
 
   for (const row of rows) {
-    const rootId = row[plan.rootPrimaryKey];
+    const rootId = readRowKey(row, plan.rootPrimaryKey, plan.rootPrimaryKeys);
 
     if (rootId === undefined || rootId === null) {
       if (!hasRelations) {
@@ -61,8 +62,11 @@ export const hydrateRows = (rows: Record<string, unknown>[], plan?: HydrationPla
     if (!parent) continue;
 
     for (const rel of plan.relations) {
-      const childPkKey = makeRelationAlias(rel.aliasPrefix, rel.targetPrimaryKey);
-      const childPk = row[childPkKey];
+      const childPk = readRowKey(
+        row,
+        makeRelationAlias(rel.aliasPrefix, rel.targetPrimaryKey),
+        rel.targetPrimaryKeys?.map(key => makeRelationAlias(rel.aliasPrefix, key))
+      );
       if (childPk === null || childPk === undefined) continue;
 
       const seen = getRelationSeenSet(rootId, rel.name);
@@ -84,6 +88,28 @@ export const hydrateRows = (rows: Record<string, unknown>[], plan?: HydrationPla
   return Array.from(rootMap.values());
 };
 
+/**
+ * Reads the (possibly composite) key of a row used to deduplicate hydrated records
+ * @param row - Raw database row
+ * @param column - Key column (alias) for single-column keys
+ * @param columns - All key columns (aliases) for composite keys
+ * @returns The key value; composite keys yield a tuple string, or null when a part is missing
+ */
+const readRowKey = (row: Record<string, unknown>, column: string, columns?: string[]): unknown => {
+  if (!columns) return row[column];
+  if (columns.some(key => row[key] === undefined)) return undefined;
+  return buildKeyString(row, columns) ?? null;
+};
+
+/**
+ * Reads the root key of a raw row so streamed rows of the same root can be kept together
+ * @param row - Raw database row
+ * @param plan - Hydration plan
+ * @returns The root key value (see readRowKey)
+ */
+export const readRootRowKey = (row: Record<string, unknown>, plan: HydrationPlan): unknown =>
+  readRowKey(row, plan.rootPrimaryKey, plan.rootPrimaryKeys);
+
 const createBaseRow = (row: Record<string, unknown>, plan: HydrationPlan): Record<string, unknown> => {
   const base: Record<string, unknown> = {};
   const baseKeys = plan.rootColumns.length
@@ -1,6 +1,7 @@
 import type { TableDef } from '../schema/table.js';
 import type { TrackedEntity } from './runtime-types.js';
 import type { PrimaryKey } from './entity-context.js';
+import { primaryKeyIdentity } from './primary-key.js';
 
 /**
  * Simple identity map for tracking entities within a session.
@@ -21,7 +22,7 @@ export class IdentityMap {
    */
   getEntity(table: TableDef, pk: PrimaryKey): object | undefined {
     const bucket = this.buckets.get(table.name);
-    return bucket?.get(this.toIdentityKey(pk))?.entity;
+    return bucket?.get(primaryKeyIdentity(table, pk))?.entity;
   }
 
   /**
@@ -31,14 +32,14 @@ export class IdentityMap {
   register(tracked: TrackedEntity): void {
     if (tracked.pk == null) return;
     const bucket = this.buckets.get(tracked.table.name) ?? new Map<string, TrackedEntity>();
-    bucket.set(this.toIdentityKey(tracked.pk), tracked);
+    bucket.set(primaryKeyIdentity(tracked.table, tracked.pk), tracked);
     this.buckets.set(tracked.table.name, bucket);
   }
 
   remove(tracked: TrackedEntity): void {
     if (tracked.pk == null) return;
     const bucket = this.buckets.get(tracked.table.name);
-    bucket?.delete(this.toIdentityKey(tracked.pk));
+    bucket?.delete(primaryKeyIdentity(tracked.table, tracked.pk));
   }
 
   /**
@@ -54,8 +55,4 @@ export class IdentityMap {
   clear(): void {
     this.buckets.clear();
   }
-
-  private toIdentityKey(pk: PrimaryKey): string {
-    return String(pk);
-  }
 }
@@ -0,0 +1,99 @@
+import type { DbExecutor } from '../core/execution/db-executor.js';
+import {
+  MetricNames,
+  SpanNames,
+  noopInstrumentation,
+  secondsSince,
+  sqlOperationName,
+  type Attributes,
+  type Instrumentation
+} from '../core/execution/instrumentation/instrumentation.js';
+
+const errorType = (error: unknown): string =>
+  error instanceof Error ? error.name : typeof error;
+
+/**
+ * Creates a wrapped database executor that traces every statement.
+ * Each `executeSql`/`streamSql` call gets a `db.query` span (with `db.statement` and
+ * `db.operation`) and a `db.client.operation.duration` sample; streamed queries are
+ * measured until the stream is exhausted or closed.
+ * @param executor - Original database executor to wrap
+ * @param instrumentation - Instrumentation receiving spans and metrics
+ * @returns Wrapped executor, or the original one for the no-op instrumentation
+ */
+export const createInstrumentedExecutor = (
+  executor: DbExecutor,
+  instrumentation: Instrumentation = noopInstrumentation
+): DbExecutor => {
+  if (instrumentation === noopInstrumentation) {
+    return executor;
+  }
+
+  const trace = (sql: string) => {
+    const operation = sqlOperationName(sql);
+    const span = instrumentation.startSpan(SpanNames.query, {
+      'db.statement': sql,
+      'db.operation': operation || undefined
+    });
+    const started = performance.now();
+    let finished = false;
+    return (error?: unknown, failed = false) => {
+      if (finished) return;
+      finished = true;
+      const attributes: Attributes = { 'db.operation': operation || undefined };
+      if (failed) {
+        span.recordException(error);
+        attributes['error.type'] = errorType(error);
+      }
+      instrumentation.recordHistogram(MetricNames.queryDuration, secondsSince(started), attributes);
+      span.end();
+    };
+  };
+
+  const wrapped: DbExecutor = {
+    capabilities: executor.capabilities,
+    async executeSql(sql, params, options) {
+      const finish = trace(sql);
+      try {
+        const result = await executor.executeSql(sql, params, options);
+        finish();
+        return result;
+      } catch (error) {
+        finish(error, true);
+        throw error;
+      }
+    },
+    streamSql: executor.streamSql
+      ? async function* (sql, params, options) {
+        const finish = trace(sql);
+        try {
+          yield* executor.streamSql!(sql, params, options);
+        } catch (error) {
+          finish(error, true);
+          throw error;
+        } finally {
+          // Consumers that stop early close the generator without an error.
+          finish();
+        }
+      }
+      : undefined,
+    beginTransaction: options => executor.beginTransaction(options),
+    commitTransaction: () => executor.commitTransaction(),
+    rollbackTransaction: () => executor.rollbackTransaction(),
+    savepoint: executor.savepoint
+      ? (name: string) => executor.savepoint!(name)
+      : undefined,
+    releaseSavepoint: executor.releaseSavepoint
+      ? (name: string) => executor.releaseSavepoint!(name)
+      : undefined,
+    rollbackToSavepoint: executor.rollbackToSavepoint
+      ? (name: string) => executor.rollbackToSavepoint!(name)
+      : undefined,
+    isTransientError: executor.isTransientError
+      ? (error: unknown) => executor.isTransientError!(error)
+      : undefined,
+    dispose: () => executor.dispose(),
+  };
+
+  return wrapped;
+};
@@ -1,17 +1,107 @@
-import type { DbExecutor, ExecutionPayload } from '../core/execution/db-executor.js';
+import type { DbExecutor, ExecuteSqlOptions, ExecutionPayload } from '../core/execution/db-executor.js';
 import { toExecutionPayload } from '../core/execution/db-executor.js';
+import type {
+  DeleteQueryNode,
+  InsertQueryNode,
+  MergeQueryNode,
+  SelectQueryNode,
+  UpdateQueryNode
+} from '../core/ast/query.js';
+import type { ProcedureCallNode } from '../core/ast/procedure.js';
+import { collectQueryTables } from '../cache/table-dependencies.js';
+import type { EntityConstructor } from './entity-metadata.js';
+import type { OrmSession } from './orm-session.js';
 
-export interface QueryContext {
+/** Kind of statement being executed; 'raw' when the SQL was not built from an AST. */
+export type QueryOperation = 'select' | 'insert' | 'update' | 'delete' | 'merge' | 'procedure' | 'raw';
+
+/** AST a statement was compiled from. */
+export type QueryAst =
+  | SelectQueryNode
+  | InsertQueryNode
+  | UpdateQueryNode
+  | DeleteQueryNode
+  | MergeQueryNode
+  | ProcedureCallNode;
+
+/**
+ * Facts about the session running a statement.
+ * Filled from `ExecutionContext.queryScope` when the statement runs through a session.
+ */
+export interface QueryScope {
+  /** Session running the statement */
+  session?: OrmSession;
+  /** Active tenant of the session (undefined when unscoped or suspended) */
+  tenantId?: string | number;
+  /** True when the statement runs inside a transaction */
+  inTransaction?: boolean;
+}
+
+/**
+ * Statement handed to {@link InterceptorPipeline.run}.
+ * `operation` and `tables` are derived from `ast` when omitted.
+ */
+export interface QueryRequest extends QueryScope {
   sql: string;
   params: unknown[];
-  // maybe metadata like entity type, operation type, etc.
+  /** Execution hints forwarded to the executor (e.g. `usePrimary`). */
+  options?: ExecuteSqlOptions;
+  /** Kind of statement */
+  operation?: QueryOperation;
+  /** Tables the statement reads or writes, target table first for writes */
+  tables?: string[];
+  /** AST the SQL was compiled from */
+  ast?: QueryAst;
+  /** Decorated entity class the statement loads or persists */
+  entityConstructor?: EntityConstructor;
 }
 
+/**
+ * Context seen by interceptors.
+ */
+export interface QueryContext extends QueryRequest {
+  operation: QueryOperation;
+  tables: string[];
+  inTransaction: boolean;
+  /** Epoch milliseconds when the pipeline started running the statement */
+  startedAt: number;
+  /** Time spent in the executor; set once `next()` settles */
+  durationMs?: number;
+}
+
+/** Runs a statement (through the interceptor pipeline when bound to a session). */
+export type StatementRunner = (request: QueryRequest) => Promise<ExecutionPayload>;
+
 export type QueryInterceptor = (
   ctx: QueryContext,
   next: () => Promise<ExecutionPayload>
 ) => Promise<ExecutionPayload>;
 
+const AST_OPERATIONS: Record<QueryAst['type'], QueryOperation> = {
+  SelectQuery: 'select',
+  InsertQuery: 'insert',
+  UpdateQuery: 'update',
+  DeleteQuery: 'delete',
+  MergeQuery: 'merge',
+  ProcedureCall: 'procedure'
+};
+
+/**
+ * Builds the interceptor context for a statement.
+ * @param request - Statement and its metadata
+ * @returns Context with operation, tables and timing defaults filled in
+ */
+export const createQueryContext = (request: QueryRequest): QueryContext => {
+  const { ast } = request;
+  return {
+    ...request,
+    operation: request.operation ?? (ast ? AST_OPERATIONS[ast.type] : 'raw'),
+    tables: request.tables ?? (ast && ast.type !== 'ProcedureCall' ? collectQueryTables(ast) : []),
+    inTransaction: request.inTransaction ?? false,
+    startedAt: Date.now()
+  };
+};
+
 /**
  * Pipeline for query interceptors.
  * Interceptors can wrap query execution to add logging, tracing, caching, etc.
@@ -23,12 +113,26 @@ export class InterceptorPipeline {
     this.interceptors.push(interceptor);
   }
 
-  async run(ctx: QueryContext, executor: DbExecutor): Promise<ExecutionPayload> {
+  /**
+   * True when at least one interceptor is registered.
+   * Streamed queries bypass the pipeline, so callers fall back to batched execution instead.
+   */
+  hasInterceptors(): boolean {
+    return this.interceptors.length > 0;
+  }
+
+  async run(request: QueryRequest, executor: DbExecutor): Promise<ExecutionPayload> {
+    const ctx = createQueryContext(request);
     let i = 0;
     const dispatch = async (): Promise<ExecutionPayload> => {
       const interceptor = this.interceptors[i++];
       if (!interceptor) {
-        return toExecutionPayload(await executor.executeSql(ctx.sql, ctx.params));
+        const started = Date.now();
+        try {
+          return toExecutionPayload(await executor.executeSql(ctx.sql, ctx.params, ctx.options));
+        } finally {
+          ctx.durationMs = Date.now() - started;
+        }
       }
       return toExecutionPayload(await interceptor(ctx, dispatch));
     };
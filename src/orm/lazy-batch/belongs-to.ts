@@ -2,11 +2,13 @@ import { TableDef } from '../../schema/table.js';
 import { BelongsToRelation } from '../../schema/relation.js';
 import { findPrimaryKey } from '../../query-builder/hydration-planner.js';
 import { RelationIncludeOptions } from '../../query-builder/relation-types.js';
+import { resolveRelationKeys } from '../../query-builder/relation-keys.js';
 import { EntityContext } from '../entity-context.js';
 import {
   buildColumnSelection,
-  collectKeysFromRoots,
+  collectKeyTuplesFromRoots,
   fetchRowsForKeys,
+  fetchRowsForKeyTuples,
   filterRow,
   groupRowsByUnique,
   hasColumns
@@ -28,11 +30,13 @@ export const loadBelongsToRelation = async (
   options?: RelationIncludeOptions
 ): Promise<Map<string, Record<string, unknown>>> => {
   const roots = ctx.getEntitiesForTable(rootTable);
+  const relationKeys = resolveRelationKeys(rootTable, relation);
 
-  const getForeignKeys = (): Set<unknown> => collectKeysFromRoots(roots, relation.foreignKey);
+  const getForeignKeys = (): Map<string, unknown[]> => collectKeyTuplesFromRoots(roots, relationKeys.root);
   let foreignKeys = getForeignKeys();
 
-  if (!foreignKeys.size) {
+  // Backfill foreign keys that were not selected when the roots were loaded (single-column keys only).
+  if (!foreignKeys.size && relationKeys.root.length === 1) {
     const pkName = findPrimaryKey(rootTable);
     const pkColumn = rootTable.columns[pkName];
     const fkColumn = rootTable.columns[relation.foreignKey];
@@ -78,14 +82,14 @@ export const loadBelongsToRelation = async (
     return new Map();
   }
 
-  const targetKey = relation.localKey || findPrimaryKey(relation.target);
-  const pkColumn = relation.target.columns[targetKey];
-  if (!pkColumn) return new Map();
+  if (relationKeys.target.some(targetKey => !relation.target.columns[targetKey])) return new Map();
 
   const requestedColumns = hasColumns(options?.columns) ? [...options!.columns] : undefined;
   const selectedColumns = requestedColumns ? [...requestedColumns] : Object.keys(relation.target.columns);
-  if (!selectedColumns.includes(targetKey)) {
-    selectedColumns.push(targetKey);
+  for (const targetKey of relationKeys.target) {
+    if (!selectedColumns.includes(targetKey)) {
+      selectedColumns.push(targetKey);
+    }
   }
 
   const selection = buildColumnSelection(
@@ -94,8 +98,8 @@ export const loadBelongsToRelation = async (
     column => `Column '${column}' not found on relation '${relationName}'`
   );
 
-  const rows = await fetchRowsForKeys(ctx, relation.target, pkColumn, foreignKeys, selection, options?.filter);
-  const grouped = groupRowsByUnique(rows, targetKey);
+  const rows = await fetchRowsForKeyTuples(ctx, relation.target, relationKeys.target, foreignKeys, selection, options?.filter);
+  const grouped = groupRowsByUnique(rows, relationKeys.target);
 
   if (!requestedColumns) return grouped;
 
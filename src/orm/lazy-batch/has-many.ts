@@ -1,12 +1,13 @@
 import { TableDef } from '../../schema/table.js';
 import { HasManyRelation } from '../../schema/relation.js';
-import { findPrimaryKey } from '../../query-builder/hydration-planner.js';
+import { findPrimaryKeys } from '../../query-builder/hydration-planner.js';
 import { RelationIncludeOptions } from '../../query-builder/relation-types.js';
+import { resolveRelationKeys } from '../../query-builder/relation-keys.js';
 import { EntityContext } from '../entity-context.js';
 import {
   buildColumnSelection,
-  collectKeysFromRoots,
-  fetchRowsForKeys,
+  collectKeyTuplesFromRoots,
+  fetchRowsForKeyTuples,
   filterRows,
   groupRowsByMany,
   hasColumns,
@@ -28,26 +29,26 @@ export const loadHasManyRelation = async (
   relation: HasManyRelation,
   options?: RelationIncludeOptions
 ): Promise<Map<string, Rows>> => {
-  const localKey = relation.localKey || findPrimaryKey(rootTable);
+  const relationKeys = resolveRelationKeys(rootTable, relation);
   const roots = ctx.getEntitiesForTable(rootTable);
-  const keys = collectKeysFromRoots(roots, localKey);
+  const keys = collectKeyTuplesFromRoots(roots, relationKeys.root);
 
   if (!keys.size) {
     return new Map();
   }
 
-  const fkColumn = relation.target.columns[relation.foreignKey];
-  if (!fkColumn) return new Map();
+  if (relationKeys.target.some(foreignKey => !relation.target.columns[foreignKey])) return new Map();
 
   const requestedColumns = hasColumns(options?.columns) ? [...options!.columns] : undefined;
-  const targetPrimaryKey = findPrimaryKey(relation.target);
   const selectedColumns = requestedColumns ? [...requestedColumns] : Object.keys(relation.target.columns);
-  if (!selectedColumns.includes(targetPrimaryKey)) {
-    selectedColumns.push(targetPrimaryKey);
+  for (const targetPrimaryKey of findPrimaryKeys(relation.target)) {
+    if (!selectedColumns.includes(targetPrimaryKey)) {
+      selectedColumns.push(targetPrimaryKey);
+    }
   }
 
   const queryColumns = new Set(selectedColumns);
-  queryColumns.add(relation.foreignKey);
+  relationKeys.target.forEach(foreignKey => queryColumns.add(foreignKey));
 
   const selection = buildColumnSelection(
     relation.target,
@@ -55,8 +56,8 @@ export const loadHasManyRelation = async (
     column => `Column '${column}' not found on relation '${relationName}'`
   );
 
-  const rows = await fetchRowsForKeys(ctx, relation.target, fkColumn, keys, selection, options?.filter);
-  const grouped = groupRowsByMany(rows, relation.foreignKey);
+  const rows = await fetchRowsForKeyTuples(ctx, relation.target, relationKeys.target, keys, selection, options?.filter);
+  const grouped = groupRowsByMany(rows, relationKeys.target);
 
   if (!requestedColumns) return grouped;
 
@@ -1,8 +1,12 @@
 import { TableDef } from '../../schema/table.js';
 import { SelectQueryBuilder } from '../../query-builder/select.js';
-import { ExpressionNode, inList, LiteralNode } from '../../core/ast/expression.js';
+import { ExpressionNode, and, eq, inList, LiteralNode, or } from '../../core/ast/expression.js';
+import type { ValueOperandInput } from '../../core/ast/expression.js';
+import { buildKeyString } from '../../query-builder/relation-keys.js';
+import { payloadResultSets } from '../../core/execution/db-executor.js';
 import type { QueryResult } from '../../core/execution/db-executor.js';
 import { ColumnDef } from '../../schema/column-types.js';
+import { convertRowFromDb } from '../../schema/value-converter.js';
 import { EntityContext } from '../entity-context.js';
 
 /**
@@ -61,9 +65,13 @@ const rowsFromResults = (results: QueryResult[]): Rows => {
 };
 
 const executeQuery = async (ctx: EntityContext, qb: SelectQueryBuilder<unknown, TableDef>): Promise<Rows> => {
-  const compiled = ctx.dialect.compileSelect(qb.getAST());
-  const results = await ctx.executor.executeSql(compiled.sql, compiled.params);
-  return rowsFromResults(results);
+  const ast = qb.getAST();
+  const compiled = ctx.dialect.compileSelect(ast);
+  const payload = ctx.executeQuery
+    ? await ctx.executeQuery({ sql: compiled.sql, params: compiled.params, ast: compiled.ast ?? ast })
+    : await ctx.executor.executeSql(compiled.sql, compiled.params);
+  const table = qb.getTable();
+  return rowsFromResults(payloadResultSets(payload)).map(row => convertRowFromDb(table, row));
 };
 
 export const toKey = (value: unknown): string => (value === null || value === undefined ? '' : String(value));
@@ -98,12 +106,65 @@ export const fetchRowsForKeys = async (
   return executeQuery(ctx, qb);
 };
 
-export const groupRowsByMany = (rows: Rows, keyColumn: string): Map<string, Rows> => {
+/**
+ * Collects the distinct (possibly composite) key values of tracked roots.
+ * @param roots - Tracked root entities
+ * @param columns - Key columns read from each root
+ * @returns Key values in column order, indexed by lookup key
+ */
+export const collectKeyTuplesFromRoots = (roots: EntityTracker[], columns: string[]): Map<string, unknown[]> => {
+  const collected = new Map<string, unknown[]>();
+  for (const tracked of roots) {
+    const entity = tracked.entity as Record<string, unknown>;
+    const key = buildKeyString(entity, columns);
+    if (key !== undefined && !collected.has(key)) {
+      collected.set(key, columns.map(column => entity[column]));
+    }
+  }
+  return collected;
+};
+
+/**
+ * Fetches the rows whose key columns match any of the given key tuples.
+ * Single-column keys use an IN list; composite keys an OR of per-tuple conjunctions.
+ * @param ctx - The entity context
+ * @param table - Table to query
+ * @param columns - Key columns on the queried table
+ * @param tuples - Key values in column order
+ * @param selection - Columns to select
+ * @param filter - Optional extra predicate
+ * @returns Matching rows
+ */
+export const fetchRowsForKeyTuples = async (
+  ctx: EntityContext,
+  table: TableDef,
+  columns: string[],
+  tuples: Map<string, unknown[]>,
+  selection: Record<string, ColumnDef>,
+  filter?: ExpressionNode
+): Promise<Rows> => {
+  const values = Array.from(tuples.values());
+  if (columns.length === 1) {
+    return fetchRowsForKeys(ctx, table, table.columns[columns[0]], new Set(values.map(tuple => tuple[0])), selection, filter);
+  }
+
+  const matches = values.map(tuple =>
+    and(...columns.map((column, idx) => eq(table.columns[column], tuple[idx] as ValueOperandInput)))
+  );
+  let qb = new SelectQueryBuilder(table).select(selection);
+  qb = qb.where(matches.length === 1 ? matches[0] : or(...matches));
+  if (filter) {
+    qb = qb.where(filter);
+  }
+  return executeQuery(ctx, qb);
+};
+
+export const groupRowsByMany = (rows: Rows, keyColumn: string | string[]): Map<string, Rows> => {
+  const columns = Array.isArray(keyColumn) ? keyColumn : [keyColumn];
   const grouped = new Map<string, Rows>();
   for (const row of rows) {
-    const value = row[keyColumn];
-    if (value === null || value === undefined) continue;
-    const key = toKey(value);
+    const key = buildKeyString(row, columns);
+    if (key === undefined) continue;
     const bucket = grouped.get(key) ?? [];
     bucket.push(row);
     grouped.set(key, bucket);
@@ -111,12 +172,12 @@ export const groupRowsByMany = (rows: Rows, keyColumn: string): Map<string, Rows
   return grouped;
 };
 
-export const groupRowsByUnique = (rows: Rows, keyColumn: string): Map<string, Record<string, unknown>> => {
+export const groupRowsByUnique = (rows: Rows, keyColumn: string | string[]): Map<string, Record<string, unknown>> => {
+  const columns = Array.isArray(keyColumn) ? keyColumn : [keyColumn];
   const lookup = new Map<string, Record<string, unknown>>();
   for (const row of rows) {
-    const value = row[keyColumn];
-    if (value === null || value === undefined) continue;
-    const key = toKey(value);
+    const key = buildKeyString(row, columns);
+    if (key === undefined) continue;
     if (!lookup.has(key)) {
       lookup.set(key, row);
     }
@@ -1,4 +1,5 @@
 import type { TableDef } from '../schema/table.js';
+import type { FieldChange } from './runtime-types.js';
 
 /**
  * Entity lifecycle hooks executed by the Unit of Work.
@@ -10,7 +11,11 @@ import type { TableDef } from '../schema/table.js';
 export interface TableHooks<TEntity = unknown, TContext = unknown> {
   beforeInsert?(ctx: TContext, entity: TEntity): Promise<void> | void;
   afterInsert?(ctx: TContext, entity: TEntity): Promise<void> | void;
-  beforeUpdate?(ctx: TContext, entity: TEntity): Promise<void> | void;
+  /**
+   * Runs before the UPDATE of a dirty entity.
+   * `changes` lists the changed columns and the relation changes pending on the entity.
+   */
+  beforeUpdate?(ctx: TContext, entity: TEntity, changes: FieldChange[]): Promise<void> | void;
   afterUpdate?(ctx: TContext, entity: TEntity): Promise<void> | void;
   beforeDelete?(ctx: TContext, entity: TEntity): Promise<void> | void;
   afterDelete?(ctx: TContext, entity: TEntity): Promise<void> | void;
@@ -0,0 +1,24 @@
+import { formatPrimaryKey } from './primary-key.js';
+
+/**
+ * Thrown when an UPDATE/DELETE guarded by a version column matched no rows,
+ * meaning another transaction changed or removed the row since it was loaded.
+ */
+export class OptimisticLockError extends Error {
+  /**
+   * @param table - Name of the table being written
+   * @param primaryKey - Primary key of the conflicting row
+   * @param expectedVersion - Version value the write expected to find
+   */
+  constructor(
+    public readonly table: string,
+    public readonly primaryKey: unknown,
+    public readonly expectedVersion: unknown
+  ) {
+    super(
+      `Optimistic lock failed for "${table}" with primary key ${formatPrimaryKey(primaryKey)}: ` +
+      'the row was modified or deleted by another transaction.'
+    );
+    this.name = 'OptimisticLockError';
+  }
+}
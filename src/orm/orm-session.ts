@@ -1,8 +1,7 @@
 import { Dialect } from '../core/dialect/abstract.js';
-import { eq } from '../core/ast/expression.js';
-import type { DbExecutor } from '../core/execution/db-executor.js';
-import { SelectQueryBuilder } from '../query-builder/select.js';
-import { findPrimaryKey } from '../query-builder/hydration-planner.js';
+import type { DbExecutor, ExecutionPayload } from '../core/execution/db-executor.js';
+import { SelectQueryBuilder, type SelectLockInput } from '../query-builder/select.js';
+import { findPrimaryKeys } from '../query-builder/hydration-planner.js';
 import type { ColumnDef } from '../schema/column-types.js';
 import type { TableDef } from '../schema/table.js';
 import { EntityInstance } from '../schema/types.js';
@@ -17,11 +16,17 @@ import type { TableHooks } from './lifecycle.js';
 import { DomainEventBus, DomainEventHandler, InitialHandlers } from './domain-event-bus.js';
 import { RelationChangeProcessor } from './relation-change-processor.js';
 import { createQueryLoggingExecutor, QueryLogger } from './query-logger.js';
-import { ExecutionContext } from './execution-context.js';
+import { createInstrumentedExecutor } from './instrumented-executor.js';
+import { SpanNames, withSpan, type Attributes } from '../core/execution/instrumentation/instrumentation.js';
+import { ExecutionContext, runQuery } from './execution-context.js';
+import type { QueryRequest } from './interceptor-pipeline.js';
 import type { HydrationContext } from './hydration-context.js';
 import type { EntityContext, PrimaryKey } from './entity-context.js';
+import { buildPrimaryKeyPredicate, formatPrimaryKey, readPrimaryKey, toPrimaryKey } from './primary-key.js';
 import {
   DomainEvent,
+  EntityStatus,
+  FieldChange,
   OrmDomainEvent,
   RelationChange,
   RelationChangeEntry,
@@ -29,15 +34,35 @@ import {
   TrackedEntity
 } from './runtime-types.js';
 import { executeHydrated } from './execute.js';
-import { runInTransaction } from './transaction-runner.js';
+import { runInTransaction, runWithTransactionRetry } from './transaction-runner.js';
+import type { TransactionOptions } from '../core/execution/transaction-options.js';
 import { saveGraphInternal, patchGraphInternal, SaveGraphOptions } from './save-graph.js';
 import type { SaveGraphInputPayload, PatchGraphInputPayload } from './save-graph-types.js';
 import type { QueryCacheManager } from '../cache/query-cache-manager.js';
+import { tableCacheTag } from '../cache/table-dependencies.js';
+import { createTenantScopedDialect } from './tenant-scope.js';
+import { createAsyncContext } from './async-context.js';
+import { validatePendingEntities, type EntityValidationOptions } from './entity-validation.js';
+import { buildOutboxInsert, clearDomainEvents } from './outbox.js';
+import {
+  createAuditTransactionId,
+  createHistoryRecorder,
+  toHistoryEntry,
+  type AuditActor,
+  type AuditScope,
+  type HistoryEntry
+} from './audit.js';
+import { getHistoryTable } from '../schema/history-table.js';
+import { and, eq, lte } from '../core/ast/expression.js';
 
 const NESTED_TRANSACTIONS_REQUIRE_SAVEPOINTS =
   'Nested session.transaction calls require savepoint support in this executor';
 const ROLLBACK_ONLY_TRANSACTION =
   'Cannot commit transaction because an inner transaction failed';
+const NESTED_TRANSACTION_OPTIONS =
+  'Transaction options can only be set on the outermost session.transaction call';
+const TRANSACTION_OPTIONS_REQUIRE_TRANSACTIONS =
+  'Isolation level and read-only options require an executor with transaction support';
 
 type LifecycleHookTarget = TableDef | EntityConstructor<object>;
 type LifecycleHookEntity<TTarget extends LifecycleHookTarget> =
@@ -81,6 +106,16 @@ export interface OrmSessionOptions<E extends DomainEvent = OrmDomainEvent> {
   cacheManager?: QueryCacheManager;
   /** Optional tenant ID for multi-tenancy */
   tenantId?: string | number;
+  /** Optional actor recorded in the history of audited tables */
+  actor?: AuditActor;
+  /** Validates flushed entities with their property decorators (defaults to `OrmOptions.validation`; `false` disables) */
+  validation?: EntityValidationOptions | false;
+}
+
+/** Options accepted by {@link OrmSession.history} to reconstruct a row. */
+export interface HistoryAsOfOptions {
+  /** Point in time the row is reconstructed at */
+  asOf: Date;
 }
 
 export interface SaveGraphSessionOptions extends SaveGraphOptions {
@@ -90,6 +125,12 @@ export interface SaveGraphSessionOptions extends SaveGraphOptions {
   flush?: boolean;
 }
 
+/** Options accepted by {@link OrmSession.find} and {@link OrmSession.findOne}. */
+export interface FindOptions {
+  /** Row lock to acquire on the loaded row (e.g. 'update' for SELECT ... FOR UPDATE). */
+  lock?: SelectLockInput;
+}
+
 /**
  * ORM Session that manages entity lifecycle, identity mapping, and database operations.
  * @template E - The domain event type
@@ -111,6 +152,10 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
   readonly cacheManager?: QueryCacheManager;
   /** The tenant ID for multi-tenancy support */
   readonly tenantId?: string | number;
+  /** The actor recorded in the history of audited tables */
+  readonly actor?: AuditActor;
+  /** The flush validation configuration (undefined when validation is off) */
+  readonly validation?: EntityValidationOptions;
 
   private readonly interceptors: OrmInterceptor[];
   private readonly tableHooks = new WeakMap<TableDef, TableHooks>();
@@ -118,6 +163,11 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
   private transactionDepth = 0;
   private savepointCounter = 0;
   private rollbackOnly = false;
+  private committing = false;
+  private readonly pendingCacheInvalidations = new Set<string>();
+  private readonly tenantScopeBypass = createAsyncContext<boolean>();
+  private readonly sessionDialect: Dialect;
+  private auditTransactionId?: string;
 
   /**
    * Creates a new OrmSession instance.
@@ -125,21 +175,38 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
    */
   constructor(opts: OrmSessionOptions<E>) {
     this.orm = opts.orm;
-    this.executor = createQueryLoggingExecutor(opts.executor, opts.queryLogger);
+    this.executor = createInstrumentedExecutor(
+      createQueryLoggingExecutor(opts.executor, opts.queryLogger),
+      this.orm.instrumentation
+    );
     this.interceptors = [...(opts.interceptors ?? [])];
 
     this.identityMap = new IdentityMap();
+    this.sessionDialect = opts.tenantId === undefined
+      ? this.orm.dialect
+      : createTenantScopedDialect(this.orm.dialect, () => this.activeTenantId);
     this.unitOfWork = new UnitOfWork(
-      this.orm.dialect,
+      this.sessionDialect,
       this.executor,
       this.identityMap,
       () => this,
-      table => this.tableHooks.get(table)
+      table => this.tableHooks.get(table),
+      () => this.activeTenantId,
+      request => this.executeQuery(request),
+      createHistoryRecorder(this.sessionDialect, request => this.executeQuery(request), () => this.auditScope()),
+      entity => this.relationChanges.getPendingChanges(entity)
+    );
+    this.relationChanges = new RelationChangeProcessor(
+      this.unitOfWork,
+      this.sessionDialect,
+      this.executor,
+      request => this.executeQuery(request)
     );
-    this.relationChanges = new RelationChangeProcessor(this.unitOfWork, this.orm.dialect, this.executor);
     this.domainEvents = new DomainEventBus<E, OrmSession<E>>(opts.domainEventHandlers);
     this.cacheManager = opts.cacheManager;
     this.tenantId = opts.tenantId;
+    this.actor = opts.actor;
+    this.validation = opts.validation === false ? undefined : opts.validation ?? this.orm.validation;
   }
 
   /**
@@ -158,9 +225,25 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
 
   /**
    * Gets the database dialect.
+   * When the session has a tenantId, statements compiled through it are scoped to that tenant.
    */
   get dialect(): Dialect {
-    return this.orm.dialect;
+    return this.sessionDialect;
+  }
+
+  /**
+   * Runs a callback with tenant scoping disabled for this session (e.g. for admin queries).
+   * Only statements compiled from the callback's async call chain are unscoped; queries running
+   * concurrently on the same session stay scoped.
+   * @param fn - Callback to run without tenant filtering
+   * @returns The callback result
+   */
+  async withoutTenantScope<T>(fn: () => Promise<T>): Promise<T> {
+    return this.tenantScopeBypass.run(true, fn);
+  }
+
+  private get activeTenantId(): string | number | undefined {
+    return this.tenantScopeBypass.getStore() ? undefined : this.tenantId;
   }
 
   /**
@@ -316,21 +399,21 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
    * Finds an entity by its primary key.
    * @template TCtor - The entity constructor type
    * @param entityClass - The entity constructor
-   * @param id - The primary key value
+   * @param id - The primary key value, or an object keyed by column for composite keys
+   * @param options - Optional find options (e.g. row lock)
    * @returns The entity instance or null if not found
    * @throws If entity metadata is not bootstrapped or table has no primary key
    */
   async find<TCtor extends EntityConstructor<object>>(
     entityClass: TCtor,
-    id: unknown
+    id: unknown,
+    options?: FindOptions
   ): Promise<InstanceType<TCtor> | null> {
     const table = getTableDefFromEntity(entityClass);
     if (!table) {
       throw new Error('Entity metadata has not been bootstrapped');
     }
-    const primaryKey = findPrimaryKey(table);
-    const column = table.columns[primaryKey];
-    if (!column) {
+    if (findPrimaryKeys(table).some(primaryKey => !table.columns[primaryKey])) {
       throw new Error('Entity table does not expose a primary key');
     }
     const columnSelections = Object.values(table.columns).reduce<Record<string, ColumnDef>>((acc, col) => {
@@ -339,9 +422,9 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
     }, {});
     const qb = selectFromEntity(entityClass)
       .select(columnSelections)
-      .where(eq(column, id as string | number))
+      .where(buildPrimaryKeyPredicate(table, toPrimaryKey(table, id)))
       .limit(1);
-    const rows = await executeHydrated(this, qb);
+    const rows = await executeHydrated(this, options?.lock ? qb.lock(options.lock) : qb);
     return (rows[0] ?? null) as InstanceType<TCtor> | null;
   }
 
@@ -349,10 +432,14 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
    * Finds a single entity using a query builder.
    * @template TTable - The table type
    * @param qb - The query builder
+   * @param options - Optional find options (e.g. row lock)
    * @returns The first entity instance or null if not found
    */
-  async findOne<TTable extends TableDef>(qb: SelectQueryBuilder<unknown, TTable>): Promise<EntityInstance<TTable> | null> {
-    const limited = qb.limit(1);
+  async findOne<TTable extends TableDef>(
+    qb: SelectQueryBuilder<unknown, TTable>,
+    options?: FindOptions
+  ): Promise<EntityInstance<TTable> | null> {
+    const limited = options?.lock ? qb.limit(1).lock(options.lock) : qb.limit(1);
     const rows = await executeHydrated(this, limited);
     return rows[0] ?? null;
   }
@@ -429,16 +516,15 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
     if (!table) {
       throw new Error('Entity metadata has not been bootstrapped');
     }
-    const primaryKey = findPrimaryKey(table);
-    const pkValue = (payload as Record<string, unknown>)[primaryKey];
-    if (pkValue === undefined || pkValue === null) {
-      throw new Error(`updateGraph requires a primary key value for "${primaryKey}"`);
+    const pkValue = readPrimaryKey(table, payload as Record<string, unknown>);
+    if (pkValue === undefined) {
+      throw new Error(`updateGraph requires a primary key value for "${findPrimaryKeys(table).join('", "')}"`);
     }
 
     const resolved = this.resolveSaveGraphOptions(options);
     const { transactional = true, flush = false, ...graphOptions } = resolved;
     const execute = async (): Promise<InstanceType<TCtor> | null> => {
-      const tracked = this.getEntity(table, pkValue as PrimaryKey) as InstanceType<TCtor> | undefined;
+      const tracked = this.getEntity(table, pkValue) as InstanceType<TCtor> | undefined;
       const existing = tracked ?? await this.find(entityClass, pkValue);
       if (!existing) return null;
       return saveGraphInternal(this, entityClass, payload, graphOptions);
@@ -476,16 +562,15 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
     if (!table) {
       throw new Error('Entity metadata has not been bootstrapped');
     }
-    const primaryKey = findPrimaryKey(table);
-    const pkValue = payload[primaryKey];
-    if (pkValue === undefined || pkValue === null) {
-      throw new Error(`patchGraph requires a primary key value for "${primaryKey}"`);
+    const pkValue = readPrimaryKey(table, payload);
+    if (pkValue === undefined) {
+      throw new Error(`patchGraph requires a primary key value for "${findPrimaryKeys(table).join('", "')}"`);
     }
 
     const resolved = this.resolveSaveGraphOptions(options);
     const { transactional = true, flush = false, ...graphOptions } = resolved;
     const execute = async (): Promise<InstanceType<TCtor> | null> => {
-      const tracked = this.getEntity(table, pkValue as PrimaryKey) as InstanceType<TCtor> | undefined;
+      const tracked = this.getEntity(table, pkValue) as InstanceType<TCtor> | undefined;
       const existing = tracked ?? await this.find(entityClass, pkValue);
       if (!existing) return null;
       return patchGraphInternal(this, entityClass, existing, payload, graphOptions);
@@ -514,10 +599,9 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
     if (!table) {
       throw new Error('Entity metadata has not been bootstrapped');
     }
-    const primaryKey = findPrimaryKey(table);
-    const pkValue = (entity as Record<string, unknown>)[primaryKey];
-    if (pkValue !== undefined && pkValue !== null) {
-      this.trackManaged(table, pkValue as PrimaryKey, entity);
+    const pkValue = readPrimaryKey(table, entity as Record<string, unknown>);
+    if (pkValue !== undefined) {
+      this.trackManaged(table, pkValue, entity);
     } else {
       this.trackNew(table, entity);
     }
@@ -531,64 +615,362 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
     this.markRemoved(entity);
   }
 
+  /**
+   * Restores a soft-deleted entity by clearing its soft-delete column.
+   * The UPDATE is issued on the next flush/commit.
+   * @param entity - A tracked entity of a table declaring a softDeleteColumn
+   */
+  async restore(entity: object): Promise<void> {
+    const tracked = this.unitOfWork.findTracked(entity);
+    if (!tracked) {
+      throw new Error('restore() requires an entity tracked by this session.');
+    }
+    const { table } = tracked;
+    if (!table.softDeleteColumn) {
+      throw new Error(`Table "${table.name}" does not declare a softDeleteColumn.`);
+    }
+    (entity as Record<string, unknown>)[table.columns[table.softDeleteColumn].name] = null;
+    this.markDirty(entity);
+  }
+
+  /**
+   * Lists the pending changes of a tracked entity: changed columns as `{ field, from, to }`
+   * followed by the relation changes queued on its collections and references.
+   * @param entity - A tracked entity
+   * @returns Pending changes, empty when the entity is unchanged or not tracked
+   */
+  getChangeSet(entity: object): FieldChange[] {
+    return this.unitOfWork.getChangeSet(entity);
+  }
+
+  /**
+   * Checks whether a tracked entity has pending changes.
+   * New and removed entities are dirty as a whole.
+   * @param entity - A tracked entity
+   * @param field - Optional column or relation name to check
+   * @returns True when the entity (or the given field) has pending changes
+   */
+  isDirty(entity: object, field?: string): boolean {
+    const tracked = this.unitOfWork.findTracked(entity);
+    if (!tracked) return false;
+    const changes = this.unitOfWork.getChangeSet(entity);
+    if (field !== undefined) return changes.some(change => change.field === field);
+    return changes.length > 0 || tracked.status === EntityStatus.New || tracked.status === EntityStatus.Removed;
+  }
+
+  /**
+   * Reloads the columns of a tracked entity from the database, discarding its pending changes.
+   * @param entity - A tracked entity with a primary key
+   * @throws If the entity is not tracked or its row no longer exists
+   */
+  async refresh(entity: object): Promise<void> {
+    const tracked = this.unitOfWork.findTracked(entity);
+    if (!tracked || tracked.pk == null) {
+      throw new Error('refresh() requires a persisted entity tracked by this session.');
+    }
+    const { table } = tracked;
+    const [row] = await new SelectQueryBuilder(table)
+      .select(...Object.keys(table.columns))
+      .where(buildPrimaryKeyPredicate(table, tracked.pk))
+      .usePrimary()
+      .executePlain(this) as Record<string, unknown>[];
+    if (!row) {
+      throw new Error(`refresh() could not find row ${formatPrimaryKey(tracked.pk)} in "${table.name}".`);
+    }
+    this.unitOfWork.reload(entity, row);
+    this.relationChanges.discardChanges(entity);
+  }
+
+  /**
+   * Stops tracking an entity: later changes to it are not flushed and its pending
+   * relation changes are dropped. Loading the same row again creates a new instance.
+   * @param entity - A tracked entity
+   */
+  detach(entity: object): void {
+    this.unitOfWork.detach(entity);
+    this.relationChanges.discardChanges(entity);
+  }
+
+  /**
+   * Restores the loaded column values of a tracked entity and cancels its pending update,
+   * removal and relation changes. Collections already loaded in memory are not rewound.
+   * @param entity - A tracked entity that was loaded or flushed by this session
+   * @throws If the entity is not tracked or has never been persisted
+   */
+  revert(entity: object): void {
+    const tracked = this.unitOfWork.findTracked(entity);
+    if (!tracked?.original) {
+      throw new Error('revert() requires an entity loaded or persisted by this session.');
+    }
+    this.unitOfWork.revert(entity);
+    this.relationChanges.discardChanges(entity);
+  }
+
+  /**
+   * Reads the history of an audited row, oldest change first.
+   * Tenant-scoped sessions only see history recorded for their tenant.
+   * @param target - Audited table or entity class
+   * @param id - Primary key (object keyed by column for composite keys)
+   * @returns Recorded changes
+   */
+  history<TTarget extends LifecycleHookTarget>(target: TTarget, id: unknown): Promise<HistoryEntry[]>;
+  /**
+   * Reconstructs an audited row as it was at a point in time, from its history.
+   * @param target - Audited table or entity class
+   * @param id - Primary key (object keyed by column for composite keys)
+   * @param options - Point in time
+   * @returns Detached row (an instance of the entity class for decorated entities), or null when it did not exist
+   */
+  history<TTarget extends LifecycleHookTarget>(
+    target: TTarget,
+    id: unknown,
+    options: HistoryAsOfOptions
+  ): Promise<LifecycleHookEntity<TTarget> | null>;
+  async history<TTarget extends LifecycleHookTarget>(
+    target: TTarget,
+    id: unknown,
+    options?: HistoryAsOfOptions
+  ): Promise<HistoryEntry[] | LifecycleHookEntity<TTarget> | null> {
+    const table = typeof target === 'function'
+      ? getTableDefFromEntity(target as EntityConstructor<object>)
+      : target as TableDef;
+    if (!table) {
+      throw new Error('Entity metadata has not been bootstrapped');
+    }
+    const history = getHistoryTable(table);
+    const columns = history.columns;
+    const filters = [eq(columns.entity_id, formatPrimaryKey(toPrimaryKey(table, id)))];
+    const tenantId = this.activeTenantId;
+    if (tenantId !== undefined) {
+      filters.push(eq(columns.tenant_id, String(tenantId)));
+    }
+    if (options) {
+      filters.push(lte(columns.changed_at, options.asOf.getTime()));
+    }
+
+    const rows = await new SelectQueryBuilder(history)
+      .select(...Object.keys(columns))
+      .where(and(...filters))
+      .orderBy(columns.history_id)
+      .executePlain(this) as Record<string, unknown>[];
+    const entries = rows.map(toHistoryEntry);
+    if (!options) return entries;
+
+    const state = entries[entries.length - 1]?.state;
+    if (!state) return null;
+    const row = typeof target === 'function' ? Object.create((target as EntityConstructor).prototype) as object : {};
+    return Object.assign(row, state) as LifecycleHookEntity<TTarget>;
+  }
+
   /**
    * Flushes pending changes to the database without session interceptors,
    * relation processing, or domain events. Table lifecycle hooks still run
    * because they are part of the Unit of Work.
    */
   async flush(): Promise<void> {
-    await this.unitOfWork.flush();
+    await this.traceFlush(async () => {
+      try {
+        await this.validatePending();
+        await this.unitOfWork.flush();
+      } finally {
+        await this.recordTableWrites(this.unitOfWork.takeWrittenTables());
+        if (!this.isInTransaction()) this.auditTransactionId = undefined;
+      }
+    });
   }
 
   /**
    * Flushes pending changes with interceptors and relation processing.
    */
   private async flushWithHooks(): Promise<void> {
-    for (const interceptor of this.interceptors) {
-      await interceptor.beforeFlush?.(this);
+    await this.traceFlush(async () => {
+      for (const interceptor of this.interceptors) {
+        await interceptor.beforeFlush?.(this);
+      }
+
+      await this.validatePending();
+      await this.unitOfWork.flush();
+      await this.relationChanges.process();
+      await this.validatePending();
+      await this.unitOfWork.flush();
+      await this.recordTableWrites([
+        ...this.unitOfWork.takeWrittenTables(),
+        ...this.relationChanges.takeWrittenTables()
+      ]);
+
+      for (const interceptor of this.interceptors) {
+        await interceptor.afterFlush?.(this);
+      }
+    });
+  }
+
+  /**
+   * Runs property sanitizers, transformers and validators on the entities the next
+   * Unit of Work flush will write, when validation is enabled.
+   * @throws EntityValidationError when any property fails validation
+   */
+  private async validatePending(): Promise<void> {
+    if (!this.validation) return;
+    await validatePendingEntities(
+      this.unitOfWork.getTracked(),
+      entity => this.relationChanges.getPendingChanges(entity),
+      this.validation
+    );
+  }
+
+  /**
+   * Writes the pending domain events of tracked entities to the outbox table (outbox mode only).
+   * Runs inside the flush transaction so events are stored atomically with the changes.
+   */
+  private async writeOutbox(): Promise<void> {
+    const { outbox } = this.orm;
+    if (!outbox) return;
+    const builder = buildOutboxInsert(outbox, this.unitOfWork.getTracked(), Date.now());
+    if (!builder) return;
+    const compiled = builder.compile(this.orm.dialect);
+    await this.executeQuery({ sql: compiled.sql, params: compiled.params, ast: compiled.ast ?? builder.getAST() });
+  }
+
+  /**
+   * Hands committed domain events to in-process handlers, or drops them from the
+   * entities in outbox mode since they were already stored.
+   */
+  private async publishDomainEvents(): Promise<void> {
+    if (this.orm.outbox) {
+      clearDomainEvents(this.unitOfWork.getTracked());
+      return;
     }
+    await this.domainEvents.dispatch(this.unitOfWork.getTracked(), this);
+  }
 
-    await this.unitOfWork.flush();
-    await this.relationChanges.process();
-    await this.unitOfWork.flush();
+  /**
+   * Actor, tenant and transaction id stamped on history rows.
+   * The transaction id is shared by every write until the current transaction (or standalone flush) ends.
+   */
+  private auditScope(): AuditScope {
+    this.auditTransactionId ??= createAuditTransactionId();
+    return {
+      actor: this.actor ?? this.orm.audit?.actor?.(),
+      tenantId: this.tenantId,
+      transactionId: this.auditTransactionId
+    };
+  }
+
+  /**
+   * Runs a flush inside an `orm.flush` span.
+   * @param action - Flush work
+   */
+  private traceFlush(action: () => Promise<void>): Promise<void> {
+    return withSpan(
+      this.orm.instrumentation,
+      SpanNames.flush,
+      { 'orm.tracked_entities': this.unitOfWork.getTracked().length },
+      action
+    );
+  }
 
-    for (const interceptor of this.interceptors) {
-      await interceptor.afterFlush?.(this);
+  /**
+   * Runs a transaction (or savepoint) inside a `db.transaction` span.
+   * Executors without transaction support get no span.
+   * @param attributes - Span attributes
+   * @param action - Transactional work
+   * @returns The action result
+   */
+  private traceTransaction<T>(attributes: Attributes, action: () => Promise<T>): Promise<T> {
+    if (!this.executor.capabilities.transactions) {
+      return action();
     }
+    return withSpan(this.orm.instrumentation, SpanNames.transaction, attributes, action);
   }
 
   /**
    * Commits the current transaction.
    */
   async commit(): Promise<void> {
-    await runInTransaction(this.executor, async () => {
-      await this.flushWithHooks();
-    });
+    this.committing = true;
+    try {
+      await this.traceTransaction({}, () =>
+        runInTransaction(this.executor, async () => {
+          await this.flushWithHooks();
+          await this.writeOutbox();
+        })
+      );
+    } catch (err) {
+      if (this.executor.capabilities.transactions) {
+        this.discardCacheInvalidations();
+      }
+      throw err;
+    } finally {
+      this.committing = false;
+      this.auditTransactionId = undefined;
+      await this.settleCacheInvalidations();
+    }
 
-    await this.domainEvents.dispatch(this.unitOfWork.getTracked(), this);
+    await this.publishDomainEvents();
   }
 
   /**
    * Executes a function within a transaction.
+   * With a retry policy, deadlocks and serialization failures roll back and re-run `fn`
+   * against a reset session state.
    * @template T - The return type
    * @param fn - The function to execute
+   * @param options - Isolation level, access mode and retry policy (outermost transaction only)
    * @returns The result of the function
    * @throws If the transaction fails
    */
-  async transaction<T>(fn: (session: OrmSession<E>) => Promise<T>): Promise<T> {
+  async transaction<T>(fn: (session: OrmSession<E>) => Promise<T>, options?: TransactionOptions): Promise<T> {
     // If the executor can't do transactions, just run and commit once.
     if (!this.executor.capabilities.transactions) {
+      if (options?.isolationLevel || options?.readOnly) {
+        throw new Error(TRANSACTION_OPTIONS_REQUIRE_TRANSACTIONS);
+      }
       const result = await fn(this);
       await this.commit();
       return result;
     }
 
+    if (this.transactionDepth > 0) {
+      if (options) {
+        throw new Error(NESTED_TRANSACTION_OPTIONS);
+      }
+      return this.runTransaction(fn);
+    }
+
+    return runWithTransactionRetry(this.executor, () => this.runTransaction(fn, options), options?.retry);
+  }
+
+  /**
+   * Runs one transaction attempt, or a savepoint when a transaction is already open.
+   * @param fn - The function to execute
+   * @param options - Options applied when beginning the outermost transaction
+   * @returns The result of the function
+   */
+  private runTransaction<T>(fn: (session: OrmSession<E>) => Promise<T>, options?: TransactionOptions): Promise<T> {
+    return this.traceTransaction(
+      {
+        'db.transaction.nested': this.transactionDepth > 0,
+        'db.transaction.isolation_level': options?.isolationLevel,
+        'db.transaction.read_only': options?.readOnly
+      },
+      () => this.runTransactionScope(fn, options)
+    );
+  }
+
+  /**
+   * Begins the transaction or savepoint, runs `fn`, flushes and commits, rolling back on failure.
+   * @param fn - The function to execute
+   * @param options - Options applied when beginning the outermost transaction
+   * @returns The result of the function
+   */
+  private async runTransactionScope<T>(fn: (session: OrmSession<E>) => Promise<T>, options?: TransactionOptions): Promise<T> {
     const isOutermost = this.transactionDepth === 0;
     let savepointName: string | null = null;
+    const invalidationsBefore = isOutermost ? undefined : new Set(this.pendingCacheInvalidations);
 
     if (isOutermost) {
       this.rollbackOnly = false;
-      await this.executor.beginTransaction();
+      await this.executor.beginTransaction(options);
     } else {
       this.assertSavepointSupport();
       savepointName = this.nextSavepointName();
@@ -603,8 +985,10 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
       this.throwIfRollbackOnly();
 
       if (isOutermost) {
+        await this.writeOutbox();
         await this.executor.commitTransaction();
-        await this.domainEvents.dispatch(this.unitOfWork.getTracked(), this);
+        await this.invalidatePendingCache();
+        await this.publishDomainEvents();
       } else {
         await this.executor.releaseSavepoint!(savepointName!);
       }
@@ -616,6 +1000,7 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
       } else {
         this.rollbackOnly = true;
         await this.executor.rollbackToSavepoint!(savepointName!);
+        this.discardCacheInvalidations(invalidationsBefore);
       }
       throw err;
     } finally {
@@ -623,6 +1008,7 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
       if (this.transactionDepth === 0) {
         this.rollbackOnly = false;
         this.savepointCounter = 0;
+        this.auditTransactionId = undefined;
       }
     }
   }
@@ -639,6 +1025,7 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
     this.rollbackOnly = false;
     this.unitOfWork.reset();
     this.relationChanges.reset();
+    this.discardCacheInvalidations();
   }
 
   /**
@@ -647,12 +1034,35 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
    */
   getExecutionContext(): ExecutionContext {
     return {
-      dialect: this.orm.dialect,
+      dialect: this.sessionDialect,
       executor: this.executor,
-      interceptors: this.orm.interceptors
+      interceptors: this.orm.interceptors,
+      queryScope: () => ({
+        session: this as OrmSession,
+        tenantId: this.activeTenantId,
+        inTransaction: this.isInTransaction()
+      })
     };
   }
 
+  /**
+   * Runs a statement through the ORM interceptor pipeline, tagged with this session's
+   * scope (session, active tenant, transaction state).
+   * @param request - Statement and its metadata (AST, operation, tables, entity class)
+   * @returns Execution payload
+   */
+  executeQuery(request: QueryRequest): Promise<ExecutionPayload> {
+    return runQuery(this.getExecutionContext(), request);
+  }
+
+  /**
+   * Whether statements currently run inside a transaction opened by this session
+   * (`transaction()` or `commit()`).
+   */
+  isInTransaction(): boolean {
+    return this.transactionDepth > 0 || (this.committing && this.executor.capabilities.transactions);
+  }
+
   /**
    * Gets the hydration context.
    * @returns The hydration context
@@ -709,6 +1119,46 @@ export class OrmSession<E extends DomainEvent = OrmDomainEvent> implements Entit
     await this.cacheManager.invalidateKey(key, this.tenantId);
   }
 
+  /**
+   * Records tables written through this session so that cached queries created with
+   * `autoInvalidate` and reading them are invalidated. Inside a transaction the
+   * invalidation waits for the commit and is discarded on rollback.
+   * @param tables - Names of the written tables
+   */
+  async recordTableWrites(tables: string[]): Promise<void> {
+    tables.forEach(table => this.pendingCacheInvalidations.add(table));
+    await this.settleCacheInvalidations();
+  }
+
+  /**
+   * Invalidates the recorded table writes unless a transaction is still open.
+   */
+  private async settleCacheInvalidations(): Promise<void> {
+    if (this.transactionDepth > 0 || this.committing) return;
+    await this.invalidatePendingCache();
+  }
+
+  /**
+   * Invalidates the cache tags of every recorded table write.
+   */
+  private async invalidatePendingCache(): Promise<void> {
+    if (!this.pendingCacheInvalidations.size) return;
+    const tags = Array.from(this.pendingCacheInvalidations, tableCacheTag);
+    this.pendingCacheInvalidations.clear();
+    await this.cacheManager?.invalidateTags(tags);
+  }
+
+  /**
+   * Forgets table writes that were rolled back.
+   * @param keep - Writes recorded before the rolled back savepoint, which stay pending
+   */
+  private discardCacheInvalidations(keep?: Set<string>): void {
+    this.unitOfWork.takeWrittenTables();
+    this.relationChanges.takeWrittenTables();
+    this.pendingCacheInvalidations.clear();
+    keep?.forEach(table => this.pendingCacheInvalidations.add(table));
+  }
+
   /**
    * Merges session defaults with per-call saveGraph options.
    * @param options - Per-call saveGraph options
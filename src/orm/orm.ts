@@ -5,25 +5,49 @@ import type { NamingStrategy } from '../codegen/naming-strategy.js';
 import { InterceptorPipeline } from './interceptor-pipeline.js';
 import { DefaultNamingStrategy } from '../codegen/naming-strategy.js';
 import { OrmSession } from './orm-session.js';
+import type { TransactionOptions } from '../core/execution/transaction-options.js';
 import type { QueryCacheManager } from '../cache/query-cache-manager.js';
 import type { Duration, CacheProvider, CacheStrategy } from '../cache/index.js';
 import { QueryCacheManager as QueryCacheManagerImpl } from '../cache/query-cache-manager.js';
 import { DefaultCacheStrategy } from '../cache/strategies/default-cache-strategy.js';
+import { createReplicaExecutorFactory, type ReplicaRoutingOptions } from './replica-executor-factory.js';
+import { noopInstrumentation, type Instrumentation } from '../core/execution/instrumentation/instrumentation.js';
+import { resolveOutboxOptions, type OutboxConfig, type OutboxOptions } from './outbox.js';
+import type { AuditActor } from './audit.js';
+import type { EntityValidationOptions } from './entity-validation.js';
 
 /**
  * Options for creating an ORM instance.
  */
-export interface OrmOptions {
+export interface OrmOptions<E extends DomainEvent = OrmDomainEvent> {
   /** The database dialect */
   dialect: Dialect;
   /** The database executor factory */
   executorFactory: DbExecutorFactory;
+  /** Optional read replicas; session reads are routed to them and `executorFactory` becomes the primary */
+  readReplicas?: ReplicaRoutingOptions;
   /** Optional interceptors pipeline */
   interceptors?: InterceptorPipeline;
   /** Optional naming strategy */
   namingStrategy?: NamingStrategy;
   /** Optional cache configuration */
   cache?: OrmCacheOptions;
+  /** Optional tracing/metrics hooks for queries, flushes and transactions (default: no-op) */
+  instrumentation?: Instrumentation;
+  /** Stores domain events in an outbox table within the flush transaction instead of dispatching them in-process */
+  outbox?: OutboxOptions<E>;
+  /** Optional auditing configuration for tables declared with the `audit` option */
+  audit?: OrmAuditOptions;
+  /** Runs property sanitizers, transformers and validators on every flushed insert/update (off by default) */
+  validation?: EntityValidationOptions;
+}
+
+/**
+ * Auditing options for ORM
+ */
+export interface OrmAuditOptions {
+  /** Resolves the actor of sessions created without one (e.g. from request context) */
+  actor?: () => AuditActor | undefined;
 }
 
 /**
@@ -73,17 +97,31 @@ export class Orm<E extends DomainEvent = OrmDomainEvent> {
   readonly namingStrategy: NamingStrategy;
   /** The cache manager (if configured) */
   readonly cacheManager?: QueryCacheManager;
+  /** The instrumentation receiving spans and metrics */
+  readonly instrumentation: Instrumentation;
+  /** The outbox configuration (if outbox mode is enabled) */
+  readonly outbox?: OutboxConfig<E>;
+  /** The auditing configuration */
+  readonly audit?: OrmAuditOptions;
+  /** The flush validation configuration (if enabled) */
+  readonly validation?: EntityValidationOptions;
   private readonly executorFactory: DbExecutorFactory;
 
   /**
    * Creates a new ORM instance.
    * @param opts - ORM options
    */
-  constructor(opts: OrmOptions) {
+  constructor(opts: OrmOptions<E>) {
     this.dialect = opts.dialect;
     this.interceptors = opts.interceptors ?? new InterceptorPipeline();
     this.namingStrategy = opts.namingStrategy ?? new DefaultNamingStrategy();
-    this.executorFactory = opts.executorFactory;
+    this.instrumentation = opts.instrumentation ?? noopInstrumentation;
+    this.outbox = opts.outbox ? resolveOutboxOptions(opts.outbox) : undefined;
+    this.audit = opts.audit;
+    this.validation = opts.validation;
+    this.executorFactory = opts.readReplicas
+      ? createReplicaExecutorFactory({ ...opts.readReplicas, primary: opts.executorFactory })
+      : opts.executorFactory;
 
     // Initialize cache manager if cache options provided
     if (opts.cache) {
@@ -97,17 +135,24 @@ export class Orm<E extends DomainEvent = OrmDomainEvent> {
 
   /**
    * Creates a new ORM session.
-   * @param options - Optional session options (e.g., tenantId for multi-tenancy)
+   * @param options - Optional session options (tenantId for multi-tenancy, actor for audit history,
+   * validation to override `OrmOptions.validation`, or `false` to turn it off)
    * @returns The ORM session
    */
-  createSession(options?: { tenantId?: string | number }): OrmSession<E> {
+  createSession(options?: {
+    tenantId?: string | number;
+    actor?: AuditActor;
+    validation?: EntityValidationOptions | false;
+  }): OrmSession<E> {
     // No implicit transaction binding; callers should use Orm.transaction() for transactional work.
     const executor = this.executorFactory.createExecutor();
     return new OrmSession<E>({ 
       orm: this, 
       executor,
       cacheManager: this.cacheManager,
-      tenantId: options?.tenantId
+      tenantId: options?.tenantId,
+      actor: options?.actor,
+      validation: options?.validation
     });
   }
 
@@ -115,10 +160,11 @@ export class Orm<E extends DomainEvent = OrmDomainEvent> {
    * Executes a function within a transaction.
    * @template T - The return type
    * @param fn - The function to execute
+   * @param options - Isolation level, access mode and deadlock/serialization retry policy
    * @returns The result of the function
    * @throws If the transaction fails
    */
-  async transaction<T>(fn: (session: OrmSession<E>) => Promise<T>): Promise<T> {
+  async transaction<T>(fn: (session: OrmSession<E>) => Promise<T>, options?: TransactionOptions): Promise<T> {
     const executor = this.executorFactory.createTransactionalExecutor();
     const session = new OrmSession<E>({ 
       orm: this, 
@@ -127,7 +173,7 @@ export class Orm<E extends DomainEvent = OrmDomainEvent> {
     });
     try {
       // A real transaction scope: begin before running user code, commit/rollback after.
-      return await session.transaction(() => fn(session));
+      return await session.transaction(() => fn(session), options);
     } finally {
       await session.dispose();
     }
@@ -0,0 +1,272 @@
+import { and, eq, inList, isNull, lte, or } from '../core/ast/expression.js';
+import type { ExpressionNode } from '../core/ast/expression.js';
+import { selectFrom, update } from '../query/index.js';
+import { DomainEventBus, type InitialHandlers } from './domain-event-bus.js';
+import type { Orm } from './orm.js';
+import type { OrmSession } from './orm-session.js';
+import type { OutboxConfig, OutboxStatus } from './outbox.js';
+import type { DomainEvent, OrmDomainEvent } from './runtime-types.js';
+
+/** A stored domain event handed to transports and handlers. */
+export interface OutboxMessage<E extends DomainEvent = OrmDomainEvent> {
+  /** Outbox row id */
+  id: number;
+  /** Deserialized event */
+  event: E;
+  /** Table of the entity that raised the event */
+  aggregateType: string | null;
+  /** Primary key of the entity that raised the event (JSON for composite keys) */
+  aggregateId: string | null;
+  /** Delivery attempts made before this one */
+  attempts: number;
+  /** When the event was written to the outbox */
+  createdAt: Date;
+}
+
+/** Publishes outbox messages to an external system (message broker, webhook, queue...). */
+export interface OutboxTransport<E extends DomainEvent = OrmDomainEvent> {
+  publish(message: OutboxMessage<E>): Promise<void>;
+}
+
+export interface OutboxRelayOptions<E extends DomainEvent = OrmDomainEvent> {
+  /** Transport receiving every message */
+  transport?: OutboxTransport<E>;
+  /** In-process handlers keyed by event type; they receive the message as context */
+  handlers?: InitialHandlers<E, OutboxMessage<E>>;
+  /**
+   * Claims rows with `FOR UPDATE SKIP LOCKED` (default: true). Disable it on SQLite, which has
+   * no row locks; the claim token still keeps concurrent relays from sharing rows.
+   */
+  skipLocked?: boolean;
+  /** Rows claimed per poll (default: 50) */
+  batchSize?: number;
+  /** How long claimed rows stay reserved for this relay in milliseconds (default: 30000) */
+  leaseMs?: number;
+  /** Attempts before a row is marked 'failed' (default: 10) */
+  maxAttempts?: number;
+  /** Delay before retrying a failed delivery, given the attempts made so far (default: exponential from 1s, capped at 5 minutes) */
+  retryDelayMs?: (attempts: number) => number;
+  /** Delay between polls when the previous poll did not fill a batch (default: 1000) */
+  pollIntervalMs?: number;
+  /** Identifier written to `locked_by` (default: a random id) */
+  relayId?: string;
+  /** Called when a poll fails or a delivery throws */
+  onError?: (error: unknown, message?: OutboxMessage<E>) => void;
+}
+
+/** Outcome of a single {@link OutboxRelay.runOnce} call. */
+export interface OutboxRelayResult {
+  /** Rows claimed by this poll */
+  claimed: number;
+  /** Rows delivered and marked 'delivered' */
+  delivered: number;
+  /** Rows rescheduled for another attempt */
+  retried: number;
+  /** Rows that exhausted their attempts and were marked 'failed' */
+  failed: number;
+}
+
+type OutboxRow = Record<string, unknown>;
+
+const OUTBOX_NOT_CONFIGURED = 'OutboxRelay requires an Orm created with the outbox option';
+const RELAY_TARGET_REQUIRED = 'OutboxRelay requires a transport or handlers';
+
+const defaultRetryDelay = (attempts: number): number =>
+  Math.min(1000 * 2 ** Math.max(0, attempts - 1), 300_000);
+
+const toNumber = (value: unknown): number => Number(value ?? 0);
+
+const describeError = (error: unknown): string =>
+  error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+
+/**
+ * Delivers domain events stored by outbox-mode sessions.
+ *
+ * Each poll claims due rows in a transaction (`FOR UPDATE SKIP LOCKED` unless disabled,
+ * plus a per-claim token so concurrent relays never deliver the same row),
+ * then publishes them to the transport and handlers. Delivered rows are marked
+ * 'delivered'; failures are retried with backoff until `maxAttempts`, then marked 'failed'.
+ * Delivery is at-least-once: a relay that crashes after publishing redelivers once its lease expires.
+ */
+export class OutboxRelay<E extends DomainEvent = OrmDomainEvent> {
+  private readonly outbox: OutboxConfig<E>;
+  private readonly handlers?: DomainEventBus<E, OutboxMessage<E>>;
+  private readonly batchSize: number;
+  private readonly leaseMs: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: (attempts: number) => number;
+  private readonly relayId: string;
+  private claims = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private running: Promise<void> | undefined;
+  private stopped = true;
+
+  /**
+   * @param orm - ORM created with the `outbox` option
+   * @param options - Delivery targets and polling policy
+   */
+  constructor(private readonly orm: Orm<E>, private readonly options: OutboxRelayOptions<E>) {
+    if (!orm.outbox) {
+      throw new Error(OUTBOX_NOT_CONFIGURED);
+    }
+    if (!options.transport && !options.handlers) {
+      throw new Error(RELAY_TARGET_REQUIRED);
+    }
+    this.outbox = orm.outbox;
+    this.handlers = options.handlers ? new DomainEventBus<E, OutboxMessage<E>>(options.handlers) : undefined;
+    this.batchSize = options.batchSize ?? 50;
+    this.leaseMs = options.leaseMs ?? 30_000;
+    this.maxAttempts = options.maxAttempts ?? 10;
+    this.retryDelayMs = options.retryDelayMs ?? defaultRetryDelay;
+    this.relayId = options.relayId ?? Math.random().toString(36).slice(2, 10);
+  }
+
+  /**
+   * Claims one batch of due rows and delivers it.
+   * @returns Counts of claimed, delivered, retried and failed rows
+   */
+  async runOnce(): Promise<OutboxRelayResult> {
+    const result: OutboxRelayResult = { claimed: 0, delivered: 0, retried: 0, failed: 0 };
+    const token = `${this.relayId}:${++this.claims}`;
+    const rows = await this.orm.transaction(session => this.claim(session, token));
+    result.claimed = rows.length;
+    if (!rows.length) return result;
+
+    const session = this.orm.createSession();
+    try {
+      for (const row of rows) {
+        const outcome = await this.deliver(session, row, token);
+        result[outcome]++;
+      }
+    } finally {
+      await session.dispose();
+    }
+    return result;
+  }
+
+  /**
+   * Starts polling in the background until {@link stop} is called.
+   * Full batches are followed immediately by another poll.
+   */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.schedule(0);
+  }
+
+  /**
+   * Stops polling and waits for the poll in progress to finish.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.running;
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.running = this.runOnce()
+        .then(
+          result => result.claimed >= this.batchSize ? 0 : this.options.pollIntervalMs ?? 1000,
+          error => {
+            this.options.onError?.(error);
+            return this.options.pollIntervalMs ?? 1000;
+          }
+        )
+        .then(nextDelay => {
+          this.running = undefined;
+          if (!this.stopped) this.schedule(nextDelay);
+        });
+    }, delayMs);
+    // Best-effort: avoid keeping the event loop alive.
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  private async claim(session: OrmSession<E>, token: string): Promise<OutboxRow[]> {
+    const { table } = this.outbox;
+    const columns = table.columns;
+    const now = Date.now();
+    const due: ExpressionNode = and(
+      eq(columns.status, 'pending' satisfies OutboxStatus),
+      lte(columns.available_at, now),
+      or(isNull(columns.locked_until), lte(columns.locked_until, now))
+    );
+
+    const query = selectFrom(table)
+      .select('id')
+      .where(due)
+      .orderBy(columns.id)
+      .limit(this.batchSize);
+    const candidates = await (this.options.skipLocked === false ? query : query.forUpdate().skipLocked())
+      .executePlain(session) as OutboxRow[];
+    if (!candidates.length) return [];
+
+    // Re-checking `due` makes the claim safe on dialects without SKIP LOCKED.
+    await update(table)
+      .set({ locked_by: token, locked_until: now + this.leaseMs })
+      .where(and(inList(columns.id, candidates.map(row => toNumber(row.id))), due))
+      .execute(session);
+
+    return await selectFrom(table)
+      .select(...(Object.keys(columns) as (keyof typeof columns & string)[]))
+      .where(eq(columns.locked_by, token))
+      .orderBy(columns.id)
+      .executePlain(session) as OutboxRow[];
+  }
+
+  private async deliver(
+    session: OrmSession<E>,
+    row: OutboxRow,
+    token: string
+  ): Promise<'delivered' | 'retried' | 'failed'> {
+    const { table } = this.outbox;
+    const columns = table.columns;
+    const attempts = toNumber(row.attempts) + 1;
+    const claimed = and(eq(columns.id, toNumber(row.id)), eq(columns.locked_by, token));
+    let message: OutboxMessage<E> | undefined;
+
+    try {
+      message = {
+        id: toNumber(row.id),
+        event: this.outbox.deserialize(String(row.payload), String(row.event_type)),
+        aggregateType: (row.aggregate_type as string | null) ?? null,
+        aggregateId: (row.aggregate_id as string | null) ?? null,
+        attempts: attempts - 1,
+        createdAt: new Date(toNumber(row.created_at))
+      };
+      await this.options.transport?.publish(message);
+      await this.handlers?.publish(message.event, message);
+    } catch (error) {
+      this.options.onError?.(error, message);
+      const failed = attempts >= this.maxAttempts;
+      await update(table)
+        .set({
+          status: (failed ? 'failed' : 'pending') satisfies OutboxStatus,
+          attempts,
+          last_error: describeError(error),
+          available_at: Date.now() + (failed ? 0 : this.retryDelayMs(attempts)),
+          locked_by: null,
+          locked_until: null
+        })
+        .where(claimed)
+        .execute(session);
+      return failed ? 'failed' : 'retried';
+    }
+
+    await update(table)
+      .set({
+        status: 'delivered' satisfies OutboxStatus,
+        attempts,
+        delivered_at: Date.now(),
+        locked_by: null,
+        locked_until: null
+      })
+      .where(claimed)
+      .execute(session);
+    return 'delivered';
+  }
+}
@@ -0,0 +1,119 @@
+import { defineTable, type TableDef } from '../schema/table.js';
+import { col } from '../schema/column-types.js';
+import { InsertQueryBuilder } from '../query-builder/insert.js';
+import type { DomainEvent, HasDomainEvents, TrackedEntity } from './runtime-types.js';
+
+/**
+ * Outbox mode for domain events.
+ * When set on `OrmOptions.outbox`, sessions write the domain events of flushed entities
+ * to the outbox table in the same transaction as the flush instead of dispatching them
+ * in-process; an `OutboxRelay` delivers them afterwards.
+ */
+export interface OutboxOptions<E extends DomainEvent = DomainEvent> {
+  /** Outbox table name (default: 'orm_outbox') */
+  tableName?: string;
+  /** Schema of the outbox table */
+  schema?: string;
+  /** Serializes an event into the `payload` column (default: JSON.stringify) */
+  serialize?: (event: E) => string;
+  /** Restores an event from its `payload` column (default: JSON.parse) */
+  deserialize?: (payload: string, type: string) => E;
+}
+
+/** Outbox options with defaults applied. */
+export interface OutboxConfig<E extends DomainEvent = DomainEvent> {
+  table: TableDef;
+  serialize: (event: E) => string;
+  deserialize: (payload: string, type: string) => E;
+}
+
+/** Status of an outbox row. 'failed' rows exhausted their delivery attempts. */
+export type OutboxStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * Defines the outbox table. Timestamps are epoch milliseconds so claiming
+ * compares plain numbers on every dialect.
+ * @param name - Table name
+ * @param schema - Optional schema
+ * @returns Table definition (use it with the schema generator to create the table)
+ */
+export const createOutboxTable = (name = 'orm_outbox', schema?: string) =>
+  defineTable(
+    name,
+    {
+      id: col.primaryKey(col.autoIncrement(col.int())),
+      event_type: col.notNull(col.varchar(255)),
+      payload: col.notNull(col.text()),
+      aggregate_type: col.varchar(255),
+      aggregate_id: col.varchar(255),
+      status: col.notNull(col.varchar(20)),
+      attempts: col.notNull(col.int()),
+      available_at: col.notNull(col.bigint()),
+      locked_until: col.bigint(),
+      locked_by: col.varchar(100),
+      last_error: col.text(),
+      created_at: col.notNull(col.bigint()),
+      delivered_at: col.bigint()
+    },
+    {},
+    { schema }
+  );
+
+/**
+ * Applies outbox defaults.
+ * @param options - Outbox options
+ * @returns Resolved outbox configuration
+ */
+export const resolveOutboxOptions = <E extends DomainEvent>(options: OutboxOptions<E>): OutboxConfig<E> => ({
+  table: createOutboxTable(options.tableName, options.schema),
+  serialize: options.serialize ?? (event => JSON.stringify(event)),
+  deserialize: options.deserialize ?? (payload => JSON.parse(payload) as E)
+});
+
+const aggregateId = (tracked: TrackedEntity): string | null => {
+  if (tracked.pk === null || tracked.pk === undefined) return null;
+  return typeof tracked.pk === 'object' ? JSON.stringify(tracked.pk) : String(tracked.pk);
+};
+
+/**
+ * Builds the INSERT that stores the pending domain events of tracked entities.
+ * @param outbox - Outbox configuration
+ * @param trackedEntities - Entities flushed by the session
+ * @param now - Epoch milliseconds used for `created_at`/`available_at`
+ * @returns INSERT builder, or null when no entity has pending events
+ */
+export const buildOutboxInsert = <E extends DomainEvent>(
+  outbox: OutboxConfig<E>,
+  trackedEntities: Iterable<TrackedEntity>,
+  now: number
+): InsertQueryBuilder<unknown> | null => {
+  const rows: Record<string, string | number | null>[] = [];
+  for (const tracked of trackedEntities) {
+    const events = (tracked.entity as HasDomainEvents<E>).domainEvents;
+    if (!events?.length) continue;
+    for (const event of events) {
+      rows.push({
+        event_type: event.type,
+        payload: outbox.serialize(event),
+        aggregate_type: tracked.table.name,
+        aggregate_id: aggregateId(tracked),
+        status: 'pending',
+        attempts: 0,
+        available_at: now,
+        created_at: now
+      });
+    }
+  }
+  return rows.length ? new InsertQueryBuilder(outbox.table).values(rows) : null;
+};
+
+/**
+ * Clears the domain events of tracked entities once they are safely stored in the outbox.
+ * @param trackedEntities - Entities whose events were written
+ */
+export const clearDomainEvents = (trackedEntities: Iterable<TrackedEntity>): void => {
+  for (const tracked of trackedEntities) {
+    const entity = tracked.entity as HasDomainEvents;
+    if (entity.domainEvents?.length) entity.domainEvents = [];
+  }
+};
@@ -1,7 +1,8 @@
-import type { DbExecutor, QueryResult } from '../core/execution/db-executor.js';
+import type { DbExecutor, QueryResult, StreamSqlOptions } from '../core/execution/db-executor.js';
 import { toExecutionPayload } from '../core/execution/db-executor.js';
 import { rowsToQueryResult } from '../core/execution/db-executor.js';
 import type { Pool } from '../core/execution/pooling/pool.js';
+import type { TransactionOptions } from '../core/execution/transaction-options.js';
 import type { DbExecutorFactory } from './orm.js';
 
 export interface PooledConnectionAdapter<TConn> {
@@ -15,12 +16,21 @@ export interface PooledConnectionAdapter<TConn> {
       | QueryResult[]
     >;
 
-    beginTransaction(conn: TConn): Promise<void>;
+    /** Optional: streams the rows of a SELECT on the given connection. */
+    stream?(
+        conn: TConn,
+        sql: string,
+        params?: unknown[],
+        options?: StreamSqlOptions
+    ): AsyncIterable<Record<string, unknown>>;
+
+    beginTransaction(conn: TConn, options?: TransactionOptions): Promise<void>;
     commitTransaction(conn: TConn): Promise<void>;
     rollbackTransaction(conn: TConn): Promise<void>;
     savepoint?(conn: TConn, name: string): Promise<void>;
     releaseSavepoint?(conn: TConn, name: string): Promise<void>;
     rollbackToSavepoint?(conn: TConn, name: string): Promise<void>;
+    isTransientError?(error: unknown): boolean;
 }
 
 type PooledExecutorFactoryOptions<TConn> = {
@@ -113,9 +123,33 @@ export function createPooledExecutorFactory<TConn>(
                 }
             },
 
-            async beginTransaction() {
+            ...(adapter.stream
+                ? {
+                    async *streamSql(sql: string, params?: unknown[], options?: StreamSqlOptions) {
+                        if (mode === 'sticky' || lease) {
+                            const l = await getLease();
+                            yield* adapter.stream!(l.resource, sql, params, options);
+                            return;
+                        }
+
+                        // Session mode outside a transaction: hold a connection for the whole iteration.
+                        const l = await pool.acquire();
+                        try {
+                            yield* adapter.stream!(l.resource, sql, params, options);
+                        } finally {
+                            await l.release();
+                        }
+                    }
+                }
+                : {}),
+
+            async beginTransaction(options?: TransactionOptions) {
                 const l = await getLease();
-                await adapter.beginTransaction(l.resource);
+                if (options) {
+                    await adapter.beginTransaction(l.resource, options);
+                } else {
+                    await adapter.beginTransaction(l.resource);
+                }
             },
 
             async commitTransaction() {
@@ -169,6 +203,10 @@ export function createPooledExecutorFactory<TConn>(
                 await adapter.rollbackToSavepoint!(l.resource, name);
             },
 
+            ...(adapter.isTransientError
+                ? { isTransientError: (error: unknown) => adapter.isTransientError!(error) }
+                : {}),
+
             async dispose() {
                 if (!lease) return;
                 const l = lease;
@@ -0,0 +1,90 @@
+import { and, eq } from '../core/ast/expression.js';
+import type { ExpressionNode, ValueOperandInput } from '../core/ast/expression.js';
+import type { TableDef } from '../schema/table.js';
+import { findPrimaryKeys } from '../query-builder/hydration-planner.js';
+import { buildKeyString } from '../query-builder/relation-keys.js';
+import type { PrimaryKey } from './entity-context.js';
+
+const isKeyObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !(value instanceof Date);
+
+/**
+ * Reads the primary key of an entity or row: the column value for single-column keys,
+ * an object keyed by column name for composite keys.
+ * @param table - The table definition
+ * @param source - Entity or row holding the key columns
+ * @returns The primary key, or undefined when any key column is empty
+ */
+export const readPrimaryKey = (table: TableDef, source: Record<string, unknown>): PrimaryKey | undefined => {
+  const columns = findPrimaryKeys(table);
+  if (columns.length === 1) {
+    const value = source[columns[0]];
+    return value === undefined || value === null ? undefined : value as PrimaryKey;
+  }
+
+  const key: Record<string, unknown> = {};
+  for (const column of columns) {
+    const value = source[column];
+    if (value === undefined || value === null) return undefined;
+    key[column] = value;
+  }
+  return key;
+};
+
+/**
+ * Normalizes a caller-supplied id (e.g. `session.find(Entity, id)`) into a primary key.
+ * Composite keys must be given as an object with a value for every key column.
+ * @param table - The table definition
+ * @param id - Scalar id or object keyed by primary key column
+ * @returns The primary key
+ * @throws If a composite key is incomplete
+ */
+export const toPrimaryKey = (table: TableDef, id: unknown): PrimaryKey => {
+  const columns = findPrimaryKeys(table);
+  if (columns.length === 1) {
+    return (isKeyObject(id) ? id[columns[0]] : id) as PrimaryKey;
+  }
+
+  const key = isKeyObject(id) ? readPrimaryKey(table, id) : undefined;
+  if (!key) {
+    throw new Error(`Primary key of "${table.name}" requires values for: ${columns.join(', ')}.`);
+  }
+  return key;
+};
+
+/**
+ * Builds the identity-map key of a primary key.
+ * @param table - The table definition
+ * @param pk - The primary key
+ * @returns A string unique per row of the table
+ */
+export const primaryKeyIdentity = (table: TableDef, pk: PrimaryKey): string =>
+  isKeyObject(pk) ? buildKeyString(pk, findPrimaryKeys(table)) ?? '' : String(pk);
+
+/**
+ * Builds the WHERE predicate matching a row by primary key.
+ * @param table - The table definition
+ * @param pk - The primary key
+ * @returns The predicate expression
+ * @throws If the table does not define the primary key columns
+ */
+export const buildPrimaryKeyPredicate = (table: TableDef, pk: PrimaryKey): ExpressionNode => {
+  const columns = findPrimaryKeys(table);
+  const [first, ...rest] = columns.map(name => {
+    const column = table.columns[name];
+    if (!column) {
+      throw new Error(`Table "${table.name}" does not expose primary key column "${name}".`);
+    }
+    const value = isKeyObject(pk) ? pk[name] : pk;
+    return eq(column, value as ValueOperandInput);
+  });
+  return rest.length ? and(first, ...rest) : first;
+};
+
+/**
+ * Formats a primary key for error messages.
+ * @param pk - The primary key
+ * @returns Readable representation
+ */
+export const formatPrimaryKey = (pk: unknown): string =>
+  isKeyObject(pk) ? JSON.stringify(pk) : String(pk);
@@ -32,12 +32,18 @@ export const createQueryLoggingExecutor = (
 
   const wrapped: DbExecutor = {
     capabilities: executor.capabilities,
-    async executeSql(sql, params) {
+    async executeSql(sql, params, options) {
       logger({ sql, params });
-      return executor.executeSql(sql, params);
+      return executor.executeSql(sql, params, options);
     }
     ,
-    beginTransaction: () => executor.beginTransaction(),
+    streamSql: executor.streamSql
+      ? (sql, params, options) => {
+        logger({ sql, params });
+        return executor.streamSql!(sql, params, options);
+      }
+      : undefined,
+    beginTransaction: options => executor.beginTransaction(options),
     commitTransaction: () => executor.commitTransaction(),
     rollbackTransaction: () => executor.rollbackTransaction(),
     savepoint: executor.savepoint
@@ -49,6 +55,9 @@ export const createQueryLoggingExecutor = (
     rollbackToSavepoint: executor.rollbackToSavepoint
       ? (name: string) => executor.rollbackToSavepoint!(name)
       : undefined,
+    isTransientError: executor.isTransientError
+      ? (error: unknown) => executor.isTransientError!(error)
+      : undefined,
     dispose: () => executor.dispose(),
   };
 
@@ -5,10 +5,14 @@ import { DeleteQueryBuilder } from '../query-builder/delete.js';
 import { InsertQueryBuilder } from '../query-builder/insert.js';
 import { UpdateQueryBuilder } from '../query-builder/update.js';
 import { findPrimaryKey } from '../query-builder/hydration-planner.js';
+import { assignKeyValues, buildKeyString, resolveRelationKeys } from '../query-builder/relation-keys.js';
+import type { RelationKeyColumns } from '../query-builder/relation-keys.js';
 import type { BelongsToManyRelation, HasManyRelation, HasOneRelation, MorphOneRelation, MorphManyRelation, MorphToRelation } from '../schema/relation.js';
 import { RelationKinds } from '../schema/relation.js';
 import type { DbExecutor } from '../core/execution/db-executor.js';
-import type { RelationChangeEntry } from './runtime-types.js';
+import type { CompiledQuery } from '../core/dialect/abstract.js';
+import type { QueryAst, StatementRunner } from './interceptor-pipeline.js';
+import type { FieldChange, RelationChangeEntry } from './runtime-types.js';
 import { UnitOfWork } from './unit-of-work.js';
 
 /**
@@ -16,17 +20,20 @@ import { UnitOfWork } from './unit-of-work.js';
  */
 export class RelationChangeProcessor {
   private readonly relationChanges: RelationChangeEntry[] = [];
+  private readonly writtenTables = new Set<string>();
 
   /**
    * Creates a new RelationChangeProcessor instance.
    * @param unitOfWork - The unit of work instance
    * @param dialect - The database dialect
    * @param executor - The database executor
+   * @param runStatement - Runs pivot statements (the session routes them through its interceptor pipeline)
    */
   constructor(
     private readonly unitOfWork: UnitOfWork,
     private readonly dialect: Dialect,
-    private readonly executor: DbExecutor
+    executor: DbExecutor,
+    private readonly runStatement: StatementRunner = request => executor.executeSql(request.sql, request.params)
   ) { }
 
   /**
@@ -37,11 +44,51 @@ export class RelationChangeProcessor {
     this.relationChanges.push(entry);
   }
 
+  /**
+   * Lists the relation changes pending on a root entity, in registration order.
+   * @param root - The root entity
+   * @returns Pending changes keyed by relation name
+   */
+  getPendingChanges(root: object): FieldChange[] {
+    return this.relationChanges
+      .filter(entry => entry.root === root)
+      .map(({ relationName, change }) => {
+        const removed = change.kind === 'remove' || change.kind === 'detach';
+        return {
+          field: relationName,
+          from: removed || change.kind === 'update' ? change.entity : undefined,
+          to: removed ? undefined : change.kind === 'update' ? change.pivot : change.entity,
+          relationChange: change.kind
+        };
+      });
+  }
+
+  /**
+   * Drops the relation changes pending on a root entity.
+   * @param root - The root entity
+   */
+  discardChanges(root: object): void {
+    const kept = this.relationChanges.filter(entry => entry.root !== root);
+    this.relationChanges.length = 0;
+    this.relationChanges.push(...kept);
+  }
+
+  /**
+   * Returns the names of the pivot tables written since the last call and forgets them.
+   * @returns Written table names
+   */
+  takeWrittenTables(): string[] {
+    const tables = Array.from(this.writtenTables);
+    this.writtenTables.clear();
+    return tables;
+  }
+
   /**
    * Resets the relation change processor by clearing all pending changes.
    */
   reset(): void {
     this.relationChanges.length = 0;
+    this.writtenTables.clear();
   }
 
   /**
@@ -91,18 +138,18 @@ export class RelationChangeProcessor {
     const tracked = this.unitOfWork.findTracked(target as object);
     if (!tracked) return;
 
-    const localKey = relation.localKey || findPrimaryKey(entry.rootTable);
-    const rootValue = entry.root[localKey];
-    if (rootValue === undefined || rootValue === null) return;
+    const keys = resolveRelationKeys(entry.rootTable, relation);
+    const root = entry.root as Record<string, unknown>;
+    if (buildKeyString(root, keys.root) === undefined) return;
 
     if (entry.change.kind === 'add' || entry.change.kind === 'attach') {
-      this.assignHasManyForeignKey(tracked.entity as Record<string, unknown>, relation, rootValue);
+      this.assignHasManyForeignKey(tracked.entity as Record<string, unknown>, keys, root);
       this.unitOfWork.markDirty(tracked.entity);
       return;
     }
 
     if (entry.change.kind === 'remove') {
-      this.detachHasManyChild(tracked.entity as Record<string, unknown>, relation);
+      this.detachHasManyChild(tracked.entity as Record<string, unknown>, relation, keys);
     }
   }
 
@@ -118,18 +165,18 @@ export class RelationChangeProcessor {
     const tracked = this.unitOfWork.findTracked(target as object);
     if (!tracked) return;
 
-    const localKey = relation.localKey || findPrimaryKey(entry.rootTable);
-    const rootValue = entry.root[localKey];
-    if (rootValue === undefined || rootValue === null) return;
+    const keys = resolveRelationKeys(entry.rootTable, relation);
+    const root = entry.root as Record<string, unknown>;
+    if (buildKeyString(root, keys.root) === undefined) return;
 
     if (entry.change.kind === 'attach' || entry.change.kind === 'add') {
-      this.assignHasOneForeignKey(tracked.entity as Record<string, unknown>, relation, rootValue);
+      this.assignHasOneForeignKey(tracked.entity as Record<string, unknown>, keys, root);
       this.unitOfWork.markDirty(tracked.entity);
       return;
     }
 
     if (entry.change.kind === 'remove') {
-      this.detachHasOneChild(tracked.entity as Record<string, unknown>, relation);
+      this.detachHasOneChild(tracked.entity as Record<string, unknown>, relation, keys);
     }
   }
 
@@ -184,52 +231,54 @@ export class RelationChangeProcessor {
   /**
    * Assigns a foreign key for has-many relations.
    * @param child - The child entity
-   * @param relation - The has-many relation
-   * @param rootValue - The root entity's primary key value
+   * @param keys - The relation key columns
+   * @param root - The root entity
    */
-  private assignHasManyForeignKey(child: Record<string, unknown>, relation: HasManyRelation, rootValue: unknown): void {
-    const current = child[relation.foreignKey];
-    if (current === rootValue) return;
-    child[relation.foreignKey] = rootValue;
+  private assignHasManyForeignKey(child: Record<string, unknown>, keys: RelationKeyColumns, root: Record<string, unknown>): void {
+    assignKeyValues(child, keys.target, root, keys.root);
   }
 
   /**
    * Detaches a child entity from has-many relations.
    * @param child - The child entity
    * @param relation - The has-many relation
+   * @param keys - The relation key columns
    */
-  private detachHasManyChild(child: Record<string, unknown>, relation: HasManyRelation): void {
+  private detachHasManyChild(child: Record<string, unknown>, relation: HasManyRelation, keys: RelationKeyColumns): void {
     if (relation.cascade === 'all' || relation.cascade === 'remove') {
       this.unitOfWork.markRemoved(child);
       return;
     }
-    child[relation.foreignKey] = null;
+    for (const foreignKey of keys.target) {
+      child[foreignKey] = null;
+    }
     this.unitOfWork.markDirty(child);
   }
 
   /**
    * Assigns a foreign key for has-one relations.
    * @param child - The child entity
-   * @param relation - The has-one relation
-   * @param rootValue - The root entity's primary key value
+   * @param keys - The relation key columns
+   * @param root - The root entity
    */
-  private assignHasOneForeignKey(child: Record<string, unknown>, relation: HasOneRelation, rootValue: unknown): void {
-    const current = child[relation.foreignKey];
-    if (current === rootValue) return;
-    child[relation.foreignKey] = rootValue;
+  private assignHasOneForeignKey(child: Record<string, unknown>, keys: RelationKeyColumns, root: Record<string, unknown>): void {
+    assignKeyValues(child, keys.target, root, keys.root);
   }
 
   /**
    * Detaches a child entity from has-one relations.
    * @param child - The child entity
    * @param relation - The has-one relation
+   * @param keys - The relation key columns
    */
-  private detachHasOneChild(child: Record<string, unknown>, relation: HasOneRelation): void {
+  private detachHasOneChild(child: Record<string, unknown>, relation: HasOneRelation, keys: RelationKeyColumns): void {
     if (relation.cascade === 'all' || relation.cascade === 'remove') {
       this.unitOfWork.markRemoved(child);
       return;
     }
-    child[relation.foreignKey] = null;
+    for (const foreignKey of keys.target) {
+      child[foreignKey] = null;
+    }
     this.unitOfWork.markDirty(child);
   }
 
@@ -252,8 +301,8 @@ export class RelationChangeProcessor {
     };
     const builder = new InsertQueryBuilder(relation.pivotTable)
       .values(payload as Record<string, ValueOperandInput>);
-    const compiled = builder.compile(this.dialect);
-    await this.executor.executeSql(compiled.sql, compiled.params);
+    await this.executeStatement(builder.compile(this.dialect), builder.getAST());
+    this.writtenTables.add(relation.pivotTable.name);
   }
 
   /**
@@ -276,8 +325,8 @@ export class RelationChangeProcessor {
     const builder = new UpdateQueryBuilder(relation.pivotTable)
       .set(pivotPayload)
       .where(and(eq(rootCol, rootId), eq(targetCol, targetId)));
-    const compiled = builder.compile(this.dialect);
-    await this.executor.executeSql(compiled.sql, compiled.params);
+    await this.executeStatement(builder.compile(this.dialect), builder.getAST());
+    this.writtenTables.add(relation.pivotTable.name);
   }
 
   /**
@@ -294,8 +343,8 @@ export class RelationChangeProcessor {
     const builder = new DeleteQueryBuilder(relation.pivotTable).where(
       and(eq(rootCol, rootId), eq(targetCol, targetId))
     );
-    const compiled = builder.compile(this.dialect);
-    await this.executor.executeSql(compiled.sql, compiled.params);
+    await this.executeStatement(builder.compile(this.dialect), builder.getAST());
+    this.writtenTables.add(relation.pivotTable.name);
   }
 
   /**
@@ -421,4 +470,13 @@ export class RelationChangeProcessor {
       this.unitOfWork.markDirty(entry.root as object);
     }
   }
+
+  /**
+   * Executes a compiled pivot statement.
+   * @param compiled - The compiled query
+   * @param ast - AST the query was compiled from
+   */
+  private async executeStatement(compiled: CompiledQuery, ast: QueryAst): Promise<void> {
+    await this.runStatement({ sql: compiled.sql, params: compiled.params, ast: compiled.ast ?? ast });
+  }
 }
@@ -4,11 +4,11 @@ import { RelationKey } from '../runtime-types.js';
 import { BelongsToRelation } from '../../schema/relation.js';
 import { TableDef } from '../../schema/table.js';
 import { EntityMeta, getHydrationRecord, hasEntityMeta } from '../entity-meta.js';
+import { buildKeyString, resolveRelationKeys } from '../../query-builder/relation-keys.js';
+import type { RelationKeyColumns } from '../../query-builder/relation-keys.js';
 
 type Rows = Record<string, unknown>;
 
-const toKey = (value: unknown): string => (value === null || value === undefined ? '' : String(value));
-
 const hideInternal = (obj: object, keys: string[]): void => {
   for (const key of keys) {
     Object.defineProperty(obj, key, {
@@ -72,11 +72,11 @@ export class DefaultBelongsToReference<TParent extends object> implements Belong
   async load(): Promise<TParent | null> {
     if (this.loaded) return this.current;
     const map = await this.loader();
-    const fkValue = (this.root as Record<string, unknown>)[this.relation.foreignKey];
-    if (fkValue === null || fkValue === undefined) {
+    const fkValue = buildKeyString(this.root as Record<string, unknown>, this.keys.root);
+    if (fkValue === undefined) {
       this.current = null;
     } else {
-      const row = map.get(toKey(fkValue));
+      const row = map.get(fkValue);
       this.current = row ? this.createEntity(row) : null;
     }
     this.loaded = true;
@@ -90,7 +90,9 @@ export class DefaultBelongsToReference<TParent extends object> implements Belong
   set(data: Partial<TParent> | TParent | null): TParent | null {
     if (data === null) {
       const previous = this.current;
-      (this.root as Record<string, unknown>)[this.relation.foreignKey] = null;
+      for (const foreignKey of this.keys.root) {
+        (this.root as Record<string, unknown>)[foreignKey] = null;
+      }
       this.current = null;
       this.ctx.registerRelationChange(
         this.root,
@@ -104,10 +106,13 @@ export class DefaultBelongsToReference<TParent extends object> implements Belong
     }
 
     const entity = hasEntityMeta(data) ? (data as TParent) : this.createEntity(data as Record<string, unknown>);
-    const pkValue = (entity as Record<string, unknown>)[this.targetKey];
-    if (pkValue !== undefined) {
-      (this.root as Record<string, unknown>)[this.relation.foreignKey] = pkValue;
-    }
+    const { root: foreignKeys, target: targetKeys } = this.keys;
+    targetKeys.forEach((targetKey, idx) => {
+      const pkValue = (entity as Record<string, unknown>)[targetKey];
+      if (pkValue !== undefined) {
+        (this.root as Record<string, unknown>)[foreignKeys[idx]] = pkValue;
+      }
+    });
     this.current = entity;
     this.ctx.registerRelationChange(
       this.root,
@@ -124,9 +129,18 @@ export class DefaultBelongsToReference<TParent extends object> implements Belong
     return `${this.rootTable.name}.${this.relationName}`;
   }
 
+  /**
+   * Child foreign key and parent key columns; composite when the relation declares several key columns.
+   */
+  private get keys(): RelationKeyColumns {
+    return this.relation.foreignKeys || this.relation.localKeys
+      ? resolveRelationKeys(this.rootTable, this.relation)
+      : { root: [this.relation.foreignKey], target: [this.targetKey] };
+  }
+
   private populateFromHydrationCache(): void {
-    const fkValue = (this.root as Record<string, unknown>)[this.relation.foreignKey];
-    if (fkValue === undefined || fkValue === null) return;
+    const fkValue = buildKeyString(this.root as Record<string, unknown>, this.keys.root);
+    if (fkValue === undefined) return;
     const row = getHydrationRecord(this.meta, this.relationName, fkValue);
     if (!row) return;
     this.current = this.createEntity(row);
@@ -4,11 +4,11 @@ import { RelationKey } from '../runtime-types.js';
 import { HasManyRelation } from '../../schema/relation.js';
 import { TableDef } from '../../schema/table.js';
 import { EntityMeta, getHydrationRows } from '../entity-meta.js';
+import { assignKeyValues, buildKeyString, resolveRelationKeys } from '../../query-builder/relation-keys.js';
+import type { RelationKeyColumns } from '../../query-builder/relation-keys.js';
 
 type Rows = Record<string, unknown>[];
 
-const toKey = (value: unknown): string => (value === null || value === undefined ? '' : String(value));
-
 const hideInternal = (obj: object, keys: string[]): void => {
   for (const key of keys) {
     Object.defineProperty(obj, key, {
@@ -77,7 +77,7 @@ export class DefaultHasManyCollection<TChild> implements HasManyCollection<TChil
   async load(): Promise<TChild[]> {
     if (this.loaded) return this.items;
     const map = await this.loader();
-    const key = toKey((this.root as Record<string, unknown>)[this.localKey]);
+    const key = buildKeyString(this.root as Record<string, unknown>, this.keys.root) ?? '';
     const rows = map.get(key) ?? [];
     this.items = rows.map(row => this.createEntity(row));
     this.loaded = true;
@@ -112,11 +112,8 @@ export class DefaultHasManyCollection<TChild> implements HasManyCollection<TChil
    * @returns The created entity
    */
   add(data: Partial<TChild>): TChild {
-    const keyValue = (this.root as Record<string, unknown>)[this.localKey];
-    const childRow: Record<string, unknown> = {
-      ...data,
-      [this.relation.foreignKey]: keyValue
-    };
+    const childRow: Record<string, unknown> = { ...data };
+    assignKeyValues(childRow, this.keys.target, this.root as Record<string, unknown>, this.keys.root);
     const entity = this.createEntity(childRow);
     this.added.add(entity);
     this.items.push(entity);
@@ -136,8 +133,7 @@ export class DefaultHasManyCollection<TChild> implements HasManyCollection<TChil
    * @param entity - The entity to attach
    */
   attach(entity: TChild): void {
-    const keyValue = this.root[this.localKey];
-    (entity as Record<string, unknown>)[this.relation.foreignKey] = keyValue;
+    assignKeyValues(entity as Record<string, unknown>, this.keys.target, this.root as Record<string, unknown>, this.keys.root);
     this.ctx.markDirty(entity as object);
     this.items.push(entity);
     this.ctx.registerRelationChange(
@@ -180,9 +176,18 @@ export class DefaultHasManyCollection<TChild> implements HasManyCollection<TChil
     return `${this.rootTable.name}.${this.relationName}`;
   }
 
+  /**
+   * Root and child key columns; composite when the relation declares several key columns.
+   */
+  private get keys(): RelationKeyColumns {
+    return this.relation.foreignKeys || this.relation.localKeys
+      ? resolveRelationKeys(this.rootTable, this.relation)
+      : { root: [this.localKey], target: [this.relation.foreignKey] };
+  }
+
   private hydrateFromCache(): void {
-    const keyValue = (this.root as Record<string, unknown>)[this.localKey];
-    if (keyValue === undefined || keyValue === null) return;
+    const keyValue = buildKeyString(this.root as Record<string, unknown>, this.keys.root);
+    if (keyValue === undefined) return;
     const rows = getHydrationRows(this.meta, this.relationName, keyValue);
     if (!rows?.length) return;
     this.items = rows.map(row => this.createEntity(row));
@@ -4,11 +4,11 @@ import { RelationKey } from '../runtime-types.js';
 import { HasOneRelation } from '../../schema/relation.js';
 import { TableDef } from '../../schema/table.js';
 import { EntityMeta, getHydrationRecord, hasEntityMeta } from '../entity-meta.js';
+import { assignKeyValues, buildKeyString, resolveRelationKeys } from '../../query-builder/relation-keys.js';
+import type { RelationKeyColumns } from '../../query-builder/relation-keys.js';
 
 type Row = Record<string, unknown>;
 
-const toKey = (value: unknown): string => (value === null || value === undefined ? '' : String(value));
-
 const hideInternal = (obj: object, keys: string[]): void => {
   for (const key of keys) {
     Object.defineProperty(obj, key, {
@@ -82,12 +82,12 @@ export class DefaultHasOneReference<TChild extends object> implements HasOneRefe
   async load(): Promise<TChild | null> {
     if (this.loaded) return this.current;
     const map = await this.loader();
-    const keyValue = (this.root as Record<string, unknown>)[this.localKey];
-    if (keyValue === undefined || keyValue === null) {
+    const keyValue = buildKeyString(this.root as Row, this.keys.root);
+    if (keyValue === undefined) {
       this.loaded = true;
       return this.current;
     }
-    const row = map.get(toKey(keyValue));
+    const row = map.get(keyValue);
     this.current = row ? this.createEntity(row) : null;
     this.loaded = true;
     return this.current;
@@ -155,8 +155,16 @@ export class DefaultHasOneReference<TChild extends object> implements HasOneRefe
   }
 
   private assignForeignKey(entity: TChild): void {
-    const keyValue = (this.root as Record<string, unknown>)[this.localKey];
-    (entity as Row)[this.relation.foreignKey] = keyValue;
+    assignKeyValues(entity as Row, this.keys.target, this.root as Row, this.keys.root);
+  }
+
+  /**
+   * Root and child key columns; composite when the relation declares several key columns.
+   */
+  private get keys(): RelationKeyColumns {
+    return this.relation.foreignKeys || this.relation.localKeys
+      ? resolveRelationKeys(this.rootTable, this.relation)
+      : { root: [this.localKey], target: [this.relation.foreignKey] };
   }
 
   private get relationKey(): RelationKey {
@@ -164,8 +172,8 @@ export class DefaultHasOneReference<TChild extends object> implements HasOneRefe
   }
 
   private populateFromHydrationCache(): void {
-    const keyValue = (this.root as Record<string, unknown>)[this.localKey];
-    if (keyValue === undefined || keyValue === null) return;
+    const keyValue = buildKeyString(this.root as Row, this.keys.root);
+    if (keyValue === undefined) return;
     const row = getHydrationRecord(this.meta, this.relationName, keyValue);
     if (!row) return;
     this.current = this.createEntity(row);
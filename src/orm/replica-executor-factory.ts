@@ -0,0 +1,209 @@
+import type {
+  DbExecutor,
+  ExecuteSqlOptions,
+  StreamSqlOptions
+} from '../core/execution/db-executor.js';
+import type { TransactionOptions } from '../core/execution/transaction-options.js';
+import type { DbExecutorFactory } from './orm.js';
+
+/** How a read replica is picked for each routed statement. */
+export type ReplicaSelectionStrategy = 'round-robin' | 'random' | 'least-busy';
+
+export interface ReplicaRoutingOptions {
+  /** Factories for the read replicas (e.g. one `createPooledExecutorFactory` per replica). */
+  replicas: DbExecutorFactory[];
+  /** Replica selection strategy (default: 'round-robin'). */
+  strategy?: ReplicaSelectionStrategy;
+  /**
+   * After a session writes, its reads stay on the primary for this many milliseconds
+   * so it can read its own writes despite replication lag (default: 0, disabled).
+   */
+  stickyPrimaryMs?: number;
+  /** Overrides the default classification of statements that may run on a replica. */
+  isReadQuery?(sql: string): boolean;
+}
+
+export interface ReplicaExecutorFactoryOptions extends ReplicaRoutingOptions {
+  /** Factory for the primary; receives writes, transactions and primary-only reads. */
+  primary: DbExecutorFactory;
+}
+
+const READ_STATEMENT = /^\s*(?:\/\*[\s\S]*?\*\/\s*)*\(?\s*(?:select|with)\b/i;
+// Writes, SELECT ... INTO, row locks (FOR UPDATE/SHARE, lock hints) and sequence calls must reach the primary.
+const PRIMARY_ONLY_TOKENS = /\b(?:insert|update|delete|merge|into|share|updlock|xlock|holdlock|nextval|setval)\b/i;
+
+/**
+ * Default read classification: a SELECT (or WITH ... SELECT) without writes or row locks.
+ * @param sql - Statement to classify
+ * @returns True when the statement may run on a replica
+ */
+export const isReplicaSafeQuery = (sql: string): boolean =>
+  READ_STATEMENT.test(sql) && !PRIMARY_ONLY_TOKENS.test(sql);
+
+interface ReplicaSlot {
+  factory: DbExecutorFactory;
+  inFlight: number;
+}
+
+/**
+ * Creates a DbExecutorFactory that routes reads to replicas.
+ *
+ * Session executors send SELECTs issued outside a transaction to a replica and
+ * everything else (writes, transactions, `usePrimary()` queries and reads inside
+ * the sticky window after a write) to the primary. Transactional executors always
+ * use the primary.
+ */
+export function createReplicaExecutorFactory(opts: ReplicaExecutorFactoryOptions): DbExecutorFactory {
+  const { primary } = opts;
+  const strategy = opts.strategy ?? 'round-robin';
+  const stickyPrimaryMs = opts.stickyPrimaryMs ?? 0;
+  const isReadQuery = opts.isReadQuery ?? isReplicaSafeQuery;
+  const slots: ReplicaSlot[] = opts.replicas.map(factory => ({ factory, inFlight: 0 }));
+  let nextSlot = 0;
+
+  const pickSlot = (): number => {
+    switch (strategy) {
+      case 'random':
+        return Math.floor(Math.random() * slots.length);
+      case 'least-busy': {
+        // Ties go round-robin so idle replicas share the load.
+        const start = nextSlot++ % slots.length;
+        let best = start;
+        for (let offset = 1; offset < slots.length; offset++) {
+          const index = (start + offset) % slots.length;
+          if (slots[index].inFlight < slots[best].inFlight) best = index;
+        }
+        return best;
+      }
+      default:
+        return nextSlot++ % slots.length;
+    }
+  };
+
+  const makeExecutor = (): DbExecutor => {
+    const primaryExecutor = primary.createExecutor();
+    const replicaExecutors = new Map<number, DbExecutor>();
+    let transactionDepth = 0;
+    let stickyUntil = 0;
+    let wroteInTransaction = false;
+
+    const markWrite = (): void => {
+      if (transactionDepth > 0) wroteInTransaction = true;
+      if (stickyPrimaryMs > 0) stickyUntil = Date.now() + stickyPrimaryMs;
+    };
+
+    const endTransaction = (): void => {
+      transactionDepth = Math.max(0, transactionDepth - 1);
+      if (transactionDepth === 0) wroteInTransaction = false;
+    };
+
+    const replicaExecutor = (index: number): DbExecutor => {
+      let executor = replicaExecutors.get(index);
+      if (!executor) {
+        executor = slots[index].factory.createExecutor();
+        replicaExecutors.set(index, executor);
+      }
+      return executor;
+    };
+
+    const routesToReplica = (sql: string, options?: ExecuteSqlOptions): boolean => {
+      if (!isReadQuery(sql)) {
+        markWrite();
+        return false;
+      }
+      return slots.length > 0 &&
+        transactionDepth === 0 &&
+        !options?.usePrimary &&
+        Date.now() >= stickyUntil;
+    };
+
+    return {
+      capabilities: primaryExecutor.capabilities,
+
+      async executeSql(sql, params, options) {
+        if (!routesToReplica(sql, options)) {
+          return primaryExecutor.executeSql(sql, params, options);
+        }
+        const index = pickSlot();
+        const slot = slots[index];
+        slot.inFlight++;
+        try {
+          return await replicaExecutor(index).executeSql(sql, params, options);
+        } finally {
+          slot.inFlight--;
+        }
+      },
+
+      ...(primaryExecutor.streamSql
+        ? {
+          async *streamSql(sql: string, params?: unknown[], options?: StreamSqlOptions) {
+            const index = routesToReplica(sql, options) ? pickSlot() : -1;
+            const replica = index >= 0 ? replicaExecutor(index) : undefined;
+            if (!replica?.streamSql) {
+              yield* primaryExecutor.streamSql!(sql, params, options);
+              return;
+            }
+            const slot = slots[index];
+            slot.inFlight++;
+            try {
+              yield* replica.streamSql(sql, params, options);
+            } finally {
+              slot.inFlight--;
+            }
+          }
+        }
+        : {}),
+
+      async beginTransaction(options?: TransactionOptions) {
+        await primaryExecutor.beginTransaction(options);
+        transactionDepth++;
+      },
+      async commitTransaction() {
+        try {
+          await primaryExecutor.commitTransaction();
+          // The window starts when the writes become visible, not when they were sent.
+          if (wroteInTransaction) markWrite();
+        } finally {
+          endTransaction();
+        }
+      },
+      async rollbackTransaction() {
+        try {
+          await primaryExecutor.rollbackTransaction();
+        } finally {
+          endTransaction();
+        }
+      },
+      savepoint: primaryExecutor.savepoint
+        ? (name: string) => primaryExecutor.savepoint!(name)
+        : undefined,
+      releaseSavepoint: primaryExecutor.releaseSavepoint
+        ? (name: string) => primaryExecutor.releaseSavepoint!(name)
+        : undefined,
+      rollbackToSavepoint: primaryExecutor.rollbackToSavepoint
+        ? (name: string) => primaryExecutor.rollbackToSavepoint!(name)
+        : undefined,
+      isTransientError: primaryExecutor.isTransientError
+        ? (error: unknown) => primaryExecutor.isTransientError!(error)
+        : undefined,
+
+      async dispose() {
+        const executors = [primaryExecutor, ...replicaExecutors.values()];
+        replicaExecutors.clear();
+        await Promise.all(executors.map(executor => executor.dispose()));
+      },
+    };
+  };
+
+  return {
+    createExecutor() {
+      return makeExecutor();
+    },
+    createTransactionalExecutor() {
+      return primary.createTransactionalExecutor();
+    },
+    async dispose() {
+      await Promise.all([primary, ...slots.map(slot => slot.factory)].map(factory => factory.dispose()));
+    },
+  };
+}
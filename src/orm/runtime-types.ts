@@ -1,5 +1,6 @@
 import { RelationDef } from '../schema/relation.js';
 import { TableDef } from '../schema/table.js';
+import type { PrimaryKey } from './entity-context.js';
 
 /**
  * Entity status enum representing the lifecycle state of an entity
@@ -25,8 +26,8 @@ export interface TrackedEntity {
   table: TableDef;
   /** The actual entity instance */
   entity: object;
-  /** Primary key value of the entity */
-  pk: string | number | null;
+  /** Primary key value of the entity (an object keyed by column for composite keys) */
+  pk: PrimaryKey | null;
   /** Current status of the entity */
   status: EntityStatus;
   /** Original values of the entity when it was loaded */
@@ -49,6 +50,20 @@ export type RelationChange<T> =
   | { kind: 'remove'; entity: T; pivot?: Record<string, unknown> }
   | { kind: 'detach'; entity: T; pivot?: Record<string, unknown> };
 
+/**
+ * A pending change of a tracked entity, as reported by `OrmSession.getChangeSet`
+ */
+export interface FieldChange {
+  /** Column property, or the relation name for relation changes */
+  field: string;
+  /** Value in the loaded snapshot (the related entity for remove/detach) */
+  from: unknown;
+  /** Current value (the related entity for add/attach, the pivot payload for pivot updates) */
+  to: unknown;
+  /** Kind of the pending relation change; undefined for column changes */
+  relationChange?: RelationChange<unknown>['kind'];
+}
+
 /**
  * Represents a relation change entry in the unit of work
  */
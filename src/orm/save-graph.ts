@@ -18,12 +18,14 @@ import {
   type MorphToRelation
 } from '../schema/relation.js';
 import type { TableDef } from '../schema/table.js';
-import { findPrimaryKey } from '../query-builder/hydration-planner.js';
+import { findPrimaryKey, findPrimaryKeys } from '../query-builder/hydration-planner.js';
+import { buildKeyString } from '../query-builder/relation-keys.js';
 import { createEntityFromRow } from './entity.js';
 import type { EntityConstructor } from './entity-metadata.js';
 import { getTableDefFromEntity } from '../decorators/bootstrap.js';
 import type { OrmSession } from './orm-session.js';
 import type { PrimaryKey } from './entity-context.js';
+import { readPrimaryKey } from './primary-key.js';
 
 /**
  * Options for controlling the behavior of save graph operations.
@@ -115,18 +117,19 @@ const ensureEntity = <TTable extends TableDef>(
   payload: AnyEntity,
   options: SaveGraphOptions
 ): EntityInstance<TTable> => {
-  const pk = findPrimaryKey(table);
   const row = pickColumns(table, payload, options);
-  const pkValue = payload[pk];
+  const pkValue = readPrimaryKey(table, payload);
 
-  if (pkValue !== undefined && pkValue !== null) {
-    const tracked = session.getEntity(table, pkValue as PrimaryKey);
+  if (pkValue !== undefined) {
+    const tracked = session.getEntity(table, pkValue);
     if (tracked) {
       return tracked as EntityInstance<TTable>;
     }
     // Seed the stub with PK to track a managed entity when updating.
-    if (row[pk] === undefined) {
-      row[pk] = pkValue;
+    for (const pk of findPrimaryKeys(table)) {
+      if (row[pk] === undefined) {
+        row[pk] = payload[pk];
+      }
     }
   }
 
@@ -141,16 +144,19 @@ const assignColumns = (table: TableDef, entity: AnyEntity, payload: AnyEntity, o
   }
 };
 
-const isEntityInCollection = (items: AnyEntity[], pkName: string, entity: AnyEntity): boolean => {
+const keyOf = (item: AnyEntity, pkName: string | string[]): string | undefined =>
+  buildKeyString(item, Array.isArray(pkName) ? pkName : [pkName]);
+
+const isEntityInCollection = (items: AnyEntity[], pkName: string | string[], entity: AnyEntity): boolean => {
   if (items.includes(entity)) return true;
-  const entityPk = entity[pkName];
-  if (entityPk === undefined || entityPk === null) return false;
-  return items.some(item => toKey(item[pkName]) === toKey(entityPk));
+  const entityPk = keyOf(entity, pkName);
+  if (entityPk === undefined) return false;
+  return items.some(item => keyOf(item, pkName) === entityPk);
 };
 
-const findInCollectionByPk = (items: AnyEntity[], pkName: string, pkValue: unknown): AnyEntity | undefined => {
+const findInCollectionByPk = (items: AnyEntity[], pkName: string | string[], pkValue: unknown): AnyEntity | undefined => {
   if (pkValue === undefined || pkValue === null) return undefined;
-  return items.find(item => toKey(item[pkName]) === toKey(pkValue));
+  return items.find(item => keyOf(item, pkName) === toKey(pkValue));
 };
 
 const extractPivotPayload = (payload: AnyEntity): Record<string, unknown> | undefined => {
@@ -175,36 +181,37 @@ const handleHasMany = async (
   await collection.load();
 
   const targetTable = relation.target;
-  const targetPk = findPrimaryKey(targetTable);
+  const targetPks = findPrimaryKeys(targetTable);
   const existing = collection.getItems() as unknown as AnyEntity[];
   const seen = new Set<string>();
 
   for (const item of payload) {
     if (item === null || item === undefined) continue;
-    const asObj = typeof item === 'object' ? (item as AnyEntity) : { [targetPk]: item };
-    const pkValue = asObj[targetPk];
+    const asObj = typeof item === 'object' ? (item as AnyEntity) : { [targetPks[0]]: item };
+    const pkValue = readPrimaryKey(targetTable, asObj);
+    const pkKey = keyOf(asObj, targetPks);
 
     const current =
-      findInCollectionByPk(existing, targetPk, pkValue) ??
-      (pkValue !== undefined && pkValue !== null ? session.getEntity(targetTable, pkValue as PrimaryKey) : undefined);
+      findInCollectionByPk(existing, targetPks, pkKey) ??
+      (pkValue !== undefined ? session.getEntity(targetTable, pkValue) : undefined);
 
     const entity = current ?? ensureEntity(session, targetTable, asObj, options);
     assignColumns(targetTable, entity as AnyEntity, asObj, options);
     await applyGraphToEntity(session, targetTable, entity as AnyEntity, asObj, options);
 
-    if (!isEntityInCollection(collection.getItems() as unknown as AnyEntity[], targetPk, entity as unknown as AnyEntity)) {
+    if (!isEntityInCollection(collection.getItems() as unknown as AnyEntity[], targetPks, entity as unknown as AnyEntity)) {
       collection.attach(entity);
     }
 
-    if (pkValue !== undefined && pkValue !== null) {
-      seen.add(toKey(pkValue));
+    if (pkKey !== undefined) {
+      seen.add(pkKey);
     }
   }
 
   if (options.pruneMissing) {
     for (const item of [...collection.getItems()]) {
-      const pkValue = item[targetPk];
-      if (pkValue !== undefined && pkValue !== null && !seen.has(toKey(pkValue))) {
+      const pkKey = keyOf(item as AnyEntity, targetPks);
+      if (pkKey !== undefined && !seen.has(pkKey)) {
         collection.remove(item);
       }
     }
@@ -0,0 +1,168 @@
+import { ColumnNode, OperandNode, eq } from '../core/ast/expression.js';
+import { TABLE_DEFINITION } from '../core/ast/query.js';
+import type { InsertQueryNode, MergeQueryNode, TableNode, UpdateQueryNode } from '../core/ast/query.js';
+import type { Dialect } from '../core/dialect/abstract.js';
+import { isMergeCompiler, type MergeCompiler } from '../core/dialect/capabilities/merge-compiler.js';
+import type { ColumnDef } from '../schema/column-types.js';
+import type { TableDef } from '../schema/table.js';
+import {
+  TableScopeResolver,
+  scopeDeleteQuery,
+  scopeSelectQuery,
+  scopeUpdateQuery
+} from '../query-builder/table-scope-rewriter.js';
+
+/** Identifier of the tenant a session is bound to. */
+export type TenantId = string | number;
+
+/**
+ * Resolves the tenant column definition of a table, if it declares one.
+ * @param table - Table definition
+ * @returns The tenant column definition or undefined
+ */
+export const getTenantColumn = (table: TableDef): ColumnDef | undefined =>
+  table.tenantColumn ? table.columns[table.tenantColumn] : undefined;
+
+// The definition a builder attached to the node; raw and parsed ASTs carry none and stay unscoped.
+const tenantColumnFor = (table: TableNode): ColumnDef | undefined => {
+  const definition = table[TABLE_DEFINITION];
+  return definition ? getTenantColumn(definition) : undefined;
+};
+
+const tenantPredicate = (tenantId: TenantId): TableScopeResolver => table => {
+  const column = tenantColumnFor(table);
+  if (!column) return undefined;
+  return eq({ type: 'Column', table: table.alias ?? table.name, name: column.name }, tenantId);
+};
+
+const assertSameTenant = (value: OperandNode, tenantId: TenantId, table: string): void => {
+  if (value.type !== 'Literal' || value.value === null || value.value === tenantId) return;
+  throw new Error(
+    `Cannot write tenant "${String(value.value)}" into "${table}" from a session scoped to tenant "${tenantId}".`
+  );
+};
+
+const isMissingValue = (value: OperandNode | undefined): boolean =>
+  value === undefined || (value.type === 'Literal' && value.value === null);
+
+/**
+ * Stamps the tenant column on every inserted row, rejecting rows that target another tenant.
+ * INSERT ... SELECT sources are scoped and must project the tenant column themselves.
+ */
+const stampInsert = (ast: InsertQueryNode, tenantId: TenantId): InsertQueryNode => {
+  const column = tenantColumnFor(ast.into);
+  const index = column ? ast.columns.findIndex(col => col.name === column.name) : -1;
+
+  if (ast.source.type === 'InsertSelect') {
+    if (column && index < 0) {
+      throw new Error(
+        `INSERT ... SELECT into tenant-scoped table "${ast.into.name}" must include the "${column.name}" column.`
+      );
+    }
+    return { ...ast, source: { ...ast.source, query: scopeSelectQuery(ast.source.query, tenantPredicate(tenantId)) } };
+  }
+  if (!column) return ast;
+
+  const stamp: OperandNode = { type: 'Literal', value: tenantId };
+  if (index < 0) {
+    const tenantNode: ColumnNode = { type: 'Column', table: ast.into.name, name: column.name };
+    return {
+      ...ast,
+      columns: [...ast.columns, tenantNode],
+      source: { ...ast.source, rows: ast.source.rows.map(row => [...row, stamp]) }
+    };
+  }
+
+  const rows = ast.source.rows.map(row => {
+    const value = row[index];
+    if (isMissingValue(value)) {
+      const next = [...row];
+      next[index] = stamp;
+      return next;
+    }
+    assertSameTenant(value, tenantId, ast.into.name);
+    return row;
+  });
+  return { ...ast, source: { ...ast.source, rows } };
+};
+
+const guardUpdate = (ast: UpdateQueryNode, tenantId: TenantId): UpdateQueryNode => {
+  const column = tenantColumnFor(ast.table);
+  if (column) {
+    ast.set
+      .filter(assignment => assignment.column.name === column.name)
+      .forEach(assignment => assertSameTenant(assignment.value, tenantId, ast.table.name));
+  }
+  return scopeUpdateQuery(ast, tenantPredicate(tenantId));
+};
+
+/**
+ * MERGE branches cannot be scoped reliably, so tenant-scoped tables may only appear in a
+ * subquery source (which is scoped like any SELECT).
+ */
+const guardMerge = (ast: MergeQueryNode, tenantId: TenantId): MergeQueryNode => {
+  const tables = ast.source.type === 'Table' ? [ast.target, ast.source] : [ast.target];
+  const scoped = tables.find(table => tenantColumnFor(table));
+  if (scoped) {
+    throw new Error(
+      `MERGE cannot reference tenant-scoped table "${scoped.name}" from a tenant-scoped session; ` +
+      'use withoutTenantScope() and filter explicitly.'
+    );
+  }
+  if (ast.source.type !== 'DerivedTable') return ast;
+  return { ...ast, source: { ...ast.source, query: scopeSelectQuery(ast.source.query, tenantPredicate(tenantId)) } };
+};
+
+/**
+ * Wraps a dialect so every statement it compiles is restricted to one tenant.
+ * SELECT/UPDATE/DELETE statements get a `tenant = :tenantId` predicate for each
+ * tenant-scoped table they reference (joins and subqueries included) and INSERTs
+ * stamp the tenant column; MERGE statements may not target tenant-scoped tables.
+ * Tables are recognised by the definition the query builder attached to each table
+ * node, never by name, so hand-written or parsed ASTs are compiled unscoped.
+ * The tenant is resolved per compilation, so returning
+ * undefined temporarily disables scoping. Scoped results carry the rewritten AST in `ast`.
+ * @param dialect - Dialect to wrap
+ * @param resolveTenantId - Returns the active tenant, or undefined to compile unscoped
+ * @returns A dialect that behaves like the original apart from tenant scoping
+ */
+export const createTenantScopedDialect = (
+  dialect: Dialect,
+  resolveTenantId: () => TenantId | undefined
+): Dialect => {
+  // Inherit from the wrapped dialect so dialect-specific extras (procedure calls, names) keep working.
+  const scoped = Object.create(dialect) as Dialect;
+  scoped.compileSelect = ast => {
+    const tenantId = resolveTenantId();
+    if (tenantId === undefined) return dialect.compileSelect(ast);
+    const scopedAst = scopeSelectQuery(ast, tenantPredicate(tenantId));
+    return { ...dialect.compileSelect(scopedAst), ast: scopedAst };
+  };
+  scoped.compileInsert = ast => {
+    const tenantId = resolveTenantId();
+    if (tenantId === undefined) return dialect.compileInsert(ast);
+    const scopedAst = stampInsert(ast, tenantId);
+    return { ...dialect.compileInsert(scopedAst), ast: scopedAst };
+  };
+  scoped.compileUpdate = ast => {
+    const tenantId = resolveTenantId();
+    if (tenantId === undefined) return dialect.compileUpdate(ast);
+    const scopedAst = guardUpdate(ast, tenantId);
+    return { ...dialect.compileUpdate(scopedAst), ast: scopedAst };
+  };
+  scoped.compileDelete = ast => {
+    const tenantId = resolveTenantId();
+    if (tenantId === undefined) return dialect.compileDelete(ast);
+    const scopedAst = scopeDeleteQuery(ast, tenantPredicate(tenantId));
+    return { ...dialect.compileDelete(scopedAst), ast: scopedAst };
+  };
+  if (isMergeCompiler(dialect)) {
+    (scoped as Dialect & MergeCompiler).compileMerge = ast => {
+      const tenantId = resolveTenantId();
+      if (tenantId === undefined) return dialect.compileMerge(ast);
+      const scopedAst = guardMerge(ast, tenantId);
+      return { ...dialect.compileMerge(scopedAst), ast: scopedAst };
+    };
+  }
+  return scoped;
+};
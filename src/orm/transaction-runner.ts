@@ -1,4 +1,6 @@
 import type { DbExecutor } from '../core/execution/db-executor.js';
+import { isTransientTransactionError } from '../core/execution/transaction-options.js';
+import type { TransactionOptions, TransactionRetryOptions } from '../core/execution/transaction-options.js';
 
 /**
  * Executes a function within a database transaction
@@ -22,3 +24,64 @@ export const runInTransaction = async (executor: DbExecutor, action: () => Promi
     throw error;
   }
 };
+
+const DEFAULT_RETRY: Required<Pick<TransactionRetryOptions, 'maxAttempts' | 'initialDelayMs' | 'maxDelayMs' | 'factor' | 'jitter'>> = {
+  maxAttempts: 3,
+  initialDelayMs: 20,
+  maxDelayMs: 1000,
+  factor: 2,
+  jitter: true
+};
+
+/**
+ * Normalizes the `retry` transaction option into a full policy.
+ * @param retry - Option value (`true`, max attempts or a policy object)
+ * @returns Retry policy, or undefined when retries are disabled
+ */
+export const resolveRetryPolicy = (
+  retry: TransactionOptions['retry']
+): (TransactionRetryOptions & typeof DEFAULT_RETRY) | undefined => {
+  if (!retry) return undefined;
+  if (retry === true) return { ...DEFAULT_RETRY };
+  if (typeof retry === 'number') return { ...DEFAULT_RETRY, maxAttempts: retry };
+  return { ...DEFAULT_RETRY, ...retry };
+};
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a whole transaction attempt, re-running it when it fails with a retryable error.
+ * Each attempt must start from a clean state (the caller rolls back before rethrowing).
+ * @param executor - Executor whose driver classifies retryable errors
+ * @param attempt - Runs one complete transaction
+ * @param retry - Retry option from TransactionOptions
+ * @returns The result of the successful attempt
+ * @throws The last error when it is not retryable or attempts are exhausted
+ */
+export const runWithTransactionRetry = async <T>(
+  executor: DbExecutor,
+  attempt: () => Promise<T>,
+  retry: TransactionOptions['retry']
+): Promise<T> => {
+  const policy = resolveRetryPolicy(retry);
+  if (!policy) return attempt();
+
+  const isRetryable = policy.isRetryable
+    ?? ((error: unknown) => (executor.isTransientError ?? isTransientTransactionError)(error));
+
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (attemptNumber >= policy.maxAttempts || !isRetryable(error)) {
+        throw error;
+      }
+      const backoff = Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.factor ** (attemptNumber - 1));
+      const delayMs = policy.jitter ? Math.round(backoff / 2 + Math.random() * (backoff / 2)) : backoff;
+      await policy.onRetry?.({ attempt: attemptNumber, error, delayMs });
+      if (delayMs > 0) {
+        await sleep(delayMs);
+      }
+    }
+  }
+};
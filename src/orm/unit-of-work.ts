@@ -1,24 +1,118 @@
-import { ColumnNode, eq } from '../core/ast/expression.js';
-import type { ValueOperandInput } from '../core/ast/expression.js';
-import type { Dialect, CompiledQuery } from '../core/dialect/abstract.js';
+import { ColumnNode, and, eq, isNull } from '../core/ast/expression.js';
+import type { ExpressionNode, ValueOperandInput } from '../core/ast/expression.js';
+import type { Dialect } from '../core/dialect/abstract.js';
 import { InsertQueryBuilder } from '../query-builder/insert.js';
 import { UpdateQueryBuilder } from '../query-builder/update.js';
 import { DeleteQueryBuilder } from '../query-builder/delete.js';
-import { findPrimaryKey } from '../query-builder/hydration-planner.js';
+import { findPrimaryKey, findPrimaryKeys } from '../query-builder/hydration-planner.js';
 import type { TableDef } from '../schema/table.js';
+import type { ColumnDef } from '../schema/column-types.js';
 import { payloadResultSets } from '../core/execution/db-executor.js';
 import type { DbExecutor, QueryResult } from '../core/execution/db-executor.js';
 import { IdentityMap } from './identity-map.js';
 import { EntityStatus } from './runtime-types.js';
-import type { TrackedEntity } from './runtime-types.js';
+import type { FieldChange, TrackedEntity } from './runtime-types.js';
 import type { PrimaryKey } from './entity-context.js';
 import type { TableHookResolver, TableHooks } from './lifecycle.js';
+import { OptimisticLockError } from './optimistic-lock-error.js';
+import { buildPrimaryKeyPredicate, readPrimaryKey } from './primary-key.js';
+import { getTenantColumn } from './tenant-scope.js';
+import type { TenantId } from './tenant-scope.js';
+import { getEntityMetadata } from './entity-metadata.js';
+import type { EntityConstructor } from './entity-metadata.js';
+import type { StatementRunner } from './interceptor-pipeline.js';
+import type { HistoryOperation, HistoryRecorder } from './audit.js';
+import { sortTablesByDependencies } from './flush-plan.js';
+import { splitIntoChunks } from '../bulk/bulk-utils.js';
+import { flattenQueryResults } from '../bulk/bulk-context.js';
+import { fromDbValue, toDbValue } from '../schema/value-converter.js';
+
+const TIMESTAMP_VERSION_TYPES = new Set(['TIMESTAMP', 'TIMESTAMPTZ', 'DATETIME']);
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+/**
+ * Parses a stored timestamp version; values without an offset are local wall-clock times,
+ * as drivers bind and read `Date` values for columns without a time zone.
+ */
+const parseTimestampVersion = (value: unknown): number | undefined => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value !== 'string') return undefined;
+  const parsed = Date.parse(value.trim().replace(' ', 'T'));
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Formats a timestamp version the way the column stores it: `YYYY-MM-DD HH:MM:SS[.fff]`,
+ * in local time, or in UTC with an explicit offset for TIMESTAMPTZ columns.
+ */
+const formatTimestampVersion = (column: ColumnDef, time: number, digits: number): string => {
+  const date = new Date(time);
+  const utc = column.type.toUpperCase() === 'TIMESTAMPTZ';
+  const parts = utc
+    ? [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), date.getUTCMilliseconds()]
+    : [date.getFullYear(), date.getMonth() + 1, date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()];
+  const [year, month, day, hours, minutes, seconds, millis] = parts;
+  const fraction = digits ? `.${pad(millis, 3).slice(0, digits)}` : '';
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)} ${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fraction}${utc ? '+00:00' : ''}`;
+};
+// Multi-row INSERT limits: rows per statement and bound parameters (SQL Server accepts 2100).
+const INSERT_BATCH_ROWS = 500;
+const INSERT_BATCH_PARAMS = 2000;
+
+type FlushStatement = InsertQueryBuilder<unknown> | UpdateQueryBuilder<unknown> | DeleteQueryBuilder<unknown>;
+
+/**
+ * Column sets whose values identify a row: the primary key, unique columns and unique indexes.
+ */
+const collectUniqueKeys = (table: TableDef): string[][] => [
+  findPrimaryKeys(table),
+  ...Object.entries(table.columns).filter(([, column]) => column.unique).map(([key]) => [key]),
+  ...(table.indexes ?? [])
+    .filter(index => index.unique && !index.where)
+    .map(index => index.columns.map(column => (typeof column === 'string' ? column : column.column)))
+];
+
+/**
+ * Serializes the values of a key, or returns undefined when one of them is missing.
+ */
+const keyValue = (columns: string[], row: Record<string, unknown>): string | undefined => {
+  const values = columns.map(column => row[column]);
+  if (values.some(value => value == null)) return undefined;
+  return values.map(value => (value instanceof Date ? value.toISOString() : String(value))).join('\u0000');
+};
+
+/**
+ * Copies a converter-backed object value (JSON document, date) through its converter, so
+ * changes made to the entity's value in place do not reach the snapshot.
+ */
+const snapshotValue = (column: ColumnDef | undefined, value: unknown): unknown =>
+  column?.converter && typeof value === 'object' && value !== null ? fromDbValue(column, toDbValue(column, value)) : value;
+
+/**
+ * Compares a snapshot value with the current one; converter-backed objects are compared in their database form.
+ */
+const sameColumnValue = (column: ColumnDef | undefined, before: unknown, after: unknown): boolean => {
+  if (before === after) return true;
+  if (!column?.converter || typeof before !== 'object' || typeof after !== 'object' || before === null || after === null) {
+    return false;
+  }
+  return toDbValue(column, before) === toDbValue(column, after);
+};
+
+/**
+ * Whether a table has converter-backed columns, whose values can change in place without
+ * going through the entity proxy.
+ */
+const hasConvertedColumns = (table: TableDef): boolean =>
+  Object.values(table.columns).some(column => column.converter);
 
 /**
  * Unit of Work pattern implementation for tracking entity changes.
  */
 export class UnitOfWork {
   private readonly trackedEntities = new Map<object, TrackedEntity>();
+  private readonly writtenTables = new Set<string>();
 
   /**
    * Creates a new UnitOfWork instance.
@@ -27,13 +121,21 @@ export class UnitOfWork {
    * @param identityMap - The identity map
    * @param hookContext - Function to get the hook context
    * @param resolveTableHooks - Session/runtime lifecycle hook resolver
+   * @param resolveTenantId - Tenant stamped on inserted entities of tenant-scoped tables
+   * @param runStatement - Runs flush statements (the session routes them through its interceptor pipeline)
+   * @param recordHistory - Records writes of audited tables in their history tables
+   * @param resolveRelationChanges - Lists the relation changes pending on an entity
    */
   constructor(
     private readonly dialect: Dialect,
-    private readonly executor: DbExecutor,
+    executor: DbExecutor,
     private readonly identityMap: IdentityMap,
     private readonly hookContext: () => unknown,
-    private readonly resolveTableHooks: TableHookResolver = () => undefined
+    private readonly resolveTableHooks: TableHookResolver = () => undefined,
+    private readonly resolveTenantId: () => TenantId | undefined = () => undefined,
+    private readonly runStatement: StatementRunner = request => executor.executeSql(request.sql, request.params),
+    private readonly recordHistory?: HistoryRecorder,
+    private readonly resolveRelationChanges: (entity: object) => FieldChange[] = () => []
   ) { }
 
   /**
@@ -163,34 +265,190 @@ export class UnitOfWork {
     tracked.status = EntityStatus.Removed;
   }
 
+  /**
+   * Lists the pending changes of a tracked entity: changed columns (every assigned column for
+   * new entities) followed by the relation changes pending on it.
+   * @param entity - The entity to inspect
+   * @returns Pending changes, empty when the entity is not tracked
+   */
+  getChangeSet(entity: object): FieldChange[] {
+    const tracked = this.trackedEntities.get(entity);
+    if (!tracked) return [];
+    return [...this.diffColumns(tracked), ...this.resolveRelationChanges(entity)];
+  }
+
+  /**
+   * Restores the column values of a tracked entity from its snapshot and clears its pending
+   * update or removal.
+   * @param entity - The entity to revert
+   */
+  revert(entity: object): void {
+    const tracked = this.trackedEntities.get(entity);
+    if (!tracked?.original) return;
+    Object.assign(entity, this.createSnapshot(tracked.table, tracked.original));
+    tracked.status = EntityStatus.Managed;
+  }
+
+  /**
+   * Applies a freshly loaded row to a tracked entity and makes it the new snapshot.
+   * @param entity - The entity to reload
+   * @param row - Database row of the entity
+   */
+  reload(entity: object, row: Record<string, unknown>): void {
+    const tracked = this.trackedEntities.get(entity);
+    if (!tracked) return;
+    for (const column of Object.keys(tracked.table.columns)) {
+      if (column in row) {
+        (entity as Record<string, unknown>)[column] = row[column];
+      }
+    }
+    tracked.status = EntityStatus.Managed;
+    tracked.original = this.createSnapshot(tracked.table, entity as Record<string, unknown>);
+  }
+
+  /**
+   * Stops tracking an entity; later changes to it are not flushed.
+   * @param entity - The entity to detach
+   */
+  detach(entity: object): void {
+    const tracked = this.trackedEntities.get(entity);
+    if (!tracked) return;
+    tracked.status = EntityStatus.Detached;
+    this.trackedEntities.delete(entity);
+    this.identityMap.remove(tracked);
+  }
+
   /**
    * Flushes pending changes to the database.
+   * Inserts run parents-first along the foreign-key graph (batched per table when the
+   * dialect supports RETURNING), then updates, then deletes children-first. Removed rows
+   * sharing a primary or unique key with a new row of the same table are deleted before
+   * the inserts, so replacing a row within one flush does not violate the key. Managed
+   * entities with converter-backed columns are diffed as well, since a JSON document or
+   * date can be changed in place.
    */
   async flush(): Promise<void> {
     const toFlush = Array.from(this.trackedEntities.values());
+    const tables = sortTablesByDependencies(Array.from(new Set(toFlush.map(tracked => tracked.table))));
+    const pending = (table: TableDef, status: EntityStatus): TrackedEntity[] =>
+      toFlush.filter(tracked => tracked.table === table && tracked.status === status);
+
+    for (const table of [...tables].reverse()) {
+      for (const tracked of this.findReplacedRows(pending(table, EntityStatus.Removed), pending(table, EntityStatus.New))) {
+        await this.flushDelete(tracked);
+      }
+    }
+    for (const table of tables) {
+      await this.flushInserts(pending(table, EntityStatus.New));
+    }
     for (const tracked of toFlush) {
-      switch (tracked.status) {
-        case EntityStatus.New:
-          await this.flushInsert(tracked);
-          break;
-        case EntityStatus.Dirty:
-          await this.flushUpdate(tracked);
-          break;
-        case EntityStatus.Removed:
-          await this.flushDelete(tracked);
-          break;
-        default:
-          break;
+      if (
+        tracked.status === EntityStatus.Dirty ||
+        (tracked.status === EntityStatus.Managed && hasConvertedColumns(tracked.table))
+      ) {
+        await this.flushUpdate(tracked);
+      }
+    }
+    for (const table of [...tables].reverse()) {
+      for (const tracked of pending(table, EntityStatus.Removed)) {
+        await this.flushDelete(tracked);
       }
     }
   }
 
+  /**
+   * Selects the removed rows whose primary or unique key values are reused by new rows.
+   * @param removed - Removed entities of one table
+   * @param added - New entities of the same table
+   * @returns The removed entities that must be deleted before the inserts
+   */
+  private findReplacedRows(removed: TrackedEntity[], added: TrackedEntity[]): TrackedEntity[] {
+    if (!removed.length || !added.length) return [];
+    const keys = collectUniqueKeys(removed[0].table);
+    const taken = new Set(
+      added.flatMap(tracked => keys.map((key, index) => `${index}:${keyValue(key, tracked.entity as Record<string, unknown>)}`))
+    );
+    return removed.filter(tracked => keys.some((key, index) => {
+      const value = keyValue(key, tracked.original ?? (tracked.entity as Record<string, unknown>));
+      return value !== undefined && taken.has(`${index}:${value}`);
+    }));
+  }
+
+  /**
+   * Returns the names of the tables written since the last call and forgets them.
+   * @returns Written table names
+   */
+  takeWrittenTables(): string[] {
+    const tables = Array.from(this.writtenTables);
+    this.writtenTables.clear();
+    return tables;
+  }
+
   /**
    * Resets the unit of work by clearing all tracked entities and identity map.
    */
   reset(): void {
     this.trackedEntities.clear();
     this.identityMap.clear();
+    this.writtenTables.clear();
+  }
+
+  /**
+   * Flushes the new entities of one table.
+   * Entities that share the same assigned columns are written with multi-row
+   * INSERT ... RETURNING statements. SQL Server OUTPUT and SQLite RETURNING do not
+   * guarantee VALUES order, so returned rows are matched back by primary key when the
+   * application assigned it, and by sorting the generated keys when the dialect hands out
+   * identity values in VALUES order. Other entities relying on generated keys, and every
+   * entity flushed without RETURNING support, are inserted one row at a time.
+   * @param group - New entities of a single table, in tracking order
+   */
+  private async flushInserts(group: TrackedEntity[]): Promise<void> {
+    if (group.length < 2 || !this.dialect.supportsDmlReturningClause()) {
+      for (const tracked of group) {
+        await this.flushInsert(tracked);
+      }
+      return;
+    }
+
+    const { table } = group[0];
+    const hooks = this.resolveTableHooks(table);
+    const primaryKeys = findPrimaryKeys(table);
+    const batchGeneratedKeys = primaryKeys.length === 1
+      && table.columns[primaryKeys[0]]?.autoIncrement === true
+      && this.dialect.insertsIdentityInValuesOrder?.() === true;
+    const batches = new Map<string, { tracked: TrackedEntity; payload: Record<string, unknown>; key?: string }[]>();
+    for (const tracked of group) {
+      await this.runHook(hooks?.beforeInsert, tracked);
+      const payload = this.prepareInsert(tracked);
+      const key = keyValue(primaryKeys, payload);
+      if (key === undefined && !batchGeneratedKeys) {
+        await this.insertRow(tracked, payload, hooks);
+        continue;
+      }
+      // Every row of a multi-row VALUES list needs the same columns.
+      const signature = Object.keys(payload).join(',');
+      const batch = batches.get(signature) ?? [];
+      batch.push({ tracked, payload, key });
+      batches.set(signature, batch);
+    }
+
+    for (const [signature, batch] of batches) {
+      const columnCount = Math.max(1, signature.split(',').length);
+      const chunkSize = Math.max(1, Math.min(INSERT_BATCH_ROWS, Math.floor(INSERT_BATCH_PARAMS / columnCount)));
+      for (const chunk of splitIntoChunks(batch, chunkSize)) {
+        const builder = new InsertQueryBuilder(table)
+          .values(chunk.map(row => row.payload) as Record<string, ValueOperandInput>[])
+          .returning(...this.getReturningColumns(table));
+        const rows = flattenQueryResults(await this.executeStatement(builder, chunk[0].tracked));
+        this.writtenTables.add(table.name);
+        const matched = this.matchReturnedRows(table, primaryKeys, chunk.map(row => row.key), rows);
+        for (const [index, { tracked }] of chunk.entries()) {
+          this.applyReturningRow(tracked, matched[index]);
+          await this.completeInsert(tracked, hooks);
+        }
+      }
+    }
   }
 
   /**
@@ -200,21 +458,57 @@ export class UnitOfWork {
   private async flushInsert(tracked: TrackedEntity): Promise<void> {
     const hooks = this.resolveTableHooks(tracked.table);
     await this.runHook(hooks?.beforeInsert, tracked);
+    await this.insertRow(tracked, this.prepareInsert(tracked), hooks);
+  }
 
-    const payload = this.extractColumns(tracked.table, tracked.entity as Record<string, unknown>);
+  /**
+   * Inserts a single prepared row and reads back generated values.
+   * @param tracked - The tracked entity to insert
+   * @param payload - Column values to insert
+   * @param hooks - Lifecycle hooks of its table
+   */
+  private async insertRow(
+    tracked: TrackedEntity,
+    payload: Record<string, unknown>,
+    hooks: TableHooks | undefined
+  ): Promise<void> {
     let builder = new InsertQueryBuilder(tracked.table).values(payload as Record<string, ValueOperandInput>);
     if (this.dialect.supportsDmlReturningClause()) {
       builder = builder.returning(...this.getReturningColumns(tracked.table));
     }
-    const compiled = builder.compile(this.dialect);
-    const results = await this.executeCompiled(compiled);
+    const results = await this.executeStatement(builder, tracked);
+    this.writtenTables.add(tracked.table.name);
     this.applyReturningResults(tracked, results);
     this.applyInsertedIdIfAbsent(tracked, results);
 
+    await this.completeInsert(tracked, hooks);
+  }
+
+  /**
+   * Assigns the initial version and tenant of a new entity and extracts its INSERT payload.
+   * @param tracked - The tracked entity to insert
+   * @returns Column values to insert
+   */
+  private prepareInsert(tracked: TrackedEntity): Record<string, unknown> {
+    const versionColumn = this.getVersionColumn(tracked.table);
+    if (versionColumn && (tracked.entity as Record<string, unknown>)[versionColumn.name] == null) {
+      (tracked.entity as Record<string, unknown>)[versionColumn.name] = this.nextVersion(versionColumn, undefined);
+    }
+    this.stampTenant(tracked);
+    return this.extractColumns(tracked.table, tracked.entity as Record<string, unknown>);
+  }
+
+  /**
+   * Marks an inserted entity as managed, snapshots and registers it, then runs afterInsert.
+   * @param tracked - The inserted entity
+   * @param hooks - Lifecycle hooks of its table
+   */
+  private async completeInsert(tracked: TrackedEntity, hooks: TableHooks | undefined): Promise<void> {
     tracked.status = EntityStatus.Managed;
     tracked.original = this.createSnapshot(tracked.table, tracked.entity as Record<string, unknown>);
     tracked.pk = this.getPrimaryKeyValue(tracked);
     this.registerIdentity(tracked);
+    await this.recordWrite(tracked, 'insert', null);
 
     await this.runHook(hooks?.afterInsert, tracked);
   }
@@ -225,33 +519,48 @@ export class UnitOfWork {
    */
   private async flushUpdate(tracked: TrackedEntity): Promise<void> {
     if (tracked.pk == null) return;
+    const versionColumn = this.getVersionColumn(tracked.table);
     const changes = this.computeChanges(tracked);
+    if (versionColumn) delete changes[versionColumn.name];
     if (!Object.keys(changes).length) {
       tracked.status = EntityStatus.Managed;
       return;
     }
 
     const hooks = this.resolveTableHooks(tracked.table);
-    await this.runHook(hooks?.beforeUpdate, tracked);
+    await this.runHook(hooks?.beforeUpdate, tracked, this.getChangeSet(tracked.entity));
 
     const pkColumn = tracked.table.columns[findPrimaryKey(tracked.table)];
     if (!pkColumn) return;
 
+    const expectedVersion = versionColumn ? this.getExpectedVersion(tracked, versionColumn) : undefined;
+    const nextVersion = versionColumn ? this.nextVersion(versionColumn, expectedVersion) : undefined;
+    if (versionColumn) {
+      changes[versionColumn.name] = nextVersion;
+    }
+
+    const returning = this.dialect.supportsDmlReturningClause();
     let builder = new UpdateQueryBuilder(tracked.table)
       .set(changes)
-      .where(eq(pkColumn, tracked.pk));
+      .where(this.buildRowPredicate(tracked, versionColumn, expectedVersion));
 
-    if (this.dialect.supportsDmlReturningClause()) {
+    if (returning) {
       builder = builder.returning(...this.getReturningColumns(tracked.table));
     }
 
-    const compiled = builder.compile(this.dialect);
-    const results = await this.executeCompiled(compiled);
+    const results = await this.executeStatement(builder, tracked);
+    this.writtenTables.add(tracked.table.name);
+    if (versionColumn) {
+      this.assertVersionMatched(tracked, results, returning, expectedVersion);
+      (tracked.entity as Record<string, unknown>)[versionColumn.name] = nextVersion;
+    }
     this.applyReturningResults(tracked, results);
 
+    const before = tracked.original;
     tracked.status = EntityStatus.Managed;
     tracked.original = this.createSnapshot(tracked.table, tracked.entity as Record<string, unknown>);
     this.registerIdentity(tracked);
+    await this.recordWrite(tracked, 'update', before);
 
     await this.runHook(hooks?.afterUpdate, tracked);
   }
@@ -268,9 +577,19 @@ export class UnitOfWork {
     const pkColumn = tracked.table.columns[findPrimaryKey(tracked.table)];
     if (!pkColumn) return;
 
-    const builder = new DeleteQueryBuilder(tracked.table).where(eq(pkColumn, tracked.pk));
-    const compiled = builder.compile(this.dialect);
-    await this.executeCompiled(compiled);
+    const versionColumn = this.getVersionColumn(tracked.table);
+    const expectedVersion = versionColumn ? this.getExpectedVersion(tracked, versionColumn) : undefined;
+    const returning = !!versionColumn && this.dialect.supportsDmlReturningClause();
+    const predicate = this.buildRowPredicate(tracked, versionColumn, expectedVersion);
+    const builder = tracked.table.softDeleteColumn
+      ? this.buildSoftDelete(tracked, predicate, returning ? pkColumn : undefined)
+      : this.buildDelete(tracked.table, predicate, returning ? pkColumn : undefined);
+    const results = await this.executeStatement(builder, tracked);
+    this.writtenTables.add(tracked.table.name);
+    if (versionColumn) {
+      this.assertVersionMatched(tracked, results, returning, expectedVersion);
+    }
+    await this.recordWrite(tracked, 'delete', tracked.original);
 
     tracked.status = EntityStatus.Detached;
     this.trackedEntities.delete(tracked.entity);
@@ -279,17 +598,191 @@ export class UnitOfWork {
     await this.runHook(hooks?.afterDelete, tracked);
   }
 
+  /**
+   * Records a write in the history table when the table is audited.
+   * @param tracked - The tracked entity that was written
+   * @param operation - Kind of write
+   * @param before - Row snapshot before the write
+   */
+  private async recordWrite(
+    tracked: TrackedEntity,
+    operation: HistoryOperation,
+    before: Record<string, unknown> | null
+  ): Promise<void> {
+    if (!this.recordHistory || !tracked.table.audit || tracked.pk == null) return;
+    const removed = operation === 'delete' && !tracked.table.softDeleteColumn;
+    await this.recordHistory({
+      table: tracked.table,
+      pk: tracked.pk,
+      operation,
+      before,
+      after: removed ? null : this.createSnapshot(tracked.table, tracked.entity as Record<string, unknown>)
+    });
+  }
+
+  /**
+   * Builds the DELETE that removes a row.
+   * @param table - The table definition
+   * @param predicate - Row predicate
+   * @param returning - Optional column to return so affected rows can be counted
+   * @returns DELETE builder
+   */
+  private buildDelete(table: TableDef, predicate: ExpressionNode, returning?: ColumnDef): FlushStatement {
+    let builder = new DeleteQueryBuilder(table).where(predicate).forceDelete();
+    if (returning) {
+      builder = builder.returning(returning);
+    }
+    return builder;
+  }
+
+  /**
+   * Builds the UPDATE that soft-deletes a row, stamping the entity with the same timestamp.
+   * @param tracked - The tracked entity being removed
+   * @param predicate - Row predicate
+   * @param returning - Optional column to return so affected rows can be counted
+   * @returns UPDATE builder
+   */
+  private buildSoftDelete(tracked: TrackedEntity, predicate: ExpressionNode, returning?: ColumnDef): FlushStatement {
+    const column = tracked.table.columns[tracked.table.softDeleteColumn!];
+    const deletedAt = new Date();
+    (tracked.entity as Record<string, unknown>)[column.name] = deletedAt;
+    let builder = new UpdateQueryBuilder(tracked.table).set({ [column.name]: deletedAt }).where(predicate);
+    if (returning) {
+      builder = builder.returning(returning);
+    }
+    return builder;
+  }
+
+  /**
+   * Builds the WHERE predicate identifying the row, guarded by the version when present.
+   * @param tracked - The tracked entity
+   * @param versionColumn - Optional version column
+   * @param expectedVersion - Version value the row must still have
+   * @returns The predicate expression
+   */
+  private buildRowPredicate(
+    tracked: TrackedEntity,
+    versionColumn: ColumnDef | undefined,
+    expectedVersion: unknown
+  ): ExpressionNode {
+    const pkPredicate = buildPrimaryKeyPredicate(tracked.table, tracked.pk!);
+    if (!versionColumn) return pkPredicate;
+    const versionPredicate = expectedVersion == null
+      ? isNull(versionColumn)
+      : eq(versionColumn, expectedVersion as ValueOperandInput);
+    return and(pkPredicate, versionPredicate);
+  }
+
+  /**
+   * Gets the optimistic concurrency version column of a table.
+   * @param table - The table definition
+   * @returns The version column or undefined
+   */
+  private getVersionColumn(table: TableDef): ColumnDef | undefined {
+    return Object.values(table.columns).find(column => column.version);
+  }
+
+  /**
+   * Assigns the session tenant to a new entity of a tenant-scoped table when it has none.
+   * @param tracked - The tracked entity being inserted
+   */
+  private stampTenant(tracked: TrackedEntity): void {
+    const tenantColumn = getTenantColumn(tracked.table);
+    const tenantId = this.resolveTenantId();
+    if (!tenantColumn || tenantId === undefined) return;
+    const entity = tracked.entity as Record<string, unknown>;
+    if (entity[tenantColumn.name] == null) {
+      entity[tenantColumn.name] = tenantId;
+    }
+  }
+
+  /**
+   * Resolves the version the row is expected to have in the database.
+   * A version assigned explicitly on the entity (e.g. from a client payload via saveGraph)
+   * takes precedence over the loaded snapshot.
+   * @param tracked - The tracked entity
+   * @param versionColumn - The version column
+   * @returns The expected version value
+   */
+  private getExpectedVersion(tracked: TrackedEntity, versionColumn: ColumnDef): unknown {
+    const current = (tracked.entity as Record<string, unknown>)[versionColumn.name];
+    const original = tracked.original?.[versionColumn.name];
+    return current !== undefined && current !== original ? current : original;
+  }
+
+  /**
+   * Computes the next version value: timestamps are refreshed, integers incremented.
+   * @param versionColumn - The version column
+   * @param current - The current version value
+   * @returns The next version value
+   */
+  private nextVersion(versionColumn: ColumnDef, current: unknown): unknown {
+    if (TIMESTAMP_VERSION_TYPES.has(versionColumn.type.toUpperCase())) {
+      return this.nextTimestampVersion(versionColumn, current);
+    }
+    if (typeof current === 'bigint') return current + 1n;
+    const numeric = current == null ? 0 : Number(current);
+    return numeric + 1;
+  }
+
+  /**
+   * Computes the next timestamp version, truncated to the precision the column stores
+   * (fractional second digits from `args[0]`, whole seconds by default) so the value
+   * read back matches the one written. Versions always move forward, by one precision
+   * step when the clock has not passed the current version yet.
+   * @param versionColumn - Timestamp version column
+   * @param current - Current version value
+   * @returns A `Date` for columns with a converter, otherwise the formatted timestamp string
+   */
+  private nextTimestampVersion(versionColumn: ColumnDef, current: unknown): unknown {
+    const digits = Math.min(3, Math.max(0, Number(versionColumn.args?.[0]) || 0));
+    const step = 10 ** (3 - digits);
+    const previous = parseTimestampVersion(current);
+    let next = Math.floor(Date.now() / step) * step;
+    if (previous !== undefined && next <= previous) {
+      next = Math.floor(previous / step) * step + step;
+    }
+    return versionColumn.converter ? new Date(next) : formatTimestampVersion(versionColumn, next, digits);
+  }
+
+  /**
+   * Throws when a version-guarded write did not affect any row.
+   * Drivers that report neither affected rows nor RETURNING rows cannot be checked.
+   * @param tracked - The tracked entity
+   * @param results - Query results
+   * @param returning - Whether a RETURNING/OUTPUT clause was used
+   * @param expectedVersion - Version value the write expected
+   */
+  private assertVersionMatched(
+    tracked: TrackedEntity,
+    results: QueryResult[],
+    returning: boolean,
+    expectedVersion: unknown
+  ): void {
+    const first = results[0];
+    const affected = first?.meta?.rowsAffected ?? (returning ? first?.values.length ?? 0 : undefined);
+    if (affected === 0) {
+      throw new OptimisticLockError(tracked.table.name, tracked.pk, expectedVersion);
+    }
+  }
+
   /**
    * Runs a lifecycle hook if defined.
    * @param hook - The hook function
    * @param tracked - The tracked entity
+   * @param changes - Change set handed to beforeUpdate
    */
   private async runHook(
-    hook: TableHooks[keyof TableHooks] | undefined,
-    tracked: TrackedEntity
+    hook: ((ctx: unknown, entity: object, changes?: FieldChange[]) => Promise<void> | void) | undefined,
+    tracked: TrackedEntity,
+    changes?: FieldChange[]
   ): Promise<void> {
     if (!hook) return;
-    await hook(this.hookContext(), tracked.entity);
+    if (changes) {
+      await hook(this.hookContext(), tracked.entity, changes);
+    } else {
+      await hook(this.hookContext(), tracked.entity);
+    }
   }
 
   /**
@@ -298,12 +791,26 @@ export class UnitOfWork {
    * @returns Object with changed column values
    */
   private computeChanges(tracked: TrackedEntity): Record<string, unknown> {
-    const snapshot = tracked.original ?? {};
     const changes: Record<string, unknown> = {};
-    for (const column of Object.keys(tracked.table.columns)) {
+    for (const change of this.diffColumns(tracked)) {
+      changes[change.field] = change.to;
+    }
+    return changes;
+  }
+
+  /**
+   * Lists the columns whose current value differs from the original snapshot.
+   * Converter-backed objects (JSON documents, dates) are compared by value.
+   * @param tracked - The tracked entity
+   * @returns Column changes in column order
+   */
+  private diffColumns(tracked: TrackedEntity): FieldChange[] {
+    const snapshot = tracked.original ?? {};
+    const changes: FieldChange[] = [];
+    for (const [column, def] of Object.entries(tracked.table.columns)) {
       const current = (tracked.entity as Record<string, unknown>)[column];
-      if (snapshot[column] !== current) {
-        changes[column] = current;
+      if (!sameColumnValue(def, snapshot[column], current)) {
+        changes.push({ field: column, from: snapshot[column], to: current });
       }
     }
     return changes;
@@ -325,15 +832,32 @@ export class UnitOfWork {
   }
 
   /**
-   * Executes a compiled query.
-   * @param compiled - The compiled query
+   * Compiles and executes a flush statement for a tracked entity.
+   * @param builder - The statement builder
+   * @param tracked - The tracked entity being written
    * @returns Query results
    */
-  private async executeCompiled(compiled: CompiledQuery): Promise<QueryResult[]> {
-    const payload = await this.executor.executeSql(compiled.sql, compiled.params);
+  private async executeStatement(builder: FlushStatement, tracked: TrackedEntity): Promise<QueryResult[]> {
+    const compiled = builder.compile(this.dialect);
+    const payload = await this.runStatement({
+      sql: compiled.sql,
+      params: compiled.params,
+      ast: compiled.ast ?? builder.getAST(),
+      entityConstructor: this.resolveEntityConstructor(tracked)
+    });
     return payloadResultSets(payload);
   }
 
+  /**
+   * Resolves the decorated entity class of a tracked entity, if any.
+   * @param tracked - The tracked entity
+   * @returns Entity constructor mapped to the tracked table, or undefined for plain rows
+   */
+  private resolveEntityConstructor(tracked: TrackedEntity): EntityConstructor | undefined {
+    const ctor = (tracked.entity as object).constructor as EntityConstructor | undefined;
+    return ctor && getEntityMetadata(ctor)?.table === tracked.table ? ctor : undefined;
+  }
+
   /**
    * Gets columns for RETURNING clause.
    * @param table - The table definition
@@ -360,11 +884,68 @@ export class UnitOfWork {
     const row = first.values[0];
     for (let i = 0; i < first.columns.length; i++) {
       const columnName = this.normalizeColumnName(first.columns[i]);
-      if (!(columnName in tracked.table.columns)) continue;
-      (tracked.entity as Record<string, unknown>)[columnName] = row[i];
+      const column = tracked.table.columns[columnName];
+      if (!column) continue;
+      (tracked.entity as Record<string, unknown>)[columnName] = fromDbValue(column, row[i]);
     }
   }
 
+  /**
+   * Applies one row of a multi-row RETURNING result to the tracked entity.
+   * @param tracked - The tracked entity
+   * @param row - Returned row keyed by bare column name
+   */
+  private applyReturningRow(tracked: TrackedEntity, row: Record<string, unknown> | undefined): void {
+    if (!row) return;
+    for (const [columnName, value] of Object.entries(row)) {
+      const column = tracked.table.columns[columnName];
+      if (!column) continue;
+      (tracked.entity as Record<string, unknown>)[columnName] = fromDbValue(column, value);
+    }
+  }
+
+  /**
+   * Pairs the rows returned by a multi-row INSERT with the rows it inserted.
+   * Assigned keys are looked up; generated keys are sorted and handed out in VALUES order.
+   * @param table - Table the rows belong to
+   * @param primaryKeys - Primary key column names
+   * @param keys - Serialized primary keys of the inserted rows (undefined when generated), in VALUES order
+   * @param rows - Returned rows keyed by bare column name
+   * @returns Returned row for each inserted row, in VALUES order
+   */
+  private matchReturnedRows(
+    table: TableDef,
+    primaryKeys: string[],
+    keys: (string | undefined)[],
+    rows: Record<string, unknown>[]
+  ): (Record<string, unknown> | undefined)[] {
+    if (keys.every(key => key === undefined)) {
+      const identity = (row: Record<string, unknown>): bigint => BigInt(String(row[primaryKeys[0]]));
+      const sorted = [...rows].sort((a, b) => {
+        const left = identity(a);
+        const right = identity(b);
+        return left < right ? -1 : left > right ? 1 : 0;
+      });
+      return keys.map((_, index) => sorted[index]);
+    }
+    const rowsByKey = new Map(rows.map(row => [this.returnedKey(table, primaryKeys, row), row]));
+    return keys.map(key => (key === undefined ? undefined : rowsByKey.get(key)));
+  }
+
+  /**
+   * Reads the primary key of a multi-row RETURNING row in the form used by {@link keyValue}.
+   * @param table - Table the row belongs to
+   * @param primaryKeys - Primary key column names
+   * @param row - Returned row keyed by bare column name
+   * @returns Serialized key, or undefined when the row does not carry it
+   */
+  private returnedKey(table: TableDef, primaryKeys: string[], row: Record<string, unknown>): string | undefined {
+    const values = Object.fromEntries(
+      primaryKeys.map(name => [name, table.columns[name] ? fromDbValue(table.columns[name], row[name]) : row[name]])
+    );
+    return keyValue(primaryKeys, values);
+  }
+
   /**
    * Applies the driver-provided insertId when no RETURNING clause was used.
    * Only sets the PK if it is currently absent on the entity.
@@ -372,7 +953,9 @@ export class UnitOfWork {
    * @param results - Query results (may contain meta.insertId)
    */
   private applyInsertedIdIfAbsent(tracked: TrackedEntity, results: QueryResult[]): void {
-    const pkName = findPrimaryKey(tracked.table);
+    const primaryKeys = findPrimaryKeys(tracked.table);
+    if (primaryKeys.length > 1) return;
+    const pkName = primaryKeys[0];
     const current = (tracked.entity as Record<string, unknown>)[pkName];
     if (current != null) return;
 
@@ -380,7 +963,7 @@ export class UnitOfWork {
     const insertId = first?.meta?.insertId;
     if (insertId == null) return;
 
-    (tracked.entity as Record<string, unknown>)[pkName] = insertId;
+    (tracked.entity as Record<string, unknown>)[pkName] = fromDbValue(tracked.table.columns[pkName], insertId);
   }
 
   /**
@@ -405,14 +988,15 @@ export class UnitOfWork {
 
   /**
    * Creates a snapshot of an entity's current state.
+   * Converter-backed objects are copied, so in-place changes to the entity stay detectable.
    * @param table - The table definition
    * @param entity - The entity instance
    * @returns Object with entity state
    */
   private createSnapshot(table: TableDef, entity: Record<string, unknown>): Record<string, unknown> {
     const snapshot: Record<string, unknown> = {};
-    for (const column of Object.keys(table.columns)) {
-      snapshot[column] = entity[column];
+    for (const [column, def] of Object.entries(table.columns)) {
+      snapshot[column] = snapshotValue(def, entity[column]);
     }
     return snapshot;
   }
@@ -423,10 +1007,9 @@ export class UnitOfWork {
    * @returns Primary key value or null
    */
   private getPrimaryKeyValue(tracked: TrackedEntity): PrimaryKey | null {
-    const key = findPrimaryKey(tracked.table);
-    const val = (tracked.entity as Record<string, unknown>)[key];
-    if (val === undefined || val === null) return null;
-    if (typeof val !== 'string' && typeof val !== 'number') return null;
-    return val as PrimaryKey;
+    const pk = readPrimaryKey(tracked.table, tracked.entity as Record<string, unknown>);
+    if (pk === undefined) return null;
+    if (typeof pk !== 'string' && typeof pk !== 'number' && typeof pk !== 'object') return null;
+    return pk;
   }
 }
@@ -7,9 +7,11 @@ import { DialectKey, resolveDialectInput } from '../core/dialect/dialect-factory
 import { TableSourceNode, DeleteQueryNode } from '../core/ast/query.js';
 import { DeleteQueryState } from './delete-query-state.js';
 import { createJoinNode } from '../core/ast/join-node.js';
-import { buildColumnNode } from '../core/ast/builders.js';
+import { buildColumnNode, createTableNode } from '../core/ast/builders.js';
 import { OrmSession } from '../orm/orm-session.js';
+import { runQuery } from '../orm/execution-context.js';
 import { payloadResultSets, QueryResult } from '../core/execution/db-executor.js';
+import { toSoftDeleteUpdate } from './global-filters.js';
 
 type DeleteDialectInput = Dialect | DialectKey;
 
@@ -19,19 +21,30 @@ type DeleteDialectInput = Dialect | DialectKey;
 export class DeleteQueryBuilder<T> {
   private readonly table: TableDef;
   private readonly state: DeleteQueryState;
+  private readonly forced: boolean;
 
   /**
    * Creates a new DeleteQueryBuilder instance
    * @param table - The table definition for the DELETE query
    * @param state - Optional initial query state, defaults to a new DeleteQueryState
+   * @param forced - Whether to hard-delete rows of a soft-delete table
    */
-  constructor(table: TableDef, state?: DeleteQueryState) {
+  constructor(table: TableDef, state?: DeleteQueryState, forced = false) {
     this.table = table;
     this.state = state ?? new DeleteQueryState(table);
+    this.forced = forced;
   }
 
   private clone(state: DeleteQueryState): DeleteQueryBuilder<T> {
-    return new DeleteQueryBuilder(this.table, state);
+    return new DeleteQueryBuilder(this.table, state, this.forced);
+  }
+
+  /**
+   * Issues a real DELETE even when the table declares a soft-delete column
+   * @returns A new DeleteQueryBuilder that hard-deletes rows
+   */
+  forceDelete(): DeleteQueryBuilder<T> {
+    return new DeleteQueryBuilder(this.table, this.state, true);
   }
 
   /**
@@ -95,7 +108,7 @@ export class DeleteQueryBuilder<T> {
     if (isTableSourceNode(source)) {
       return source;
     }
-    return { type: 'Table', name: source.name, schema: source.schema };
+    return createTableNode(source);
   }
 
   private resolveJoinTarget(table: TableDef | TableSourceNode | string): TableSourceNode | string {
@@ -104,13 +117,16 @@ export class DeleteQueryBuilder<T> {
   }
 
   /**
-   * Compiles the DELETE query for the specified dialect
+   * Compiles the DELETE query for the specified dialect.
+   * On soft-delete tables this compiles an UPDATE stamping the soft-delete column
+   * unless forceDelete() was called; the result then carries the UPDATE AST in `ast`.
    * @param dialect - The SQL dialect to compile for
    * @returns The compiled query with SQL and parameters
    */
   compile(dialect: DeleteDialectInput): CompiledQuery {
     const resolved = resolveDialectInput(dialect);
-    return resolved.compileDelete(this.state.ast);
+    const softDelete = this.forced ? undefined : toSoftDeleteUpdate(this.table, this.state.ast);
+    return softDelete ? { ast: softDelete, ...resolved.compileUpdate(softDelete) } : resolved.compileDelete(this.state.ast);
   }
 
   /**
@@ -130,7 +146,8 @@ export class DeleteQueryBuilder<T> {
   async execute(session: OrmSession): Promise<QueryResult[]> {
     const execCtx = session.getExecutionContext();
     const compiled = this.compile(execCtx.dialect);
-    const payload = await execCtx.interceptors.run({ sql: compiled.sql, params: compiled.params }, execCtx.executor);
+    const payload = await runQuery(execCtx, { sql: compiled.sql, params: compiled.params, ast: compiled.ast ?? this.getAST() });
+    await session.recordTableWrites([this.table.name]);
     return payloadResultSets(payload);
   }
 
@@ -7,9 +7,11 @@ import {
   JsonPathNode,
   OperandNode,
   ScalarSubqueryNode,
+  WindowDefinitionNode,
   WindowFunctionNode,
   isOperandNode
 } from '../core/ast/expression.js';
+import { mapGroupByTerm } from '../core/ast/query.js';
 import type { OrderingTerm, SelectQueryNode } from '../core/ast/query.js';
 
 export const remapExpressionTable = (
@@ -99,19 +101,21 @@ const mapJsonPath = (node: JsonPathNode, fromTable: string, toTable: string): Js
   return { ...node, column: nextColumn };
 };
 
-const mapWindowFunctionArg = (
-  node: WindowFunctionNode['args'][number],
+const mapWindowDefinition = <T extends WindowDefinitionNode>(
+  node: T,
   fromTable: string,
   toTable: string
-): WindowFunctionNode['args'][number] => {
-  switch (node.type) {
-    case 'Column':
-      return mapColumn(node, fromTable, toTable);
-    case 'JsonPath':
-      return mapJsonPath(node, fromTable, toTable);
-    default:
-      return node;
-  }
+): T => {
+  const nextPartition = node.partitionBy?.map(part => mapColumn(part, fromTable, toTable));
+  const nextOrderBy = node.orderBy?.map(order => ({
+    ...order,
+    term: mapOrderingTerm(order.term, fromTable, toTable)
+  }));
+  const changed =
+    (nextPartition && node.partitionBy && nextPartition.some((p, i) => p !== node.partitionBy![i])) ||
+    (nextOrderBy && node.orderBy && nextOrderBy.some((ob, i) => ob.term !== node.orderBy![i].term));
+  if (!changed) return node;
+  return { ...node, partitionBy: nextPartition, orderBy: nextOrderBy };
 };
 
 const mapOperand = (node: OperandNode, fromTable: string, toTable: string): OperandNode => {
@@ -162,22 +166,15 @@ const mapOperand = (node: OperandNode, fromTable: string, toTable: string): Oper
       return { ...node, expression: nextExpr };
     }
     case 'WindowFunction': {
-      const nextArgs = node.args.map(arg => mapWindowFunctionArg(arg, fromTable, toTable));
-      const nextPartition = node.partitionBy?.map(part => mapColumn(part, fromTable, toTable));
-      const nextOrderBy = node.orderBy?.map(order => ({
-        ...order,
-        term: mapOrderingTerm(order.term, fromTable, toTable)
-      }));
-      const changed =
-        nextArgs.some((arg, i) => arg !== node.args[i]) ||
-        (nextPartition && node.partitionBy && nextPartition.some((p, i) => p !== node.partitionBy![i])) ||
-        (nextOrderBy && node.orderBy && nextOrderBy.some((ob, i) => ob.term !== node.orderBy![i].term));
+      const nextArgs = node.args.map(arg => mapOperand(arg, fromTable, toTable));
+      const nextDefinition = mapWindowDefinition(node, fromTable, toTable);
+      const changed = nextArgs.some((arg, i) => arg !== node.args[i]) || nextDefinition !== node;
       if (!changed) return node;
       return {
         ...node,
         args: nextArgs,
-        partitionBy: nextPartition,
-        orderBy: nextOrderBy
+        partitionBy: nextDefinition.partitionBy,
+        orderBy: nextDefinition.orderBy
       };
     }
     case 'Collate': {
@@ -252,11 +249,17 @@ const mapSelectQuery = (query: SelectQueryNode, fromTable: string, toTable: stri
   }));
   const nextWhere = query.where ? mapExpression(query.where, fromTable, toTable) : query.where;
   const nextHaving = query.having ? mapExpression(query.having, fromTable, toTable) : query.having;
-  const nextGroupBy = query.groupBy?.map(term => mapOrderingTerm(term, fromTable, toTable));
+  const nextGroupBy = query.groupBy?.map(term =>
+    mapGroupByTerm(term, ordering => mapOrderingTerm(ordering, fromTable, toTable))
+  );
   const nextOrderBy = query.orderBy?.map(ob => ({
     ...ob,
     term: mapOrderingTerm(ob.term, fromTable, toTable)
   }));
+  const nextWindows = query.windows?.map(window => {
+    const definition = mapWindowDefinition(window.definition, fromTable, toTable);
+    return definition === window.definition ? window : { ...window, definition };
+  });
   const nextDistinct = query.distinct?.map(col => mapColumn(col, fromTable, toTable));
   const nextSetOps = query.setOps?.map(op => ({ ...op, query: mapSelectQuery(op.query, fromTable, toTable) }));
   const nextCtes = query.ctes?.map(cte => ({ ...cte, query: mapSelectQuery(cte.query, fromTable, toTable) }));
@@ -268,6 +271,7 @@ const mapSelectQuery = (query: SelectQueryNode, fromTable: string, toTable: stri
     nextHaving !== query.having ||
     (nextGroupBy && query.groupBy && nextGroupBy.some((t, i) => t !== query.groupBy![i])) ||
     (nextOrderBy && query.orderBy && nextOrderBy.some((o, i) => o.term !== query.orderBy![i].term)) ||
+    (nextWindows && query.windows && nextWindows.some((w, i) => w !== query.windows![i])) ||
     (nextDistinct && query.distinct && nextDistinct.some((d, i) => d !== query.distinct![i])) ||
     (nextSetOps && query.setOps && nextSetOps.some((o, i) => o.query !== query.setOps![i].query)) ||
     (nextCtes && query.ctes && nextCtes.some((c, i) => c.query !== query.ctes![i].query));
@@ -282,6 +286,7 @@ const mapSelectQuery = (query: SelectQueryNode, fromTable: string, toTable: stri
     having: nextHaving,
     groupBy: nextGroupBy,
     orderBy: nextOrderBy,
+    windows: nextWindows,
     distinct: nextDistinct,
     setOps: nextSetOps,
     ctes: nextCtes
@@ -0,0 +1,68 @@
+import { ColumnNode, ExpressionNode, and } from '../core/ast/expression.js';
+import { TABLE_DEFINITION } from '../core/ast/query.js';
+import type { DeleteQueryNode, SelectQueryNode, UpdateQueryNode } from '../core/ast/query.js';
+import type { TableDef } from '../schema/table.js';
+import { scopeSelectSources } from './table-scope-rewriter.js';
+
+/** Entry of `SelectQueryNode.disabledFilters` that disables every global filter. */
+export const ALL_GLOBAL_FILTERS = '*';
+
+const columnRefs = (table: TableDef, qualifier: string): Record<string, ColumnNode> =>
+  Object.fromEntries(
+    Object.entries(table.columns).map(([key, column]) => [key, { type: 'Column', table: qualifier, name: column.name }])
+  );
+
+/**
+ * Applies the global filters of the tables read by a SELECT (FROM and joins),
+ * skipping the filters the query opted out of. Filters come from the definition each table
+ * node was built from, so tables that merely share a name are not filtered. Subqueries, derived tables and CTEs are
+ * not rewritten: builders filter their own AST in getAST(), which keeps their opt-outs,
+ * while hand-written or parsed ASTs nested in the query stay unfiltered.
+ * @param ast - SELECT AST produced by a query builder
+ * @returns AST with the filter predicates added
+ */
+export const applyGlobalFilters = (ast: SelectQueryNode): SelectQueryNode => {
+  const disabled = new Set(ast.disabledFilters ?? []);
+  if (disabled.has(ALL_GLOBAL_FILTERS)) return ast;
+
+  return scopeSelectSources(ast, tableNode => {
+    const table = tableNode[TABLE_DEFINITION];
+    const filters = Object.entries(table?.filters ?? {}).filter(([name]) => !disabled.has(name));
+    if (!table || !filters.length) return undefined;
+    const columns = columnRefs(table, tableNode.alias ?? tableNode.name);
+    const predicates: ExpressionNode[] = filters.map(([, filter]) => filter(columns));
+    return predicates.length === 1 ? predicates[0] : and(...predicates);
+  });
+};
+
+/**
+ * Rewrites a DELETE on a soft-delete table into an UPDATE stamping the soft-delete column.
+ * Rows that are already soft-deleted keep their original timestamp.
+ * @param table - Table being deleted from
+ * @param ast - DELETE AST
+ * @param deletedAt - Timestamp to store
+ * @returns The equivalent UPDATE AST, or undefined when the table has no soft-delete column
+ */
+export const toSoftDeleteUpdate = (
+  table: TableDef,
+  ast: DeleteQueryNode,
+  deletedAt: Date = new Date()
+): UpdateQueryNode | undefined => {
+  const column = table.softDeleteColumn ? table.columns[table.softDeleteColumn] : undefined;
+  if (!column) return undefined;
+  const target = ast.from;
+  const notDeleted: ExpressionNode = {
+    type: 'NullExpression',
+    left: { type: 'Column', table: target.alias ?? target.name, name: column.name },
+    operator: 'IS NULL'
+  };
+  return {
+    type: 'UpdateQuery',
+    table: target,
+    from: ast.using,
+    joins: ast.joins,
+    set: [{ column: { type: 'Column', table: target.name, name: column.name }, value: { type: 'Literal', value: deletedAt } }],
+    where: ast.where ? and(ast.where, notDeleted) : notDeleted,
+    returning: ast.returning
+  };
+};
@@ -135,7 +135,8 @@ export class HydrationManager {
    */
   private wrapForParentPagination(ast: SelectQueryNode, plan: HydrationPlan): SelectQueryNode {
     const projectionNames = this.getProjectionNames(ast.columns);
-    if (!projectionNames) {
+    // Paging by distinct parent ids needs a single-column root key.
+    if (!projectionNames || plan.rootPrimaryKeys) {
       return ast;
     }
 
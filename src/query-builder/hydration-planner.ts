@@ -6,15 +6,23 @@ import { isRelationAlias } from './relation-alias.js';
 import { buildDefaultPivotColumns } from './relation-utils.js';
 
 /**
- * Finds the primary key column name for a table
+ * Finds the primary key column names for a table, in key order
  * @param table - Table definition
- * @returns Name of the primary key column, defaults to 'id'
+ * @returns Names of the primary key columns, defaults to ['id']
  */
-export const findPrimaryKey = (table: TableDef): string => {
-  const pk = Object.values(table.columns).find(c => c.primary);
-  return pk?.name || 'id';
+export const findPrimaryKeys = (table: TableDef): string[] => {
+  if (table.primaryKey?.length) return [...table.primaryKey];
+  const pks = Object.values(table.columns).filter(c => c.primary).map(c => c.name);
+  return pks.length ? pks : ['id'];
 };
 
+/**
+ * Finds the primary key column name for a table
+ * @param table - Table definition
+ * @returns Name of the (first) primary key column, defaults to 'id'
+ */
+export const findPrimaryKey = (table: TableDef): string => findPrimaryKeys(table)[0];
+
 /**
  * Manages hydration planning for query results
  */
@@ -118,6 +126,7 @@ export class HydrationPlanner {
           type: rel.type,
           targetTable: rel.target.name,
           targetPrimaryKey: findPrimaryKey(rel.target),
+          ...compositeTargetKeys(rel.target),
           foreignKey: rel.foreignKey,
           localKey,
           columns
@@ -131,6 +140,7 @@ export class HydrationPlanner {
           type: rel.type,
           targetTable: rel.target.name,
           targetPrimaryKey: findPrimaryKey(rel.target),
+          ...compositeTargetKeys(rel.target),
           foreignKey: rel.foreignKey,
           localKey,
           columns
@@ -174,6 +184,7 @@ export class HydrationPlanner {
           type: rel.type,
           targetTable: morphRel.target.name,
           targetPrimaryKey: findPrimaryKey(morphRel.target),
+          ...compositeTargetKeys(morphRel.target),
           foreignKey: morphRel.idField,
           localKey,
           columns
@@ -188,6 +199,7 @@ export class HydrationPlanner {
           type: rel.type,
           targetTable: morphRel.target.name,
           targetPrimaryKey: findPrimaryKey(morphRel.target),
+          ...compositeTargetKeys(morphRel.target),
           foreignKey: morphRel.idField,
           localKey,
           columns
@@ -204,9 +216,23 @@ export class HydrationPlanner {
  * @param table - Table definition
  * @returns Default hydration plan
  */
-const buildDefaultHydrationPlan = (table: TableDef): HydrationPlan => ({
-  rootTable: table.name,
-  rootPrimaryKey: findPrimaryKey(table),
-  rootColumns: [],
-  relations: []
-});
+const buildDefaultHydrationPlan = (table: TableDef): HydrationPlan => {
+  const primaryKeys = findPrimaryKeys(table);
+  return {
+    rootTable: table.name,
+    rootPrimaryKey: primaryKeys[0],
+    ...(primaryKeys.length > 1 ? { rootPrimaryKeys: primaryKeys } : {}),
+    rootColumns: [],
+    relations: []
+  };
+};
+
+/**
+ * Lists the target primary key columns of a relation plan when the key is composite
+ * @param target - Target table definition
+ * @returns Plan fragment with the composite key columns, empty for single-column keys
+ */
+const compositeTargetKeys = (target: TableDef): Pick<HydrationRelationPlan, 'targetPrimaryKeys'> => {
+  const primaryKeys = findPrimaryKeys(target);
+  return primaryKeys.length > 1 ? { targetPrimaryKeys: primaryKeys } : {};
+};
@@ -3,6 +3,7 @@ import { InsertQueryNode, SelectQueryNode, UpsertClause } from '../core/ast/quer
 import {
   ColumnNode,
   OperandNode,
+  isOperandNode,
   isValueOperandInput,
   valueToOperand
 } from '../core/ast/expression.js';
@@ -11,6 +12,7 @@ import {
   buildColumnNodes,
   createTableNode
 } from '../core/ast/builders.js';
+import { toDbValue } from '../schema/value-converter.js';
 
 type InsertRows = Record<string, ValueOperandInput>[];
 
@@ -79,7 +81,8 @@ export class InsertQueryState {
 
     const newRows: OperandNode[][] = rows.map((row, rowIndex) =>
       definedColumns.map(column => {
-        const rawValue = row[column.name];
+        const value = row[column.name];
+        const rawValue = isOperandNode(value) ? value : toDbValue(this.table.columns[column.name], value);
 
         if (!isValueOperandInput(rawValue)) {
           throw new Error(
@@ -4,11 +4,13 @@ import { ColumnDef } from '../schema/column-types.js';
 import {
   ColumnNode,
   ExpressionNode,
+  isOperandNode,
   isValueOperandInput,
   valueToOperand
 } from '../core/ast/expression.js';
 import type { ValueOperandInput } from '../core/ast/expression.js';
 import { CompiledQuery, InsertCompiler, Dialect } from '../core/dialect/abstract.js';
+import { toDbValue } from '../schema/value-converter.js';
 import { DialectKey, resolveDialectInput } from '../core/dialect/dialect-factory.js';
 import {
   InsertQueryNode,
@@ -87,7 +89,8 @@ export class ConflictBuilder<T> {
       throw new Error('ON CONFLICT DO UPDATE requires at least one assignment.');
     }
 
-    return entries.map(([columnName, rawValue]) => {
+    return entries.map(([columnName, value]) => {
+      const rawValue = isOperandNode(value) ? value : toDbValue(this.table.columns[columnName], value);
       if (!isValueOperandInput(rawValue)) {
         throw new Error(
           `Invalid upsert value for column "${columnName}": only string, number, boolean, Date, Buffer, null, or OperandNodes are allowed`
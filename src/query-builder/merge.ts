@@ -0,0 +1,276 @@
+import { TableDef } from '../schema/table.js';
+import { ColumnDef } from '../schema/column-types.js';
+import {
+  ColumnNode,
+  ExpressionNode,
+  columnOperand,
+  isValueOperandInput,
+  valueToOperand
+} from '../core/ast/expression.js';
+import type { ValueOperandInput } from '../core/ast/expression.js';
+import type { ColumnRef } from '../core/ast/types.js';
+import { CompiledQuery, Dialect } from '../core/dialect/abstract.js';
+import { DialectKey, resolveDialectInput } from '../core/dialect/dialect-factory.js';
+import { requireMergeCompiler } from '../core/dialect/capabilities/merge-compiler.js';
+import {
+  DerivedTableNode,
+  MergeMatchedClause,
+  MergeQueryNode,
+  MergeWhenClause,
+  SelectQueryNode,
+  TableNode,
+  UpdateAssignmentNode
+} from '../core/ast/query.js';
+import { buildColumnNode, createTableNode } from '../core/ast/builders.js';
+import { OrmSession } from '../orm/orm-session.js';
+import { runQuery } from '../orm/execution-context.js';
+import { payloadResultSets, QueryResult } from '../core/execution/db-executor.js';
+
+type MergeDialectInput = Dialect | DialectKey;
+
+/** Value accepted by MERGE branches: a literal, an operand or a (source) column reference. */
+export type MergeValueInput = ValueOperandInput | ColumnRef;
+
+/** Source rows of a MERGE: a table or a SELECT query/builder. */
+export type MergeSourceInput = TableDef | SelectQueryNode | { getAST(): SelectQueryNode };
+
+interface MergeBuilderState {
+  target: TableNode;
+  source?: TableNode | DerivedTableNode;
+  on?: ExpressionNode;
+  whens: MergeWhenClause[];
+  returning?: ColumnNode[];
+}
+
+const toMergeOperand = (columnName: string, value: MergeValueInput) => {
+  if (isValueOperandInput(value)) return valueToOperand(value);
+  if (value && typeof value === 'object' && typeof (value as ColumnRef).name === 'string') {
+    return columnOperand(value as ColumnRef);
+  }
+  throw new Error(
+    `Invalid MERGE value for column "${columnName}": only literals, OperandNodes or column references are allowed`
+  );
+};
+
+const isSelectSource = (source: MergeSourceInput): source is SelectQueryNode | { getAST(): SelectQueryNode } =>
+  typeof (source as { getAST?: unknown }).getAST === 'function' || (source as SelectQueryNode).type === 'SelectQuery';
+
+const resolveSelect = (source: SelectQueryNode | { getAST(): SelectQueryNode }): SelectQueryNode =>
+  'getAST' in source ? source.getAST() : source;
+
+/**
+ * Builder returned by MergeQueryBuilder.whenMatched()
+ */
+export class MergeWhenMatchedBuilder<T> {
+  constructor(
+    private readonly table: TableDef,
+    private readonly condition: ExpressionNode | undefined,
+    private readonly applyClause: (clause: MergeMatchedClause) => MergeQueryBuilder<T>
+  ) {}
+
+  /**
+   * Adds WHEN MATCHED ... THEN UPDATE SET
+   * @param set - Target column assignments; values may reference source columns
+   * @returns MergeQueryBuilder with the branch added
+   */
+  update(set: Record<string, MergeValueInput>): MergeQueryBuilder<T> {
+    const entries = Object.entries(set);
+    if (!entries.length) {
+      throw new Error('MERGE WHEN MATCHED UPDATE requires at least one assignment.');
+    }
+    const assignments: UpdateAssignmentNode[] = entries.map(([columnName, value]) => ({
+      column: buildColumnNode(this.table, { name: columnName, table: this.table.name }),
+      value: toMergeOperand(columnName, value)
+    }));
+    return this.applyClause({
+      kind: 'matched',
+      condition: this.condition,
+      action: { type: 'MergeUpdate', set: assignments }
+    });
+  }
+
+  /**
+   * Adds WHEN MATCHED ... THEN DELETE
+   * @returns MergeQueryBuilder with the branch added
+   */
+  delete(): MergeQueryBuilder<T> {
+    return this.applyClause({
+      kind: 'matched',
+      condition: this.condition,
+      action: { type: 'MergeDelete' }
+    });
+  }
+}
+
+/**
+ * Builder returned by MergeQueryBuilder.whenNotMatched()
+ */
+export class MergeWhenNotMatchedBuilder<T> {
+  constructor(
+    private readonly table: TableDef,
+    private readonly condition: ExpressionNode | undefined,
+    private readonly applyClause: (clause: MergeWhenClause) => MergeQueryBuilder<T>
+  ) {}
+
+  /**
+   * Adds WHEN NOT MATCHED ... THEN INSERT
+   * @param values - Target column values; values may reference source columns
+   * @returns MergeQueryBuilder with the branch added
+   */
+  insert(values: Record<string, MergeValueInput>): MergeQueryBuilder<T> {
+    const entries = Object.entries(values);
+    if (!entries.length) {
+      throw new Error('MERGE WHEN NOT MATCHED INSERT requires at least one column.');
+    }
+    return this.applyClause({
+      kind: 'notMatched',
+      condition: this.condition,
+      action: {
+        type: 'MergeInsert',
+        columns: entries.map(([columnName]) =>
+          buildColumnNode(this.table, { name: columnName, table: this.table.name })
+        ),
+        values: entries.map(([columnName, value]) => toMergeOperand(columnName, value))
+      }
+    });
+  }
+}
+
+/**
+ * Builder for MERGE statements.
+ * Compiles natively on PostgreSQL 15+ and SQL Server; other dialects throw a capability error.
+ */
+export class MergeQueryBuilder<T> {
+  private readonly table: TableDef;
+  private readonly state: MergeBuilderState;
+
+  /**
+   * Creates a new MergeQueryBuilder instance
+   * @param table - The target table definition
+   * @param state - Optional initial builder state
+   */
+  constructor(table: TableDef, state?: MergeBuilderState) {
+    this.table = table;
+    this.state = state ?? { target: createTableNode(table), whens: [] };
+  }
+
+  private clone(patch: Partial<MergeBuilderState>): MergeQueryBuilder<T> {
+    return new MergeQueryBuilder(this.table, { ...this.state, ...patch });
+  }
+
+  private withWhen(clause: MergeWhenClause): MergeQueryBuilder<T> {
+    return this.clone({ whens: [...this.state.whens, clause] });
+  }
+
+  /**
+   * Sets an alias for the target table
+   * @param alias - The alias to assign to the target table
+   * @returns A new MergeQueryBuilder with the target alias set
+   */
+  as(alias: string): MergeQueryBuilder<T> {
+    return this.clone({ target: { ...this.state.target, alias } });
+  }
+
+  /**
+   * Sets the source rows of the MERGE
+   * @param source - Source table, SELECT query or query builder
+   * @param alias - Source alias (required for subqueries)
+   * @returns A new MergeQueryBuilder with the USING clause set
+   */
+  using(source: MergeSourceInput, alias?: string): MergeQueryBuilder<T> {
+    if (!isSelectSource(source)) {
+      const node = createTableNode(source);
+      return this.clone({ source: alias ? { ...node, alias } : node });
+    }
+    if (!alias) {
+      throw new Error('MERGE subquery sources require an alias.');
+    }
+    return this.clone({ source: { type: 'DerivedTable', query: resolveSelect(source), alias } });
+  }
+
+  /**
+   * Sets the condition matching source rows to target rows
+   * @param expr - The join condition
+   * @returns A new MergeQueryBuilder with the ON clause set
+   */
+  on(expr: ExpressionNode): MergeQueryBuilder<T> {
+    return this.clone({ on: expr });
+  }
+
+  /**
+   * Starts a WHEN MATCHED branch
+   * @param condition - Optional extra predicate for the branch
+   * @returns Builder for choosing UPDATE or DELETE
+   */
+  whenMatched(condition?: ExpressionNode): MergeWhenMatchedBuilder<T> {
+    return new MergeWhenMatchedBuilder(this.table, condition, clause => this.withWhen(clause));
+  }
+
+  /**
+   * Starts a WHEN NOT MATCHED branch
+   * @param condition - Optional extra predicate for the branch
+   * @returns Builder for the INSERT action
+   */
+  whenNotMatched(condition?: ExpressionNode): MergeWhenNotMatchedBuilder<T> {
+    return new MergeWhenNotMatchedBuilder(this.table, condition, clause => this.withWhen(clause));
+  }
+
+  /**
+   * Adds a RETURNING (PostgreSQL 17+) or OUTPUT (SQL Server) clause
+   * @param columns - Target columns to return
+   * @returns A new MergeQueryBuilder with the RETURNING clause added
+   */
+  returning(...columns: (ColumnDef | ColumnNode)[]): MergeQueryBuilder<T> {
+    if (!columns.length) return this;
+    return this.clone({ returning: columns.map(column => buildColumnNode(this.table, column)) });
+  }
+
+  /**
+   * Compiles the MERGE statement for the specified dialect
+   * @param dialect - The SQL dialect to compile for
+   * @returns The compiled query with SQL and parameters
+   * @throws Error if the dialect does not support MERGE
+   */
+  compile(dialect: MergeDialectInput): CompiledQuery {
+    const resolved = resolveDialectInput(dialect);
+    return requireMergeCompiler(resolved).compileMerge(this.getAST());
+  }
+
+  /**
+   * Returns the SQL string for the MERGE statement
+   * @param dialect - The SQL dialect to generate SQL for
+   * @returns The SQL string representation of the statement
+   */
+  toSql(dialect: MergeDialectInput): string {
+    return this.compile(dialect).sql;
+  }
+
+  /**
+   * Executes the MERGE statement using the provided session
+   * @param session - The ORM session to execute the statement with
+   * @returns A promise that resolves to the query results
+   */
+  async execute(session: OrmSession): Promise<QueryResult[]> {
+    const execCtx = session.getExecutionContext();
+    const compiled = this.compile(execCtx.dialect);
+    const payload = await runQuery(execCtx, { sql: compiled.sql, params: compiled.params, ast: compiled.ast ?? this.getAST() });
+    await session.recordTableWrites([this.state.target.name]);
+    return payloadResultSets(payload);
+  }
+
+  /**
+   * Returns the Abstract Syntax Tree (AST) representation of the statement
+   * @returns The AST node for the MERGE statement
+   * @throws Error if the source or ON condition is missing
+   */
+  getAST(): MergeQueryNode {
+    const { target, source, on, whens, returning } = this.state;
+    if (!source) throw new Error('MERGE requires a source; call using().');
+    if (!on) throw new Error('MERGE requires a match condition; call on().');
+    // Once the target is aliased, its real name is no longer visible to RETURNING.
+    const projected = target.alias
+      ? returning?.map(column => (column.table === target.name ? { ...column, table: target.alias } : column))
+      : returning;
+    return { type: 'MergeQuery', target, source, on, whens: [...whens], returning: projected };
+  }
+}
@@ -6,7 +6,10 @@ import {
   SetOperationKind,
   SetOperationNode,
   TableSourceNode,
-  OrderingTerm
+  OrderingTerm,
+  SelectLockNode,
+  GroupingSetsKind,
+  GroupingSetsNode
 } from '../core/ast/query.js';
 import { buildColumnNode } from '../core/ast/builders.js';
 import {
@@ -16,6 +19,7 @@ import {
   FunctionNode,
   CaseExpressionNode,
   CastExpressionNode,
+  WindowDefinitionNode,
   WindowFunctionNode,
   ScalarSubqueryNode,
   and,
@@ -189,6 +193,34 @@ export class QueryAstService {
     return this.state.withGroupBy([term]);
   }
 
+  /**
+   * Adds a ROLLUP, CUBE or GROUPING SETS element to the GROUP BY clause
+   * @param kind - Grouping construct to add
+   * @param sets - Grouping sets (one single-term set per argument for ROLLUP/CUBE)
+   * @returns Updated query state with GROUP BY clause
+   */
+  withGroupingSets(kind: GroupingSetsKind, sets: (ColumnDef | OrderingTerm)[][]): SelectQueryState {
+    const node: GroupingSetsNode = {
+      type: 'GroupingSets',
+      kind,
+      sets: sets.map(set => set.map(term => this.normalizeOrderingTerm(term)))
+    };
+    return this.state.withGroupBy([node]);
+  }
+
+  /**
+   * Declares a named window in the WINDOW clause
+   * @param name - Window name
+   * @param definition - Window specification
+   * @returns Updated query state with the window added
+   */
+  withWindow(name: string, definition: WindowDefinitionNode): SelectQueryState {
+    if (this.state.ast.windows?.some(window => window.name === name)) {
+      throw new Error(`Window "${name}" is already defined.`);
+    }
+    return this.state.withWindow({ type: 'NamedWindow', name, definition });
+  }
+
   /**
    * Adds a HAVING clause to the query
    * @param expr - Expression for the HAVING clause
@@ -242,6 +274,24 @@ export class QueryAstService {
     return this.state.withOffset(offset);
   }
 
+  /**
+   * Sets the row-level locking clause of the query
+   * @param lock - Lock node to apply
+   * @returns Updated query state with the locking clause
+   */
+  withLock(lock: SelectLockNode): SelectQueryState {
+    return this.state.withLock(lock);
+  }
+
+  /**
+   * Opts the query out of table global filters
+   * @param names - Filter names to disable ('*' disables all)
+   * @returns Updated query state
+   */
+  withDisabledFilters(names: string[]): SelectQueryState {
+    return this.state.withDisabledFilters(names);
+  }
+
   /**
    * Combines expressions with AND operator
    * @param existing - Existing expression
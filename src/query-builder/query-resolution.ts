@@ -1,5 +1,6 @@
 import { SelectQueryNode, UpdateQueryNode, DeleteQueryNode, TableSourceNode } from '../core/ast/query.js';
 import { TableDef } from '../schema/table.js';
+import { createTableNode } from '../core/ast/builders.js';
 import type { SelectQueryBuilder } from './select.js';
 import type { UpdateQueryBuilder } from './update.js';
 import type { DeleteQueryBuilder } from './delete.js';
@@ -55,7 +56,7 @@ export function resolveTableSource(source: TableDef | TableSourceNode): TableSou
     if (isTableSourceNode(source)) {
         return source;
     }
-    return { type: 'Table', name: source.name, schema: source.schema };
+    return createTableNode(source);
 }
 
 /**
@@ -2,7 +2,9 @@ import { TableDef } from '../schema/table.js';
 import { RelationDef, RelationKinds, BelongsToManyRelation, MorphOneRelation, MorphManyRelation } from '../schema/relation.js';
 import { ExpressionNode, eq, and } from '../core/ast/expression.js';
 import { TableSourceNode } from '../core/ast/query.js';
+import { createTableNode } from '../core/ast/builders.js';
 import { findPrimaryKey } from './hydration-planner.js';
+import { resolveRelationKeys } from './relation-keys.js';
 import { JoinNode } from '../core/ast/join.js';
 import { JoinKind } from '../core/sql/sql.js';
 import { createJoinNode } from '../core/ast/join-node.js';
@@ -38,21 +40,14 @@ const baseRelationCondition = (
 
   switch (relation.type) {
     case RelationKinds.HasMany:
-    case RelationKinds.HasOne: {
-      const defaultLocalKey = findPrimaryKey(root);
-      const localKey = relation.localKey || defaultLocalKey;
-      return eq(
-        { type: 'Column', table: targetTable, name: relation.foreignKey },
-        { type: 'Column', table: rootTable, name: localKey }
-      );
-    }
+    case RelationKinds.HasOne:
     case RelationKinds.BelongsTo: {
-      const defaultLocalKey = findPrimaryKey(relation.target);
-      const localKey = relation.localKey || defaultLocalKey;
-      return eq(
-        { type: 'Column', table: targetTable, name: localKey },
-        { type: 'Column', table: rootTable, name: relation.foreignKey }
-      );
+      const keys = resolveRelationKeys(root, relation);
+      const [first, ...rest] = keys.root.map((rootKey, idx) => eq(
+        { type: 'Column', table: targetTable, name: keys.target[idx] },
+        { type: 'Column', table: rootTable, name: rootKey }
+      ));
+      return rest.length ? and(first, ...rest) : first;
     }
     case RelationKinds.BelongsToMany:
       throw new Error('BelongsToMany relations do not support the standard join condition builder');
@@ -106,15 +101,11 @@ export const buildBelongsToManyJoins = (
 
   const pivotJoin = createJoinNode(
     joinKind,
-    { type: 'Table', name: relation.pivotTable.name, schema: relation.pivotTable.schema },
+    createTableNode(relation.pivotTable),
     pivotCondition
   );
 
-  const targetSource: TableSourceNode = targetTable ?? {
-    type: 'Table',
-    name: relation.target.name,
-    schema: relation.target.schema
-  };
+  const targetSource: TableSourceNode = targetTable ?? createTableNode(relation.target);
   const effectiveTargetName = targetTableName ?? relation.target.name;
   let targetCondition: ExpressionNode = eq(
     { type: 'Column', table: effectiveTargetName, name: targetKey },
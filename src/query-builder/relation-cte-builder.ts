@@ -2,6 +2,7 @@ import { TableDef } from '../schema/table.js';
 import { RelationDef, isSingleTargetRelation } from '../schema/relation.js';
 import { ColumnNode, ExpressionNode } from '../core/ast/expression.js';
 import { SelectQueryNode, TableNode } from '../core/ast/query.js';
+import { createTableNode } from '../core/ast/builders.js';
 import { SelectQueryState } from './select-query-state.js';
 import { QueryAstService } from './query-ast-service.js';
 
@@ -34,7 +35,7 @@ export class RelationCteBuilder {
 
     const cteQuery: SelectQueryNode = {
       type: 'SelectQuery',
-      from: { type: 'Table', name: relation.target.name, schema: relation.target.schema },
+      from: createTableNode(relation.target),
       columns,
       joins: [],
       where: predicate
@@ -18,7 +18,7 @@ import type { RelationResult } from './relation-projection-helper.js';
 import { RelationIncludeOptions } from './relation-types.js';
 import { makeRelationAlias } from './relation-alias.js';
 import { buildDefaultPivotColumns } from './relation-utils.js';
-import { findPrimaryKey } from './hydration-planner.js';
+import { findPrimaryKey, findPrimaryKeys } from './hydration-planner.js';
 import { getJoinCorrelationName } from './table-alias-utils.js';
 
 type RelationWithForeignKey =
@@ -70,9 +70,10 @@ const resolveTargetColumns = (relation: RelationDef, options?: RelationIncludeOp
   const requestedColumns = options?.columns?.length
     ? [...options.columns]
     : Object.keys(relation.target.columns);
-  const targetPrimaryKey = findPrimaryKey(relation.target);
-  if (!requestedColumns.includes(targetPrimaryKey)) {
-    requestedColumns.push(targetPrimaryKey);
+  for (const targetPrimaryKey of findPrimaryKeys(relation.target)) {
+    if (!requestedColumns.includes(targetPrimaryKey)) {
+      requestedColumns.push(targetPrimaryKey);
+    }
   }
   return requestedColumns;
 };
@@ -81,25 +82,25 @@ const ensureRootForeignKeySelected = (
   context: IncludeStrategyContext,
   relation: RelationWithForeignKey
 ): RelationResult => {
-  const fkColumn = context.rootTable.columns[relation.foreignKey];
-  if (!fkColumn) {
-    return { state: context.state, hydration: context.hydration };
-  }
+  const selectedAliases = new Set(
+    context.state.ast.columns
+      .filter(col => (col as ColumnNode).type === 'Column')
+      .map(col => (col as ColumnNode).alias ?? (col as ColumnNode).name)
+  );
 
-  const hasForeignKeySelected = context.state.ast.columns.some(col => {
-    if ((col as ColumnNode).type !== 'Column') return false;
-    const node = col as ColumnNode;
-    const alias = node.alias ?? node.name;
-    return alias === relation.foreignKey;
-  });
+  const missing: Record<string, ColumnDef> = {};
+  for (const foreignKey of relation.foreignKeys ?? [relation.foreignKey]) {
+    const fkColumn = context.rootTable.columns[foreignKey];
+    if (fkColumn && !selectedAliases.has(foreignKey)) {
+      missing[foreignKey] = fkColumn;
+    }
+  }
 
-  if (hasForeignKeySelected) {
+  if (!Object.keys(missing).length) {
     return { state: context.state, hydration: context.hydration };
   }
 
-  return context.selectColumns(context.state, context.hydration, {
-    [relation.foreignKey]: fkColumn
-  });
+  return context.selectColumns(context.state, context.hydration, missing);
 };
 
 const standardIncludeStrategy: IncludeStrategy = context => {
@@ -1,4 +1,5 @@
 import { ExpressionNode, and, eq } from '../core/ast/expression.js';
+import { createTableNode } from '../core/ast/builders.js';
 import type { JoinNode } from '../core/ast/join.js';
 import { createJoinNode } from '../core/ast/join-node.js';
 import type { TableSourceNode } from '../core/ast/query.js';
@@ -43,11 +44,7 @@ export const addRelationJoin = (params: AddRelationJoinParams): SelectQueryState
   const { state, rootTable, rootAlias, relationKey, relation, joinKind, filter, tableSource } = params;
   if (relation.type === RelationKinds.BelongsToMany) {
     const many = relation as BelongsToManyRelation;
-    let targetSource: TableSourceNode = tableSource ?? {
-      type: 'Table',
-      name: relation.target.name,
-      schema: relation.target.schema
-    };
+    let targetSource: TableSourceNode = tableSource ?? createTableNode(relation.target);
     targetSource = ensureCorrelationName(state, relationKey, targetSource, [many.pivotTable.name]);
     const targetName = resolveTargetTableName(targetSource, relation.target.name);
     const extra = remapExpressionTable(filter, relation.target.name, targetName);
@@ -68,11 +65,7 @@ export const addRelationJoin = (params: AddRelationJoinParams): SelectQueryState
     throw new Error('Polymorphic MorphTo relations do not support join-based strategies');
   }
 
-  let targetSource: TableSourceNode = tableSource ?? {
-    type: 'Table',
-    name: relation.target.name,
-    schema: relation.target.schema
-  };
+  let targetSource: TableSourceNode = tableSource ?? createTableNode(relation.target);
   targetSource = ensureCorrelationName(state, relationKey, targetSource);
   const targetName = resolveTargetTableName(targetSource, relation.target.name);
   const extra = remapExpressionTable(filter, relation.target.name, targetName);
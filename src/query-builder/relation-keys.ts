@@ -0,0 +1,79 @@
+import { TableDef } from '../schema/table.js';
+import { BelongsToRelation, HasManyRelation, HasOneRelation, RelationKinds } from '../schema/relation.js';
+import { findPrimaryKey, findPrimaryKeys } from './hydration-planner.js';
+
+/**
+ * Relations whose key columns may be composite
+ */
+export type KeyedRelation = HasManyRelation | HasOneRelation | BelongsToRelation;
+
+/**
+ * Matching key columns of a relation, paired by position
+ */
+export interface RelationKeyColumns {
+  /** Key columns on the root (owning) table */
+  root: string[];
+  /** Key columns on the target table */
+  target: string[];
+}
+
+/**
+ * Resolves the column pairs joining a relation's root table to its target table.
+ * Composite foreign keys without explicit local keys default to the full primary key
+ * of the referenced table.
+ * @param root - Root table definition
+ * @param relation - Relation definition
+ * @returns Root and target key columns
+ */
+export const resolveRelationKeys = (root: TableDef, relation: KeyedRelation): RelationKeyColumns => {
+  const referenced = relation.type === RelationKinds.BelongsTo ? relation.target : root;
+  const foreign = relation.foreignKeys ?? [relation.foreignKey];
+  const local = relation.localKeys
+    ?? (relation.foreignKeys ? findPrimaryKeys(referenced) : [relation.localKey || findPrimaryKey(referenced)]);
+
+  if (foreign.length !== local.length) {
+    throw new Error(
+      `Relation from "${root.name}" to "${relation.target.name}" pairs ${foreign.length} foreign key ` +
+      `column(s) with ${local.length} local key column(s).`
+    );
+  }
+
+  return relation.type === RelationKinds.BelongsTo
+    ? { root: foreign, target: local }
+    : { root: local, target: foreign };
+};
+
+/**
+ * Builds the lookup key for a single or composite key: the plain string value for one
+ * column, a JSON tuple of string values for several.
+ * @param source - Row or entity holding the key values
+ * @param columns - Key columns
+ * @returns The lookup key, or undefined when any key value is missing
+ */
+export const buildKeyString = (source: Record<string, unknown>, columns: string[]): string | undefined => {
+  const values: string[] = [];
+  for (const column of columns) {
+    const value = source[column];
+    if (value === null || value === undefined) return undefined;
+    values.push(String(value));
+  }
+  return values.length === 1 ? values[0] : JSON.stringify(values);
+};
+
+/**
+ * Copies key values between two entities, column by column.
+ * @param target - Entity receiving the values
+ * @param targetColumns - Key columns written on the target
+ * @param source - Entity providing the values
+ * @param sourceColumns - Matching key columns read from the source
+ */
+export const assignKeyValues = (
+  target: Record<string, unknown>,
+  targetColumns: string[],
+  source: Record<string, unknown>,
+  sourceColumns: string[]
+): void => {
+  targetColumns.forEach((column, idx) => {
+    target[column] = source[sourceColumns[idx]];
+  });
+};
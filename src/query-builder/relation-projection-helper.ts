@@ -3,7 +3,7 @@ import { ColumnDef } from '../schema/column-types.js';
 import { SelectQueryState } from './select-query-state.js';
 import { HydrationManager } from './hydration-manager.js';
 import { ColumnNode } from '../core/ast/expression.js';
-import { findPrimaryKey } from './hydration-planner.js';
+import { findPrimaryKeys } from './hydration-planner.js';
 import { isRelationAlias } from './relation-alias.js';
 
 /**
@@ -50,16 +50,19 @@ export class RelationProjectionHelper {
    * @returns Relation result with updated state and hydration
    */
   ensureBaseProjection(state: SelectQueryState, hydration: HydrationManager): RelationResult {
-    const primaryKey = findPrimaryKey(this.table);
-
     if (!this.hasBaseProjection(state)) {
       return this.selectColumns(state, hydration, this.getBaseColumns());
     }
 
-    if (primaryKey && !this.hasPrimarySelected(state, primaryKey) && this.table.columns[primaryKey]) {
-      return this.selectColumns(state, hydration, {
-        [primaryKey]: this.table.columns[primaryKey]
-      });
+    const missing: Record<string, ColumnDef> = {};
+    for (const primaryKey of findPrimaryKeys(this.table)) {
+      if (!this.hasPrimarySelected(state, primaryKey) && this.table.columns[primaryKey]) {
+        missing[primaryKey] = this.table.columns[primaryKey];
+      }
+    }
+
+    if (Object.keys(missing).length) {
+      return this.selectColumns(state, hydration, missing);
     }
 
     return { state, hydration };
@@ -5,7 +5,9 @@ import {
   OrderByNode,
   SetOperationNode,
   TableSourceNode,
-  OrderingTerm
+  SelectLockNode,
+  GroupByTerm,
+  NamedWindowNode
 } from '../core/ast/query.js';
 import { createTableNode } from '../core/ast/builders.js';
 import {
@@ -144,13 +146,25 @@ export class SelectQueryState {
    * @param columns - Terms to group by
    * @returns New SelectQueryState with GROUP BY clause
    */
-  withGroupBy(columns: OrderingTerm[]): SelectQueryState {
+  withGroupBy(columns: GroupByTerm[]): SelectQueryState {
     return this.clone({
       ...this.ast,
       groupBy: [...(this.ast.groupBy ?? []), ...columns]
     });
   }
 
+  /**
+   * Adds a named window to the WINDOW clause
+   * @param window - Named window node
+   * @returns New SelectQueryState with the window added
+   */
+  withWindow(window: NamedWindowNode): SelectQueryState {
+    return this.clone({
+      ...this.ast,
+      windows: [...(this.ast.windows ?? []), window]
+    });
+  }
+
   /**
    * Adds ORDER BY clauses to the query
    * @param orderBy - ORDER BY nodes
@@ -199,6 +213,30 @@ export class SelectQueryState {
     });
   }
 
+  /**
+   * Replaces the row-level locking clause of the query
+   * @param lock - Lock node to apply
+   * @returns New SelectQueryState with the locking clause
+   */
+  withLock(lock: SelectLockNode): SelectQueryState {
+    return this.clone({
+      ...this.ast,
+      lock
+    });
+  }
+
+  /**
+   * Opts the query out of table global filters
+   * @param names - Filter names to disable ('*' disables all)
+   * @returns New SelectQueryState with the filters disabled
+   */
+  withDisabledFilters(names: string[]): SelectQueryState {
+    return this.clone({
+      ...this.ast,
+      disabledFilters: [...new Set([...(this.ast.disabledFilters ?? []), ...names])]
+    });
+  }
+
   /**
    * Adds a Common Table Expression (CTE) to the query
    * @param cte - CTE node to add
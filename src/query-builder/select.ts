@@ -14,8 +14,9 @@ import {
   notExists,
   OperandNode
 } from '../core/ast/expression.js';
-import type { TypedExpression } from '../core/ast/expression.js';
+import type { TypedExpression, WindowSpec } from '../core/ast/expression.js';
 import { CompiledQuery, Dialect } from '../core/dialect/abstract.js';
+import type { ExecuteSqlOptions } from '../core/execution/db-executor.js';
 import { DialectKey, resolveDialectInput } from '../core/dialect/dialect-factory.js';
 
 type SelectDialectInput = Dialect | DialectKey;
@@ -67,6 +68,12 @@ import {
   CursorPageResult
 } from './select/cursor-pagination.js';
 export type { CursorPageOptions, CursorPageResult, CursorPageInfo } from './select/cursor-pagination.js';
+import { executeStreamQuery, StreamOptions } from './select/stream-execution.js';
+export type { StreamOptions } from './select/stream-execution.js';
+import { SelectLockFacet, SelectLockInput } from './select/lock-facet.js';
+export type { SelectLockInput } from './select/lock-facet.js';
+import { SelectFilterFacet } from './select/filter-facet.js';
+import { applyGlobalFilters } from './global-filters.js';
 import { SelectFromFacet } from './select/from-facet.js';
 import { SelectJoinFacet } from './select/join-facet.js';
 import { SelectProjectionFacet } from './select/projection-facet.js';
@@ -76,6 +83,7 @@ import { SelectSetOpFacet } from './select/setop-facet.js';
 import { SelectRelationFacet } from './select/relation-facet.js';
 import { CacheFacet, CacheFacetContext } from './select/cache-facet.js';
 import type { Duration } from '../cache/cache-interfaces.js';
+import { collectQueryTables, collectRelationTables } from '../cache/table-dependencies.js';
 
 type ColumnSelectionValue =
   | ColumnDef
@@ -125,12 +133,15 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
   private readonly cteFacet: SelectCTEFacet;
   private readonly setOpFacet: SelectSetOpFacet;
   private readonly relationFacet: SelectRelationFacet;
+  private readonly lockFacet: SelectLockFacet;
+  private readonly filterFacet: SelectFilterFacet;
   private readonly lazyRelations: Set<string>;
   private readonly lazyRelationOptions: Map<string, RelationIncludeOptions>;
   private readonly entityConstructor?: EntityConstructor;
   private readonly includeTree: NormalizedRelationIncludeTree;
   private readonly cacheFacet: CacheFacet;
   private readonly cacheContext: CacheFacetContext;
+  private readonly executeOptions: ExecuteSqlOptions;
 
   /**
    * Creates a new SelectQueryBuilder instance
@@ -148,7 +159,8 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
     lazyRelationOptions?: Map<string, RelationIncludeOptions>,
     entityConstructor?: EntityConstructor,
     includeTree?: NormalizedRelationIncludeTree,
-    cacheContext?: CacheFacetContext
+    cacheContext?: CacheFacetContext,
+    executeOptions?: ExecuteSqlOptions
   ) {
     const deps = resolveSelectQueryBuilderDependencies(dependencies);
     this.env = { table, deps };
@@ -165,6 +177,7 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
     this.includeTree = includeTree ?? {};
     this.cacheFacet = new CacheFacet();
     this.cacheContext = cacheContext ?? { state: {} };
+    this.executeOptions = executeOptions ?? {};
     this.columnSelector = deps.createColumnSelector(this.env);
     const relationManager = deps.createRelationManager(this.env);
     this.fromFacet = new SelectFromFacet(this.env, createAstService);
@@ -174,6 +187,8 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
     this.cteFacet = new SelectCTEFacet(this.env, createAstService);
     this.setOpFacet = new SelectSetOpFacet(this.env, createAstService);
     this.relationFacet = new SelectRelationFacet(relationManager);
+    this.lockFacet = new SelectLockFacet(this.env, createAstService);
+    this.filterFacet = new SelectFilterFacet(this.env, createAstService);
   }
 
   /**
@@ -187,7 +202,8 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
     lazyRelations = new Set(this.lazyRelations),
     lazyRelationOptions = new Map(this.lazyRelationOptions),
     includeTree = this.includeTree,
-    cacheContext = this.cacheContext
+    cacheContext = this.cacheContext,
+    executeOptions = this.executeOptions
   ): SelectQueryBuilder<TNext, TTable> {
     return new SelectQueryBuilder(
       this.env.table as TTable,
@@ -198,7 +214,8 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
       lazyRelationOptions,
       this.entityConstructor,
       includeTree,
-      cacheContext
+      cacheContext,
+      executeOptions
     ) as SelectQueryBuilder<TNext, TTable>;
   }
 
@@ -635,9 +652,9 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
     let nextContext = this.context;
     const relation = this.env.table.relations[relationName as string];
     if (relation?.type === RelationKinds.BelongsTo) {
-      const foreignKey = relation.foreignKey;
-      const fkColumn = this.env.table.columns[foreignKey];
-      if (fkColumn) {
+      for (const foreignKey of relation.foreignKeys ?? [relation.foreignKey]) {
+        const fkColumn = this.env.table.columns[foreignKey];
+        if (!fkColumn) continue;
         const hasAlias = nextContext.state.ast.columns.some(col => {
           const node = col as { alias?: string; name?: string };
           return (node.alias ?? node.name) === foreignKey;
@@ -795,6 +812,40 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
     return builder;
   }
 
+  /**
+   * Runs this query on the primary even when the executor routes reads to replicas
+   * (e.g. to read your own writes right after committing them).
+   * @returns New query builder instance with the routing hint
+   * @example
+   * const fresh = await selectFrom(User).where(eq(User.id, id)).usePrimary().execute(session);
+   */
+  usePrimary(): SelectQueryBuilder<T, TTable> {
+    return this.clone(
+      this.context,
+      new Set(this.lazyRelations),
+      new Map(this.lazyRelationOptions),
+      this.includeTree,
+      this.cacheContext,
+      { ...this.executeOptions, usePrimary: true }
+    );
+  }
+
+  /**
+   * Gets the execution hints passed to the executor with this query
+   * @returns Execution hints (e.g. `usePrimary`)
+   */
+  getExecuteOptions(): ExecuteSqlOptions {
+    return { ...this.executeOptions };
+  }
+
+  /**
+   * Gets the decorated entity class this query was created from, if any
+   * @returns Entity constructor, or undefined for table-based queries
+   */
+  getEntityConstructor(): EntityConstructor | undefined {
+    return this.entityConstructor;
+  }
+
   /**
    * Executes the query and returns hydrated results.
    * If the builder was created with an entity constructor (e.g. via selectFromEntity),
@@ -818,12 +869,28 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
 
     // Executa com cache
     return ctx.cacheManager.getOrExecute(
-      cacheOptions,
+      cacheOptions.autoInvalidate
+        ? CacheFacet.withTableTags(cacheOptions, this.collectCacheTables())
+        : cacheOptions,
       () => this.executeWithoutCache(ctx),
       ctx.tenantId
     );
   }
 
+  /**
+   * Tabelas lidas pela query (AST e relações lazy), usadas pelo autoInvalidate
+   */
+  private collectCacheTables(): string[] {
+    const tables = new Set(collectQueryTables(this.getAST()));
+    for (const relationName of this.lazyRelations) {
+      const relation = this.env.table.relations[relationName];
+      if (relation) {
+        collectRelationTables(relation).forEach(table => tables.add(table));
+      }
+    }
+    return Array.from(tables);
+  }
+
   /**
    * Executa a query sem cache (método interno)
    */
@@ -923,7 +990,7 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
    * const total = await qb.count(session);
    */
   async count(session: OrmSession): Promise<number> {
-    return executeCount(this.context, this.env, session);
+    return executeCount(this.context, this.env, session, this.executeOptions);
   }
 
   /**
@@ -934,7 +1001,7 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
    * const totalRows = await qb.countRows(session);
    */
   async countRows(session: OrmSession): Promise<number> {
-    return executeCountRows(this.context, this.env, session);
+    return executeCountRows(this.context, this.env, session, this.executeOptions);
   }
 
   /**
@@ -986,6 +1053,66 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
     return executeCursorQuery(builder, session, options);
   }
 
+  /**
+   * Executes the query and yields results in batches instead of materializing them all.
+   * Uses the executor's native streaming (`streamSql`) when available and no lazy relations
+   * or nested includes need extra queries; otherwise falls back to keyset batching ordered
+   * by the current ORDER BY plus the root primary key (same rules as executeCursor).
+   * Caching is bypassed. Yielded entities are tracked by the session like execute() results.
+   *
+   * @param ctx - ORM session context
+   * @param options - Stream options (`batchSize`, default 1000)
+   * @returns Async iterable of result batches
+   * @example
+   * for await (const batch of selectFromEntity(User).iterate(session, { batchSize: 500 })) {
+   *   await exportUsers(batch);
+   * }
+   */
+  async *iterate(ctx: OrmSession, options?: StreamOptions): AsyncGenerator<T[]> {
+    const builder = this.ensureDefaultSelection();
+    for await (const batch of executeStreamQuery(builder, ctx, options, false)) {
+      yield this.entityConstructor
+        ? materializeAs(this.entityConstructor, batch as unknown as Record<string, unknown>[]) as unknown as T[]
+        : batch;
+    }
+  }
+
+  /**
+   * Executes the query and yields results one at a time (see iterate()).
+   *
+   * @param ctx - ORM session context
+   * @param options - Stream options (`batchSize`, default 1000)
+   * @returns Async iterable of results
+   * @example
+   * for await (const user of selectFromEntity(User).stream(session)) {
+   *   console.log(user.email);
+   * }
+   */
+  async *stream(ctx: OrmSession, options?: StreamOptions): AsyncGenerator<T> {
+    for await (const batch of this.iterate(ctx, options)) {
+      yield* batch;
+    }
+  }
+
+  /**
+   * Streams plain row objects (POJOs) one at a time without tracking entities in the session.
+   * Prefer this for large exports.
+   *
+   * @param ctx - ORM session context
+   * @param options - Stream options (`batchSize`, default 1000)
+   * @returns Async iterable of plain objects
+   * @example
+   * for await (const row of selectFrom(users).streamPlain(session, { batchSize: 5000 })) {
+   *   csv.write(row);
+   * }
+   */
+  async *streamPlain(ctx: OrmSession, options?: StreamOptions): AsyncGenerator<T> {
+    const builder = this.ensureDefaultSelection();
+    for await (const batch of executeStreamQuery(builder, ctx, options, true)) {
+      yield* batch;
+    }
+  }
+
   /**
     * Executes the query and returns an array of values for a single column.
    * This is a convenience method to avoid manual `.map(r => r.column)`.
@@ -1057,6 +1184,55 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
     return this.clone(nextContext);
   }
 
+  /**
+   * Adds a ROLLUP(...) element to the GROUP BY clause (subtotals for each prefix plus a grand total)
+   * @param terms - Columns or ordering terms, from the outermost level inward
+   * @returns New query builder instance with the GROUP BY clause
+   * @example
+   * qb.select({ region: sales.columns.region, year: sales.columns.year, total: sum(sales.columns.amount) })
+   *   .groupByRollup(sales.columns.region, sales.columns.year);
+   */
+  groupByRollup(...terms: (ColumnDef | OrderingTerm)[]): SelectQueryBuilder<T, TTable> {
+    const nextContext = this.predicateFacet.groupingSets(this.context, 'ROLLUP', terms.map(term => [term]));
+    return this.clone(nextContext);
+  }
+
+  /**
+   * Adds a CUBE(...) element to the GROUP BY clause (subtotals for every combination of the terms)
+   * @param terms - Columns or ordering terms
+   * @returns New query builder instance with the GROUP BY clause
+   */
+  groupByCube(...terms: (ColumnDef | OrderingTerm)[]): SelectQueryBuilder<T, TTable> {
+    const nextContext = this.predicateFacet.groupingSets(this.context, 'CUBE', terms.map(term => [term]));
+    return this.clone(nextContext);
+  }
+
+  /**
+   * Adds a GROUPING SETS (...) element to the GROUP BY clause
+   * @param sets - Explicit grouping sets; an empty set produces the grand total row
+   * @returns New query builder instance with the GROUP BY clause
+   * @example
+   * qb.groupByGroupingSets([sales.columns.region], [sales.columns.year], []);
+   */
+  groupByGroupingSets(...sets: (ColumnDef | OrderingTerm)[][]): SelectQueryBuilder<T, TTable> {
+    const nextContext = this.predicateFacet.groupingSets(this.context, 'GROUPING SETS', sets);
+    return this.clone(nextContext);
+  }
+
+  /**
+   * Declares a named window (WINDOW name AS (...)) that window functions can reference with over()
+   * @param name - Window name
+   * @param spec - Window specification
+   * @returns New query builder instance with the window added
+   * @example
+   * qb.window('byUser', { partitionBy: [orders.columns.userId], orderBy: [{ column: orders.columns.createdAt }] })
+   *   .select({ runningTotal: over(sum(orders.columns.amount), 'byUser') });
+   */
+  window(name: string, spec: WindowSpec): SelectQueryBuilder<T, TTable> {
+    const nextContext = this.predicateFacet.window(this.context, name, spec);
+    return this.clone(nextContext);
+  }
+
   /**
    * Adds a HAVING condition to the query
    * @param expr - Expression for the HAVING clause
@@ -1130,6 +1306,93 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
     return this.clone(nextContext);
   }
 
+  /**
+   * Locks the selected rows for update (SELECT ... FOR UPDATE)
+   * @returns New query builder instance with the locking clause
+   * @example
+   * qb.where(eq(jobTable.columns.status, 'pending')).limit(10).forUpdate().skipLocked();
+   */
+  forUpdate(): SelectQueryBuilder<T, TTable> {
+    return this.clone(this.lockFacet.lock(this.context, 'UPDATE'));
+  }
+
+  /**
+   * Locks the selected rows in shared mode (SELECT ... FOR SHARE)
+   * @returns New query builder instance with the locking clause
+   */
+  forShare(): SelectQueryBuilder<T, TTable> {
+    return this.clone(this.lockFacet.lock(this.context, 'SHARE'));
+  }
+
+  /**
+   * Applies a lock request, e.g. `'update'` or `{ mode: 'update', wait: 'skipLocked' }`
+   * @param input - Lock request
+   * @returns New query builder instance with the locking clause
+   */
+  lock(input: SelectLockInput): SelectQueryBuilder<T, TTable> {
+    return this.clone(this.lockFacet.lockWith(this.context, input));
+  }
+
+  /**
+   * Skips rows locked by other transactions instead of waiting (SKIP LOCKED).
+   * Requires forUpdate() or forShare().
+   * @returns New query builder instance with the wait behaviour
+   */
+  skipLocked(): SelectQueryBuilder<T, TTable> {
+    return this.clone(this.lockFacet.wait(this.context, 'SKIP LOCKED'));
+  }
+
+  /**
+   * Fails immediately when a row is locked by another transaction (NOWAIT).
+   * Requires forUpdate() or forShare().
+   * @returns New query builder instance with the wait behaviour
+   */
+  noWait(): SelectQueryBuilder<T, TTable> {
+    return this.clone(this.lockFacet.wait(this.context, 'NOWAIT'));
+  }
+
+  /**
+   * Restricts the lock to specific tables of the query (FOR UPDATE OF ...).
+   * Requires forUpdate() or forShare().
+   * @param tables - Tables, table names or aliases to lock
+   * @returns New query builder instance with the lock targets
+   * @example
+   * qb.innerJoin(orderTable, eq(orderTable.columns.userId, userTable.columns.id))
+   *   .forUpdate()
+   *   .of(userTable);
+   */
+  of(...tables: (TableDef | string)[]): SelectQueryBuilder<T, TTable> {
+    return this.clone(this.lockFacet.of(this.context, tables));
+  }
+
+  /**
+   * Opts out of table global filters for this query (root table and joined relations).
+   * Without arguments every global filter is disabled.
+   * @param names - Names of the filters to disable
+   * @returns New query builder instance without the given filters
+   * @example
+   * qb.withoutGlobalFilters('published');
+   */
+  withoutGlobalFilters(...names: string[]): SelectQueryBuilder<T, TTable> {
+    return this.clone(this.filterFacet.disable(this.context, names));
+  }
+
+  /**
+   * Includes soft-deleted rows (disables the `softDelete` global filter)
+   * @returns New query builder instance including soft-deleted rows
+   */
+  withTrashed(): SelectQueryBuilder<T, TTable> {
+    return this.clone(this.filterFacet.withTrashed(this.context));
+  }
+
+  /**
+   * Returns only soft-deleted rows of the root table
+   * @returns New query builder instance restricted to soft-deleted rows
+   */
+  onlyTrashed(): SelectQueryBuilder<T, TTable> {
+    return this.clone(this.filterFacet.onlyTrashed(this.context));
+  }
+
   /**
    * Combines this query with another using UNION
    * @param query - Query to union with
@@ -1321,13 +1584,13 @@ export class SelectQueryBuilder<T = EntityInstance<TableDef>, TTable extends Tab
 
   /**
    * Gets the Abstract Syntax Tree (AST) representation of the query
-   * @returns Query AST with hydration applied
+   * @returns Query AST with global filters and hydration applied
    * @example
    * const ast = qb.select('id', 'name').getAST();
    * console.log(ast.columns); // Array of column nodes
    * console.log(ast.from); // From clause information
    */
   getAST(): SelectQueryNode {
-    return this.context.hydration.applyToAst(this.context.state.ast);
+    return this.context.hydration.applyToAst(applyGlobalFilters(this.context.state.ast));
   }
 }
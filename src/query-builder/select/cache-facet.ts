@@ -1,4 +1,5 @@
 import type { CacheOptions, CacheState, Duration } from '../../cache/cache-interfaces.js';
+import { tableCacheTag } from '../../cache/table-dependencies.js';
 
 /**
  * Facet para gerenciar estado de cache no SelectQueryBuilder
@@ -64,4 +65,14 @@ export class CacheFacet {
       autoInvalidate,
     };
   }
+
+  /**
+   * Acrescenta às opções as tags das tabelas lidas pela query
+   * Usado quando autoInvalidate está ativo
+   */
+  static withTableTags(options: CacheOptions, tables: string[]): CacheOptions {
+    const tags = new Set(options.tags ?? []);
+    tables.forEach(table => tags.add(tableCacheTag(table)));
+    return { ...options, tags: Array.from(tags) };
+  }
 }
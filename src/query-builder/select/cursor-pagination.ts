@@ -38,7 +38,7 @@ export type CursorPageResult<T> = {
 // Internal types
 // ---------------------------------------------------------------------------
 
-interface CursorOrderSpec {
+export interface CursorOrderSpec {
   table: string;
   column: string;
   valueKey: string;
@@ -81,19 +81,19 @@ export function buildOrderSignature(specs: CursorOrderSpec[]): string {
   return specs.map(s => `${s.table}.${s.column}:${s.direction}`).join(',');
 }
 
-function extractOrderSpecs(ast: SelectQueryNode): CursorOrderSpec[] {
+export function extractOrderSpecs(ast: SelectQueryNode, operation = 'executeCursor'): CursorOrderSpec[] {
   if (!ast.orderBy || ast.orderBy.length === 0) {
-    throw new Error('executeCursor: ORDER BY is required for cursor pagination');
+    throw new Error(`${operation}: ORDER BY is required for cursor pagination`);
   }
 
   return ast.orderBy.map((ob: OrderByNode) => {
     if (ob.nulls) {
-      throw new Error('executeCursor: NULLS FIRST/LAST is not supported for cursor pagination');
+      throw new Error(`${operation}: NULLS FIRST/LAST is not supported for cursor pagination`);
     }
     const term = ob.term;
     if (!term || (term as ColumnNode).type !== 'Column') {
       throw new Error(
-        'executeCursor: only column references are supported in ORDER BY for cursor pagination'
+        `${operation}: only column references are supported in ORDER BY for cursor pagination`
       );
     }
     const col = term as ColumnNode;
@@ -185,14 +185,22 @@ export function buildKeysetPredicate(
   return branches.length === 1 ? branches[0] : or(...branches);
 }
 
-function buildCursorFromRow(row: Record<string, unknown>, specs: CursorOrderSpec[]): string {
-  const values = specs.map(spec => {
+export function readOrderValues(
+  row: Record<string, unknown>,
+  specs: CursorOrderSpec[],
+  operation = 'executeCursor'
+): unknown[] {
+  return specs.map(spec => {
     const value = row[spec.valueKey];
     if (value === null || value === undefined) {
-      throw new Error('executeCursor: cursor pagination requires non-null ORDER BY values');
+      throw new Error(`${operation}: cursor pagination requires non-null ORDER BY values`);
     }
     return value;
   });
+}
+
+function buildCursorFromRow(row: Record<string, unknown>, specs: CursorOrderSpec[]): string {
+  const values = readOrderValues(row, specs);
   return encodeCursor({ v: 2, values, orderSig: buildOrderSignature(specs) });
 }
 
@@ -200,7 +208,7 @@ function reverseDirection(direction: 'ASC' | 'DESC'): 'ASC' | 'DESC' {
   return direction === 'ASC' ? 'DESC' : 'ASC';
 }
 
-function createExecutionBuilder<T, TTable extends TableDef>(
+export function createExecutionBuilder<T, TTable extends TableDef>(
   builder: SelectQueryBuilder<T, TTable>,
   options: {
     predicate?: ExpressionNode;
@@ -0,0 +1,58 @@
+import { isNotNull } from '../../core/ast/expression.js';
+import { SOFT_DELETE_FILTER } from '../../schema/table.js';
+import { SelectQueryBuilderContext, SelectQueryBuilderEnvironment } from '../select-query-builder-deps.js';
+import { QueryAstService } from '../query-ast-service.js';
+import { SelectQueryState } from '../select-query-state.js';
+import { ALL_GLOBAL_FILTERS } from '../global-filters.js';
+
+/**
+ * Facet responsible for opting queries out of table global filters (including soft delete)
+ */
+export class SelectFilterFacet {
+    /**
+     * Creates a new SelectFilterFacet instance
+     * @param env - Query builder environment
+     * @param createAstService - Function to create AST service
+     */
+    constructor(
+        private readonly env: SelectQueryBuilderEnvironment,
+        private readonly createAstService: (state: SelectQueryState) => QueryAstService
+    ) { }
+
+    /**
+     * Disables the named global filters, or all of them when no name is given
+     * @param context - Current query context
+     * @param names - Filter names to disable
+     * @returns Updated query context
+     */
+    disable(context: SelectQueryBuilderContext, names: string[]): SelectQueryBuilderContext {
+        const astService = this.createAstService(context.state);
+        const nextState = astService.withDisabledFilters(names.length ? names : [ALL_GLOBAL_FILTERS]);
+        return { state: nextState, hydration: context.hydration };
+    }
+
+    /**
+     * Includes soft-deleted rows
+     * @param context - Current query context
+     * @returns Updated query context
+     */
+    withTrashed(context: SelectQueryBuilderContext): SelectQueryBuilderContext {
+        return this.disable(context, [SOFT_DELETE_FILTER]);
+    }
+
+    /**
+     * Restricts the query to soft-deleted rows of the root table
+     * @param context - Current query context
+     * @returns Updated query context
+     */
+    onlyTrashed(context: SelectQueryBuilderContext): SelectQueryBuilderContext {
+        const { table } = this.env;
+        const column = table.softDeleteColumn ? table.columns[table.softDeleteColumn] : undefined;
+        if (!column) {
+            throw new Error(`onlyTrashed() requires table "${table.name}" to declare a softDeleteColumn.`);
+        }
+        const next = this.withTrashed(context);
+        const nextState = this.createAstService(next.state).withWhere(isNotNull(column));
+        return { state: nextState, hydration: next.hydration };
+    }
+}
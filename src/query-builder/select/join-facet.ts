@@ -2,7 +2,7 @@ import { TableDef } from '../../schema/table.js';
 import { BinaryExpressionNode } from '../../core/ast/expression.js';
 import { SelectQueryNode } from '../../core/ast/query.js';
 import { JoinKind } from '../../core/sql/sql.js';
-import { derivedTable, fnTable } from '../../core/ast/builders.js';
+import { createTableNode, derivedTable, fnTable } from '../../core/ast/builders.js';
 import { createJoinNode } from '../../core/ast/join-node.js';
 import { SelectQueryBuilderContext, SelectQueryBuilderEnvironment } from '../select-query-builder-deps.js';
 import { QueryAstService } from '../query-ast-service.js';
@@ -24,7 +24,7 @@ export class SelectJoinFacet {
         condition: BinaryExpressionNode,
         kind: JoinKind
     ): SelectQueryBuilderContext {
-        const joinNode = createJoinNode(kind, { type: 'Table', name: table.name, schema: table.schema }, condition);
+        const joinNode = createJoinNode(kind, createTableNode(table), condition);
         const astService = this.createAstService(context.state);
         const nextState = astService.withJoin(joinNode);
         return { state: nextState, hydration: context.hydration };
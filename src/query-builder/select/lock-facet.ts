@@ -0,0 +1,109 @@
+import { SelectLockMode, SelectLockNode, SelectLockWait, TableNode } from '../../core/ast/query.js';
+import { TableDef } from '../../schema/table.js';
+import { SelectQueryBuilderContext, SelectQueryBuilderEnvironment } from '../select-query-builder-deps.js';
+import { QueryAstService } from '../query-ast-service.js';
+import { SelectQueryState } from '../select-query-state.js';
+
+/**
+ * Lock request accepted by APIs that load rows for update (e.g. OrmSession.find).
+ */
+export type SelectLockInput =
+  | 'update'
+  | 'share'
+  | {
+    mode: 'update' | 'share';
+    wait?: 'nowait' | 'skipLocked';
+  };
+
+/**
+ * Facet responsible for row-level locking clauses (FOR UPDATE / FOR SHARE)
+ */
+export class SelectLockFacet {
+    /**
+     * Creates a new SelectLockFacet instance
+     * @param env - Query builder environment
+     * @param createAstService - Function to create AST service
+     */
+    constructor(
+        private readonly env: SelectQueryBuilderEnvironment,
+        private readonly createAstService: (state: SelectQueryState) => QueryAstService
+    ) { }
+
+    /**
+     * Requests a row lock of the given strength, keeping any OF/wait options already set
+     * @param context - Current query context
+     * @param mode - Lock strength
+     * @returns Updated query context with the locking clause
+     */
+    lock(context: SelectQueryBuilderContext, mode: SelectLockMode): SelectQueryBuilderContext {
+        const current = context.state.ast.lock;
+        return this.apply(context, { ...current, type: 'Lock', mode });
+    }
+
+    /**
+     * Applies a lock request expressed as a {@link SelectLockInput}
+     * @param context - Current query context
+     * @param input - Lock request
+     * @returns Updated query context with the locking clause
+     */
+    lockWith(context: SelectQueryBuilderContext, input: SelectLockInput): SelectQueryBuilderContext {
+        const request = typeof input === 'string' ? { mode: input } : input;
+        const mode: SelectLockMode = request.mode === 'share' ? 'SHARE' : 'UPDATE';
+        const next = this.lock(context, mode);
+        if (!('wait' in request) || !request.wait) return next;
+        return this.wait(next, request.wait === 'skipLocked' ? 'SKIP LOCKED' : 'NOWAIT');
+    }
+
+    /**
+     * Sets the wait behaviour of the current lock
+     * @param context - Current query context
+     * @param wait - NOWAIT or SKIP LOCKED
+     * @returns Updated query context with the wait behaviour
+     */
+    wait(context: SelectQueryBuilderContext, wait: SelectLockWait): SelectQueryBuilderContext {
+        const current = this.requireLock(context, wait === 'NOWAIT' ? 'noWait()' : 'skipLocked()');
+        return this.apply(context, { ...current, wait });
+    }
+
+    /**
+     * Restricts the current lock to the given tables
+     * @param context - Current query context
+     * @param tables - Tables (or table names/aliases) to lock
+     * @returns Updated query context with the OF list
+     */
+    of(context: SelectQueryBuilderContext, tables: (TableDef | string)[]): SelectQueryBuilderContext {
+        const current = this.requireLock(context, 'of()');
+        const nodes = tables.map(table => this.resolveTable(context, table));
+        return this.apply(context, { ...current, of: [...(current.of ?? []), ...nodes] });
+    }
+
+    private apply(context: SelectQueryBuilderContext, lock: SelectLockNode): SelectQueryBuilderContext {
+        const astService = this.createAstService(context.state);
+        const nextState = astService.withLock(lock);
+        return { state: nextState, hydration: context.hydration };
+    }
+
+    private requireLock(context: SelectQueryBuilderContext, method: string): SelectLockNode {
+        const current = context.state.ast.lock;
+        if (!current) {
+            throw new Error(`${method} requires forUpdate() or forShare() to be called first.`);
+        }
+        return current;
+    }
+
+    /**
+     * Resolves a lock target to the table node used in FROM/JOIN so aliases are honoured
+     */
+    private resolveTable(context: SelectQueryBuilderContext, table: TableDef | string): TableNode {
+        const name = typeof table === 'string' ? table : table.name;
+        const { from, joins } = context.state.ast;
+        const sources = [from, ...joins.map(join => join.table)];
+        for (const source of sources) {
+            if (source.type !== 'Table') continue;
+            if (source.name === name || source.alias === name) {
+                return { type: 'Table', name: source.name, schema: source.schema, alias: source.alias };
+            }
+        }
+        throw new Error(`Cannot lock table "${name}": it is not part of the query.`);
+    }
+}
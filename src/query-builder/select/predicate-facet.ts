@@ -1,6 +1,6 @@
 import { ColumnDef } from '../../schema/column-types.js';
-import { ExpressionNode } from '../../core/ast/expression.js';
-import { OrderingTerm } from '../../core/ast/query.js';
+import { ExpressionNode, WindowSpec, toWindowDefinition } from '../../core/ast/expression.js';
+import { GroupingSetsKind, OrderingTerm } from '../../core/ast/query.js';
 import { OrderDirection } from '../../core/sql/sql.js';
 import { SelectQueryBuilderContext, SelectQueryBuilderEnvironment } from '../select-query-builder-deps.js';
 import { QueryAstService } from '../query-ast-service.js';
@@ -44,6 +44,36 @@ export class SelectPredicateFacet {
         return { state: nextState, hydration: context.hydration };
     }
 
+    /**
+     * Adds a ROLLUP, CUBE or GROUPING SETS element to the GROUP BY clause
+     * @param context - Current query context
+     * @param kind - Grouping construct to add
+     * @param sets - Grouping sets of columns or ordering terms
+     * @returns Updated query context with GROUP BY clause
+     */
+    groupingSets(
+        context: SelectQueryBuilderContext,
+        kind: GroupingSetsKind,
+        sets: (ColumnDef | OrderingTerm)[][]
+    ): SelectQueryBuilderContext {
+        const astService = this.createAstService(context.state);
+        const nextState = astService.withGroupingSets(kind, sets);
+        return { state: nextState, hydration: context.hydration };
+    }
+
+    /**
+     * Declares a named window in the WINDOW clause
+     * @param context - Current query context
+     * @param name - Window name
+     * @param spec - Window specification
+     * @returns Updated query context with the window added
+     */
+    window(context: SelectQueryBuilderContext, name: string, spec: WindowSpec): SelectQueryBuilderContext {
+        const astService = this.createAstService(context.state);
+        const nextState = astService.withWindow(name, toWindowDefinition(spec));
+        return { state: nextState, hydration: context.hydration };
+    }
+
     /**
      * Adds a HAVING condition to the query
      * @param context - Current query context
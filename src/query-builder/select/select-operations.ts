@@ -10,9 +10,12 @@ import { SelectPredicateFacet } from './predicate-facet.js';
 import { SelectRelationFacet } from './relation-facet.js';
 import { ORDER_DIRECTIONS, OrderDirection } from '../../core/sql/sql.js';
 import { OrmSession } from '../../orm/orm-session.js';
+import { runQuery } from '../../orm/execution-context.js';
 import type { SelectQueryBuilder } from '../select.js';
 import { findPrimaryKey } from '../hydration-planner.js';
 import { payloadResultSets } from '../../core/execution/db-executor.js';
+import type { ExecuteSqlOptions } from '../../core/execution/db-executor.js';
+import { applyGlobalFilters } from '../global-filters.js';
 
 export type WhereHasOptions = {
   correlate?: ExpressionNode;
@@ -45,14 +48,16 @@ export function applyOrderBy(
 export async function executeCount(
   context: SelectQueryBuilderContext,
   env: SelectQueryBuilderEnvironment,
-  session: OrmSession
+  session: OrmSession,
+  options?: ExecuteSqlOptions
 ): Promise<number> {
   const unpagedAst: SelectQueryNode = {
-    ...context.state.ast,
+    ...applyGlobalFilters(context.state.ast),
     orderBy: undefined,
     limit: undefined,
     offset: undefined,
-    meta: undefined
+    meta: undefined,
+    lock: undefined
   };
 
   // Prefer counting distinct root PKs so eager-loaded joins (hasMany/belongsToMany)
@@ -101,7 +106,7 @@ export async function executeCount(
 
   const execCtx = session.getExecutionContext();
   const compiled = execCtx.dialect.compileSelect(countQuery);
-  const payload = await execCtx.interceptors.run({ sql: compiled.sql, params: compiled.params }, execCtx.executor);
+  const payload = await runQuery(execCtx, { sql: compiled.sql, params: compiled.params, options, ast: compiled.ast ?? countQuery });
   const results = payloadResultSets(payload);
   const value = results[0]?.values?.[0]?.[0];
 
@@ -118,14 +123,16 @@ export async function executeCount(
 export async function executeCountRows(
   context: SelectQueryBuilderContext,
   env: SelectQueryBuilderEnvironment,
-  session: OrmSession
+  session: OrmSession,
+  options?: ExecuteSqlOptions
 ): Promise<number> {
   const unpagedAst: SelectQueryNode = {
-    ...context.state.ast,
+    ...applyGlobalFilters(context.state.ast),
     orderBy: undefined,
     limit: undefined,
     offset: undefined,
-    meta: undefined
+    meta: undefined,
+    lock: undefined
   };
 
   const nextState = new SelectQueryState(env.table as TableDef, unpagedAst);
@@ -148,7 +155,7 @@ export async function executeCountRows(
 
   const execCtx = session.getExecutionContext();
   const compiled = execCtx.dialect.compileSelect(countQuery);
-  const payload = await execCtx.interceptors.run({ sql: compiled.sql, params: compiled.params }, execCtx.executor);
+  const payload = await runQuery(execCtx, { sql: compiled.sql, params: compiled.params, options, ast: compiled.ast ?? countQuery });
   const results = payloadResultSets(payload);
   const value = results[0]?.values?.[0]?.[0];
 
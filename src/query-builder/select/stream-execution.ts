@@ -0,0 +1,171 @@
+import { TableDef } from '../../schema/table.js';
+import { ColumnNode, ExpressionNode } from '../../core/ast/expression.js';
+import { OrmSession } from '../../orm/orm-session.js';
+import {
+  executeHydrated,
+  executeHydratedPlain,
+  streamHydrated,
+  streamHydratedPlain
+} from '../../orm/execute.js';
+import { findPrimaryKeys } from '../hydration-planner.js';
+import type { NormalizedRelationIncludeTree } from '../relation-include-tree.js';
+import type { SelectQueryBuilder } from '../select.js';
+import {
+  buildKeysetPredicate,
+  createExecutionBuilder,
+  extractOrderSpecs,
+  readOrderValues
+} from './cursor-pagination.js';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+export type StreamOptions = {
+  /** Root rows/entities per batch (default: 1000). */
+  batchSize?: number;
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+function resolveBatchSize(options?: StreamOptions): number {
+  const batchSize = options?.batchSize ?? DEFAULT_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error('stream: "batchSize" must be an integer >= 1');
+  }
+  return batchSize;
+}
+
+function hasNestedIncludes(tree: NormalizedRelationIncludeTree): boolean {
+  return Object.values(tree).some(node => Boolean(node.include));
+}
+
+/**
+ * Native streaming keeps the connection busy, so it is only used when no
+ * follow-up queries (lazy relations, nested includes) run between rows,
+ * and when no query interceptor expects a materialized payload.
+ */
+function canStreamNatively<T, TTable extends TableDef>(
+  builder: SelectQueryBuilder<T, TTable>,
+  session: OrmSession,
+  plain: boolean
+): boolean {
+  const execCtx = session.getExecutionContext();
+  if (!execCtx.executor.streamSql || execCtx.interceptors.hasInterceptors()) {
+    return false;
+  }
+  if (plain) return true;
+  return builder.getLazyRelations().length === 0 && !hasNestedIncludes(builder.getIncludeTree());
+}
+
+function canOrderByRoot<T, TTable extends TableDef>(builder: SelectQueryBuilder<T, TTable>): boolean {
+  const ast = builder.getInternals().context.state.ast;
+  return ast.from.type === 'Table' &&
+    !ast.setOps?.length &&
+    !ast.groupBy?.length &&
+    !ast.having;
+}
+
+/**
+ * Appends the root primary key to ORDER BY (unless already present) so the
+ * order is total: keyset batches need it, and streamed joined rows of one
+ * root stay contiguous.
+ */
+function withRootKeyOrder<T, TTable extends TableDef>(
+  builder: SelectQueryBuilder<T, TTable>
+): SelectQueryBuilder<T, TTable> {
+  const ast = builder.getInternals().context.state.ast;
+  const table = builder.getTable();
+  const rootName = ast.from.type === 'Table' ? ast.from.alias ?? ast.from.name : table.name;
+
+  return findPrimaryKeys(table).reduce((ordered, pk) => {
+    if (!table.columns[pk]) return ordered;
+    const alreadyOrdered = ordered.getInternals().context.state.ast.orderBy?.some(order => {
+      const term = order.term as ColumnNode;
+      return term.type === 'Column' && term.table === rootName && term.name === pk;
+    });
+    if (alreadyOrdered) return ordered;
+    const column: ColumnNode = { type: 'Column', table: rootName, name: pk };
+    return ordered.orderBy(column);
+  }, builder);
+}
+
+async function runBatch<T, TTable extends TableDef>(
+  builder: SelectQueryBuilder<T, TTable>,
+  session: OrmSession,
+  plain: boolean
+): Promise<T[]> {
+  const rows = plain
+    ? await executeHydratedPlain(session, builder)
+    : await executeHydrated(session, builder);
+  return rows as unknown as T[];
+}
+
+// ---------------------------------------------------------------------------
+// Main executor
+// ---------------------------------------------------------------------------
+
+/**
+ * Executes the query in batches without materializing the whole result.
+ * Uses `DbExecutor.streamSql` when available; otherwise falls back to keyset
+ * batching ordered by the current ORDER BY plus the root primary key.
+ * @param builder - Query builder with a default selection applied
+ * @param session - ORM session
+ * @param options - Stream options
+ * @param plain - Yield plain objects instead of tracked entities
+ * @returns Async generator of result batches
+ */
+export async function* executeStreamQuery<T, TTable extends TableDef>(
+  builder: SelectQueryBuilder<T, TTable>,
+  session: OrmSession,
+  options: StreamOptions | undefined,
+  plain: boolean
+): AsyncGenerator<T[]> {
+  const batchSize = resolveBatchSize(options);
+  const orderable = canOrderByRoot(builder);
+  const ordered = orderable ? withRootKeyOrder(builder) : builder;
+
+  if (canStreamNatively(builder, session, plain)) {
+    const batches = plain
+      ? streamHydratedPlain(session, ordered, { batchSize })
+      : streamHydrated(session, ordered, { batchSize });
+    yield* batches as AsyncGenerator<T[]>;
+    return;
+  }
+
+  const ast = builder.getInternals().context.state.ast;
+  if (ast.limit !== undefined || ast.offset !== undefined) {
+    // Already bounded by the caller: run it once and hand it out in batches.
+    const rows = await runBatch(builder, session, plain);
+    for (let start = 0; start < rows.length; start += batchSize) {
+      yield rows.slice(start, start + batchSize);
+    }
+    return;
+  }
+
+  if (!orderable) {
+    throw new Error(
+      'stream: set operations, GROUP BY and derived tables require an executor with native streaming (streamSql)'
+    );
+  }
+
+  const specs = extractOrderSpecs(ordered.getInternals().context.state.ast, 'stream');
+  let predicate: ExpressionNode | undefined;
+
+  for (;;) {
+    const batchBuilder = createExecutionBuilder(ordered, { predicate, limit: batchSize, reverseOrder: false });
+    const rows = await runBatch(batchBuilder, session, plain);
+    if (!rows.length) return;
+
+    const last = rows[rows.length - 1] as Record<string, unknown>;
+    const lastValues = readOrderValues(last, specs, 'stream');
+    yield rows;
+
+    if (rows.length < batchSize) return;
+    predicate = buildKeysetPredicate(specs, lastValues, 'after');
+  }
+}
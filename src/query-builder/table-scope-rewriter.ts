@@ -0,0 +1,230 @@
+import {
+  ExpressionNode,
+  OperandNode,
+  and,
+  isOperandNode
+} from '../core/ast/expression.js';
+import type { JoinNode } from '../core/ast/join.js';
+import { mapGroupByTerm } from '../core/ast/query.js';
+import type {
+  DeleteQueryNode,
+  OrderingTerm,
+  SelectQueryNode,
+  TableNode,
+  TableSourceNode,
+  UpdateQueryNode
+} from '../core/ast/query.js';
+
+/**
+ * Returns the predicate that must hold for rows of the given table reference,
+ * or undefined when the table is not scoped. Column references in the predicate
+ * should use the reference's alias (falling back to its name).
+ */
+export type TableScopeResolver = (table: TableNode) => ExpressionNode | undefined;
+
+interface ScopeContext {
+  resolve: TableScopeResolver;
+  /** CTE names visible at this level; references to them are not base tables */
+  cteNames: Set<string>;
+}
+
+/**
+ * Adds scope predicates for every base table referenced by a SELECT, including
+ * joins, derived tables, CTEs, set operations and subqueries in expressions.
+ * Predicates for the FROM table land in WHERE; joined tables get them in their
+ * ON condition so outer joins keep their semantics.
+ * @param query - SELECT AST to rewrite
+ * @param resolve - Predicate resolver per table reference
+ * @returns Rewritten AST
+ */
+export const scopeSelectQuery = (query: SelectQueryNode, resolve: TableScopeResolver): SelectQueryNode =>
+  scopeSelect(query, { resolve, cteNames: new Set() });
+
+/**
+ * Adds scope predicates for the FROM table and joined tables of one SELECT level only.
+ * Derived tables, CTEs and subqueries are left untouched, which suits ASTs whose nested
+ * queries were already scoped when their own builders produced them.
+ * @param query - SELECT AST to rewrite
+ * @param resolve - Predicate resolver per table reference
+ * @returns Rewritten AST
+ */
+export const scopeSelectSources = (query: SelectQueryNode, resolve: TableScopeResolver): SelectQueryNode => {
+  const ctx: ScopeContext = { resolve, cteNames: new Set(query.ctes?.map(cte => cte.name) ?? []) };
+  const predicates = query.from.type === 'Table' ? collectPredicate(query.from, ctx) : [];
+  const joins = query.joins.map(join => {
+    if (join.table.type !== 'Table') return join;
+    const joinPredicates = collectPredicate(join.table, ctx);
+    return joinPredicates.length ? { ...join, condition: conjoin(join.condition, joinPredicates)! } : join;
+  });
+  if (!predicates.length && joins.every((join, i) => join === query.joins[i])) return query;
+  return { ...query, joins, where: conjoin(query.where, predicates) };
+};
+
+/**
+ * Adds scope predicates to an UPDATE: the target table and any FROM/JOIN sources.
+ * @param query - UPDATE AST to rewrite
+ * @param resolve - Predicate resolver per table reference
+ * @returns Rewritten AST
+ */
+export const scopeUpdateQuery = (query: UpdateQueryNode, resolve: TableScopeResolver): UpdateQueryNode => {
+  const ctx: ScopeContext = { resolve, cteNames: new Set() };
+  const predicates = collectPredicate(query.table, ctx);
+  const from = query.from ? scopeSource(query.from, ctx, predicates) : query.from;
+  return {
+    ...query,
+    from,
+    joins: query.joins?.map(join => scopeJoin(join, ctx)),
+    set: query.set.map(assignment => ({ ...assignment, value: scopeOperand(assignment.value, ctx) })),
+    where: conjoin(query.where ? scopeExpression(query.where, ctx) : undefined, predicates)
+  };
+};
+
+/**
+ * Adds scope predicates to a DELETE: the target table and any USING/JOIN sources.
+ * @param query - DELETE AST to rewrite
+ * @param resolve - Predicate resolver per table reference
+ * @returns Rewritten AST
+ */
+export const scopeDeleteQuery = (query: DeleteQueryNode, resolve: TableScopeResolver): DeleteQueryNode => {
+  const ctx: ScopeContext = { resolve, cteNames: new Set() };
+  const predicates = collectPredicate(query.from, ctx);
+  const using = query.using ? scopeSource(query.using, ctx, predicates) : query.using;
+  return {
+    ...query,
+    using,
+    joins: query.joins?.map(join => scopeJoin(join, ctx)),
+    where: conjoin(query.where ? scopeExpression(query.where, ctx) : undefined, predicates)
+  };
+};
+
+const conjoin = (base: ExpressionNode | undefined, predicates: ExpressionNode[]): ExpressionNode | undefined => {
+  const operands = base ? [base, ...predicates] : predicates;
+  if (operands.length === 0) return undefined;
+  if (operands.length === 1) return operands[0];
+  return and(...operands);
+};
+
+const collectPredicate = (table: TableNode, ctx: ScopeContext): ExpressionNode[] => {
+  if (!table.schema && ctx.cteNames.has(table.name)) return [];
+  const predicate = ctx.resolve(table);
+  return predicate ? [predicate] : [];
+};
+
+const scopeSource = (
+  source: TableSourceNode,
+  ctx: ScopeContext,
+  predicates: ExpressionNode[]
+): TableSourceNode => {
+  switch (source.type) {
+    case 'Table':
+      predicates.push(...collectPredicate(source, ctx));
+      return source;
+    case 'DerivedTable':
+      return { ...source, query: scopeSelect(source.query, ctx) };
+    case 'FunctionTable':
+      return source.args ? { ...source, args: source.args.map(arg => scopeOperand(arg, ctx)) } : source;
+    default:
+      return source;
+  }
+};
+
+const scopeJoin = (join: JoinNode, ctx: ScopeContext): JoinNode => {
+  const predicates: ExpressionNode[] = [];
+  const table = scopeSource(join.table, ctx, predicates);
+  const condition = conjoin(scopeExpression(join.condition, ctx), predicates)!;
+  return { ...join, table, condition };
+};
+
+const scopeSelect = (query: SelectQueryNode, outer: ScopeContext): SelectQueryNode => {
+  const ctx: ScopeContext = query.ctes?.length
+    ? { ...outer, cteNames: new Set([...outer.cteNames, ...query.ctes.map(cte => cte.name)]) }
+    : outer;
+
+  const predicates: ExpressionNode[] = [];
+  const from = scopeSource(query.from, ctx, predicates);
+
+  return {
+    ...query,
+    ctes: query.ctes?.map(cte => ({ ...cte, query: scopeSelect(cte.query, ctx) })),
+    from,
+    columns: query.columns.map(column => scopeOperand(column, ctx) as typeof column),
+    joins: query.joins.map(join => scopeJoin(join, ctx)),
+    where: conjoin(query.where ? scopeExpression(query.where, ctx) : undefined, predicates),
+    having: query.having ? scopeExpression(query.having, ctx) : query.having,
+    groupBy: query.groupBy?.map(term => mapGroupByTerm(term, ordering => scopeOrderingTerm(ordering, ctx))),
+    orderBy: query.orderBy?.map(order => ({ ...order, term: scopeOrderingTerm(order.term, ctx) })),
+    setOps: query.setOps?.map(op => ({ ...op, query: scopeSelect(op.query, ctx) }))
+  };
+};
+
+const scopeOrderingTerm = (term: OrderingTerm, ctx: ScopeContext): OrderingTerm =>
+  isOperandNode(term) ? scopeOperand(term, ctx) : scopeExpression(term as ExpressionNode, ctx);
+
+const scopeExpression = (expr: ExpressionNode, ctx: ScopeContext): ExpressionNode => {
+  switch (expr.type) {
+    case 'BinaryExpression':
+      return { ...expr, left: scopeOperand(expr.left, ctx), right: scopeOperand(expr.right, ctx) };
+    case 'IsDistinctExpression':
+      return { ...expr, left: scopeOperand(expr.left, ctx), right: scopeOperand(expr.right, ctx) };
+    case 'ArithmeticExpression':
+      return { ...expr, left: scopeOperand(expr.left, ctx), right: scopeOperand(expr.right, ctx) };
+    case 'BitwiseExpression':
+      return { ...expr, left: scopeOperand(expr.left, ctx), right: scopeOperand(expr.right, ctx) };
+    case 'LogicalExpression':
+      return { ...expr, operands: expr.operands.map(op => scopeExpression(op, ctx)) };
+    case 'NotExpression':
+      return { ...expr, operand: scopeExpression(expr.operand, ctx) };
+    case 'NullExpression':
+      return { ...expr, left: scopeOperand(expr.left, ctx) };
+    case 'InExpression':
+      return {
+        ...expr,
+        left: scopeOperand(expr.left, ctx),
+        right: Array.isArray(expr.right)
+          ? expr.right.map(value => scopeOperand(value, ctx))
+          : { ...expr.right, query: scopeSelect(expr.right.query, ctx) }
+      };
+    case 'ExistsExpression':
+      return { ...expr, subquery: scopeSelect(expr.subquery, ctx) };
+    case 'BetweenExpression':
+      return {
+        ...expr,
+        left: scopeOperand(expr.left, ctx),
+        lower: scopeOperand(expr.lower, ctx),
+        upper: scopeOperand(expr.upper, ctx)
+      };
+    default:
+      return expr;
+  }
+};
+
+const scopeOperand = (node: OperandNode, ctx: ScopeContext): OperandNode => {
+  switch (node.type) {
+    case 'ScalarSubquery':
+      return { ...node, query: scopeSelect(node.query, ctx) };
+    case 'Function':
+      return {
+        ...node,
+        args: node.args.map(arg => scopeOperand(arg, ctx)),
+        separator: node.separator ? scopeOperand(node.separator, ctx) : node.separator,
+        orderBy: node.orderBy?.map(order => ({ ...order, term: scopeOrderingTerm(order.term, ctx) }))
+      };
+    case 'CaseExpression':
+      return {
+        ...node,
+        conditions: node.conditions.map(cond => ({
+          when: scopeExpression(cond.when, ctx),
+          then: scopeOperand(cond.then, ctx)
+        })),
+        else: node.else ? scopeOperand(node.else, ctx) : node.else
+      };
+    case 'Cast':
+    case 'Collate':
+      return { ...node, expression: scopeOperand(node.expression, ctx) };
+    case 'ArithmeticExpression':
+    case 'BitwiseExpression':
+      return { ...node, left: scopeOperand(node.left, ctx), right: scopeOperand(node.right, ctx) };
+    default:
+      return node;
+  }
+};
@@ -12,6 +12,7 @@ import {
   UpdateQueryNode,
   UpdateAssignmentNode
 } from '../core/ast/query.js';
+import { toDbValue } from '../schema/value-converter.js';
 import { JoinNode } from '../core/ast/join.js';
 import { createTableNode } from '../core/ast/builders.js';
 
@@ -81,7 +82,8 @@ export class UpdateQueryState {
    * @returns New UpdateQueryState with SET clause
    */
   withSet(values: Record<string, unknown>): UpdateQueryState {
-    const assignments: UpdateAssignmentNode[] = Object.entries(values).map(([column, rawValue]) => {
+    const assignments: UpdateAssignmentNode[] = Object.entries(values).map(([column, value]) => {
+      const rawValue = isOperandNode(value) ? value : toDbValue(this.table.columns[column], value);
       if (!isUpdateValue(rawValue)) {
         const allowedTypes = [...LITERAL_VALUE_TYPES, 'OperandNode'];
         throw new Error(
@@ -7,8 +7,9 @@ import { DialectKey, resolveDialectInput } from '../core/dialect/dialect-factory
 import { TableSourceNode, UpdateQueryNode } from '../core/ast/query.js';
 import { UpdateQueryState } from './update-query-state.js';
 import { createJoinNode } from '../core/ast/join-node.js';
-import { buildColumnNode } from '../core/ast/builders.js';
+import { buildColumnNode, createTableNode } from '../core/ast/builders.js';
 import { OrmSession } from '../orm/orm-session.js';
+import { runQuery } from '../orm/execution-context.js';
 import { payloadResultSets, QueryResult } from '../core/execution/db-executor.js';
 
 type UpdateDialectInput = Dialect | DialectKey;
@@ -105,7 +106,7 @@ export class UpdateQueryBuilder<T> {
     if (isTableSourceNode(source)) {
       return source;
     }
-    return { type: 'Table', name: source.name, schema: source.schema };
+    return createTableNode(source);
   }
 
   private resolveJoinTarget(table: TableDef | TableSourceNode | string): TableSourceNode | string {
@@ -140,7 +141,8 @@ export class UpdateQueryBuilder<T> {
   async execute(session: OrmSession): Promise<QueryResult[]> {
     const execCtx = session.getExecutionContext();
     const compiled = this.compile(execCtx.dialect);
-    const payload = await execCtx.interceptors.run({ sql: compiled.sql, params: compiled.params }, execCtx.executor);
+    const payload = await runQuery(execCtx, { sql: compiled.sql, params: compiled.params, ast: compiled.ast ?? this.getAST() });
+    await session.recordTableWrites([this.table.name]);
     return payloadResultSets(payload);
   }
 
@@ -3,6 +3,7 @@ import { SelectQueryBuilder } from '../query-builder/select.js';
 import { InsertQueryBuilder } from '../query-builder/insert.js';
 import { UpdateQueryBuilder } from '../query-builder/update.js';
 import { DeleteQueryBuilder } from '../query-builder/delete.js';
+import { MergeQueryBuilder } from '../query-builder/merge.js';
 import { callProcedure } from '../query-builder/procedure-call.js';
 import { QueryTarget, resolveTable } from './target.js';
 
@@ -74,4 +75,25 @@ export const deleteFrom = <TTable extends TableDef>(target: QueryTarget<TTable>)
     return new DeleteQueryBuilder(table);
 };
 
+/**
+ * Creates a MERGE statement builder targeting the specified table or entity.
+ *
+ * @template TTable - The table definition type
+ * @param target - The table definition or entity constructor receiving the changes
+ * @returns A new MergeQueryBuilder instance for building MERGE statements
+ *
+ * @example
+ * ```typescript
+ * const query = mergeInto(UserTable)
+ *   .using(StagingUserTable)
+ *   .on(eq(UserTable.columns.id, StagingUserTable.columns.id))
+ *   .whenMatched().update({ name: StagingUserTable.columns.name })
+ *   .whenNotMatched().insert({ id: StagingUserTable.columns.id, name: StagingUserTable.columns.name });
+ * ```
+ */
+export const mergeInto = <TTable extends TableDef>(target: QueryTarget<TTable>): MergeQueryBuilder<unknown> => {
+    const table = resolveTable(target);
+    return new MergeQueryBuilder(table);
+};
+
 export { callProcedure };
@@ -1,3 +1,5 @@
+import type { ValueConverter } from './value-converter.js';
+
 /**
  * Canonical, dialect-agnostic column data types.
  * Keep this intentionally small; dialect-specific names should be expressed via `dialectTypes`.
@@ -83,6 +85,23 @@ export interface ForeignKeyReference {
   deferrable?: boolean;
 }
 
+/**
+ * Value constraints declared by property validators (e.g. `@Range`, `@CPF`), published as
+ * JSON Schema / OpenAPI keywords
+ */
+export interface ColumnSchemaHints {
+  /** ECMAScript regular expression the value matches */
+  pattern?: string;
+  /** Named format (e.g. 'uri', 'uuid', 'iban') */
+  format?: string;
+  /** Inclusive lower bound */
+  minimum?: number;
+  /** Inclusive upper bound */
+  maximum?: number;
+  /** Allowed values */
+  enum?: readonly unknown[];
+}
+
 /**
  * Definition of a database column
  */
@@ -105,6 +124,8 @@ export interface ColumnDef<T extends ColumnType = ColumnType, TRuntime = unknown
   default?: DefaultValue;
   /** Whether the column auto-increments / identity */
   autoIncrement?: boolean;
+  /** Whether this column holds the optimistic concurrency version (integer or timestamp) */
+  version?: boolean;
   /** Identity strategy where supported */
   generated?: 'always' | 'byDefault';
   /** Inline check constraint expression */
@@ -113,6 +134,12 @@ export interface ColumnDef<T extends ColumnType = ColumnType, TRuntime = unknown
   references?: ForeignKeyReference;
   /** Column comment/description */
   comment?: string;
+  /** Previous column name; schema diff renames it instead of dropping and re-adding */
+  renamedFrom?: string;
+  /** Converts values between their runtime form and the form bound to / read from the driver */
+  converter?: ValueConverter;
+  /** Constraints declared by property validators, used by the OpenAPI generators */
+  schemaHints?: ColumnSchemaHints;
   /** Additional arguments for the column type (e.g., VARCHAR length) */
   args?: (string | number)[];
   /** Options specific to vector columns (dimensions, float16 vs float32, etc.) */
@@ -335,6 +362,17 @@ export const col = {
     generated: strategy
   }),
 
+  /**
+   * Marks a column as the optimistic concurrency version.
+   * Integer columns are incremented and timestamp columns are refreshed on every update.
+   */
+  version: <T extends ColumnType>(def: ColumnDef<T>): ColumnDef<T> =>
+  ({
+    ...def,
+    notNull: true,
+    version: true
+  }),
+
   /**
    * Adds a foreign key reference
    */
@@ -351,5 +389,26 @@ export const col = {
   ({
     ...def,
     check: expression
+  }),
+
+  /**
+   * Attaches a value converter applied on hydration, flush and parameter binding
+   */
+  converter: <T extends ColumnType, TRuntime>(
+    def: ColumnDef<T>,
+    converter: ValueConverter<TRuntime>
+  ): ColumnDef<T, TRuntime> =>
+  ({
+    ...def,
+    converter
+  }) as ColumnDef<T, TRuntime>,
+
+  /**
+   * Marks the column as renamed from a previous name, so schema diffs emit a rename
+   */
+  renamedFrom: <T extends ColumnType>(def: ColumnDef<T>, previousName: string): ColumnDef<T> =>
+  ({
+    ...def,
+    renamedFrom: previousName
   })
 };
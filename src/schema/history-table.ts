@@ -0,0 +1,67 @@
+import { col } from './column-types.js';
+import { defineTable, type TableDef } from './table.js';
+
+const historyTables = new WeakMap<TableDef, TableDef>();
+
+/**
+ * Defines the history table of an audited table.
+ * Each row records one flushed write: the changed columns (`changes`, JSON of
+ * `{ column: { old, new } }`), the row after the write (`state`, JSON, null after a hard delete),
+ * the actor, tenant and transaction id, and `changed_at` in epoch milliseconds.
+ * @param table - Audited table
+ * @returns History table definition, in the same schema as the audited table
+ */
+export const createHistoryTable = (table: TableDef): TableDef => {
+  const name = table.audit?.historyTable ?? `${table.name}_history`;
+  return defineTable(
+    name,
+    {
+      history_id: col.primaryKey(col.autoIncrement(col.int())),
+      entity_id: col.notNull(col.varchar(255)),
+      operation: col.notNull(col.varchar(10)),
+      changes: col.text(),
+      state: col.text(),
+      actor: col.varchar(255),
+      tenant_id: col.varchar(255),
+      transaction_id: col.varchar(64),
+      changed_at: col.notNull(col.bigint())
+    },
+    {},
+    {
+      schema: table.schema,
+      indexes: [{ name: `${name}_entity_idx`, columns: ['entity_id', 'changed_at'] }]
+    }
+  );
+};
+
+/**
+ * Returns the (cached) history table of an audited table.
+ * @param table - Audited table
+ * @returns History table definition
+ * @throws If the table is not audited
+ */
+export const getHistoryTable = (table: TableDef): TableDef => {
+  if (!table.audit) {
+    throw new Error(`Table "${table.name}" is not audited; enable the audit table option.`);
+  }
+  let history = historyTables.get(table);
+  if (!history) {
+    history = createHistoryTable(table);
+    historyTables.set(table, history);
+  }
+  return history;
+};
+
+/**
+ * Appends the history tables of audited tables, skipping ones already listed.
+ * @param tables - Table definitions
+ * @returns Tables followed by the missing history tables
+ */
+export const withHistoryTables = (tables: TableDef[]): TableDef[] => {
+  const names = new Set(tables.map(table => table.name));
+  const history = tables
+    .filter(table => table.audit)
+    .map(getHistoryTable)
+    .filter(table => !names.has(table.name));
+  return [...tables, ...history];
+};
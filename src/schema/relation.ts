@@ -35,6 +35,10 @@ export interface HasManyRelation<TTarget extends TableDef = TableDef> {
     target: TTarget;
     foreignKey: string;
     localKey?: string;
+    /** All foreign key columns of a composite key (`foreignKey` holds the first one) */
+    foreignKeys?: string[];
+    /** All local key columns of a composite key (`localKey` holds the first one) */
+    localKeys?: string[];
     cascade?: CascadeMode;
 }
 
@@ -46,6 +50,10 @@ export interface HasOneRelation<TTarget extends TableDef = TableDef> {
     target: TTarget;
     foreignKey: string;
     localKey?: string;
+    /** All foreign key columns of a composite key (`foreignKey` holds the first one) */
+    foreignKeys?: string[];
+    /** All local key columns of a composite key (`localKey` holds the first one) */
+    localKeys?: string[];
     cascade?: CascadeMode;
 }
 
@@ -57,6 +65,10 @@ export interface BelongsToRelation<TTarget extends TableDef = TableDef> {
     target: TTarget;
     foreignKey: string;
     localKey?: string;
+    /** All foreign key columns of a composite key (`foreignKey` holds the first one) */
+    foreignKeys?: string[];
+    /** All local key columns of a composite key (`localKey` holds the first one) */
+    localKeys?: string[];
     cascade?: CascadeMode;
 }
 
@@ -132,11 +144,30 @@ export type RelationDef =
   | MorphOneRelation
   | MorphManyRelation;
 
+/**
+ * Normalizes single or composite relation key columns
+ * @param foreignKey - Foreign key column name(s)
+ * @param localKey - Local key column name(s)
+ * @returns Key properties of a relation definition
+ */
+const relationKeys = (
+  foreignKey: string | string[],
+  localKey?: string | string[]
+): Pick<HasManyRelation, 'foreignKey' | 'localKey' | 'foreignKeys' | 'localKeys'> => {
+  const keys: Pick<HasManyRelation, 'foreignKey' | 'localKey' | 'foreignKeys' | 'localKeys'> = {
+    foreignKey: Array.isArray(foreignKey) ? foreignKey[0] : foreignKey,
+    localKey: Array.isArray(localKey) ? localKey[0] : localKey
+  };
+  if (Array.isArray(foreignKey) && foreignKey.length > 1) keys.foreignKeys = [...foreignKey];
+  if (Array.isArray(localKey) && localKey.length > 1) keys.localKeys = [...localKey];
+  return keys;
+};
+
 /**
  * Creates a one-to-many relationship definition
  * @param target - Target table of the relationship
- * @param foreignKey - Foreign key column name on the child table
- * @param localKey - Local key column name (optional)
+ * @param foreignKey - Foreign key column name on the child table (an array for composite keys)
+ * @param localKey - Local key column name (optional, an array for composite keys)
  * @returns HasManyRelation definition
  *
  * @example
@@ -146,42 +177,40 @@ export type RelationDef =
  */
 export const hasMany = <TTarget extends TableDef>(
   target: TTarget,
-  foreignKey: string,
-  localKey?: string,
+  foreignKey: string | string[],
+  localKey?: string | string[],
   cascade?: CascadeMode
 ): HasManyRelation<TTarget> => ({
     type: RelationKinds.HasMany,
     target,
-    foreignKey,
-    localKey,
+    ...relationKeys(foreignKey, localKey),
     cascade
 });
 
 /**
  * Creates a one-to-one relationship definition
  * @param target - Target table of the relationship
- * @param foreignKey - Foreign key column name on the child table
- * @param localKey - Local key column name (optional)
+ * @param foreignKey - Foreign key column name on the child table (an array for composite keys)
+ * @param localKey - Local key column name (optional, an array for composite keys)
  * @returns HasOneRelation definition
  */
 export const hasOne = <TTarget extends TableDef>(
   target: TTarget,
-  foreignKey: string,
-  localKey?: string,
+  foreignKey: string | string[],
+  localKey?: string | string[],
   cascade?: CascadeMode
 ): HasOneRelation<TTarget> => ({
     type: RelationKinds.HasOne,
     target,
-    foreignKey,
-    localKey,
+    ...relationKeys(foreignKey, localKey),
     cascade
 });
 
 /**
  * Creates a many-to-one relationship definition
  * @param target - Target table of the relationship
- * @param foreignKey - Foreign key column name on the child table
- * @param localKey - Local key column name (optional)
+ * @param foreignKey - Foreign key column name on the child table (an array for composite keys)
+ * @param localKey - Local key column name (optional, an array for composite keys)
  * @returns BelongsToRelation definition
  *
  * @example
@@ -191,14 +220,13 @@ export const hasOne = <TTarget extends TableDef>(
  */
 export const belongsTo = <TTarget extends TableDef>(
   target: TTarget,
-  foreignKey: string,
-  localKey?: string,
+  foreignKey: string | string[],
+  localKey?: string | string[],
   cascade?: CascadeMode
 ): BelongsToRelation<TTarget> => ({
     type: RelationKinds.BelongsTo,
     target,
-    foreignKey,
-    localKey,
+    ...relationKeys(foreignKey, localKey),
     cascade
 });
 
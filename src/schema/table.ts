@@ -1,5 +1,7 @@
 import type { ColumnDef } from './column-types.js';
 import type { RelationDef } from './relation.js';
+import type { ColumnNode, ExpressionNode } from '../core/ast/expression.js';
+import type { SelectQueryNode } from '../core/ast/query.js';
 
 export interface IndexColumn {
   column: string;
@@ -25,6 +27,35 @@ export interface CheckConstraint {
   expression: string;
 }
 
+/**
+ * Builds the predicate of a named global filter.
+ * Receives column references (keyed like the table columns) qualified for the query being filtered.
+ */
+export type GlobalFilter = (columns: Record<string, ColumnNode>) => ExpressionNode;
+
+/** Name of the global filter registered by the `softDeleteColumn` option. */
+export const SOFT_DELETE_FILTER = 'softDelete';
+
+/** Per-table auditing options (see {@link TableOptions.audit}). */
+export interface TableAuditOptions {
+  /** History table name (default: `<table>_history`) */
+  historyTable?: string;
+}
+
+/** SELECT defining a view: a query builder, its AST, or raw SQL in the target dialect. */
+export type ViewDefinition = string | SelectQueryNode | { getAST(): SelectQueryNode };
+
+/** View options (see {@link TableOptions.view}). */
+export interface ViewOptions {
+  /**
+   * Defining query; a thunk defers building it until DDL is rendered, so it may use tables declared later.
+   * Views without a definition are read-only mappings of views managed outside the ORM.
+   */
+  definition?: ViewDefinition | (() => ViewDefinition);
+  /** Stores the result set (`CREATE MATERIALIZED VIEW`, emulated with a table where unsupported) */
+  materialized?: boolean;
+}
+
 export interface TableOptions {
   schema?: string;
   primaryKey?: string[];
@@ -34,6 +65,18 @@ export interface TableOptions {
   engine?: string;
   charset?: string;
   collation?: string;
+  /** Column (by key) holding the tenant id; sessions with a tenantId filter and stamp it */
+  tenantColumn?: string;
+  /** Named predicates applied to every SELECT on this table unless the query opts out */
+  filters?: Record<string, GlobalFilter>;
+  /** Timestamp column (by key) marking soft-deleted rows; deletes become UPDATEs */
+  softDeleteColumn?: string;
+  /** Previous table name; schema diff renames it instead of dropping and re-creating */
+  renamedFrom?: string;
+  /** Records every flushed insert, update and delete in a history table */
+  audit?: boolean | TableAuditOptions;
+  /** Maps a view instead of a table; schema generation and diff emit view DDL for it */
+  view?: ViewOptions;
 }
 
 /**
@@ -66,8 +109,29 @@ export interface TableDef<
   engine?: string;
   charset?: string;
   collation?: string;
+  /** Column key holding the tenant id, used for automatic tenant scoping */
+  tenantColumn?: string;
+  /** Named global filters applied to SELECTs (see {@link TableOptions.filters}) */
+  filters?: Record<string, GlobalFilter>;
+  /** Column key of the soft-delete timestamp */
+  softDeleteColumn?: string;
+  /** Previous table name (see {@link TableOptions.renamedFrom}) */
+  renamedFrom?: string;
+  /** Auditing options; set when the table is audited (see {@link TableOptions.audit}) */
+  audit?: TableAuditOptions;
+  /** View options; set when the definition maps a view (see {@link TableOptions.view}) */
+  view?: ViewOptions;
 }
 
+const resolveFilters = (options: TableOptions): Record<string, GlobalFilter> | undefined => {
+  const softDeleteColumn = options.softDeleteColumn;
+  if (softDeleteColumn === undefined) return options.filters;
+  return {
+    ...options.filters,
+    [SOFT_DELETE_FILTER]: columns => ({ type: 'NullExpression', left: columns[softDeleteColumn], operator: 'IS NULL' })
+  };
+};
+
 /**
  * Creates a table definition with columns and relationships.
  * @typeParam T - Type of the columns record
@@ -99,6 +163,13 @@ export const defineTable = <T extends Record<string, ColumnDef>>(
     return acc;
   }, {} as T);
 
+  if (options.tenantColumn !== undefined && !(options.tenantColumn in colsWithNames)) {
+    throw new Error(`Tenant column "${options.tenantColumn}" is not defined on table "${name}".`);
+  }
+  if (options.softDeleteColumn !== undefined && !(options.softDeleteColumn in colsWithNames)) {
+    throw new Error(`Soft-delete column "${options.softDeleteColumn}" is not defined on table "${name}".`);
+  }
+
   return {
     name,
     schema: options.schema,
@@ -110,7 +181,13 @@ export const defineTable = <T extends Record<string, ColumnDef>>(
     comment: options.comment,
     engine: options.engine,
     charset: options.charset,
-    collation: options.collation
+    collation: options.collation,
+    tenantColumn: options.tenantColumn,
+    filters: resolveFilters(options),
+    softDeleteColumn: options.softDeleteColumn,
+    renamedFrom: options.renamedFrom,
+    audit: options.audit === true ? {} : options.audit || undefined,
+    view: options.view
   };
 };
 
@@ -148,6 +225,27 @@ export function addRelation<TTable extends TableDef>(
   table.relations[name] = relation;
 }
 
+/**
+ * Adds (or replaces) a named global filter on an existing table definition.
+ * Affects queries built after the call.
+ *
+ * @param table - The table definition to mutate
+ * @param name - Filter name, used by `withoutGlobalFilters(name)` to opt out
+ * @param filter - Predicate builder for the filter
+ *
+ * @example
+ * ```ts
+ * addGlobalFilter(posts, 'published', c => eq(c.status, 'published'));
+ * ```
+ */
+export function addGlobalFilter<TTable extends TableDef>(
+  table: TTable,
+  name: string,
+  filter: GlobalFilter
+): void {
+  table.filters = { ...table.filters, [name]: filter };
+}
+
 type DirectColumnKeys<T extends TableDef> =
   Exclude<keyof T["columns"] & string, keyof T | "$">;
 
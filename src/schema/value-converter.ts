@@ -0,0 +1,137 @@
+import type { ColumnDef } from './column-types.js';
+import type { TableDef } from './table.js';
+import { RelationKinds } from './relation.js';
+
+/**
+ * Converts a column value between its runtime (entity) form and the form bound as a
+ * query parameter and returned by the driver.
+ * Converters never receive null or undefined; those pass through unchanged.
+ * @typeParam TRuntime - Value seen by application code
+ * @typeParam TDb - Value sent to and read from the driver
+ */
+export interface ValueConverter<TRuntime = unknown, TDb = unknown> {
+  /** Converts a runtime value before it is bound as a parameter */
+  toDb(value: TRuntime): TDb;
+  /** Converts a driver value after it is read */
+  fromDb(value: TDb): TRuntime;
+}
+
+/**
+ * Built-in value converters.
+ */
+export const converters = {
+  /**
+   * Stores values as JSON text. Values the driver already decoded (pg, mysql2) pass through on read.
+   */
+  json: <T = unknown>(): ValueConverter<T, string> => ({
+    toDb: value => JSON.stringify(value),
+    fromDb: value => (typeof value === 'string' ? JSON.parse(value) : value) as T
+  }),
+
+  /**
+   * Stores booleans as 1/0 (SQLite, MSSQL BIT, MySQL TINYINT).
+   */
+  booleanAsInt: (): ValueConverter<boolean, number | boolean> => ({
+    toDb: value => (value ? 1 : 0),
+    fromDb: value => (typeof value === 'boolean' ? value : Number(value) !== 0)
+  }),
+
+  /**
+   * Reads BIGINT columns as `bigint` and binds them as decimal strings, so no precision is lost.
+   */
+  bigint: (): ValueConverter<bigint, string | number | bigint> => ({
+    toDb: value => String(value),
+    fromDb: value => (typeof value === 'bigint' ? value : BigInt(value))
+  }),
+
+  /**
+   * Keeps DECIMAL/NUMERIC values as strings. Drivers that return numbers have already rounded them.
+   */
+  decimalAsString: (): ValueConverter<string, string | number> => ({
+    toDb: value => String(value),
+    fromDb: value => String(value)
+  }),
+
+  /**
+   * Reads dates as `Date` instances and binds them as ISO-8601 strings.
+   */
+  date: (): ValueConverter<Date, string | number | Date> => ({
+    toDb: value => (value instanceof Date ? value.toISOString() : String(value)),
+    fromDb: value => (value instanceof Date ? value : new Date(value))
+  }),
+
+  /**
+   * Restricts a column to a set of values; writing any other value throws.
+   * @param values - Allowed values
+   */
+  enum: <T extends string>(values: readonly T[]): ValueConverter<T, string> => ({
+    toDb: value => {
+      if (!values.includes(value)) {
+        throw new Error(`Invalid enum value "${value}"; expected one of: ${values.join(', ')}`);
+      }
+      return value;
+    },
+    fromDb: value => value as T
+  })
+};
+
+/**
+ * Converts a runtime value with the column's converter, if any.
+ * @param column - Column the value is written to
+ * @param value - Runtime value
+ * @returns Value to bind
+ */
+export const toDbValue = (column: Pick<ColumnDef, 'converter'> | undefined, value: unknown): unknown =>
+  column?.converter && value !== null && value !== undefined ? column.converter.toDb(value) : value;
+
+/**
+ * Converts a driver value with the column's converter, if any.
+ * @param column - Column the value was read from
+ * @param value - Driver value
+ * @returns Runtime value
+ */
+export const fromDbValue = (column: Pick<ColumnDef, 'converter'> | undefined, value: unknown): unknown =>
+  column?.converter && value !== null && value !== undefined ? column.converter.fromDb(value) : value;
+
+/**
+ * Converts the runtime values of a row keyed by column name.
+ * @param table - Table the row is written to
+ * @param row - Runtime values
+ * @returns A new row with converted values
+ */
+export const convertRowToDb = <TRow extends Record<string, unknown>>(table: TableDef, row: TRow): TRow => {
+  const converted: Record<string, unknown> = { ...row };
+  for (const key of Object.keys(row)) {
+    converted[key] = toDbValue(table.columns[key], row[key]);
+  }
+  return converted as TRow;
+};
+
+/**
+ * Converts, in place, the driver values of a row keyed by column name, including the
+ * nested rows of hydrated relations.
+ * @param table - Table the row was read from
+ * @param row - Driver values
+ * @returns The same row
+ */
+export const convertRowFromDb = <TRow extends Record<string, unknown>>(table: TableDef, row: TRow): TRow => {
+  const values = row as Record<string, unknown>;
+  for (const key of Object.keys(values)) {
+    const column = table.columns[key];
+    if (column) {
+      values[key] = fromDbValue(column, values[key]);
+      continue;
+    }
+    const relation = table.relations[key];
+    const nested = values[key];
+    if (!relation || relation.type === RelationKinds.MorphTo || !nested || typeof nested !== 'object') continue;
+    for (const child of Array.isArray(nested) ? nested : [nested]) {
+      convertRowFromDb(relation.target, child as Record<string, unknown>);
+      const pivot = (child as { _pivot?: Record<string, unknown> })._pivot;
+      if (pivot && relation.type === RelationKinds.BelongsToMany) {
+        convertRowFromDb(relation.pivotTable, pivot);
+      }
+    }
+  }
+  return row;
+};
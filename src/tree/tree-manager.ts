@@ -7,7 +7,9 @@
 
 import type { OrmSession } from '../orm/orm-session.js';
 import type { DbExecutor } from '../core/execution/db-executor.js';
-import type { Dialect } from '../core/dialect/abstract.js';
+import { payloadResultSets } from '../core/execution/db-executor.js';
+import type { CompiledQuery, Dialect } from '../core/dialect/abstract.js';
+import type { QueryAst, QueryRequest } from '../orm/interceptor-pipeline.js';
 import type { TableDef } from '../schema/table.js';
 import { selectFrom, insertInto, update, deleteFrom } from '../query/index.js';
 import type { QueryResult } from '../core/execution/db-executor.js';
@@ -45,6 +47,14 @@ export interface TreeManagerOptions<T extends TableDef> {
   config?: Partial<TreeConfig>;
   /** Optional scope values for multi-tree tables */
   scope?: TreeScope;
+  /** Session whose interceptor pipeline (and executor) runs the tree statements */
+  session?: OrmSession;
+}
+
+/** Query builder used by tree operations. */
+interface TreeStatement {
+  compile(dialect: Dialect): CompiledQuery;
+  getAST(): QueryAst;
 }
 
 /**
@@ -94,14 +104,16 @@ export class TreeManager<T extends TableDef> {
 
   private readonly executor: DbExecutor;
   private readonly dialect: Dialect;
+  private readonly session?: OrmSession;
   private readonly scopeValues: TreeScope;
   private readonly pkName: string;
 
   constructor(options: TreeManagerOptions<T>) {
-    const { executor, dialect, table, config = {}, scope = {} } = options;
+    const { executor, dialect, table, config = {}, scope = {}, session } = options;
 
     this.executor = executor;
     this.dialect = dialect;
+    this.session = session;
     this.table = table;
     this.config = resolveTreeConfig(config);
     this.scopeValues = scope;
@@ -122,8 +134,7 @@ export class TreeManager<T extends TableDef> {
    */
   async getNode(id: unknown): Promise<TreeNodeResult | null> {
     const query = this.query.findById(id);
-    const { sql, params } = query.compile(this.dialect);
-    const results = await this.executor.executeSql(sql, params);
+    const results = await this.executeStatement(query);
     const rows = queryResultsToRows(results);
 
     if (rows.length === 0) return null;
@@ -136,8 +147,7 @@ export class TreeManager<T extends TableDef> {
    */
   async getRoots(): Promise<TreeNodeResult[]> {
     const query = this.query.findRoots();
-    const { sql, params } = query.compile(this.dialect);
-    const results = await this.executor.executeSql(sql, params);
+    const results = await this.executeStatement(query);
     const rows = queryResultsToRows(results);
 
     return rows.map(row => this.createNodeResult(row));
@@ -148,8 +158,7 @@ export class TreeManager<T extends TableDef> {
    */
   async getChildren(parentId: unknown): Promise<TreeNodeResult[]> {
     const query = this.query.findDirectChildren(parentId);
-    const { sql, params } = query.compile(this.dialect);
-    const results = await this.executor.executeSql(sql, params);
+    const results = await this.executeStatement(query);
     const rows = queryResultsToRows(results);
 
     return rows.map(row => this.createNodeResult(row));
@@ -161,8 +170,7 @@ export class TreeManager<T extends TableDef> {
   async getDescendants(node: TreeNodeResult | NestedSetBounds): Promise<TreeNodeResult[]> {
     const bounds = this.getBounds(node);
     const query = this.query.findDescendants(bounds);
-    const { sql, params } = query.compile(this.dialect);
-    const results = await this.executor.executeSql(sql, params);
+    const results = await this.executeStatement(query);
     const rows = queryResultsToRows(results);
 
     return rows.map(row => this.createNodeResult(row));
@@ -174,8 +182,7 @@ export class TreeManager<T extends TableDef> {
   async getPath(node: TreeNodeResult | NestedSetBounds, includeSelf: boolean = true): Promise<TreeNodeResult[]> {
     const bounds = this.getBounds(node);
     const query = this.query.findAncestors(bounds, { includeSelf });
-    const { sql, params } = query.compile(this.dialect);
-    const results = await this.executor.executeSql(sql, params);
+    const results = await this.executeStatement(query);
     const rows = queryResultsToRows(results);
 
     return rows.map(row => this.createNodeResult(row));
@@ -189,8 +196,7 @@ export class TreeManager<T extends TableDef> {
       node.parentId,
       includeSelf ? undefined : (node.data as Record<string, unknown>)[this.pkName]
     );
-    const { sql, params } = query.compile(this.dialect);
-    const results = await this.executor.executeSql(sql, params);
+    const results = await this.executeStatement(query);
     const rows = queryResultsToRows(results);
 
     return rows.map(row => this.createNodeResult(row));
@@ -210,8 +216,7 @@ export class TreeManager<T extends TableDef> {
   async getDescendantsThreaded(node: TreeNodeResult | NestedSetBounds): Promise<ThreadedNode<Record<string, unknown>>[]> {
     const bounds = this.getBounds(node);
     const query = this.query.findDescendants(bounds);
-    const { sql, params } = query.compile(this.dialect);
-    const queryResults = await this.executor.executeSql(sql, params);
+    const queryResults = await this.executeStatement(query);
     const rows = queryResultsToRows(queryResults);
 
     return threadResults(
@@ -348,8 +353,7 @@ export class TreeManager<T extends TableDef> {
     Object.assign(insertData, scopeData);
 
     const insertQuery = insertInto(this.table).values(insertData as Record<string, ValueOperandInput>);
-    const { sql, params } = insertQuery.compile(this.dialect);
-    await this.executor.executeSql(sql, params);
+    await this.executeStatement(insertQuery);
 
     // If ID was provided in data, return it
     if (insertData[this.pkName] !== undefined) {
@@ -364,8 +368,7 @@ export class TreeManager<T extends TableDef> {
       ? and(lftCondition, ...scopeExpressions)
       : lftCondition;
     const findQuery = selectFrom(this.table).where(findCondition);
-    const { sql: findSql, params: findParams } = findQuery.compile(this.dialect);
-    const results = await this.executor.executeSql(findSql, findParams);
+    const results = await this.executeStatement(findQuery);
     const rows = queryResultsToRows(results);
     
     if (rows.length > 0) {
@@ -449,8 +452,7 @@ export class TreeManager<T extends TableDef> {
       finalQuery = finalQuery.where(eq(this.table.columns[key], value));
     }
 
-    const { sql, params } = finalQuery.compile(this.dialect);
-    await this.executor.executeSql(sql, params);
+    await this.executeStatement(finalQuery);
 
     await this.shiftForDelete(bounds.rght, width);
 
@@ -506,8 +508,7 @@ export class TreeManager<T extends TableDef> {
    */
   async validate(): Promise<string[]> {
     const query = this.query.findTreeList();
-    const { sql, params } = query.compile(this.dialect);
-    const queryResults = await this.executor.executeSql(sql, params);
+    const queryResults = await this.executeStatement(query);
     const rows = queryResultsToRows(queryResults);
 
     return NestedSetStrategy.validateTree(
@@ -528,6 +529,7 @@ export class TreeManager<T extends TableDef> {
       table: this.table,
       config: this.config,
       scope: { ...this.scopeValues, ...scope },
+      session: this.session,
     });
   }
 
@@ -587,8 +589,7 @@ export class TreeManager<T extends TableDef> {
     const finalQuery = scopeExpressions.length > 0
       ? query.where(and(...scopeExpressions))
       : query;
-    const { sql, params } = finalQuery.compile(this.dialect);
-    const queryResults = await this.executor.executeSql(sql, params);
+    const queryResults = await this.executeStatement(finalQuery);
     const rows = queryResultsToRows(queryResults);
 
     const maxRght = rows[0]?.max_rght;
@@ -725,8 +726,7 @@ export class TreeManager<T extends TableDef> {
       finalQuery = finalQuery.where(eq(this.table.columns[key], value));
     }
 
-    const { sql, params } = finalQuery.compile(this.dialect);
-    const queryResults = await this.executor.executeSql(sql, params);
+    const queryResults = await this.executeStatement(finalQuery);
     const rows = queryResultsToRows(queryResults);
 
     return rows.map(row => ({
@@ -746,8 +746,7 @@ export class TreeManager<T extends TableDef> {
       ? and(condition, ...scopeExpressions)
       : condition;
     const query = update(this.table).set(data).where(finalCondition);
-    const { sql, params } = query.compile(this.dialect);
-    await this.executor.executeSql(sql, params);
+    await this.executeStatement(query);
   }
 
   private async executeRawUpdate(sql: string, params: unknown[]): Promise<void> {
@@ -762,7 +761,24 @@ export class TreeManager<T extends TableDef> {
       hasWhere = true;
     }
 
-    await this.executor.executeSql(scopedSql, scopedParams);
+    await this.executeRequest({
+      sql: scopedSql,
+      params: scopedParams,
+      operation: 'update',
+      tables: [this.table.name]
+    });
+  }
+
+  private async executeStatement(query: TreeStatement): Promise<QueryResult[]> {
+    const { sql, params, ast } = query.compile(this.dialect);
+    return this.executeRequest({ sql, params, ast: ast ?? query.getAST() });
+  }
+
+  private async executeRequest(request: QueryRequest): Promise<QueryResult[]> {
+    const payload = this.session
+      ? await this.session.executeQuery(request)
+      : await this.executor.executeSql(request.sql, request.params);
+    return payloadResultSets(payload);
   }
 
   private quoteTable(): string {
@@ -797,6 +813,7 @@ export function createTreeManager<T extends TableDef>(
     table,
     config,
     scope,
+    session,
   });
 }
 
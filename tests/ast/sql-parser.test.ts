@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+
+import { selectFrom, insertInto, update, deleteFrom } from '../../src/query/index.js';
+import {
+  and,
+  between,
+  caseWhen,
+  cast,
+  eq,
+  exists,
+  gt,
+  inList,
+  isNull,
+  like,
+  or
+} from '../../src/core/ast/expression.js';
+import { count, sum } from '../../src/core/ast/aggregate-functions.js';
+import { over, rowNumber, rowsBetween, unboundedPreceding, currentRow } from '../../src/core/ast/window-functions.js';
+import { PostgresDialect } from '../../src/core/dialect/postgres/index.js';
+import { MySqlDialect } from '../../src/core/dialect/mysql/index.js';
+import { SqliteDialect } from '../../src/core/dialect/sqlite/index.js';
+import { SqlServerDialect } from '../../src/core/dialect/mssql/index.js';
+import type { Dialect, CompiledQuery } from '../../src/core/dialect/abstract.js';
+import type { DialectName } from '../../src/core/sql/sql.js';
+import { parseSelectSql, parseSql, SqlParseError, type SqlStatementNode } from '../../src/core/sql/parser/index.js';
+import { Orders, Users } from '../fixtures/schema.js';
+
+const dialects: Record<DialectName, Dialect> = {
+  postgres: new PostgresDialect(),
+  mysql: new MySqlDialect(),
+  sqlite: new SqliteDialect(),
+  mssql: new SqlServerDialect()
+};
+
+const compile = (dialect: Dialect, ast: SqlStatementNode): CompiledQuery => {
+  switch (ast.type) {
+    case 'SelectQuery':
+      return dialect.compileSelect(ast);
+    case 'InsertQuery':
+      return dialect.compileInsert(ast);
+    case 'UpdateQuery':
+      return dialect.compileUpdate(ast);
+    default:
+      return dialect.compileDelete(ast);
+  }
+};
+
+const roundTrip = (name: DialectName, ast: SqlStatementNode) => {
+  const dialect = dialects[name];
+  const original = compile(dialect, ast);
+  const parsed = parseSql(original.sql, { dialect: name, params: original.params });
+  expect(parsed.diagnostics).toEqual([]);
+  return { original, reparsed: compile(dialect, parsed.ast!) };
+};
+
+const builders: [string, () => SqlStatementNode][] = [
+  ['select with joins, predicates, grouping and paging', () =>
+    selectFrom(Users)
+      .select({ id: Users.columns.id, name: Users.columns.name, orders: count(Orders.columns.id) })
+      .leftJoin(Orders, eq(Orders.columns.user_id, Users.columns.id))
+      .where(and(
+        between(Users.columns.id, 1, 100),
+        or(like(Users.columns.name, 'a%'), isNull(Users.columns.deleted_at)),
+        inList(Users.columns.role, ['admin', 'staff'])
+      ))
+      .groupBy(Users.columns.id)
+      .groupBy(Users.columns.name)
+      .having(gt(count(Orders.columns.id), 2))
+      .orderBy(Users.columns.name, 'DESC')
+      .limit(10)
+      .offset(20)
+      .getAST()],
+  ['select with CASE, CAST, window functions and EXISTS', () =>
+    selectFrom(Orders)
+      .select({
+        id: Orders.columns.id,
+        size: caseWhen([{ when: gt(Orders.columns.total, 100), then: 'large' }], 'small'),
+        total: cast(Orders.columns.total, 'varchar(20)'),
+        rn: over(rowNumber(), { partitionBy: [Orders.columns.user_id], orderBy: [{ column: Orders.columns.id }] }),
+        running: over(sum(Orders.columns.total), {
+          orderBy: [{ column: Orders.columns.id }],
+          frame: rowsBetween(unboundedPreceding(), currentRow())
+        })
+      })
+      .where(exists(
+        selectFrom(Users).select({ id: Users.columns.id }).where(eq(Users.columns.id, Orders.columns.user_id)).getAST()
+      ))
+      .getAST()],
+  ['CTEs and set operations', () =>
+    selectFrom(Users)
+      .with('admins', selectFrom(Users).select({ id: Users.columns.id }).where(eq(Users.columns.role, 'admin')))
+      .select({ id: Users.columns.id })
+      .union(selectFrom(Orders).select({ id: Orders.columns.user_id }))
+      .getAST()],
+  ['paged select without ORDER BY', () => selectFrom(Users).select({ id: Users.columns.id }).limit(5).getAST()],
+  ['insert', () => insertInto(Users).values({ id: 1, name: 'Ana', role: 'admin' }).getAST()],
+  ['update', () => update(Users).set({ name: 'Bia' }).where(eq(Users.columns.id, 1)).getAST()],
+  ['delete', () => deleteFrom(Orders).where(gt(Orders.columns.total, 5)).getAST()]
+];
+
+describe('parseSql round trip', () => {
+  for (const name of Object.keys(dialects) as DialectName[]) {
+    it.each(builders)(`${name}: %s`, (_label, build) => {
+      const { original, reparsed } = roundTrip(name, build());
+      expect(reparsed.sql).toBe(original.sql);
+      expect(reparsed.params).toEqual(original.params);
+    });
+  }
+});
+
+describe('parseSql', () => {
+  it('honours dialect quoting, placeholders and identifier folding', () => {
+    const mysql = parseSelectSql('SELECT `u`.`Name` FROM `Users` `u` WHERE `u`.`id` = ? LIMIT 5, 10', {
+      dialect: 'mysql',
+      params: [7]
+    });
+    expect(mysql.from).toEqual({ type: 'Table', name: 'Users', alias: 'u' });
+    expect(mysql.columns).toEqual([{ type: 'Column', table: 'u', name: 'Name' }]);
+    expect(mysql.where).toMatchObject({ right: { type: 'Literal', value: 7 } });
+    expect([mysql.offset, mysql.limit]).toEqual([5, 10]);
+
+    const postgres = parseSelectSql('SELECT Name, "Title" FROM Users WHERE id = $2 AND name = $1', {
+      params: ['ana', 3]
+    });
+    expect(postgres.columns).toEqual([
+      { type: 'Column', table: 'users', name: 'name' },
+      { type: 'Column', table: 'users', name: 'Title' }
+    ]);
+    expect(postgres.where).toMatchObject({
+      operands: [{ right: { value: 3 } }, { right: { value: 'ana' } }]
+    });
+
+    const mssql = parseSelectSql('SELECT TOP 3 [id] FROM [dbo].[users] WHERE [name] = @name', {
+      dialect: 'mssql',
+      params: { name: 'bia' }
+    });
+    expect(mssql).toMatchObject({ limit: 3, from: { schema: 'dbo', name: 'users' } });
+  });
+
+  it('turns aliases in ORDER BY into alias references and USING into equalities', () => {
+    const ast = parseSelectSql(
+      'SELECT u.id, COUNT(*) AS total FROM users u INNER JOIN orders o USING (id) GROUP BY u.id ORDER BY total DESC NULLS LAST'
+    );
+    expect(ast.joins[0].condition).toEqual({
+      type: 'BinaryExpression',
+      left: { type: 'Column', table: 'u', name: 'id' },
+      operator: '=',
+      right: { type: 'Column', table: 'o', name: 'id' }
+    });
+    expect(ast.orderBy).toEqual([
+      { type: 'OrderBy', term: { type: 'AliasRef', name: 'total' }, direction: 'DESC', nulls: 'LAST' }
+    ]);
+  });
+
+  it('orders compound queries by output columns', () => {
+    const ast = parseSelectSql('SELECT a FROM t UNION SELECT a FROM u ORDER BY a');
+
+    expect(ast.orderBy?.[0].term).toEqual({ type: 'AliasRef', name: 'a' });
+    expect(new PostgresDialect().compileSelect(ast).sql).toBe(
+      '(SELECT "t"."a" FROM "t") UNION (SELECT "u"."a" FROM "u") ORDER BY "a" ASC;'
+    );
+  });
+
+  it('reports unsupported constructs with their location and keeps going', () => {
+    const { ast, diagnostics } = parseSql('SELECT id, 1\nFROM users FULL JOIN orders ON orders.user_id = users.id\nWHERE id % 2 = 0');
+
+    expect(ast).toBeUndefined();
+    expect(diagnostics.map(d => [d.code, d.line, d.column])).toEqual([
+      ['ambiguous-column', 1, 8],
+      ['unsupported-construct', 1, 12],
+      ['unsupported-construct', 2, 12],
+      ['ambiguous-column', 3, 7],
+      ['unsupported-construct', 3, 10]
+    ]);
+    expect(diagnostics[2].message).toContain('FULL JOIN');
+  });
+
+  it('reports syntax errors, missing parameters and non-SELECT statements', () => {
+    expect(parseSql('SELECT id FROM users WHERE').diagnostics).toMatchObject([
+      { severity: 'error', code: 'syntax-error', message: 'Unexpected end of SQL' }
+    ]);
+    expect(parseSql('SELECT id FROM users WHERE id = $1').diagnostics).toMatchObject([
+      { code: 'missing-parameter', column: 33 }
+    ]);
+    expect(parseSql("SELECT 'open FROM users").diagnostics[0].message).toContain('Unterminated');
+    expect(() => parseSelectSql('DELETE FROM users')).toThrow(SqlParseError);
+    expect(() => parseSelectSql('DROP TABLE users')).toThrow(/DROP statements are not supported/);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { sqlToTypeScript } from '../../src/codegen/sql-to-typescript.js';
+
+describe('sqlToTypeScript', () => {
+  it('generates a select chain with aliases resolved to table symbols', () => {
+    const { code, diagnostics } = sqlToTypeScript(
+      `SELECT u.id, COUNT(o.id) AS total
+       FROM users u LEFT JOIN orders o ON o.user_id = u.id
+       WHERE u.name LIKE ? GROUP BY u.id ORDER BY total DESC LIMIT 10`,
+      { dialect: 'mysql', params: ['a%'] }
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(code).toBe([
+      'const query = db.select({',
+      '  id: Users.id,',
+      '  total: count(Orders.id)',
+      '})',
+      '.from(Users)',
+      '.leftJoin(Orders, eq(Orders.user_id, Users.id))',
+      ".where(like(Users.name, 'a%'))",
+      '.groupBy(Users.id)',
+      ".orderBy(aliasRef('total'), 'DESC')",
+      '.limit(10)',
+      ';',
+      '',
+      'await query.execute();'
+    ].join('\n'));
+  });
+
+  it('prints CTEs, set operations, derived tables and window functions as builder calls', () => {
+    const { code } = sqlToTypeScript(
+      `WITH admins AS (SELECT id FROM users WHERE role = 'admin')
+       SELECT s.user_id, ROW_NUMBER() OVER (ORDER BY s.total DESC) AS rn
+       FROM (SELECT user_id, SUM(total) AS total FROM orders GROUP BY user_id) s
+       UNION ALL SELECT a.id, a.id AS rn FROM admins a`
+    );
+
+    expect(code).toContain(".with('admins', db.select({ id: Users.id }) .from(Users) .where(eq(Users.role, 'admin')))");
+    expect(code).toContain(".fromSubquery(db.select({ user_id: Orders.user_id, total: sum(Orders.total) }) .from(Orders) .groupBy(Orders.user_id), 's')");
+    expect(code).toContain("rn: over(rowNumber(), { orderBy: [{ column: S.total, direction: 'DESC' }] })");
+    expect(code).toContain('.unionAll(db.select({ id: Admins.id, rn: Admins.id }) .from(Admins))');
+  });
+
+  it('generates insert, update and delete chains', () => {
+    expect(sqlToTypeScript(
+      'INSERT INTO users (id, name) VALUES ($1, $2) ON CONFLICT (id) DO UPDATE SET name = $2 RETURNING id',
+      { params: [1, "O'Hara"] }
+    ).code).toBe([
+      'const query = insertInto(Users)',
+      ".values({ id: 1, name: 'O\\'Hara' })",
+      '.onConflict([Users.id])',
+      ".doUpdate({ name: 'O\\'Hara' })",
+      '.returning(Users.id)',
+      ';'
+    ].join('\n'));
+
+    expect(sqlToTypeScript("UPDATE users SET role = 'admin' WHERE id = 1").code).toBe(
+      "const query = update(Users)\n.set({ role: 'admin' })\n.where(eq(Users.id, 1))\n;"
+    );
+    expect(sqlToTypeScript('DELETE FROM orders WHERE total IS NULL').code).toBe(
+      'const query = deleteFrom(Orders)\n.where(isNull(Orders.total))\n;'
+    );
+  });
+
+  it('prints arithmetic and bitwise operands with their builder functions', () => {
+    expect(sqlToTypeScript('UPDATE t SET a = a + 1 WHERE id = 1')).toMatchObject({
+      code: 'const query = update(T)\n.set({ a: add(T.a, 1) })\n.where(eq(T.id, 1))\n;',
+      diagnostics: []
+    });
+    expect(sqlToTypeScript('SELECT a FROM t WHERE (a & 4) * 2 > 2').code).toContain('.where(gt(mul(bitAnd(T.a, 4), 2), 2))');
+  });
+
+  it('returns diagnostics instead of code for unsupported SQL', () => {
+    const result = sqlToTypeScript('SELECT users.id FROM users NATURAL JOIN orders');
+
+    expect(result.code).toBeUndefined();
+    expect(result.diagnostics).toMatchObject([{ code: 'unsupported-construct', line: 1, column: 28 }]);
+  });
+});
@@ -62,8 +62,16 @@ describe('postgresIntrospector', () => {
     ];
     const fkRows: Record<string, unknown>[] = [];
     const indexRows: Record<string, unknown>[] = [];
+    const checkRows: Record<string, unknown>[] = [
+      {
+        table_schema: 'dbo',
+        table_name: 'processo_judicial',
+        constraint_name: 'chk_processo_id',
+        definition: 'CHECK ((id > 0))'
+      }
+    ];
 
-    responseQueue = [columnRows, columnCommentRows, tableCommentRows, pkRows, fkRows, indexRows];
+    responseQueue = [columnRows, columnCommentRows, tableCommentRows, pkRows, fkRows, indexRows, checkRows];
 
     const schema = await postgresIntrospector.introspect(
       {
@@ -73,12 +81,13 @@ describe('postgresIntrospector', () => {
       { schema: 'dbo' } satisfies IntrospectOptions
     );
 
-    expect(sqlCalls).toHaveLength(6);
+    expect(sqlCalls).toHaveLength(7);
     expect(schema.tables).toHaveLength(1);
 
     const table = schema.tables[0];
     expect(table.comment).toBe('Processos pendentes');
     const idColumn = table.columns.find(c => c.name === 'id');
     expect(idColumn?.comment).toBe('Identificador do processo judicial');
+    expect(table.checks).toEqual([{ name: 'chk_processo_id', expression: '((id > 0))' }]);
   });
 });
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseMigrationFile, renderMigrationFile, type Migration } from '../../src/core/ddl/migrations/index.js';
+
+describe('migration files', () => {
+  it('splits statements on semicolons outside quotes, dollar-quoted bodies and comments', () => {
+    const contents = [
+      '-- migrate:up',
+      "INSERT INTO notes (body) VALUES ('a; b'), ('it''s;');",
+      'CREATE FUNCTION touch() RETURNS trigger AS $$',
+      'BEGIN',
+      '  NEW.updated_at := now();',
+      '  RETURN NEW;',
+      'END;',
+      '$$ LANGUAGE plpgsql;',
+      'DO $body$ BEGIN PERFORM 1; END $body$;',
+      '/* leading; comment */ CREATE TABLE "a;b" (id INT); -- trailing; comment',
+      'SELECT $1; SELECT 2',
+      '',
+      '-- migrate:down',
+      'DROP FUNCTION touch;'
+    ].join('\n');
+
+    expect(parseMigrationFile('20240101000000_functions.sql', contents).up).toEqual([
+      "INSERT INTO notes (body) VALUES ('a; b'), ('it''s;');",
+      'CREATE FUNCTION touch() RETURNS trigger AS $$\nBEGIN\n  NEW.updated_at := now();\n  RETURN NEW;\nEND;\n$$ LANGUAGE plpgsql;',
+      'DO $body$ BEGIN PERFORM 1; END $body$;',
+      'CREATE TABLE "a;b" (id INT);',
+      'SELECT $1;',
+      'SELECT 2'
+    ]);
+  });
+
+  it('keeps statement blocks whole and round-trips them through renderMigrationFile', () => {
+    const procedure = 'CREATE PROCEDURE touch_posts AS\nBEGIN\n  UPDATE posts SET touched = 1;\n  DELETE FROM posts WHERE archived = 1;\nEND;';
+    const contents = [
+      '-- migrate:up',
+      '-- migrate:statement-begin',
+      procedure,
+      '-- migrate:statement-end',
+      'CREATE INDEX idx_posts_touched ON posts (touched);',
+      '-- migrate:down',
+      'DROP PROCEDURE touch_posts;'
+    ].join('\n');
+
+    const migration = parseMigrationFile('20240101000000_procedures.sql', contents);
+    expect(migration.up).toEqual([procedure, 'CREATE INDEX idx_posts_touched ON posts (touched);']);
+    expect(parseMigrationFile('20240101000000_procedures.sql', renderMigrationFile(migration))).toEqual(migration);
+    expect(() => parseMigrationFile('20240101000000_open.sql', '-- migrate:up\n-- migrate:statement-begin\nSELECT 1;'))
+      .toThrow('Migration file "20240101000000_open.sql" has a "-- migrate:statement-begin" without a matching end marker.');
+  });
+
+  it('reads irreversible changes from the down section', () => {
+    const migration: Migration = {
+      version: '20240101000000',
+      name: 'drop_legacy',
+      up: ['DROP TABLE legacy;'],
+      down: [],
+      irreversible: ['Drop table legacy']
+    };
+
+    const contents = renderMigrationFile(migration);
+    expect(contents).toBe('-- migrate:up\nDROP TABLE legacy;\n\n-- migrate:down\n-- irreversible: Drop table legacy\n');
+    expect(parseMigrationFile('20240101000000_drop_legacy.sql', contents)).toEqual(migration);
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { selectFrom } from '../../src/query/index.js';
+import { and, eq, like } from '../../src/core/ast/expression.js';
+import { count } from '../../src/core/ast/aggregate-functions.js';
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import { Column, Entity, PrimaryKey } from '../../src/decorators/index.js';
+import { getTableDefFromEntity } from '../../src/decorators/bootstrap.js';
+import {
+  generateCreateViewSql,
+  generateRefreshMaterializedViewSql,
+  generateSchemaSql,
+  refreshMaterializedView
+} from '../../src/core/ddl/schema-generator.js';
+import { diffSchema } from '../../src/core/ddl/schema-diff.js';
+import {
+  MSSqlSchemaDialect,
+  MySqlSchemaDialect,
+  PostgresSchemaDialect,
+  SQLiteSchemaDialect
+} from '../../src/core/ddl/dialects/index.js';
+import type { DbExecutor } from '../../src/core/execution/db-executor.js';
+import type { DatabaseSchema } from '../../src/core/ddl/schema-types.js';
+
+const postgres = new PostgresSchemaDialect();
+const mysql = new MySqlSchemaDialect();
+const sqlite = new SQLiteSchemaDialect();
+const mssql = new MSSqlSchemaDialect();
+
+const Users = defineTable('users', {
+  id: col.primaryKey(col.int()),
+  name: col.varchar(100),
+  active: col.boolean()
+});
+
+const ActiveUsers = defineTable('active_users', { id: col.int(), label: col.varchar(100) }, {}, {
+  view: {
+    definition: () => selectFrom(Users)
+      .select({ id: Users.columns.id, label: Users.columns.name })
+      .where(and(eq(Users.columns.active, true), like(Users.columns.name, "O'%")))
+  }
+});
+
+const UserStats = defineTable('user_stats', { total: col.int() }, {}, {
+  view: { materialized: true, definition: 'SELECT COUNT(*) AS total FROM users;' }
+});
+
+const LegacyReport = defineTable('legacy_report', { id: col.int() }, {}, { view: {} });
+
+describe('view DDL generation', () => {
+  it('compiles builder definitions per dialect with parameters inlined', () => {
+    expect(generateCreateViewSql(ActiveUsers, postgres)).toEqual([
+      'CREATE VIEW "active_users" AS SELECT "users"."id" AS "id", "users"."name" AS "label" FROM "users" ' +
+      `WHERE "users"."active" = TRUE AND "users"."name" LIKE 'O''%';`
+    ]);
+    expect(generateCreateViewSql(ActiveUsers, mysql)[0]).toContain("WHERE `users`.`active` = 1 AND `users`.`name` LIKE 'O''%';");
+    expect(generateCreateViewSql(ActiveUsers, mssql)[0]).toMatch(/^CREATE VIEW \[active_users\] AS SELECT \[users\]\.\[id\]/);
+  });
+
+  it('creates materialized views natively on Postgres and as tables elsewhere', () => {
+    expect(generateCreateViewSql(UserStats, postgres)).toEqual([
+      'CREATE MATERIALIZED VIEW "user_stats" AS SELECT COUNT(*) AS total FROM users;'
+    ]);
+    expect(generateCreateViewSql(UserStats, sqlite)).toEqual([
+      'CREATE TABLE "user_stats" AS SELECT COUNT(*) AS total FROM users;'
+    ]);
+    expect(generateCreateViewSql(UserStats, mssql)).toEqual([
+      'SELECT * INTO [user_stats] FROM (SELECT COUNT(*) AS total FROM users) AS [src];'
+    ]);
+  });
+
+  it('refreshes materialized views natively or by re-running the query', () => {
+    expect(generateRefreshMaterializedViewSql(UserStats, postgres)).toEqual(['REFRESH MATERIALIZED VIEW "user_stats";']);
+    expect(generateRefreshMaterializedViewSql(UserStats, mysql)).toEqual([
+      'DELETE FROM `user_stats`;',
+      'INSERT INTO `user_stats` SELECT COUNT(*) AS total FROM users;'
+    ]);
+    expect(() => generateRefreshMaterializedViewSql(ActiveUsers, postgres)).toThrow('View active_users is not materialized.');
+    expect(() => generateCreateViewSql(LegacyReport, postgres)).toThrow(/managed outside the ORM/);
+  });
+
+  it('emits views after tables and skips views without a definition', () => {
+    const statements = generateSchemaSql([ActiveUsers, LegacyReport, UserStats, Users], sqlite);
+
+    expect(statements.map(sql => /^CREATE \w+ "\w+"/.exec(sql)?.[0])).toEqual([
+      'CREATE TABLE "users"',
+      'CREATE VIEW "active_users"',
+      'CREATE TABLE "user_stats"'
+    ]);
+  });
+
+  it('runs emulated refreshes in a transaction', async () => {
+    const calls: string[] = [];
+    const executor = {
+      capabilities: { transactions: true },
+      executeSql: vi.fn(async (sql: string) => { calls.push(sql); return []; }),
+      beginTransaction: vi.fn(async () => { calls.push('BEGIN'); }),
+      commitTransaction: vi.fn(async () => { calls.push('COMMIT'); }),
+      rollbackTransaction: vi.fn(async () => { calls.push('ROLLBACK'); }),
+      dispose: async () => {}
+    } as unknown as DbExecutor;
+
+    await refreshMaterializedView(executor, UserStats, sqlite);
+    await refreshMaterializedView(executor, UserStats, postgres);
+
+    expect(calls).toEqual([
+      'BEGIN',
+      'DELETE FROM "user_stats";',
+      'INSERT INTO "user_stats" SELECT COUNT(*) AS total FROM users;',
+      'COMMIT',
+      'REFRESH MATERIALIZED VIEW "user_stats";'
+    ]);
+  });
+
+  it('maps view entities to view definitions', () => {
+    @Entity({
+      tableName: 'order_totals',
+      view: {
+        materialized: true,
+        definition: () => selectFrom(Users).select({ id: Users.columns.id, orders: count(Users.columns.id) }).groupBy(Users.columns.id)
+      }
+    })
+    class OrderTotal {
+      @PrimaryKey(col.int())
+      id!: number;
+
+      @Column(col.int())
+      orders!: number;
+    }
+
+    @Entity({ type: 'view' })
+    class ExternalReport {
+      @PrimaryKey(col.int())
+      id!: number;
+    }
+
+    expect(getTableDefFromEntity(OrderTotal)?.view?.materialized).toBe(true);
+    expect(generateCreateViewSql(getTableDefFromEntity(OrderTotal)!, postgres)).toEqual([
+      'CREATE MATERIALIZED VIEW "order_totals" AS SELECT "users"."id" AS "id", COUNT("users"."id") AS "orders" ' +
+      'FROM "users" GROUP BY "users"."id";'
+    ]);
+    expect(getTableDefFromEntity(ExternalReport)?.view).toEqual({});
+  });
+});
+
+describe('view schema diff', () => {
+  const usersTable = { name: 'users', columns: [{ name: 'id', type: 'integer' }, { name: 'name', type: 'varchar(100)' }, { name: 'active', type: 'boolean' }] };
+
+  it('matches definitions rewritten by the database', () => {
+    const actual: DatabaseSchema = {
+      tables: [usersTable],
+      views: [
+        {
+          name: 'active_users',
+          columns: [],
+          definition: " SELECT id,\n    name AS label\n   FROM users\n  WHERE ((active = true) AND ((name)::text ~~ 'O''%'::text));"
+        },
+        { name: 'user_stats', columns: [], materialized: true, definition: ' SELECT count(*) AS total\n   FROM users;' }
+      ]
+    };
+
+    expect(diffSchema([Users, ActiveUsers, UserStats], actual, postgres).changes).toEqual([]);
+  });
+
+  it('re-creates changed views around the table changes', () => {
+    const actual: DatabaseSchema = {
+      tables: [{ name: 'users', columns: [{ name: 'id', type: 'integer' }, { name: 'active', type: 'boolean' }] }],
+      views: [
+        { name: 'active_users', columns: [], definition: ' SELECT id\n   FROM users;' },
+        { name: 'stale_report', columns: [], definition: ' SELECT 1;' }
+      ]
+    };
+
+    const plan = diffSchema([Users, ActiveUsers, UserStats, LegacyReport], actual, postgres, { allowDestructive: true });
+
+    expect(plan.changes.map(change => [change.kind, change.table])).toEqual([
+      ['dropView', 'active_users'],
+      ['dropView', 'stale_report'],
+      ['addColumn', 'users'],
+      ['createView', 'active_users'],
+      ['createView', 'user_stats']
+    ]);
+    expect(plan.changes[0]).toMatchObject({
+      statements: ['DROP VIEW IF EXISTS "active_users";'],
+      safe: true,
+      rollback: ['CREATE VIEW "active_users" AS SELECT id\n   FROM users;']
+    });
+    expect(plan.changes[1].safe).toBe(false);
+    expect(plan.changes[4]).toMatchObject({
+      description: 'Create materialized view user_stats',
+      rollback: ['DROP MATERIALIZED VIEW IF EXISTS "user_stats";']
+    });
+  });
+
+  it('keeps table-backed materialized views and restores stored CREATE statements', () => {
+    const actual: DatabaseSchema = {
+      tables: [usersTable, { name: 'user_stats', columns: [{ name: 'total', type: 'INTEGER' }] }],
+      views: [{ name: 'active_users', columns: [], definition: 'CREATE VIEW "active_users" AS SELECT 1' }]
+    };
+
+    const plan = diffSchema([Users, ActiveUsers, UserStats], actual, sqlite, { allowDestructive: true });
+
+    expect(plan.changes.map(change => change.kind)).toEqual(['dropView', 'createView']);
+    expect(plan.changes[0].rollback).toEqual(['CREATE VIEW "active_users" AS SELECT 1;']);
+  });
+});
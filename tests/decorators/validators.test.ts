@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+
+import { col } from '../../src/schema/column-types.js';
+import {
+  Column,
+  Entity,
+  IsIn,
+  Phone,
+  PrimaryKey,
+  Range,
+  SSN,
+  Url,
+  bootstrapEntities,
+  getTableDefFromEntity,
+  hasValidator,
+  resolveValidator
+} from '../../src/decorators/index.js';
+import { columnToOpenApiSchema } from '../../src/dto/openapi/index.js';
+import { TransformerExecutor } from '../../src/decorators/transformers/transformer-executor.js';
+
+@Entity({ tableName: 'vd_contacts' })
+class VdContact {
+  @PrimaryKey(col.int())
+  id!: number;
+
+  @SSN()
+  @Column(col.varchar(11))
+  ssn!: string;
+
+  @Phone({ defaultCallingCode: '55' })
+  @Column(col.varchar(20))
+  phone!: string;
+
+  @Url()
+  @Column(col.varchar(200))
+  site!: string;
+
+  @Range(1, 5)
+  @Column(col.int())
+  rating!: number;
+
+  @Range(0, 100, { clamp: true })
+  @Column(col.int())
+  progress!: number;
+
+  @IsIn(['active', 'archived'])
+  @Column(col.varchar(10))
+  status!: string;
+}
+
+describe('built-in identifier validators', () => {
+  const cases: [country: string, type: string, valid: string, formatted: string, invalid: string][] = [
+    ['US', 'ssn', '123456789', '123-45-6789', '666-12-3456'],
+    ['US', 'ein', '123456789', '12-3456789', '07-1234567'],
+    ['US', 'zip', '123456789', '12345-6789', '1234567'],
+    ['GB', 'postcode', 'sw1a1aa', 'SW1A 1AA', 'ABC 123'],
+    ['GB', 'nino', 'ab123456c', 'AB 12 34 56 C', 'BG123456C'],
+    ['CA', 'sin', '130454283', '130-454-283', '130-454-284'],
+    ['EU', 'vat', 'de 123.456.789', 'DE123456789', 'DE12345'],
+    ['PT', 'nif', 'PT123456789', '123 456 789', '123456780'],
+    ['INTL', 'iban', 'gb82west12345698765432', 'GB82 WEST 1234 5698 7654 32', 'GB82WEST12345698765433'],
+    ['INTL', 'credit-card', '378282246310005', '3782 822463 10005', '4111111111111112'],
+    ['INTL', 'phone', '+55 (11) 98765-4321', '+5511987654321', '12'],
+    ['INTL', 'url', 'https://Example.com', 'https://example.com/', 'ftp://example.com'],
+    ['INTL', 'uuid', '{123E4567-E89B-12D3-A456-426614174000}', '123e4567-e89b-12d3-a456-426614174000', '123e4567-e89b-02d3-a456-426614174000']
+  ];
+
+  it.each(cases)('%s-%s validates, formats and rejects', (country, type, valid, formatted, invalid) => {
+    expect(hasValidator(country, type)).toBe(true);
+    const validator = resolveValidator(country, type)!;
+
+    expect(validator.validate(valid)).toMatchObject({ isValid: true, formattedValue: formatted });
+    expect(validator.format(validator.normalize(valid))).toBe(formatted);
+    expect(validator.autoCorrect?.(valid)).toMatchObject({ success: true, correctedValue: formatted });
+    expect(validator.validate(invalid).isValid).toBe(false);
+    expect(validator.validate(invalid, { errorMessage: 'bad' }).error).toBe('bad');
+  });
+
+  it('auto-corrects common input mistakes', () => {
+    expect(resolveValidator('US', 'zip')!.autoCorrect!('2134').correctedValue).toBe('02134');
+    expect(resolveValidator('GB', 'postcode')!.autoCorrect!('SW1A OAA').correctedValue).toBe('SW1A 0AA');
+    expect(resolveValidator('EU', 'vat')!.autoCorrect!('GR123456789').correctedValue).toBe('EL123456789');
+    expect(resolveValidator('INTL', 'url')!.autoCorrect!('example.com/docs').correctedValue).toBe('https://example.com/docs');
+    expect(resolveValidator('INTL', 'phone')!.autoCorrect!('(11) 98765-4321').success).toBe(false);
+    expect(resolveValidator('US', 'ssn')!.autoCorrect!('000-12-3456').success).toBe(false);
+  });
+});
+
+describe('validator decorators', () => {
+  it('run with auto-correction and clamp or match values', async () => {
+    bootstrapEntities();
+    const contact: Record<string, unknown> = {
+      ssn: '123 45 6789',
+      phone: '(11) 98765-4321',
+      site: 'example.com',
+      rating: 4,
+      progress: 140,
+      status: ' Archived '
+    };
+
+    const failures = await new TransformerExecutor({ auto: true }).applyTransformers(contact, VdContact);
+
+    expect(failures).toEqual([]);
+    expect(contact).toEqual({
+      ssn: '123-45-6789',
+      phone: '+5511987654321',
+      site: 'https://example.com/',
+      rating: 4,
+      progress: 100,
+      status: 'archived'
+    });
+  });
+
+  it('reject out-of-range values with auto-correction unless clamping is enabled', async () => {
+    bootstrapEntities();
+    const contact: Record<string, unknown> = { rating: 9, progress: -5 };
+
+    const failures = await new TransformerExecutor({ auto: true }).applyTransformers(contact, VdContact);
+
+    expect(failures.map(failure => [failure.propertyName, failure.errors])).toEqual([
+      ['rating', ['Value must be less than or equal to 5']]
+    ]);
+    expect(contact).toEqual({ rating: 9, progress: 0 });
+  });
+
+  it('report failures without auto-correction', async () => {
+    bootstrapEntities();
+    const contact: Record<string, unknown> = { rating: '0', status: 'deleted' };
+
+    const failures = await new TransformerExecutor().applyTransformers(contact, VdContact);
+
+    expect(failures.map(failure => [failure.propertyName, failure.errors])).toEqual([
+      ['rating', ['Value must be greater than or equal to 1']],
+      ['status', ['Value must be one of: active, archived']]
+    ]);
+  });
+
+  it('publish OpenAPI pattern, format, bounds and enum hints', () => {
+    bootstrapEntities();
+    const table = getTableDefFromEntity(VdContact)!;
+
+    expect(columnToOpenApiSchema(table.columns.ssn)).toMatchObject({ pattern: '^\\d{3}-?\\d{2}-?\\d{4}$' });
+    expect(columnToOpenApiSchema(table.columns.site)).toMatchObject({ format: 'uri' });
+    expect(columnToOpenApiSchema(table.columns.rating)).toMatchObject({ minimum: 1, maximum: 5 });
+    expect(columnToOpenApiSchema(table.columns.status)).toMatchObject({ enum: ['active', 'archived'] });
+    expect(columnToOpenApiSchema(table.columns.id).pattern).toBeUndefined();
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { col } from '../../src/schema/column-types.js';
+import { Column, Entity, PrimaryKey, bootstrapEntities, getTableDefFromEntity } from '../../src/decorators/index.js';
+import { defineTable } from '../../src/schema/table.js';
+import { Orm } from '../../src/orm/orm.js';
+import type { OrmSession } from '../../src/orm/orm-session.js';
+import { SqliteDialect } from '../../src/core/dialect/sqlite/index.js';
+import { executeSchemaSqlFor, generateSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { diffSchema, synchronizeSchema } from '../../src/core/ddl/schema-diff.js';
+import { introspectSchema } from '../../src/core/ddl/schema-introspect.js';
+import { diffSnapshots } from '../../src/orm/audit.js';
+import { SQLiteSchemaDialect } from '../../src/core/ddl/dialects/sqlite-schema-dialect.js';
+import { createSqliteExecutor } from '../../src/core/execution/executors/sqlite-executor.js';
+import { selectFrom } from '../../src/query/index.js';
+import { eq } from '../../src/core/ast/expression.js';
+import { closeDb, createSqliteClient, execSql } from './sqlite-helpers.ts';
+
+@Entity({ tableName: 'audited_accounts', audit: true })
+class AuditedAccount {
+  @PrimaryKey(col.int())
+  id!: number;
+
+  @Column(col.varchar(100))
+  owner!: string;
+
+  @Column(col.int())
+  balance!: number;
+}
+
+const Notes = defineTable('audited_notes', {
+  id: col.primaryKey(col.int()),
+  body: col.varchar(100),
+  tenant_id: col.int(),
+  deleted_at: col.varchar(50)
+}, {}, { audit: { historyTable: 'note_changes' }, tenantColumn: 'tenant_id', softDeleteColumn: 'deleted_at' });
+
+describe('Audit history e2e (sqlite memory)', () => {
+  const withOrm = async (run: (orm: Orm) => Promise<void>, actor?: () => string) => {
+    bootstrapEntities();
+    const db = new sqlite3.Database(':memory:');
+    const executor = createSqliteExecutor({
+      ...createSqliteClient(db),
+      beginTransaction: () => execSql(db, 'BEGIN'),
+      commitTransaction: () => execSql(db, 'COMMIT'),
+      rollbackTransaction: () => execSql(db, 'ROLLBACK')
+    });
+    const orm = new Orm({
+      dialect: new SqliteDialect(),
+      executorFactory: {
+        createExecutor: () => executor,
+        createTransactionalExecutor: () => executor,
+        dispose: async () => { }
+      },
+      audit: { actor }
+    });
+    try {
+      await executeSchemaSqlFor(executor, new SQLiteSchemaDialect(), getTableDefFromEntity(AuditedAccount)!, Notes);
+      await run(orm);
+    } finally {
+      await closeDb(db);
+    }
+  };
+
+  const loadAccount = async (session: OrmSession, id: number) => {
+    const account = await session.find(AuditedAccount, id);
+    return account!;
+  };
+
+  it('creates history tables alongside audited tables', () => {
+    bootstrapEntities();
+    const sql = generateSchemaSqlFor(new SQLiteSchemaDialect(), getTableDefFromEntity(AuditedAccount)!, Notes);
+    expect(sql.filter(statement => statement.startsWith('CREATE TABLE'))).toEqual([
+      expect.stringContaining('CREATE TABLE "audited_accounts"'),
+      expect.stringContaining('CREATE TABLE "audited_notes"'),
+      expect.stringContaining('CREATE TABLE "audited_accounts_history"'),
+      expect.stringContaining('CREATE TABLE "note_changes"')
+    ]);
+    expect(sql).toContain('CREATE INDEX IF NOT EXISTS "audited_accounts_history_entity_idx" ON "audited_accounts_history" ("entity_id", "changed_at");');
+  });
+
+  it('creates history tables on schema sync and keeps them on destructive syncs', async () => {
+    bootstrapEntities();
+    const db = new sqlite3.Database(':memory:');
+    const executor = createSqliteExecutor(createSqliteClient(db));
+    const dialect = new SQLiteSchemaDialect();
+    const tables = [getTableDefFromEntity(AuditedAccount)!, Notes];
+    try {
+      const plan = await synchronizeSchema(tables, await introspectSchema(executor, 'sqlite'), dialect, executor);
+      expect(plan.changes.map(change => `${change.kind} ${change.table}`)).toEqual([
+        'createTable audited_accounts',
+        'createTable audited_notes',
+        'createTable audited_accounts_history',
+        'createTable note_changes'
+      ]);
+      const actual = await introspectSchema(executor, 'sqlite');
+      expect(diffSchema(tables, actual, dialect, { allowDestructive: true }).changes).toEqual([]);
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('compares dates and JSON values by value when diffing snapshots', () => {
+    expect(diffSnapshots(
+      { at: new Date(0), tags: ['a'], meta: { x: 1 }, n: 1 },
+      { at: new Date(0), tags: ['a'], meta: { x: 2 }, n: 1 }
+    )).toEqual({ meta: { old: { x: 1 }, new: { x: 2 } } });
+  });
+
+  it('records inserts, updates and deletes with actor and transaction id', async () => {
+    await withOrm(async orm => {
+      const session = orm.createSession({ actor: 'alice' });
+      await session.transaction(async tx => {
+        const account = new AuditedAccount();
+        account.id = 1;
+        account.owner = 'Ada';
+        account.balance = 10;
+        tx.trackNew(getTableDefFromEntity(AuditedAccount)!, account);
+      });
+      const account = await loadAccount(session, 1);
+      account.balance = 25;
+      session.markDirty(account);
+      await session.commit();
+      await session.remove(account);
+      await session.commit();
+
+      const history = await session.history(AuditedAccount, 1);
+      expect(history.map(entry => [entry.operation, entry.changes])).toEqual([
+        ['insert', {
+          id: { old: null, new: 1 },
+          owner: { old: null, new: 'Ada' },
+          balance: { old: null, new: 10 }
+        }],
+        ['update', { balance: { old: 10, new: 25 } }],
+        ['delete', {
+          id: { old: 1, new: null },
+          owner: { old: 'Ada', new: null },
+          balance: { old: 25, new: null }
+        }]
+      ]);
+      expect(history.every(entry => entry.actor === 'alice' && entry.entityId === '1')).toBe(true);
+      expect(new Set(history.map(entry => entry.transactionId)).size).toBe(3);
+      expect(history[1].state).toEqual({ id: 1, owner: 'Ada', balance: 25 });
+      expect(history[2].state).toBeNull();
+    });
+  });
+
+  it('reconstructs an entity as of a point in time', async () => {
+    await withOrm(async orm => {
+      const session = orm.createSession();
+      const account = new AuditedAccount();
+      account.id = 7;
+      account.owner = 'Grace';
+      account.balance = 1;
+      session.trackNew(getTableDefFromEntity(AuditedAccount)!, account);
+      await session.commit();
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const afterInsert = new Date();
+      await new Promise(resolve => setTimeout(resolve, 5));
+      account.balance = 2;
+      session.markDirty(account);
+      await session.commit();
+
+      const past = await session.history(AuditedAccount, 7, { asOf: afterInsert });
+      expect(past).toBeInstanceOf(AuditedAccount);
+      expect(past).toMatchObject({ id: 7, owner: 'Grace', balance: 1 });
+      expect(await session.history(AuditedAccount, 7, { asOf: new Date() })).toMatchObject({ balance: 2 });
+      expect(await session.history(AuditedAccount, 7, { asOf: new Date(0) })).toBeNull();
+      const history = await session.history(AuditedAccount, 7);
+      expect(history.map(entry => entry.actor)).toEqual(['system', 'system']);
+    }, () => 'system');
+  });
+
+  it('stamps tenants, records soft deletes and keeps rolled back writes out of history', async () => {
+    await withOrm(async orm => {
+      const session = orm.createSession({ tenantId: 3, actor: 42 });
+      await session.transaction(async tx => {
+        tx.trackNew(Notes, { id: 1, body: 'hello' });
+        tx.trackNew(Notes, { id: 2, body: 'bye' });
+      });
+      await expect(session.transaction(async tx => {
+        tx.trackNew(Notes, { id: 3, body: 'lost' });
+        await tx.flush();
+        throw new Error('abort');
+      })).rejects.toThrow('abort');
+
+      const [note] = await selectFrom(Notes).where(eq(Notes.columns.id, 1)).execute(session);
+      await session.remove(note);
+      await session.commit();
+
+      const first = await session.history(Notes, 1);
+      expect(first.map(entry => [entry.operation, entry.tenantId, entry.actor])).toEqual([
+        ['insert', '3', '42'],
+        ['delete', '3', '42']
+      ]);
+      expect(first[1].changes).toEqual({ deleted_at: { old: null, new: expect.any(String) } });
+      expect(first[1].state).toMatchObject({ id: 1, body: 'hello' });
+      expect(first[0].transactionId).toBe((await session.history(Notes, 2))[0].transactionId);
+      expect(await session.history(Notes, 3)).toEqual([]);
+      expect(await orm.createSession({ tenantId: 4 }).history(Notes, 1)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { eq } from '../../src/core/ast/expression.js';
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import { SelectQueryBuilder } from '../../src/query-builder/select.js';
+import { UpdateQueryBuilder } from '../../src/query-builder/update.js';
+import { DeleteQueryBuilder } from '../../src/query-builder/delete.js';
+import { bulkInsert } from '../../src/bulk/index.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { SQLiteSchemaDialect } from '../../src/core/ddl/dialects/sqlite-schema-dialect.js';
+import { createSqliteExecutor } from '../../src/core/execution/executors/sqlite-executor.js';
+import { Orm } from '../../src/orm/orm.js';
+import { SqliteDialect } from '../../src/core/dialect/sqlite/index.js';
+import { MemoryCacheAdapter } from '../../src/cache/adapters/memory-cache-adapter.js';
+import { collectQueryTables, tableCacheTag } from '../../src/cache/table-dependencies.js';
+import { closeDb, createSqliteClient, runSql } from './sqlite-helpers.ts';
+
+const authors = defineTable('cache_authors', {
+  id: col.primaryKey(col.int()),
+  name: col.varchar(64)
+});
+
+const posts = defineTable('cache_posts', {
+  id: col.primaryKey(col.int()),
+  authorId: col.int(),
+  title: col.varchar(64)
+});
+
+const createOrm = (db: sqlite3.Database, provider: MemoryCacheAdapter) => {
+  const client = createSqliteClient(db);
+  const executor = createSqliteExecutor({
+    ...client,
+    beginTransaction: async () => { await client.all('BEGIN'); },
+    commitTransaction: async () => { await client.all('COMMIT'); },
+    rollbackTransaction: async () => { await client.all('ROLLBACK'); }
+  });
+  return new Orm({
+    dialect: new SqliteDialect(),
+    executorFactory: {
+      createExecutor: () => executor,
+      createTransactionalExecutor: () => executor,
+      dispose: async () => { }
+    },
+    cache: { provider }
+  });
+};
+
+const authorList = () =>
+  new SelectQueryBuilder(authors)
+    .select({ id: authors.columns.id, name: authors.columns.name })
+    .orderBy(authors.columns.id)
+    .cache('authors', '1h', { autoInvalidate: true });
+
+const postTitles = () =>
+  new SelectQueryBuilder(posts)
+    .select({ id: posts.columns.id, title: posts.columns.title })
+    .innerJoin(authors, eq(authors.columns.id, posts.columns.authorId))
+    .cache('post_titles', '1h', { autoInvalidate: true });
+
+describe('cache autoInvalidate (sqlite in-memory)', () => {
+  let db: sqlite3.Database;
+  let provider: MemoryCacheAdapter;
+  let orm: Orm;
+
+  beforeEach(async () => {
+    db = new sqlite3.Database(':memory:');
+    provider = new MemoryCacheAdapter();
+    orm = createOrm(db, provider);
+    await executeSchemaSqlFor(orm.createSession().executor, new SQLiteSchemaDialect(), authors, posts);
+    await runSql(db, 'INSERT INTO cache_authors (id, name) VALUES (?, ?), (?, ?)', [1, 'Ada', 2, 'Linus']);
+    await runSql(db, 'INSERT INTO cache_posts (id, authorId, title) VALUES (?, ?, ?)', [1, 1, 'Engines']);
+  });
+
+  afterEach(async () => {
+    await orm.dispose();
+    await closeDb(db);
+  });
+
+  it('collects the tables read by joins and subqueries', () => {
+    const ast = new SelectQueryBuilder(posts)
+      .select({ title: posts.columns.title })
+      .innerJoin(authors, eq(authors.columns.id, posts.columns.authorId))
+      .whereExists(new SelectQueryBuilder(defineTable('cache_tags', { id: col.int() })).select({ id: col.int() }))
+      .getAST();
+
+    expect(collectQueryTables(ast).sort()).toEqual(['cache_authors', 'cache_posts', 'cache_tags']);
+    expect(tableCacheTag('cache_posts')).toBe('table:cache_posts');
+  });
+
+  it('invalidates cached queries after a unit of work commit', async () => {
+    const session = orm.createSession();
+    await authorList().execute(session);
+    await postTitles().execute(session);
+    await session.commit();
+    expect(provider.getStats().size).toBe(2);
+
+    session.trackNew(authors, { id: 3, name: 'Grace' });
+    await session.commit();
+
+    expect(provider.getStats().size).toBe(0);
+    const rows = await authorList().execute(session);
+    expect(rows.map(row => row.name)).toEqual(['Ada', 'Linus', 'Grace']);
+  });
+
+  it('keeps entries for untouched tables and without autoInvalidate', async () => {
+    const session = orm.createSession();
+    await authorList().execute(session);
+    await postTitles().execute(session);
+    await new SelectQueryBuilder(posts).select({ id: posts.columns.id }).cache('plain_posts', '1h').execute(session);
+
+    await new UpdateQueryBuilder(posts).set({ title: 'Compilers' }).where(eq(posts.columns.id, 1)).execute(session);
+
+    expect(await provider.has('authors')).toBe(true);
+    expect(await provider.has('post_titles')).toBe(false);
+    expect(await provider.has('plain_posts')).toBe(true);
+    const rows = await postTitles().execute(orm.createSession());
+    expect(rows.map(row => row.title)).toEqual(['Compilers']);
+  });
+
+  it('waits for the transaction to commit before invalidating', async () => {
+    const session = orm.createSession();
+    await authorList().execute(session);
+
+    await session.transaction(async tx => {
+      await new DeleteQueryBuilder(authors).where(eq(authors.columns.id, 2)).execute(tx);
+      expect(await provider.has('authors')).toBe(true);
+    });
+
+    expect(await provider.has('authors')).toBe(false);
+    expect((await authorList().execute(session)).map(row => row.name)).toEqual(['Ada']);
+  });
+
+  it('keeps entries intact when the transaction rolls back', async () => {
+    const session = orm.createSession();
+    await authorList().execute(session);
+
+    await expect(
+      session.transaction(async tx => {
+        await new UpdateQueryBuilder(authors).set({ name: 'Nobody' }).execute(tx);
+        tx.trackNew(authors, { id: 4, name: 'Barbara' });
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(await provider.has('authors')).toBe(true);
+    await session.transaction(async () => undefined);
+    expect(await provider.has('authors')).toBe(true);
+  });
+
+  it('invalidates after bulk writes', async () => {
+    const session = orm.createSession();
+    await postTitles().execute(session);
+
+    await bulkInsert(session, posts, [
+      { id: 2, authorId: 2, title: 'Kernels' },
+      { id: 3, authorId: 2, title: 'Git' }
+    ], { chunkSize: 1 });
+
+    expect(await provider.has('post_titles')).toBe(false);
+    expect(await postTitles().execute(session)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { col } from '../../src/schema/column-types.js';
+import type { HasManyCollection } from '../../src/schema/types.js';
+import {
+  Column,
+  Entity,
+  HasMany,
+  PrimaryKey,
+  bootstrapEntities,
+  getTableDefFromEntity,
+  selectFromEntity
+} from '../../src/decorators/index.js';
+import type { OrmSession } from '../../src/orm/orm-session.js';
+import type { FieldChange } from '../../src/orm/runtime-types.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { SQLiteSchemaDialect } from '../../src/core/ddl/dialects/sqlite-schema-dialect.js';
+import { createSqliteExecutor } from '../../src/core/execution/executors/sqlite-executor.js';
+import { closeDb, createSession, createSqliteClient, execSql } from './sqlite-helpers.ts';
+
+@Entity({ tableName: 'cs_authors' })
+class CsAuthor {
+  @PrimaryKey(col.int())
+  id!: number;
+
+  @Column(col.varchar(100))
+  name!: string;
+
+  @Column(col.varchar(100))
+  country!: string;
+
+  @HasMany({ target: () => CsBook, foreignKey: 'authorId' })
+  books!: HasManyCollection<CsBook>;
+}
+
+@Entity({ tableName: 'cs_books' })
+class CsBook {
+  @PrimaryKey(col.autoIncrement(col.int()))
+  id!: number;
+
+  @Column(col.int())
+  authorId!: number;
+
+  @Column(col.varchar(100))
+  title!: string;
+}
+
+describe('Change sets and dirty-field introspection e2e (sqlite memory)', () => {
+  const withSession = async (run: (session: OrmSession, db: sqlite3.Database) => Promise<void>) => {
+    bootstrapEntities();
+    const db = new sqlite3.Database(':memory:');
+    const session = createSession(createSqliteExecutor({
+      ...createSqliteClient(db),
+      beginTransaction: () => execSql(db, 'BEGIN'),
+      commitTransaction: () => execSql(db, 'COMMIT'),
+      rollbackTransaction: () => execSql(db, 'ROLLBACK')
+    }));
+    try {
+      await executeSchemaSqlFor(
+        session.executor,
+        new SQLiteSchemaDialect(),
+        getTableDefFromEntity(CsAuthor)!,
+        getTableDefFromEntity(CsBook)!
+      );
+      await execSql(db, `INSERT INTO cs_authors (id, name, country) VALUES (1, 'Ada', 'UK');`);
+      await run(session, db);
+    } finally {
+      await closeDb(db);
+    }
+  };
+
+  const loadAuthor = async (session: OrmSession): Promise<CsAuthor> => {
+    const [author] = await selectFromEntity(CsAuthor).includeLazy('books').execute(session);
+    return author;
+  };
+
+  it('reports column and pending relation changes and hands them to beforeUpdate', async () => {
+    await withSession(async session => {
+      const seen: FieldChange[][] = [];
+      session.registerTableHooks(CsAuthor, {
+        beforeUpdate(_ctx, _author, changes) {
+          seen.push(changes);
+        }
+      });
+      const author = await loadAuthor(session);
+      await author.books.load();
+      expect(session.isDirty(author)).toBe(false);
+
+      author.name = 'Grace';
+      const book = author.books.add({ title: 'Notes' });
+
+      expect(session.getChangeSet(author)).toEqual([
+        { field: 'name', from: 'Ada', to: 'Grace' },
+        { field: 'books', from: undefined, to: book, relationChange: 'add' }
+      ]);
+      expect(session.isDirty(author)).toBe(true);
+      expect(session.isDirty(author, 'name')).toBe(true);
+      expect(session.isDirty(author, 'books')).toBe(true);
+      expect(session.isDirty(author, 'country')).toBe(false);
+
+      await session.commit();
+
+      expect(seen).toHaveLength(1);
+      expect(seen[0].map(change => [change.field, change.relationChange])).toEqual([
+        ['name', undefined],
+        ['books', 'add']
+      ]);
+      expect(session.getChangeSet(author)).toEqual([]);
+      expect(session.isDirty(author)).toBe(false);
+    });
+  });
+
+  it('reverts pending changes and refreshes entities from the database', async () => {
+    await withSession(async (session, db) => {
+      const author = await loadAuthor(session);
+      author.name = 'Grace';
+      author.country = 'US';
+      await session.remove(author);
+
+      session.revert(author);
+      expect([author.name, author.country]).toEqual(['Ada', 'UK']);
+      expect(session.isDirty(author)).toBe(false);
+      await session.commit();
+
+      await execSql(db, `UPDATE cs_authors SET name = 'Ada Lovelace' WHERE id = 1;`);
+      author.country = 'FR';
+      await session.refresh(author);
+      expect([author.name, author.country]).toEqual(['Ada Lovelace', 'UK']);
+      expect(session.isDirty(author)).toBe(false);
+
+      const fresh = new CsAuthor();
+      fresh.id = 2;
+      fresh.name = 'Linus';
+      session.trackNew(getTableDefFromEntity(CsAuthor)!, fresh);
+      expect(session.isDirty(fresh)).toBe(true);
+      expect(session.getChangeSet(fresh).map(change => change.field)).toEqual(['id', 'name']);
+      expect(() => session.revert(fresh)).toThrow('revert() requires an entity loaded or persisted by this session.');
+    });
+  });
+
+  it('stops flushing detached entities', async () => {
+    await withSession(async session => {
+      const author = await loadAuthor(session);
+      session.detach(author);
+      author.name = 'Grace';
+
+      expect(session.isDirty(author)).toBe(false);
+      expect(session.getChangeSet(author)).toEqual([]);
+      await session.commit();
+
+      const reloaded = await loadAuthor(session);
+      expect(reloaded).not.toBe(author);
+      expect(reloaded.name).toBe('Ada');
+      await expect(session.refresh(author)).rejects.toThrow('refresh() requires a persisted entity tracked by this session.');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { col } from '../../src/schema/column-types.js';
+import type { BelongsToReference, HasManyCollection } from '../../src/schema/types.js';
+import { clearEntityMetadata } from '../../src/orm/entity-metadata.js';
+import {
+  bootstrapEntities,
+  BelongsTo,
+  Column,
+  Entity,
+  HasMany,
+  PrimaryKey,
+  getTableDefFromEntity,
+  selectFromEntity
+} from '../../src/decorators/index.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { SQLiteSchemaDialect } from '../../src/core/ddl/dialects/sqlite-schema-dialect.js';
+import { closeDb, createSqliteSessionFromDb, runSql } from './sqlite-helpers.ts';
+
+const queryAll = <T extends Record<string, unknown>>(db: sqlite3.Database, sql: string): Promise<T[]> =>
+  new Promise<T[]>((resolve, reject) => {
+    db.all(sql, [], (err, rows) => (err ? reject(err) : resolve(rows as T[])));
+  });
+
+describe('composite primary keys e2e (sqlite in-memory)', () => {
+  beforeEach(() => {
+    clearEntityMetadata();
+  });
+
+  const setup = async () => {
+    @Entity({ tableName: 'order_lines' })
+    class OrderLine {
+      @PrimaryKey(col.int())
+      orderId!: number;
+
+      @PrimaryKey(col.int())
+      lineNo!: number;
+
+      @Column(col.varchar(64))
+      sku!: string;
+
+      @HasMany({ target: () => LineNote, foreignKey: ['orderId', 'lineNo'] })
+      notes!: HasManyCollection<LineNote>;
+    }
+
+    @Entity({ tableName: 'line_notes' })
+    class LineNote {
+      @PrimaryKey(col.autoIncrement(col.int()))
+      id!: number;
+
+      @Column(col.int())
+      orderId!: number;
+
+      @Column(col.int())
+      lineNo!: number;
+
+      @Column(col.varchar(255))
+      body!: string;
+
+      @BelongsTo({ target: () => OrderLine, foreignKey: ['orderId', 'lineNo'] })
+      line!: BelongsToReference<OrderLine>;
+    }
+
+    bootstrapEntities();
+
+    const db = new sqlite3.Database(':memory:');
+    const session = createSqliteSessionFromDb(db);
+    const lineTable = getTableDefFromEntity(OrderLine)!;
+    const noteTable = getTableDefFromEntity(LineNote)!;
+    await executeSchemaSqlFor(session.executor, new SQLiteSchemaDialect(), lineTable, noteTable);
+
+    await runSql(db, 'INSERT INTO order_lines (orderId, lineNo, sku) VALUES (?, ?, ?)', [1, 1, 'A']);
+    await runSql(db, 'INSERT INTO order_lines (orderId, lineNo, sku) VALUES (?, ?, ?)', [1, 2, 'B']);
+    await runSql(db, 'INSERT INTO order_lines (orderId, lineNo, sku) VALUES (?, ?, ?)', [2, 1, 'C']);
+    await runSql(db, 'INSERT INTO line_notes (orderId, lineNo, body) VALUES (?, ?, ?)', [1, 1, 'first']);
+    await runSql(db, 'INSERT INTO line_notes (orderId, lineNo, body) VALUES (?, ?, ?)', [1, 2, 'second']);
+    await runSql(db, 'INSERT INTO line_notes (orderId, lineNo, body) VALUES (?, ?, ?)', [1, 2, 'third']);
+
+    return { db, session, OrderLine, LineNote, lineTable };
+  };
+
+  it('finds entities by composite key through the identity map', async () => {
+    const { db, session, OrderLine } = await setup();
+    try {
+      const line = await session.find(OrderLine, { orderId: 1, lineNo: 2 });
+      expect(line?.sku).toBe('B');
+      expect(await session.find(OrderLine, { lineNo: 2, orderId: 1 })).toBe(line);
+      expect(await session.find(OrderLine, { orderId: 2, lineNo: 2 })).toBeNull();
+      await expect(session.find(OrderLine, 1)).rejects.toThrow(
+        'Primary key of "order_lines" requires values for: orderId, lineNo.'
+      );
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('updates and deletes rows matching every key column', async () => {
+    const { db, session, OrderLine } = await setup();
+    try {
+      const line = (await session.find(OrderLine, { orderId: 1, lineNo: 1 }))!;
+      line.sku = 'A2';
+      const other = (await session.find(OrderLine, { orderId: 2, lineNo: 1 }))!;
+      await session.remove(other);
+      await session.commit();
+
+      expect(await queryAll(db, 'SELECT orderId, lineNo, sku FROM order_lines ORDER BY orderId, lineNo')).toEqual([
+        { orderId: 1, lineNo: 1, sku: 'A2' },
+        { orderId: 1, lineNo: 2, sku: 'B' }
+      ]);
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('joins, hydrates and lazy-loads relations over composite foreign keys', async () => {
+    const { db, session, OrderLine, LineNote, lineTable } = await setup();
+    try {
+      const lines = await selectFromEntity(OrderLine)
+        .include('notes')
+        .orderBy(lineTable.columns.orderId)
+        .orderBy(lineTable.columns.lineNo)
+        .execute(session);
+      expect(lines.map(line => [line.sku, line.notes.getItems().map(note => note.body).sort()])).toEqual([
+        ['A', ['first']],
+        ['B', ['second', 'third']],
+        ['C', []]
+      ]);
+
+      const lazySession = createSqliteSessionFromDb(db);
+      const lazyLines = await selectFromEntity(OrderLine).includeLazy('notes').execute(lazySession);
+      const second = lazyLines.find(line => line.lineNo === 2)!;
+      expect((await second.notes.load()).map(note => note.body).sort()).toEqual(['second', 'third']);
+
+      const notes = await selectFromEntity(LineNote).select('id', 'body').includeLazy('line').execute(createSqliteSessionFromDb(db));
+      const parents = await Promise.all(notes.map(note => note.line.load()));
+      expect(parents.map(parent => parent?.sku)).toEqual(['A', 'B', 'B']);
+      expect(parents[1]).toBe(parents[2]);
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('propagates composite keys to children added through a collection', async () => {
+    const { db, session, OrderLine } = await setup();
+    try {
+      const line = (await session.find(OrderLine, { orderId: 2, lineNo: 1 }))!;
+      line.notes.add({ body: 'added' });
+      await session.commit();
+
+      expect(await queryAll(db, "SELECT orderId, lineNo FROM line_notes WHERE body = 'added'")).toEqual([
+        { orderId: 2, lineNo: 1 }
+      ]);
+    } finally {
+      await closeDb(db);
+    }
+  });
+});
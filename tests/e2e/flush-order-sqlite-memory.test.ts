@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import { belongsTo, hasMany } from '../../src/schema/relation.js';
+import type { OrmSession } from '../../src/orm/orm-session.js';
+import { createSqliteExecutor } from '../../src/core/execution/executors/sqlite-executor.js';
+import { closeDb, createSession, createSqliteClient, execSql } from './sqlite-helpers.ts';
+
+const customers = defineTable('fo_customers', {
+  id: col.primaryKey(col.autoIncrement(col.int())),
+  name: col.varchar(100)
+});
+
+const orders = defineTable('fo_orders', {
+  id: col.primaryKey(col.autoIncrement(col.int())),
+  customer_id: col.int(),
+  total: col.int()
+});
+
+const lines = defineTable('fo_lines', {
+  id: col.primaryKey(col.autoIncrement(col.int())),
+  order_id: col.references(col.int(), { table: 'fo_orders', column: 'id' }),
+  sku: col.varchar(20)
+});
+
+const coupons = defineTable('fo_coupons', {
+  id: col.primaryKey(col.autoIncrement(col.int())),
+  code: col.unique(col.varchar(20)),
+  percent: col.int()
+});
+
+customers.relations = { orders: hasMany(orders, 'customer_id') };
+orders.relations = { customer: belongsTo(customers, 'customer_id') };
+
+describe('Unit of Work flush ordering e2e (sqlite memory)', () => {
+  const withSession = async (run: (session: OrmSession, statements: string[]) => Promise<void>) => {
+    const db = new sqlite3.Database(':memory:');
+    const session = createSession(createSqliteExecutor({
+      ...createSqliteClient(db),
+      beginTransaction: () => execSql(db, 'BEGIN'),
+      commitTransaction: () => execSql(db, 'COMMIT'),
+      rollbackTransaction: () => execSql(db, 'ROLLBACK')
+    }));
+    const statements: string[] = [];
+    try {
+      await execSql(db, `
+        PRAGMA foreign_keys = ON;
+        CREATE TABLE fo_customers (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT);
+        CREATE TABLE fo_orders (id INTEGER PRIMARY KEY AUTOINCREMENT, customer_id INTEGER NOT NULL REFERENCES fo_customers(id), total INTEGER);
+        CREATE TABLE fo_lines (id INTEGER PRIMARY KEY AUTOINCREMENT, order_id INTEGER NOT NULL REFERENCES fo_orders(id), sku TEXT);
+        CREATE TABLE fo_coupons (id INTEGER PRIMARY KEY AUTOINCREMENT, code TEXT NOT NULL UNIQUE, percent INTEGER);
+      `);
+      session.orm.interceptors.use(async (ctx, next) => {
+        statements.push(ctx.sql);
+        return next();
+      });
+      await run(session, statements);
+    } finally {
+      await closeDb(db);
+    }
+  };
+
+  it('inserts parents first and batches same-table rows into one INSERT ... RETURNING', async () => {
+    await withSession(async (session, statements) => {
+      const line = { order_id: 1, sku: 'A-1' };
+      const order = { customer_id: 1, total: 30 };
+      const first = { id: 1, name: 'Ada' };
+      const second = { id: 2, name: 'Grace' };
+      session.trackNew(lines, line);
+      session.trackNew(orders, order);
+      session.trackNew(customers, first);
+      session.trackNew(customers, second);
+
+      await session.commit();
+
+      expect(statements).toEqual([
+        'INSERT INTO "fo_customers" ("id", "name") VALUES (?, ?), (?, ?) RETURNING "id" AS "id", "name" AS "name";',
+        expect.stringContaining('INSERT INTO "fo_orders"'),
+        expect.stringContaining('INSERT INTO "fo_lines"')
+      ]);
+      expect([first, second, order, line].map(row => (row as { id?: number }).id)).toEqual([1, 2, 1, 1]);
+      expect(session.getEntity(customers, 2)).toBe(second);
+    });
+  });
+
+  it('batches rows with generated keys and hands the keys out in VALUES order', async () => {
+    await withSession(async (session, statements) => {
+      const first = { name: 'Ada' };
+      const second = { name: 'Grace' };
+      session.trackNew(customers, first);
+      session.trackNew(customers, second);
+
+      await session.commit();
+
+      expect(statements).toEqual([
+        'INSERT INTO "fo_customers" ("name") VALUES (?), (?) RETURNING "id" AS "id", "name" AS "name";'
+      ]);
+      expect([first.name, second.name]).toEqual(['Ada', 'Grace']);
+      expect([(first as { id?: number }).id, (second as { id?: number }).id]).toEqual([1, 2]);
+      expect(session.getEntity(customers, 2)).toBe(second);
+    });
+  });
+
+  it('inserts thousands of new autoincrement rows in a few statements', async () => {
+    await withSession(async (session, statements) => {
+      const rows = Array.from({ length: 1200 }, (_, index) => ({ name: `customer-${index}` }));
+      for (const row of rows) session.trackNew(customers, row);
+
+      await session.commit();
+
+      expect(statements.filter(sql => sql.startsWith('INSERT'))).toHaveLength(3);
+      const stored = await session.executor.executeSql('SELECT id, name FROM fo_customers ORDER BY id');
+      const byId = new Map(stored[0].values.map(([id, name]) => [id, name]));
+      expect(rows.every(row => byId.get((row as { id?: number }).id) === row.name)).toBe(true);
+      expect(byId.size).toBe(1200);
+    });
+  });
+
+  it('deletes a removed row before inserting its replacement with the same unique key', async () => {
+    await withSession(async (session, statements) => {
+      const old = { code: 'WELCOME', percent: 10 };
+      session.trackNew(coupons, old);
+      await session.commit();
+
+      statements.length = 0;
+      const replacement = { code: 'WELCOME', percent: 15 };
+      await session.remove(old);
+      session.trackNew(coupons, replacement);
+      await session.commit();
+
+      expect(statements.map(sql => sql.split(' ')[0])).toEqual(['DELETE', 'INSERT']);
+      expect(session.getEntity(coupons, (replacement as { id?: number }).id!)).toBe(replacement);
+    });
+  });
+
+  it('deletes children before parents', async () => {
+    await withSession(async (session, statements) => {
+      const customer = { name: 'Ada' };
+      session.trackNew(customers, customer);
+      await session.commit();
+      const order = { customer_id: 1, total: 10 };
+      session.trackNew(orders, order);
+      await session.commit();
+      const line = { order_id: 1, sku: 'B-2' };
+      session.trackNew(lines, line);
+      await session.commit();
+
+      statements.length = 0;
+      await session.remove(customer);
+      await session.remove(order);
+      await session.remove(line);
+      await session.commit();
+
+      expect(statements.map(sql => sql.match(/DELETE FROM "(\w+)"/)?.[1])).toEqual([
+        'fo_lines',
+        'fo_orders',
+        'fo_customers'
+      ]);
+    });
+  });
+});
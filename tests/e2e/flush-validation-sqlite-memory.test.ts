@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { col } from '../../src/schema/column-types.js';
+import type { HasManyCollection } from '../../src/schema/types.js';
+import {
+  CEP,
+  Column,
+  Email,
+  Entity,
+  HasMany,
+  Length,
+  Lower,
+  PrimaryKey,
+  Trim,
+  bootstrapEntities,
+  getTableDefFromEntity,
+  selectFromEntity
+} from '../../src/decorators/index.js';
+import { Orm } from '../../src/orm/orm.js';
+import { OrmSession } from '../../src/orm/orm-session.js';
+import { EntityValidationError } from '../../src/orm/entity-validation.js';
+import { SqliteDialect } from '../../src/core/dialect/sqlite/index.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { SQLiteSchemaDialect } from '../../src/core/ddl/dialects/sqlite-schema-dialect.js';
+import { createSqliteExecutor } from '../../src/core/execution/executors/sqlite-executor.js';
+import { closeDb, createSqliteClient, execSql } from './sqlite-helpers.ts';
+
+@Entity({ tableName: 'fv_customers' })
+class FvCustomer {
+  @PrimaryKey(col.autoIncrement(col.int()))
+  id!: number;
+
+  @Trim()
+  @Length({ min: 2 })
+  @Column(col.varchar(100))
+  name!: string;
+
+  @Trim()
+  @Lower()
+  @Email()
+  @Column(col.varchar(100))
+  email!: string;
+
+  @HasMany({ target: () => FvAddress, foreignKey: 'customerId' })
+  addresses!: HasManyCollection<FvAddress>;
+}
+
+@Entity({ tableName: 'fv_addresses' })
+class FvAddress {
+  @PrimaryKey(col.autoIncrement(col.int()))
+  id!: number;
+
+  @Column(col.int())
+  customerId!: number;
+
+  @CEP()
+  @Column(col.varchar(9))
+  zip!: string;
+}
+
+const countRows = (db: sqlite3.Database, table: string): Promise<number> =>
+  new Promise((resolve, reject) => {
+    db.get(`SELECT COUNT(*) AS total FROM ${table}`, (err, row: { total: number }) =>
+      err ? reject(err) : resolve(row.total)
+    );
+  });
+
+describe('Flush validation e2e (sqlite memory)', () => {
+  const withSession = async (
+    run: (session: OrmSession, db: sqlite3.Database) => Promise<void>,
+    validation: ConstructorParameters<typeof Orm>[0]['validation'] = {}
+  ) => {
+    bootstrapEntities();
+    const db = new sqlite3.Database(':memory:');
+    const executor = createSqliteExecutor({
+      ...createSqliteClient(db),
+      beginTransaction: () => execSql(db, 'BEGIN'),
+      commitTransaction: () => execSql(db, 'COMMIT'),
+      rollbackTransaction: () => execSql(db, 'ROLLBACK')
+    });
+    const orm = new Orm({
+      dialect: new SqliteDialect(),
+      executorFactory: {
+        createExecutor: () => executor,
+        createTransactionalExecutor: () => executor,
+        dispose: async () => { }
+      },
+      validation
+    });
+    const session = new OrmSession({ orm, executor });
+    try {
+      await executeSchemaSqlFor(
+        session.executor,
+        new SQLiteSchemaDialect(),
+        getTableDefFromEntity(FvCustomer)!,
+        getTableDefFromEntity(FvAddress)!
+      );
+      await run(session, db);
+    } finally {
+      await closeDb(db);
+    }
+  };
+
+  it('sanitizes values before inserting a saved graph', async () => {
+    await withSession(async session => {
+      const customer = await session.saveGraph(FvCustomer, {
+        name: '  Ada  ',
+        email: ' ADA@Example.COM ',
+        addresses: [{ zip: '01001000' }]
+      });
+
+      expect([customer.name, customer.email]).toEqual(['Ada', 'ada@example.com']);
+      const [loaded] = await selectFromEntity(FvCustomer).include('addresses').execute(session);
+      expect(loaded.addresses.getItems().map(address => address.zip)).toEqual(['01001-000']);
+    });
+  });
+
+  it('collects every failure across the graph and writes nothing', async () => {
+    await withSession(async (session, db) => {
+      const failure = await session.saveGraph(FvCustomer, {
+        name: 'A',
+        email: 'not-an-email',
+        addresses: [{ zip: '01001000' }, { zip: '123' }]
+      }).catch((error: unknown) => error);
+
+      expect(failure).toBeInstanceOf(EntityValidationError);
+      expect((failure as EntityValidationError).failures.map(({ path, entityName }) => [path, entityName])).toEqual([
+        ['name', 'FvCustomer'],
+        ['email', 'FvCustomer'],
+        ['addresses[1].zip', 'FvAddress']
+      ]);
+      expect((failure as EntityValidationError).message).toContain('name: Value must be at least 2 characters long');
+      expect(await countRows(db, 'fv_customers')).toBe(0);
+      expect(await countRows(db, 'fv_addresses')).toBe(0);
+    });
+  });
+
+  it('validates updates and can be turned off per session', async () => {
+    await withSession(async (session, db) => {
+      await execSql(db, `INSERT INTO fv_customers (id, name, email) VALUES (1, 'Ada', 'ada@example.com');`);
+      const [customer] = await selectFromEntity(FvCustomer).execute(session);
+
+      customer.email = ' GRACE@EXAMPLE.COM';
+      await session.commit();
+      expect(customer.email).toBe('grace@example.com');
+
+      customer.email = 'broken';
+      await expect(session.commit()).rejects.toThrow('Entity validation failed: email: Value must be a valid email address');
+
+      const unchecked = session.orm.createSession({ validation: false });
+      const [other] = await selectFromEntity(FvCustomer).execute(unchecked);
+      other.email = 'broken';
+      await unchecked.commit();
+      expect(unchecked.validation).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import { countAll, eq, grouping, sum } from '../../src/core/ast/expression.js';
+import { selectFrom } from '../../src/query/index.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { PostgresSchemaDialect } from '../../src/core/ddl/dialects/postgres-schema-dialect.js';
+import { createPgliteServer, runSql, stopPgliteServer } from './pglite-helpers.js';
+
+const Sales = defineTable('grouping_sales_pg_e2e', {
+  id: col.primaryKey(col.int()),
+  region: col.varchar(32),
+  year: col.int(),
+  amount: col.int(),
+  refunded: col.boolean()
+});
+
+describe('grouping sets e2e (pglite / postgres)', () => {
+  it('returns ROLLUP subtotals with filtered aggregates', async () => {
+    const setup = await createPgliteServer();
+
+    try {
+      await executeSchemaSqlFor(setup.session.executor, new PostgresSchemaDialect(), Sales);
+      await runSql(
+        setup.db,
+        `INSERT INTO grouping_sales_pg_e2e (id, region, year, amount, refunded) VALUES
+          (1, 'north', 2023, 10, false), (2, 'north', 2024, 20, true), (3, 'south', 2024, 5, false);`
+      );
+
+      const rows = await selectFrom(Sales)
+        .select({
+          region: Sales.columns.region,
+          rolledUp: grouping(Sales.columns.region),
+          total: sum(Sales.columns.amount),
+          refunds: countAll().filter(eq(Sales.columns.refunded, true))
+        })
+        .groupByRollup(Sales.columns.region)
+        .orderBy(Sales.columns.region)
+        .execute(setup.session);
+
+      expect(rows.map(row => ({ ...row, total: Number(row.total), refunds: Number(row.refunds) }))).toEqual([
+        { region: 'north', rolledUp: 0, total: 30, refunds: 1 },
+        { region: 'south', rolledUp: 0, total: 5, refunds: 0 },
+        { region: null, rolledUp: 1, total: 35, refunds: 1 }
+      ]);
+    } finally {
+      await stopPgliteServer(setup);
+    }
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { col } from '../../src/schema/column-types.js';
+import type { HasManyCollection } from '../../src/schema/types.js';
+import {
+  Column,
+  Entity,
+  HasMany,
+  PrimaryKey,
+  bootstrapEntities,
+  getTableDefFromEntity,
+  selectFromEntity
+} from '../../src/decorators/index.js';
+import { OrmSession } from '../../src/orm/orm-session.js';
+import type { QueryContext } from '../../src/orm/interceptor-pipeline.js';
+import { bulkInsert } from '../../src/bulk/index.js';
+import { deleteFrom } from '../../src/query/index.js';
+import { eq } from '../../src/core/ast/expression.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { SQLiteSchemaDialect } from '../../src/core/ddl/dialects/sqlite-schema-dialect.js';
+import { createSqliteExecutor } from '../../src/core/execution/executors/sqlite-executor.js';
+import { closeDb, createSession, createSqliteClient, execSql } from './sqlite-helpers.ts';
+
+@Entity({ tableName: 'qc_authors' })
+class QcAuthor {
+  @PrimaryKey(col.int())
+  id!: number;
+
+  @Column(col.varchar(100))
+  name!: string;
+
+  @HasMany({ target: () => QcBook, foreignKey: 'authorId' })
+  books!: HasManyCollection<QcBook>;
+}
+
+@Entity({ tableName: 'qc_books' })
+class QcBook {
+  @PrimaryKey(col.int())
+  id!: number;
+
+  @Column(col.int())
+  authorId!: number;
+
+  @Column(col.varchar(100))
+  title!: string;
+}
+
+@Entity({ tableName: 'qc_notes', tenantColumn: 'tenantId', softDeleteColumn: 'deletedAt' })
+class QcNote {
+  @PrimaryKey(col.int())
+  id!: number;
+
+  @Column(col.int())
+  tenantId!: number;
+
+  @Column(col.varchar(100))
+  body!: string;
+
+  @Column(col.datetime())
+  deletedAt?: Date | null;
+}
+
+describe('Interceptor query context e2e (sqlite memory)', () => {
+  const withSession = async (run: (session: OrmSession, contexts: QueryContext[]) => Promise<void>) => {
+    bootstrapEntities();
+    const db = new sqlite3.Database(':memory:');
+    const base = createSession(createSqliteExecutor({
+      ...createSqliteClient(db),
+      beginTransaction: () => execSql(db, 'BEGIN'),
+      commitTransaction: () => execSql(db, 'COMMIT'),
+      rollbackTransaction: () => execSql(db, 'ROLLBACK')
+    }));
+    const session = new OrmSession({ orm: base.orm, executor: base.executor, tenantId: 7 });
+    const contexts: QueryContext[] = [];
+    try {
+      await executeSchemaSqlFor(
+        session.executor,
+        new SQLiteSchemaDialect(),
+        getTableDefFromEntity(QcAuthor)!,
+        getTableDefFromEntity(QcBook)!,
+        getTableDefFromEntity(QcNote)!
+      );
+      session.orm.interceptors.use(async (ctx, next) => {
+        contexts.push(ctx);
+        return next();
+      });
+      await run(session, contexts);
+    } finally {
+      await closeDb(db);
+    }
+  };
+
+  it('routes unit of work flushes through the pipeline with operation, tables, AST and session scope', async () => {
+    await withSession(async (session, contexts) => {
+      const author = new QcAuthor();
+      author.id = 1;
+      author.name = 'Ada';
+      session.trackNew(getTableDefFromEntity(QcAuthor)!, author);
+      await session.commit();
+
+      expect(contexts).toHaveLength(1);
+      const [insert] = contexts;
+      expect(insert).toMatchObject({
+        operation: 'insert',
+        tables: ['qc_authors'],
+        entityConstructor: QcAuthor,
+        tenantId: 7,
+        inTransaction: true
+      });
+      expect(insert.session).toBe(session);
+      expect(insert.ast?.type).toBe('InsertQuery');
+      expect(insert.sql).toContain('INSERT INTO "qc_authors"');
+      expect(insert.startedAt).toBeGreaterThan(0);
+      expect(insert.durationMs).toBeGreaterThanOrEqual(0);
+
+      contexts.length = 0;
+      await selectFromEntity(QcAuthor).where(eq(getTableDefFromEntity(QcAuthor)!.columns.id, 1)).execute(session);
+      author.name = 'Grace';
+      session.markDirty(author);
+      await session.commit();
+      await session.remove(author);
+      await session.commit();
+
+      expect(contexts.map(ctx => [ctx.operation, ctx.inTransaction, ctx.entityConstructor])).toEqual([
+        ['select', false, QcAuthor],
+        ['update', true, QcAuthor],
+        ['delete', true, QcAuthor]
+      ]);
+    });
+  });
+
+  it('covers lazy relation loads, bulk executors and DML builders', async () => {
+    await withSession(async (session, contexts) => {
+      const books = getTableDefFromEntity(QcBook)!;
+      await bulkInsert(session, getTableDefFromEntity(QcAuthor)!, [{ id: 1, name: 'Ada' }]);
+      await bulkInsert(session, books, [
+        { id: 10, authorId: 1, title: 'Notes' },
+        { id: 11, authorId: 1, title: 'Letters' }
+      ]);
+      const [author] = await selectFromEntity(QcAuthor).includeLazy('books').execute(session);
+      expect((await author.books.load()).map(book => book.title).sort()).toEqual(['Letters', 'Notes']);
+      await deleteFrom(books).where(eq(books.columns.id, 11)).execute(session);
+
+      expect(contexts.map(ctx => [ctx.operation, ctx.tables, ctx.inTransaction])).toEqual([
+        ['insert', ['qc_authors'], true],
+        ['insert', ['qc_books'], true],
+        ['select', ['qc_authors'], false],
+        ['select', ['qc_books'], false],
+        ['delete', ['qc_books'], false]
+      ]);
+      expect(contexts.every(ctx => ctx.session === session && ctx.tenantId === 7)).toBe(true);
+    });
+  });
+
+  it('hands interceptors the tenant-scoped AST and reports soft deletes as updates', async () => {
+    await withSession(async (session, contexts) => {
+      const notes = getTableDefFromEntity(QcNote)!;
+      contexts.length = 0;
+
+      await selectFromEntity(QcNote).where(eq(notes.columns.id, 1)).execute(session);
+      await deleteFrom(notes).where(eq(notes.columns.id, 1)).execute(session);
+
+      const [select, softDelete] = contexts;
+      expect(select.sql).toContain('"qc_notes"."tenantId" = ?');
+      expect(select.ast).toMatchObject({
+        type: 'SelectQuery',
+        where: { operator: 'AND', operands: [{ operator: 'AND' }, { left: { name: 'tenantId' }, right: { value: 7 } }] }
+      });
+      expect(softDelete).toMatchObject({ operation: 'update', tables: ['qc_notes'] });
+      expect(softDelete.sql).toMatch(/^UPDATE "qc_notes" SET "deletedAt" = \?/);
+      expect(softDelete.ast).toMatchObject({
+        type: 'UpdateQuery',
+        set: [{ column: { name: 'deletedAt' } }],
+        where: { operator: 'AND', operands: [{ operator: 'AND' }, { left: { name: 'tenantId' }, right: { value: 7 } }] }
+      });
+    });
+  });
+
+  it('lets interceptors block statements before they reach the database', async () => {
+    await withSession(async session => {
+      session.orm.interceptors.use(async (ctx, next) => {
+        if (ctx.operation === 'delete' && ctx.tables.includes('qc_authors')) {
+          throw new Error('deletes on qc_authors are blocked');
+        }
+        return next();
+      });
+      const author = new QcAuthor();
+      author.id = 2;
+      author.name = 'Linus';
+      session.trackNew(getTableDefFromEntity(QcAuthor)!, author);
+      await session.commit();
+
+      await session.remove(author);
+      await expect(session.commit()).rejects.toThrow('deletes on qc_authors are blocked');
+      const remaining = await selectFromEntity(QcAuthor).execute(session);
+      expect(remaining.map(row => row.id)).toEqual([2]);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import { eq } from '../../src/core/ast/expression.js';
+import { mergeInto, selectFrom } from '../../src/query/index.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { PostgresSchemaDialect } from '../../src/core/ddl/dialects/postgres-schema-dialect.js';
+import { createPgliteServer, runSql, stopPgliteServer } from './pglite-helpers.js';
+
+const Products = defineTable('merge_products_pg_e2e', {
+  id: col.primaryKey(col.int()),
+  name: col.varchar(255),
+  stock: col.int()
+});
+
+const Incoming = defineTable('merge_incoming_pg_e2e', {
+  id: col.primaryKey(col.int()),
+  name: col.varchar(255),
+  stock: col.int(),
+  discontinued: col.boolean()
+});
+
+describe('MERGE e2e (pglite / postgres)', () => {
+  it('updates, deletes and inserts rows in one statement', async () => {
+    const setup = await createPgliteServer();
+
+    try {
+      await executeSchemaSqlFor(setup.session.executor, new PostgresSchemaDialect(), Products, Incoming);
+      await runSql(setup.db, `INSERT INTO merge_products_pg_e2e (id, name, stock) VALUES (1, 'Lamp', 5), (2, 'Desk', 1);`);
+      await runSql(
+        setup.db,
+        `INSERT INTO merge_incoming_pg_e2e (id, name, stock, discontinued) VALUES
+          (1, 'Lamp v2', 8, false), (2, 'Desk', 0, true), (3, 'Chair', 4, false);`
+      );
+
+      const [result] = await mergeInto(Products)
+        .using(Incoming)
+        .on(eq(Products.columns.id, Incoming.columns.id))
+        .whenMatched(eq(Incoming.columns.discontinued, true)).delete()
+        .whenMatched().update({ name: Incoming.columns.name, stock: Incoming.columns.stock })
+        .whenNotMatched().insert({ id: Incoming.columns.id, name: Incoming.columns.name, stock: Incoming.columns.stock })
+        .returning(Products.columns.id)
+        .execute(setup.session);
+
+      expect(result.values.map(row => row[0]).sort()).toEqual([1, 2, 3]);
+
+      const rows = await selectFrom(Products)
+        .select({ id: Products.columns.id, name: Products.columns.name, stock: Products.columns.stock })
+        .orderBy(Products.columns.id)
+        .execute(setup.session);
+      expect(rows).toEqual([
+        { id: 1, name: 'Lamp v2', stock: 8 },
+        { id: 3, name: 'Chair', stock: 4 }
+      ]);
+    } finally {
+      await stopPgliteServer(setup);
+    }
+  });
+});
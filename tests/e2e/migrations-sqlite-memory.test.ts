@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import { diffSchema } from '../../src/core/ddl/schema-diff.js';
+import { introspectSchema } from '../../src/core/ddl/schema-introspect.js';
+import { SQLiteSchemaDialect } from '../../src/core/ddl/dialects/sqlite-schema-dialect.js';
+import { createSqliteExecutor } from '../../src/core/execution/executors/sqlite-executor.js';
+import {
+  IrreversibleMigrationError,
+  MigrationChecksumError,
+  Migrator,
+  generateMigration,
+  parseMigrationFile,
+  type Migration
+} from '../../src/core/ddl/migrations/index.js';
+import { closeDb, createSqliteClient } from './sqlite-helpers.ts';
+
+const queryAll = <T extends Record<string, unknown>>(db: sqlite3.Database, sql: string): Promise<T[]> =>
+  new Promise<T[]>((resolve, reject) => {
+    db.all(sql, [], (err, rows) => (err ? reject(err) : resolve(rows as T[])));
+  });
+
+const createExecutor = (db: sqlite3.Database) => {
+  const client = createSqliteClient(db);
+  return createSqliteExecutor({
+    ...client,
+    beginTransaction: async () => { await client.all('BEGIN'); },
+    commitTransaction: async () => { await client.all('COMMIT'); },
+    rollbackTransaction: async () => { await client.all('ROLLBACK'); }
+  });
+};
+
+const tableNames = async (db: sqlite3.Database): Promise<string[]> =>
+  (await queryAll<{ name: string }>(db, "SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name"))
+    .map(row => row.name);
+
+const dialect = new SQLiteSchemaDialect();
+
+const migrations: Migration[] = [
+  {
+    version: '20240101000000',
+    name: 'create_users',
+    up: ['CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);'],
+    down: ['DROP TABLE users;']
+  },
+  {
+    version: '20240102000000',
+    name: 'create_posts',
+    up: ['CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER);'],
+    down: ['DROP TABLE posts;']
+  }
+];
+
+describe('versioned migrations e2e (sqlite in-memory)', () => {
+  it('generates up/down migration files from a schema plan', async () => {
+    const db = new sqlite3.Database(':memory:');
+    try {
+      const executor = createExecutor(db);
+      const users = defineTable('users', {
+        id: col.primaryKey(col.int()),
+        email: col.varchar(255)
+      });
+
+      const plan = diffSchema([users], await introspectSchema(executor, 'sqlite'), dialect);
+      const generated = generateMigration(plan, { name: 'Create users', date: new Date(Date.UTC(2024, 0, 31, 12, 30, 5)) });
+
+      expect(generated.fileName).toBe('20240131123005_create_users.sql');
+      expect(generated.down).toEqual(['DROP TABLE IF EXISTS "users";']);
+
+      const parsed = parseMigrationFile(generated.fileName, generated.contents);
+      expect(parsed).toEqual({
+        version: '20240131123005',
+        name: 'create_users',
+        up: generated.up,
+        down: generated.down
+      });
+
+      await new Migrator(executor, dialect, [parsed]).up();
+      expect(await tableNames(db)).toEqual(['metal_migrations', 'users']);
+
+      const extended = defineTable('users', {
+        id: col.primaryKey(col.int()),
+        email: col.varchar(255),
+        name: col.varchar(255)
+      }, {}, { indexes: [{ name: 'idx_users_email', columns: ['email'] }] });
+      const next = generateMigration(
+        diffSchema([extended], await introspectSchema(executor, 'sqlite', { excludeTables: ['metal_migrations'] }), dialect),
+        { name: 'add user name', version: '20240201000000' }
+      );
+
+      expect(next.down).toEqual(['DROP INDEX IF EXISTS "idx_users_email";']);
+      expect(next.warnings).toEqual([
+        'Add column name to users cannot be reverted automatically; complete the down migration by hand.'
+      ]);
+      expect(next.irreversible).toEqual(['Add column name to users']);
+      expect(next.contents).toContain('-- irreversible: Add column name to users');
+
+      const parsedNext = parseMigrationFile(next.fileName, next.contents);
+      expect(parsedNext.down).toEqual(next.down);
+      expect(parsedNext.irreversible).toEqual(next.irreversible);
+
+      const migrator = new Migrator(executor, dialect, [parsed, parsedNext]);
+      await migrator.up();
+      await expect(migrator.down()).rejects.toBeInstanceOf(IrreversibleMigrationError);
+      await expect(migrator.to('0')).rejects.toThrow('Migration 20240201000000 cannot be reverted: Add column name to users.');
+      expect((await migrator.status()).map(status => status.state)).toEqual(['applied', 'applied']);
+      expect(await tableNames(db)).toEqual(['metal_migrations', 'users']);
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('applies, reports and reverts migrations with up, down, status and to', async () => {
+    const db = new sqlite3.Database(':memory:');
+    try {
+      const migrator = new Migrator(createExecutor(db), dialect, migrations);
+
+      expect((await migrator.status()).map(status => status.state)).toEqual(['pending', 'pending']);
+      expect((await migrator.up(1)).map(migration => migration.name)).toEqual(['create_users']);
+      expect(await tableNames(db)).toEqual(['metal_migrations', 'users']);
+
+      await migrator.up();
+      const statuses = await migrator.status();
+      expect(statuses.map(status => status.state)).toEqual(['applied', 'applied']);
+      expect(statuses[0].appliedAt).toBeDefined();
+
+      expect((await migrator.down()).map(migration => migration.name)).toEqual(['create_posts']);
+      expect(await tableNames(db)).toEqual(['metal_migrations', 'users']);
+
+      await migrator.to('20240102000000');
+      expect(await tableNames(db)).toEqual(['metal_migrations', 'posts', 'users']);
+
+      expect((await migrator.to('0')).map(migration => migration.name)).toEqual(['create_posts', 'create_users']);
+      expect(await tableNames(db)).toEqual(['metal_migrations']);
+      await expect(migrator.to('20990101000000')).rejects.toThrow('Unknown migration version "20990101000000".');
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('refuses to run when an applied migration was edited', async () => {
+    const db = new sqlite3.Database(':memory:');
+    try {
+      const executor = createExecutor(db);
+      await new Migrator(executor, dialect, migrations).up();
+
+      const edited = [{ ...migrations[0], up: ['CREATE TABLE users (id INTEGER PRIMARY KEY);'] }, migrations[1]];
+      const migrator = new Migrator(executor, dialect, edited);
+      expect((await migrator.status())[0].checksumMismatch).toBe(true);
+      await expect(migrator.down()).rejects.toBeInstanceOf(MigrationChecksumError);
+      await expect(migrator.up()).rejects.toThrow('Applied migration(s) 20240101000000 changed after they ran');
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('rolls back a failing migration inside its transaction', async () => {
+    const db = new sqlite3.Database(':memory:');
+    try {
+      const migrator = new Migrator(createExecutor(db), dialect, [
+        {
+          version: '20240103000000',
+          name: 'broken',
+          up: ['CREATE TABLE tags (id INTEGER PRIMARY KEY);', 'INSERT INTO missing_table VALUES (1);'],
+          down: ['DROP TABLE tags;']
+        }
+      ]);
+
+      await expect(migrator.up()).rejects.toThrow(/missing_table/);
+      expect(await tableNames(db)).toEqual(['metal_migrations']);
+      expect((await migrator.status())[0].state).toBe('pending');
+    } finally {
+      await closeDb(db);
+    }
+  });
+});
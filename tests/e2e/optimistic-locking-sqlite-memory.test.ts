@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { clearEntityMetadata } from '../../src/orm/entity-metadata.js';
+import { bootstrapEntities } from '../../src/decorators/bootstrap.js';
+import { Entity } from '../../src/decorators/entity.js';
+import { Column, PrimaryKey, Version } from '../../src/decorators/column-decorator.js';
+import { getTableDefFromEntity } from '../../src/decorators/index.js';
+import { col } from '../../src/schema/column-types.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { SQLiteSchemaDialect } from '../../src/core/ddl/dialects/sqlite-schema-dialect.js';
+import { OptimisticLockError } from '../../src/orm/optimistic-lock-error.js';
+import { closeDb, createSqliteSessionFromDb } from './sqlite-helpers.ts';
+
+const queryAll = <T extends Record<string, unknown>>(
+  db: sqlite3.Database,
+  sql: string,
+  params: unknown[] = []
+): Promise<T[]> =>
+  new Promise<T[]>((resolve, reject) => {
+    db.all(sql, params, (err, rows) => (err ? reject(err) : resolve(rows as T[])));
+  });
+
+describe('optimistic locking e2e (sqlite in-memory)', () => {
+  beforeEach(() => {
+    clearEntityMetadata();
+  });
+
+  const setup = async () => {
+    @Entity()
+    class Document {
+      @PrimaryKey(col.autoIncrement(col.int()))
+      id!: number;
+
+      @Column(col.varchar(255))
+      title!: string;
+
+      @Version()
+      version!: number;
+    }
+
+    bootstrapEntities();
+
+    const db = new sqlite3.Database(':memory:');
+    const bootstrapSession = createSqliteSessionFromDb(db);
+    await executeSchemaSqlFor(
+      bootstrapSession.executor,
+      new SQLiteSchemaDialect(),
+      getTableDefFromEntity(Document)!
+    );
+
+    const doc = new Document();
+    doc.title = 'Draft';
+    await bootstrapSession.persist(doc);
+    await bootstrapSession.commit();
+
+    return { db, Document, id: doc.id, initialVersion: doc.version };
+  };
+
+  it('initializes and bumps the version column on insert and update', async () => {
+    const { db, Document, id, initialVersion } = await setup();
+    try {
+      expect(initialVersion).toBe(1);
+
+      const session = createSqliteSessionFromDb(db);
+      const doc = (await session.find(Document, id))!;
+      doc.title = 'Reviewed';
+      await session.commit();
+
+      expect(doc.version).toBe(2);
+      const rows = await queryAll<{ title: string; version: number }>(db, 'SELECT title, version FROM documents');
+      expect(rows).toEqual([{ title: 'Reviewed', version: 2 }]);
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('throws OptimisticLockError when a concurrent writer already bumped the version', async () => {
+    const { db, Document, id } = await setup();
+    try {
+      const first = createSqliteSessionFromDb(db);
+      const second = createSqliteSessionFromDb(db);
+      const mine = (await first.find(Document, id))!;
+      const theirs = (await second.find(Document, id))!;
+
+      theirs.title = 'Theirs';
+      await second.commit();
+
+      mine.title = 'Mine';
+      const error = await first.commit().catch(err => err);
+      expect(error).toBeInstanceOf(OptimisticLockError);
+      expect(error).toMatchObject({ table: 'documents', primaryKey: id, expectedVersion: 1 });
+
+      const rows = await queryAll<{ title: string; version: number }>(db, 'SELECT title, version FROM documents');
+      expect(rows).toEqual([{ title: 'Theirs', version: 2 }]);
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('guards deletes with the loaded version', async () => {
+    const { db, Document, id } = await setup();
+    try {
+      const first = createSqliteSessionFromDb(db);
+      const second = createSqliteSessionFromDb(db);
+      const stale = (await first.find(Document, id))!;
+      const fresh = (await second.find(Document, id))!;
+
+      fresh.title = 'Edited';
+      await second.commit();
+
+      first.remove(stale);
+      await expect(first.commit()).rejects.toBeInstanceOf(OptimisticLockError);
+      expect(await queryAll(db, 'SELECT id FROM documents')).toHaveLength(1);
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('uses the version sent in a patchGraph payload as the expected version', async () => {
+    const { db, Document, id } = await setup();
+    try {
+      const session = createSqliteSessionFromDb(db);
+      const patched = await session.patchGraph(Document, { id, title: 'Patched', version: 1 });
+      expect(patched?.version).toBe(2);
+
+      const staleSession = createSqliteSessionFromDb(db);
+      await expect(
+        staleSession.patchGraph(Document, { id, title: 'Stale', version: 1 })
+      ).rejects.toBeInstanceOf(OptimisticLockError);
+
+      const rows = await queryAll<{ title: string; version: number }>(db, 'SELECT title, version FROM documents');
+      expect(rows).toEqual([{ title: 'Patched', version: 2 }]);
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('stores timestamp versions in the column format and keeps them increasing', async () => {
+    @Entity({ tableName: 'stamped_documents' })
+    class StampedDocument {
+      @PrimaryKey(col.autoIncrement(col.int()))
+      id!: number;
+
+      @Column(col.varchar(255))
+      title!: string;
+
+      @Version(col.datetime())
+      version!: string;
+    }
+
+    bootstrapEntities();
+    const db = new sqlite3.Database(':memory:');
+    try {
+      const session = createSqliteSessionFromDb(db);
+      await executeSchemaSqlFor(session.executor, new SQLiteSchemaDialect(), getTableDefFromEntity(StampedDocument)!);
+
+      const draft = new StampedDocument();
+      draft.title = 'Draft';
+      await session.persist(draft);
+      await session.commit();
+      expect(draft.version).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/);
+
+      const writer = createSqliteSessionFromDb(db);
+      const doc = (await writer.find(StampedDocument, draft.id))!;
+      const staleSession = createSqliteSessionFromDb(db);
+      const stale = (await staleSession.find(StampedDocument, draft.id))!;
+      expect(doc.version).toBe(draft.version);
+
+      doc.title = 'Reviewed';
+      await writer.commit();
+      expect(doc.version > draft.version).toBe(true);
+
+      stale.title = 'Stale';
+      await expect(staleSession.commit()).rejects.toBeInstanceOf(OptimisticLockError);
+
+      const finalSession = createSqliteSessionFromDb(db);
+      const reloaded = (await finalSession.find(StampedDocument, draft.id))!;
+      reloaded.title = 'Final';
+      await finalSession.commit();
+      expect(reloaded.version > doc.version).toBe(true);
+
+      const rows = await queryAll<{ title: string; version: string }>(db, 'SELECT title, version FROM stamped_documents');
+      expect(rows).toEqual([{ title: 'Final', version: reloaded.version }]);
+    } finally {
+      await closeDb(db);
+    }
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, expect, it, vi } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import { Orm } from '../../src/orm/orm.js';
+import { SqliteDialect } from '../../src/core/dialect/sqlite/index.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { SQLiteSchemaDialect } from '../../src/core/ddl/dialects/sqlite-schema-dialect.js';
+import { createSqliteExecutor } from '../../src/core/execution/executors/sqlite-executor.js';
+import { addDomainEvent } from '../../src/orm/domain-event-bus.js';
+import { OutboxRelay, type OutboxMessage } from '../../src/orm/outbox-relay.js';
+import type { HasDomainEvents } from '../../src/orm/runtime-types.js';
+import { closeDb, createSqliteClient, execSql } from './sqlite-helpers.ts';
+
+type OrderEvent = { type: 'OrderPlaced'; orderId: number; total: number };
+
+const Orders = defineTable('outbox_orders', {
+  id: col.primaryKey(col.int()),
+  total: col.int()
+});
+
+type Order = { id: number; total: number } & HasDomainEvents<OrderEvent>;
+
+const placeOrder = (id: number, total: number): Order => {
+  const order: Order = { id, total };
+  addDomainEvent(order, { type: 'OrderPlaced', orderId: id, total });
+  return order;
+};
+
+describe('Transactional outbox e2e (sqlite memory)', () => {
+  const withOrm = async (run: (orm: Orm<OrderEvent>, db: sqlite3.Database) => Promise<void>) => {
+    const db = new sqlite3.Database(':memory:');
+    const executor = createSqliteExecutor({
+      ...createSqliteClient(db),
+      beginTransaction: () => execSql(db, 'BEGIN'),
+      commitTransaction: () => execSql(db, 'COMMIT'),
+      rollbackTransaction: () => execSql(db, 'ROLLBACK')
+    });
+    const orm = new Orm<OrderEvent>({
+      dialect: new SqliteDialect(),
+      executorFactory: {
+        createExecutor: () => executor,
+        createTransactionalExecutor: () => executor,
+        dispose: async () => { }
+      },
+      outbox: {}
+    });
+    try {
+      await executeSchemaSqlFor(executor, new SQLiteSchemaDialect(), Orders, orm.outbox!.table);
+      await run(orm, db);
+    } finally {
+      await closeDb(db);
+    }
+  };
+
+  const outboxRows = async (orm: Orm<OrderEvent>) => {
+    const session = orm.createSession();
+    const [result] = await session.executor.executeSql('SELECT * FROM "orm_outbox" ORDER BY "id"');
+    return result.values.map(values => Object.fromEntries(result.columns.map((name, i) => [name, values[i]])));
+  };
+
+  it('stores domain events in the outbox within the flush transaction instead of dispatching them', async () => {
+    await withOrm(async orm => {
+      const handler = vi.fn();
+      const session = orm.createSession();
+      session.registerDomainEventHandler('OrderPlaced', handler);
+      const order = placeOrder(1, 40);
+      session.trackNew(Orders, order);
+      await session.commit();
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(order.domainEvents).toEqual([]);
+      const [row] = await outboxRows(orm);
+      expect(row).toMatchObject({
+        event_type: 'OrderPlaced',
+        aggregate_type: 'outbox_orders',
+        aggregate_id: '1',
+        status: 'pending',
+        attempts: 0
+      });
+      expect(JSON.parse(row.payload as string)).toEqual({ type: 'OrderPlaced', orderId: 1, total: 40 });
+
+      await expect(orm.transaction(async tx => {
+        tx.trackNew(Orders, placeOrder(2, 10));
+        await tx.flush();
+        throw new Error('abort');
+      })).rejects.toThrow('abort');
+      expect(await outboxRows(orm)).toHaveLength(1);
+    });
+  });
+
+  it('relays events to the transport and handlers and marks them delivered', async () => {
+    await withOrm(async orm => {
+      await orm.transaction(async session => {
+        session.trackNew(Orders, placeOrder(1, 40));
+        session.trackNew(Orders, placeOrder(2, 15));
+      });
+      const published: OutboxMessage<OrderEvent>[] = [];
+      const totals: number[] = [];
+      const relay = new OutboxRelay(orm, {
+        skipLocked: false,
+        transport: { publish: async message => { published.push(message); } },
+        handlers: { OrderPlaced: [event => { totals.push(event.total); }] }
+      });
+
+      expect(await relay.runOnce()).toEqual({ claimed: 2, delivered: 2, retried: 0, failed: 0 });
+      expect(published.map(message => [message.event.orderId, message.aggregateId, message.attempts]))
+        .toEqual([[1, '1', 0], [2, '2', 0]]);
+      expect(totals).toEqual([40, 15]);
+      expect((await outboxRows(orm)).map(row => [row.status, row.attempts, row.locked_by])).toEqual([
+        ['delivered', 1, null],
+        ['delivered', 1, null]
+      ]);
+      expect(await relay.runOnce()).toEqual({ claimed: 0, delivered: 0, retried: 0, failed: 0 });
+    });
+  });
+
+  it('retries failed deliveries with backoff and marks exhausted rows failed', async () => {
+    await withOrm(async orm => {
+      await orm.transaction(async session => {
+        session.trackNew(Orders, placeOrder(1, 40));
+      });
+      const onError = vi.fn();
+      const relay = new OutboxRelay(orm, {
+        skipLocked: false,
+        transport: { publish: async () => { throw new Error('broker down'); } },
+        maxAttempts: 2,
+        retryDelayMs: () => 0,
+        onError
+      });
+
+      expect(await relay.runOnce()).toMatchObject({ claimed: 1, retried: 1 });
+      expect(await outboxRows(orm)).toEqual([
+        expect.objectContaining({ status: 'pending', attempts: 1, last_error: 'Error: broker down', locked_by: null })
+      ]);
+      expect(await relay.runOnce()).toMatchObject({ claimed: 1, failed: 1 });
+      expect((await outboxRows(orm))[0]).toMatchObject({ status: 'failed', attempts: 2 });
+      expect(await relay.runOnce()).toMatchObject({ claimed: 0 });
+      expect(onError).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('skips rows leased by another relay until the lease expires', async () => {
+    await withOrm(async (orm, db) => {
+      await orm.transaction(async session => {
+        session.trackNew(Orders, placeOrder(1, 40));
+      });
+      await execSql(db, `UPDATE "orm_outbox" SET "locked_by" = 'other:1', "locked_until" = ${Date.now() + 60_000}`);
+      const publish = vi.fn(async () => { });
+      const relay = new OutboxRelay(orm, { transport: { publish }, skipLocked: false });
+
+      expect(await relay.runOnce()).toMatchObject({ claimed: 0 });
+      await execSql(db, `UPDATE "orm_outbox" SET "locked_until" = ${Date.now() - 1}`);
+      expect(await relay.runOnce()).toMatchObject({ claimed: 1, delivered: 1 });
+      expect(publish).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('polls in the background until stopped', async () => {
+    await withOrm(async orm => {
+      const publish = vi.fn(async () => { });
+      const relay = new OutboxRelay(orm, { transport: { publish }, skipLocked: false, pollIntervalMs: 5 });
+      relay.start();
+      await orm.transaction(async session => {
+        session.trackNew(Orders, placeOrder(1, 40));
+      });
+      await vi.waitFor(() => expect(publish).toHaveBeenCalledTimes(1));
+      await relay.stop();
+    });
+  });
+});
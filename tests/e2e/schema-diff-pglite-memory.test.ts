@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import { diffSchema, synchronizeSchema } from '../../src/core/ddl/schema-diff.js';
+import { introspectSchema } from '../../src/core/ddl/schema-introspect.js';
+import { PostgresSchemaDialect } from '../../src/core/ddl/dialects/postgres-schema-dialect.js';
+import { createPgliteServer, stopPgliteServer, queryAll } from './pglite-helpers.js';
+
+const dialect = new PostgresSchemaDialect();
+
+const Authors = defineTable('authors', { id: col.primaryKey(col.notNull(col.int())) }, {}, { schema: 'public' });
+const Publishers = defineTable('publishers', { id: col.primaryKey(col.notNull(col.int())) }, {}, { schema: 'public' });
+
+const BooksV1 = defineTable('books', {
+  id: col.primaryKey(col.notNull(col.int())),
+  title: col.text(),
+  price: col.int(),
+  author_id: col.references(col.int(), { table: 'authors', column: 'id' })
+}, {}, {
+  schema: 'public',
+  checks: [{ name: 'chk_books_price', expression: 'price >= 0' }]
+});
+
+const BooksV2 = defineTable('catalog_books', {
+  id: col.primaryKey(col.notNull(col.int())),
+  name: col.renamedFrom(col.text(), 'title'),
+  price: col.int(),
+  author_id: col.references(col.int(), { table: 'publishers', column: 'id', name: 'fk_books_publisher' })
+}, {}, {
+  schema: 'public',
+  renamedFrom: 'books',
+  comment: 'Books on sale',
+  checks: [{ name: 'chk_books_price_max', expression: 'price < 10000' }]
+});
+
+describe('schema diff e2e (pglite in-memory)', () => {
+  it('renames, swaps constraints and comments, then converges', async () => {
+    const setup = await createPgliteServer();
+    const executor = setup.session.executor;
+
+    try {
+      await synchronizeSchema([Authors, Publishers, BooksV1], await introspectSchema(executor, 'postgres'), dialect, executor);
+      await setup.db.query('INSERT INTO authors (id) VALUES (1)');
+      await setup.db.query('INSERT INTO publishers (id) VALUES (1)');
+      await setup.db.query("INSERT INTO books (id, title, price, author_id) VALUES (1, 'Dune', 10, 1)");
+
+      const before = await introspectSchema(executor, 'postgres');
+      const books = before.tables.find(table => table.name === 'books')!;
+      expect(books.checks).toEqual([{ name: 'chk_books_price', expression: '((price >= 0))' }]);
+      expect(books.columns.find(column => column.name === 'author_id')?.references?.name).toBe('books_author_id_fkey');
+
+      const plan = await synchronizeSchema([Authors, Publishers, BooksV2], before, dialect, executor, {
+        allowDestructive: true
+      });
+      expect(plan.changes.map(change => change.kind)).toEqual([
+        'renameTable',
+        'renameColumn',
+        'dropForeignKey',
+        'addForeignKey',
+        'dropCheck',
+        'addCheck',
+        'alterComment'
+      ]);
+
+      const rows = await queryAll<{ name: string }>(setup.db, 'SELECT name FROM catalog_books');
+      expect(rows).toEqual([{ name: 'Dune' }]);
+
+      const after = await introspectSchema(executor, 'postgres');
+      expect(after.tables.find(table => table.name === 'catalog_books')?.comment).toBe('Books on sale');
+      expect(diffSchema([Authors, Publishers, BooksV2], after, dialect, { allowDestructive: true }).changes).toEqual([]);
+    } finally {
+      await stopPgliteServer(setup);
+    }
+  });
+});
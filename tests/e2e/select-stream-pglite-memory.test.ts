@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+
+import { gt } from '../../src/core/ast/expression.js';
+import { col } from '../../src/schema/column-types.js';
+import { defineTable, setRelations } from '../../src/schema/table.js';
+import { hasMany } from '../../src/schema/relation.js';
+import { selectFrom } from '../../src/query/index.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { PostgresSchemaDialect } from '../../src/core/ddl/dialects/postgres-schema-dialect.js';
+import { createPostgresExecutor } from '../../src/core/execution/executors/postgres-executor.js';
+import { createQueryLoggingExecutor } from '../../src/orm/query-logger.js';
+import { createSession, runSql } from './pglite-helpers.js';
+
+const Customers = defineTable('stream_customers_pg', {
+  id: col.primaryKey(col.int()),
+  name: col.varchar(255)
+});
+
+const Orders = defineTable('stream_orders_pg', {
+  id: col.primaryKey(col.int()),
+  customer_id: col.int(),
+  total: col.int()
+});
+
+setRelations(Customers, {
+  orders: hasMany(Orders, 'customer_id')
+});
+
+describe('Select streaming e2e (pglite, native cursor)', () => {
+  it('streams entities through a server-side cursor and hydrates them per batch', async () => {
+    const db = new PGlite();
+    const statements: string[] = [];
+    const logged: string[] = [];
+    const executor = createPostgresExecutor({
+      async query(sql, params) {
+        statements.push(sql);
+        return db.query(sql, params);
+      }
+    });
+    const session = createSession(createQueryLoggingExecutor(executor, entry => logged.push(entry.sql)));
+
+    try {
+      await executeSchemaSqlFor(session.executor, new PostgresSchemaDialect(), Customers, Orders);
+      for (let id = 1; id <= 5; id++) {
+        await runSql(db, `INSERT INTO ${Customers.name} (id, name) VALUES ($1, $2)`, [id, `Customer ${id}`]);
+        await runSql(db, `INSERT INTO ${Orders.name} (id, customer_id, total) VALUES ($1, $2, $3), ($4, $5, $6)`, [
+          id * 10, id, id * 100, id * 10 + 1, id, id * 100 + 1
+        ]);
+      }
+      statements.length = 0;
+      logged.length = 0;
+
+      const batches: Array<Array<[number, number[]]>> = [];
+      const query = selectFrom(Customers).include('orders', { columns: ['id', 'total'] });
+      for await (const batch of query.iterate(session, { batchSize: 2 })) {
+        batches.push(batch.map(customer => [customer.id, customer.orders.getItems().map(order => order.total)]));
+      }
+
+      expect(batches).toEqual([
+        [[1, [100, 101]], [2, [200, 201]]],
+        [[3, [300, 301]], [4, [400, 401]]],
+        [[5, [500, 501]]]
+      ]);
+      expect(logged).toHaveLength(1);
+      expect(logged[0]).toMatch(/ORDER BY "stream_customers_pg"\."id" ASC;$/);
+      expect(statements[0]).toBe('BEGIN');
+      expect(statements[1]).toMatch(/^DECLARE metal_cursor_1 NO SCROLL CURSOR FOR SELECT .* ASC$/);
+      expect(statements.filter(sql => sql.startsWith('FETCH FORWARD 2'))).toHaveLength(6);
+      expect(statements.slice(-2)).toEqual(['CLOSE metal_cursor_1', 'COMMIT']);
+
+      const names: string[] = [];
+      const plainQuery = selectFrom(Customers).select('name').where(gt(Customers.columns.id, 3));
+      for await (const row of plainQuery.streamPlain(session)) {
+        names.push(row.name as string);
+      }
+      expect(names).toEqual(['Customer 4', 'Customer 5']);
+    } finally {
+      await db.close();
+    }
+  });
+});
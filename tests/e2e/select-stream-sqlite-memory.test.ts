@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { gt } from '../../src/core/ast/expression.js';
+import { col } from '../../src/schema/column-types.js';
+import { defineTable, setRelations } from '../../src/schema/table.js';
+import { hasMany } from '../../src/schema/relation.js';
+import { selectFrom } from '../../src/query/index.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { SQLiteSchemaDialect } from '../../src/core/ddl/dialects/sqlite-schema-dialect.js';
+import { closeDb, createSqliteSessionFromDb, runSql } from './sqlite-helpers.ts';
+
+const Authors = defineTable('stream_authors', {
+  id: col.primaryKey(col.int()),
+  name: col.varchar(255),
+  score: col.int()
+});
+
+const Books = defineTable('stream_books', {
+  id: col.primaryKey(col.int()),
+  author_id: col.int(),
+  title: col.varchar(255)
+});
+
+setRelations(Authors, {
+  books: hasMany(Books, 'author_id')
+});
+
+describe('Select streaming e2e (sqlite memory, keyset fallback)', () => {
+  const seed = async (db: sqlite3.Database) => {
+    for (let id = 1; id <= 7; id++) {
+      // Duplicate scores force the primary key tie-breaker.
+      await runSql(db, `INSERT INTO ${Authors.name} (id, name, score) VALUES (?, ?, ?)`, [id, `Author ${id}`, id % 3]);
+      await runSql(db, `INSERT INTO ${Books.name} (id, author_id, title) VALUES (?, ?, ?)`, [id * 10, id, `Book ${id}a`]);
+      await runSql(db, `INSERT INTO ${Books.name} (id, author_id, title) VALUES (?, ?, ?)`, [id * 10 + 1, id, `Book ${id}b`]);
+    }
+  };
+
+  const withSession = async (run: (session: ReturnType<typeof createSqliteSessionFromDb>) => Promise<void>) => {
+    const db = new sqlite3.Database(':memory:');
+    const session = createSqliteSessionFromDb(db);
+    try {
+      await executeSchemaSqlFor(session.executor, new SQLiteSchemaDialect(), Authors, Books);
+      await seed(db);
+      await run(session);
+    } finally {
+      await closeDb(db);
+    }
+  };
+
+  it('iterates entity batches in keyset order with a primary key tie-breaker', async () => {
+    await withSession(async session => {
+      const batches: number[][] = [];
+      const query = selectFrom(Authors).orderBy(Authors.columns.score, 'DESC');
+
+      for await (const batch of query.iterate(session, { batchSize: 3 })) {
+        batches.push(batch.map(author => author.id));
+      }
+
+      expect(batches).toEqual([[2, 5, 1], [4, 7, 3], [6]]);
+    });
+  });
+
+  it('keeps joined to-many includes complete across batch boundaries', async () => {
+    await withSession(async session => {
+      const seen: Array<[number, string[]]> = [];
+      const query = selectFrom(Authors)
+        .include('books', { columns: ['id', 'title'] })
+        .where(gt(Authors.columns.id, 2));
+
+      for await (const author of query.stream(session, { batchSize: 2 })) {
+        seen.push([author.id, author.books.getItems().map(book => book.title)]);
+      }
+
+      expect(seen).toEqual([3, 4, 5, 6, 7].map(id => [id, [`Book ${id}a`, `Book ${id}b`]]));
+    });
+  });
+
+  it('streams plain rows and loads lazy relations per batch', async () => {
+    await withSession(async session => {
+      const names: string[] = [];
+      for await (const row of selectFrom(Authors).select('id', 'name').streamPlain(session, { batchSize: 4 })) {
+        names.push(row.name as string);
+      }
+      expect(names).toEqual([1, 2, 3, 4, 5, 6, 7].map(id => `Author ${id}`));
+
+      const titles: string[] = [];
+      for await (const author of selectFrom(Authors).includeLazy('books').stream(session, { batchSize: 3 })) {
+        const books = await author.books.load();
+        titles.push(books[0].title);
+      }
+      expect(titles).toEqual([1, 2, 3, 4, 5, 6, 7].map(id => `Book ${id}a`));
+    });
+  });
+
+  it('rejects invalid batch sizes and unorderable queries without native streaming', async () => {
+    await withSession(async session => {
+      await expect(selectFrom(Authors).stream(session, { batchSize: 0 }).next()).rejects.toThrow(
+        'stream: "batchSize" must be an integer >= 1'
+      );
+      await expect(
+        selectFrom(Authors).select('score').groupBy(Authors.columns.score).stream(session).next()
+      ).rejects.toThrow('require an executor with native streaming');
+    });
+  });
+});
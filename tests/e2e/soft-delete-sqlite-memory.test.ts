@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { eq } from '../../src/core/ast/expression.js';
+import { col } from '../../src/schema/column-types.js';
+import type { HasManyCollection } from '../../src/schema/types.js';
+import { clearEntityMetadata } from '../../src/orm/entity-metadata.js';
+import {
+  bootstrapEntities,
+  Column,
+  Entity,
+  HasMany,
+  PrimaryKey,
+  getTableDefFromEntity,
+  selectFromEntity
+} from '../../src/decorators/index.js';
+import { DeleteQueryBuilder } from '../../src/query-builder/delete.js';
+import { executeFilteredPaged } from '../../src/dto/index.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { SQLiteSchemaDialect } from '../../src/core/ddl/dialects/sqlite-schema-dialect.js';
+import { closeDb, createSqliteSessionFromDb, runSql } from './sqlite-helpers.ts';
+
+const queryAll = <T extends Record<string, unknown>>(db: sqlite3.Database, sql: string): Promise<T[]> =>
+  new Promise<T[]>((resolve, reject) => {
+    db.all(sql, [], (err, rows) => (err ? reject(err) : resolve(rows as T[])));
+  });
+
+describe('soft delete e2e (sqlite in-memory)', () => {
+  beforeEach(() => {
+    clearEntityMetadata();
+  });
+
+  const setup = async () => {
+    @Entity({ softDeleteColumn: 'deletedAt' })
+    class Customer {
+      @PrimaryKey(col.autoIncrement(col.int()))
+      id!: number;
+
+      @Column(col.varchar(255))
+      name!: string;
+
+      @Column(col.datetime())
+      deletedAt?: Date | null;
+
+      @HasMany({ target: () => Order, foreignKey: 'customerId' })
+      orders!: HasManyCollection<Order>;
+    }
+
+    @Entity({ softDeleteColumn: 'deletedAt' })
+    class Order {
+      @PrimaryKey(col.autoIncrement(col.int()))
+      id!: number;
+
+      @Column(col.int())
+      customerId!: number;
+
+      @Column(col.varchar(64))
+      code!: string;
+
+      @Column(col.datetime())
+      deletedAt?: Date | null;
+    }
+
+    bootstrapEntities();
+
+    const db = new sqlite3.Database(':memory:');
+    const session = createSqliteSessionFromDb(db);
+    const customerTable = getTableDefFromEntity(Customer)!;
+    const orderTable = getTableDefFromEntity(Order)!;
+    await executeSchemaSqlFor(session.executor, new SQLiteSchemaDialect(), customerTable, orderTable);
+
+    await runSql(db, 'INSERT INTO customers (id, name) VALUES (?, ?)', [1, 'Ada']);
+    await runSql(db, 'INSERT INTO customers (id, name, deletedAt) VALUES (?, ?, ?)', [2, 'Grace', '2024-01-01']);
+    await runSql(db, 'INSERT INTO orders (customerId, code) VALUES (?, ?)', [1, 'A-1']);
+    await runSql(db, 'INSERT INTO orders (customerId, code, deletedAt) VALUES (?, ?, ?)', [1, 'A-2', '2024-01-01']);
+
+    return { db, session, Customer, customerTable, orderTable };
+  };
+
+  it('hides soft-deleted rows from selects, includes and lazy loads', async () => {
+    const { db, session, Customer, customerTable } = await setup();
+    try {
+      const customers = await selectFromEntity(Customer).include('orders').execute(session);
+      expect(customers.map(c => c.name)).toEqual(['Ada']);
+      expect(customers[0].orders.getItems().map(o => o.code)).toEqual(['A-1']);
+
+      const lazy = await selectFromEntity(Customer).includeLazy('orders').execute(createSqliteSessionFromDb(db));
+      expect((await lazy[0].orders.load()).map(o => o.code)).toEqual(['A-1']);
+
+      const withTrashed = await selectFromEntity(Customer)
+        .withTrashed()
+        .orderBy(customerTable.columns.id)
+        .execute(createSqliteSessionFromDb(db));
+      expect(withTrashed.map(c => c.name)).toEqual(['Ada', 'Grace']);
+
+      const trashed = await selectFromEntity(Customer).onlyTrashed().execute(createSqliteSessionFromDb(db));
+      expect(trashed.map(c => c.name)).toEqual(['Grace']);
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('counts only live rows in executeFilteredPaged', async () => {
+    const { db, session, Customer } = await setup();
+    try {
+      const result = await executeFilteredPaged({
+        qb: selectFromEntity(Customer).select('id', 'name'),
+        tableOrEntity: Customer,
+        session,
+        page: 1,
+        pageSize: 10
+      });
+      expect(result.totalItems).toBe(1);
+      expect(result.items.map(item => (item as { name: string }).name)).toEqual(['Ada']);
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('turns session.remove() into an UPDATE and restore() clears it', async () => {
+    const { db, session, Customer, customerTable } = await setup();
+    try {
+      const ada = (await session.find(Customer, 1))!;
+      await session.remove(ada);
+      await session.commit();
+      expect(ada.deletedAt).toBeInstanceOf(Date);
+
+      const rows = await queryAll<{ id: number; deletedAt: unknown }>(db, 'SELECT id, deletedAt FROM customers ORDER BY id');
+      expect(rows).toHaveLength(2);
+      expect(rows[0].deletedAt).not.toBeNull();
+
+      const restoring = createSqliteSessionFromDb(db);
+      const [trashed] = await selectFromEntity(Customer)
+        .withTrashed()
+        .where(eq(customerTable.columns.id, 1))
+        .execute(restoring);
+      await restoring.restore(trashed);
+      await restoring.commit();
+
+      expect(await createSqliteSessionFromDb(db).find(Customer, 1)).not.toBeNull();
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('soft-deletes through DeleteQueryBuilder unless forceDelete() is used', async () => {
+    const { db, session, orderTable } = await setup();
+    try {
+      await new DeleteQueryBuilder(orderTable).where(eq(orderTable.columns.code, 'A-1')).execute(session);
+      expect(await queryAll(db, 'SELECT id FROM orders WHERE deletedAt IS NULL')).toEqual([]);
+      expect(await queryAll(db, 'SELECT id FROM orders')).toHaveLength(2);
+
+      await new DeleteQueryBuilder(orderTable).forceDelete().execute(session);
+      expect(await queryAll(db, 'SELECT id FROM orders')).toEqual([]);
+    } finally {
+      await closeDb(db);
+    }
+  });
+});
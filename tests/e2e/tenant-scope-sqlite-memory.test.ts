@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { eq } from '../../src/core/ast/expression.js';
+import { col } from '../../src/schema/column-types.js';
+import type { HasManyCollection } from '../../src/schema/types.js';
+import { clearEntityMetadata } from '../../src/orm/entity-metadata.js';
+import { OrmSession } from '../../src/orm/orm-session.js';
+import {
+  bootstrapEntities,
+  Column,
+  Entity,
+  HasMany,
+  PrimaryKey,
+  getTableDefFromEntity,
+  selectFromEntity
+} from '../../src/decorators/index.js';
+import { UpdateQueryBuilder } from '../../src/query-builder/update.js';
+import { DeleteQueryBuilder } from '../../src/query-builder/delete.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { SQLiteSchemaDialect } from '../../src/core/ddl/dialects/sqlite-schema-dialect.js';
+import { closeDb, createSqliteSessionFromDb, runSql } from './sqlite-helpers.ts';
+
+const queryAll = <T extends Record<string, unknown>>(
+  db: sqlite3.Database,
+  sql: string
+): Promise<T[]> =>
+  new Promise<T[]>((resolve, reject) => {
+    db.all(sql, [], (err, rows) => (err ? reject(err) : resolve(rows as T[])));
+  });
+
+describe('tenant scoping e2e (sqlite in-memory)', () => {
+  beforeEach(() => {
+    clearEntityMetadata();
+  });
+
+  const setup = async () => {
+    @Entity({ tenantColumn: 'tenantId' })
+    class Project {
+      @PrimaryKey(col.autoIncrement(col.int()))
+      id!: number;
+
+      @Column(col.varchar(255))
+      name!: string;
+
+      @Column(col.varchar(32))
+      tenantId!: string;
+
+      @HasMany({ target: () => Task, foreignKey: 'projectId' })
+      tasks!: HasManyCollection<Task>;
+    }
+
+    @Entity({ tenantColumn: 'tenantId' })
+    class Task {
+      @PrimaryKey(col.autoIncrement(col.int()))
+      id!: number;
+
+      @Column(col.varchar(255))
+      title!: string;
+
+      @Column(col.int())
+      projectId!: number;
+
+      @Column(col.varchar(32))
+      tenantId!: string;
+    }
+
+    bootstrapEntities();
+
+    const db = new sqlite3.Database(':memory:');
+    const base = createSqliteSessionFromDb(db);
+    const projectTable = getTableDefFromEntity(Project)!;
+    const taskTable = getTableDefFromEntity(Task)!;
+    await executeSchemaSqlFor(base.executor, new SQLiteSchemaDialect(), projectTable, taskTable);
+
+    await runSql(db, 'INSERT INTO projects (id, name, tenantId) VALUES (?, ?, ?)', [1, 'Acme site', 'acme']);
+    await runSql(db, 'INSERT INTO projects (id, name, tenantId) VALUES (?, ?, ?)', [2, 'Globex site', 'globex']);
+    await runSql(db, 'INSERT INTO tasks (title, projectId, tenantId) VALUES (?, ?, ?)', ['Design', 1, 'acme']);
+    // A mis-tenanted row pointing at an acme project must stay invisible to acme.
+    await runSql(db, 'INSERT INTO tasks (title, projectId, tenantId) VALUES (?, ?, ?)', ['Leak', 1, 'globex']);
+    await runSql(db, 'INSERT INTO tasks (title, projectId, tenantId) VALUES (?, ?, ?)', ['Build', 2, 'globex']);
+
+    const sessionFor = (tenantId?: string) =>
+      new OrmSession({ orm: base.orm, executor: base.executor, tenantId });
+
+    return { db, Project, Task, projectTable, taskTable, sessionFor };
+  };
+
+  it('filters roots, includes and lazy relation loads by tenant', async () => {
+    const { db, Project, sessionFor } = await setup();
+    try {
+      const session = sessionFor('acme');
+
+      const projects = await selectFromEntity(Project).include('tasks').execute(session);
+      expect(projects.map(p => p.name)).toEqual(['Acme site']);
+      expect(projects[0].tasks.getItems().map(t => t.title)).toEqual(['Design']);
+
+      const lazy = await selectFromEntity(Project).includeLazy('tasks').execute(session);
+      const tasks = await lazy[0].tasks.load();
+      expect(tasks.map(t => t.title)).toEqual(['Design']);
+
+      expect(await session.find(Project, 2)).toBeNull();
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('scopes whereHas subqueries', async () => {
+    const { db, Project, taskTable, sessionFor } = await setup();
+    try {
+      const leaking = await selectFromEntity(Project)
+        .whereHas('tasks', qb => qb.where(eq(taskTable.columns.title, 'Leak')))
+        .execute(sessionFor('acme'));
+      expect(leaking).toEqual([]);
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('restricts UPDATE and DELETE statements to the session tenant', async () => {
+    const { db, taskTable, sessionFor } = await setup();
+    try {
+      const session = sessionFor('acme');
+      await new UpdateQueryBuilder(taskTable).set({ title: 'Renamed' }).execute(session);
+      await new DeleteQueryBuilder(taskTable).where(eq(taskTable.columns.projectId, 2)).execute(session);
+
+      const rows = await queryAll<{ title: string; tenantId: string }>(
+        db,
+        'SELECT title, tenantId FROM tasks ORDER BY id'
+      );
+      expect(rows).toEqual([
+        { title: 'Renamed', tenantId: 'acme' },
+        { title: 'Leak', tenantId: 'globex' },
+        { title: 'Build', tenantId: 'globex' }
+      ]);
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('stamps the tenant on inserted entities and rejects foreign tenants', async () => {
+    const { db, Project, sessionFor } = await setup();
+    try {
+      const session = sessionFor('acme');
+      const project = new Project();
+      project.name = 'New';
+      await session.persist(project);
+      await session.commit();
+      expect(project.tenantId).toBe('acme');
+
+      const intruder = new Project();
+      intruder.name = 'Intruder';
+      intruder.tenantId = 'globex';
+      await session.persist(intruder);
+      await expect(session.commit()).rejects.toThrow(
+        'Cannot write tenant "globex" into "projects" from a session scoped to tenant "acme".'
+      );
+
+      const rows = await queryAll<{ name: string; tenantId: string }>(
+        db,
+        'SELECT name, tenantId FROM projects ORDER BY id'
+      );
+      expect(rows).toEqual([
+        { name: 'Acme site', tenantId: 'acme' },
+        { name: 'Globex site', tenantId: 'globex' },
+        { name: 'New', tenantId: 'acme' }
+      ]);
+    } finally {
+      await closeDb(db);
+    }
+  });
+
+  it('lets admin code opt out with withoutTenantScope', async () => {
+    const { db, Project, sessionFor } = await setup();
+    try {
+      const session = sessionFor('acme');
+      const all = await session.withoutTenantScope(() => selectFromEntity(Project).execute(session));
+      expect(all.map(p => p.name)).toEqual(['Acme site', 'Globex site']);
+
+      const scoped = await selectFromEntity(Project).execute(session);
+      expect(scoped.map(p => p.name)).toEqual(['Acme site']);
+
+      const unscopedSession = await selectFromEntity(Project).execute(sessionFor());
+      expect(unscopedSession).toHaveLength(2);
+
+      let release!: () => void;
+      const gate = new Promise<void>(resolve => { release = resolve; });
+      const admin = session.withoutTenantScope(async () => {
+        await gate;
+        return selectFromEntity(Project).execute(session);
+      });
+      const concurrent = await selectFromEntity(Project).execute(session);
+      release();
+      expect(concurrent.map(p => p.name)).toEqual(['Acme site']);
+      expect((await admin).map(p => p.name)).toEqual(['Acme site', 'Globex site']);
+    } finally {
+      await closeDb(db);
+    }
+  });
+});
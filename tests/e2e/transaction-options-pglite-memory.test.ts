@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { PostgresSchemaDialect } from '../../src/core/ddl/dialects/postgres-schema-dialect.js';
+import { createPgliteServer, queryAll, stopPgliteServer } from './pglite-helpers.js';
+
+const Accounts = defineTable('tx_options_accounts_pg_e2e', {
+  id: col.primaryKey(col.int()),
+  balance: col.int()
+});
+
+describe('transaction options e2e (pglite / postgres)', () => {
+  it('starts SERIALIZABLE READ ONLY transactions and rejects writes inside them', async () => {
+    const setup = await createPgliteServer();
+
+    try {
+      await executeSchemaSqlFor(setup.session.executor, new PostgresSchemaDialect(), Accounts);
+
+      const settings = await setup.session.transaction(async tx => {
+        const [isolation] = await tx.executor.executeSql('SHOW transaction_isolation');
+        const [readOnly] = await tx.executor.executeSql('SHOW transaction_read_only');
+        return [isolation.values[0][0], readOnly.values[0][0]];
+      }, { isolationLevel: 'SERIALIZABLE', readOnly: true });
+      expect(settings).toEqual(['serializable', 'on']);
+
+      await expect(
+        setup.session.transaction(async tx => {
+          tx.trackNew(Accounts, { id: 1, balance: 10 });
+        }, { readOnly: true })
+      ).rejects.toThrow(/read-only transaction/);
+      expect(await queryAll(setup.db, 'SELECT * FROM tx_options_accounts_pg_e2e')).toEqual([]);
+
+      await setup.session.transaction(async tx => {
+        tx.trackNew(Accounts, { id: 1, balance: 10 });
+      }, { isolationLevel: 'REPEATABLE READ', retry: true });
+      expect(await queryAll(setup.db, 'SELECT * FROM tx_options_accounts_pg_e2e')).toEqual([{ id: 1, balance: 10 }]);
+    } finally {
+      await stopPgliteServer(setup);
+    }
+  });
+});
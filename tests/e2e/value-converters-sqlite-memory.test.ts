@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import { converters } from '../../src/schema/value-converter.js';
+import { eq, inList } from '../../src/core/ast/expression.js';
+import { selectFrom } from '../../src/query/index.js';
+import { bulkInsert } from '../../src/bulk/index.js';
+import type { OrmSession } from '../../src/orm/orm-session.js';
+import { createSqliteExecutor } from '../../src/core/execution/executors/sqlite-executor.js';
+import { closeDb, createSession, createSqliteClient, execSql } from './sqlite-helpers.ts';
+
+type Settings = { theme: string; tags: string[] };
+
+const accounts = defineTable('vc_accounts', {
+  id: col.primaryKey(col.autoIncrement(col.int())),
+  active: col.converter(col.int(), converters.booleanAsInt()),
+  balance: col.converter(col.varchar(40), converters.bigint()),
+  settings: col.converter(col.text(), converters.json<Settings>()),
+  createdAt: col.converter(col.varchar(30), converters.date()),
+  status: col.converter(col.varchar(10), converters.enum(['open', 'closed'] as const))
+});
+
+const allRows = (db: sqlite3.Database): Promise<Record<string, unknown>[]> =>
+  new Promise((resolve, reject) => {
+    db.all('SELECT active, balance, settings, createdAt, status FROM vc_accounts ORDER BY id', (err, rows) =>
+      err ? reject(err) : resolve(rows as Record<string, unknown>[])
+    );
+  });
+
+describe('Column value converters e2e (sqlite memory)', () => {
+  const openSession = (db: sqlite3.Database): OrmSession =>
+    createSession(createSqliteExecutor({
+      ...createSqliteClient(db),
+      beginTransaction: () => execSql(db, 'BEGIN'),
+      commitTransaction: () => execSql(db, 'COMMIT'),
+      rollbackTransaction: () => execSql(db, 'ROLLBACK')
+    }));
+
+  const withSession = async (run: (session: OrmSession, db: sqlite3.Database) => Promise<void>) => {
+    const db = new sqlite3.Database(':memory:');
+    const session = openSession(db);
+    try {
+      await execSql(db, `
+        CREATE TABLE vc_accounts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          active INTEGER,
+          balance TEXT,
+          settings TEXT,
+          createdAt TEXT,
+          status TEXT
+        );
+      `);
+      await run(session, db);
+    } finally {
+      await closeDb(db);
+    }
+  };
+
+  const createdAt = new Date('2024-05-01T10:00:00.000Z');
+
+  it('converts values on flush, hydration and parameter binding', async () => {
+    await withSession(async (session, db) => {
+      const account = {
+        active: true,
+        balance: 9007199254740993n,
+        settings: { theme: 'dark', tags: ['a'] },
+        createdAt,
+        status: 'open'
+      };
+      session.trackNew(accounts, account);
+      await session.commit();
+
+      expect(await allRows(db)).toEqual([{
+        active: 1,
+        balance: '9007199254740993',
+        settings: '{"theme":"dark","tags":["a"]}',
+        createdAt: '2024-05-01T10:00:00.000Z',
+        status: 'open'
+      }]);
+      expect(account.balance).toBe(9007199254740993n);
+
+      const reader = openSession(db);
+      const [loaded] = await selectFrom(accounts)
+        .where(eq(accounts.columns.active, true))
+        .where(inList(accounts.columns.balance, [9007199254740993n]))
+        .execute(reader);
+      expect(loaded).toMatchObject({
+        active: true,
+        balance: 9007199254740993n,
+        settings: { theme: 'dark', tags: ['a'] },
+        createdAt,
+        status: 'open'
+      });
+
+      loaded.active = false;
+      loaded.status = 'closed';
+      await reader.commit();
+      expect(await allRows(db)).toMatchObject([{ active: 0, status: 'closed' }]);
+    });
+  });
+
+  it('detects and persists JSON documents and dates changed in place', async () => {
+    await withSession(async (session, db) => {
+      session.trackNew(accounts, { settings: { theme: 'dark', tags: ['a'] }, createdAt: new Date(createdAt) });
+      await session.commit();
+
+      const reader = openSession(db);
+      const [loaded] = await selectFrom(accounts).execute(reader);
+      expect(reader.isDirty(loaded)).toBe(false);
+
+      loaded.settings!.tags.push('b');
+      loaded.createdAt!.setUTCFullYear(2025);
+
+      expect(reader.isDirty(loaded, 'settings')).toBe(true);
+      expect(reader.getChangeSet(loaded)).toEqual([
+        { field: 'settings', from: { theme: 'dark', tags: ['a'] }, to: { theme: 'dark', tags: ['a', 'b'] } },
+        { field: 'createdAt', from: createdAt, to: new Date('2025-05-01T10:00:00.000Z') }
+      ]);
+      await reader.commit();
+
+      expect(await allRows(db)).toMatchObject([{
+        settings: '{"theme":"dark","tags":["a","b"]}',
+        createdAt: '2025-05-01T10:00:00.000Z'
+      }]);
+      expect(reader.isDirty(loaded)).toBe(false);
+    });
+  });
+
+  it('converts bulk insert values and RETURNING rows', async () => {
+    await withSession(async session => {
+      const result = await bulkInsert(session, accounts, [
+        { active: false, createdAt, status: 'open' },
+        { active: true, createdAt, status: 'closed' }
+      ], { returning: true });
+
+      expect(result.returning.map(row => [row.active, row.createdAt, row.status])).toEqual([
+        [false, createdAt, 'open'],
+        [true, createdAt, 'closed']
+      ]);
+    });
+  });
+
+  it('rejects values outside an enum before executing', async () => {
+    await withSession(async (session, db) => {
+      session.trackNew(accounts, { active: true, status: 'frozen' });
+      await expect(session.commit()).rejects.toThrow('Invalid enum value "frozen"; expected one of: open, closed');
+      expect(await allRows(db)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import { selectFrom } from '../../src/query/index.js';
+import { and, eq, gt } from '../../src/core/ast/expression.js';
+import { count } from '../../src/core/ast/aggregate-functions.js';
+import { diffSchema, synchronizeSchema } from '../../src/core/ddl/schema-diff.js';
+import { refreshMaterializedView } from '../../src/core/ddl/schema-generator.js';
+import { introspectSchema } from '../../src/core/ddl/schema-introspect.js';
+import { PostgresSchemaDialect } from '../../src/core/ddl/dialects/postgres-schema-dialect.js';
+import { createPgliteServer, stopPgliteServer, queryAll } from './pglite-helpers.js';
+
+const dialect = new PostgresSchemaDialect();
+
+const Orders = defineTable('orders', {
+  id: col.primaryKey(col.notNull(col.int())),
+  customer: col.text(),
+  total: col.int(),
+  paid: col.boolean()
+}, {}, { schema: 'public' });
+
+const bigOrders = (minimum: number) => defineTable('big_orders', { id: col.int(), customer: col.text() }, {}, {
+  schema: 'public',
+  view: {
+    definition: () => selectFrom(Orders)
+      .select({ id: Orders.columns.id, customer: Orders.columns.customer })
+      .where(and(eq(Orders.columns.paid, true), gt(Orders.columns.total, minimum)))
+  }
+});
+
+const OrderCounts = defineTable('order_counts', { customer: col.text(), orders: col.int() }, {}, {
+  schema: 'public',
+  view: {
+    materialized: true,
+    definition: () => selectFrom(Orders)
+      .select({ customer: Orders.columns.customer, orders: count(Orders.columns.id) })
+      .groupBy(Orders.columns.customer)
+  }
+});
+
+describe('views e2e (pglite in-memory)', () => {
+  it('creates, refreshes and redefines views, then converges', async () => {
+    const setup = await createPgliteServer();
+    const executor = setup.session.executor;
+    const introspect = () => introspectSchema(executor, 'postgres', { includeViews: true });
+
+    try {
+      const schemaV1 = [Orders, bigOrders(100), OrderCounts];
+      await synchronizeSchema(schemaV1, await introspect(), dialect, executor);
+      await setup.db.query(
+        "INSERT INTO orders (id, customer, total, paid) VALUES (1, 'ana', 150, true), (2, 'ana', 50, true), (3, 'bia', 300, false)"
+      );
+
+      expect(await queryAll(setup.db, 'SELECT * FROM order_counts')).toEqual([]);
+      await refreshMaterializedView(executor, OrderCounts, dialect);
+      expect(await queryAll(setup.db, 'SELECT customer, orders::int FROM order_counts ORDER BY customer')).toEqual([
+        { customer: 'ana', orders: 2 },
+        { customer: 'bia', orders: 1 }
+      ]);
+
+      const current = await introspect();
+      expect(current.views?.find(view => view.name === 'order_counts')).toMatchObject({
+        materialized: true,
+        columns: [{ name: 'customer' }, { name: 'orders', type: 'bigint' }]
+      });
+      expect(diffSchema(schemaV1, current, dialect).changes).toEqual([]);
+
+      const schemaV2 = [Orders, bigOrders(10), OrderCounts];
+      const plan = await synchronizeSchema(schemaV2, current, dialect, executor);
+      expect(plan.changes.map(change => `${change.kind} ${change.table}`)).toEqual([
+        'dropView public.big_orders',
+        'createView public.big_orders'
+      ]);
+      expect(await queryAll(setup.db, 'SELECT id FROM big_orders ORDER BY id')).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(diffSchema(schemaV2, await introspect(), dialect).changes).toEqual([]);
+    } finally {
+      await stopPgliteServer(setup);
+    }
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import sqlite3 from 'sqlite3';
+
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import { selectFrom } from '../../src/query/index.js';
+import { eq } from '../../src/core/ast/expression.js';
+import { count } from '../../src/core/ast/aggregate-functions.js';
+import { diffSchema, synchronizeSchema } from '../../src/core/ddl/schema-diff.js';
+import { refreshMaterializedView } from '../../src/core/ddl/schema-generator.js';
+import { introspectSchema } from '../../src/core/ddl/schema-introspect.js';
+import { SQLiteSchemaDialect } from '../../src/core/ddl/dialects/sqlite-schema-dialect.js';
+import { createSqliteExecutor } from '../../src/core/execution/executors/sqlite-executor.js';
+import { closeDb, createSqliteClient, execSql } from './sqlite-helpers.ts';
+
+const queryAll = <T extends Record<string, unknown>>(db: sqlite3.Database, sql: string): Promise<T[]> =>
+  new Promise<T[]>((resolve, reject) => {
+    db.all(sql, [], (err, rows) => (err ? reject(err) : resolve(rows as T[])));
+  });
+
+const dialect = new SQLiteSchemaDialect();
+
+const Posts = defineTable('posts', {
+  id: col.primaryKey(col.int()),
+  author: col.text(),
+  published: col.boolean()
+});
+
+const PublishedPosts = defineTable('published_posts', { id: col.int(), author: col.text() }, {}, {
+  view: {
+    definition: () => selectFrom(Posts)
+      .select({ id: Posts.columns.id, author: Posts.columns.author })
+      .where(eq(Posts.columns.published, true))
+  }
+});
+
+const PostsPerAuthor = defineTable('posts_per_author', { author: col.text(), posts: col.int() }, {}, {
+  view: {
+    materialized: true,
+    definition: () => selectFrom(Posts)
+      .select({ author: Posts.columns.author, posts: count(Posts.columns.id) })
+      .groupBy(Posts.columns.author)
+  }
+});
+
+describe('views e2e (sqlite in-memory)', () => {
+  it('emulates materialized views with a table refreshed from the query', async () => {
+    const db = new sqlite3.Database(':memory:');
+    const client = createSqliteClient(db);
+    const executor = createSqliteExecutor({
+      ...client,
+      beginTransaction: async () => { await client.all('BEGIN'); },
+      commitTransaction: async () => { await client.all('COMMIT'); },
+      rollbackTransaction: async () => { await client.all('ROLLBACK'); }
+    });
+    const schema = [Posts, PublishedPosts, PostsPerAuthor];
+
+    try {
+      await synchronizeSchema(schema, await introspectSchema(executor, 'sqlite'), dialect, executor);
+      await execSql(db, "INSERT INTO posts (id, author, published) VALUES (1, 'ana', 1), (2, 'ana', 0), (3, 'bia', 1)");
+
+      expect(await queryAll(db, 'SELECT id FROM published_posts ORDER BY id')).toEqual([{ id: 1 }, { id: 3 }]);
+      expect(await queryAll(db, 'SELECT * FROM posts_per_author')).toEqual([]);
+
+      await refreshMaterializedView(executor, PostsPerAuthor, dialect);
+      expect(await queryAll(db, 'SELECT author, posts FROM posts_per_author ORDER BY author')).toEqual([
+        { author: 'ana', posts: 2 },
+        { author: 'bia', posts: 1 }
+      ]);
+
+      const actual = await introspectSchema(executor, 'sqlite', { includeViews: true });
+      expect(diffSchema(schema, actual, dialect, { allowDestructive: true }).changes).toEqual([]);
+    } finally {
+      await closeDb(db);
+    }
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import { avg, currentRow, over, preceding, rowsBetween, sum } from '../../src/core/ast/expression.js';
+import { selectFrom } from '../../src/query/index.js';
+import { executeSchemaSqlFor } from '../../src/core/ddl/schema-generator.js';
+import { PostgresSchemaDialect } from '../../src/core/ddl/dialects/postgres-schema-dialect.js';
+import { createPgliteServer, runSql, stopPgliteServer } from './pglite-helpers.js';
+
+const Orders = defineTable('window_orders_pg_e2e', {
+  id: col.primaryKey(col.int()),
+  user_id: col.int(),
+  day: col.int(),
+  amount: col.int()
+});
+
+describe('window frames e2e (pglite / postgres)', () => {
+  it('computes running totals and moving averages through a named window', async () => {
+    const setup = await createPgliteServer();
+
+    try {
+      await executeSchemaSqlFor(setup.session.executor, new PostgresSchemaDialect(), Orders);
+      await runSql(
+        setup.db,
+        `INSERT INTO window_orders_pg_e2e (id, user_id, day, amount) VALUES
+          (1, 1, 1, 10), (2, 1, 2, 20), (3, 1, 3, 30), (4, 2, 1, 5);`
+      );
+
+      const rows = await selectFrom(Orders)
+        .window('byUser', {
+          partitionBy: [Orders.columns.user_id],
+          orderBy: [{ column: Orders.columns.day }]
+        })
+        .select({
+          id: Orders.columns.id,
+          runningTotal: over(sum(Orders.columns.amount), 'byUser'),
+          movingAvg: over(avg(Orders.columns.amount), {
+            window: 'byUser',
+            frame: rowsBetween(preceding(1), currentRow())
+          })
+        })
+        .orderBy(Orders.columns.id)
+        .execute(setup.session);
+
+      expect(rows.map(row => [row.id, Number(row.runningTotal), Number(row.movingAvg)])).toEqual([
+        [1, 10, 10],
+        [2, 30, 15],
+        [3, 60, 25],
+        [4, 5, 5]
+      ]);
+    } finally {
+      await stopPgliteServer(setup);
+    }
+  });
+});
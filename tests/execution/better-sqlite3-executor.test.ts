@@ -30,6 +30,29 @@ describe('createBetterSqlite3Executor', () => {
     ]);
   });
 
+  it('streams reader rows with iterate()', async () => {
+    const mockStmt = {
+      reader: true,
+      all: vi.fn(),
+      iterate: vi.fn().mockReturnValue([{ id: 1 }, { id: 2 }][Symbol.iterator]()),
+      run: vi.fn(),
+    };
+    const client: BetterSqlite3ClientLike = {
+      prepare: vi.fn().mockReturnValue(mockStmt),
+      transaction: vi.fn(),
+    };
+
+    const executor = createBetterSqlite3Executor(client);
+    const rows: unknown[] = [];
+    for await (const row of executor.streamSql!('SELECT id FROM t WHERE id > ?', [0])) {
+      rows.push(row);
+    }
+
+    expect(mockStmt.iterate).toHaveBeenCalledWith(0);
+    expect(mockStmt.all).not.toHaveBeenCalled();
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
   it('maps run() results correctly for writers', async () => {
     const mockStmt = {
       reader: false,
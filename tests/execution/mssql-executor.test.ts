@@ -1,5 +1,6 @@
 // tests/execution/mssql-executor.test.ts
 import { describe, it, expect } from 'vitest';
+import { ISOLATION_LEVEL } from 'tedious';
 import {
   createMssqlExecutor,
   createTediousExecutor,
@@ -186,6 +187,44 @@ describe('createMssqlExecutor', () => {
     const executor = createMssqlExecutor(client);
     await expect(executor.savepoint!('bad-name')).rejects.toThrow('Invalid savepoint name');
   });
+
+  it('sets the isolation level for the transaction and restores the session default afterwards', async () => {
+    const events: string[] = [];
+    const client: MssqlClientLike = {
+      async query(sql) {
+        events.push(sql);
+        return { recordset: sql.includes('sys.dm_exec_sessions') ? [{ level: 4 }] : [] };
+      },
+      async beginTransaction() { events.push('begin'); },
+      async commit() { events.push('commit'); },
+      async rollback() { events.push('rollback'); },
+    };
+
+    const executor = createMssqlExecutor(client);
+    await executor.beginTransaction({ isolationLevel: 'SNAPSHOT' });
+    await executor.commitTransaction();
+    await executor.beginTransaction();
+    await executor.rollbackTransaction();
+
+    await executor.beginTransaction({ isolationLevel: 'SERIALIZABLE' });
+    await executor.commitTransaction();
+
+    expect(events).toEqual([
+      'SELECT transaction_isolation_level AS level FROM sys.dm_exec_sessions WHERE session_id = @@SPID',
+      'SET TRANSACTION ISOLATION LEVEL SNAPSHOT',
+      'begin',
+      'commit',
+      'SET TRANSACTION ISOLATION LEVEL SERIALIZABLE',
+      'begin',
+      'rollback',
+      'begin',
+      'commit',
+    ]);
+    await expect(executor.beginTransaction({ readOnly: true })).rejects.toThrow(
+      'Read-only transactions are not supported by SQL Server.'
+    );
+    expect(executor.isTransientError?.({ originalError: { info: { number: 1205 } } })).toBe(true);
+  });
 });
 
 describe('createTediousMssqlClient', () => {
@@ -225,6 +264,20 @@ describe('createTediousMssqlClient', () => {
     ]);
   });
 
+  it('streams rows from row events', async () => {
+    const rows: TediousColumn[][] = [1, 2, 3].map(id => [{ metadata: { colName: 'id' }, value: id }]);
+    const { connection, requests, FakeRequest } = createFakeTediousConnection(rows);
+
+    const executor = createTediousExecutor(connection, { Request: FakeRequest, TYPES }, { streamHighWaterMark: 2 });
+    const streamed: unknown[] = [];
+    for await (const row of executor.streamSql!('SELECT id FROM users WHERE id > @p1', [0])) {
+      streamed.push(row);
+    }
+
+    expect(streamed).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(requests[0].params).toEqual([{ name: 'p1', type: TYPES.Int, value: 0 }]);
+  });
+
   it('wraps transaction callbacks when provided', async () => {
     const events: string[] = [];
 
@@ -263,6 +316,27 @@ describe('createTediousMssqlClient', () => {
 });
 
 describe('createTediousExecutor', () => {
+  it('passes the isolation level to tedious and restores the configured default', async () => {
+    const { connection, requests, FakeRequest } = createFakeTediousConnection([]);
+    const levels: Array<number | undefined> = [];
+    connection.config = { options: { isolationLevel: ISOLATION_LEVEL.REPEATABLE_READ } };
+    connection.beginTransaction = (cb, _name, isolationLevel) => {
+      levels.push(isolationLevel);
+      cb();
+    };
+    connection.commitTransaction = cb => cb();
+    connection.rollbackTransaction = cb => cb();
+
+    const executor = createTediousExecutor(connection, { Request: FakeRequest, TYPES });
+    await executor.beginTransaction({ isolationLevel: 'SNAPSHOT' });
+    await executor.commitTransaction();
+    await executor.beginTransaction();
+    await executor.rollbackTransaction();
+
+    expect(levels).toEqual([ISOLATION_LEVEL.SNAPSHOT, undefined]);
+    expect(requests.map(request => request.sql)).toEqual(['SET TRANSACTION ISOLATION LEVEL REPEATABLE READ']);
+  });
+
   it('composes createTediousMssqlClient + createMssqlExecutor', async () => {
     const rows: TediousColumn[][] = [
       [
@@ -121,4 +121,29 @@ describe('createMysqlExecutor', () => {
     const executor = createMysqlExecutor(client);
     await expect(executor.savepoint!('bad-name')).rejects.toThrow('Invalid savepoint name');
   });
+
+  it('sets isolation level and access mode before starting the transaction', async () => {
+    const events: string[] = [];
+    const client: MysqlClientLike = {
+      async query(sql) {
+        events.push(sql);
+        return [[], {}];
+      },
+      async beginTransaction() { events.push('begin'); },
+      async commit() {},
+      async rollback() {},
+    };
+
+    const executor = createMysqlExecutor(client);
+    await executor.beginTransaction({ isolationLevel: 'REPEATABLE READ', readOnly: true, deferrable: true });
+    await executor.beginTransaction();
+
+    expect(events).toEqual([
+      'SET TRANSACTION ISOLATION LEVEL REPEATABLE READ, READ ONLY',
+      'begin',
+      'begin',
+    ]);
+    expect(executor.isTransientError?.({ errno: 1213, code: 'ER_LOCK_DEADLOCK' })).toBe(true);
+    expect(executor.isTransientError?.({ errno: 1062 })).toBe(false);
+  });
 });
@@ -85,4 +85,72 @@ describe('createPostgresExecutor', () => {
     const executor = createPostgresExecutor(client);
     await expect(executor.savepoint!('bad-name')).rejects.toThrow('Invalid savepoint name');
   });
+
+  it('translates transaction options into the BEGIN statement', async () => {
+    const executedSql: string[] = [];
+    const client: PostgresClientLike = {
+      async query(sql) {
+        executedSql.push(sql);
+        return { rows: [] };
+      },
+    };
+
+    const executor = createPostgresExecutor(client);
+    await executor.beginTransaction({ isolationLevel: 'SERIALIZABLE', readOnly: true, deferrable: true });
+    await executor.beginTransaction({ isolationLevel: 'READ COMMITTED' });
+
+    expect(executedSql).toEqual([
+      'BEGIN ISOLATION LEVEL SERIALIZABLE, READ ONLY, DEFERRABLE',
+      'BEGIN ISOLATION LEVEL READ COMMITTED',
+    ]);
+    await expect(executor.beginTransaction({ isolationLevel: 'SNAPSHOT' })).rejects.toThrow(
+      'Isolation level "SNAPSHOT" is not supported by PostgreSQL.'
+    );
+    expect(executor.isTransientError?.({ code: '40001' })).toBe(true);
+    expect(executor.isTransientError?.({ code: '23505' })).toBe(false);
+  });
+
+  it('streams rows through a cursor, opening a transaction only when needed', async () => {
+    const executedSql: string[] = [];
+    const pages = [[{ id: 1 }, { id: 2 }], [{ id: 3 }]];
+    const client: PostgresClientLike = {
+      async query(sql) {
+        executedSql.push(sql);
+        return { rows: sql.startsWith('FETCH') ? pages.shift() ?? [] : [] };
+      },
+    };
+
+    const executor = createPostgresExecutor(client);
+    const streamed: unknown[] = [];
+    for await (const row of executor.streamSql!('SELECT id FROM users WHERE active = $1', [true], { batchSize: 2 })) {
+      streamed.push(row);
+    }
+
+    expect(streamed).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(executedSql).toEqual([
+      'BEGIN',
+      'DECLARE metal_cursor_1 NO SCROLL CURSOR FOR SELECT id FROM users WHERE active = $1',
+      'FETCH FORWARD 2 FROM metal_cursor_1',
+      'FETCH FORWARD 2 FROM metal_cursor_1',
+      'CLOSE metal_cursor_1',
+      'COMMIT',
+    ]);
+
+    executedSql.length = 0;
+    pages.push([{ id: 1 }, { id: 2 }]);
+    await executor.beginTransaction();
+    for await (const row of executor.streamSql!('SELECT id FROM users', [], { batchSize: 2 })) {
+      expect(row).toEqual({ id: 1 });
+      break;
+    }
+    await executor.commitTransaction();
+
+    expect(executedSql).toEqual([
+      'BEGIN',
+      'DECLARE metal_cursor_2 NO SCROLL CURSOR FOR SELECT id FROM users',
+      'FETCH FORWARD 2 FROM metal_cursor_2',
+      'CLOSE metal_cursor_2',
+      'COMMIT',
+    ]);
+  });
 });
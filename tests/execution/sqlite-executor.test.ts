@@ -92,4 +92,33 @@ describe('createSqliteExecutor', () => {
     const executor = createSqliteExecutor(client);
     await expect(executor.savepoint!('bad-name')).rejects.toThrow('Invalid savepoint name');
   });
+
+  it('emulates read-only transactions with PRAGMA query_only', async () => {
+    const events: string[] = [];
+    const client: SqliteClientLike = {
+      async all(sql) {
+        events.push(sql);
+        return [];
+      },
+      async beginTransaction() { events.push('begin'); },
+      async commitTransaction() { events.push('commit'); },
+      async rollbackTransaction() { events.push('rollback'); },
+    };
+
+    const executor = createSqliteExecutor(client);
+    await executor.beginTransaction({ isolationLevel: 'SERIALIZABLE', readOnly: true });
+    await executor.rollbackTransaction();
+    await executor.beginTransaction({ isolationLevel: 'READ COMMITTED' });
+    await executor.commitTransaction();
+
+    expect(events).toEqual([
+      'PRAGMA query_only = ON',
+      'begin',
+      'rollback',
+      'PRAGMA query_only = OFF',
+      'begin',
+      'commit',
+    ]);
+    expect(executor.isTransientError?.({ code: 'SQLITE_BUSY' })).toBe(true);
+  });
 });
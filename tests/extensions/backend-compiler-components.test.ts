@@ -4,6 +4,8 @@ import type { OperandNode } from '../../src/core/ast/expression.js';
 import type { SelectQueryNode } from '../../src/core/ast/query.js';
 import type { ProcedureCallNode } from '../../src/core/ast/procedure.js';
 import { StandardLimitOffsetPagination } from '../../src/core/dialect/base/pagination-strategy.js';
+import { StandardLockStrategy } from '../../src/core/dialect/base/lock-strategy.js';
+import { StandardGroupingStrategy } from '../../src/core/dialect/base/grouping-strategy.js';
 import type { StandardSqlCompilerServices } from '../../src/core/dialect/base/standard-sql-services.js';
 import { StandardSqlSourceCompiler } from '../../src/core/dialect/base/standard-sql-source-compiler.js';
 import { StandardTableFunctionStrategy } from '../../src/core/functions/standard-table-strategy.js';
@@ -38,12 +40,15 @@ describe('backend compiler components', () => {
       getDialectName: () => 'mssql',
       getPaginationStrategy: () => new StandardLimitOffsetPagination(),
       getTableFunctionStrategy: () => new StandardTableFunctionStrategy(),
+      getLockStrategy: () => new StandardLockStrategy(),
+      getGroupingStrategy: () => new StandardGroupingStrategy(),
       quoteIdentifier,
       compileOperand,
       compileExpression: () => {
         throw new Error('Expression compilation is not needed by this test');
       },
       compileOrderingTerm: (term, ctx) => compileOperand(term as OperandNode, ctx),
+      compileWindowDefinition: () => '',
       normalizeSelectAst: ast => ast,
       compileSelectAst: (ast, ctx) => selectCompiler.compile(ast, ctx),
       compileReturning: () => '',
@@ -8,6 +8,8 @@ import type {
 } from '../../src/core/ast/query.js';
 import type { ExpressionNode, OperandNode } from '../../src/core/ast/expression.js';
 import { StandardLimitOffsetPagination } from '../../src/core/dialect/base/pagination-strategy.js';
+import { StandardLockStrategy } from '../../src/core/dialect/base/lock-strategy.js';
+import { StandardGroupingStrategy } from '../../src/core/dialect/base/grouping-strategy.js';
 import { StandardTableFunctionStrategy } from '../../src/core/functions/standard-table-strategy.js';
 import type { StandardSqlCompilerServices } from '../../src/core/dialect/base/standard-sql-services.js';
 import { StandardSqlSourceCompiler } from '../../src/core/dialect/base/standard-sql-source-compiler.js';
@@ -51,10 +53,13 @@ describe('standard compiler composition', () => {
       getDialectName: () => 'sqlite',
       getPaginationStrategy: () => new StandardLimitOffsetPagination(),
       getTableFunctionStrategy: () => new StandardTableFunctionStrategy(),
+      getLockStrategy: () => new StandardLockStrategy(),
+      getGroupingStrategy: () => new StandardGroupingStrategy(),
       quoteIdentifier,
       compileOperand,
       compileExpression,
       compileOrderingTerm: (term, ctx) => compileOperand(term as OperandNode, ctx),
+      compileWindowDefinition: () => '',
       normalizeSelectAst: ast => ast,
       compileSelectAst: (ast, ctx) => selectCompiler.compile(ast, ctx),
       compileReturning: () => '',
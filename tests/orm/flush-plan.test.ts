@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import { belongsTo, hasMany } from '../../src/schema/relation.js';
+import { sortTablesByDependencies } from '../../src/orm/flush-plan.js';
+import { UnitOfWork } from '../../src/orm/unit-of-work.js';
+import { IdentityMap } from '../../src/orm/identity-map.js';
+import { MySqlDialect } from '../../src/core/dialect/mysql/index.js';
+import { SqliteDialect } from '../../src/core/dialect/sqlite/index.js';
+import { SqlServerDialect } from '../../src/core/dialect/mssql/index.js';
+import type { DbExecutor } from '../../src/core/execution/db-executor.js';
+
+const users = defineTable('fp_users', {
+  id: col.primaryKey(col.int()),
+  name: col.varchar(50)
+});
+
+const posts = defineTable('fp_posts', {
+  id: col.primaryKey(col.int()),
+  user_id: col.references(col.int(), { table: 'fp_users', column: 'id' })
+});
+
+const comments = defineTable('fp_comments', {
+  id: col.primaryKey(col.int()),
+  post_id: col.int()
+});
+
+const tags = defineTable('fp_tags', {
+  id: col.primaryKey(col.int())
+});
+
+const events = defineTable('fp_events', {
+  id: col.primaryKey(col.autoIncrement(col.int())),
+  kind: col.varchar(20)
+});
+
+posts.relations = { comments: hasMany(comments, 'post_id') };
+
+describe('sortTablesByDependencies', () => {
+  it('puts referenced tables before the tables pointing at them', () => {
+    expect(sortTablesByDependencies([comments, tags, posts, users]).map(table => table.name)).toEqual([
+      'fp_tags',
+      'fp_users',
+      'fp_posts',
+      'fp_comments'
+    ]);
+  });
+
+  it('breaks foreign-key cycles at the first table in input order', () => {
+    const left = defineTable('fp_left', { id: col.primaryKey(col.int()), right_id: col.int() });
+    const right = defineTable('fp_right', { id: col.primaryKey(col.int()), left_id: col.int() });
+    left.relations = { right: belongsTo(right, 'right_id') };
+    right.relations = { left: belongsTo(left, 'left_id') };
+
+    expect(sortTablesByDependencies([right, left, users]).map(table => table.name)).toEqual([
+      'fp_users',
+      'fp_right',
+      'fp_left'
+    ]);
+  });
+});
+
+describe('UnitOfWork flush plan', () => {
+  it('inserts row by row in dependency order when the dialect has no RETURNING', async () => {
+    const executed: string[] = [];
+    let insertId = 0;
+    const executor: DbExecutor = {
+      capabilities: { transactions: false },
+      async executeSql(sql) {
+        executed.push(sql);
+        return [{ columns: [], values: [], meta: { insertId: ++insertId } }];
+      },
+      beginTransaction: async () => { },
+      commitTransaction: async () => { },
+      rollbackTransaction: async () => { },
+      dispose: async () => { }
+    };
+    const uow = new UnitOfWork(new MySqlDialect(), executor, new IdentityMap(), () => ({}));
+
+    uow.trackNew(posts, { id: 10, user_id: 1 });
+    uow.trackNew(users, { id: 1, name: 'Ada' });
+    uow.trackNew(users, { id: 2, name: 'Grace' });
+    await uow.flush();
+
+    expect(executed.map(sql => sql.match(/INSERT INTO `(\w+)`/)?.[1])).toEqual(['fp_users', 'fp_users', 'fp_posts']);
+    expect(executed.every(sql => !sql.includes('), ('))).toBe(true);
+  });
+
+  it('matches batched RETURNING rows to entities by primary key, not by position', async () => {
+    const executed: string[] = [];
+    const executor: DbExecutor = {
+      capabilities: { transactions: false },
+      async executeSql(sql, params = []) {
+        executed.push(sql);
+        // Return the rows in reverse VALUES order, as SQLite RETURNING or SQL Server OUTPUT may.
+        const rows = [[params[0], 'ADA'], [params[2], 'GRACE']].reverse();
+        return [{ columns: ['id', 'name'], values: rows }];
+      },
+      beginTransaction: async () => { },
+      commitTransaction: async () => { },
+      rollbackTransaction: async () => { },
+      dispose: async () => { }
+    };
+    const uow = new UnitOfWork(new SqliteDialect(), executor, new IdentityMap(), () => ({}));
+    const ada = { id: 1, name: 'Ada' };
+    const grace = { id: 2, name: 'Grace' };
+
+    uow.trackNew(users, ada);
+    uow.trackNew(users, grace);
+    await uow.flush();
+
+    expect(executed).toHaveLength(1);
+    expect(ada).toEqual({ id: 1, name: 'ADA' });
+    expect(grace).toEqual({ id: 2, name: 'GRACE' });
+  });
+
+  it('hands batched generated keys out in ascending order, whatever order RETURNING uses', async () => {
+    const executed: string[] = [];
+    const executor: DbExecutor = {
+      capabilities: { transactions: false },
+      async executeSql(sql, params = []) {
+        executed.push(sql);
+        const rows = params.map((kind, index) => [41 + index, kind]).reverse();
+        return [{ columns: ['id', 'kind'], values: rows }];
+      },
+      beginTransaction: async () => { },
+      commitTransaction: async () => { },
+      rollbackTransaction: async () => { },
+      dispose: async () => { }
+    };
+    const uow = new UnitOfWork(new SqliteDialect(), executor, new IdentityMap(), () => ({}));
+    const created = { kind: 'created' };
+    const paid = { kind: 'paid' };
+    const shipped = { kind: 'shipped' };
+
+    uow.trackNew(events, created);
+    uow.trackNew(events, paid);
+    uow.trackNew(events, shipped);
+    await uow.flush();
+
+    expect(executed).toHaveLength(1);
+    expect([created, paid, shipped]).toEqual([
+      { id: 41, kind: 'created' },
+      { id: 42, kind: 'paid' },
+      { id: 43, kind: 'shipped' }
+    ]);
+  });
+
+  it('inserts generated-key rows one at a time when identity order is not guaranteed', async () => {
+    const executed: string[] = [];
+    let id = 0;
+    const executor: DbExecutor = {
+      capabilities: { transactions: false },
+      async executeSql(sql, params = []) {
+        executed.push(sql);
+        return [{ columns: ['id', 'kind'], values: [[++id, params[0]]] }];
+      },
+      beginTransaction: async () => { },
+      commitTransaction: async () => { },
+      rollbackTransaction: async () => { },
+      dispose: async () => { }
+    };
+    const uow = new UnitOfWork(new SqlServerDialect(), executor, new IdentityMap(), () => ({}));
+    const created = { kind: 'created' };
+    const paid = { kind: 'paid' };
+
+    uow.trackNew(events, created);
+    uow.trackNew(events, paid);
+    await uow.flush();
+
+    expect(executed).toHaveLength(2);
+    expect([created, paid]).toEqual([{ id: 1, kind: 'created' }, { id: 2, kind: 'paid' }]);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SqliteDialect } from '../../src/core/dialect/sqlite/index.js';
+import type { DbExecutor, QueryResult } from '../../src/core/execution/db-executor.js';
+import { InMemoryInstrumentation } from '../../src/core/execution/instrumentation/in-memory-instrumentation.js';
+import { createOtelInstrumentation } from '../../src/core/execution/instrumentation/otel-instrumentation.js';
+import { sqlOperationName } from '../../src/core/execution/instrumentation/instrumentation.js';
+import { Orm } from '../../src/orm/orm.js';
+import { selectFrom } from '../../src/query/index.js';
+import { Users } from '../fixtures/schema.js';
+
+const createExecutor = (failOn?: RegExp): DbExecutor => ({
+  capabilities: { transactions: true, savepoints: true },
+  async executeSql(sql) {
+    if (failOn?.test(sql)) throw new TypeError('boom');
+    return [] as QueryResult[];
+  },
+  beginTransaction: async () => { },
+  commitTransaction: async () => { },
+  rollbackTransaction: async () => { },
+  savepoint: async () => { },
+  releaseSavepoint: async () => { },
+  rollbackToSavepoint: async () => { },
+  dispose: async () => { }
+});
+
+const createOrm = (executor: DbExecutor, instrumentation: Orm['instrumentation']) =>
+  new Orm({
+    dialect: new SqliteDialect(),
+    executorFactory: {
+      createExecutor: () => executor,
+      createTransactionalExecutor: () => executor,
+      dispose: async () => { }
+    },
+    instrumentation
+  });
+
+describe('instrumentation', () => {
+  it('nests query spans under flush and transaction spans and records query latency', async () => {
+    const instrumentation = new InMemoryInstrumentation();
+    const session = createOrm(createExecutor(), instrumentation).createSession();
+
+    await session.transaction(async tx => {
+      await tx.transaction(async () => { });
+      tx.trackNew(Users, { id: 1, name: 'Ada', role: 'admin' });
+    }, { isolationLevel: 'SERIALIZABLE' });
+    await selectFrom(Users).select('id').execute(session);
+
+    const [outer, inner] = instrumentation.spansNamed('db.transaction');
+    expect(outer.attributes).toEqual({
+      'db.transaction.nested': false,
+      'db.transaction.isolation_level': 'SERIALIZABLE'
+    });
+    expect(inner.parent).toBe(outer);
+    expect(inner.attributes['db.transaction.nested']).toBe(true);
+
+    const flushes = instrumentation.spansNamed('orm.flush');
+    expect(flushes.map(span => span.parent)).toEqual([inner, outer]);
+    expect(flushes.map(span => span.attributes['orm.tracked_entities'])).toEqual([0, 1]);
+
+    const [insert, select] = instrumentation.spansNamed('db.query');
+    expect(insert.parent).toBe(flushes[1]);
+    expect(insert.attributes).toMatchObject({ 'db.operation': 'INSERT' });
+    expect(insert.attributes['db.statement']).toContain('INSERT INTO "users"');
+    expect(select.parent).toBeUndefined();
+    expect(select.attributes['db.operation']).toBe('SELECT');
+    expect(instrumentation.spans.every(span => span.ended)).toBe(true);
+
+    const durations = instrumentation.metricsNamed('db.client.operation.duration');
+    expect(durations.map(metric => metric.attributes)).toEqual([
+      { 'db.operation': 'INSERT' },
+      { 'db.operation': 'SELECT' }
+    ]);
+    expect(durations.every(metric => metric.value >= 0)).toBe(true);
+  });
+
+  it('records failures on the query, flush and transaction spans', async () => {
+    const instrumentation = new InMemoryInstrumentation();
+    const session = createOrm(createExecutor(/^INSERT/), instrumentation).createSession();
+
+    session.trackNew(Users, { id: 1, name: 'Ada', role: 'admin' });
+    await expect(session.commit()).rejects.toThrow('boom');
+
+    expect(instrumentation.spans.map(span => [span.name, span.errors.length])).toEqual([
+      ['db.transaction', 1],
+      ['orm.flush', 1],
+      ['db.query', 1]
+    ]);
+    expect(instrumentation.metricsNamed('db.client.operation.duration')[0].attributes).toEqual({
+      'db.operation': 'INSERT',
+      'error.type': 'TypeError'
+    });
+  });
+
+  it('leaves the executor untouched with the default no-op instrumentation', () => {
+    const executor = createExecutor();
+    const session = createOrm(executor, undefined).createSession();
+    expect(session.executor).toBe(executor);
+  });
+
+  it('maps spans and histograms to OpenTelemetry semantic conventions', async () => {
+    const span = { setAttribute: vi.fn(), recordException: vi.fn(), setStatus: vi.fn(), end: vi.fn() };
+    const tracer = { startSpan: vi.fn(() => span) };
+    const record = vi.fn();
+    const meter = { createHistogram: vi.fn(() => ({ record })) };
+    const instrumentation = createOtelInstrumentation({ tracer, meter, dbSystem: 'sqlite' });
+    const session = createOrm(createExecutor(/^SELECT/), instrumentation).createSession();
+
+    await expect(selectFrom(Users).select('id').execute(session)).rejects.toThrow('boom');
+
+    expect(tracer.startSpan).toHaveBeenCalledWith('db.query', {
+      kind: 2,
+      attributes: {
+        'db.system': 'sqlite',
+        'db.statement': expect.stringContaining('SELECT'),
+        'db.operation': 'SELECT'
+      }
+    });
+    expect(span.recordException).toHaveBeenCalledWith(expect.any(TypeError));
+    expect(span.setStatus).toHaveBeenCalledWith({ code: 2, message: 'boom' });
+    expect(span.setAttribute).toHaveBeenCalledWith('error.type', 'TypeError');
+    expect(span.end).toHaveBeenCalledTimes(1);
+    expect(meter.createHistogram).toHaveBeenCalledWith('db.client.operation.duration', {
+      unit: 's',
+      description: 'Duration of database client operations'
+    });
+    expect(record).toHaveBeenCalledWith(expect.any(Number), {
+      'db.system': 'sqlite',
+      'db.operation': 'SELECT',
+      'error.type': 'TypeError'
+    });
+  });
+
+  it('derives db.operation from the leading keyword', () => {
+    expect(sqlOperationName('  /* tag */ -- note\n (select 1)')).toBe('SELECT');
+    expect(sqlOperationName('WITH x AS (SELECT 1) SELECT * FROM x')).toBe('WITH');
+    expect(sqlOperationName('')).toBe('');
+  });
+});
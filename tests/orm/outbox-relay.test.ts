@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { PostgresDialect } from '../../src/core/dialect/postgres/index.js';
+import type { DbExecutor, QueryResult } from '../../src/core/execution/db-executor.js';
+import { Orm } from '../../src/orm/orm.js';
+import { OutboxRelay } from '../../src/orm/outbox-relay.js';
+
+const createOrm = (log: string[], outbox = true) => {
+  const executor: DbExecutor = {
+    capabilities: { transactions: true },
+    async executeSql(sql) {
+      log.push(sql);
+      return [] as QueryResult[];
+    },
+    beginTransaction: async () => { log.push('BEGIN'); },
+    commitTransaction: async () => { log.push('COMMIT'); },
+    rollbackTransaction: async () => { log.push('ROLLBACK'); },
+    dispose: async () => { }
+  };
+  return new Orm({
+    dialect: new PostgresDialect(),
+    executorFactory: {
+      createExecutor: () => executor,
+      createTransactionalExecutor: () => executor,
+      dispose: async () => { }
+    },
+    outbox: outbox ? { tableName: 'events_outbox', schema: 'app' } : undefined
+  });
+};
+
+describe('OutboxRelay', () => {
+  it('claims due rows with SKIP LOCKED inside a transaction', async () => {
+    const log: string[] = [];
+    const relay = new OutboxRelay(createOrm(log), { transport: { publish: async () => { } }, batchSize: 5 });
+
+    expect(await relay.runOnce()).toEqual({ claimed: 0, delivered: 0, retried: 0, failed: 0 });
+    expect(log[0]).toBe('BEGIN');
+    expect(log[1]).toContain('FROM "app"."events_outbox"');
+    expect(log[1]).toMatch(/LIMIT 5 FOR UPDATE SKIP LOCKED;$/);
+    expect(log[2]).toBe('COMMIT');
+  });
+
+  it('requires outbox mode and a delivery target', () => {
+    const publish = async () => { };
+    expect(() => new OutboxRelay(createOrm([], false), { transport: { publish } }))
+      .toThrow('OutboxRelay requires an Orm created with the outbox option');
+    expect(() => new OutboxRelay(createOrm([]), {})).toThrow('OutboxRelay requires a transport or handlers');
+  });
+});
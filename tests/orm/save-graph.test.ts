@@ -24,9 +24,14 @@ const createSessionWithSpy = () => {
       const match = sql.match(/INSERT INTO\s+"?([^\s"()]+)"?/i);
       if (match) {
         const table = match[1];
-        const next = (nextIds.get(table) ?? 0) + 1;
-        nextIds.set(table, next);
-        return [{ columns: ['id'], values: [[next]] }];
+        // One generated id per VALUES row (flushes batch same-table inserts).
+        const rowCount = (sql.match(/\), \(/g)?.length ?? 0) + 1;
+        const values = Array.from({ length: rowCount }, () => {
+          const next = (nextIds.get(table) ?? 0) + 1;
+          nextIds.set(table, next);
+          return [next];
+        });
+        return [{ columns: ['id'], values }];
       }
       return [{ columns: [], values: [] }];
     },
@@ -0,0 +1,249 @@
+import { describe, it, expect } from 'vitest';
+import { diffSchema } from '../../src/core/ddl/schema-diff.js';
+import {
+  MSSqlSchemaDialect,
+  MySqlSchemaDialect,
+  PostgresSchemaDialect,
+  SQLiteSchemaDialect
+} from '../../src/core/ddl/dialects/index.js';
+import { col } from '../../src/schema/column-types.js';
+import { defineTable } from '../../src/schema/table.js';
+import type { SchemaChangeKind, SchemaPlan } from '../../src/core/ddl/schema-diff.js';
+import type { DatabaseSchema } from '../../src/core/ddl/schema-types.js';
+
+const postgresDialect = new PostgresSchemaDialect();
+const mysqlDialect = new MySqlSchemaDialect();
+const mssqlDialect = new MSSqlSchemaDialect();
+const sqliteDialect = new SQLiteSchemaDialect();
+
+const changesOf = (plan: SchemaPlan, ...kinds: SchemaChangeKind[]) =>
+  plan.changes.filter(change => kinds.includes(change.kind));
+
+const actualUsers = (overrides: Partial<DatabaseSchema['tables'][number]> = {}): DatabaseSchema => ({
+  tables: [
+    {
+      name: 'users',
+      columns: [
+        { name: 'id', type: 'integer' },
+        { name: 'full_name', type: 'varchar(255)' }
+      ],
+      primaryKey: ['id'],
+      ...overrides
+    }
+  ]
+});
+
+describe('schema diff rename hints', () => {
+  const users = defineTable('users', {
+    id: col.primaryKey(col.int()),
+    display_name: col.renamedFrom(col.varchar(255), 'full_name')
+  });
+
+  it('renames a column instead of dropping and re-adding it', () => {
+    const plan = diffSchema([users], actualUsers(), postgresDialect, { allowDestructive: true });
+
+    expect(plan.changes.map(change => change.kind)).toEqual(['renameColumn']);
+    expect(plan.changes[0].statements).toEqual([
+      'ALTER TABLE "users" RENAME COLUMN "full_name" TO "display_name";'
+    ]);
+    expect(plan.changes[0].rollback).toEqual([
+      'ALTER TABLE "users" RENAME COLUMN "display_name" TO "full_name";'
+    ]);
+  });
+
+  it('renders column renames for every dialect', () => {
+    const statements = [mysqlDialect, mssqlDialect, sqliteDialect].map(
+      dialect => changesOf(diffSchema([users], actualUsers(), dialect), 'renameColumn')[0].statements
+    );
+
+    expect(statements).toEqual([
+      ['ALTER TABLE `users` RENAME COLUMN `full_name` TO `display_name`;'],
+      ["EXEC sp_rename N'[users].[full_name]', N'display_name', N'COLUMN';"],
+      ['ALTER TABLE "users" RENAME COLUMN "full_name" TO "display_name";']
+    ]);
+  });
+
+  it('renames a table and keeps diffing its columns', () => {
+    const accounts = defineTable(
+      'accounts',
+      {
+        id: col.primaryKey(col.int()),
+        full_name: col.varchar(255),
+        email: col.varchar(255)
+      },
+      {},
+      { renamedFrom: 'users' }
+    );
+
+    const plan = diffSchema([accounts], actualUsers(), mysqlDialect, { allowDestructive: true });
+    const changes = changesOf(plan, 'renameTable', 'createTable', 'addColumn', 'dropColumn', 'dropTable');
+
+    expect(changes.map(change => change.kind)).toEqual(['renameTable', 'addColumn']);
+    expect(changes[0].statements).toEqual(['RENAME TABLE `users` TO `accounts`;']);
+    expect(changes[0].rollback).toEqual(['RENAME TABLE `accounts` TO `users`;']);
+    expect(changes[1].statements[0]).toContain('ALTER TABLE `accounts` ADD');
+  });
+
+  it('ignores the hint when the previous table is still expected', () => {
+    const accounts = defineTable('accounts', { id: col.primaryKey(col.int()) }, {}, { renamedFrom: 'users' });
+    const keptUsers = defineTable('users', {
+      id: col.primaryKey(col.int()),
+      full_name: col.varchar(255)
+    });
+
+    const plan = diffSchema([accounts, keptUsers], actualUsers(), postgresDialect);
+
+    expect(plan.changes.map(change => change.kind)).toEqual(['createTable']);
+  });
+});
+
+describe('schema diff constraint and comment changes', () => {
+  const posts = (reference: { table: string; column: string; name?: string }) =>
+    defineTable('posts', {
+      id: col.primaryKey(col.int()),
+      author_id: col.references(col.int(), reference)
+    });
+
+  const actualPosts: DatabaseSchema = {
+    tables: [
+      {
+        name: 'posts',
+        schema: 'public',
+        columns: [
+          { name: 'id', type: 'integer' },
+          {
+            name: 'author_id',
+            type: 'integer',
+            references: { table: 'public.users', column: 'id', name: 'posts_author_id_fkey' }
+          }
+        ],
+        primaryKey: ['id']
+      }
+    ]
+  };
+
+  it('treats schema-qualified introspected references and generated names as equal', () => {
+    const table = { ...posts({ table: 'users', column: 'id' }), schema: 'public' };
+
+    expect(diffSchema([table], actualPosts, postgresDialect).changes).toEqual([]);
+  });
+
+  it('drops and re-adds a foreign key whose target changed', () => {
+    const table = { ...posts({ table: 'accounts', column: 'id', name: 'fk_posts_author' }), schema: 'public' };
+
+    const plan = diffSchema([table], actualPosts, postgresDialect);
+
+    expect(plan.warnings).toEqual([]);
+    expect(plan.changes.map(change => [change.kind, change.statements])).toEqual([
+      ['dropForeignKey', ['ALTER TABLE "public"."posts" DROP CONSTRAINT "posts_author_id_fkey";']],
+      [
+        'addForeignKey',
+        ['ALTER TABLE "public"."posts" ADD CONSTRAINT "fk_posts_author" FOREIGN KEY ("author_id") REFERENCES "accounts" ("id");']
+      ]
+    ]);
+    expect(plan.changes[1].rollback).toEqual([
+      'ALTER TABLE "public"."posts" DROP CONSTRAINT "fk_posts_author";'
+    ]);
+  });
+
+  it('warns when the dialect cannot alter foreign keys', () => {
+    const plan = diffSchema([posts({ table: 'accounts', column: 'id' })], {
+      tables: [{ ...actualPosts.tables[0], schema: undefined }]
+    }, sqliteDialect);
+
+    expect(plan.changes).toEqual([]);
+    expect(plan.warnings).toEqual([
+      'Foreign key definition on posts.author_id differs from the expected schema; manual constraint migration is required.'
+    ]);
+  });
+
+  it('adds and drops check constraints, matching named ones by name', () => {
+    const table = defineTable(
+      'users',
+      {
+        id: col.primaryKey(col.int()),
+        age: col.check(col.int(), 'age >= 0')
+      },
+      {},
+      {
+        checks: [
+          { name: 'chk_users_id', expression: 'id > 0' },
+          { name: 'chk_users_age_max', expression: 'age < 200' }
+        ]
+      }
+    );
+    const actual = actualUsers({
+      columns: [
+        { name: 'id', type: 'integer' },
+        { name: 'age', type: 'integer' }
+      ],
+      checks: [
+        { name: 'users_age_check', expression: '((age >= 0))' },
+        { name: 'chk_users_age', expression: '(age < 150)' },
+        { name: 'chk_legacy', expression: '(id <> 42)' }
+      ]
+    });
+
+    const safePlan = diffSchema([table], actual, mysqlDialect);
+    expect(changesOf(safePlan, 'addCheck', 'dropCheck').map(change => [change.kind, change.statements])).toEqual([
+      ['dropCheck', []],
+      ['dropCheck', []],
+      ['addCheck', ['ALTER TABLE `users` ADD CONSTRAINT `chk_users_id` CHECK (id > 0);']],
+      ['addCheck', ['ALTER TABLE `users` ADD CONSTRAINT `chk_users_age_max` CHECK (age < 200);']]
+    ]);
+
+    const plan = diffSchema([table], actual, mysqlDialect, { allowDestructive: true });
+    expect(plan.changes.filter(change => change.kind === 'dropCheck').map(change => change.statements)).toEqual([
+      ['ALTER TABLE `users` DROP CHECK `chk_users_age`;'],
+      ['ALTER TABLE `users` DROP CHECK `chk_legacy`;']
+    ]);
+  });
+
+  it('leaves checks alone when the introspector does not report them', () => {
+    const table = defineTable('users', { id: col.primaryKey(col.int()) }, {}, {
+      checks: [{ name: 'chk_users_id', expression: 'id > 0' }]
+    });
+    const actual = actualUsers({ columns: [{ name: 'id', type: 'integer' }] });
+
+    expect(diffSchema([table], actual, postgresDialect).changes).toEqual([]);
+  });
+
+  it('sets, updates and removes comments', () => {
+    const table = defineTable(
+      'users',
+      {
+        id: col.primaryKey(col.int()),
+        full_name: { ...col.varchar(255), comment: 'Display name' }
+      },
+      {},
+      { comment: '' }
+    );
+    const actual = actualUsers({ comment: 'Legacy users' });
+
+    const postgres = diffSchema([table], actual, postgresDialect);
+    expect(postgres.changes.map(change => [change.kind, change.statements, change.rollback])).toEqual([
+      [
+        'alterComment',
+        ['COMMENT ON COLUMN "users"."full_name" IS \'Display name\';'],
+        ['COMMENT ON COLUMN "users"."full_name" IS NULL;']
+      ],
+      [
+        'alterComment',
+        ['COMMENT ON TABLE "users" IS NULL;'],
+        ['COMMENT ON TABLE "users" IS \'Legacy users\';']
+      ]
+    ]);
+
+    const mssql = diffSchema([table], actual, mssqlDialect);
+    expect(changesOf(mssql, 'alterComment').map(change => change.statements)).toEqual([
+      [
+        "EXEC sp_addextendedproperty @name = N'MS_Description', @value = N'Display name', @level0type = N'SCHEMA', @level0name = N'dbo', @level1type = N'TABLE', @level1name = N'users', @level2type = N'COLUMN', @level2name = N'full_name';"
+      ],
+      [
+        "EXEC sp_dropextendedproperty @name = N'MS_Description', @level0type = N'SCHEMA', @level0name = N'dbo', @level1type = N'TABLE', @level1name = N'users';"
+      ]
+    ]);
+
+    expect(diffSchema([table], actual, sqliteDialect).changes).toEqual([]);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import { SelectQueryBuilder } from '../../src/query-builder/select.js';
+import { InsertQueryBuilder } from '../../src/query-builder/insert.js';
 import { defineTable } from '../../src/schema/table.js';
 import { col } from '../../src/schema/column-types.js';
 import { OrmSession } from '../../src/orm/orm-session.js';
@@ -95,6 +96,31 @@ describe('SQL Logging and Retrieval', () => {
             const ctx = interceptor.mock.calls[0][0];
             expect(ctx.sql).toContain('SELECT');
             expect(ctx.params).toEqual([99]);
+            expect(ctx.operation).toBe('select');
+            expect(ctx.tables).toEqual(['users']);
+            expect(ctx.session).toBe(session);
+        });
+
+        it('derives operation and tables from the AST and records executor time', async () => {
+            const pipeline = new InterceptorPipeline();
+            const seen: QueryContext[] = [];
+            pipeline.use(async (ctx, next) => {
+                seen.push(ctx);
+                const result = await next();
+                expect(ctx.durationMs).toBeGreaterThanOrEqual(0);
+                return result;
+            });
+            const insert = new InsertQueryBuilder(Users).values({ id: 1, name: 'Ada' });
+            const compiled = insert.compile(dialect);
+
+            await pipeline.run({ ...compiled, ast: insert.getAST() }, executor);
+            await pipeline.run({ sql: 'VACUUM', params: [] }, executor);
+
+            expect(seen.map(ctx => [ctx.operation, ctx.tables, ctx.inTransaction])).toEqual([
+                ['insert', ['users'], false],
+                ['raw', [], false]
+            ]);
+            expect(seen[0].startedAt).toBeGreaterThan(0);
         });
     });
 });
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  InsertQueryBuilder,
+  PostgresDialect,
+  SelectQueryBuilder,
+  col,
+  createTenantScopedDialect,
+  defineTable,
+  eq,
+  hasMany,
+  setRelations
+} from '../../src/index.js';
+
+const accounts = defineTable(
+  'scoped_accounts',
+  {
+    id: col.primaryKey(col.int()),
+    name: col.varchar(255),
+    org_id: col.int()
+  },
+  {},
+  { tenantColumn: 'org_id' }
+);
+
+const invoices = defineTable(
+  'scoped_invoices',
+  {
+    id: col.primaryKey(col.int()),
+    account_id: col.int(),
+    org_id: col.int()
+  },
+  {},
+  { tenantColumn: 'org_id' }
+);
+
+setRelations(accounts, { invoices: hasMany(invoices, 'account_id') });
+
+describe('tenant-scoped dialect', () => {
+  const dialect = createTenantScopedDialect(new PostgresDialect(), () => 7);
+
+  it('adds the tenant predicate to WHERE and to joined relations', () => {
+    const compiled = new SelectQueryBuilder(accounts)
+      .select({ id: accounts.columns.id })
+      .leftJoin(invoices, eq(invoices.columns.account_id, accounts.columns.id))
+      .where(eq(accounts.columns.name, 'Ada'))
+      .compile(dialect);
+
+    expect(compiled.sql).toBe(
+      'SELECT "scoped_accounts"."id" AS "id" FROM "scoped_accounts" ' +
+      'LEFT JOIN "scoped_invoices" ON "scoped_invoices"."account_id" = "scoped_accounts"."id" AND "scoped_invoices"."org_id" = $1 ' +
+      'WHERE "scoped_accounts"."name" = $2 AND "scoped_accounts"."org_id" = $3;'
+    );
+    expect(compiled.params).toEqual([7, 'Ada', 7]);
+  });
+
+  it('qualifies the predicate with the table alias', () => {
+    const compiled = new SelectQueryBuilder(accounts).as('a').select({ id: accounts.columns.id }).compile(dialect);
+    expect(compiled.sql).toBe('SELECT "a"."id" AS "id" FROM "scoped_accounts" AS "a" WHERE "a"."org_id" = $1;');
+  });
+
+  it('stamps inserts and rejects other tenants', () => {
+    const stamped = new InsertQueryBuilder(accounts).values({ id: 1, name: 'Ada' }).compile(dialect);
+    expect(stamped.sql).toBe('INSERT INTO "scoped_accounts" ("id", "name", "org_id") VALUES ($1, $2, $3);');
+    expect(stamped.params).toEqual([1, 'Ada', 7]);
+
+    expect(() =>
+      new InsertQueryBuilder(accounts).values({ id: 2, name: 'Bob', org_id: 8 }).compile(dialect)
+    ).toThrow('Cannot write tenant "8" into "scoped_accounts" from a session scoped to tenant "7".');
+  });
+
+  it('leaves statements untouched when no tenant is active', () => {
+    const unscoped = createTenantScopedDialect(new PostgresDialect(), () => undefined);
+    const compiled = new SelectQueryBuilder(accounts).select({ id: accounts.columns.id }).compile(unscoped);
+    expect(compiled.sql).toBe('SELECT "scoped_accounts"."id" AS "id" FROM "scoped_accounts";');
+  });
+
+  it('scopes each statement by its own definition, not by table name', () => {
+    const lookalike = defineTable('scoped_accounts', { id: col.primaryKey(col.int()), name: col.varchar(255) });
+
+    expect(new SelectQueryBuilder(lookalike).select({ id: lookalike.columns.id }).compile(dialect).sql).toBe(
+      'SELECT "scoped_accounts"."id" AS "id" FROM "scoped_accounts";'
+    );
+    expect(new InsertQueryBuilder(lookalike).values({ id: 1, name: 'Ada' }).compile(dialect).sql).toBe(
+      'INSERT INTO "scoped_accounts" ("id", "name") VALUES ($1, $2);'
+    );
+    expect(new SelectQueryBuilder(accounts).select({ id: accounts.columns.id }).compile(dialect).sql).toBe(
+      'SELECT "scoped_accounts"."id" AS "id" FROM "scoped_accounts" WHERE "scoped_accounts"."org_id" = $1;'
+    );
+  });
+
+  it('rejects unknown tenant columns', () => {
+    expect(() =>
+      defineTable('broken', { id: col.primaryKey(col.int()) }, {}, { tenantColumn: 'org_id' })
+    ).toThrow('Tenant column "org_id" is not defined on table "broken".');
+  });
+});
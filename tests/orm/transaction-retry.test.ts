@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SqliteDialect } from '../../src/core/dialect/sqlite/index.js';
+import type { DbExecutor, QueryResult } from '../../src/core/execution/db-executor.js';
+import type { TransactionOptions } from '../../src/core/execution/transaction-options.js';
+import { isTransientTransactionError } from '../../src/core/execution/transaction-options.js';
+import { Orm } from '../../src/orm/orm.js';
+import { Users } from '../fixtures/schema.js';
+
+const serializationFailure = () => Object.assign(new Error('could not serialize access'), { code: '40001' });
+
+const createMockExecutor = (commitFailures: unknown[] = []) => {
+  const beginTransaction = vi.fn(async (_options?: TransactionOptions) => { });
+  const commitTransaction = vi.fn(async () => {
+    const failure = commitFailures.shift();
+    if (failure) throw failure;
+  });
+  const rollbackTransaction = vi.fn(async () => { });
+  const executor: DbExecutor = {
+    capabilities: { transactions: true, savepoints: true },
+    async executeSql() {
+      return [] as QueryResult[];
+    },
+    beginTransaction,
+    commitTransaction,
+    rollbackTransaction,
+    savepoint: vi.fn(async () => { }),
+    releaseSavepoint: vi.fn(async () => { }),
+    rollbackToSavepoint: vi.fn(async () => { }),
+    dispose: vi.fn(async () => { })
+  };
+  return { executor, beginTransaction, commitTransaction, rollbackTransaction };
+};
+
+const createOrm = (executor: DbExecutor) =>
+  new Orm({
+    dialect: new SqliteDialect(),
+    executorFactory: {
+      createExecutor: () => executor,
+      createTransactionalExecutor: () => executor,
+      dispose: async () => { }
+    }
+  });
+
+describe('transaction options', () => {
+  it('passes isolation level and access mode to the executor', async () => {
+    const { executor, beginTransaction } = createMockExecutor();
+    const orm = createOrm(executor);
+
+    await orm.transaction(async () => undefined, { isolationLevel: 'SERIALIZABLE', readOnly: true });
+
+    expect(beginTransaction).toHaveBeenCalledWith({ isolationLevel: 'SERIALIZABLE', readOnly: true });
+  });
+
+  it('re-runs the callback with a fresh session state after a serialization failure', async () => {
+    const { executor, beginTransaction, rollbackTransaction } = createMockExecutor([serializationFailure()]);
+    const session = createOrm(executor).createSession();
+    const onRetry = vi.fn();
+    const trackedPerAttempt: number[] = [];
+
+    const result = await session.transaction(async tx => {
+      trackedPerAttempt.push(tx.tracked.length);
+      tx.trackManaged(Users, 1, { id: 1, name: 'Ada' });
+      return 'done';
+    }, { retry: { maxAttempts: 3, initialDelayMs: 0, onRetry } });
+
+    expect(result).toBe('done');
+    expect(beginTransaction).toHaveBeenCalledTimes(2);
+    expect(rollbackTransaction).toHaveBeenCalledTimes(1);
+    expect(trackedPerAttempt).toEqual([0, 0]);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delayMs: 0 }));
+  });
+
+  it('stops retrying after maxAttempts or on non-transient errors', async () => {
+    const failures = [serializationFailure(), serializationFailure(), serializationFailure()];
+    const exhausted = createMockExecutor(failures);
+    await expect(
+      createOrm(exhausted.executor).transaction(async () => undefined, { retry: { maxAttempts: 2, initialDelayMs: 0 } })
+    ).rejects.toThrow('could not serialize access');
+    expect(exhausted.beginTransaction).toHaveBeenCalledTimes(2);
+
+    const plain = createMockExecutor();
+    const fn = vi.fn(async () => {
+      throw new Error('constraint violated');
+    });
+    await expect(createOrm(plain.executor).transaction(fn, { retry: true })).rejects.toThrow('constraint violated');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects options on nested transactions', async () => {
+    const { executor } = createMockExecutor();
+    const session = createOrm(executor).createSession();
+
+    await expect(
+      session.transaction(tx => tx.transaction(async () => undefined, { isolationLevel: 'SERIALIZABLE' }))
+    ).rejects.toThrow('Transaction options can only be set on the outermost session.transaction call');
+  });
+
+  it('classifies deadlocks and serialization failures across drivers', () => {
+    expect(isTransientTransactionError({ code: '40P01' })).toBe(true);
+    expect(isTransientTransactionError({ errno: 1213 })).toBe(true);
+    expect(isTransientTransactionError({ number: 1205 })).toBe(true);
+    expect(isTransientTransactionError({ code: 'SQLITE_BUSY' })).toBe(true);
+    expect(isTransientTransactionError(new Error('wrapped', { cause: { code: '40001' } }))).toBe(true);
+    expect(isTransientTransactionError(new Error('syntax error'))).toBe(false);
+  });
+});
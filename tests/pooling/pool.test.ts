@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from 'vitest';
 
 import { Pool } from '../../src/core/execution/pooling/pool.js';
+import { InMemoryInstrumentation } from '../../src/core/execution/instrumentation/in-memory-instrumentation.js';
 
 describe('Pool', () => {
     it('acquires and releases resources', async () => {
@@ -26,5 +27,34 @@ describe('Pool', () => {
         await pool.destroy();
         expect(destroy).toHaveBeenCalled();
     });
+
+    it('records an acquire span and wait time for every acquire', async () => {
+        const instrumentation = new InMemoryInstrumentation();
+        const pool = new Pool(
+            {
+                create: async () => ({}),
+                destroy: async () => { },
+            },
+            { max: 1, acquireTimeoutMillis: 20, instrumentation }
+        );
+
+        const lease = await pool.acquire();
+        const waiting = pool.acquire();
+        setTimeout(() => void lease.release(), 5);
+        const second = await waiting;
+        await second.release();
+        const held = await pool.acquire();
+        await expect(pool.acquire()).rejects.toThrow('Pool acquire timeout');
+        await held.release();
+
+        const spans = instrumentation.spansNamed('db.pool.acquire');
+        expect(spans).toHaveLength(4);
+        expect(spans.every(span => span.ended && span.attributes['db.client.connection.pool.max'] === 1)).toBe(true);
+        expect(spans[3].errors).toHaveLength(1);
+        const waits = instrumentation.metricsNamed('db.client.connection.wait_time').map(metric => metric.value);
+        expect(waits).toHaveLength(4);
+        expect(waits[1]).toBeGreaterThan(0.003);
+        await pool.destroy();
+    });
 });
 
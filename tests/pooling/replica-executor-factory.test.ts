@@ -0,0 +1,199 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { Pool } from '../../src/core/execution/pooling/pool.js';
+import { createPooledExecutorFactory } from '../../src/orm/pooled-executor-factory.js';
+import { createReplicaExecutorFactory, isReplicaSafeQuery } from '../../src/orm/replica-executor-factory.js';
+import { Orm } from '../../src/orm/orm.js';
+import { SqliteDialect } from '../../src/core/dialect/sqlite/index.js';
+import { selectFrom } from '../../src/query/index.js';
+import { Users } from '../fixtures/schema.js';
+
+type Conn = { name: string };
+
+const createTarget = (name: string, log: string[]) => {
+    const pool = new Pool<Conn>(
+        {
+            create: async () => ({ name }),
+            destroy: async () => { },
+        },
+        { max: 2 }
+    );
+    return createPooledExecutorFactory({
+        pool,
+        adapter: {
+            async query(conn: Conn, sql: string) {
+                log.push(`${conn.name}: ${sql}`);
+                return [];
+            },
+            async beginTransaction(conn: Conn) {
+                log.push(`${conn.name}: BEGIN`);
+            },
+            async commitTransaction(conn: Conn) {
+                log.push(`${conn.name}: COMMIT`);
+            },
+            async rollbackTransaction(conn: Conn) {
+                log.push(`${conn.name}: ROLLBACK`);
+            },
+        },
+    });
+};
+
+describe('createReplicaExecutorFactory', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('routes reads outside transactions round-robin and everything else to the primary', async () => {
+        const log: string[] = [];
+        const factory = createReplicaExecutorFactory({
+            primary: createTarget('primary', log),
+            replicas: [createTarget('r1', log), createTarget('r2', log)],
+        });
+        const exec = factory.createExecutor();
+
+        await exec.executeSql('SELECT 1');
+        await exec.executeSql('WITH x AS (SELECT 1) SELECT * FROM x');
+        await exec.executeSql('SELECT 3');
+        await exec.executeSql('SELECT * FROM users FOR UPDATE');
+        await exec.executeSql('SELECT 4', [], { usePrimary: true });
+        await exec.executeSql('UPDATE users SET name = ?');
+        await exec.beginTransaction();
+        await exec.executeSql('SELECT 5');
+        await exec.commitTransaction();
+        await factory.createTransactionalExecutor().executeSql('SELECT 6');
+
+        expect(log).toEqual([
+            'r1: SELECT 1',
+            'r2: WITH x AS (SELECT 1) SELECT * FROM x',
+            'r1: SELECT 3',
+            'primary: SELECT * FROM users FOR UPDATE',
+            'primary: SELECT 4',
+            'primary: UPDATE users SET name = ?',
+            'primary: BEGIN',
+            'primary: SELECT 5',
+            'primary: COMMIT',
+            'primary: SELECT 6',
+        ]);
+        await factory.dispose();
+    });
+
+    it('keeps a session on the primary during the sticky window after a write', async () => {
+        const log: string[] = [];
+        const factory = createReplicaExecutorFactory({
+            primary: createTarget('primary', log),
+            replicas: [createTarget('replica', log)],
+            stickyPrimaryMs: 1000,
+        });
+        const now = vi.spyOn(Date, 'now').mockReturnValue(10_000);
+        const writer = factory.createExecutor();
+        const other = factory.createExecutor();
+
+        await writer.executeSql('DELETE FROM users');
+        await writer.executeSql('SELECT 1');
+        await other.executeSql('SELECT 2');
+        now.mockReturnValue(11_001);
+        await writer.executeSql('SELECT 3');
+
+        expect(log).toEqual([
+            'primary: DELETE FROM users',
+            'primary: SELECT 1',
+            'replica: SELECT 2',
+            'replica: SELECT 3',
+        ]);
+    });
+
+    it('starts the sticky window on commit when a transaction outlasts it', async () => {
+        const log: string[] = [];
+        const factory = createReplicaExecutorFactory({
+            primary: createTarget('primary', log),
+            replicas: [createTarget('replica', log)],
+            stickyPrimaryMs: 50,
+        });
+        const now = vi.spyOn(Date, 'now').mockReturnValue(10_000);
+        const exec = factory.createExecutor();
+
+        await exec.beginTransaction();
+        await exec.executeSql('UPDATE users SET name = ?');
+        now.mockReturnValue(10_080);
+        await exec.commitTransaction();
+        await exec.executeSql('SELECT 1');
+        await exec.beginTransaction();
+        await exec.executeSql('SELECT 2');
+        await exec.commitTransaction();
+        now.mockReturnValue(10_131);
+        await exec.executeSql('SELECT 3');
+
+        expect(log).toEqual([
+            'primary: BEGIN',
+            'primary: UPDATE users SET name = ?',
+            'primary: COMMIT',
+            'primary: SELECT 1',
+            'primary: BEGIN',
+            'primary: SELECT 2',
+            'primary: COMMIT',
+            'replica: SELECT 3',
+        ]);
+    });
+
+    it('picks the least busy replica', async () => {
+        const started: string[] = [];
+        const releases: Array<() => void> = [];
+        const slowTarget = (name: string) => createPooledExecutorFactory({
+            pool: new Pool<Conn>({ create: async () => ({ name }), destroy: async () => { } }, { max: 5 }),
+            adapter: {
+                query: (conn: Conn) => new Promise(resolve => {
+                    started.push(conn.name);
+                    releases.push(() => resolve([]));
+                }),
+                beginTransaction: async () => { },
+                commitTransaction: async () => { },
+                rollbackTransaction: async () => { },
+            },
+        });
+        const factory = createReplicaExecutorFactory({
+            primary: slowTarget('primary'),
+            replicas: [slowTarget('r1'), slowTarget('r2')],
+            strategy: 'least-busy',
+        });
+        const exec = factory.createExecutor();
+
+        const first = exec.executeSql('SELECT 1');
+        const second = exec.executeSql('SELECT 2');
+        await vi.waitFor(() => expect(started).toHaveLength(2));
+        releases.shift()!();
+        await first;
+        const third = exec.executeSql('SELECT 3');
+        await vi.waitFor(() => expect(started).toHaveLength(3));
+        releases.forEach(release => release());
+        await Promise.all([second, third]);
+
+        expect(started).toEqual(['r1', 'r2', 'r1']);
+    });
+
+    it('classifies replica-safe statements', () => {
+        expect(isReplicaSafeQuery('/* report */ SELECT * FROM users')).toBe(true);
+        expect(isReplicaSafeQuery('(SELECT 1) UNION (SELECT 2)')).toBe(true);
+        expect(isReplicaSafeQuery('SELECT updated_at FROM users')).toBe(true);
+        expect(isReplicaSafeQuery('SELECT * INTO archive FROM users')).toBe(false);
+        expect(isReplicaSafeQuery('WITH d AS (DELETE FROM users RETURNING *) SELECT * FROM d')).toBe(false);
+        expect(isReplicaSafeQuery('SELECT * FROM users FOR SHARE')).toBe(false);
+        expect(isReplicaSafeQuery('INSERT INTO users (id) VALUES (1)')).toBe(false);
+    });
+
+    it('routes ORM reads through readReplicas and honors usePrimary()', async () => {
+        const log: string[] = [];
+        const orm = new Orm({
+            dialect: new SqliteDialect(),
+            executorFactory: createTarget('primary', log),
+            readReplicas: { replicas: [createTarget('replica', log)] },
+        });
+        const session = orm.createSession();
+
+        await selectFrom(Users).select('id').execute(session);
+        await selectFrom(Users).select('id').usePrimary().execute(session);
+        await selectFrom(Users).select('id').usePrimary().count(session);
+
+        expect(log.map(entry => entry.split(':')[0])).toEqual(['replica', 'primary', 'primary']);
+        await orm.dispose();
+    });
+});
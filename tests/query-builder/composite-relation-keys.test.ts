@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { SelectQueryBuilder, belongsTo, col, defineTable, hasMany, setRelations } from '../../src/index.js';
+
+const lines = defineTable('ck_lines', {
+  orderId: col.primaryKey(col.int()),
+  lineNo: col.primaryKey(col.int()),
+  sku: col.varchar(64)
+});
+
+const notes = defineTable('ck_notes', {
+  id: col.primaryKey(col.int()),
+  orderId: col.int(),
+  lineNo: col.int(),
+  body: col.varchar(255)
+});
+
+setRelations(lines, { notes: hasMany(notes, ['orderId', 'lineNo']) });
+setRelations(notes, { line: belongsTo(lines, ['orderId', 'lineNo']) });
+
+describe('composite relation keys', () => {
+  it('joins has-many relations on every key column', () => {
+    const sql = new SelectQueryBuilder(lines)
+      .select({ sku: lines.columns.sku })
+      .include('notes', { columns: ['body'] })
+      .toSql('sqlite');
+    expect(sql).toContain(
+      'LEFT JOIN "ck_notes" ON "ck_notes"."orderId" = "ck_lines"."orderId" AND "ck_notes"."lineNo" = "ck_lines"."lineNo"'
+    );
+    expect(sql).toContain('"ck_lines"."orderId" AS "orderId"');
+    expect(sql).toContain('"ck_lines"."lineNo" AS "lineNo"');
+    expect(sql).toContain('"ck_notes"."id" AS "notes__id"');
+  });
+
+  it('selects every foreign key column for belongs-to includes', () => {
+    const sql = new SelectQueryBuilder(notes)
+      .select({ body: notes.columns.body })
+      .include('line', { columns: ['sku'] })
+      .toSql('sqlite');
+    expect(sql).toContain(
+      'LEFT JOIN "ck_lines" ON "ck_lines"."orderId" = "ck_notes"."orderId" AND "ck_lines"."lineNo" = "ck_notes"."lineNo"'
+    );
+    expect(sql).toContain('"ck_notes"."lineNo" AS "lineNo"');
+  });
+
+  it('rejects relations pairing mismatched key counts', () => {
+    const broken = defineTable('ck_broken', { id: col.primaryKey(col.int()), orderId: col.int() });
+    setRelations(broken, { line: belongsTo(lines, ['orderId'], ['orderId', 'lineNo']) });
+    expect(() =>
+      new SelectQueryBuilder(broken).select({ id: broken.columns.id }).include('line').toSql('sqlite')
+    ).toThrow('Relation from "ck_broken" to "ck_lines" pairs 1 foreign key column(s) with 2 local key column(s).');
+  });
+});
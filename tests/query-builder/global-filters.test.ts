@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DeleteQueryBuilder,
+  SelectQueryBuilder,
+  addGlobalFilter,
+  col,
+  defineTable,
+  eq,
+  exists,
+  hasMany,
+  parseSelectSql,
+  setRelations
+} from '../../src/index.js';
+
+const authors = defineTable(
+  'gf_authors',
+  {
+    id: col.primaryKey(col.int()),
+    name: col.varchar(255),
+    deletedAt: col.timestamp()
+  },
+  {},
+  { softDeleteColumn: 'deletedAt' }
+);
+
+const articles = defineTable(
+  'gf_articles',
+  {
+    id: col.primaryKey(col.int()),
+    authorId: col.int(),
+    status: col.varchar(16),
+    deletedAt: col.timestamp()
+  },
+  {},
+  {
+    softDeleteColumn: 'deletedAt',
+    filters: { published: c => eq(c.status, 'published') }
+  }
+);
+
+setRelations(authors, { articles: hasMany(articles, 'authorId') });
+
+const base = () => new SelectQueryBuilder(authors).select({ id: authors.columns.id });
+
+describe('global filters', () => {
+  it('excludes soft-deleted rows by default', () => {
+    expect(base().toSql('sqlite')).toBe(
+      'SELECT "gf_authors"."id" AS "id" FROM "gf_authors" WHERE "gf_authors"."deletedAt" IS NULL;'
+    );
+  });
+
+  it('applies every named filter of joined relations inside the join condition', () => {
+    const sql = base().include('articles', { columns: ['id'] }).toSql('sqlite');
+    expect(sql).toContain(
+      'LEFT JOIN "gf_articles" ON "gf_articles"."authorId" = "gf_authors"."id" AND ' +
+      '("gf_articles"."status" = ? AND "gf_articles"."deletedAt" IS NULL)'
+    );
+    expect(sql).toContain('WHERE "gf_authors"."deletedAt" IS NULL');
+  });
+
+  it('supports withTrashed(), onlyTrashed() and withoutGlobalFilters()', () => {
+    expect(base().withTrashed().toSql('sqlite')).toBe('SELECT "gf_authors"."id" AS "id" FROM "gf_authors";');
+    expect(base().onlyTrashed().toSql('sqlite')).toBe(
+      'SELECT "gf_authors"."id" AS "id" FROM "gf_authors" WHERE "gf_authors"."deletedAt" IS NOT NULL;'
+    );
+
+    const articleQuery = new SelectQueryBuilder(articles).select({ id: articles.columns.id });
+    expect(articleQuery.withoutGlobalFilters('published').toSql('sqlite')).toBe(
+      'SELECT "gf_articles"."id" AS "id" FROM "gf_articles" WHERE "gf_articles"."deletedAt" IS NULL;'
+    );
+    expect(articleQuery.withoutGlobalFilters().toSql('sqlite')).toBe(
+      'SELECT "gf_articles"."id" AS "id" FROM "gf_articles";'
+    );
+  });
+
+  it('filters subqueries built by nested builders exactly once', () => {
+    const sql = base()
+      .where(exists(new SelectQueryBuilder(articles).select({ id: articles.columns.id }).getAST()))
+      .toSql('sqlite');
+    expect(sql.match(/"gf_articles"\."deletedAt" IS NULL/g)).toHaveLength(1);
+    expect(sql.match(/"gf_authors"\."deletedAt" IS NULL/g)).toHaveLength(1);
+  });
+
+  it('leaves nested queries to their own builder, so raw ASTs stay unfiltered', () => {
+    const published = () => new SelectQueryBuilder(articles).select({ id: articles.columns.id });
+    const fromBuilder = new SelectQueryBuilder(articles)
+      .fromSubquery(published(), 'a')
+      .select({ id: { type: 'Column', table: 'a', name: 'id' } })
+      .toSql('sqlite');
+    expect(fromBuilder).toBe(
+      'SELECT "a"."id" AS "id" FROM (SELECT "gf_articles"."id" AS "id" FROM "gf_articles" ' +
+      'WHERE "gf_articles"."status" = ? AND "gf_articles"."deletedAt" IS NULL) AS "a";'
+    );
+
+    const optedOut = base().where(exists(published().withTrashed().withoutGlobalFilters('published').getAST())).toSql('sqlite');
+    expect(optedOut).not.toContain('"gf_articles"."deletedAt" IS NULL');
+
+    const raw = base().where(exists(parseSelectSql('SELECT id FROM gf_articles'))).toSql('sqlite');
+    expect(raw).toBe(
+      'SELECT "gf_authors"."id" AS "id" FROM "gf_authors" WHERE EXISTS (SELECT 1 FROM "gf_articles") ' +
+      'AND "gf_authors"."deletedAt" IS NULL;'
+    );
+  });
+
+  it('reads filters from the query\'s own definition, not from tables sharing its name', () => {
+    const reportAuthors = defineTable('gf_authors', { id: col.primaryKey(col.int()), name: col.varchar(255) });
+    expect(new SelectQueryBuilder(reportAuthors).select({ id: reportAuthors.columns.id }).toSql('sqlite')).toBe(
+      'SELECT "gf_authors"."id" AS "id" FROM "gf_authors";'
+    );
+    expect(base().toSql('sqlite')).toBe(
+      'SELECT "gf_authors"."id" AS "id" FROM "gf_authors" WHERE "gf_authors"."deletedAt" IS NULL;'
+    );
+  });
+
+  it('uses the query alias to qualify filter columns', () => {
+    expect(new SelectQueryBuilder(authors).as('a').select({ id: authors.columns.id }).toSql('sqlite')).toBe(
+      'SELECT "a"."id" AS "id" FROM "gf_authors" AS "a" WHERE "a"."deletedAt" IS NULL;'
+    );
+  });
+
+  it('registers filters added after the table was defined', () => {
+    const tags = defineTable('gf_tags', { id: col.primaryKey(col.int()), hidden: col.boolean() });
+    addGlobalFilter(tags, 'visible', c => eq(c.hidden, false));
+    expect(new SelectQueryBuilder(tags).select({ id: tags.columns.id }).toSql('sqlite')).toBe(
+      'SELECT "gf_tags"."id" AS "id" FROM "gf_tags" WHERE "gf_tags"."hidden" = ?;'
+    );
+  });
+
+  it('rejects onlyTrashed() on tables without a soft-delete column', () => {
+    const plain = defineTable('gf_plain', { id: col.primaryKey(col.int()) });
+    expect(() => new SelectQueryBuilder(plain).onlyTrashed()).toThrow(
+      'onlyTrashed() requires table "gf_plain" to declare a softDeleteColumn.'
+    );
+  });
+});
+
+describe('soft-delete DELETE statements', () => {
+  it('compiles DELETE as an UPDATE stamping the soft-delete column', () => {
+    const compiled = new DeleteQueryBuilder(authors).where(eq(authors.columns.id, 1)).compile('postgres');
+    expect(compiled.sql).toBe(
+      'UPDATE "gf_authors" SET "deletedAt" = $1 WHERE "gf_authors"."id" = $2 AND "gf_authors"."deletedAt" IS NULL;'
+    );
+    expect(compiled.params[0]).toBeInstanceOf(Date);
+    expect(compiled.params[1]).toBe(1);
+  });
+
+  it('issues a real DELETE after forceDelete()', () => {
+    const compiled = new DeleteQueryBuilder(authors).where(eq(authors.columns.id, 1)).forceDelete().compile('postgres');
+    expect(compiled.sql).toBe('DELETE FROM "gf_authors" WHERE "gf_authors"."id" = $1;');
+  });
+});
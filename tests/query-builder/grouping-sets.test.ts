@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SelectQueryBuilder,
+  col,
+  count,
+  countAll,
+  defineTable,
+  eq,
+  grouping,
+  gt,
+  sum
+} from '../../src/index.js';
+
+const sales = defineTable('sales', {
+  id: col.primaryKey(col.int()),
+  region: col.varchar(32),
+  year: col.int(),
+  amount: col.int(),
+  refunded: col.boolean()
+});
+
+const totals = () =>
+  new SelectQueryBuilder(sales).select({
+    region: sales.columns.region,
+    year: sales.columns.year,
+    total: sum(sales.columns.amount)
+  });
+
+describe('GROUP BY grouping sets', () => {
+  it('compiles ROLLUP, CUBE and GROUPING SETS on PostgreSQL', () => {
+    expect(totals().groupByRollup(sales.columns.region, sales.columns.year).toSql('postgres')).toBe(
+      'SELECT "sales"."region" AS "region", "sales"."year" AS "year", SUM("sales"."amount") AS "total" ' +
+      'FROM "sales" GROUP BY ROLLUP("sales"."region", "sales"."year");'
+    );
+    expect(totals().groupByCube(sales.columns.region, sales.columns.year).toSql('postgres')).toContain(
+      'GROUP BY CUBE("sales"."region", "sales"."year");'
+    );
+    expect(
+      totals()
+        .groupByGroupingSets([sales.columns.region, sales.columns.year], [sales.columns.region], [])
+        .toSql('postgres')
+    ).toContain('GROUP BY GROUPING SETS (("sales"."region", "sales"."year"), ("sales"."region"), ());');
+  });
+
+  it('combines plain terms with grouping constructs and GROUPING()', () => {
+    const sql = new SelectQueryBuilder(sales)
+      .select({
+        year: sales.columns.year,
+        region: sales.columns.region,
+        isSubtotal: grouping(sales.columns.region),
+        total: sum(sales.columns.amount)
+      })
+      .groupBy(sales.columns.year)
+      .groupByRollup(sales.columns.region)
+      .toSql('mssql');
+
+    expect(sql).toBe(
+      'SELECT [sales].[year] AS [year], [sales].[region] AS [region], GROUPING([sales].[region]) AS [isSubtotal], ' +
+      'SUM([sales].[amount]) AS [total] FROM [sales] GROUP BY [sales].[year], ROLLUP([sales].[region]);'
+    );
+  });
+
+  it('renders a sole ROLLUP as WITH ROLLUP on MySQL and rejects the rest', () => {
+    expect(totals().groupByRollup(sales.columns.region, sales.columns.year).toSql('mysql')).toContain(
+      'GROUP BY `sales`.`region`, `sales`.`year` WITH ROLLUP;'
+    );
+    expect(() => totals().groupByCube(sales.columns.region).toSql('mysql')).toThrow(
+      'CUBE is not supported by dialect "mysql".'
+    );
+    expect(() => totals().groupBy(sales.columns.year).groupByRollup(sales.columns.region).toSql('mysql')).toThrow(
+      /only supports ROLLUP of single terms as the sole GROUP BY element/
+    );
+  });
+
+  it('rejects grouping constructs on SQLite', () => {
+    expect(() => totals().groupByRollup(sales.columns.region).toSql('sqlite')).toThrow(
+      'ROLLUP is not supported by dialect "sqlite".'
+    );
+    expect(totals().groupBy(sales.columns.region).toSql('sqlite')).toContain('GROUP BY "sales"."region";');
+  });
+});
+
+describe('aggregate FILTER', () => {
+  const filtered = () =>
+    new SelectQueryBuilder(sales)
+      .select({
+        region: sales.columns.region,
+        refunds: countAll().filter(eq(sales.columns.refunded, true)),
+        big: sum(sales.columns.amount).filter(gt(sales.columns.amount, 100))
+      })
+      .groupBy(sales.columns.region);
+
+  it('compiles FILTER (WHERE ...) natively on PostgreSQL and SQLite', () => {
+    const compiled = filtered().compile('postgres');
+    expect(compiled.sql).toBe(
+      'SELECT "sales"."region" AS "region", COUNT(*) FILTER (WHERE "sales"."refunded" = $1) AS "refunds", ' +
+      'SUM("sales"."amount") FILTER (WHERE "sales"."amount" > $2) AS "big" FROM "sales" GROUP BY "sales"."region";'
+    );
+    expect(compiled.params).toEqual([true, 100]);
+    expect(filtered().toSql('sqlite')).toContain('COUNT(*) FILTER (WHERE "sales"."refunded" = ?)');
+  });
+
+  it('falls back to CASE WHEN arguments on MySQL and SQL Server', () => {
+    const mysql = filtered().compile('mysql');
+    expect(mysql.sql).toBe(
+      'SELECT `sales`.`region` AS `region`, COUNT(CASE WHEN `sales`.`refunded` = ? THEN ? END) AS `refunds`, ' +
+      'SUM(CASE WHEN `sales`.`amount` > ? THEN `sales`.`amount` END) AS `big` FROM `sales` GROUP BY `sales`.`region`;'
+    );
+    expect(mysql.params).toEqual([true, 1, 100]);
+    expect(filtered().toSql('mssql')).toContain('SUM(CASE WHEN [sales].[amount] > @p3 THEN [sales].[amount] END) AS [big]');
+  });
+
+  it('keeps aggregate nodes plain and immutable', () => {
+    const base = count(sales.columns.id);
+    const withFilter = base.filter(eq(sales.columns.refunded, false));
+
+    expect(base).toEqual({ type: 'Function', name: 'COUNT', args: [{ type: 'Column', table: 'sales', name: 'id' }] });
+    expect(withFilter.aggregateFilter).toBeDefined();
+    expect(typeof withFilter.filter).toBe('function');
+    expect(Object.keys(withFilter)).not.toContain('filter');
+  });
+});
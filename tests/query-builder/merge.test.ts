@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PostgresDialect,
+  SelectQueryBuilder,
+  col,
+  createTenantScopedDialect,
+  defineTable,
+  eq,
+  gt,
+  mergeInto
+} from '../../src/index.js';
+
+const users = defineTable('users', {
+  id: col.primaryKey(col.int()),
+  name: col.varchar(255),
+  active: col.boolean()
+});
+
+const stagedUsers = defineTable('staged_users', {
+  id: col.primaryKey(col.int()),
+  name: col.varchar(255),
+  removed: col.boolean()
+});
+
+const upsertFromStaging = () =>
+  mergeInto(users)
+    .using(stagedUsers)
+    .on(eq(users.columns.id, stagedUsers.columns.id))
+    .whenMatched(eq(stagedUsers.columns.removed, true)).delete()
+    .whenMatched().update({ name: stagedUsers.columns.name })
+    .whenNotMatched().insert({ id: stagedUsers.columns.id, name: stagedUsers.columns.name, active: true });
+
+describe('MergeQueryBuilder compilation', () => {
+  it('compiles native PostgreSQL MERGE', () => {
+    const compiled = upsertFromStaging().compile('postgres');
+
+    expect(compiled.sql).toBe(
+      'MERGE INTO "users" USING "staged_users" ON "users"."id" = "staged_users"."id" ' +
+      'WHEN MATCHED AND "staged_users"."removed" = $1 THEN DELETE ' +
+      'WHEN MATCHED THEN UPDATE SET "name" = "staged_users"."name" ' +
+      'WHEN NOT MATCHED THEN INSERT ("id", "name", "active") VALUES ("staged_users"."id", "staged_users"."name", $2);'
+    );
+    expect(compiled.params).toEqual([true, true]);
+  });
+
+  it('compiles SQL Server MERGE with OUTPUT through the returning strategy', () => {
+    const compiled = upsertFromStaging()
+      .returning(users.columns.id, users.columns.name)
+      .compile('mssql');
+
+    expect(compiled.sql).toBe(
+      'MERGE INTO [users] USING [staged_users] ON [users].[id] = [staged_users].[id] ' +
+      'WHEN MATCHED AND [staged_users].[removed] = @p1 THEN DELETE ' +
+      'WHEN MATCHED THEN UPDATE SET [name] = [staged_users].[name] ' +
+      'WHEN NOT MATCHED THEN INSERT ([id], [name], [active]) VALUES ([staged_users].[id], [staged_users].[name], @p2) ' +
+      'OUTPUT inserted.[id], inserted.[name];'
+    );
+  });
+
+  it('merges from an aliased subquery with RETURNING on PostgreSQL', () => {
+    const recent = new SelectQueryBuilder(stagedUsers)
+      .select({ id: stagedUsers.columns.id, name: stagedUsers.columns.name })
+      .where(gt(stagedUsers.columns.id, 10));
+
+    const compiled = mergeInto(users)
+      .as('u')
+      .using(recent, 's')
+      .on(eq({ type: 'Column', table: 'u', name: 'id' }, { type: 'Column', table: 's', name: 'id' }))
+      .whenMatched().update({ name: { type: 'Column', table: 's', name: 'name' } })
+      .returning(users.columns.id)
+      .compile('postgres');
+
+    expect(compiled.sql).toBe(
+      'MERGE INTO "users" AS "u" USING (SELECT "staged_users"."id" AS "id", "staged_users"."name" AS "name" ' +
+      'FROM "staged_users" WHERE "staged_users"."id" > $1) AS "s" ON "u"."id" = "s"."id" ' +
+      'WHEN MATCHED THEN UPDATE SET "name" = "s"."name" RETURNING "u"."id";'
+    );
+    expect(compiled.params).toEqual([10]);
+  });
+
+  it('reports a capability error on MySQL and SQLite', () => {
+    expect(() => upsertFromStaging().compile('mysql')).toThrow(
+      'MERGE is not supported by this dialect; use InsertQueryBuilder.onConflict() for single-row upserts.'
+    );
+    expect(() => upsertFromStaging().compile('sqlite')).toThrow(/MERGE is not supported/);
+  });
+
+  it('validates incomplete statements', () => {
+    expect(() => mergeInto(users).on(eq(users.columns.id, 1)).getAST()).toThrow('MERGE requires a source; call using().');
+    expect(() => mergeInto(users).using(stagedUsers).getAST()).toThrow('MERGE requires a match condition; call on().');
+    expect(() => mergeInto(users).using(stagedUsers).on(eq(users.columns.id, 1)).compile('postgres'))
+      .toThrow('MERGE queries require at least one WHEN clause.');
+    expect(() => mergeInto(users).using(new SelectQueryBuilder(stagedUsers).select({ id: stagedUsers.columns.id })))
+      .toThrow('MERGE subquery sources require an alias.');
+  });
+});
+
+describe('MergeQueryBuilder tenant scoping', () => {
+  const accounts = defineTable('merge_tenant_accounts', {
+    id: col.primaryKey(col.int()),
+    tenant_id: col.int(),
+    name: col.varchar(255)
+  }, {}, { tenantColumn: 'tenant_id' });
+
+  it('rejects tenant-scoped targets and scopes subquery sources', () => {
+    const dialect = createTenantScopedDialect(new PostgresDialect(), () => 7) as PostgresDialect;
+
+    const intoAccounts = mergeInto(accounts)
+      .using(stagedUsers)
+      .on(eq(accounts.columns.id, stagedUsers.columns.id))
+      .whenMatched().delete();
+    expect(() => intoAccounts.compile(dialect)).toThrow(
+      'MERGE cannot reference tenant-scoped table "merge_tenant_accounts" from a tenant-scoped session'
+    );
+
+    const fromAccounts = mergeInto(users)
+      .using(new SelectQueryBuilder(accounts).select({ id: accounts.columns.id, name: accounts.columns.name }), 'a')
+      .on(eq(users.columns.id, { type: 'Column', table: 'a', name: 'id' }))
+      .whenMatched().update({ name: { type: 'Column', table: 'a', name: 'name' } })
+      .compile(dialect);
+    expect(fromAccounts.sql).toContain('WHERE "merge_tenant_accounts"."tenant_id" = $1) AS "a"');
+    expect(fromAccounts.params).toEqual([7]);
+  });
+});
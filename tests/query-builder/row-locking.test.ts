@@ -0,0 +1,136 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  Orm,
+  OrmSession,
+  PostgresDialect,
+  SelectQueryBuilder,
+  col,
+  defineTable,
+  eq
+} from '../../src/index.js';
+import type { DbExecutor, QueryResult } from '../../src/index.js';
+
+const jobs = defineTable('jobs', {
+  id: col.primaryKey(col.int()),
+  status: col.varchar(32),
+  workerId: col.int()
+});
+
+const workers = defineTable('workers', {
+  id: col.primaryKey(col.int()),
+  name: col.varchar(255)
+});
+
+const pendingJobs = () =>
+  new SelectQueryBuilder(jobs)
+    .select({ id: jobs.columns.id })
+    .where(eq(jobs.columns.status, 'pending'))
+    .limit(10);
+
+describe('SELECT row locking', () => {
+  it('compiles FOR UPDATE SKIP LOCKED on PostgreSQL', () => {
+    const compiled = pendingJobs().forUpdate().skipLocked().compile('postgres');
+    expect(compiled.sql).toBe(
+      'SELECT "jobs"."id" AS "id" FROM "jobs" WHERE "jobs"."status" = $1 LIMIT 10 FOR UPDATE SKIP LOCKED;'
+    );
+    expect(compiled.params).toEqual(['pending']);
+  });
+
+  it('compiles FOR SHARE NOWAIT on MySQL', () => {
+    const compiled = pendingJobs().forShare().noWait().compile('mysql');
+    expect(compiled.sql).toBe(
+      'SELECT `jobs`.`id` AS `id` FROM `jobs` WHERE `jobs`.`status` = ? LIMIT 10 FOR SHARE NOWAIT;'
+    );
+  });
+
+  it('restricts the lock to the given tables with OF, honouring aliases', () => {
+    const compiled = new SelectQueryBuilder(jobs)
+      .as('j')
+      .select({ id: jobs.columns.id })
+      .forUpdate()
+      .of(jobs)
+      .compile('postgres');
+    expect(compiled.sql).toBe('SELECT "j"."id" AS "id" FROM "jobs" AS "j" FOR UPDATE OF "j";');
+
+    const joined = new SelectQueryBuilder(jobs)
+      .select({ id: jobs.columns.id })
+      .innerJoin(workers, eq(workers.columns.id, jobs.columns.workerId))
+      .forUpdate()
+      .of('jobs', 'workers')
+      .compile('postgres');
+    expect(joined.sql).toBe(
+      'SELECT "jobs"."id" AS "id" FROM "jobs" INNER JOIN "workers" ON "workers"."id" = "jobs"."workerId" FOR UPDATE OF "jobs", "workers";'
+    );
+  });
+
+  it('compiles SQL Server table hints instead of a suffix clause', () => {
+    const compiled = pendingJobs().forUpdate().skipLocked().compile('mssql');
+    expect(compiled.sql).toBe(
+      'SELECT [jobs].[id] AS [id] FROM [jobs] WITH (UPDLOCK, ROWLOCK, READPAST) WHERE [jobs].[status] = @p1 ORDER BY (SELECT NULL) OFFSET 0 ROWS FETCH NEXT 10 ROWS ONLY;'
+    );
+  });
+
+  it('applies SQL Server hints only to the OF tables', () => {
+    const compiled = new SelectQueryBuilder(jobs)
+      .select({ id: jobs.columns.id })
+      .innerJoin(workers, eq(workers.columns.id, jobs.columns.workerId))
+      .forShare()
+      .of(workers)
+      .compile('mssql');
+    expect(compiled.sql).toBe(
+      'SELECT [jobs].[id] AS [id] FROM [jobs] INNER JOIN [workers] WITH (HOLDLOCK, ROWLOCK) ON [workers].[id] = [jobs].[workerId];'
+    );
+  });
+
+  it('rejects row locking on SQLite', () => {
+    expect(() => pendingJobs().forUpdate().compile('sqlite')).toThrow(
+      'Row locking clauses are not supported by dialect "sqlite".'
+    );
+  });
+
+  it('requires a lock mode before wait options or OF', () => {
+    expect(() => pendingJobs().skipLocked()).toThrow('skipLocked() requires forUpdate() or forShare() to be called first.');
+    expect(() => pendingJobs().noWait()).toThrow('noWait() requires forUpdate() or forShare() to be called first.');
+    expect(() => pendingJobs().of(jobs)).toThrow('of() requires forUpdate() or forShare() to be called first.');
+  });
+
+  it('rejects OF tables that are not part of the query', () => {
+    expect(() => pendingJobs().forUpdate().of(workers)).toThrow(
+      'Cannot lock table "workers": it is not part of the query.'
+    );
+  });
+
+  it('rejects locks combined with set operations', () => {
+    const qb = pendingJobs().forUpdate().union(new SelectQueryBuilder(jobs).select({ id: jobs.columns.id }));
+    expect(() => qb.compile('postgres')).toThrow('Row locking clauses cannot be combined with set operations.');
+  });
+
+  it('accepts a lock mode on OrmSession.findOne', async () => {
+    const executeSql = vi.fn(async (): Promise<QueryResult[]> => [{ columns: [], values: [] }]);
+    const executor: DbExecutor = {
+      capabilities: { transactions: true },
+      executeSql,
+      async beginTransaction() { },
+      async commitTransaction() { },
+      async rollbackTransaction() { },
+      async dispose() { }
+    };
+    const orm = new Orm({
+      dialect: new PostgresDialect(),
+      executorFactory: {
+        createExecutor: () => executor,
+        createTransactionalExecutor: () => executor,
+        dispose: async () => { }
+      }
+    });
+    const session = new OrmSession({ orm, executor });
+
+    await session.findOne(
+      new SelectQueryBuilder(jobs).where(eq(jobs.columns.status, 'pending')),
+      { lock: { mode: 'update', wait: 'skipLocked' } }
+    );
+
+    const [sql] = executeSql.mock.calls[0] as unknown as [string];
+    expect(sql).toMatch(/ LIMIT 1 FOR UPDATE SKIP LOCKED;$/);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SelectQueryBuilder,
+  avg,
+  col,
+  count,
+  countAll,
+  currentRow,
+  defineTable,
+  eq,
+  following,
+  groupsBetween,
+  over,
+  preceding,
+  rangeBetween,
+  rowNumber,
+  rowsBetween,
+  sum,
+  unboundedFollowing,
+  unboundedPreceding
+} from '../../../src/index.js';
+
+const orders = defineTable('orders', {
+  id: col.primaryKey(col.int()),
+  userId: col.int(),
+  day: col.int(),
+  amount: col.int()
+});
+
+const byUserAndDay = {
+  partitionBy: [orders.columns.userId],
+  orderBy: [{ column: orders.columns.day }]
+};
+
+describe('window frames', () => {
+  it('runs aggregates over a window with a ROWS frame on every dialect', () => {
+    const query = new SelectQueryBuilder(orders).select({
+      id: orders.columns.id,
+      runningTotal: over(sum(orders.columns.amount), {
+        ...byUserAndDay,
+        frame: rowsBetween(unboundedPreceding(), currentRow())
+      })
+    });
+
+    const window = (q: (id: string) => string) =>
+      `SUM(${q('orders')}.${q('amount')}) OVER (PARTITION BY ${q('orders')}.${q('userId')} ` +
+      `ORDER BY ${q('orders')}.${q('day')} ASC ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW)`;
+
+    expect(query.toSql('postgres')).toContain(window(id => `"${id}"`));
+    expect(query.toSql('sqlite')).toContain(window(id => `"${id}"`));
+    expect(query.toSql('mysql')).toContain(window(id => `\`${id}\``));
+    expect(query.toSql('mssql')).toContain(window(id => `[${id}]`));
+  });
+
+  it('renders offset bounds and adds frames to window functions', () => {
+    const query = new SelectQueryBuilder(orders).select({
+      movingAvg: over(avg(orders.columns.amount), {
+        orderBy: [{ column: orders.columns.day }],
+        frame: rowsBetween(preceding(6), currentRow())
+      }),
+      around: over(countAll(), {
+        orderBy: [{ column: orders.columns.day }],
+        frame: rangeBetween(preceding(1), following(1))
+      }),
+      position: over(rowNumber(), { orderBy: [{ column: orders.columns.amount, direction: 'DESC' }] })
+    });
+
+    expect(query.toSql('postgres')).toBe(
+      'SELECT AVG("orders"."amount") OVER (ORDER BY "orders"."day" ASC ROWS BETWEEN 6 PRECEDING AND CURRENT ROW) AS "movingAvg", ' +
+      'COUNT(*) OVER (ORDER BY "orders"."day" ASC RANGE BETWEEN 1 PRECEDING AND 1 FOLLOWING) AS "around", ' +
+      'ROW_NUMBER() OVER (ORDER BY "orders"."amount" DESC) AS "position" FROM "orders";'
+    );
+  });
+
+  it('rejects frames a dialect cannot express', () => {
+    const withFrame = (frame: ReturnType<typeof rowsBetween>) =>
+      new SelectQueryBuilder(orders).select({
+        total: over(sum(orders.columns.amount), { orderBy: [{ column: orders.columns.day }], frame })
+      });
+
+    const groups = withFrame(groupsBetween(preceding(1), currentRow()));
+    expect(groups.toSql('postgres')).toContain('GROUPS BETWEEN 1 PRECEDING AND CURRENT ROW');
+    expect(groups.toSql('sqlite')).toContain('GROUPS BETWEEN 1 PRECEDING AND CURRENT ROW');
+    expect(() => groups.toSql('mysql')).toThrow(
+      'Window frame "GROUPS BETWEEN 1 PRECEDING AND CURRENT ROW" is not supported by dialect "mysql".'
+    );
+
+    const range = withFrame(rangeBetween(preceding(3), currentRow()));
+    expect(range.toSql('mysql')).toContain('RANGE BETWEEN 3 PRECEDING AND CURRENT ROW');
+    expect(() => range.toSql('mssql')).toThrow(/is not supported by dialect "mssql"/);
+    expect(withFrame(rangeBetween(unboundedPreceding(), unboundedFollowing())).toSql('mssql')).toContain(
+      'RANGE BETWEEN UNBOUNDED PRECEDING AND UNBOUNDED FOLLOWING'
+    );
+  });
+
+  it('validates frame offsets and window inputs', () => {
+    expect(() => preceding(-1)).toThrow('Window frame offsets must be non-negative numbers, got -1.');
+    expect(() => over(sum(orders.columns.amount).filter(eq(orders.columns.day, 1)), {})).toThrow(
+      /does not support FILTER or DISTINCT/
+    );
+  });
+});
+
+describe('named windows', () => {
+  const named = () =>
+    new SelectQueryBuilder(orders)
+      .window('byUser', byUserAndDay)
+      .select({
+        id: orders.columns.id,
+        runningTotal: over(sum(orders.columns.amount), 'byUser'),
+        lastThree: over(count(orders.columns.id), {
+          window: 'byUser',
+          frame: rowsBetween(preceding(2), currentRow())
+        })
+      });
+
+  it('compiles a WINDOW clause on PostgreSQL, MySQL and SQLite', () => {
+    expect(named().toSql('postgres')).toBe(
+      'SELECT "orders"."id" AS "id", SUM("orders"."amount") OVER "byUser" AS "runningTotal", ' +
+      'COUNT("orders"."id") OVER ("byUser" ROWS BETWEEN 2 PRECEDING AND CURRENT ROW) AS "lastThree" ' +
+      'FROM "orders" WINDOW "byUser" AS (PARTITION BY "orders"."userId" ORDER BY "orders"."day" ASC);'
+    );
+    expect(named().toSql('mysql')).toContain(
+      'WINDOW `byUser` AS (PARTITION BY `orders`.`userId` ORDER BY `orders`.`day` ASC);'
+    );
+    expect(named().toSql('sqlite')).toContain('SUM("orders"."amount") OVER "byUser"');
+  });
+
+  it('inlines named windows on SQL Server', () => {
+    expect(named().toSql('mssql')).toBe(
+      'SELECT [orders].[id] AS [id], ' +
+      'SUM([orders].[amount]) OVER (PARTITION BY [orders].[userId] ORDER BY [orders].[day] ASC) AS [runningTotal], ' +
+      'COUNT([orders].[id]) OVER (PARTITION BY [orders].[userId] ORDER BY [orders].[day] ASC ' +
+      'ROWS BETWEEN 2 PRECEDING AND CURRENT ROW) AS [lastThree] FROM [orders];'
+    );
+  });
+
+  it('rejects duplicate and unknown windows', () => {
+    expect(() => named().window('byUser', {})).toThrow('Window "byUser" is already defined.');
+    const unknown = new SelectQueryBuilder(orders)
+      .window('byUser', byUserAndDay)
+      .select({ total: over(sum(orders.columns.amount), 'missing') });
+    expect(() => unknown.toSql('mssql')).toThrow('Window "missing" is not defined in the WINDOW clause.');
+  });
+});